@@ -22,6 +22,7 @@ import {
   filterApplianceProducts,
   recommendApplianceProducts,
   excludedCategories,
+  cooktopInstructionsFromProduct,
   APPLIANCE_CATEGORY_ORDER,
 } from '../src/pages/homeowner/applianceSelection';
 import type { ApplianceCategory } from '../src/pages/homeowner/applianceSelection';
@@ -665,6 +666,17 @@ const orderedIds = (rows: unknown[]) => (rows as { id: string }[]).map(r => r.id
       .every(item => !/wall mixer|basin/i.test(item.name)));
 }
 
+// Cooktop installation clearances feed the gas clearance rules.
+{
+  const gas = product({ id: 'gas-cooktop', name: '90cm Gas Cooktop', category: 'cooktop', rangehood_clearance_mm: 700, trivet_height_mm: 0 });
+  const instructions = cooktopInstructionsFromProduct(gas);
+  check('the cooktop row carries its installation clearances into the brief',
+    instructions?.rangehoodClearanceMm === 700 && instructions.trivetHeightMm === 0 && instructions.overheadClearanceMm === undefined,
+    JSON.stringify(instructions));
+  check('a cooktop without recorded instructions leaves the brief to the profile',
+    cooktopInstructionsFromProduct(PRODUCTS[1]) === undefined && cooktopInstructionsFromProduct(undefined) === undefined);
+}
+
 console.log(failures === 0
   ? '\nAPPLIANCE OVERLAYS + COOKING FILTER + CATALOGUE SEARCH: all assertions pass'
   : `\n${failures} FAILURES`);
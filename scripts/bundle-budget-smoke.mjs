@@ -1,6 +1,6 @@
 import assert from 'node:assert/strict';
 import { readFileSync, readdirSync, statSync } from 'node:fs';
-import { resolve } from 'node:path';
+import { join, resolve } from 'node:path';
 
 const dist = resolve('dist');
 const html = readFileSync(resolve(dist, 'index.html'), 'utf8');
@@ -19,6 +19,19 @@ const javascriptAssets = assets.filter((name) => name.endsWith('.js'));
 assert.deepEqual(javascriptAssets, [entryMatch[1].replace('assets/', '')],
   'production must remain a single JavaScript bundle so browser protections cannot block lazy route modules');
 
+// vite.config.ts leaves html2canvas, canvg and dompurify out of the bundle:
+// jsPDF loads them only for doc.html() and addSvgAsImage(). Using either
+// would need them back in, so neither may appear in the app.
+const sourceFiles = (dir) => readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+  const path = join(dir, entry.name);
+  if (entry.isDirectory()) return sourceFiles(path);
+  return /\.(ts|tsx)$/.test(entry.name) ? [path] : [];
+});
+const jspdfExternalCallers = sourceFiles(resolve('src'))
+  .filter((path) => /\.html\(|\baddSvgAsImage\(/.test(readFileSync(path, 'utf8')));
+assert.deepEqual(jspdfExternalCallers, [],
+  'jsPDF html()/addSvgAsImage() need html2canvas, canvg and dompurify, which the build leaves external');
+
 console.log(
   `bundle budget: self-contained entry ${(entryBytes / 1024).toFixed(1)} KiB`,
 );
@@ -0,0 +1,105 @@
+// Calibration: ratio fits with confidence intervals, stage-scaled time
+// rates, per-material yield factors, the jobs-since-approval filter and the
+// active rates from approved versions.
+// Run via `npm run test:calibration` (esbuild bundles the module first).
+import { resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+const {
+  fitRatio, calibrateTimeRates, calibrateYieldFactors, jobsSinceCalibration, activeTimeRates,
+  latestCalibration, hasTimeChanges, MIN_CALIBRATION_JOBS,
+} = await import(pathToFileURL(resolve('.tmp-snap-test/calibration.mjs')).href);
+
+let pass = 0;
+let fail = 0;
+const check = (name, ok, detail = '') => {
+  if (ok) { pass += 1; console.log(`PASS  ${name}`); }
+  else { fail += 1; console.log(`FAIL  ${name}${detail ? ` — ${detail}` : ''}`); }
+};
+
+const RATES = {
+  cutHoursPerCarcaseSheet: 0.25, cutHoursPerDoorSheet: 0.5, edgeHoursPerLm: 0.033,
+  assemblyBase: 0.55, assemblyTall: 0.75, assemblyMicrowave: 1.25, assemblyPerDrawer: 0.125,
+  machineRate: 120, labourRate: 95,
+};
+
+const job = (id, quotedHours, actualHours, boards = [], sheetsUsed = {}, quotedAt = '2026-09-01T00:00:00Z') => ({
+  id,
+  quoted: { hours: quotedHours, boards, quotedAt },
+  actuals: { job_id: id, invoice_totals: {}, labour_hours: actualHours, sheets_used: sheetsUsed, notes: null, updated_at: '' },
+});
+const board = (materialId, partArea) => ({ materialId, materialName: materialId, partArea, sheetArea: 5, yieldFactor: 0.85 });
+
+// ---- ratio fit ----
+{
+  const exact = fitRatio([{ x: 10, y: 12 }, { x: 20, y: 24 }, { x: 5, y: 6 }]);
+  check('exact data fits its ratio', exact.estimate === 1.2 && exact.low === 1.2 && exact.high === 1.2, JSON.stringify(exact));
+  const noisy = fitRatio([{ x: 10, y: 11 }, { x: 10, y: 13 }, { x: 10, y: 12 }]);
+  check('noisy data has an interval around the fit', noisy.low < 1.2 && noisy.high > 1.2 && Math.abs(noisy.estimate - 1.2) < 1e-9, JSON.stringify(noisy));
+  const single = fitRatio([{ x: 4, y: 5 }]);
+  check('one job has no spread', single.jobs === 1 && single.low === single.estimate);
+  check('zero quotes carry no information', fitRatio([{ x: 0, y: 3 }]) === null);
+  const wider = fitRatio([{ x: 10, y: 8 }, { x: 10, y: 16 }, { x: 10, y: 12 }]);
+  check('more spread widens the interval', wider.high - wider.low > noisy.high - noisy.low);
+}
+
+// ---- time rates ----
+{
+  const jobs = [
+    job('a', { cut: 4, edge: 2, assembly: 10 }, { cut: 4, edge: 2, assembly: 12 }),
+    job('b', { cut: 2, edge: 1, assembly: 5 }, { cut: 2, edge: 1, assembly: 6 }),
+    job('c', { cut: 3, edge: 3, assembly: 8 }, { cut: 3, edge: 3, assembly: 9.6 }),
+  ];
+  const cal = calibrateTimeRates(jobs, RATES);
+  const assembly = cal.stages.find(s => s.stage === 'assembly');
+  check('assembly runs 20% over', assembly.estimate === 1.2 && assembly.ready);
+  check('every assembly rate scales', cal.proposed.assemblyBase === 0.66 && cal.proposed.assemblyPerDrawer === 0.15, JSON.stringify(cal.proposed));
+  check('accurate stages keep their rates', cal.proposed.cutHoursPerCarcaseSheet === 0.25 && cal.proposed.edgeHoursPerLm === 0.033);
+  check('dollar rates are never fitted', cal.proposed.machineRate === 120 && cal.proposed.labourRate === 95);
+  check('the proposal changes something', hasTimeChanges(cal));
+
+  const few = calibrateTimeRates(jobs.slice(0, MIN_CALIBRATION_JOBS - 1), RATES);
+  check('too few jobs proposes nothing', !hasTimeChanges(few) && few.stages.every(s => !s.ready));
+  const partial = calibrateTimeRates([...jobs, job('d', { cut: 1, edge: 1, assembly: 1 }, { assembly: 1.2 })], RATES);
+  check('unrecorded stages are left out of their fit',
+    partial.stages.find(s => s.stage === 'cut').jobs === 3 && partial.stages.find(s => s.stage === 'assembly').jobs === 4);
+}
+
+// ---- yield factors ----
+{
+  const jobs = [
+    job('a', {}, {}, [board('white', 16), board('oak', 4)], { white: 4, oak: 1 }),
+    job('b', {}, {}, [board('white', 8)], { white: 2 }),
+    job('c', {}, {}, [board('white', 12), board('oak', 4.5)], { white: 3, oak: 1 }),
+    job('d', {}, {}, [board('white', 4)], {}),
+  ];
+  const fits = calibrateYieldFactors(jobs, { white: 0.85, oak: 0.85 });
+  const white = fits.find(f => f.materialId === 'white');
+  check('yield is part area over sheet area used', white.estimate === 0.8 && white.proposed === 0.8 && white.ready, JSON.stringify(white));
+  check('jobs without a sheet count are skipped', white.jobs === 3);
+  const oak = fits.find(f => f.materialId === 'oak');
+  check('materials short of jobs keep their yield', !oak.ready && oak.proposed === 0.85 && oak.jobs === 2);
+  check('best-supported materials list first', fits[0].materialId === 'white');
+  const impossible = calibrateYieldFactors([1, 2, 3].map(i => job(`x${i}`, {}, {}, [board('bad', 30)], { bad: 1 })), { bad: 0.85 });
+  check('a yield over 100% is not proposed', !impossible[0].ready && impossible[0].proposed === 0.85);
+}
+
+// ---- versions ----
+{
+  const jobs = [job('old', {}, {}, [], {}, '2026-08-01T00:00:00Z'), job('new', {}, {}, [], {}, '2026-09-10T00:00:00Z'), job('never', {}, {}, [], {}, '')];
+  check('only jobs quoted since the last approval count',
+    jobsSinceCalibration(jobs, '2026-09-01T00:00:00Z').map(j => j.id).join() === 'new');
+  check('no approval uses every job', jobsSinceCalibration(jobs, null).length === 3);
+
+  const rows = [
+    { version: 1, kind: 'time', time_rates: { ...RATES, assemblyBase: 0.6 }, yield_factors: null, approved_at: '2026-08-01' },
+    { version: 2, kind: 'yield', time_rates: null, yield_factors: { white: 0.8 }, approved_at: '2026-09-01' },
+    { version: 3, kind: 'time', time_rates: { ...RATES, assemblyBase: 0.66 }, yield_factors: null, approved_at: '2026-10-01' },
+  ];
+  check('latest approved time rates are active', activeTimeRates(rows).assemblyBase === 0.66);
+  check('no approvals means the defaults', activeTimeRates([]).assemblyBase === 0.55);
+  check('latest version across kinds', latestCalibration(rows).version === 3 && latestCalibration(rows, 'yield').version === 2);
+}
+
+console.log(`\n${pass} passed, ${fail} failed`);
+if (fail) process.exit(1);
@@ -16,8 +16,8 @@ mkdirSync(OUT, { recursive: true });
 writeFileSync(path.join(OUT, 'package.json'), '{"type":"commonjs"}');
 const LAYOUT_DIR = path.join(ROOT, 'src/lib/layout');
 const LAYOUT_FILES = [
-  'types', 'versions', 'schemas', 'geometry', 'briefConstraints', 'polygon', 'blindCorner', 'catalogRoles', 'catalogCapabilities', 'styleDNA', 'solveRun', 'compileSpec',
-  'rules', 'validate', 'defaultSpec', 'priceDesign', 'wizardAdapter', 'proposalState',
+  'types', 'versions', 'schemas', 'geometry', 'briefConstraints', 'polygon', 'obstructions', 'blindCorner', 'roomTypes', 'catalogRoles', 'catalogCapabilities', 'styleDNA', 'solveRun', 'compileSpec',
+  'rulePack', 'sinkWetZone', 'rules', 'validate', 'cooktopClearance', 'defaultSpec', 'priceDesign', 'wizardAdapter', 'proposalState',
   'designScore', 'candidateGenerator', 'index',
 ];
 
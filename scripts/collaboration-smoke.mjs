@@ -0,0 +1,88 @@
+// Trade room collaboration: two planners on the in-memory transport, presence,
+// and the per-cabinet three-way merge that guards saves against stale writes.
+// Run via `npm run test:collaboration` (esbuild bundles the module first).
+import { resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+const {
+  createLocalTransport, applyCollabMessage, updatePeers, mergeTradeRooms, StaleWriteError, COLLAB_PEER_TIMEOUT_MS,
+} = await import(pathToFileURL(resolve('.tmp-snap-test/collaboration.mjs')).href);
+
+let pass = 0;
+let fail = 0;
+const check = (name, ok, detail = '') => {
+  if (ok) { pass += 1; console.log(`PASS  ${name}`); }
+  else { fail += 1; console.log(`FAIL  ${name}${detail ? ` — ${detail}` : ''}`); }
+};
+
+const cabinet = (instanceId, cabinetNumber, width, x) => ({
+  instanceId, cabinetNumber, definitionId: 'BDR', productName: 'Base 1 Door', category: 'Base',
+  dimensions: { width, height: 720, depth: 575 }, materials: { exteriorFinish: 'White' },
+  position: { x, y: 0, z: 287.5, rotation: 0 }, isPlaced: true,
+  createdAt: '2026-10-19T00:00:00.000Z', updatedAt: '2026-10-19T00:00:00.000Z',
+});
+const room = (cabinets, extra = {}) => ({ id: 'r1', name: 'Kitchen', config: { width: 4000, depth: 3000, height: 2400 }, cabinets, ...extra });
+
+// ---- live edits over the local transport ----
+const a = createLocalTransport('trade-job:1');
+const b = createLocalTransport('trade-job:1');
+const other = createLocalTransport('trade-job:2');
+let roomsA = [room([cabinet('x', 'C01', 600, 300)])];
+let roomsB = [room([cabinet('x', 'C01', 600, 300)])];
+const seenByA = [];
+const seenByOther = [];
+a.onMessage(m => { seenByA.push(m); roomsA = applyCollabMessage(roomsA, m); });
+b.onMessage(m => { roomsB = applyCollabMessage(roomsB, m); });
+other.onMessage(m => seenByOther.push(m));
+
+b.send({ type: 'cabinet-patch', clientId: 'b', roomId: 'r1', instanceId: 'x', updates: { position: { x: 900, y: 0, z: 287.5, rotation: 0 }, updatedAt: new Date('2026-10-19T01:00:00Z') } });
+check('transport: a move reaches the other planner on the same job only', roomsA[0].cabinets[0].position.x === 900 && seenByOther.length === 0);
+check('transport: the sender does not receive its own message', roomsB[0].cabinets[0].position.x === 300);
+check('transport: dates arrive as strings and are revived', roomsA[0].cabinets[0].updatedAt instanceof Date && roomsA[0].cabinets[0].updatedAt.getUTCHours() === 1);
+
+b.send({ type: 'cabinet-upsert', clientId: 'b', roomId: 'r1', cabinet: cabinet('y', 'C02', 450, 1500) });
+b.send({ type: 'cabinet-remove', clientId: 'b', roomId: 'r1', instanceId: 'x' });
+check('transport: adds and removals are applied by instance id', roomsA[0].cabinets.map(c => c.instanceId).join() === 'y');
+const unchanged = applyCollabMessage(roomsA, { type: 'cabinet-remove', clientId: 'b', roomId: 'nope', instanceId: 'y' });
+check('apply: operations on a room this planner does not have are ignored', unchanged === roomsA);
+a.close();
+b.send({ type: 'cabinet-remove', clientId: 'b', roomId: 'r1', instanceId: 'y' });
+check('transport: a closed transport hears nothing', roomsA[0].cabinets.length === 1 && seenByA.length === 3);
+
+// ---- presence ----
+let peers = updatePeers([], { type: 'hello', clientId: 'c1', name: 'Sam', roomId: 'r1' }, 1000);
+peers = updatePeers(peers, { type: 'heartbeat', clientId: 'c2', name: 'Alex', roomId: null }, 2000);
+check('presence: peers are listed by name', peers.map(p => p.name).join() === 'Alex,Sam');
+peers = updatePeers(peers, { type: 'cabinet-remove', clientId: 'c1', roomId: 'r1', instanceId: 'x' }, 30_000);
+peers = updatePeers(peers, null, 2000 + COLLAB_PEER_TIMEOUT_MS);
+check('presence: silent peers time out, editing peers stay', peers.map(p => p.name).join() === 'Sam');
+check('presence: bye removes a peer at once', updatePeers(peers, { type: 'bye', clientId: 'c1' }, 31_000).length === 0);
+
+// ---- stale-write merge ----
+const base = [room([cabinet('x', 'C01', 600, 300), cabinet('y', 'C02', 450, 900), cabinet('z', 'C03', 900, 1575)])];
+const mine = [room([cabinet('x', 'C01', 650, 325), cabinet('y', 'C02', 450, 900), cabinet('z', 'C03', 900, 1575), cabinet('n', 'C04', 300, 2200)])];
+// jsonb hands objects back with keys reordered; that is not a change.
+const reorder = c => Object.fromEntries(Object.entries(c).reverse());
+const theirs = [room([reorder(cabinet('x', 'C01', 600, 300)), cabinet('y', 'C02', 500, 925), cabinet('t', 'C05', 600, 3000)])];
+
+const merged = mergeTradeRooms(base, mine, theirs);
+const ids = merged.rooms[0].cabinets.map(c => `${c.instanceId}:${c.dimensions.width}`).join();
+check('merge: both sides\' edits, adds and removals survive', merged.conflicts.length === 0 && ids === 'x:650,y:500,n:300,t:600', ids);
+
+const clash = [room([cabinet('x', 'C01', 600, 300), cabinet('y', 'C02', 600, 950), cabinet('z', 'C03', 900, 1575)])];
+const conflicted = mergeTradeRooms(base, clash, theirs);
+check('merge: the same cabinet changed on both sides is a conflict', conflicted.conflicts.length === 1 && conflicted.conflicts[0].cabinetNumber === 'C02', JSON.stringify(conflicted.conflicts));
+const editedRemoved = mergeTradeRooms(base, [room([cabinet('x', 'C01', 600, 300), cabinet('y', 'C02', 450, 900), cabinet('z', 'C03', 800, 1575)])], theirs);
+check('merge: editing a cabinet the other side deleted is a conflict', editedRemoved.conflicts.some(c => c.cabinetNumber === 'C03'));
+const same = mergeTradeRooms(base, theirs, theirs);
+check('merge: identical changes on both sides do not conflict', same.conflicts.length === 0);
+const settings = mergeTradeRooms(base, [room(base[0].cabinets, { name: 'Kitchen A' })], [room(base[0].cabinets, { name: 'Kitchen B' })]);
+check('merge: conflicting room settings are reported without a cabinet', settings.conflicts.length === 1 && settings.conflicts[0].instanceId === undefined);
+const stamps = mergeTradeRooms(base, [room(base[0].cabinets.map(c => ({ ...c, updatedAt: '2026-10-19T05:00:00.000Z' })))], theirs);
+check('merge: a bare updatedAt stamp is not an edit', stamps.conflicts.length === 0 && stamps.rooms[0].cabinets.find(c => c.instanceId === 'y').dimensions.width === 500);
+
+const err = new StaleWriteError(conflicted.conflicts);
+check('StaleWriteError names the cabinets', err instanceof Error && err.name === 'StaleWriteError' && /C02/.test(err.message));
+
+console.log(`\n${pass} passed, ${fail} failed`);
+process.exit(fail === 0 ? 0 : 1);
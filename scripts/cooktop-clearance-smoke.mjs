@@ -0,0 +1,143 @@
+// Gas cooktop vertical clearances: what sits above the cooktop is measured on
+// the compiled design, held to the matched regulatory profile (or to the
+// cooktop's installation instructions when stricter) and reported through
+// KRN-RH-001 / KRN-COOK-002.
+// Run via `npm run test:cooktop-clearance` (esbuild bundles the modules first).
+import { resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+const L = await import(pathToFileURL(resolve('.tmp-snap-test/cooktop-clearance-layout.mjs')).href);
+const D = await import(pathToFileURL(resolve('.tmp-snap-test/cooktop-clearance-design.mjs')).href);
+
+let pass = 0;
+let fail = 0;
+const check = (name, ok, detail = '') => {
+  if (ok) { pass += 1; console.log(`PASS  ${name}`); }
+  else { fail += 1; console.log(`FAIL  ${name}${detail ? ` — ${detail}` : ''}`); }
+};
+
+const room = {
+  width: 4200, depth: 3600, height: 2700, shape: 'Rectangle', cutoutWidth: 0, cutoutDepth: 0,
+  openings: [], services: [],
+};
+const briefFor = (appliances = {}) => ({
+  room, household: {}, priorities: ['storage'],
+  appliances: { cooktop: 'gas', dishwasher: true, ...appliances }, island: 'no',
+});
+const spec = L.defaultSpecFor(briefFor(), 'l-shape');
+const design = L.compileSpec(spec, room);
+const dims = L.dimensionsForRoomType(undefined);
+const benchtop = dims.baseHeight + dims.benchtopThickness;
+
+async function approvedProfile(jurisdiction, edit = p => p) {
+  const draft = D.REGULATORY_PROFILE_DRAFTS.find(d => d.jurisdiction === jurisdiction);
+  const row = {
+    id: 'row', profile_key: draft.profileId, version: '1.0.0-draft', jurisdiction,
+    project_scopes: draft.projectScopes, standards_editions: draft.standardsEditions,
+    rules: draft.seedParameters.map(p => edit({ ...p, bowerApproved: true })), status: 'draft',
+    qualified_approver: null, content_hash: null, approved_by: null, approved_at: null,
+    effective_from: '2026-01-01', effective_to: null,
+  };
+  return D.signRegulatoryProfile(row, { version: '1.0.0', qualifiedApprover: 'Licensed gasfitter', approvedAt: new Date('2026-10-19T00:00:00Z') });
+}
+const context = jurisdiction => ({ jurisdiction, projectScope: 'new-kitchen', effectiveOn: '2026-10-19', regulatoryProfileId: null });
+const evaluate = (brief, profile, compiled = design) =>
+  D.evaluateDesign(compiled, room, brief, spec, { projectContext: context(profile.jurisdiction), approvedProfiles: [profile] }).ruleResults;
+const result = (results, ruleId) => results.find(r => r.ruleId === ruleId);
+
+// ---- measurement ----
+{
+  const clearances = L.cooktopOverheadClearances(design);
+  const hood = clearances?.overheads.find(o => o.kind === 'rangehood');
+  const rangehood = design.items.find(i => i.layoutRole === 'rangehood');
+  check('the rangehood over the cooktop is found', !!hood && hood.itemId === rangehood?.instanceId);
+  check('clearance is measured from the benchtop', hood?.clearanceMm === Math.round(rangehood.y - benchtop), String(hood?.clearanceMm));
+  const trivet = L.cooktopOverheadClearances(design, 30);
+  check('a known trivet height raises the measuring point', trivet.overheads[0].clearanceMm === hood.clearanceMm - 30);
+  check('wall cabinets beside the rangehood are not over the cooktop', clearances.overheads.every(o => o.kind === 'rangehood'));
+  const noCooktop = { ...design, rolePositions: { ...design.rolePositions, cooktop: undefined } };
+  check('a design without a cooktop measures nothing', L.cooktopOverheadClearances(noCooktop) === null);
+}
+
+// ---- rangehood height (KRN-RH-001) ----
+{
+  const hoodClearance = L.cooktopOverheadClearances(design).overheads[0].clearanceMm;
+  const qld = await approvedProfile('AU-QLD');
+  const low = result(evaluate(briefFor(), qld), 'KRN-RH-001');
+  check('a rangehood below the profile minimum fails',
+    low.status === 'fail' && low.messageKey === 'regulatory.rh.below-minimum'
+    && low.measured.clearanceMm === hoodClearance && low.required.clearanceMm === 650 && low.required.basis === 'regulatory-profile',
+    JSON.stringify(low));
+  check('the failure cites the profile clause', low.citation === 'AS/NZS 5601.1:2022 cl 6.10.1.1', low.citation);
+
+  const relaxed = await approvedProfile('AU-NSW', p => (p.parameterId === 'gas-cooktop-to-rangehood-min' ? { ...p, value: 550 } : p));
+  const clear = result(evaluate(briefFor(), relaxed), 'KRN-RH-001');
+  check('clearing the profile without instructions stays pending, measured',
+    clear.status === 'pending' && clear.measured.clearanceMm === hoodClearance, JSON.stringify(clear));
+  const stricter = result(evaluate(briefFor({ cooktopInstructions: { rangehoodClearanceMm: 700 } }), relaxed), 'KRN-RH-001');
+  check('stricter installation instructions govern',
+    stricter.status === 'fail' && stricter.required.clearanceMm === 700 && stricter.required.basis === 'appliance-instructions',
+    JSON.stringify(stricter));
+  const met = result(evaluate(briefFor({ cooktopInstructions: { rangehoodClearanceMm: 500 } }), relaxed), 'KRN-RH-001');
+  check('profile and instructions both met passes', met.status === 'pass' && met.required.clearanceMm === 550, JSON.stringify(met));
+  const induction = result(evaluate(briefFor({ cooktop: 'induction' }), qld), 'KRN-RH-001');
+  check('an induction cooktop is not held to the gas clearance', induction.status === 'not-applicable' && !induction.measured);
+  const unmatched = D.evaluateDesign(design, room, briefFor(), spec, { projectContext: null, approvedProfiles: [qld] }).ruleResults;
+  check('without a matched profile nothing is judged', !result(unmatched, 'KRN-RH-001').measured && result(unmatched, 'KRN-RH-001').status === 'pending');
+}
+
+// ---- profiles as the app loads them ----
+{
+  const signed = await approvedProfile('AU-QLD');
+  const stored = {
+    id: 'row', profile_key: signed.profileId, version: signed.version, jurisdiction: signed.jurisdiction,
+    project_scopes: signed.projectScopes, standards_editions: signed.standardsEditions,
+    rules: signed.parameters.map(p => ({ ...p, class: 'regulatory', source: 'test', bowerApproved: true })), status: 'approved',
+    qualified_approver: signed.qualifiedApprover, content_hash: signed.contentHash, approved_by: 'admin',
+    approved_at: `${signed.approvalDate}T00:00:00Z`, effective_from: signed.effectiveFrom, effective_to: signed.effectiveTo,
+  };
+  const tampered = {
+    ...stored, id: 'tampered',
+    rules: stored.rules.map(p => (p.parameterId === 'gas-cooktop-to-rangehood-min' ? { ...p, value: 400 } : p)),
+  };
+  const loaded = await D.verifiedRegulatoryProfiles([stored, tampered]);
+  check('only rows matching their signed hash are loaded', loaded.length === 1 && loaded[0].contentHash === signed.contentHash);
+  const onDay = new Date(2026, 9, 19);
+  const context = D.projectContextFor('AU-QLD', 'new-kitchen', onDay);
+  check('the project context is dated the local day', context.effectiveOn === '2026-10-19' && context.regulatoryProfileId === null);
+  const judged = result(D.evaluateDesign(design, room, briefFor(), spec, { projectContext: context, approvedProfiles: loaded }).ruleResults, 'KRN-RH-001');
+  check('a loaded profile judges the regulated rule', judged.status === 'fail' && judged.required.clearanceMm === 650, JSON.stringify(judged));
+  const onlyTampered = await D.verifiedRegulatoryProfiles([tampered]);
+  const unverified = result(D.evaluateDesign(design, room, briefFor(), spec, { projectContext: context, approvedProfiles: onlyTampered }).ruleResults, 'KRN-RH-001');
+  check('an edited row leaves the rule pending', unverified.status === 'pending' && !unverified.measured);
+  const noScope = D.projectContextFor('AU-QLD', undefined, onDay);
+  const unscoped = result(D.evaluateDesign(design, room, briefFor(), spec, { projectContext: noScope, approvedProfiles: loaded }).ruleResults, 'KRN-RH-001');
+  check('without a project scope the rule stays pending', unscoped.status === 'pending');
+}
+
+// ---- overhead surfaces (KRN-COOK-002) ----
+{
+  const qld = await approvedProfile('AU-QLD');
+  const hood = design.items.find(i => i.layoutRole === 'rangehood');
+  const withShelfAt = clearance => ({
+    ...design,
+    items: [...design.items.filter(i => i !== hood), { ...hood, instanceId: 'shelf-over-cooktop', layoutRole: 'open-shelf', y: benchtop + clearance }],
+  });
+  const below = result(evaluate(briefFor(), qld, withShelfAt(400)), 'KRN-COOK-002');
+  check('a shelf under the absolute minimum fails',
+    below.status === 'fail' && below.messageKey === 'regulatory.cook.overhead-below-minimum' && below.measured.surface === 'shelf',
+    JSON.stringify(below));
+  const protect = result(evaluate(briefFor(), qld, withShelfAt(500)), 'KRN-COOK-002');
+  check('between the minimums the surface needs recorded protection',
+    protect.status === 'pending' && protect.messageKey === 'regulatory.cook.overhead-protection-unconfirmed');
+  const high = result(evaluate(briefFor(), qld, withShelfAt(700)), 'KRN-COOK-002');
+  check('clear overhead still awaits side and rear appliance data',
+    high.status === 'pending' && high.messageKey === 'regulatory.cook.awaiting-appliance-data' && high.measured.clearanceMm === 700);
+  const instructed = result(evaluate(briefFor({ cooktopInstructions: { overheadClearanceMm: 750 } }), qld, withShelfAt(700)), 'KRN-COOK-002');
+  check('instructions stricter than the profile fail the overhead', instructed.status === 'fail' && instructed.required.basis === 'appliance-instructions');
+  const results = evaluate(briefFor(), qld, withShelfAt(400));
+  check('measured results fit the rule-result contract', results.every(r => D.kitchenRuleResultV1Schema.safeParse(r).success));
+}
+
+console.log(`\n${pass} passed, ${fail} failed`);
+if (fail) process.exit(1);
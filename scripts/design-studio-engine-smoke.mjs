@@ -12,8 +12,8 @@ writeFileSync(path.join(OUT, 'package.json'), '{"type":"commonjs"}');
 writeFileSync(path.join(OUT, 'types_stub.js'), 'module.exports = new Proxy({}, { get: () => undefined });\n');
 
 const files = [
-  'types', 'versions', 'schemas', 'geometry', 'briefConstraints', 'polygon', 'blindCorner', 'catalogRoles',
-  'catalogCapabilities', 'styleDNA', 'solveRun', 'compileSpec', 'rules', 'validate', 'defaultSpec',
+  'types', 'versions', 'schemas', 'geometry', 'briefConstraints', 'polygon', 'obstructions', 'blindCorner', 'roomTypes', 'catalogRoles',
+  'catalogCapabilities', 'styleDNA', 'solveRun', 'compileSpec', 'rulePack', 'sinkWetZone', 'rules', 'validate', 'cooktopClearance', 'defaultSpec',
   'priceDesign', 'wizardAdapter', 'proposalState', 'designScore', 'candidateGenerator', 'index',
 ];
 function rewrite(source) {
@@ -0,0 +1,79 @@
+// Scan-to-verify packing and dispatch state machine.
+// Run via `npm run test:dispatch` (esbuild bundles the module first).
+import { resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+const { applyScan, readDispatchState, summarizeDispatch, EMPTY_DISPATCH_STATE } =
+  await import(pathToFileURL(resolve('.tmp-snap-test/dispatch.mjs')).href);
+
+let pass = 0;
+let fail = 0;
+const check = (name, ok, detail = '') => {
+  if (ok) { pass += 1; console.log(`PASS  ${name}`); }
+  else { fail += 1; console.log(`FAIL  ${name}${detail ? ` — ${detail}` : ''}`); }
+};
+
+const label = (cabinetNumber, partName, n, roomRef) => ({
+  partId: `J1042.${roomRef ? `${roomRef}-` : ''}${cabinetNumber}.${partName.toUpperCase()}.${n}`,
+  jobRef: 'J1042', cabinetNumber, cabinetRef: roomRef ? `${roomRef}-${cabinetNumber}` : cabinetNumber, cabinetName: 'Base', partName,
+  length: 853, width: 575, thickness: 16, materialName: 'White', edgeCode: '-', copy: n, of: 2,
+});
+const labels = [label('C01', 'Side', 1), label('C01', 'Side', 2), label('C02', 'Shelf', 1)];
+const scan = (state, code, mode = 'pack') => applyScan(state, code, labels, 'J1042', mode, '2026-10-18T09:00:00.000Z');
+
+let state = EMPTY_DISPATCH_STATE;
+let r = scan(state, 'j1042.c01.side.1');
+check('dispatch: part scan accepted (case-insensitive)', r.outcome.kind === 'part' && !r.outcome.cabinetComplete);
+state = r.state;
+r = scan(state, 'J1042.C01.SIDE.1');
+check('dispatch: repeat part scan is a duplicate and leaves state alone', r.outcome.kind === 'duplicate' && r.state === state);
+r = scan(state, 'J1042.C01.PACK');
+check('dispatch: pack label rejected while parts are missing', r.outcome.kind === 'rejected' && /1 part/.test(r.outcome.message),
+  JSON.stringify(r.outcome));
+r = scan(state, 'J1042.C01.SIDE.2');
+check('dispatch: last part completes the cabinet', r.outcome.kind === 'part' && r.outcome.cabinetComplete);
+state = r.state;
+check('dispatch: complete but unpacked cabinet reported as complete',
+  summarizeDispatch(labels, state).cabinets[0].status === 'complete');
+r = scan(state, 'J1042.C01.PACK', 'load');
+check('dispatch: cannot load an unpacked cabinet', r.outcome.kind === 'rejected');
+r = scan(state, 'J1042.C01.PACK');
+check('dispatch: pack label closes a complete cabinet', r.outcome.kind === 'packed' && r.state.cabinets.C01.packedAt);
+state = r.state;
+r = scan(state, 'J1042.C01.SIDE.1', 'load');
+check('dispatch: loading rejects part labels', r.outcome.kind === 'rejected');
+r = scan(state, 'J1042.C01.PACK', 'load');
+check('dispatch: packed cabinet loads', r.outcome.kind === 'loaded' && r.state.cabinets.C01.dispatchedAt);
+state = r.state;
+check('dispatch: other-job labels rejected', scan(state, 'J2000.C02.SHELF.1').outcome.kind === 'rejected');
+check('dispatch: unknown part rejected', scan(state, 'J1042.C09.SIDE.1').outcome.kind === 'rejected');
+check('dispatch: non-label codes rejected', scan(state, '9300601123456').outcome.kind === 'rejected');
+
+const summary = summarizeDispatch(labels, state);
+check('dispatch: summary counts', summary.totalParts === 3 && summary.scannedParts === 2
+  && summary.packedCabinets === 1 && summary.dispatchedCabinets === 1, JSON.stringify(summary));
+check('dispatch: missing parts listed per cabinet',
+  summary.cabinets[1].status === 'pending' && summary.cabinets[1].missing.map(m => m.partId).join() === 'J1042.C02.SHELF.1');
+// Multi-room jobs: C01 in each room is its own bundle.
+const roomLabels = [label('C01', 'Side', 1, 'R1'), label('C01', 'Side', 2, 'R1'), label('C01', 'Side', 1, 'R2')];
+const roomScan = (s, code, mode = 'pack') => applyScan(s, code, roomLabels, 'J1042', mode, '2026-10-18T09:00:00.000Z');
+let roomState = roomScan(EMPTY_DISPATCH_STATE, 'J1042.R2-C01.SIDE.1').state;
+r = roomScan(roomState, 'J1042.R2-C01.PACK');
+check('dispatch: packing one room\'s C01 needs only its own parts', r.outcome.kind === 'packed' && r.outcome.cabinetRef === 'R2-C01',
+  JSON.stringify(r.outcome));
+roomState = r.state;
+r = roomScan(roomState, 'J1042.R1-C01.PACK');
+check('dispatch: the other room\'s C01 stays open', r.outcome.kind === 'rejected' && /R1-C01 still has 2 parts/.test(r.outcome.message),
+  JSON.stringify(r.outcome));
+const roomSummary = summarizeDispatch(roomLabels, roomState);
+check('dispatch: summary lists each room\'s cabinet separately',
+  roomSummary.cabinets.map(c => `${c.cabinetRef}:${c.status}`).join() === 'R1-C01:pending,R2-C01:packed', JSON.stringify(roomSummary.cabinets));
+
+const roundTrip = readDispatchState(JSON.parse(JSON.stringify(state)));
+check('dispatch: persisted state reads back unchanged', JSON.stringify(roundTrip) === JSON.stringify(state));
+check('dispatch: null / junk state reads as empty',
+  JSON.stringify(readDispatchState(null)) === '{"parts":{},"cabinets":{}}'
+  && JSON.stringify(readDispatchState({ parts: { a: 5 }, cabinets: { C01: 'x' } })) === '{"parts":{},"cabinets":{}}');
+
+console.log(`\n${pass} passed, ${fail} failed`);
+process.exit(fail === 0 ? 0 : 1);
@@ -0,0 +1,161 @@
+// CNC DXF export: panel machining, sheet placement and a round trip through
+// the DXF parser. Run via `npm run test:dxf-export` (esbuild bundles first).
+import { resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+const { buildJobCncFiles, panelHoles, cabinetMachiningContext, parseDXFContent, CNC_LAYERS } =
+  await import(pathToFileURL(resolve('.tmp-snap-test/dxf-export.mjs')).href);
+
+let pass = 0;
+let fail = 0;
+const check = (name, ok, detail = '') => {
+  if (ok) { pass += 1; console.log(`PASS  ${name}`); }
+  else { fail += 1; console.log(`FAIL  ${name}${detail ? ` — ${detail}` : ''}`); }
+};
+
+const dims = { boardThickness: 16, handleDrillSpacing: 32, backPanelSetback: 16 };
+const part = (name, partType, length, width, quantity = 1) => ({
+  name, partType, length, width, area: (length * width) / 1e6, thickness: 16,
+  materialId: 'm1', materialRole: /door/i.test(partType) ? 'exterior' : 'carcase',
+  edging: { len1: true, len2: false, wid1: false, wid2: false }, cabinetNumber: 'C01',
+  quantity, handlingCost: 0, machiningCost: 0, assemblyCost: 0,
+});
+const hw = (hardwareType, name, quantity, itemCode = hardwareType) => ({
+  itemCode, name, hardwareType, quantity, unitCost: 0, machiningCost: 0, assemblyCost: 0, totalCost: 0,
+});
+const cabinet = {
+  cabinetId: 'i1', cabinetNumber: 'C01', cabinetName: 'Base 2 Door', cabinetSku: 'B2D',
+  dimensions: { width: 800, height: 720, depth: 560 },
+  parts: [
+    part('Left Side', 'Base Left Side', 720, 560),
+    part('Right Side', 'Base Right Side', 720, 560),
+    part('Adjustable Shelf', 'Adjustable Shelf', 766, 520),
+    part('Door', 'Door', 716, 397, 2),
+  ],
+  sheets: [], edgeTape: [],
+  hardware: [hw('hinge', 'Blum hinge', 4), hw('handle', 'Bar handle 160mm', 2, 'handle-bar-ss')],
+  subtotals: {}, totalCost: 0, buildHours: {},
+};
+
+const ctx = cabinetMachiningContext(cabinet, dims);
+check('context: two door leaves, two hinges per leaf, 160mm bar', ctx.doorLeaves === 2 && ctx.hingesPerDoor === 2 && ctx.handle.kind === 'bar' && ctx.handle.centres === 160, JSON.stringify(ctx));
+check('context: adjustable shelf part enables shelf pins', ctx.hasAdjustableShelves);
+
+const left = panelHoles(cabinet.parts[0], 0, ctx);
+const pins = left.filter(h => h.layer === CNC_LAYERS.shelfPin);
+check('gable: all holes are 5mm shelf pins', pins.length === left.length && pins.every(h => h.diameter === 5));
+check('gable: front line 37mm in, rear line on the 32mm grid',
+  pins.some(h => h.y === 37) && pins.every(h => h.y === 37 || (h.y - 37) % 32 === 0) && Math.max(...pins.map(h => h.y)) <= 560 - 16 - 37);
+const rows = [...new Set(pins.map(h => h.x))].sort((a, b) => a - b);
+check('gable: rows pitched 32mm, clear of bottom and top panels',
+  rows[0] === 48 && rows.every((x, i) => i === 0 || x - rows[i - 1] === 32) && rows[rows.length - 1] <= 720 - 16 - 32, rows.join(','));
+const right = panelHoles(cabinet.parts[1], 0, ctx);
+check('gable: right side is mirrored across the width', right.some(h => h.y === 560 - 37));
+check('shelf: no machining', panelHoles(cabinet.parts[2], 0, ctx).length === 0);
+
+const door0 = panelHoles(cabinet.parts[3], 0, ctx);
+const door1 = panelHoles(cabinet.parts[3], 1, ctx);
+const cups0 = door0.filter(h => h.layer === CNC_LAYERS.hingeCup);
+const cups1 = door1.filter(h => h.layer === CNC_LAYERS.hingeCup);
+check('door: 35mm cups 100mm from each end, 22.5mm from the hinge edge',
+  cups0.length === 2 && cups0.every(h => h.diameter === 35 && h.y === 22.5) && cups0[0].x === 100 && cups0[1].x === 616);
+check('door: the second leaf of a pair hinges on the opposite edge', cups1.every(h => h.y === 397 - 22.5));
+const handle0 = door0.filter(h => h.layer === CNC_LAYERS.handle);
+check('door: base handle holes at 160mm centres near the top, on the opening edge',
+  handle0.length === 2 && handle0[1].x - handle0[0].x === 160 && handle0[1].x === 716 - 60 && handle0.every(h => h.y === 397 - 40));
+const tallCtx = { ...ctx, category: 'Tall', hingesPerDoor: null };
+const tallCups = panelHoles(part('Door', 'Door', 2000, 450), 0, tallCtx).filter(h => h.layer === CNC_LAYERS.hingeCup);
+check('door: tall doors get more hinges when hardware does not say', tallCups.length === 4);
+const knob = panelHoles(part('Drawer Front', 'Drawer Front', 800, 180), 0, { ...ctx, handle: { kind: 'knob', centres: 128 } });
+check('drawer front: a knob is one hole in the middle', knob.length === 1 && knob[0].x === 400 && knob[0].y === 90);
+
+const placement = (partName, partType, copy, x, y, length, width, rotated) => ({
+  partName, partType, cabinetNumber: 'C01', copy, x, y, length, width, rotated, edging: {}, grain: 'none',
+});
+const quoteBOM = {
+  cabinets: [cabinet],
+  consolidatedSheets: [{
+    materialId: 'm1', materialName: 'White Melamine 16mm', sheetLength: 2400, sheetWidth: 1200,
+    nesting: {
+      kerfMm: 4, trimMm: 10, unplaced: [],
+      sheets: [{
+        index: 0, offcuts: [], usedArea: 0, wasteArea: 0,
+        placements: [
+          placement('Left Side', 'Base Left Side', 0, 10, 10, 720, 560, false),
+          placement('Door', 'Door', 1, 1000, 10, 716, 397, true),
+        ],
+      }],
+    },
+  }],
+};
+
+const files = buildJobCncFiles(quoteBOM, dims, 1042);
+const paths = files.map(f => f.path);
+check('zip: one DXF per part copy named by its label id, plus one per sheet',
+  paths.length === 6 && paths.includes('parts/J1042.C01.DOOR.2.dxf') && paths.includes('sheets/White_Melamine_16mm_01.dxf'), paths.join(', '));
+
+const doorFile = parseDXFContent(files.find(f => f.path === 'parts/J1042.C01.DOOR.1.dxf').content);
+const outline = doorFile?.entities.find(e => e.layer === CNC_LAYERS.outline);
+check('round trip: parser reads the outline as a closed 716 x 397 polyline',
+  outline?.type === 'POLYLINE' && outline.closed && outline.vertices.length === 4 && outline.vertices[2].x === 716 && outline.vertices[2].y === 397);
+const doorCircles = doorFile?.entities.filter(e => e.type === 'CIRCLE') ?? [];
+check('round trip: hinge cups and handle holes come back on their layers',
+  doorCircles.filter(e => e.layer === CNC_LAYERS.hingeCup && e.radius === 17.5).length === 2 &&
+  doorCircles.filter(e => e.layer === CNC_LAYERS.handle).length === 2);
+check('round trip: layer table and millimetre header',
+  Object.values(CNC_LAYERS).every(name => doorFile.layers.some(l => l.name === name)) && doorFile.header.version === 'AC1009');
+
+const sheetFile = parseDXFContent(files.find(f => f.path.startsWith('sheets/')).content);
+const sheetCups = sheetFile.entities.filter(e => e.layer === CNC_LAYERS.hingeCup);
+check('sheet: rotated door machining is turned onto the sheet',
+  sheetCups.length === 2 && sheetCups.every(e => e.center.x === 1000 + 397 - (397 - 22.5) && (e.center.y === 110 || e.center.y === 626)),
+  JSON.stringify(sheetCups.map(e => e.center)));
+const sheetText = sheetFile.entities.filter(e => e.type === 'TEXT').map(e => e.text);
+check('sheet: placed panels carry their part ids', sheetText.includes('J1042.C01.LEFT-SIDE.1') && sheetText.includes('J1042.C01.DOOR.2'));
+
+// Multi-room job: each room has a C01, and R2's C01 has two shelves of different sizes.
+const roomPart = (roomRef, partIndex, ...args) => ({ ...part(...args), roomRef, partIndex });
+const r1 = {
+  ...cabinet, cabinetId: 'r1', roomRef: 'R1',
+  parts: [roomPart('R1', 0, 'Door', 'Door', 716, 397, 2)],
+};
+const r2 = {
+  ...cabinet, cabinetId: 'r2', roomRef: 'R2', cabinetName: 'Custom Base',
+  parts: [roomPart('R2', 0, 'Shelf', 'Fixed Shelf', 766, 520), roomPart('R2', 1, 'Shelf', 'Fixed Shelf', 766, 300), roomPart('R2', 2, 'Door', 'Door', 1200, 500)],
+  hardware: [hw('hinge', 'Blum hinge', 3)],
+};
+const roomPlacement = (roomRef, partIndex, ...args) => ({ ...placement(...args), roomRef, partIndex });
+const roomBOM = {
+  cabinets: [r1, r2],
+  consolidatedSheets: [{
+    ...quoteBOM.consolidatedSheets[0],
+    nesting: {
+      ...quoteBOM.consolidatedSheets[0].nesting,
+      sheets: [{
+        index: 0, offcuts: [], usedArea: 0, wasteArea: 0,
+        placements: [
+          roomPlacement('R2', 1, 'Shelf', 'Fixed Shelf', 0, 10, 10, 766, 300, false),
+          roomPlacement('R2', 0, 'Shelf', 'Fixed Shelf', 0, 10, 400, 766, 520, false),
+          roomPlacement('R2', 2, 'Door', 'Door', 0, 1000, 10, 1200, 500, false),
+          roomPlacement('R1', 0, 'Door', 'Door', 0, 1000, 600, 716, 397, false),
+        ],
+      }],
+    },
+  }],
+};
+const roomFiles = buildJobCncFiles(roomBOM, dims, 1042);
+const roomPaths = roomFiles.map(f => f.path);
+check('rooms: every panel of both C01s gets its own file',
+  roomPaths.filter(p => p.startsWith('parts/')).length === 5 && new Set(roomPaths).size === roomPaths.length
+  && roomPaths.includes('parts/J1042.R1-C01.DOOR.1.dxf') && roomPaths.includes('parts/J1042.R2-C01.DOOR.1.dxf'), roomPaths.join(', '));
+const roomSheet = parseDXFContent(roomFiles.find(f => f.path.startsWith('sheets/')).content);
+const idAt = (x, y) => roomSheet.entities.find(e => e.type === 'TEXT' && e.position.x > x && e.position.x < x + 50 && e.position.y > y && e.position.y < y + 50)?.text;
+check('rooms: same-named shelves keep their own ids on the sheet',
+  idAt(10, 10) === 'J1042.R2-C01.SHELF.2' && idAt(10, 400) === 'J1042.R2-C01.SHELF.1', `${idAt(10, 10)} ${idAt(10, 400)}`);
+const roomCups = roomSheet.entities.filter(e => e.layer === CNC_LAYERS.hingeCup);
+check('rooms: each door is machined with its own room\'s cabinet hardware',
+  roomCups.filter(e => e.center.y < 600).length === 3 && roomCups.filter(e => e.center.y > 600).length === 2,
+  JSON.stringify(roomCups.map(e => e.center)));
+
+console.log(`\n${pass} passed, ${fail} failed`);
+process.exit(fail === 0 ? 0 : 1);
@@ -0,0 +1,151 @@
+// Job margins: quoted cost and hours from the room snapshots, actual cost
+// from invoices and labour hours, per-job margins and the estimate-error
+// trends by stage, cabinet type, board material and month.
+// Run via `npm run test:job-margins` (esbuild bundles the module first).
+import { resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+const {
+  quotedJobCost, jobMargin, actualLabourCost, buildMarginReport, readJobActuals, describeMissingActuals,
+} = await import(pathToFileURL(resolve('.tmp-snap-test/job-margins.mjs')).href);
+
+let pass = 0;
+let fail = 0;
+const check = (name, ok, detail = '') => {
+  if (ok) { pass += 1; console.log(`PASS  ${name}`); }
+  else { fail += 1; console.log(`FAIL  ${name}${detail ? ` — ${detail}` : ''}`); }
+};
+
+const cabinet = (id, cut, edge, assembly, board, boardCost) => ({
+  cabinetId: id,
+  buildHours: { cut, edge, assembly, total: cut + edge + assembly, cost: 0 },
+  sheets: [{ materialName: board, totalMaterialCost: boardCost }],
+});
+const grandTotal = (overrides = {}) => ({
+  materials: 1000, edging: 100, hardware: 400, benchtop: 1500, appliances: 0,
+  cost: 4000, subtotalExGst: 6000, total: 6600, ...overrides,
+});
+const designData = {
+  tradeRooms: [
+    { id: 'k', cabinets: [{ instanceId: 'b1', category: 'Base' }, { instanceId: 't1', category: 'Tall' }] },
+    { id: 'l', cabinets: [{ instanceId: 'x', category: 'Base' }] },
+  ],
+  quoteSnapshotsByRoom: {
+    k: {
+      roomId: 'k',
+      bomSummary: {
+        grandTotal: grandTotal(),
+        cabinets: [cabinet('b1', 1, 1, 2, 'White board', 400), cabinet('t1', 1, 1, 4, 'Oak veneer', 600)],
+      },
+    },
+  },
+};
+
+// ---- quoted side ----
+const quoted = quotedJobCost(designData);
+{
+  check('quoted categories come from the grand total', quoted.categories.materials === 1000 && quoted.categories.benchtop === 1500);
+  check('quoted labour is cost less supply', quoted.labourCost === 1000, String(quoted.labourCost));
+  check('quoted hours sum the cabinets', quoted.hours.cut === 2 && quoted.hours.assembly === 6, JSON.stringify(quoted.hours));
+  check('cabinet types come from the room', quoted.cabinets.map(c => c.category).join() === 'Base,Tall');
+  check('unpriced rooms are counted', quoted.unpricedRooms === 1);
+  check('empty design data is safe', quotedJobCost(null).cost === 0);
+}
+
+// ---- actuals and margin ----
+{
+  const labour = actualLabourCost({ cut: 2, edge: 1, assembly: 10 });
+  check('labour costs machine and bench time separately',
+    labour === 3 * 120 + 10 * 95, String(labour));
+
+  const actuals = readJobActuals({
+    invoice_totals: { materials: '1200', edging: 100, hardware: 380, benchtop: 1500, other: 'abc', appliances: '' },
+    labour_hours: { cut: 2, edge: 2, assembly: 8 },
+    updated_at: '2026-09-14T02:00:00Z',
+  }, 'job-1');
+  check('actuals drop blanks and junk', actuals.invoice_totals.other === undefined && actuals.invoice_totals.appliances === undefined
+    && actuals.invoice_totals.materials === 1200, JSON.stringify(actuals.invoice_totals));
+
+  const margin = jobMargin(quoted, actuals);
+  const expectedCost = 1200 + 100 + 380 + 1500 + actualLabourCost(actuals.labour_hours);
+  check('actual cost is invoices plus labour', margin.actualCost === expectedCost, `${margin.actualCost} vs ${expectedCost}`);
+  check('quoted margin is sell less quoted cost', margin.quotedMargin === 2000 && margin.quotedMarginPct === 0.333);
+  check('actual margin uses the same sell price', margin.actualMargin === 6000 - expectedCost);
+  check('category variance is actual less quoted', margin.categoryVariance.materials === 200 && margin.categoryVariance.hardware === -20);
+  check('hours variance per stage', margin.hoursVariance.assembly === 2 && margin.hoursVariance.cut === 0);
+  check('no sell price means no margin %', jobMargin(quotedJobCost(null), actuals).actualMarginPct === null);
+  check('every quoted category and stage entered: actuals complete', margin.actualsComplete && margin.missingActuals.length === 0,
+    JSON.stringify(margin.missingActuals));
+
+  const partial = jobMargin(quoted, readJobActuals({ invoice_totals: { materials: 1200, hardware: 380 }, labour_hours: { cut: 2 } }, 'job-1'));
+  check('missing invoices and hours make the actuals partial, not $0',
+    !partial.actualsComplete && partial.missingActuals.join() === 'edging,benchtop,edge,assembly', JSON.stringify(partial.missingActuals));
+  check('missing actuals are described by label', describeMissingActuals(partial.missingActuals) === 'Edge tape invoice, Benchtops invoice, Edging hours, Assembly hours',
+    describeMissingActuals(partial.missingActuals));
+  check('a category that was never quoted is not waited for',
+    !partial.missingActuals.includes('appliances') && !partial.missingActuals.includes('other'));
+  check('an entered zero counts as entered',
+    !jobMargin(quoted, readJobActuals({ invoice_totals: { materials: 1, edging: 0, hardware: 0, benchtop: 0 }, labour_hours: { cut: 0, edge: 0, assembly: 0 } }, 'j')).missingActuals.length);
+}
+
+// ---- trends ----
+{
+  const report = buildMarginReport([
+    {
+      id: 'job-1', label: '#1',
+      quoted,
+      actuals: readJobActuals({
+        invoice_totals: { materials: 1100, edging: 100, hardware: 400, benchtop: 1500 },
+        labour_hours: { cut: 2, edge: 2, assembly: 9 },
+        updated_at: '2026-09-14',
+      }, 'job-1'),
+    },
+    {
+      // Only the board invoice so far.
+      id: 'job-2', label: '#2',
+      quoted,
+      actuals: readJobActuals({ invoice_totals: { materials: 900 }, labour_hours: {}, updated_at: '2026-10-02' }, 'job-2'),
+    },
+    {
+      // Benchtop-only job: nothing quoted in the workshop.
+      id: 'job-3', label: '#3',
+      quoted: quotedJobCost({
+        tradeRooms: [{ id: 'b' }],
+        quoteSnapshotsByRoom: { b: { bomSummary: { grandTotal: grandTotal({ materials: 0, edging: 0, hardware: 0, cost: 1500 }), cabinets: [] } } },
+      }),
+      actuals: readJobActuals({ invoice_totals: { benchtop: 1650 }, updated_at: '2026-10-20' }, 'job-3'),
+    },
+    {
+      // Cutting done, edging and assembly not booked yet.
+      id: 'job-4', label: '#4',
+      quoted,
+      actuals: readJobActuals({
+        invoice_totals: { materials: 1000, edging: 100, hardware: 400, benchtop: 1500 },
+        labour_hours: { cut: 3 },
+        updated_at: '2026-09-30',
+      }, 'job-4'),
+    },
+  ]);
+  const stage = Object.fromEntries(report.byStage.map(r => [r.key, r]));
+  check('stage error only counts jobs with hours', stage.assembly.jobs === 1 && stage.assembly.error === 0.5, JSON.stringify(stage.assembly));
+  check('a stage with no hours yet is left out, not read as 0', stage.cut.jobs === 2 && stage.edge.jobs === 1,
+    JSON.stringify(report.byStage));
+  check('stages keep production order', report.byStage.map(r => r.key).join() === 'cut,edge,assembly');
+  const base = report.byCabinetType.find(r => r.key === 'Base');
+  const tall = report.byCabinetType.find(r => r.key === 'Tall');
+  check('cabinet hours are shared by quoted hours', base.quoted === 4 && Math.abs(base.actual - 5) < 0.01 && Math.abs(tall.actual - 8) < 0.01,
+    JSON.stringify(report.byCabinetType));
+  const oak = report.byMaterial.find(r => r.key === 'Oak veneer');
+  check('board error is shared by board cost', oak.jobs === 3 && oak.quoted === 1800 && oak.actual === 1800 && oak.error === 0, JSON.stringify(oak));
+  check('material rows sort by quoted spend', report.byMaterial[0].key === 'Oak veneer');
+  check('months are in order', report.byMonth.map(m => m.month).join() === '2026-09,2026-10');
+  check('partial jobs stay out of the monthly trend', report.byMonth[0].jobs === 1 && report.byMonth[1].jobs === 1
+    && report.byMonth[1].costError === 0.1, JSON.stringify(report.byMonth));
+  check('a month without hours has no hours error', report.byMonth[1].hoursError === null);
+  check('partial jobs are still listed, flagged',
+    report.jobs.filter(j => !j.margin.actualsComplete).map(j => j.id).join() === 'job-2,job-4');
+  check('an empty report is empty', buildMarginReport([]).byStage.length === 0);
+}
+
+console.log(`\n${pass} passed, ${fail} failed`);
+if (fail) process.exit(1);
@@ -0,0 +1,68 @@
+// Job revisions: pricing columns taken from design_data and the cabinet diff
+// between two revisions. Run via `npm run test:job-revisions` (esbuild
+// bundles the module first).
+import { resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+const { diffRevisions, revisionPricing } = await import(pathToFileURL(resolve('.tmp-snap-test/job-revisions.mjs')).href);
+
+let pass = 0;
+let fail = 0;
+const check = (name, ok, detail = '') => {
+  if (ok) { pass += 1; console.log(`PASS  ${name}`); }
+  else { fail += 1; console.log(`FAIL  ${name}${detail ? ` — ${detail}` : ''}`); }
+};
+
+const materials = { exteriorFinish: 'White', carcaseFinish: 'White', doorStyle: 'Slab', edgeBanding: 'ABS' };
+const cabinet = (instanceId, cabinetNumber, productName, width, extra = {}) => ({
+  instanceId, cabinetNumber, productName, dimensions: { width, height: 720, depth: 575 }, materials, ...extra,
+});
+const snapshot = (perCabinetSell, pricingHash) => ({
+  roomId: 'r1', roomTotal: 0, perCabinetTotals: {}, perCabinetSell, pricingHash, capturedAt: '2026-10-19',
+});
+
+const sent = {
+  tradeRooms: [{ id: 'r1', name: 'Kitchen', cabinets: [
+    cabinet('a', 'C01', 'Base 1 Door', 600),
+    cabinet('b', 'C02', 'Base 3 Drawer', 600),
+    cabinet('c', 'C03', 'Base 2 Door', 900),
+    cabinet('d', 'C04', 'Upper 2 Door', 800),
+  ] }],
+  quoteSnapshot: snapshot({ a: 500, b: 900, c: 700, d: 600 }, 'hash-1'),
+  quoteSnapshotsByRoom: { r1: snapshot({ a: 500, b: 900, c: 700, d: 600 }, 'hash-1') },
+  jobTotals: { total: 2700 },
+};
+const revised = {
+  tradeRooms: [{ id: 'r1', name: 'Kitchen', cabinets: [
+    cabinet('a', 'C01', 'Base 1 Door', 650),
+    cabinet('b', 'C02', 'Base 3 Drawer', 600, { materials: { ...materials, exteriorFinish: 'Oak' } }),
+    cabinet('d', 'C04', 'Upper 2 Door', 800),
+    cabinet('e', 'C05', 'Tall Pantry', 600),
+  ] }],
+  quoteSnapshotsByRoom: { r1: snapshot({ a: 540.5, b: 1020, d: 620, e: 1500 }, 'hash-2') },
+  jobTotals: { total: 3680.5 },
+};
+
+const pricing = revisionPricing(sent);
+check('pricing: snapshot, hash and total are stored with the revision',
+  pricing.quote_snapshot?.pricingHash === 'hash-1' && pricing.pricing_hash === 'hash-1' && pricing.total === 2700);
+check('pricing: hash falls back to a room snapshot when there is no job snapshot', revisionPricing(revised).pricing_hash === 'hash-2');
+check('pricing: missing totals are null, not zero', revisionPricing({}).total === null && revisionPricing({}).pricing_hash === null);
+
+const diff = diffRevisions(sent, revised);
+const by = number => diff.cabinets.find(c => c.cabinetNumber === number);
+check('diff: resize is a change with the old and new width', by('C01')?.kind === 'changed' && by('C01').changes.join() === 'Width 600 → 650', JSON.stringify(by('C01')));
+check('diff: per-cabinet price delta', by('C01')?.priceFrom === 500 && by('C01').priceTo === 540.5 && by('C01').priceDelta === 40.5);
+check('diff: material change is listed by name', by('C02')?.changes.join() === 'Exterior finish White → Oak');
+check('diff: removed cabinet loses its whole price', by('C03')?.kind === 'removed' && by('C03').priceDelta === -700);
+check('diff: added cabinet adds its whole price', by('C05')?.kind === 'added' && by('C05').priceFrom === null && by('C05').priceDelta === 1500);
+check('diff: same cabinet at a new price is repriced', by('C04')?.kind === 'repriced' && by('C04').priceDelta === 20);
+check('diff: job total delta', diff.totalFrom === 2700 && diff.totalTo === 3680.5 && diff.totalDelta === 980.5);
+
+const same = diffRevisions(sent, sent);
+check('diff: a revision compared with itself has no differences', same.cabinets.length === 0 && same.unchanged === 4 && same.totalDelta === 0);
+const unpriced = diffRevisions({ tradeRooms: sent.tradeRooms }, { tradeRooms: sent.tradeRooms });
+check('diff: unpriced revisions compare without price deltas', unpriced.cabinets.length === 0 && unpriced.totalDelta === null);
+
+console.log(`\n${pass} passed, ${fail} failed`);
+process.exit(fail === 0 ? 0 : 1);
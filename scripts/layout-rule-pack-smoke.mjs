@@ -0,0 +1,93 @@
+// Layout rule packs: the built-in defaults reproduce the engine's findings, a
+// stored pack moves thresholds and tiers, anything invalid or locked falls
+// back to the default, and the newest approved row is the pack in force.
+// Run via `npm run test:layout-rule-pack` (esbuild bundles the module first).
+import { resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+const L = await import(pathToFileURL(resolve('.tmp-snap-test/layout-rule-pack.mjs')).href);
+
+let pass = 0;
+let fail = 0;
+const check = (name, ok, detail = '') => {
+  if (ok) { pass += 1; console.log(`PASS  ${name}`); }
+  else { fail += 1; console.log(`FAIL  ${name}${detail ? ` — ${detail}` : ''}`); }
+};
+
+const room = {
+  width: 4200, depth: 3600, height: 2700, shape: 'Rectangle', cutoutWidth: 0, cutoutDepth: 0,
+  openings: [], services: [],
+};
+const brief = {
+  room, household: {}, priorities: ['storage'],
+  appliances: { cooktop: 'induction', dishwasher: true }, island: 'no',
+};
+const design = L.compileSpec(L.defaultSpecFor(brief, 'l-shape'), room);
+const pack = (parameters, version = 'test@r1') => L.layoutRulePackFrom(version, parameters);
+const param = (parameterId, value) => ({ parameterId, class: 'ergonomic', value, unit: 'mm', source: 'test', bowerApproved: false });
+const codes = (violations) => violations.map(v => `${v.code}:${v.severity}`).sort().join();
+
+// ---- defaults ----
+{
+  const baseline = L.validate(design, room, brief);
+  check('the default pack is the engine as it was', codes(L.validate(design, room, brief, L.DEFAULT_LAYOUT_RULE_PACK)) === codes(baseline));
+  const stored = L.layoutRulePackParameters(L.DEFAULT_LAYOUT_RULE_PACK, L.RULE_INDEX);
+  check('the default parameter set is valid', L.layoutRulePackErrors(stored).length === 0, L.layoutRulePackErrors(stored).join());
+  check('a stored copy of the defaults evaluates the same', codes(L.validate(design, room, brief, pack(stored))) === codes(baseline));
+  check('locked rules have no tier parameter', !stored.some(p => p.parameterId === 'overlap.tier'));
+  check('every threshold is stored', Object.keys(L.LAYOUT_THRESHOLD_DEFAULTS).every(id => stored.some(p => p.parameterId === id)));
+}
+
+// ---- thresholds ----
+{
+  const strict = pack([param('cooktop-landing.min', 5000)]);
+  const landing = L.validate(design, room, brief, strict).find(v => v.code === 'cooktop-landing');
+  check('a raised threshold raises a finding', !!landing && landing.message.includes('minimum 5000mm'), landing?.message);
+  check('the default leaves it clear', !L.validate(design, room, brief).some(v => v.code === 'cooktop-landing'));
+  const prep = pack([param('prep-space.min', 19000)]);
+  check('prep bench length follows the pack', L.validate(design, room, brief, prep).some(v => v.code === 'prep-space'));
+}
+
+// ---- tiers ----
+{
+  const hard = pack([param('cooktop-landing.min', 5000), { ...param(L.tierParameterId('cooktop-landing'), 'hard'), unit: 'flag' }]);
+  const landing = L.validate(design, room, brief, hard).find(v => v.code === 'cooktop-landing');
+  check('a tier override changes severity', landing?.severity === 'error', landing?.severity);
+  const crowded = { ...design, items: [...design.items, { ...design.items[0], instanceId: 'dup' }] };
+  const soft = pack([{ ...param('overlap.tier', 'soft'), unit: 'flag' }]);
+  check('a locked rule keeps its tier', L.validate(crowded, room, brief, soft).some(v => v.code === 'overlap' && v.severity === 'error'));
+  check('a locked rule is reported as an error', L.layoutRulePackErrors([{ ...param('overlap.tier', 'soft'), unit: 'flag' }]).length === 1);
+}
+
+// ---- fallbacks ----
+{
+  const bad = pack([param('narrow-aisle.min', -5), param('replumb.max', 'far'), param('not-a-rule', 1), { ...param('prep-space.tier', 'loud'), unit: 'flag' }]);
+  check('invalid values keep the defaults',
+    bad.thresholds['narrow-aisle.min'] === 900 && bad.thresholds['replumb.max'] === 1500 && !bad.tiers['prep-space']);
+  const inverted = pack([param('triangle-leg.min', 3000)]);
+  check('an inverted bound pair keeps both defaults',
+    inverted.thresholds['triangle-leg.min'] === 1200 && inverted.thresholds['triangle-leg.max'] === 2700);
+  const errors = L.layoutRulePackErrors([param('narrow-aisle.min', -5), param('not-a-rule', 1), param('triangle-leg.min', 3000)]);
+  check('the editor is told about each problem', errors.length === 3, errors.join(' | '));
+}
+
+// ---- versions ----
+{
+  const rows = [
+    { version: 1, status: 'approved', parameters: [param('prep-space.min', 1000)] },
+    { version: 2, status: 'approved', parameters: [param('prep-space.min', 1200)] },
+    { version: 3, status: 'pending', parameters: [param('prep-space.min', 1500)] },
+    { version: 4, status: 'rejected', parameters: [param('prep-space.min', 1800)] },
+  ];
+  const active = L.activeLayoutRulePack(rows);
+  check('the newest approved row is in force', active.version === 'bower-kitchen-layout@r2' && active.thresholds['prep-space.min'] === 1200, active.version);
+  check('no approved row means the defaults', L.activeLayoutRulePack(rows.slice(2)).version === L.BOWER_LAYOUT_PACK_VERSION);
+  const changes = L.changedRulePackParameters(rows[0].parameters, rows[1].parameters);
+  check('a draft is reviewed as its changed values', changes.length === 1 && changes[0].from === 1000 && changes[0].to === 1200);
+  const pool = L.generateCandidatePool({ brief, maxCandidates: 2, rulePack: active });
+  check('the candidate pool reports its pack', pool.rulePackVersion === 'bower-kitchen-layout@r2');
+  check('the default pool reports the defaults', L.generateCandidatePool({ brief, maxCandidates: 1 }).rulePackVersion === L.BOWER_LAYOUT_PACK_VERSION);
+}
+
+console.log(`\n${pass} passed, ${fail} failed`);
+if (fail) process.exit(1);
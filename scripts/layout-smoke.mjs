@@ -9,7 +9,7 @@ import {
   toRoomSpec, validate, kitchenSpecSchema, roomSpecSchema, aiDesignerRequestSchema, finalizeSelectionSchema,
   proposedRoomPatchSchema, RequestProposalRegistry, FRIDGE_SIDE_CLEARANCE_MM,
   itemRect, benchtopRect, rectsJoin,
-  servicePointWorld, wallLength,
+  servicePointWorld, wallLength, wallPointWorld, wallToWorld,
 } from '../.tmp-snap-test/layout.mjs';
 
 const shapes = ['single-wall', 'l-shape', 'u-shape', 'galley'];
@@ -1516,6 +1516,53 @@ check('floor services keep exact island coordinates and validate safely', () =>
   }).success, false, 'floor service outside the room must be rejected');
 });
 
+// ── polygon rooms: P walls resolve along their own segment ──
+check('polygon walls: length, wall points and placement follow the outline', () => {
+  // 4000 × 3000 with the SE corner cut by a 45° wall (P2).
+  const room = {
+    width: 4000, depth: 3000, height: 2400, shape: 'Polygon', cutoutWidth: 0, cutoutDepth: 0,
+    polygon: [
+      { id: 'P0', x: 0, z: 0 }, { id: 'P1', x: 4000, z: 0 }, { id: 'P2', x: 4000, z: 2000 },
+      { id: 'P3', x: 3000, z: 3000 }, { id: 'P4', x: 0, z: 3000 },
+    ],
+    openings: [], services: [],
+  };
+  assert.equal(Math.round(wallLength('P2', room)), 1414);
+  assert.equal(wallLength('P3', room), 3000);
+  assert.deepEqual(wallPointWorld('P3', 1000, room), { x: 2000, z: 3000 });
+  const chamfer = wallPointWorld('P2', wallLength('P2', room) / 2, room);
+  assert.deepEqual({ x: Math.round(chamfer.x), z: Math.round(chamfer.z) }, { x: 3500, z: 2500 });
+  const cab = wallToWorld('P3', 0, 600, 560, room);
+  assert.deepEqual({ x: cab.x, z: cab.z, rotation: cab.rotation }, { x: 2700, z: 2720, rotation: 180 });
+  assert.deepEqual(servicePointWorld({ id: 'd', wall: 'P4', type: 'drain', offsetMm: 500, heightMm: 0 }, room), { x: 0, z: 2500 });
+  assert.throws(() => wallPointWorld('N', 0, room), /no wall N/);
+  assert.throws(() => wallPointWorld('P2', 0, { ...room, shape: 'Rectangle', polygon: undefined }), /no wall P2/);
+});
+
+check('polygon walls: door-swing and re-plumb rules read P walls like their rectangle twins', () => {
+  const brief = briefFromWizard({ layoutPreference: 'single-wall', roomWidth: 4200, roomDepth: 3200, layoutStyle: 'standard' });
+  const design = compileSpec(defaultSpecFor(brief, 'single-wall'), brief.room);
+  const rect = {
+    ...brief.room,
+    openings: [{ id: 'door', wall: 'N', type: 'door', offsetMm: 300, widthMm: 820, swing: 'in-left' }],
+    services: [{ id: 'drain', wall: 'S', type: 'drain', offsetMm: 400, heightMm: 0 }],
+  };
+  const polygon = {
+    ...rect,
+    shape: 'Polygon',
+    polygon: [
+      { id: 'P0', x: 0, z: 0 }, { id: 'P1', x: rect.width, z: 0 },
+      { id: 'P2', x: rect.width, z: rect.depth }, { id: 'P3', x: 0, z: rect.depth },
+    ],
+    openings: rect.openings.map(o => ({ ...o, wall: 'P0' })),
+    services: rect.services.map(sv => ({ ...sv, wall: 'P2' })),
+  };
+  const codes = room => validate(design, room, brief).map(f => f.code).sort();
+  const expected = codes(rect);
+  assert.ok(expected.includes('door-swing') && expected.includes('replumb'), `rectangle findings: ${expected.join(', ')}`);
+  assert.deepEqual(codes(polygon), expected);
+});
+
 check('floor plumbing does not masquerade as a wall service when choosing the sink wall', () => {
   const brief = briefFromWizard({
     layoutPreference: 'l-shape', roomWidth: 4200, roomDepth: 3200, layoutStyle: 'standard',
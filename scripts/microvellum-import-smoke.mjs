@@ -0,0 +1,147 @@
+// Microvellum XML round trip: parse a returned project, diff it against the
+// job's trade rooms and apply accepted entries.
+// Run via `npm run test:microvellum-import` (esbuild bundles the module first).
+import { resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+const { parseMicrovellumXml, diffMicrovellumProducts, applyMicrovellumDiff, MicrovellumXmlError } =
+  await import(pathToFileURL(resolve('.tmp-snap-test/microvellum-import.mjs')).href);
+
+let pass = 0;
+let fail = 0;
+const check = (name, ok, detail = '') => {
+  if (ok) { pass += 1; console.log(`PASS  ${name}`); }
+  else { fail += 1; console.log(`FAIL  ${name}${detail ? ` — ${detail}` : ''}`); }
+};
+
+const cabinet = (instanceId, cabinetNumber, definitionId, productName, width, x, extra = {}) => ({
+  instanceId, definitionId, cabinetNumber, productName, category: 'Base',
+  dimensions: { width, height: 720, depth: 575 },
+  materials: { exteriorFinish: 'white', carcaseFinish: 'white', doorStyle: 'slab', edgeBanding: 'e1' },
+  hardware: { handleType: 'h', handleColor: 'ss', hingeType: 'b', drawerType: 'd', softClose: true },
+  accessories: { shelfCount: 1, adjustableShelves: true, dividers: false, softCloseUpgrade: false, specialFittings: [] },
+  position: { x, y: 0, z: 287.5, rotation: 0 },
+  isPlaced: true, createdAt: '2026-10-01', updatedAt: '2026-10-01',
+  ...extra,
+});
+const rooms = [{
+  id: 'room-1', name: 'Kitchen', description: '', shape: 'rectangular',
+  config: { width: 4000, depth: 3000, height: 2400 },
+  dimensions: { toeKickHeight: 135 },
+  materialDefaults: { exteriorFinish: 'white', carcaseFinish: 'white', doorStyle: 'slab', edgeBanding: 'e1' },
+  hardwareDefaults: { handleType: 'h', handleColor: 'ss', hingeType: 'b', drawerType: 'd', softClose: true, supplyHardware: true, adjustableLegs: true },
+  cabinets: [
+    cabinet('a', 'C01', 'BDR600', 'Base 1 Door', 600, 300),
+    cabinet('b', 'C02', 'BDR600', 'Base 1 Door', 600, 900),
+    cabinet('c', 'C03', 'B3DRW', 'Base 3 Drawer', 450, 1425),
+  ],
+  createdAt: '2026-10-01', updatedAt: '2026-10-01',
+}];
+const catalog = [
+  { id: 'u1', microvellum_link_id: 'BDR600', name: 'Base 1 Door', category: 'Base' },
+  { id: 'u2', microvellum_link_id: 'B3DRW', name: 'Base 3 Drawer', category: 'Base' },
+  { id: 'u3', microvellum_link_id: 'UPR2D', name: 'Upper 2 Door', category: 'Wall' },
+];
+
+const product = (name, { width, item, comment = '', x = 0, y = 0, z = 0, angle = 0, depth = 575, height = 720, prompts = {} }) => `
+      <Product Name="${name}">
+        <Quantity>1</Quantity>
+        <Height>${height}</Height>
+        <Width>${width}</Width>
+        <Depth>${depth}</Depth>
+        <ItemNumber>${item}</ItemNumber>
+        <Comment>${comment}</Comment>
+        <Angle>${angle}</Angle>
+        <XOrigin>${x}</XOrigin>
+        <YOrigin>${y}</YOrigin>
+        <ZOrigin>${z}</ZOrigin>
+        <LinkIDLocation>Kitchen</LinkIDLocation>
+        <Prompts>
+          <Prompt Name="Toe_Kick_Height"><Value>135</Value></Prompt>
+${Object.entries(prompts).map(([k, v]) => `          <Prompt Name="${k}"><Value>${v}</Value></Prompt>`).join('\n')}
+        </Prompts>
+      </Product>`;
+const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<Root Application="Microvellum" ApplicationVersion="7.0">
+  <Project Name="Smith &amp; Co">
+    <Walls><Wall Name="Wall 1"><LinkID>BPWALL.Wall.001</LinkID><Width>4000</Width></Wall></Walls>
+    <Products>${[
+      product('Base 1 Door', { width: 650, item: '1.01', comment: 'Planner C01', prompts: { Face_Options: 'Right Swing' } }),
+      product('Base 1 Door', { width: 600, item: '1.02', comment: 'Planner C02', x: 600 }),
+      product('Upper 2 Door', { width: 800, item: '1.04', x: 2000, z: 1350, depth: 350 }),
+    ].join('')}
+    </Products>
+  </Project>
+</Root>`;
+
+const products = parseMicrovellumXml(xml);
+check('parse: three products with dimensions, prompts and planner numbers',
+  products.length === 3 && products[0].width === 650 && products[0].cabinetNumber === 'C01'
+  && products[0].prompts.Face_Options === 'Right Swing' && products[2].zOrigin === 1350, JSON.stringify(products[0]));
+check('parse: wall elements are not products', !products.some(p => p.name === 'Wall 1'));
+
+let threw = null;
+try { parseMicrovellumXml('<Root><Project><Products></Project></Root>'); } catch (err) { threw = err; }
+check('parse: malformed XML throws MicrovellumXmlError', threw instanceof MicrovellumXmlError);
+threw = null;
+try { parseMicrovellumXml('<html><body/></html>'); } catch (err) { threw = err; }
+check('parse: a non-Microvellum file is rejected', threw instanceof MicrovellumXmlError);
+
+const diff = diffMicrovellumProducts(rooms, products, catalog);
+const byKind = kind => diff.entries.filter(e => e.kind === kind);
+check('diff: one changed, one added, one removed, one unchanged',
+  byKind('changed').length === 1 && byKind('added').length === 1 && byKind('removed').length === 1 && diff.unchanged === 1,
+  JSON.stringify(diff.entries.map(e => [e.kind, e.id, e.changes])));
+const changed = byKind('changed')[0];
+const fields = changed?.changes.map(c => c.field) ?? [];
+check('diff: width, hinge side and the resulting move are reported for C01',
+  changed?.cabinetNumber === 'C01' && fields.includes('width') && fields.includes('hingeSide') && fields.includes('position')
+  && !fields.includes('toeKickHeight') && !fields.includes('product'), fields.join(','));
+check('diff: the drawer bank missing from Microvellum is a removal', byKind('removed')[0]?.cabinetNumber === 'C03');
+check('diff: the new upper has no planner number and is an addition', byKind('added')[0]?.productName === 'Upper 2 Door');
+
+// Without a comment the same link id in the same room still matches.
+const noComments = products.map(p => ({ ...p, cabinetNumber: undefined }));
+const linkDiff = diffMicrovellumProducts(rooms, noComments, catalog);
+check('diff: falls back to link id matching in item order',
+  linkDiff.entries.filter(e => e.kind === 'changed').length === 1 && linkDiff.unchanged === 1);
+
+const swapped = parseMicrovellumXml(xml.replace('Base 1 Door', 'Base 3 Drawer'));
+const swapDiff = diffMicrovellumProducts(rooms, swapped, catalog);
+const swap = swapDiff.entries.find(e => e.kind === 'changed' && e.cabinetNumber === 'C01');
+check('diff: a product swapped in Microvellum is a product change', swap?.changes.some(c => c.field === 'product' && c.to === 'Base 3 Drawer'));
+
+// Two rooms each with a C01: the planner number only matches within the product's room.
+const laundry = {
+  ...rooms[0], id: 'room-2', name: 'Laundry',
+  cabinets: [cabinet('l1', 'C01', 'BDR600', 'Base 1 Door', 600, 900)],
+};
+const laundryC01 = { ...products[1], cabinetNumber: 'C01', location: 'Laundry', itemNumber: '2.01' };
+const roomsDiff = diffMicrovellumProducts([laundry, rooms[0]], [...products, laundryC01], catalog);
+const roomsChanged = roomsDiff.entries.filter(e => e.kind === 'changed');
+check('diff: C01 in each room matches its own room\'s product',
+  roomsChanged.length === 1 && roomsChanged[0].roomName === 'Kitchen' && roomsChanged[0].instanceId === 'a'
+  && roomsDiff.unchanged === 2 && !roomsDiff.entries.some(e => e.instanceId === 'l1'),
+  JSON.stringify(roomsDiff.entries.map(e => [e.kind, e.roomName, e.instanceId])));
+
+const acceptAll = new Set(diff.entries.map(e => e.id));
+let n = 0;
+const applied = applyMicrovellumDiff(rooms, diff.entries, acceptAll, { catalog, now: new Date('2026-10-18T00:00:00Z'), idFactory: () => `new-${++n}` });
+const cabs = applied[0].cabinets;
+const c01 = cabs.find(c => c.cabinetNumber === 'C01');
+check('apply: C01 takes the new width, hinge side and a centre kept on the same back-left origin',
+  c01.dimensions.width === 650 && c01.construction?.hingeSide === 'Right' && c01.position.x === 325, JSON.stringify(c01.position));
+check('apply: C03 is removed', !cabs.some(c => c.cabinetNumber === 'C03'));
+const upper = cabs.find(c => c.instanceId === 'new-1');
+check('apply: the upper is added as a Wall cabinet with the next number and catalogue link id',
+  upper?.category === 'Wall' && upper.cabinetNumber === 'C04' && upper.definitionId === 'UPR2D'
+  && upper.position.x === 2400 && upper.position.y === 1350 && upper.position.z === 175, JSON.stringify(upper?.position));
+check('apply: inputs are not mutated', rooms[0].cabinets.length === 3 && rooms[0].cabinets[0].dimensions.width === 600);
+
+const onlyWidth = applyMicrovellumDiff(rooms, diff.entries, new Set([changed.id]), { catalog });
+check('apply: unticked entries are left alone',
+  onlyWidth[0].cabinets.length === 3 && onlyWidth[0].cabinets[0].dimensions.width === 650);
+check('apply: nothing accepted returns the same rooms', applyMicrovellumDiff(rooms, diff.entries, new Set()) === rooms);
+
+console.log(`\n${pass} passed, ${fail} failed`);
+process.exit(fail === 0 ? 0 : 1);
@@ -0,0 +1,122 @@
+// Structural obstructions: clearance and slope maths, blocked wall spans,
+// run solving under a low ceiling, the obstruction-clash rule, the room
+// schema and the planner's auto-placement.
+// Run via `npm run test:obstructions` (esbuild bundles the modules first).
+import { resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+const load = (file) => import(pathToFileURL(resolve(`.tmp-snap-test/${file}`)).href);
+const L = await load('obstructions-layout.mjs');
+const { findAutoWallPlacement } = await load('obstructions-snap.mjs');
+
+let pass = 0;
+let fail = 0;
+const check = (name, ok, detail = '') => {
+  if (ok) { pass += 1; console.log(`PASS  ${name}`); }
+  else { fail += 1; console.log(`FAIL  ${name}${detail ? ` — ${detail}` : ''}`); }
+};
+
+const room = (obstructions) => ({
+  width: 4000, depth: 3000, height: 2700, shape: 'Rectangle', cutoutWidth: 0, cutoutDepth: 0,
+  openings: [], services: [], obstructions,
+});
+const column = { id: 'c1', type: 'column', xMm: 1000, zMm: 0, widthMm: 400, depthMm: 400 };
+const bulkhead = { id: 'b1', type: 'bulkhead', xMm: 0, zMm: 0, widthMm: 1800, depthMm: 600, undersideMm: 2100 };
+const slope = { id: 's1', type: 'sloped-ceiling', xMm: 0, zMm: 0, widthMm: 4000, depthMm: 1000, undersideMm: 1800, lowSide: 'N' };
+
+// ---- clearance and slope maths ----
+{
+  check('column leaves no clearance', L.obstructionClearance(column, { minX: 900, maxX: 1100, minZ: 0, maxZ: 575 }, 2700) === 0);
+  check('touching edges do not overlap', L.obstructionClearance(column, { minX: 1400, maxX: 2000, minZ: 0, maxZ: 575 }, 2700) === null);
+  check('bulkhead clearance is its underside', L.obstructionClearance(bulkhead, { minX: 0, maxX: 600, minZ: 0, maxZ: 575 }, 2700) === 2100);
+  check('slope is lowest at its low side', L.obstructionUndersideAt(slope, 500, 0, 2700) === 1800);
+  check('slope rises linearly', L.obstructionUndersideAt(slope, 500, 500, 2700) === 2250);
+  check('slope clearance takes the low edge of the overlap',
+    L.obstructionClearance(slope, { minX: 0, maxX: 600, minZ: 200, maxZ: 800 }, 2700) === 1980);
+  check('local ceiling height takes the lowest obstruction',
+    L.localCeilingHeight(room([bulkhead, slope]), { minX: 0, maxX: 600, minZ: 0, maxZ: 575 }) === 1800);
+}
+
+// ---- blocked wall spans ----
+{
+  const spans = L.obstructionWallIntervals(room([column]), 'N', 575, 763);
+  check('column blocks its span of the back wall', spans.length === 1 && spans[0].start === 1000 && spans[0].end === 1400, JSON.stringify(spans));
+  const margin = L.obstructionWallIntervals(room([column]), 'N', 575, 763, 20);
+  check('margin widens the span', margin[0].start === 980 && margin[0].end === 1420);
+  check('column away from the wall band is ignored',
+    L.obstructionWallIntervals(room([{ ...column, zMm: 1500 }]), 'N', 575, 763).length === 0);
+  const west = L.obstructionWallIntervals(room([{ ...column, xMm: 0, zMm: 1000 }]), 'W', 575, 763);
+  check('left wall spans run from the front corner', west.length === 1 && west[0].start === 1600 && west[0].end === 2000, JSON.stringify(west));
+  check('bench-height cabinets pass under a bulkhead', L.obstructionWallIntervals(room([bulkhead]), 'N', 575, 763).length === 0);
+  check('cabinets up to the underside still fit', L.obstructionWallIntervals(room([bulkhead]), 'N', 575, 2100).length === 0);
+  const tall = L.obstructionWallIntervals(room([bulkhead]), 'N', 580, 2250);
+  check('taller cabinets are blocked by a bulkhead', tall.length === 1 && tall[0].end === 1800);
+}
+
+// ---- run solving under a low ceiling ----
+{
+  const run = {
+    wall: 'N', wallCabinets: false,
+    segments: [{ kind: 'cabinet', role: 'pantry' }, { kind: 'cabinet', role: 'doors' }, { kind: 'cabinet', role: 'sink' }],
+  };
+  const free = L.solveRun(run, 4000, []);
+  const freePantry = free.resolved.find(r => r.segment.kind === 'cabinet' && r.segment.role === 'pantry');
+  check('pantry starts at the corner with full headroom', freePantry?.startMm === 0);
+  const solved = L.solveRun(run, 4000, [], [], [{ start: 0, end: 1800 }]);
+  const pantry = solved.resolved.find(r => r.segment.kind === 'cabinet' && r.segment.role === 'pantry');
+  check('pantry moves out from under the low ceiling', pantry && pantry.startMm >= 1800, JSON.stringify(pantry));
+  check('base infill fills beneath the low ceiling',
+    solved.resolved.filter(r => r.startMm < 1800).every(r => r.segment.kind !== 'cabinet' || r.segment.role === 'doors' || r.segment.role === 'drawers'));
+  check('the move is explained', solved.notes.some(n => n.includes('out from under the low ceiling')), solved.notes.join(' | '));
+}
+
+// ---- compiled designs and the obstruction-clash rule ----
+{
+  const brief = L.briefFromWizard({ layoutPreference: 'single-wall', roomWidth: 4200, roomDepth: 3200, layoutStyle: 'standard' });
+  const spec = L.defaultSpecFor(brief, 'single-wall');
+  const plain = L.compileSpec(spec, brief.room);
+  const wall = plain.items[0]?.wall ?? 'N';
+  const blocked = { ...brief.room, obstructions: [{ id: 'c1', type: 'column', xMm: 1800, zMm: 0, widthMm: 400, depthMm: 400 }] };
+  if (wall === 'N') {
+    const design = L.compileSpec(spec, blocked);
+    const clashes = L.validate(design, blocked, brief).filter(v => v.code === 'obstruction-clash');
+    check('compiled design keeps clear of a column', clashes.length === 0, clashes.map(c => c.message).join(' | '));
+  }
+  const clashRoom = { ...brief.room, obstructions: [] };
+  const item = plain.items.find(i => i.y === 0);
+  const r = L.itemRect(item);
+  clashRoom.obstructions.push({ id: 'c2', type: 'column', xMm: Math.round(r.minX), zMm: Math.round(r.minZ), widthMm: 200, depthMm: 200 });
+  const found = L.validate(plain, clashRoom, brief).filter(v => v.code === 'obstruction-clash');
+  check('a cabinet through a column is a hard error', found.length === 1 && found[0].severity === 'error' && found[0].itemIds?.[0] === item.instanceId,
+    JSON.stringify(found));
+  const lowRoom = { ...brief.room, obstructions: [{ id: 'b2', type: 'bulkhead', xMm: Math.round(r.minX), zMm: Math.round(r.minZ), widthMm: 200, depthMm: 200, undersideMm: 500 }] };
+  const low = L.validate(plain, lowRoom, brief).filter(v => v.code === 'obstruction-clash');
+  check('a cabinet taller than the bulkhead clearance is flagged', low.length === 1 && low[0].message.includes('leaves 500mm'), JSON.stringify(low));
+  check('a cabinet above the ceiling is flagged',
+    L.validate(plain, { ...brief.room, height: 700 }, brief).some(v => v.code === 'obstruction-clash' && v.message.includes('ceiling')));
+}
+
+// ---- room schema ----
+{
+  check('schema accepts obstructions', L.roomSpecSchema.safeParse(room([column, bulkhead, slope])).success);
+  check('schema wants an underside for ceiling types',
+    !L.roomSpecSchema.safeParse(room([{ ...bulkhead, undersideMm: undefined }])).success);
+  check('schema rejects an obstruction outside the room',
+    !L.roomSpecSchema.safeParse(room([{ ...column, xMm: 3800 }])).success);
+}
+
+// ---- planner auto-placement ----
+{
+  const place = (category, obstructions, width = 600) => findAutoWallPlacement({
+    room: room(obstructions), width, depth: category === 'Wall' ? 350 : 580, category, obstacles: [],
+  });
+  const first = place('Base', [{ ...column, xMm: 0 }], 600);
+  check('base cabinet starts past a corner column', first?.wall === 'N' && first.x - 300 >= 400, JSON.stringify(first));
+  const under = place('Base', [bulkhead]);
+  check('base cabinet goes under a bulkhead', under?.wall === 'N' && under.x - 300 < 1800, JSON.stringify(under));
+  const tall = place('Tall', [{ ...bulkhead, undersideMm: 2000 }]);
+  check('tall cabinet stays out from under a bulkhead', tall && !(tall.wall === 'N' && tall.x - 300 < 1800), JSON.stringify(tall));
+}
+
+console.log(`\n${pass} passed, ${fail} failed`);
+if (fail) process.exit(1);
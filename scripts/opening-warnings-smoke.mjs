@@ -73,5 +73,32 @@ check('rotated tall blocks E-wall door', w8.length === 1 && w8[0].openingId ===
 const w9 = computeOpeningWarnings({ width: 3600, depth: 3000 }, dims, [mkCab('Base', 3000, 2702)]);
 check('legacy room (no openings) is clean', w9.length === 0, JSON.stringify(w9));
 
+// 10. Polygon room with a chamfered SE corner: offsets run along each wall's
+// own segment, so P walls are not read as the E wall.
+const chamfered = {
+  width: 3600,
+  depth: 3000,
+  shape: 'Polygon',
+  polygon: [
+    { id: 'P0', x: 0, z: 0 }, { id: 'P1', x: 3600, z: 0 }, { id: 'P2', x: 3600, z: 2000 },
+    { id: 'P3', x: 2600, z: 3000 }, { id: 'P4', x: 0, z: 3000 },
+  ],
+  openings: [
+    // Front wall P3 runs (2600,3000) → (0,3000): x span [1630, 2500].
+    { id: 'door-p3', wall: 'P3', type: 'door', offsetMm: 100, widthMm: 870 },
+    // Chamfer P2 runs (3600,2000) → (2600,3000); door 200–1100mm along it.
+    { id: 'door-p2', wall: 'P2', type: 'door', offsetMm: 200, widthMm: 900 },
+  ],
+};
+const w10 = computeOpeningWarnings(chamfered, dims, [mkCab('Base', 2100, 2702)]);
+check('polygon: base across a P-wall door warns, named by wall number',
+  w10.length === 1 && w10[0].openingId === 'door-p3' && /on wall 4$/.test(w10[0].message), JSON.stringify(w10));
+const w11 = computeOpeningWarnings(chamfered, dims, [mkCab('Base', 3300, 600, { position: { x: 3300, y: 0, z: 600, rotation: 90 } })]);
+check('polygon: the east wall is not mistaken for a P-wall door', w11.length === 0, JSON.stringify(w11));
+const w12 = computeOpeningWarnings(chamfered, dims, [mkCab('Base', 2928, 2248)]);
+check('polygon: base in front of an angled wall\'s door warns', w12.length === 1 && w12[0].openingId === 'door-p2', JSON.stringify(w12));
+const w13 = computeOpeningWarnings(chamfered, dims, [mkCab('Base', 2928, 1000)]);
+check('polygon: base well clear of the angled door is clean', w13.length === 0, JSON.stringify(w13));
+
 console.log(`opening warnings smoke: ${pass} passed, ${fail} failed`);
 if (fail > 0) process.exit(1);
@@ -0,0 +1,115 @@
+// Part labels and the in-tree QR encoder.
+// Run via `npm run test:part-labels` (esbuild bundles both modules first).
+import { resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+const { encodeQr } = await import(pathToFileURL(resolve('.tmp-snap-test/qr-code.mjs')).href);
+const { buildPartLabels, edgeCode, jobCabinetRef, jobLabelRef, parsePartLabelId, partLabelId } =
+  await import(pathToFileURL(resolve('.tmp-snap-test/part-labels.mjs')).href);
+
+let pass = 0;
+let fail = 0;
+const check = (name, ok, detail = '') => {
+  if (ok) { pass += 1; console.log(`PASS  ${name}`); }
+  else { fail += 1; console.log(`FAIL  ${name}${detail ? ` — ${detail}` : ''}`); }
+};
+
+// 1. QR encoder — byte mode, level M. Reference symbol produced by an
+// independent encoder for the same payload and mask.
+const REFERENCE = [
+  '#######..#.##.#...#######',
+  '#.....#.##.######.#.....#',
+  '#.###.#...#...#.#.#.###.#',
+  '#.###.#...#.###...#.###.#',
+  '#.###.#.##.##.#...#.###.#',
+  '#.....#..#...####.#.....#',
+  '#######.#.#.#.#.#.#######',
+  '.........##..##..........',
+  '#.#.#.#..#..###.....#..#.',
+  '#.##.#..#.#.#..#####.#..#',
+  '##..#.#..#.#.#...#.##.#.#',
+  '.....#..#.#.##.#####.#...',
+  '#.#.#.#..#..########.#..#',
+  '...#.#.#..#####..#.#....#',
+  '#..##.#.#####.#.##..#.#.#',
+  '.###.#..##..######.#.#.##',
+  '#.#..###..##..#.######...',
+  '........#..#....#...##.#.',
+  '#######..#...#..#.#.#..##',
+  '#.....#..###....#...##...',
+  '#.###.#.#...#...#####..##',
+  '#.###.#..#####.##...#.#..',
+  '#.###.#.#####.###.#.#...#',
+  '#.....#..#..####....#..#.',
+  '#######.#.##..#####.#.###',
+];
+const render = (m) => m.map(row => row.map(dark => (dark ? '#' : '.')).join(''));
+const qr = encodeQr('J1042.C01.LEFT-SIDE.1', { mask: 0 });
+check('qr: 21-byte payload fits a version-2 (25 × 25) symbol', qr.length === 25 && qr.every(r => r.length === 25));
+check('qr: matches the reference symbol module for module',
+  render(qr).join('\n') === REFERENCE.join('\n'));
+check('qr: automatic mask choice still yields a version-2 symbol', encodeQr('J1042.C01.LEFT-SIDE.1').length === 25);
+check('qr: 1-byte payload is version 1 (21 × 21)', encodeQr('A').length === 21);
+check('qr: 200-byte payload is version 10 (57 × 57)', encodeQr('x'.repeat(200)).length === 57);
+let threw = false;
+try { encodeQr('x'.repeat(400)); } catch { threw = true; }
+check('qr: payloads beyond version 10 throw', threw);
+
+// 2. Labels
+const edging = (len1, len2, wid1, wid2) => ({ len1, len2, wid1, wid2 });
+const part = (name, length, width, quantity, edges = edging(false, false, false, false)) => ({
+  name, partType: name, length, width, area: (length * width) / 1e6, thickness: 16,
+  materialId: 'm1', materialRole: 'carcase', edging: edges, quantity,
+  handlingCost: 0, machiningCost: 0, assemblyCost: 0,
+});
+const cabinet = (cabinetNumber, parts, roomRef) => ({
+  cabinetId: roomRef ? `${roomRef}-${cabinetNumber}` : cabinetNumber, cabinetNumber, ...(roomRef ? { roomRef } : {}), cabinetName: 'Base 2 Door', cabinetSku: 'B2D',
+  dimensions: { width: 900, height: 870, depth: 575 },
+  parts,
+  sheets: [{ materialId: 'm1', materialName: 'White Melamine 16mm' }],
+  edgeTape: [], hardware: [],
+});
+const quoteBOM = {
+  cabinets: [
+    cabinet('C01', [part('Side', 853, 575, 2, edging(true, false, false, false)), part('Shelf', 864, 540, 2), part('Shelf', 864, 300, 1)]),
+    cabinet('C02', [part('Side', 853, 575, 2)]),
+  ],
+};
+
+const labels = buildPartLabels(quoteBOM, jobLabelRef(1042));
+check('labels: one label per part copy', labels.length === 7, String(labels.length));
+check('labels: part ids are unique', new Set(labels.map(l => l.partId)).size === labels.length);
+check('labels: ids are stable across runs',
+  JSON.stringify(buildPartLabels(quoteBOM, 'J1042').map(l => l.partId)) === JSON.stringify(labels.map(l => l.partId)));
+check('labels: same-name parts in a cabinet number on', labels.filter(l => l.cabinetNumber === 'C01' && l.partName === 'Shelf')
+  .map(l => l.partId).join(',') === 'J1042.C01.SHELF.1,J1042.C01.SHELF.2,J1042.C01.SHELF.3');
+check('labels: material name and edge code resolved',
+  labels[0].materialName === 'White Melamine 16mm' && labels[0].edgeCode === 'L1' && labels[2].edgeCode === '-');
+check('labels: copy counters', labels[1].copy === 2 && labels[1].of === 2);
+check('labels: edge code lists every banded side', edgeCode(edging(true, true, true, true)) === 'L1 L2 W1 W2');
+const parsed = parsePartLabelId(partLabelId('J1042', 'C02', 'Left Side', 3));
+check('labels: part id round-trips through the scanner parser',
+  parsed?.jobRef === 'J1042' && parsed.cabinetRef === 'C02' && parsed.partSlug === 'LEFT-SIDE' && parsed.occurrence === 3,
+  JSON.stringify(parsed));
+check('labels: scanner parser rejects other codes', parsePartLabelId('9300601123456') === null);
+check('labels: every label id encodes', labels.every(l => encodeQr(l.partId).length >= 21));
+
+// 3. Multi-room jobs — every room numbers its cabinets from C01.
+const twoRooms = {
+  cabinets: [
+    cabinet('C01', [part('Side', 853, 575, 2)], 'R1'),
+    cabinet('C01', [part('Side', 720, 560, 2)], 'R2'),
+  ],
+};
+const roomLabels = buildPartLabels(twoRooms, 'J1042');
+check('labels: two rooms with a C01 each still get unique part ids',
+  new Set(roomLabels.map(l => l.partId)).size === 4, roomLabels.map(l => l.partId).join(','));
+check('labels: room goes in front of the cabinet number',
+  roomLabels[2].partId === 'J1042.R2-C01.SIDE.1' && roomLabels[2].cabinetRef === 'R2-C01' && roomLabels[2].cabinetNumber === 'C01'
+  && roomLabels[2].length === 720);
+check('labels: single-room cabinet ref is the bare number', jobCabinetRef({ cabinetNumber: 'C03' }) === 'C03');
+const roomParsed = parsePartLabelId('J1042.R2-C01.SIDE.1');
+check('labels: room-qualified id parses', roomParsed?.cabinetRef === 'R2-C01' && roomParsed.partSlug === 'SIDE', JSON.stringify(roomParsed));
+
+console.log(`\n${pass} passed, ${fail} failed`);
+process.exit(fail === 0 ? 0 : 1);
@@ -0,0 +1,132 @@
+// Peninsula layouts: the default spec returns a peninsula from a wall run's
+// end corner, the compiler shortens the host run and finishes the peninsula's
+// back and free end, and the aisle, landing and finishing rules and the
+// candidate pool all understand it.
+// Run via `npm run test:peninsula` (esbuild bundles the module first).
+import { resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+const L = await import(pathToFileURL(resolve('.tmp-snap-test/peninsula-layout.mjs')).href);
+
+let pass = 0;
+let fail = 0;
+const check = (name, ok, detail = '') => {
+  if (ok) { pass += 1; console.log(`PASS  ${name}`); }
+  else { fail += 1; console.log(`FAIL  ${name}${detail ? ` — ${detail}` : ''}`); }
+};
+
+const room = (width, depth, extra = {}) => ({
+  width, depth, height: 2700, shape: 'Rectangle', cutoutWidth: 0, cutoutDepth: 0,
+  openings: [], services: [], ...extra,
+});
+const brief = (r, extra = {}) => ({
+  room: r, household: {}, priorities: ['storage'],
+  appliances: { cooktop: 'induction', dishwasher: true }, island: 'no', ...extra,
+});
+const errors = (violations) => violations.filter(v => v.severity === 'error').map(v => v.code);
+
+const openRoom = room(6000, 3600);
+const openBrief = brief(openRoom);
+const spec = L.defaultSpecFor(openBrief, 'peninsula');
+const design = L.compileSpec(spec, openRoom);
+const peninsulaItems = design.items.filter(item => item.layoutRole === 'peninsula');
+
+// ---- default spec ----
+{
+  check('the default spec carries a peninsula', spec.peninsula?.wall === 'N' && spec.peninsula.at === 'end', JSON.stringify(spec.peninsula));
+  check('the peninsula seats', spec.peninsula.features.includes('seating'));
+  check('spec passes the schema', L.kitchenSpecSchema.safeParse(spec).success);
+  const host = spec.runs[0];
+  check('the host run turns from a corner at the peninsula end',
+    host.fromEnd === true && host.segments[0].kind === 'cabinet' && host.segments[0].role === 'corner');
+  check('schema rejects a stub peninsula',
+    !L.kitchenSpecSchema.safeParse({ ...spec, peninsula: { ...spec.peninsula, lengthMm: 600 } }).success);
+  check('too small a room falls back to a single wall', !L.defaultSpecFor(brief(room(3600, 3000)), 'peninsula').peninsula);
+}
+
+// ---- compiled peninsula ----
+{
+  check('one cabinet per 600mm of peninsula', peninsulaItems.length === spec.peninsula.lengthMm / 600, String(peninsulaItems.length));
+  check('nothing left out', !design.notes.some(note => note.includes('peninsula')), design.notes.join(' | '));
+  const backs = peninsulaItems.filter(item => item.finishedBack);
+  check('one finished back runs the full length',
+    backs.length === 1 && backs[0].finishedBackWidth === spec.peninsula.lengthMm && backs[0].finishedBackFullHeight);
+  check('standard backs are suppressed', peninsulaItems.every(item => item.suppressStandardBack));
+  check('the free end is panelled', peninsulaItems.filter(item => item.endPanelLeft || item.endPanelRight).length === 1);
+  check('seating gets the stool-side overhang', peninsulaItems.every(item => item.benchtopBackOverhang === 300));
+  const hostRange = design.runRanges.find(range => range.wall === 'N');
+  check('the host run stops short of the adjoining wall', hostRange.endMm <= openRoom.width - 1200, JSON.stringify(hostRange));
+  const backEdge = Math.max(...peninsulaItems.map(item => L.benchtopRect(item).maxX));
+  check('a walkway stays clear behind the seating', openRoom.width - backEdge >= 900, String(openRoom.width - backEdge));
+  const corner = design.items.find(item => item.layoutRole === 'corner');
+  check('the corner returns into the peninsula', corner.cornerReturnSide === 'Right');
+  check('no hard violations', errors(L.validate(design, openRoom, openBrief)).length === 0,
+    errors(L.validate(design, openRoom, openBrief)).join());
+}
+
+// ---- the other end and other walls ----
+{
+  const doorEast = room(6000, 3600, {
+    openings: [{ id: 'd1', type: 'door', wall: 'E', offsetMm: 1500, widthMm: 820, heightMm: 2040 }],
+  });
+  const b = brief(doorEast);
+  const s = L.defaultSpecFor(b, 'peninsula');
+  check('a doorway moves the peninsula to the other end', s.peninsula?.at === 'start');
+  const d = L.compileSpec(s, doorEast);
+  const items = d.items.filter(item => item.layoutRole === 'peninsula');
+  check('the start-end peninsula is built', items.length === s.peninsula.lengthMm / 600, d.notes.join(' | '));
+  check('it sits clear of the west wall', Math.min(...items.map(item => L.benchtopRect(item).minX)) >= 900);
+  check('the start-end peninsula is valid', errors(L.validate(d, doorEast, b)).length === 0, errors(L.validate(d, doorEast, b)).join());
+
+  const sideRoom = room(3600, 6000);
+  const sb = brief(sideRoom, { allowedWalls: ['W'] });
+  const ws = L.defaultSpecFor(sb, 'peninsula');
+  const wd = L.compileSpec(ws, sideRoom);
+  check('a west-wall peninsula is built', ws.peninsula?.wall === 'W' && wd.items.some(item => item.layoutRole === 'peninsula'));
+  check('the west-wall peninsula is valid', errors(L.validate(wd, sideRoom, sb)).length === 0, errors(L.validate(wd, sideRoom, sb)).join());
+}
+
+// ---- compile refuses an unusable peninsula ----
+{
+  const tight = L.compileSpec({ ...spec, peninsula: { ...spec.peninsula, lengthMm: 2400 } }, room(6000, 3600));
+  check('a peninsula that blocks the end walkway is left out',
+    !tight.items.some(item => item.layoutRole === 'peninsula') && tight.notes.some(note => note.startsWith('Left out the peninsula')),
+    tight.notes.join(' | '));
+  const noCorner = L.compileSpec({ ...spec, runs: [{ ...spec.runs[0], segments: spec.runs[0].segments.slice(1) }] }, openRoom);
+  check('a host run without an end corner has no peninsula',
+    !noCorner.items.some(item => item.layoutRole === 'peninsula') && noCorner.notes.some(note => note.includes('corner cabinet')));
+}
+
+// ---- rules ----
+{
+  const codes = (d) => L.validate(d, openRoom, openBrief).map(v => v.code);
+  check('the peninsula is the cooktop landing', !codes(design).includes('cooktop-landing'));
+  const bare = L.compileSpec({ ...spec, peninsula: undefined }, openRoom);
+  check('without it the corner side has no landing', codes(bare).includes('cooktop-landing'));
+  const unfinished = {
+    ...design,
+    items: design.items.map(item => item.layoutRole === 'peninsula' ? { ...item, finishedBack: false } : item),
+  };
+  check('an unfinished back is flagged', codes(unfinished).includes('peninsula-exposed'));
+  const crowded = {
+    ...design,
+    items: [...design.items, { ...peninsulaItems[0], instanceId: 'x1', layoutRole: 'doors', x: peninsulaItems[0].x - 1200, rotation: 270 }],
+  };
+  check('a cabinet across a narrow aisle is flagged', codes(crowded).includes('narrow-aisle'));
+}
+
+// ---- candidate pool ----
+{
+  const pool = L.generateCandidatePool({ brief: openBrief, maxCandidates: 5 });
+  check('the peninsula strategy is attempted', pool.attemptedStrategies.includes('peninsula'));
+  const only = L.generateCandidatePool({ brief: openBrief, allowedStrategies: ['peninsula'] });
+  const candidate = only.candidates[0];
+  check('a peninsula candidate survives validation', candidate?.spec.peninsula && candidate.fingerprint.includes('#peninsula'),
+    JSON.stringify(only.rejected.map(r => r.reasons)));
+  check('the summary names its features', L.candidateSummaryFor(candidate).peninsula?.includes('seating'));
+  const small = L.generateCandidatePool({ brief: brief(room(3600, 3000)), allowedStrategies: ['peninsula'] });
+  check('a small room offers no peninsula', small.candidates.length === 0 && !small.attemptedStrategies.includes('peninsula'));
+}
+
+console.log(`\n${pass} passed, ${fail} failed`);
+if (fail) process.exit(1);
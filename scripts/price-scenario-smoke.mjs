@@ -0,0 +1,132 @@
+// Price scenarios: staging edits, applying them to a copy of the pricing
+// data, re-pricing saved jobs with and without them, and the edits a
+// published revision sends.
+// Run via `npm run test:price-scenario` (esbuild bundles the module first).
+import { resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+const {
+  withPriceEdit, applyPriceEdits, priceScenarioJob, simulatePriceEdits, revisionEdits,
+  revisionImpact, tradeRoomsOf,
+} = await import(pathToFileURL(resolve('.tmp-snap-test/price-scenario.mjs')).href);
+
+let pass = 0;
+let fail = 0;
+const check = (name, ok, detail = '') => {
+  if (ok) { pass += 1; console.log(`PASS  ${name}`); }
+  else { fail += 1; console.log(`FAIL  ${name}${detail ? ` — ${detail}` : ''}`); }
+};
+
+const P = (name, lf, wf, edging = '1/-/-/-') => ({
+  name, part_type: 'Carcase', length_function: lf, width_function: wf, edging,
+  handling_cost: 1.5, area_handling_cost: 0, machining_cost: 1.2, area_machining_cost: 0,
+  assembly_cost: 2.0, area_assembly_cost: 0, visibility_status: 'Available',
+});
+const pricingData = {
+  parts: [
+    P('Base Left Side', 'CabHeight-ToeKickHeight', 'CabDepth', '1/-/1/-'),
+    P('Base Right Side', 'CabHeight-ToeKickHeight', 'CabDepth', '1/-/1/-'),
+    P('Base Bottom', 'CabWidth-CarcaseThick*2', 'CabDepth-BackThickness'),
+    P('Base Back', 'CabWidth-CarcaseThick*2', 'CabHeight-ToeKickHeight', '-/-/-/-'),
+    P('Door', 'CabHeight-ToeKickHeight-DoorGap', 'CabWidth/NumDoors-DoorGap', '1/1/1/1'),
+  ],
+  materials: [
+    { id: 'm1', item_code: 'WHT16', name: 'White Melamine 16mm', material_type: 'Melamine', area_cost: 34.5, area_handling_cost: 3.15,
+      area_assembly_cost: 4.5, sheet_length: 3600, sheet_width: 1800, expected_yield_factor: 0.85, visibility_status: 'Available' },
+    { id: 'bundle-wg', item_code: 'WG18', name: 'Woodgrain 18mm', material_type: 'Laminate', area_cost: 58, area_handling_cost: 3.5,
+      area_assembly_cost: 5, sheet_length: 3600, sheet_width: 1800, expected_yield_factor: 0.82, visibility_status: 'Available' },
+  ],
+  edges: [{ id: 'e1', item_code: 'EW1', name: 'White ABS 1mm', edge_type: 'standard', thickness: 1, length_cost: 1.5, handling_cost: 0.5, application_cost: 0.9, visibility_status: 'Available' }],
+  hardware: [
+    { id: 'h1', item_code: 'HNG-S200', name: 'Hinge', hardware_type: 'hinge', series: 'Salice Knock In', unit_cost: 6.2, machining_cost: 1.4, assembly_cost: 1.2 },
+    { id: 'h5', item_code: 'LEG-ADJ', name: 'Adjustable Leg', hardware_type: 'leg', unit_cost: 1.35, machining_cost: 0, assembly_cost: 0 },
+  ],
+  labor: [{ id: 'l1', name: 'Labor Base Per Cabinet', rate: 235 }],
+  doorDrawer: [],
+  benchtop: [],
+};
+
+const cabinet = (n, width) => ({
+  instanceId: `c${n}`, definitionId: 'base_2_door', category: 'Base', productName: 'Base 2-Door', cabinetNumber: `C${n}`,
+  dimensions: { width, height: 870, depth: 575 },
+  materials: { carcaseFinish: 'WHT16', exteriorFinish: 'WG18' },
+});
+const room = (id, cabinets) => ({
+  id, name: id, cabinets,
+  dimensions: { toeKickHeight: 135 },
+  materialDefaults: { carcaseFinish: 'WHT16', exteriorFinish: 'WG18', edgeBanding: 'EW1' },
+  hardwareDefaults: { handleType: '', hingeType: 'Salice', drawerType: 'Alto', supplyHardware: true, adjustableLegs: true },
+});
+const commercial = { gstPct: 0.1, categoryMarkups: { material: 0.3, hardware: 0.3, labor: 0.3, parts: 0.3, edge: 0.3 } };
+const jobs = [
+  { id: 'j1', label: '#1 Small', rooms: [room('k', [cabinet(1, 600), cabinet(2, 800)])], commercial },
+  { id: 'j2', label: '#2 Two rooms', rooms: [room('k', [cabinet(1, 900)]), room('l', [cabinet(2, 450)])], commercial },
+  { id: 'j3', label: '#3 Empty', rooms: [room('k', [])], commercial },
+];
+
+const edit = (overrides) => ({ table: 'material_pricing', rowId: 'm1', itemCode: 'WHT16', itemName: 'White', field: 'area_cost', from: 34.5, to: 40, ...overrides });
+
+// ---- staging ----
+{
+  let edits = withPriceEdit([], edit({ to: 40 }));
+  edits = withPriceEdit(edits, edit({ from: 40, to: 45 }));
+  check('re-editing a value keeps its original price', edits.length === 1 && edits[0].from === 34.5 && edits[0].to === 45);
+  edits = withPriceEdit(edits, edit({ from: 45, to: 34.5 }));
+  check('setting a value back drops the edit', edits.length === 0);
+}
+
+// ---- applying ----
+{
+  const edits = [
+    edit({ to: 40 }),
+    edit({ rowId: 'db-wg', itemCode: 'WG18', itemName: 'Woodgrain', from: 58, to: 70 }),
+    edit({ table: 'labor_rates', rowId: 'l1', itemCode: null, itemName: 'Base', field: 'rate', from: 235, to: 250 }),
+  ];
+  const edited = applyPriceEdits(pricingData, edits);
+  check('edits land on the copy', edited.materials[0].area_cost === 40 && edited.labor[0].rate === 250);
+  check('the original data is untouched', pricingData.materials[0].area_cost === 34.5 && pricingData.labor[0].rate === 235);
+  check('materials match by item code too', edited.materials[1].area_cost === 70);
+  check('untouched tables are shared', edited.hardware === pricingData.hardware);
+}
+
+// ---- simulation ----
+{
+  const before = priceScenarioJob(jobs[0], pricingData);
+  check('a job prices to a sell above cost', before.total > 0 && before.sellExGst > before.cost && before.marginPct > 0, JSON.stringify(before));
+  check('a job with nothing to price is null', priceScenarioJob(jobs[2], pricingData) === null);
+  check('rooms add up', (() => {
+    const two = priceScenarioJob(jobs[1], pricingData);
+    const k = priceScenarioJob({ rooms: [jobs[1].rooms[0]], commercial }, pricingData);
+    const l = priceScenarioJob({ rooms: [jobs[1].rooms[1]], commercial }, pricingData);
+    return Math.abs(two.total - k.total - l.total) < 0.02;
+  })());
+
+  const none = simulatePriceEdits(jobs, pricingData, []);
+  check('no edits move nothing', none.totalDelta === 0 && none.jobs.every(j => j.totalDelta === 0));
+  check('unpriceable jobs are reported', none.skipped.length === 1 && none.skipped[0].id === 'j3');
+
+  const up = simulatePriceEdits(jobs, pricingData, [edit({ to: 69 })]);
+  check('a board price rise raises every job', up.jobs.length === 2 && up.jobs.every(j => j.totalDelta > 0), JSON.stringify(up.jobs.map(j => j.totalDelta)));
+  check('aggregate is the sum of jobs', Math.abs(up.totalDelta - up.jobs.reduce((s, j) => s + j.totalDelta, 0)) < 0.02);
+  check('markup moves margin with cost', up.marginDelta > 0);
+  check('aggregate percentage is against the current totals', Math.abs(up.totalDeltaPct - up.totalDelta / up.before.total) < 0.001);
+
+  const impact = revisionImpact(up);
+  check('revision impact summarises the run', impact.jobs === 2 && impact.totalAfter === up.after.total && impact.marginPctBefore === up.before.marginPct);
+}
+
+// ---- publishing ----
+{
+  const edits = [edit({ to: 40 }), edit({ field: 'expected_yield_factor', from: 0.85, to: 0.8 }), edit({ table: 'hardware_pricing', rowId: 'h1', field: 'unit_cost', from: 6.2, to: 6.5 })];
+  const sent = revisionEdits(edits);
+  check('one edit per value, each with the value it was simulated from', sent.length === 3
+    && sent[1].from === 0.85 && sent[1].to === 0.8 && sent[1].field === 'expected_yield_factor'
+    && sent[2].table === 'hardware_pricing' && sent[2].rowId === 'h1');
+  check('only the fields the publish function reads are sent',
+    sent.every(e => Object.keys(e).sort().join() === 'field,from,itemName,rowId,table,to'));
+}
+
+check('trade rooms are read from design data', tradeRoomsOf({ tradeRooms: [{ id: 'k' }] }).length === 1 && tradeRoomsOf(null).length === 0);
+
+console.log(`\n${pass} passed, ${fail} failed`);
+if (fail) process.exit(1);
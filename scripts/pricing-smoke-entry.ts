@@ -1,3 +1,4 @@
 // Bundle entry for the pricing smoke tests
 export { generateQuoteBOM, generateCabinetBOM } from '../src/lib/pricing/bomGenerator';
 export { calculateBenchtops } from '../src/lib/pricing/benchtopCalculator';
+export { nestParts } from '../src/lib/pricing/sheetNesting';
@@ -9,7 +9,9 @@
  * Uses a deterministic synthetic pricing dataset so it runs offline and in CI.
  * Checks engine INVARIANTS across all cabinet families plus degenerate inputs.
  */
-import { generateQuoteBOM, generateCabinetBOM, calculateBenchtops } from '../.tmp-snap-test/pricing.mjs';
+import { generateQuoteBOM, generateCabinetBOM, calculateBenchtops, nestParts } from '../.tmp-snap-test/pricing.mjs';
+// jsPDF's node build is CommonJS; the bundle aliases its ES build instead.
+import { buildCuttingDiagramsPdf } from '../.tmp-snap-test/cut-diagrams.mjs';
 
 // ---------- synthetic pricing fixture ----------
 const P = (name, lf, wf, extra = {}) => ({
@@ -888,5 +890,142 @@ for (const [id, w, h, d] of families) {
     JSON.stringify(edgeLine));
 }
 
+// 14. Guillotine nesting: sheet counts come from a real layout, parts never
+// overlap or leave the trimmed board, and grain-locked faces are not rotated.
+{
+  const part = (name, length, width, quantity, extra = {}) => ({
+    name, partType: name, length, width, area: (length * width) / 1e6, thickness: 16,
+    materialId: 'm1', materialRole: 'carcase', edging: { len1: true, wid1: false, len2: false, wid2: false },
+    quantity, handlingCost: 0, machiningCost: 0, assemblyCost: 0, ...extra,
+  });
+
+  // Four 1190 × 590 panels fit a trimmed 2400 × 1200 board with a 4mm kerf
+  // between them, so eight need exactly two sheets.
+  const halves = nestParts([part('Panel', 1190, 590, 8)], 2400, 1200, { kerfMm: 4, trimMm: 5 });
+  check('nesting: 8 × (1190 × 590) panels fill exactly 2 sheets', halves.sheets.length === 2,
+    String(halves.sheets.length));
+
+  const mixed = nestParts([
+    part('Side', 853, 575, 6, { cabinetNumber: 'C01' }),
+    part('Shelf', 564, 540, 5, { cabinetNumber: 'C02' }),
+    part('Door', 720, 447, 4, { cabinetNumber: 'C03', grain: 'length' }),
+    part('Gable', 2700, 600, 1),
+  ], 2400, 1200);
+  const placements = mixed.sheets.flatMap(sheet => sheet.placements.map(p => ({ ...p, sheet: sheet.index })));
+  check('nesting: every in-size copy placed once', placements.length === 15, String(placements.length));
+  check('nesting: oversize gable reported as unplaced', mixed.unplaced.length === 1 && mixed.unplaced[0].partName === 'Gable',
+    JSON.stringify(mixed.unplaced));
+  const footprint = p => (p.rotated ? [p.width, p.length] : [p.length, p.width]);
+  const inBounds = placements.every(p => {
+    const [l, w] = footprint(p);
+    return p.x >= mixed.trimMm && p.y >= mixed.trimMm && p.x + l <= 2400 - mixed.trimMm + 0.1 && p.y + w <= 1200 - mixed.trimMm + 0.1;
+  });
+  check('nesting: placements stay inside the trimmed sheet', inBounds);
+  const overlaps = placements.some((a, i) => placements.slice(i + 1).some(b => {
+    if (a.sheet !== b.sheet) return false;
+    const [al, aw] = footprint(a);
+    const [bl, bw] = footprint(b);
+    return a.x < b.x + bl - 0.1 && b.x < a.x + al - 0.1 && a.y < b.y + bw - 0.1 && b.y < a.y + aw - 0.1;
+  }));
+  check('nesting: no two parts overlap', !overlaps);
+  check('nesting: grain-locked doors are never rotated',
+    placements.filter(p => p.partName === 'Door').every(p => !p.rotated));
+  check('nesting: cabinet numbers carried onto placements',
+    placements.filter(p => p.partName === 'Shelf').every(p => p.cabinetNumber === 'C02'));
+  check('nesting: waste + used area = sheet area on every sheet',
+    mixed.sheets.every(s => Math.abs(s.usedArea + s.wasteArea - 2.88) < 1e-6));
+  check('nesting: offcuts reported on a part-filled sheet',
+    mixed.sheets.some(s => s.offcuts.length > 0), JSON.stringify(mixed.sheets.map(s => s.offcuts.length)));
+
+  const job = generateQuoteBOM(
+    [cab('base_2_door', 900, 870, 575, 1), cab('base_2_door', 900, 870, 575, 2), cab('wall_2_door', 900, 720, 350, 3)],
+    dims,
+    { ...hw, adjustableLegs: false },
+    pricingData,
+  );
+  const board = job.consolidatedSheets[0];
+  check('nesting: consolidated sheetsRequired equals the nested layout',
+    board?.nesting && board.sheetsRequired === board.nesting.sheets.length,
+    JSON.stringify({ sheets: board?.sheetsRequired, nested: board?.nesting?.sheets.length }));
+  const cabinetPieces = job.cabinets.reduce((sum, c) => sum + c.parts.reduce((s, p) => s + p.quantity, 0), 0);
+  const nestedPieces = board.nesting.sheets.reduce((sum, s) => sum + s.placements.length, 0) + board.nesting.unplaced.length;
+  check('nesting: job layout contains every cabinet part copy', nestedPieces === cabinetPieces,
+    `${nestedPieces} vs ${cabinetPieces}`);
+}
+
+// 15. Offcut stock: registered offcuts are filled before new boards, are not
+// charged, and only offcuts of the same material (and still usable) count.
+{
+  const part = (name, length, width, quantity) => ({
+    name, partType: name, length, width, area: (length * width) / 1e6, thickness: 16,
+    materialId: 'm1', materialRole: 'carcase', edging: { len1: false, wid1: false, len2: false, wid2: false },
+    quantity, handlingCost: 0, machiningCost: 0, assemblyCost: 0,
+  });
+
+  // Five 1190 × 590 panels: four fill a new board, the fifth fits the offcut.
+  const stocked = nestParts([part('Panel', 1190, 590, 5)], 2400, 1200, {
+    stock: [{ id: 'oc1', length: 1200, width: 600, location: 'Rack A' }],
+  });
+  const offcutSheets = stocked.sheets.filter(s => s.stockOffcut);
+  check('offcuts: fifth panel goes onto the stock offcut, not a second board',
+    stocked.sheets.length === 2 && offcutSheets.length === 1 && offcutSheets[0].stockOffcut.id === 'oc1',
+    JSON.stringify(stocked.sheets.map(s => s.stockOffcut?.id ?? 'new')));
+  check('offcuts: stock offcut is not trimmed',
+    offcutSheets[0]?.placements[0]?.x === 0 && offcutSheets[0]?.placements[0]?.y === 0);
+  check('offcuts: unused stock offcuts are not returned',
+    nestParts([part('Panel', 1190, 590, 4)], 2400, 1200, {
+      stock: [{ id: 'oc1', length: 300, width: 300 }],
+    }).sheets.every(s => !s.stockOffcut));
+
+  // Two 3000mm panels fit only the one long offcut: the second cannot go on
+  // a bought board, so it is reported rather than dropped onto an empty one.
+  const long = nestParts([part('Gable', 3000, 500, 2)], 2400, 1200, {
+    stock: [{ id: 'long', length: 3100, width: 550 }],
+  });
+  check('offcuts: a piece that fitted only a taken offcut is unplaced, not dropped',
+    long.unplaced.length === 1 && long.sheets.length === 1 && long.sheets[0].stockOffcut?.id === 'long',
+    JSON.stringify({ unplaced: long.unplaced.length, sheets: long.sheets.map(s => s.stockOffcut?.id ?? 'new') }));
+  check('offcuts: no empty board is bought for it', long.sheets.every(s => s.placements.length > 0));
+
+  const items = [cab('base_2_door', 900, 870, 575, 1), cab('base_2_door', 900, 870, 575, 2)];
+  const plain = generateQuoteBOM(items, dims, { ...hw, adjustableLegs: false }, pricingData);
+  const bigOffcut = (id, status, materialId = 'm1') => ({
+    id, material_id: materialId, length_mm: 2400, width_mm: 1200, status,
+  });
+  const withStock = generateQuoteBOM(items, dims, { ...hw, adjustableLegs: false }, {
+    ...pricingData,
+    offcuts: [bigOffcut('full', 'available'), bigOffcut('gone', 'used'), bigOffcut('other', 'available', 'm-other')],
+  });
+  const plainBoard = plain.consolidatedSheets[0];
+  const stockBoard = withStock.consolidatedSheets[0];
+  const usedIds = stockBoard.nesting.sheets.filter(s => s.stockOffcut).map(s => s.stockOffcut.id);
+  check('offcuts: only the available same-material offcut is used', usedIds.length === 1 && usedIds[0] === 'full',
+    JSON.stringify(usedIds));
+  check('offcuts: a full-size offcut saves one bought sheet',
+    stockBoard.sheetsRequired === plainBoard.sheetsRequired - 1,
+    `${stockBoard.sheetsRequired} vs ${plainBoard.sheetsRequired}`);
+  check('offcuts: board cost falls with the sheets saved',
+    stockBoard.totalMaterialCost < plainBoard.totalMaterialCost,
+    `${stockBoard.totalMaterialCost} vs ${plainBoard.totalMaterialCost}`);
+}
+
+// ---------- cutting diagrams: oversize-only materials ----------
+// A material whose every part is larger than its stocked sheet nests no
+// sheets at all; its parts must still reach the oversize page.
+{
+  const panel = { partName: 'Island back panel', cabinetNumber: 'C4', length: 3200, width: 1100 };
+  const board = (materialName, nesting) => ({ materialName, sheetLength: 2400, sheetWidth: 1200, nesting });
+  const pdfText = (consolidatedSheets) => buildCuttingDiagramsPdf({ consolidatedSheets }, 'Job', '1/1/2026').output();
+  const only = pdfText([board('Oak 3600', { sheets: [], unplaced: [panel] })]);
+  check('cutting diagrams: an all-oversize material is listed on the oversize page',
+    only.includes('Oversize Parts') && only.includes('Island back panel') && !only.includes('no nested board parts'));
+  const mixed = pdfText([
+    board('White 16mm', { sheets: [{ index: 0, placements: [], offcuts: [], usedArea: 0, yieldPct: 0 }], unplaced: [] }),
+    board('Oak 3600', { sheets: [], unplaced: [panel] }),
+  ]);
+  check('cutting diagrams: oversize parts of an un-nested material sit beside nested sheets',
+    mixed.includes('Oversize Parts') && mixed.includes('Island back panel'));
+}
+
 console.log(failures === 0 ? '\nAll pricing smoke tests passed.' : '\n' + failures + ' FAULT(S) FOUND.');
 process.exit(failures === 0 ? 0 : 1);
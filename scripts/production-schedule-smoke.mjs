@@ -0,0 +1,82 @@
+// Production schedule: build hours from quote snapshots, capacity-limited
+// slotting by stage, working days, promised dates and overloaded days.
+// Run via `npm run test:production-schedule` (esbuild bundles the module first).
+import { resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+const {
+  jobBuildHours, scheduleInputFromJob, scheduleProduction, DEFAULT_PRODUCTION_CAPACITY,
+} = await import(pathToFileURL(resolve('.tmp-snap-test/production-schedule.mjs')).href);
+
+let pass = 0;
+let fail = 0;
+const check = (name, ok, detail = '') => {
+  if (ok) { pass += 1; console.log(`PASS  ${name}`); }
+  else { fail += 1; console.log(`FAIL  ${name}${detail ? ` — ${detail}` : ''}`); }
+};
+
+// ---- build hours ----
+const hours = (cut, edge, assembly) => ({ buildHours: { cut, edge, assembly, total: cut + edge + assembly, cost: 0 } });
+const designData = {
+  tradeRooms: [
+    { id: 'k', cabinets: [{ category: 'Base' }, { category: 'Base' }] },
+    { id: 'l', cabinets: [{ category: 'Tall' }] },
+  ],
+  quoteSnapshotsByRoom: {
+    k: { roomId: 'k', bomSummary: { cabinets: [hours(0.5, 0.25, 0.6), hours(1, 0.5, 0.8)] } },
+  },
+};
+const built = jobBuildHours(designData);
+check('hours: priced rooms sum per-cabinet build hours', built.cut > 1.5 && built.edge > 0.75 && built.assembly > 1.4, JSON.stringify(built));
+check('hours: unpriced rooms are estimated per cabinet', built.estimatedCabinets === 1 && built.assembly === 2.15, JSON.stringify(built));
+check('hours: empty design has no hours', jobBuildHours(null).cut === 0 && jobBuildHours({}).estimatedCabinets === 0);
+
+const input = scheduleInputFromJob({
+  id: 'j1', job_number: 12, name: 'Smith kitchen', status: 'approved',
+  completion_date: '2026-11-02', created_at: '2026-10-01T00:00:00Z', design_data: designData,
+});
+check('input: label, promise and hours from a jobs row', input.label === '#12 Smith kitchen' && input.promisedDate === '2026-11-02' && !('estimatedCabinets' in input.hours));
+
+// ---- slotting ----
+const job = (id, status, cut, edge, assembly, extra = {}) => ({
+  id, label: id, status, hours: { cut, edge, assembly }, promisedDate: null, queuedAt: '2026-10-01', ...extra,
+});
+const capacity = { cut: 8, edge: 8, assembly: 8, workDays: [1, 2, 3, 4, 5] };
+// 2026-10-19 is a Monday.
+const one = scheduleProduction([job('a', 'approved', 12, 4, 6)], capacity, '2026-10-19');
+const [cut, edge, assembly] = one.jobs[0].stages;
+check('slot: a stage spills into the next working day at capacity', cut.days['2026-10-19'] === 8 && cut.days['2026-10-20'] === 4, JSON.stringify(cut.days));
+check('slot: the next stage starts the day the previous one ends', edge.start === '2026-10-20' && assembly.start === '2026-10-20');
+check('slot: completion is the last assembly day', one.jobs[0].completion === '2026-10-20' && !one.jobs[0].forced);
+
+const weekend = scheduleProduction([job('a', 'approved', 20, 0, 0)], capacity, '2026-10-23');
+check('calendar: weekends are skipped', JSON.stringify(Object.keys(weekend.jobs[0].stages[0].days)) === JSON.stringify(['2026-10-23', '2026-10-26', '2026-10-27']));
+check('calendar: a start on a weekend moves to Monday', scheduleProduction([job('a', 'approved', 1, 0, 0)], capacity, '2026-10-24').days[0].date === '2026-10-26');
+
+const queue = scheduleProduction([
+  job('late', 'approved', 8, 0, 0, { queuedAt: '2026-10-05' }),
+  job('early', 'approved', 8, 0, 0, { queuedAt: '2026-10-02' }),
+  job('floor', 'in_production', 8, 0, 0, { queuedAt: '2026-10-10' }),
+], capacity, '2026-10-19');
+check('priority: in production first, then oldest', queue.jobs.map(s => s.job.id).join() === 'floor,early,late');
+check('priority: later jobs get the capacity that is left', queue.jobs[2].completion === '2026-10-21');
+check('load: no day is overloaded when work fits', queue.days.every(d => d.overloaded.length === 0) && queue.days[0].load.cut === 8);
+
+// ---- promises and overload ----
+const promised = scheduleProduction([
+  job('first', 'in_production', 16, 0, 0),
+  job('promised', 'approved', 8, 0, 4, { promisedDate: '2026-10-19' }),
+], capacity, '2026-10-19');
+const held = promised.jobs.find(s => s.job.id === 'promised');
+check('promise: work that cannot fit is piled onto the promised day', held.completion === '2026-10-19' && held.forced);
+check('promise: the piled day is reported overloaded', promised.days[0].overloaded.includes('cut') && promised.days[0].load.cut === 16, JSON.stringify(promised.days[0]));
+
+const roomy = scheduleProduction([job('a', 'approved', 4, 0, 0, { promisedDate: '2026-10-30' })], capacity, '2026-10-19');
+check('promise: a job that fits finishes as early as capacity allows', roomy.jobs[0].completion === '2026-10-19' && !roomy.jobs[0].forced);
+
+const stalled = scheduleProduction([job('a', 'approved', 5, 0, 0)], { ...capacity, cut: 0 }, '2026-10-19');
+check('capacity: a stage with no capacity still terminates', stalled.jobs[0].completion !== null && stalled.jobs[0].forced);
+check('defaults: five working days', DEFAULT_PRODUCTION_CAPACITY.workDays.length === 5);
+
+console.log(`\n${pass} passed, ${fail} failed`);
+process.exit(fail > 0 ? 1 : 0);
@@ -0,0 +1,93 @@
+// Supplier purchase orders: splitting an ordering list by supplier, weekly
+// consolidation across jobs, re-raising around sent orders, partial receipts and CSV export.
+// Run via `npm run test:purchase-orders` (esbuild bundles the module first).
+import { resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+const {
+  splitOrderingList, mergeOrderLines, withoutJob, outstandingForJob, receiveOrder, purchaseOrderCsv, orderTotal, orderJobIds,
+  weekStart, formatPoNumber, UNASSIGNED_SUPPLIER,
+} = await import(pathToFileURL(resolve('.tmp-snap-test/purchase-orders.mjs')).href);
+
+let pass = 0;
+let fail = 0;
+const check = (name, ok, detail = '') => {
+  if (ok) { pass += 1; console.log(`PASS  ${name}`); }
+  else { fail += 1; console.log(`FAIL  ${name}${detail ? ` — ${detail}` : ''}`); }
+};
+
+const pricing = {
+  materials: [
+    { id: 'm1', item_code: 'WHT-16', source_supplier: 'Polytec' },
+    { id: 'm2', item_code: 'OAK-18', source_supplier: 'Laminex' },
+  ],
+  edges: [{ id: 'e1', item_code: 'EB-WHT', edge_type: 'ABS', source_supplier: 'Polytec' }],
+  hardware: [
+    { id: 'h1', item_code: 'BLUM-71B', brand: 'Blum', source_supplier: null },
+    { id: 'h2', item_code: 'LEG-ADJ', brand: null },
+  ],
+};
+const bom = (sheets, rolls, hinges) => ({
+  consolidatedSheets: [
+    { materialId: 'm1', materialName: 'White 16', sheetLength: 2400, sheetWidth: 1200, sheetsRequired: sheets, totalMaterialCost: sheets * 80 },
+    { materialId: 'OAK-18', materialName: 'Oak 18', sheetLength: 3600, sheetWidth: 1800, sheetsRequired: 1, totalMaterialCost: 210 },
+    { materialId: 'm1', materialName: 'White 16 (offcuts only)', sheetLength: 2400, sheetWidth: 1200, sheetsRequired: 0, totalMaterialCost: 0 },
+  ],
+  consolidatedEdgeTape: [{ edgeType: 'EB-WHT', edgeName: 'White ABS', linearMeters: 60, totalCost: 90, rollsRequired: rolls }],
+  consolidatedHardware: [
+    { itemCode: 'BLUM-71B', name: 'Hinge', quantity: hinges, unitCost: 6.5 },
+    { itemCode: 'LEG-ADJ', name: 'Leg', quantity: 8, unitCost: 1.2 },
+  ],
+});
+
+// ---- splitting ----
+const jobA = splitOrderingList(bom(4, 3, 10), pricing, 'A');
+check('split: one order per supplier', [...jobA.keys()].sort().join() === ['Blum', 'Laminex', 'Polytec', UNASSIGNED_SUPPLIER].sort().join(), [...jobA.keys()].join());
+const polytec = jobA.get('Polytec');
+check('split: boards and edge tape from the same supplier share an order', polytec.length === 2 && polytec[0].kind === 'board' && polytec[1].kind === 'edge');
+check('split: boards in whole sheets at the per-sheet cost', polytec[0].quantity === 4 && polytec[0].unitCost === 80 && polytec[0].itemCode === 'WHT-16');
+check('split: edge tape in rolls', polytec[1].quantity === 3 && polytec[1].unit === 'roll' && polytec[1].unitCost === 30);
+check('split: zero-quantity lines are not ordered', !polytec.some(l => l.description.includes('offcuts only')));
+check('split: materials match by item code too', jobA.get('Laminex')?.[0].quantity === 1);
+check('split: hardware falls back to brand, then unassigned', jobA.get('Blum')?.[0].quantity === 10 && jobA.get(UNASSIGNED_SUPPLIER)?.[0].itemCode === 'LEG-ADJ');
+check('split: each line records the job share', polytec[0].jobs.A === 4);
+
+// ---- weekly consolidation ----
+const jobB = splitOrderingList(bom(2, 1, 6), pricing, 'B');
+const weekly = mergeOrderLines(jobA.get('Polytec'), jobB.get('Polytec'));
+check('consolidate: matching items sum across jobs', weekly[0].quantity === 6 && weekly[0].jobs.A === 4 && weekly[0].jobs.B === 2);
+check('consolidate: merging does not mutate the inputs', jobA.get('Polytec')[0].quantity === 4);
+check('consolidate: job ids and total follow the lines', orderJobIds(weekly).join() === 'A,B' && orderTotal(weekly) === 6 * 80 + 4 * 30);
+
+const reraised = mergeOrderLines(withoutJob(weekly, 'A'), splitOrderingList(bom(5, 3, 10), pricing, 'A').get('Polytec'));
+check('re-raise: replaces the job share instead of adding to it', reraised.find(l => l.kind === 'board').quantity === 7);
+check('re-raise: a job dropped from an order leaves only the others', withoutJob(jobA.get('Blum'), 'A').length === 0);
+
+const sentA = { status: 'sent', lines: jobA.get('Polytec') };
+const afterSent = outstandingForJob(splitOrderingList(bom(5, 3, 10), pricing, 'A'), [sentA, { status: 'draft', lines: jobA.get('Blum') }], 'A');
+check('re-raise: lines on a sent PO are not ordered again', !afterSent.get('Polytec').some(l => l.kind === 'edge'), JSON.stringify(afterSent.get('Polytec')));
+check('re-raise: only the extra sheets beyond a sent PO are ordered', afterSent.get('Polytec')[0].quantity === 1 && afterSent.get('Polytec')[0].jobs.A === 1);
+check('re-raise: draft POs do not count as ordered', afterSent.get('Blum')[0].quantity === 10);
+check('re-raise: other jobs on a sent PO do not reduce this one',
+  outstandingForJob(jobB, [sentA], 'B').get('Polytec')[0].quantity === 2);
+check('re-raise: nothing left when every line is on a received PO',
+  outstandingForJob(jobA, [...jobA.values()].map(lines => ({ status: 'received', lines })), 'A').size === 0);
+
+check('week: orders collect from Monday', weekStart(new Date(2026, 9, 22)) === '2026-10-19' && weekStart(new Date(2026, 9, 25)) === '2026-10-19' && weekStart(new Date(2026, 9, 19)) === '2026-10-19');
+
+// ---- receiving ----
+const part = receiveOrder(weekly, { 'board:WHT-16': 6 });
+check('receive: a partial delivery marks the order part received', part.status === 'partial' && part.lines[0].received === 6 && part.lines[1].received === 0);
+const full = receiveOrder(part.lines, { 'edge:EB-WHT': 4 });
+check('receive: the order is received once every line is', full.status === 'received');
+check('receive: nothing received keeps the order sent', receiveOrder(weekly, {}).status === 'sent');
+
+// ---- export ----
+const csv = purchaseOrderCsv({ po_number: 42, supplier: 'Polytec, Sydney', lines: part.lines });
+const rows = csv.split('\n');
+check('csv: header plus one row per line', rows.length === 3 && rows[0].startsWith('PO,Supplier,Item Code'));
+check('csv: values with commas are quoted', rows[1].startsWith('PO-00042,"Polytec, Sydney",WHT-16') && rows[1].endsWith(',480.00,6'), rows[1]);
+check('po number: zero padded', formatPoNumber(7) === 'PO-00007');
+
+console.log(`\n${pass} passed, ${fail} failed`);
+process.exit(fail > 0 ? 1 : 0);
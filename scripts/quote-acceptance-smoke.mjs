@@ -0,0 +1,74 @@
+// Quote acceptance: deposit maths, signature checks, the customer's line
+// summary for trade and wizard designs, the evidence hash on the signed PDF
+// and the fake payment provider.
+// Run via `npm run test:quote-acceptance` (esbuild bundles the modules first).
+import { resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+const {
+  depositAmount, signatureProblem, quoteLineSummary, QUOTE_TERMS, QUOTE_TERMS_VERSION, QUOTE_DEPOSIT_PCT,
+} = await import(pathToFileURL(resolve('.tmp-snap-test/quote-acceptance.mjs')).href);
+const { buildQuoteAcceptancePdf } = await import(pathToFileURL(resolve('.tmp-snap-test/quote-acceptance-pdf.mjs')).href);
+const { createFakePaymentProvider } = await import(pathToFileURL(resolve('.tmp-snap-test/fake-payments.mjs')).href);
+
+let pass = 0;
+let fail = 0;
+const check = (name, ok, detail = '') => {
+  if (ok) { pass += 1; console.log(`PASS  ${name}`); }
+  else { fail += 1; console.log(`FAIL  ${name}${detail ? ` — ${detail}` : ''}`); }
+};
+
+check('deposit is the configured share, to the cent', depositAmount(12345.67) === Math.round(12345.67 * QUOTE_DEPOSIT_PCT * 100) / 100);
+check('negative totals take no deposit', depositAmount(-5) === 0);
+check('terms are versioned and non-empty', /^\d{4}-\d{2}$/.test(QUOTE_TERMS_VERSION) && QUOTE_TERMS.length > 0);
+
+const png = 'data:image/png;base64,iVBORw0KGgo=';
+check('a drawn signature with a name passes', signatureProblem('Sam Lee', { kind: 'drawn', dataUrl: png }) === null);
+check('a typed signature with a name passes', signatureProblem('Sam Lee', { kind: 'typed', text: 'Sam Lee' }) === null);
+check('a missing name is refused', signatureProblem(' ', { kind: 'typed', text: 'Sam' }) !== null);
+check('a missing signature is refused', signatureProblem('Sam Lee', null) !== null);
+check('a non-PNG drawing is refused', signatureProblem('Sam Lee', { kind: 'drawn', dataUrl: 'data:image/svg+xml,<svg/>' }) !== null);
+check('an oversized drawing is refused', signatureProblem('Sam Lee', { kind: 'drawn', dataUrl: png + 'A'.repeat(200_000) }) !== null);
+
+const trade = quoteLineSummary({
+  tradeRooms: [
+    { id: 'r1', name: 'Kitchen', cabinets: [{}, {}, {}] },
+    { id: 'r2', name: '', cabinets: [{}] },
+  ],
+  quoteSnapshotsByRoom: { r1: { perCabinetSell: { a: 1000.1, b: 500.2, c: 250 } } },
+});
+check('one summary line per trade room', trade.length === 2);
+check('priced rooms show their sell total', trade[0].amount === 1750.3 && trade[0].detail === '3 cabinets', JSON.stringify(trade[0]));
+check('unpriced rooms show no amount and a fallback name', trade[1].amount === null && trade[1].label === 'Room 2');
+
+const wizard = quoteLineSummary({
+  items: [{ productName: 'Base 600' }, { productName: 'Base 600' }, { productName: 'Pantry' }],
+  applianceItems: [{ name: 'Oven', lineTotal: 1299 }],
+});
+check('wizard cabinets are grouped by product', wizard[0].label === 'Base 600' && wizard[0].detail === '× 2' && wizard[1].detail === null);
+check('wizard appliances carry their line total', wizard[2].label === 'Oven' && wizard[2].amount === 1299);
+check('an empty design has no lines', quoteLineSummary({}).length === 0);
+
+// accept-quote looks for the evidence hash in the uploaded bytes before storing them.
+const acceptance = {
+  id: 'a1', job_id: 'j1', revision_id: 'r1', revision_number: 3, terms_version: QUOTE_TERMS_VERSION,
+  signer_name: 'Sam Lee', signature_kind: 'typed', signature_data: 'Sam Lee', total: 1000, deposit_amount: 300,
+  payment_provider: null, payment_reference: null, signer_ip: null, user_agent: null,
+  evidence_hash: 'ab'.repeat(32), pdf_path: null, pdf_sha256: null, accepted_at: '2026-10-19T01:00:00.000Z',
+};
+const pdf = buildQuoteAcceptancePdf({ job_number: 7, name: 'Lee kitchen' }, acceptance, trade).output();
+check('the signed PDF prints the evidence hash as plain text', pdf.startsWith('%PDF-') && pdf.includes(acceptance.evidence_hash));
+check('a record without a hash prints none',
+  !buildQuoteAcceptancePdf({ job_number: 7, name: 'Lee kitchen' }, { ...acceptance, evidence_hash: null }, trade).output().includes('Evidence hash'));
+
+const request = { jobId: '0123456789abcdef', revisionId: 'r', amount: 300, currency: 'AUD', description: 'Deposit', payerName: 'Sam' };
+const paid = await createFakePaymentProvider().collectDeposit(request);
+check('the fake provider approves and returns a fake_ reference', paid.ok && paid.reference.startsWith('fake_01234567') && paid.amount === 300);
+const declined = await createFakePaymentProvider({ decline: true }).collectDeposit(request);
+check('the fake provider can decline', !declined.ok && declined.provider === 'fake');
+const nothing = await createFakePaymentProvider().collectDeposit({ ...request, amount: 0 });
+check('a zero deposit is refused', !nothing.ok);
+check('the fake provider is marked as test mode', createFakePaymentProvider().testMode === true);
+
+console.log(`\n${pass} passed, ${fail} failed`);
+process.exit(fail ? 1 : 0);
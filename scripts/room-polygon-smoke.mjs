@@ -0,0 +1,181 @@
+// Polygon rooms: outline geometry, wall-run editing, rectangle/L conversion,
+// snapping against angled walls and the room-scan contract.
+// Run via `npm run test:room-polygon` (esbuild bundles the modules first).
+import { resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+const load = (file) => import(pathToFileURL(resolve(`.tmp-snap-test/${file}`)).href);
+const P = await load('room-polygon.mjs');
+const { calculateSnapPosition } = await load('room-polygon-snap.mjs');
+const C = await load('room-polygon-contract.mjs');
+
+let pass = 0;
+let fail = 0;
+const check = (name, ok, detail = '') => {
+  if (ok) { pass += 1; console.log(`PASS  ${name}`); }
+  else { fail += 1; console.log(`FAIL  ${name}${detail ? ` — ${detail}` : ''}`); }
+};
+const near = (a, b, tol = 0.5) => Math.abs(a - b) <= tol;
+
+const base = { height: 2700, cutoutWidth: 0, cutoutDepth: 0 };
+// 4000 × 3000 with the SE corner cut by a 45° wall.
+const angled = [
+  { id: 'P0', x: 0, z: 0 }, { id: 'P1', x: 4000, z: 0 }, { id: 'P2', x: 4000, z: 2000 },
+  { id: 'P3', x: 3000, z: 3000 }, { id: 'P4', x: 0, z: 3000 },
+];
+const angledRoom = { ...base, width: 4000, depth: 3000, shape: 'Polygon', polygon: angled };
+// T-shape: 3000 wide bar along the back, 1000 wide stem to the front.
+const tee = [
+  { id: 'P0', x: 0, z: 0 }, { id: 'P1', x: 3000, z: 0 }, { id: 'P2', x: 3000, z: 1000 },
+  { id: 'P3', x: 2000, z: 1000 }, { id: 'P4', x: 2000, z: 2500 }, { id: 'P5', x: 1000, z: 2500 },
+  { id: 'P6', x: 1000, z: 1000 }, { id: 'P7', x: 0, z: 1000 },
+];
+const teeRoom = { ...base, width: 3000, depth: 2500, shape: 'Polygon', polygon: tee };
+
+// ---- outline geometry ----
+{
+  const poly = P.polygonFromRoom(angledRoom);
+  check('angled: one segment per corner, ids kept', poly.segments.map(s => s.id).join() === 'P0,P1,P2,P3,P4');
+  check('angled: square walls map to N/E/S/W', poly.segments.map(s => s.legacyWall ?? '-').join() === 'N,E,-,S,W');
+  check('angled: 45° wall rotation is exact', poly.segments[2].rotation === 135, String(poly.segments[2].rotation));
+  check('angled: 45° wall length', near(poly.segments[2].length, Math.SQRT2 * 1000));
+  check('angled: area', near(poly.area, 4000 * 3000 - 1000 * 1000 / 2));
+  const placed = P.segmentToWorld(poly.segments[2], 0, 600, 575);
+  const n = poly.segments[2].normal;
+  const a = poly.segments[2].a;
+  check('angled: segmentToWorld sits depth/2 off the wall', near((placed.x - a.x) * n.x + (placed.z - a.z) * n.z, 287.5));
+  check('angled: segmentToWorld faces the room', placed.rotation === 135);
+
+  const t = P.polygonFromRoom(teeRoom);
+  check('tee: eight walls', t.segments.length === 8);
+  check('tee: inner walls face into the room', t.segments.map(s => s.rotation).join() === '0,90,180,90,180,270,180,270', t.segments.map(s => s.rotation).join());
+  check('tee: area', near(t.area, 3000 * 1000 + 1000 * 1500));
+  check('tee: stem is inside, wings beside it are not',
+    P.pointInPolygon({ x: 1500, z: 2000 }, t) && !P.pointInPolygon({ x: 500, z: 2000 }, t));
+  check('tee: wall lengths by id', P.roomWallLength(teeRoom, 'P4') === 1000 && P.roomWallLength(teeRoom, 'N') === 0);
+}
+
+// ---- editing: normalize, validate, wall run ----
+{
+  const shifted = [...angled].reverse().map(c => ({ ...c, x: c.x + 150, z: c.z + 40 }));
+  const norm = P.normalizeRoomPolygon(shifted);
+  check('normalize: bounding box at the origin', norm.width === 4000 && norm.depth === 3000
+    && Math.min(...norm.polygon.map(c => c.x)) === 0 && Math.min(...norm.polygon.map(c => c.z)) === 0);
+  const walls = P.polygonFromRoom({ ...angledRoom, polygon: norm.polygon }).segments;
+  const diagonal = walls.find(s => s.rotation === 135);
+  check('normalize: winding flipped clockwise', !!diagonal);
+  // In the reversed input the diagonal ran from the (3000,3000) corner, id P3.
+  check('normalize: wall ids stay on their walls', diagonal?.id === 'P3', diagonal?.id);
+
+  check('validate: angled room ok', P.validateRoomPolygon(angled) === null);
+  check('validate: two walls refused', P.validateRoomPolygon(angled.slice(0, 2)) !== null);
+  check('validate: duplicate ids refused', P.validateRoomPolygon(angled.map(c => ({ ...c, id: 'P0' }))) !== null);
+  const bowtie = [{ id: 'P0', x: 0, z: 0 }, { id: 'P1', x: 2000, z: 2000 }, { id: 'P2', x: 2000, z: 0 }, { id: 'P3', x: 0, z: 2000 }];
+  check('validate: crossing walls refused', /cross/.test(P.validateRoomPolygon(bowtie) ?? ''), P.validateRoomPolygon(bowtie));
+
+  const run = P.wallRunFromPolygon(tee);
+  check('wall run: lengths and headings', run[0].lengthMm === 3000 && run[0].headingDeg === 0 && run[1].headingDeg === 90);
+  const rebuilt = P.polygonFromWallRun(run);
+  check('wall run: round trip', JSON.stringify(rebuilt.polygon) === JSON.stringify(tee) && rebuilt.width === 3000 && rebuilt.depth === 2500);
+  const stretched = P.polygonFromWallRun(run.map(w => (w.id === 'P0' ? { ...w, lengthMm: 3600 } : w)));
+  check('wall run: editing a length moves the following corners', stretched.width === 3600 && stretched.polygon[2].x === 3600);
+}
+
+// ---- rectangle / L conversion ----
+{
+  const rect = {
+    ...base, width: 3600, depth: 2400, shape: 'Rectangle',
+    openings: [{ id: 'door', wall: 'E', type: 'door', offsetMm: 300, widthMm: 800 }],
+    services: [{ id: 'drain', wall: 'N', type: 'drain', offsetMm: 1000 }],
+  };
+  const poly = P.toPolygonRoom(rect);
+  check('toPolygon: rectangle becomes four walls', poly.shape === 'Polygon' && poly.polygon.length === 4);
+  check('toPolygon: features move to P walls', poly.openings[0].wall === 'P1' && poly.openings[0].offsetMm === 300
+    && poly.services[0].wall === 'P0' && poly.services[0].offsetMm === 1000);
+  const rectSegs = P.polygonFromRoom(rect).segments;
+  const polySegs = P.polygonFromRoom(poly).segments;
+  check('toPolygon: same outline and rotations as the rectangle',
+    polySegs.length === rectSegs.length
+      && polySegs.every((s, i) => s.rotation === rectSegs[i].rotation && near(s.a.x, rectSegs[i].a.x) && near(s.a.z, rectSegs[i].a.z)));
+  const back = P.squareUpPolygonRoom(poly);
+  check('squareUp: rectangle round trip', JSON.stringify(back.room) === JSON.stringify(rect) && back.dropped === 0, JSON.stringify(back.room));
+
+  const lRoom = { ...base, width: 4000, depth: 3000, shape: 'LShape', cutoutWidth: 1500, cutoutDepth: 1000, openings: [], services: [] };
+  const lPoly = P.toPolygonRoom(lRoom);
+  check('toPolygon: L keeps its notch', lPoly.polygon.length === 6 && near(P.polygonFromRoom(lPoly).area, P.polygonFromRoom(lRoom).area));
+
+  const cut = {
+    ...angledRoom,
+    openings: [
+      { id: 'win', wall: 'P0', type: 'window', offsetMm: 1000, widthMm: 1200 },
+      { id: 'bay', wall: 'P2', type: 'window', offsetMm: 200, widthMm: 800 },
+    ],
+    services: [{ id: 'isle', wall: 'P0', type: 'drain', offsetMm: 0, placement: 'floor', xMm: 2000, zMm: 1500 }],
+  };
+  const squared = P.squareUpPolygonRoom(cut);
+  check('squareUp: bounding-box rectangle', squared.room.shape === 'Rectangle' && squared.room.width === 4000 && squared.room.depth === 3000 && !squared.room.polygon);
+  check('squareUp: features on the angled wall dropped', squared.dropped === 1 && squared.room.openings.map(o => `${o.id}:${o.wall}`).join() === 'win:N');
+  check('squareUp: floor services kept', squared.room.services[0]?.placement === 'floor' && squared.room.services[0].xMm === 2000);
+}
+
+// ---- snapping ----
+{
+  const item = (over = {}) => ({
+    instanceId: 'dragged', definitionId: 'base-600-1d', itemType: 'Cabinet',
+    x: 0, y: 0, z: 0, rotation: 0, width: 600, depth: 575, height: 870, ...over,
+  });
+  const r = calculateSnapPosition(3300, 2300, item(), [], angledRoom, 50);
+  const seg = P.polygonFromRoom(angledRoom).segments[2];
+  const off = (r.x - seg.a.x) * seg.normal.x + (r.z - seg.a.z) * seg.normal.z;
+  check('snap: angled wall', r.snappedTo === 'wall' && r.wallId === 'P2', JSON.stringify(r));
+  check('snap: angled wall rotation', r.rotation === 135);
+  check('snap: angled wall back gap', near(off, 575 / 2 + 10), String(off));
+
+  const stem = calculateSnapPosition(1700, 1800, item(), [], teeRoom, 50);
+  check('snap: tee stem wall', stem.wallId === 'P3' && stem.rotation === 90 && near(stem.x, 2000 - 575 / 2 - 10), JSON.stringify(stem));
+
+  // A rectangle drawn as a polygon snaps exactly like the rectangle.
+  const rect = { ...base, width: 3600, depth: 2400, shape: 'Rectangle' };
+  const polyRect = P.toPolygonRoom(rect);
+  const points = [[1200, 250], [3450, 1200], [1500, 2200], [150, 1300], [250, 250], [3400, 2250]];
+  for (const [x, z] of points) {
+    const a = calculateSnapPosition(x, z, item(), [], rect, 50);
+    const b = calculateSnapPosition(x, z, item(), [], polyRect, 50);
+    check(`snap: polygon rectangle matches at ${x},${z}`,
+      near(a.x, b.x) && near(a.z, b.z) && a.rotation === b.rotation && a.snappedTo === b.snappedTo,
+      `${JSON.stringify(a)} vs ${JSON.stringify(b)}`);
+  }
+}
+
+// ---- room-scan contract ----
+{
+  const spec = (over = {}) => ({
+    width: 4000, depth: 3000, height: 2700, shape: 'Polygon', cutoutWidth: 0, cutoutDepth: 0,
+    polygon: angled,
+    openings: [{ id: 'bay', wall: 'P2', type: 'window', offsetMm: 200, widthMm: 800 }],
+    services: [{ id: 'gpo', wall: 'P0', type: 'gpo', offsetMm: 600 }],
+    ...over,
+  });
+  const parse = (room) => C.roomSpecV1Schema.safeParse(room);
+  const messages = (res) => (res.success ? '' : res.error.issues.map(i => i.message).join('; '));
+
+  check('contract: polygon room accepted', parse(spec()).success, messages(parse(spec())));
+  check('contract: rectangle rooms unchanged', parse({ ...spec(), shape: 'Rectangle', polygon: undefined,
+    openings: [{ id: 'd', wall: 'S', type: 'door', offsetMm: 100, widthMm: 820 }], services: [] }).success);
+  check('contract: polygon without corners refused', !parse(spec({ polygon: undefined })).success);
+  check('contract: corners on a rectangle refused', /only Polygon/.test(messages(parse(spec({ shape: 'Rectangle', openings: [], services: [] })))));
+  check('contract: anticlockwise outline refused', /clockwise/.test(messages(parse(spec({ polygon: [...angled].reverse() })))));
+  check('contract: bounding box must match', /bounding box/.test(messages(parse(spec({ width: 4200 })))));
+  check('contract: opening on a missing wall refused', /does not have/.test(messages(parse(spec({
+    openings: [{ id: 'x', wall: 'P9', type: 'door', offsetMm: 0, widthMm: 800 }],
+  })))));
+  check('contract: opening longer than its angled wall refused', /exceeds wall P2 length 1414/.test(messages(parse(spec({
+    openings: [{ id: 'x', wall: 'P2', type: 'window', offsetMm: 800, widthMm: 800 }],
+  })))));
+  check('contract: P walls on a rectangle refused', !parse({ ...spec(), shape: 'Rectangle', polygon: undefined,
+    openings: [{ id: 'x', wall: 'P0', type: 'door', offsetMm: 0, widthMm: 800 }], services: [] }).success);
+  check('contract: bad wall id refused', !C.wallIdV1Schema.safeParse('Q1').success && C.wallIdV1Schema.safeParse('P12').success);
+}
+
+console.log(`\n${pass} passed, ${fail} failed`);
+if (fail > 0) process.exit(1);
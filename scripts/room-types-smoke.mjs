@@ -0,0 +1,136 @@
+// Room types: default laundry, wardrobe and bathroom specs compile cleanly,
+// each room runs its own rule pack, the room-type hard rules fire, and the
+// carcase sizes and scoring follow the room.
+// Run via `npm run test:room-types` (esbuild bundles the modules first).
+import { resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+const L = await import(pathToFileURL(resolve('.tmp-snap-test/room-types-layout.mjs')).href);
+
+let pass = 0;
+let fail = 0;
+const check = (name, ok, detail = '') => {
+  if (ok) { pass += 1; console.log(`PASS  ${name}`); }
+  else { fail += 1; console.log(`FAIL  ${name}${detail ? ` — ${detail}` : ''}`); }
+};
+
+const room = (width, depth, extra = {}) => ({
+  width, depth, height: 2700, shape: 'Rectangle', cutoutWidth: 0, cutoutDepth: 0,
+  openings: [], services: [], ...extra,
+});
+const brief = (roomType, r) => ({
+  room: r, roomType, household: {}, priorities: ['storage'],
+  appliances: { cooktop: 'induction', dishwasher: false }, island: 'no',
+});
+const roles = (spec) => spec.runs.flatMap(run => run.segments.filter(s => s.kind === 'cabinet').map(s => s.role));
+const codes = (design, r, b) => L.validate(design, r, b);
+
+const laundryRoom = room(2800, 1800, {
+  services: [{ id: 'd1', type: 'drain', wall: 'N', offsetMm: 400, placement: 'wall' }],
+});
+const robeRoom = room(3000, 2400, {
+  openings: [{ id: 'o1', type: 'door', wall: 'S', offsetMm: 800, widthMm: 820, heightMm: 2040 }],
+});
+const bathRoom = room(2600, 2200, {
+  services: [{ id: 'd2', type: 'drain', wall: 'E', offsetMm: 1100, placement: 'wall' }],
+});
+
+// ---- room-type tables ----
+{
+  check('omitted room type means kitchen', L.roomTypeOf({}) === 'kitchen' && L.roomTypeOf(null) === 'kitchen');
+  const bath = L.dimensionsForRoomType('bathroom');
+  check('bathroom carcases are vanity sized', bath.baseDepth === 460 && bath.baseHeight === 820, JSON.stringify(bath));
+  check('kitchen dimensions are unchanged', L.dimensionsForRoomType(undefined).baseDepth === L.dimensionsForRoomType('kitchen').baseDepth);
+  check('wardrobes have no wet fixture', L.WET_FIXTURE_ROLE.wardrobe === null);
+  check('schema accepts a room type', L.designBriefSchema.safeParse(brief('laundry', laundryRoom)).success);
+  check('schema rejects an unknown room type', !L.designBriefSchema.safeParse(brief('garage', laundryRoom)).success);
+}
+
+// ---- default specs compile without errors ----
+for (const [type, r, shape, wanted] of [
+  ['laundry', laundryRoom, 'single-wall', ['laundry-tub', 'washer-gap', 'dryer-gap']],
+  ['laundry', laundryRoom, 'l-shape', ['laundry-tub', 'washer-gap']],
+  ['wardrobe', robeRoom, 'single-wall', ['hanging-rail', 'wardrobe-shelves']],
+  ['wardrobe', robeRoom, 'u-shape', ['hanging-rail', 'wardrobe-shelves']],
+  ['bathroom', bathRoom, 'single-wall', ['vanity-basin']],
+]) {
+  const b = brief(type, r);
+  const spec = L.defaultSpecFor(b, shape);
+  check(`${type} ${shape}: spec is typed`, spec.roomType === type);
+  check(`${type} ${shape}: spec passes the schema`, L.kitchenSpecSchema.safeParse(spec).success);
+  check(`${type} ${shape}: only the room's roles are used`, roles(spec).every(role => L.ROOM_TYPE_ROLES[type].includes(role)), roles(spec).join(','));
+  check(`${type} ${shape}: has its essential fixtures`, wanted.every(role => roles(spec).includes(role)), roles(spec).join(','));
+  const design = L.compileSpec(spec, r);
+  const errors = codes(design, r, b).filter(v => v.severity === 'error');
+  check(`${type} ${shape}: compiles without errors`, errors.length === 0, errors.map(v => `${v.code}: ${v.message}`).join(' | '));
+  check(`${type} ${shape}: no kitchen rules`, !codes(design, r, b).some(v => ['no-sink', 'no-cooktop', 'no-fridge', 'no-dishwasher'].includes(v.code)));
+  const score = L.scoreDesign(b, spec, codes(design, r, b));
+  check(`${type} ${shape}: scores a reasonable design`, score.total >= 60, JSON.stringify(score));
+}
+
+// ---- room specifics ----
+{
+  const bathSpec = L.defaultSpecFor(brief('bathroom', bathRoom), 'single-wall');
+  const design = L.compileSpec(bathSpec, bathRoom);
+  const basin = design.items.find(i => i.definitionId.startsWith('vanity_sink_base'));
+  check('vanity sits on the drain wall', bathSpec.runs[0].wall === 'E');
+  check('vanity is built at bathroom depth', basin && basin.depth === 460, JSON.stringify(basin));
+  check('bathroom has no wall cabinets', bathSpec.runs.every(run => run.wallCabinets === false));
+
+  const robeSpec = L.defaultSpecFor(brief('wardrobe', robeRoom), 'single-wall');
+  check('robe avoids the door wall', robeSpec.runs[0].wall !== 'S');
+  const robe = L.compileSpec(robeSpec, robeRoom);
+  check('robe towers are full height', robe.items.filter(i => i.definitionId.startsWith('tall_wardrobe')).length >= 3);
+
+  const short = L.defaultSpecFor(brief('laundry', room(1900, 1800, { services: laundryRoom.services })), 'single-wall');
+  check('short laundry stacks the dryer', !roles(short).includes('dryer-gap') && short.rationale.includes('stacks'));
+}
+
+// ---- room-type rules ----
+{
+  const b = brief('laundry', laundryRoom);
+  const spec = L.defaultSpecFor(b, 'single-wall');
+  const strip = (drop) => ({ ...spec, runs: spec.runs.map(run => ({ ...run, segments: run.segments.filter(s => s.kind !== 'cabinet' || !drop.includes(s.role)) })) });
+  const noTub = codes(L.compileSpec(strip(['laundry-tub']), laundryRoom), laundryRoom, b);
+  check('missing laundry tub is a hard error', noTub.some(v => v.code === 'no-laundry-tub' && v.severity === 'error'));
+  const noWasher = codes(L.compileSpec(strip(['washer-gap']), laundryRoom), laundryRoom, b);
+  check('missing washer space is a hard error', noWasher.some(v => v.code === 'no-washer' && v.severity === 'error'));
+
+  const split = {
+    ...spec,
+    runs: [{ ...spec.runs[0], segments: [{ kind: 'cabinet', role: 'laundry-tub' }, { kind: 'cabinet', role: 'doors' }, { kind: 'cabinet', role: 'drawers' }, { kind: 'cabinet', role: 'washer-gap' }] }],
+  };
+  check('washer away from the tub is flagged',
+    codes(L.compileSpec(split, laundryRoom), laundryRoom, b).some(v => v.code === 'washer-beside-tub'));
+
+  const foreign = { ...spec, runs: [{ ...spec.runs[0], segments: [...spec.runs[0].segments, { kind: 'cabinet', role: 'cooktop' }] }] };
+  check('kitchen roles are rejected in a laundry',
+    codes(L.compileSpec(foreign, laundryRoom), laundryRoom, b).some(v => v.code === 'room-type-role' && v.severity === 'error'));
+
+  const robeBrief = brief('wardrobe', robeRoom);
+  const robeSpec = L.defaultSpecFor(robeBrief, 'single-wall');
+  const shelvesOnly = { ...robeSpec, runs: robeSpec.runs.map(run => ({ ...run, segments: run.segments.filter(s => s.kind !== 'cabinet' || s.role !== 'hanging-rail') })) };
+  check('robe without hanging is a hard error',
+    codes(L.compileSpec(shelvesOnly, robeRoom), robeRoom, robeBrief).some(v => v.code === 'no-hanging'));
+
+  const bathBrief = brief('bathroom', bathRoom);
+  const bathSpec = L.defaultSpecFor(bathBrief, 'single-wall');
+  const noBasin = { ...bathSpec, runs: bathSpec.runs.map(run => ({ ...run, segments: run.segments.map(s => s.kind === 'cabinet' && s.role === 'vanity-basin' ? { ...s, role: 'drawers' } : s) })) };
+  check('vanity without a basin is a hard error',
+    codes(L.compileSpec(noBasin, bathRoom), bathRoom, bathBrief).some(v => v.code === 'no-vanity-basin'));
+
+  check('kitchen pack keeps the kitchen rules', L.rulesForRoomType('kitchen').some(r => r.id === 'no-sink'));
+  check('laundry pack drops the kitchen rules', !L.rulesForRoomType('laundry').some(r => r.id === 'no-sink' || r.id === 'triangle-size'));
+  check('shared rules apply everywhere', L.rulesForRoomType('bathroom').some(r => r.id === 'overlap'));
+}
+
+// ---- kitchens are untouched ----
+{
+  const b = L.briefFromWizard({ layoutPreference: 'l-shape', roomWidth: 4200, roomDepth: 3600, layoutStyle: 'standard' });
+  const spec = L.defaultSpecFor(b, 'l-shape');
+  check('kitchen spec stays untyped', spec.roomType === undefined);
+  check('kitchen still needs a sink', L.validate(L.compileSpec({ ...spec, runs: [] }, b.room), b.room, b).some(v => v.code === 'no-sink'));
+}
+
+console.log(`\n${pass} passed, ${fail} failed`);
+if (fail) process.exit(1);
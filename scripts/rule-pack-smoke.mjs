@@ -1,5 +1,5 @@
 /**
- * rule-pack smoke — kitchen rule evaluator + QLD draft profile (plan §7.4).
+ * rule-pack smoke — kitchen rule evaluator + regulatory profiles (plan §7.4).
  * Self-contained transpile (same pattern as candidate-generator-smoke.mjs).
  * Run: npm run test:rules
  */
@@ -22,6 +22,8 @@ writeFileSync(path.join(OUT, 'types_stub.js'), 'module.exports = new Proxy({}, {
 
 function rewrite(src) {
   return src
+    // designV2 has a rulePack of its own; the layout one is written alongside it.
+    .replace(/(['"])@\/lib\/layout\/rulePack\1/g, "'./layoutRulePack'")
     .replace(/(['"])@\/lib\/layout\/([A-Za-z]+)\1/g, "'./$2'")
     .replace(/(['"])@\/lib\/layout\1/g, "'./types_stub'") // type-only in practice
     .replace(/(['"])@\/constants\1/g, "'./constants'")
@@ -38,6 +40,7 @@ function transpileTo(destName, srcPath) {
 }
 transpileTo('constants', path.join(ROOT, 'src/constants.ts'));
 for (const f of LAYOUT) transpileTo(f, path.join(ROOT, 'src/lib/layout', f + '.ts'));
+transpileTo('layoutRulePack', path.join(ROOT, 'src/lib/layout/rulePack.ts'));
 for (const f of DESIGN_V2) transpileTo(f, path.join(ROOT, 'src/lib/designV2', f + '.ts'));
 
 const rules = require(path.join(OUT, 'evaluateKitchenRules.js'));
@@ -159,6 +162,93 @@ check('QLD draft profile cannot pass as an approved profile', () => {
     'draft parameters must not be pre-approved');
 });
 
+async function checkAsync(name, fn) {
+  try { await fn(); console.log(`  ✓ ${name}`); }
+  catch (err) { failures++; console.error(`  ✗ ${name}\n    ${err.message}`); }
+}
+
+const profiles = require(path.join(OUT, 'regulatoryProfiles.js'));
+
+check('every state, territory and NZ has a draft profile, none approvable', () => {
+  const jurisdictions = pack.REGULATORY_PROFILE_DRAFTS.map(d => d.jurisdiction).sort();
+  assert(jurisdictions.join() === 'AU-ACT,AU-NSW,AU-NT,AU-QLD,AU-SA,AU-TAS,AU-VIC,AU-WA,NZ', `drafts cover ${jurisdictions.join()}`);
+  assert(new Set(pack.REGULATORY_PROFILE_DRAFTS.map(d => d.profileId)).size === 9, 'profile ids are not unique');
+  assert(pack.REGULATORY_PROFILE_DRAFTS.every(d => contracts.regulatoryProfileV1Schema.safeParse(d).success === false),
+    'a draft satisfies the approved-profile schema');
+  assert(pack.REGULATORY_PROFILE_DRAFTS.every(d => d.seedParameters.every(p => p.clause && !p.bowerApproved)),
+    'every seed parameter needs a clause and no sign-off');
+  const nz = pack.REGULATORY_PROFILE_DRAFTS.find(d => d.jurisdiction === 'NZ');
+  assert(nz.seedParameters[0].clause.startsWith(`AS/NZS 5601.1:${nz.standardsEditions['AS/NZS 5601.1']}`),
+    'clauses must cite the edition the jurisdiction adopts');
+});
+
+const draftRow = (draft, overrides = {}) => ({
+  id: `row-${draft.jurisdiction}`, profile_key: draft.profileId, version: '1.0.0-draft',
+  jurisdiction: draft.jurisdiction, project_scopes: draft.projectScopes, standards_editions: draft.standardsEditions,
+  rules: draft.seedParameters.map(p => ({ ...p, bowerApproved: true })), status: 'draft',
+  qualified_approver: null, content_hash: null, approved_by: null, approved_at: null,
+  effective_from: '2026-10-01', effective_to: null, ...overrides,
+});
+async function approve(row, approver = 'Licensed gasfitter 12345') {
+  const approvedAt = new Date('2026-10-19T03:00:00Z');
+  const version = profiles.nextRegulatoryProfileVersion([row], row.profile_key);
+  const signed = await profiles.signRegulatoryProfile(row, { version, qualifiedApprover: approver, approvedAt });
+  return {
+    ...row, status: 'approved', version, qualified_approver: signed.qualifiedApprover,
+    content_hash: signed.contentHash, approved_at: approvedAt.toISOString(),
+  };
+}
+
+check('a draft row needs every parameter verified and a reviewer before approval', () => {
+  const draft = pack.REGULATORY_PROFILE_DRAFTS.find(d => d.jurisdiction === 'AU-NSW');
+  const unverified = draftRow(draft, { rules: draft.seedParameters });
+  const errors = profiles.regulatoryApprovalErrors(unverified, '');
+  assert(errors.length === draft.seedParameters.length + 1, errors.join(' | '));
+  assert(profiles.regulatoryApprovalErrors(draftRow(draft), 'Reviewer').length === 0, 'a verified draft is refused');
+  assert(profiles.regulatoryApprovalErrors(draftRow(draft, { effective_to: '2026-09-01' }), 'Reviewer').length === 1,
+    'an inverted effective range is accepted');
+});
+
+await checkAsync('an approved row reads back verified; tampering breaks the hash', async () => {
+  const draft = pack.REGULATORY_PROFILE_DRAFTS.find(d => d.jurisdiction === 'AU-VIC');
+  const approved = await approve(draftRow(draft));
+  assert(approved.version === '1.0.0', `first approval is ${approved.version}`);
+  const [verified] = await profiles.verifiedRegulatoryProfiles([approved]);
+  assert(verified && verified.profileId === 'bower-regulatory-au-vic', 'approved row was not verified');
+  const tampered = { ...approved, rules: approved.rules.map(p => (p.parameterId === 'gas-cooktop-to-rangehood-min' ? { ...p, value: 600 } : p)) };
+  assert((await profiles.verifiedRegulatoryProfiles([tampered])).length === 0, 'a tampered row still verifies');
+  assert((await profiles.verifiedRegulatoryProfiles([draftRow(draft)])).length === 0, 'a draft row verifies');
+});
+
+await checkAsync('regulated results cite the matched profile clause', async () => {
+  const draft = pack.REGULATORY_PROFILE_DRAFTS.find(d => d.jurisdiction === 'NZ');
+  const [profile] = await profiles.verifiedRegulatoryProfiles([await approve(draftRow(draft))]);
+  const nzContext = { jurisdiction: 'NZ', projectScope: 'new-kitchen', effectiveOn: '2026-10-20', regulatoryProfileId: null };
+  assert(contracts.projectContextV2Schema.safeParse(nzContext).success, 'NZ project context rejected');
+  const results = base([], nzContext, [profile]);
+  const regulated = results.filter(r => ['KRN-RH-001', 'KRN-COOK-002', 'KRN-ELEC-001'].includes(r.ruleId));
+  assert(regulated.every(r => r.rulePackVersion === 'bower-regulatory-nz@1.0.0'), 'NZ profile version not recorded');
+  const rh = regulated.find(r => r.ruleId === 'KRN-RH-001');
+  assert(rh.citation === 'AS/NZS 5601.1:2013 cl 6.10.1.1', `RH cites ${rh.citation}`);
+  assert(regulated.every(r => r.citation), 'a regulated result has no citation');
+  for (const r of results) contracts.kitchenRuleResultV1Schema.parse(r);
+  assert(base([], qldContext, [profile]).every(r => !r.citation), 'another jurisdiction cites the NZ profile');
+});
+
+await checkAsync('the most recently effective profile wins', async () => {
+  const draft = pack.REGULATORY_PROFILE_DRAFTS.find(d => d.jurisdiction === 'AU-QLD');
+  const first = await approve(draftRow(draft, { effective_from: '2026-01-01' }));
+  const second = await approve(draftRow(draft, {
+    id: 'row-qld-2', effective_from: '2026-07-01',
+    rules: draftRow(draft).rules.map(p => (p.parameterId === 'gas-cooktop-to-rangehood-min' ? { ...p, clause: 'AS/NZS 5601.1:2022 cl 6.10.1.1(a)' } : p)),
+  }));
+  const verified = await profiles.verifiedRegulatoryProfiles([first, { ...second, version: '2.0.0' }]);
+  assert(verified.length === 1, 'a version changed after signing still verifies');
+  const both = await profiles.verifiedRegulatoryProfiles([first, second]);
+  const rh = base([], qldContext, both).find(r => r.ruleId === 'KRN-RH-001');
+  assert(rh.citation === 'AS/NZS 5601.1:2022 cl 6.10.1.1(a)', `RH cites ${rh.citation}`);
+});
+
 if (failures > 0) {
   console.error(`\n${failures} rule pack test(s) failed`);
   process.exit(1);
@@ -0,0 +1,120 @@
+// Sink wet zone: power points within reach of the sink bowls are found on the
+// compiled design, reported through the `sink-wet-zone` rule (advisory
+// ERG-ELEC-ZONE-001, apart from the regulated KRN-ELEC-001) and given the
+// nearest wall or floor position that clears them.
+// Run via `npm run test:sink-wet-zone` (esbuild bundles the modules first).
+import { resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+const L = await import(pathToFileURL(resolve('.tmp-snap-test/sink-wet-zone-layout.mjs')).href);
+const D = await import(pathToFileURL(resolve('.tmp-snap-test/sink-wet-zone-design.mjs')).href);
+
+let pass = 0;
+let fail = 0;
+const check = (name, ok, detail = '') => {
+  if (ok) { pass += 1; console.log(`PASS  ${name}`); }
+  else { fail += 1; console.log(`FAIL  ${name}${detail ? ` — ${detail}` : ''}`); }
+};
+
+const drain = { id: 'drain', wall: 'N', type: 'drain', offsetMm: 1800, heightMm: 400 };
+const roomWith = (...gpos) => ({
+  width: 4200, depth: 3600, height: 2700, shape: 'Rectangle', cutoutWidth: 0, cutoutDepth: 0,
+  openings: [], services: [drain, ...gpos],
+});
+const brief = (room, appliances = {}) => ({
+  room, household: {}, priorities: ['storage'],
+  appliances: { cooktop: 'induction', dishwasher: true, ...appliances }, island: 'no',
+});
+const empty = roomWith();
+const spec = L.defaultSpecFor(brief(empty), 'l-shape');
+const design = L.compileSpec(spec, empty);
+const sink = design.rolePositions.sink;
+const centre = sink.startMm + sink.widthMm / 2;
+const gpo = (id, patch) => ({ id, wall: sink.wall, type: 'gpo', offsetMm: centre, heightMm: 1100, ...patch });
+const conflictsIn = (room, bowlSizes) => L.sinkWetZone(design, room, bowlSizes).conflicts;
+
+// ---- the envelope ----
+{
+  const zone = L.sinkWetZone(design, empty);
+  check('the sink is on a wall run', sink.wall !== 'island' && zone.wall === sink.wall, sink.wall);
+  check('without bowl sizes the whole cabinet is the bowl span',
+    zone.bowlBasis === 'cabinet' && zone.alongWall.endMm - zone.alongWall.startMm === sink.widthMm + 2 * L.SINK_WET_ZONE_REACH_MM,
+    JSON.stringify(zone.alongWall));
+  check('the zone rises above the benchtop', zone.topMm === zone.benchtopMm + L.SINK_WET_ZONE_HEIGHT_MM);
+  const bowls = L.sinkWetZone(design, empty, ['405 x 355 x']);
+  check('bowl sizes from the brief narrow the zone',
+    bowls.bowlBasis === 'bowl-sizes' && bowls.alongWall.endMm - bowls.alongWall.startMm === 405 + 2 * L.SINK_WET_ZONE_REACH_MM,
+    JSON.stringify(bowls.alongWall));
+  const snapshot = { name: 'Sink', category: 'sink', unitPrice: 0, isPlaceholderPrice: false, bowlSizes: ['340 x 400 x', '340 x 400 x'] };
+  const stampedSink = { ...sink.item, applianceSnapshot: snapshot };
+  const stamped = {
+    ...design,
+    items: design.items.map(i => (i === sink.item ? stampedSink : i)),
+    rolePositions: { ...design.rolePositions, sink: { ...sink, item: stampedSink } },
+  };
+  const own = L.sinkWetZone(stamped, empty, ['405 x 355 x']);
+  check('a catalogue snapshot on the sink cabinet comes first',
+    own.alongWall.endMm - own.alongWall.startMm === 680 + 2 * L.SINK_WET_ZONE_REACH_MM, JSON.stringify(own.alongWall));
+  const beside = roomWith(gpo('beside', { offsetMm: centre + sink.widthMm / 2 + 100 }));
+  const flagged = (room, appliances) => L.validate(design, room, brief(room, appliances)).filter(v => v.code === 'sink-wet-zone').length;
+  check('the rule and the room editor agree without bowl sizes',
+    flagged(beside) === 1 && conflictsIn(beside).length === 1);
+  check('the rule and the room editor agree once the sink is chosen',
+    flagged(beside, { sinkBowlSizes: ['405 x 355 x'] }) === 0 && conflictsIn(beside, ['405 x 355 x']).length === 0);
+  check('the brief accepts the chosen bowl sizes',
+    L.designBriefSchema.safeParse(brief(beside, { sinkBowlSizes: ['405 x 355 x'] })).success);
+  const noSink = { ...design, rolePositions: { ...design.rolePositions, sink: undefined } };
+  check('a design without a sink has no zone', L.sinkWetZone(noSink, empty) === null);
+}
+
+// ---- what is flagged ----
+{
+  const [over] = conflictsIn(roomWith(gpo('over')));
+  check('a splashback power point over the sink is flagged', over?.serviceId === 'over' && over.kind === 'gpo', JSON.stringify(over));
+  const [under] = conflictsIn(roomWith(gpo('under', { heightMm: 300 })));
+  check('a power point under the bench is an appliance connection', under?.kind === 'appliance-connection');
+  check('a power point above the zone is clear', conflictsIn(roomWith(gpo('high', { heightMm: 1500 }))).length === 0);
+  check('a power point on another wall is clear', conflictsIn(roomWith(gpo('other', { wall: 'S' }))).length === 0);
+  check('other services are not power points', conflictsIn(roomWith(gpo('water', { type: 'water-supply' }))).length === 0);
+  const floorGpo = { id: 'floor', wall: 'N', type: 'gpo', offsetMm: 0, placement: 'floor', xMm: sink.item.x, zMm: sink.item.z, heightMm: 0 };
+  const [floor] = conflictsIn(roomWith(floorGpo));
+  const alongX = sink.item.rotation % 180 === 0;
+  check('a floor connection under the sink is flagged and slides along the run',
+    floor?.kind === 'appliance-connection' && floor.shiftMm > 0
+    && (alongX ? floor.relocation.zMm === Math.round(sink.item.z) : floor.relocation.xMm === Math.round(sink.item.x)),
+    JSON.stringify(floor));
+  check('the slid floor connection is clear', conflictsIn(roomWith({ ...floorGpo, ...floor.relocation })).length === 0);
+}
+
+// ---- relocation ----
+{
+  const [over] = conflictsIn(roomWith(gpo('over', { offsetMm: centre + 100 })));
+  const zone = L.sinkWetZone(design, empty);
+  check('the relocation goes to the nearer zone edge',
+    over.relocation.offsetMm >= zone.alongWall.endMm && over.shiftMm === over.relocation.offsetMm - (centre + 100),
+    JSON.stringify(over));
+  const moved = roomWith(gpo('over', { offsetMm: over.relocation.offsetMm }));
+  check('the relocated point is clear', conflictsIn(moved).length === 0);
+}
+
+// ---- the rule ----
+{
+  const room = roomWith(gpo('over'));
+  const violations = L.validate(design, room, brief(room));
+  const wet = violations.find(v => v.code === 'sink-wet-zone');
+  check('the rule warns with the move that clears it', wet?.severity === 'warn' && /moving it \d+mm along the wall clears it/.test(wet.message), wet?.message);
+  check('a clear room raises nothing', !L.validate(design, empty, brief(empty)).some(v => v.code === 'sink-wet-zone'));
+  const results = D.evaluateDesign(design, room, brief(room), spec).ruleResults;
+  const zone = results.find(r => r.messageKey === 'engine.sink-wet-zone');
+  check('the finding is a quote-stage advisory of its own',
+    zone?.ruleId === 'ERG-ELEC-ZONE-001' && zone.status === 'fail' && zone.stage === 'quote' && zone.severity === 'advisory', JSON.stringify(zone));
+  const regulated = results.filter(r => r.ruleId === 'KRN-ELEC-001');
+  check('the regulated KRN-ELEC-001 result is left to the profile',
+    regulated.length === 1 && regulated[0].status === 'pending', JSON.stringify(regulated));
+  check('the rule is mapped by the policy layer', D.MAPPED_VIOLATION_CODES.has('sink-wet-zone'));
+  check('a pack cannot change its tier',
+    L.layoutRulePackErrors([{ parameterId: 'sink-wet-zone.tier', class: 'layout', value: 'soft', unit: 'flag', source: 'test', bowerApproved: true }]).length === 1);
+}
+
+console.log(`\n${pass} passed, ${fail} failed`);
+if (fail) process.exit(1);
@@ -17,7 +17,7 @@ const OUT = path.join(ROOT, '.tmp-snap-test', 'trade-adapter');
 mkdirSync(OUT, { recursive: true });
 writeFileSync(path.join(OUT, 'package.json'), '{"type":"commonjs"}');
 
-const LAYOUT = ['types', 'versions', 'schemas', 'geometry', 'briefConstraints', 'polygon', 'blindCorner', 'catalogRoles', 'catalogCapabilities', 'styleDNA', 'solveRun', 'compileSpec', 'rules', 'validate', 'defaultSpec', 'priceDesign', 'wizardAdapter', 'proposalState', 'designScore', 'candidateGenerator', 'index'];
+const LAYOUT = ['types', 'versions', 'schemas', 'geometry', 'briefConstraints', 'polygon', 'obstructions', 'blindCorner', 'roomTypes', 'catalogRoles', 'catalogCapabilities', 'styleDNA', 'solveRun', 'compileSpec', 'rulePack', 'sinkWetZone', 'rules', 'validate', 'cooktopClearance', 'defaultSpec', 'priceDesign', 'wizardAdapter', 'proposalState', 'designScore', 'candidateGenerator', 'index'];
 const TRADE = ['cabinetPlacedItem', 'proposalToTradeRoom'];
 
 writeFileSync(path.join(OUT, 'types_stub.js'), 'module.exports = new Proxy({}, { get: () => undefined });\n');
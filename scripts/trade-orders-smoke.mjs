@@ -0,0 +1,55 @@
+// Trade Supply Store cart: merging and editing lines, pricing through the
+// account's hardware markup (appliances at list), dropped catalogue items
+// and GST totals. Run via `npm run test:trade-orders`.
+import { resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+const { addToCart, setCartQuantity, priceCart, cartKey } =
+  await import(pathToFileURL(resolve('.tmp-snap-test/trade-orders.mjs')).href);
+
+let pass = 0;
+let fail = 0;
+const check = (name, ok, detail = '') => {
+  if (ok) { pass += 1; console.log(`PASS  ${name}`); }
+  else { fail += 1; console.log(`FAIL  ${name}${detail ? ` — ${detail}` : ''}`); }
+};
+
+const hinge = { kind: 'hardware', sku: 'BLUM-71B', name: 'Blum hinge' };
+const oven = { kind: 'appliance', sku: 'BOSCH-HBF', name: 'Bosch oven' };
+
+let cart = addToCart([], hinge, 4);
+cart = addToCart(cart, hinge, 2);
+cart = addToCart(cart, oven);
+check('adding the same SKU merges quantities', cart.length === 2 && cart[0].quantity === 6);
+check('a new SKU is appended with quantity 1', cart[1].sku === 'BOSCH-HBF' && cart[1].quantity === 1);
+check('hardware and appliance keys differ', cartKey(hinge) !== cartKey({ ...hinge, kind: 'appliance' }));
+
+check('setCartQuantity floors fractional quantities', setCartQuantity(cart, cartKey(hinge), 3.7)[0].quantity === 3);
+check('setCartQuantity to zero removes the line', setCartQuantity(cart, cartKey(hinge), 0).length === 1);
+check('inputs are not mutated', cart[0].quantity === 6);
+
+const catalog = new Map([
+  [cartKey(hinge), { name: 'Blum Clip-top hinge', price: 10 }],
+  [cartKey(oven), { name: 'Bosch oven', price: 1999 }],
+]);
+const commercial = { gstPct: 0.1, clientMarkupPct: 0.2, categoryMarkups: { hardware: 0.5 } };
+const priced = priceCart(cart, catalog, commercial);
+check('hardware takes the hardware category markup', priced.lines[0].unitPrice === 15, String(priced.lines[0].unitPrice));
+check('catalogue name replaces the cart name', priced.lines[0].name === 'Blum Clip-top hinge');
+check('appliances pass through at list price', priced.lines[1].unitPrice === 1999);
+check('subtotal sums line totals', priced.totals.subtotal === 90 + 1999, String(priced.totals.subtotal));
+check('GST is 10% of subtotal', priced.totals.tax === 208.9, String(priced.totals.tax));
+check('total is subtotal plus GST', priced.totals.total === 2297.9, String(priced.totals.total));
+
+const fallback = priceCart([{ ...hinge, quantity: 1 }], catalog, { gstPct: 0.1, clientMarkupPct: 0.2 });
+check('without a hardware markup the client markup applies', fallback.lines[0].unitPrice === 12);
+
+const dropped = priceCart([...cart, { kind: 'hardware', sku: 'GONE', name: 'Old', quantity: 2 }], catalog, commercial);
+check('items missing from the catalogue are unavailable', dropped.unavailable.length === 1 && dropped.lines.length === 2);
+check('unavailable items are not charged', dropped.totals.subtotal === priced.totals.subtotal);
+
+const empty = priceCart([], catalog, commercial);
+check('an empty cart totals zero', empty.totals.total === 0 && empty.lines.length === 0);
+
+console.log(`\n${pass} passed, ${fail} failed`);
+process.exit(fail ? 1 : 0);
@@ -0,0 +1,82 @@
+// Wall elevations for the plan export: wall assignment, front splits,
+// benchtop runs, openings and services. Run via `npm run test:wall-elevations`
+// (esbuild bundles the module first).
+import { resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+const { buildWallElevations } = await import(pathToFileURL(resolve('.tmp-snap-test/wall-elevations.mjs')).href);
+
+let pass = 0;
+let fail = 0;
+const check = (name, ok, detail = '') => {
+  if (ok) { pass += 1; console.log(`PASS  ${name}`); }
+  else { fail += 1; console.log(`FAIL  ${name}${detail ? ` — ${detail}` : ''}`); }
+};
+
+const cabinet = (cabinetNumber, productName, category, [width, height, depth], position, construction) => ({
+  instanceId: cabinetNumber, definitionId: productName, cabinetNumber, productName, category,
+  dimensions: { width, height, depth },
+  materials: {}, hardware: {}, accessories: {},
+  construction, position, isPlaced: true, createdAt: '', updatedAt: '',
+});
+const room = {
+  id: 'r1', name: 'Kitchen', description: '', shape: 'rectangular',
+  config: {
+    width: 4000, depth: 3000, height: 2400,
+    openings: [{ id: 'o1', wall: 'N', type: 'window', offsetMm: 1500, widthMm: 1200, sillHeightMm: 1050 }],
+    services: [
+      { id: 's1', wall: 'N', type: 'gpo', offsetMm: 500, heightMm: 1100 },
+      { id: 's2', wall: 'N', type: 'drain', offsetMm: 2100 },
+      { id: 's3', wall: 'N', type: 'water-supply', offsetMm: 2000, placement: 'floor', xMm: 2000, zMm: 300 },
+    ],
+  },
+  dimensions: { toeKickHeight: 135, baseHeight: 730, benchtopThickness: 33, splashbackHeight: 600, doorGap: 2 },
+  cabinets: [
+    cabinet('C01', 'Base 1 Door', 'Base', [600, 865, 575], { x: 300, y: 0, z: 287.5, rotation: 0 }, { hingeSide: 'Right' }),
+    cabinet('C02', 'Base 3 Drawer', 'Base', [600, 865, 575], { x: 900, y: 0, z: 287.5, rotation: 0 }),
+    cabinet('C03', 'Base 2 Door Sink With False Front', 'Base', [900, 865, 575], { x: 2050, y: 0, z: 287.5, rotation: 0 }),
+    cabinet('C04', 'Upper 2 Door', 'Wall', [800, 720, 350], { x: 400, y: 1501, z: 175, rotation: 0 }),
+    cabinet('C05', 'Pantry', 'Tall', [600, 2100, 575], { x: 3712.5, y: 0, z: 1500, rotation: 90 }),
+    cabinet('C06', 'Island Base 2 Door', 'Base', [1200, 865, 575], { x: 2000, y: 0, z: 1800, rotation: 0 }),
+  ],
+};
+
+const elevations = buildWallElevations(room);
+check('only walls with cabinets get an elevation, back wall first',
+  elevations.map(e => e.wall).join(',') === 'N,E', elevations.map(e => e.wall).join(','));
+const back = elevations[0];
+check('back wall spans the room width and height', back.length === 4000 && back.height === 2400 && back.label === 'Back wall');
+check('island standing clear of the wall is left out', !back.cabinets.some(c => c.cabinet.cabinetNumber === 'C06'));
+check('cabinets are ordered left to right from the wall end',
+  back.cabinets.map(c => `${c.cabinet.cabinetNumber}@${c.x}`).join(',') === 'C01@0,C04@0,C02@600,C03@1600',
+  back.cabinets.map(c => `${c.cabinet.cabinetNumber}@${c.x}`).join(','));
+
+const c01 = back.cabinets.find(c => c.cabinet.cabinetNumber === 'C01');
+check('base cabinet carries the toe kick and one door hinged on the configured side',
+  c01.kick === 135 && c01.fronts.length === 1 && c01.fronts[0].kind === 'door' && c01.fronts[0].hinge === 'right', JSON.stringify(c01.fronts));
+const drawers = back.cabinets.find(c => c.cabinet.cabinetNumber === 'C02').fronts;
+check('drawer bank splits the face above the kick into three drawers',
+  drawers.length === 3 && drawers.every(f => f.kind === 'drawer') && drawers.every(f => f.y >= 135)
+  && Math.abs(drawers.reduce((sum, f) => sum + f.h + 2, 0) - 730) < 0.01, JSON.stringify(drawers));
+const sink = back.cabinets.find(c => c.cabinet.cabinetNumber === 'C03').fronts;
+check('sink base has a false front over a pair of doors',
+  sink[0].kind === 'false-front' && sink.filter(f => f.kind === 'door').map(f => f.hinge).join(',') === 'left,right');
+const upper = back.cabinets.find(c => c.cabinet.cabinetNumber === 'C04');
+check('wall cabinet has no kick and sits at its mounting height', upper.kick === 0 && upper.y === 1501 && upper.fronts.length === 2);
+
+check('benchtops run over touching base cabinets only',
+  back.benchtops.length === 2 && back.benchtops[0].x === 0 && back.benchtops[0].w === 1200 && back.benchtops[0].y === 865
+  && back.benchtops[0].h === 33 && back.benchtops[1].x === 1600, JSON.stringify(back.benchtops));
+check('splashback sits on the benchtop', back.splashbacks[0].y === 898 && back.splashbacks[0].h === 600);
+check('window keeps its sill height and default head height',
+  back.openings.length === 1 && back.openings[0].y === 1050 && back.openings[0].h === 1200 && back.openings[0].x === 1500);
+check('wall services only, at recorded or default heights',
+  back.services.length === 2 && back.services[0].y === 1100 && back.services[1].y === 400, JSON.stringify(back.services));
+
+const right = elevations[1];
+const pantry = right.cabinets[0];
+check('right wall measures from the back corner and takes the tall unit',
+  right.length === 3000 && pantry.x === 1200 && pantry.kick === 135 && right.benchtops.length === 0, JSON.stringify({ x: pantry.x }));
+
+console.log(`\n${pass} passed, ${fail} failed`);
+process.exit(fail === 0 ? 0 : 1);
@@ -36,11 +36,13 @@ const PartsPricing = React.lazy(() => import("./pages/admin/pricing/PartsPricing
 const HardwarePricing = React.lazy(() => import("./pages/admin/pricing/HardwarePricing"));
 const ApplianceCatalogAdmin = React.lazy(() => import("./pages/admin/pricing/ApplianceCatalog"));
 const MaterialPricing = React.lazy(() => import("./pages/admin/pricing/MaterialPricing"));
+const OffcutInventory = React.lazy(() => import("./pages/admin/pricing/OffcutInventory"));
 const EdgePricing = React.lazy(() => import("./pages/admin/pricing/EdgePricing"));
 const BenchtopPricing = React.lazy(() => import("./pages/admin/pricing/BenchtopPricing"));
 const DoorDrawerPricing = React.lazy(() => import("./pages/admin/pricing/DoorDrawerPricing"));
 const LaborRates = React.lazy(() => import("./pages/admin/pricing/LaborRates"));
 const ClientMarkups = React.lazy(() => import("./pages/admin/pricing/ClientMarkups"));
+const PriceScenarios = React.lazy(() => import("./pages/admin/pricing/PriceScenarios"));
 const MicrovellumImport = React.lazy(() => import("./pages/admin/pricing/MicrovellumImport"));
 const DXFImport = React.lazy(() => import("./pages/admin/pricing/DXFImport"));
 const SupplierImport = React.lazy(() => import("./pages/admin/pricing/SupplierImport"));
@@ -48,6 +50,8 @@ const SupplierFeeds = React.lazy(() => import("./pages/admin/pricing/SupplierFee
 const AdminAnalytics = React.lazy(() => import("./pages/admin/Analytics"));
 const AdminLeads = React.lazy(() => import("./pages/admin/Leads"));
 const AdminDesignRules = React.lazy(() => import("./pages/admin/DesignRules"));
+const AdminProductionSchedule = React.lazy(() => import("./pages/admin/ProductionSchedule"));
+const AdminSupplyOrders = React.lazy(() => import("./pages/admin/SupplyOrders"));
 const NotFound = React.lazy(() => import("./pages/NotFound"));
 const DevNavBar = React.lazy(() => import("./components/DevNavBar"));
 
@@ -132,6 +136,8 @@ const App = () => (
                 <Route index element={<AdminDashboard />} />
                 <Route path="leads" element={<AdminLeads />} />
                 <Route path="design-rules" element={<AdminDesignRules />} />
+                <Route path="production" element={<AdminProductionSchedule />} />
+                <Route path="supply-orders" element={<AdminSupplyOrders />} />
                 <Route path="jobs" element={<AdminJobs />} />
                 <Route path="jobs/:id" element={<AdminJobDetail />} />
                 <Route path="customers" element={<AdminCustomers />} />
@@ -143,11 +149,13 @@ const App = () => (
                 <Route path="pricing/hardware" element={<HardwarePricing />} />
                 <Route path="pricing/appliances" element={<ApplianceCatalogAdmin />} />
                 <Route path="pricing/materials" element={<MaterialPricing />} />
+                <Route path="pricing/offcuts" element={<OffcutInventory />} />
                 <Route path="pricing/edges" element={<EdgePricing />} />
                 <Route path="pricing/stone" element={<BenchtopPricing />} />
                 <Route path="pricing/doors" element={<DoorDrawerPricing />} />
                 <Route path="pricing/labor" element={<LaborRates />} />
                 <Route path="pricing/markups" element={<ClientMarkups />} />
+                <Route path="pricing/scenarios" element={<PriceScenarios />} />
                 <Route path="pricing/microvellum" element={<MicrovellumImport />} />
                 <Route path="pricing/dxf-import" element={<DXFImport />} />
                 <Route path="pricing/supplier-import" element={<SupplierImport />} />
@@ -5,7 +5,7 @@ import * as THREE from 'three';
 import ErrorBoundary from '@/components/ErrorBoundary';
 import { WALL_THICKNESS, SNAP_INCREMENT } from '@/constants';
 import { calculateSnapPosition, SnapResult, checkCollision } from '@/utils/snapping';
-import { RoomConfig, PlacedItem, GlobalDimensions, CatalogItemDefinition, MaterialOption, Opening, ServicePoint } from '@/types';
+import { RoomConfig, PlacedItem, GlobalDimensions, CatalogItemDefinition, MaterialOption, Opening, ServicePoint, Obstruction } from '@/types';
 import { FINISH_OPTIONS } from '@/constants';
 import { useCatalog } from '@/hooks/useCatalog';
 import CabinetMesh from './CabinetMesh';
@@ -19,6 +19,7 @@ import SmartDimensions from './SmartDimensions';
 import InteractionHandles from './InteractionHandles';
 import PlacementGhost from './PlacementGhost';
 import { sinkOpeningDimensions } from './appliances/sinkDimensions';
+import { polygonFromRoom, segmentForWall, type RoomPolygon } from '@/lib/layout/polygon';
 
 // Drag threshold in mm - must move at least this much before dragging starts
 const DRAG_THRESHOLD = 20;
@@ -41,7 +42,17 @@ function wallAnchor(
   u: number,
   widthM: number,
   depthM: number,
+  polygon?: RoomPolygon,
 ): { pos: [number, number, number]; rotY: number } {
+  const seg = polygon && segmentForWall(polygon, wall);
+  if (seg) {
+    const dx = (seg.b.x - seg.a.x) / seg.length;
+    const dz = (seg.b.z - seg.a.z) / seg.length;
+    return {
+      pos: [seg.a.x / 1000 + dx * u, 0, seg.a.z / 1000 + dz * u],
+      rotY: Math.atan2(-dz, dx),
+    };
+  }
   switch (wall) {
     case 'N': return { pos: [u, 0, 0], rotY: 0 };
     case 'S': return { pos: [widthM - u, 0, depthM], rotY: Math.PI };
@@ -135,12 +146,13 @@ function RoomOpenings({ room }: { room: RoomConfig }) {
   const widthM = room.width / 1000;
   const depthM = room.depth / 1000;
   const heightM = (room.height || 2700) / 1000;
+  const polygon = room.shape === 'Polygon' ? polygonFromRoom(room) : undefined;
 
   return (
     <group>
       {openings.map((o) => {
         const u = (o.offsetMm + o.widthMm / 2) / 1000;
-        const { pos, rotY } = wallAnchor(o.wall, u, widthM, depthM);
+        const { pos, rotY } = wallAnchor(o.wall, u, widthM, depthM, polygon);
         return (
           <group key={o.id} position={pos} rotation={[0, rotY, 0]}>
             {o.type === 'door' && <DoorComposite o={o} heightM={heightM} />}
@@ -232,6 +244,7 @@ function RoomServices({ room }: { room: RoomConfig }) {
   if (!services.length) return null;
   const widthM = room.width / 1000;
   const depthM = room.depth / 1000;
+  const polygon = room.shape === 'Polygon' ? polygonFromRoom(room) : undefined;
 
   return (
     <group>
@@ -243,7 +256,7 @@ function RoomServices({ room }: { room: RoomConfig }) {
             </group>
           );
         }
-        const { pos, rotY } = wallAnchor(s.wall, s.offsetMm / 1000, widthM, depthM);
+        const { pos, rotY } = wallAnchor(s.wall, s.offsetMm / 1000, widthM, depthM, polygon);
         return (
           <group key={s.id} position={pos} rotation={[0, rotY, 0]}>
             <ServiceComposite s={s} />
@@ -254,6 +267,98 @@ function RoomServices({ room }: { room: RoomConfig }) {
   );
 }
 
+/**
+ * Columns and chimney breasts as plastered boxes floor to ceiling; bulkheads
+ * and beams as boxes hanging from the ceiling down to their underside; a
+ * sloped ceiling as a plate tilted from its low edge up to the ceiling.
+ */
+function ObstructionComposite({ o, heightM }: { o: Obstruction; heightM: number }) {
+  const w = o.widthMm / 1000;
+  const d = o.depthMm / 1000;
+  const cx = o.xMm / 1000 + w / 2;
+  const cz = o.zMm / 1000 + d / 2;
+  const underside = Math.min(heightM, (o.undersideMm ?? 0) / 1000);
+  const material = <meshStandardMaterial color="#e7e5e4" roughness={0.9} side={THREE.DoubleSide} />;
+
+  if (o.type === 'column' || o.type === 'chimney-breast') {
+    return (
+      <mesh position={[cx, heightM / 2, cz]} castShadow receiveShadow>
+        <boxGeometry args={[w, heightM, d]} />
+        {material}
+      </mesh>
+    );
+  }
+  if (o.type !== 'sloped-ceiling') {
+    const drop = Math.max(0.01, heightM - underside);
+    return (
+      <mesh position={[cx, heightM - drop / 2, cz]} castShadow>
+        <boxGeometry args={[w, drop, d]} />
+        {material}
+      </mesh>
+    );
+  }
+  const rise = heightM - underside;
+  const lowSide = o.lowSide ?? 'N';
+  const acrossZ = lowSide === 'N' || lowSide === 'S';
+  const run = acrossZ ? d : w;
+  const angle = Math.atan2(rise, run);
+  const length = Math.hypot(run, rise);
+  const rotation: [number, number, number] = acrossZ
+    ? [lowSide === 'N' ? -angle : angle, 0, 0]
+    : [0, 0, lowSide === 'W' ? angle : -angle];
+  return (
+    <mesh position={[cx, underside + rise / 2, cz]} rotation={rotation} castShadow>
+      <boxGeometry args={acrossZ ? [w, 0.02, length] : [length, 0.02, d]} />
+      {material}
+    </mesh>
+  );
+}
+
+function RoomObstructions({ room }: { room: RoomConfig }) {
+  const obstructions = room.obstructions ?? [];
+  if (!obstructions.length) return null;
+  const heightM = room.height / 1000;
+  return (
+    <group>
+      {obstructions.map(o => <ObstructionComposite key={o.id} o={o} heightM={heightM} />)}
+    </group>
+  );
+}
+
+/** Walls of a custom outline: one per segment, standing outside its
+ *  interior face, with a corner post at each vertex. */
+function PolygonWalls({ room, heightM, wt }: { room: RoomConfig; heightM: number; wt: number }) {
+  const polygon = useMemo(() => polygonFromRoom(room), [room]);
+  const roomCenter: [number, number, number] = [room.width / 2000, 0, room.depth / 2000];
+  return (
+    <>
+      {polygon.segments.map((seg) => {
+        const dx = (seg.b.x - seg.a.x) / seg.length;
+        const dz = (seg.b.z - seg.a.z) / seg.length;
+        const midX = (seg.a.x + seg.b.x) / 2000 - seg.normal.x * wt / 2;
+        const midZ = (seg.a.z + seg.b.z) / 2000 - seg.normal.z * wt / 2;
+        return (
+          <Wall
+            key={seg.id}
+            position={[midX, heightM / 2, midZ]}
+            rotation={[0, Math.atan2(-dz, dx), 0]}
+            width={seg.length / 1000 + wt}
+            height={heightM}
+            thickness={wt}
+            roomCenter={roomCenter}
+          />
+        );
+      })}
+      {polygon.segments.map((seg, i) => {
+        const prev = polygon.segments[(i + polygon.segments.length - 1) % polygon.segments.length];
+        const x = seg.a.x / 1000 - (seg.normal.x + prev.normal.x) * wt / 2;
+        const z = seg.a.z / 1000 - (seg.normal.z + prev.normal.z) * wt / 2;
+        return <WallCorner key={seg.id} position={[x, heightM / 2, z]} height={heightM} thickness={wt} roomCenter={roomCenter} />;
+      })}
+    </>
+  );
+}
+
 interface SnapState {
   snappedToItemId: string | null;
   snapEdge: SnapResult['snapEdge'];
@@ -1041,7 +1146,10 @@ export function UnifiedScene({
           fadeStrength={1}
         />
 
+        {room.shape === 'Polygon' && <PolygonWalls room={room} heightM={heightM} wt={wt} />}
+
         {/* Walls - four walls forming room perimeter */}
+        {room.shape !== 'Polygon' && (<>
         {/* Back wall (along X axis at z = -wt/2) */}
         <Wall 
           position={[widthM / 2, heightM / 2, -wt / 2]} 
@@ -1083,6 +1191,7 @@ export function UnifiedScene({
         {/* Corners */}
         <WallCorner position={[-wt / 2, heightM / 2, -wt / 2]} height={heightM} thickness={wt} roomCenter={[widthM / 2, 0, depthM / 2]} />
         <WallCorner position={[widthM + wt / 2, heightM / 2, -wt / 2]} height={heightM} thickness={wt} roomCenter={[widthM / 2, 0, depthM / 2]} />
+        </>)}
 
         {room.shape === 'LShape' && (
           <>
@@ -1117,6 +1226,9 @@ export function UnifiedScene({
         {/* Plumbing / power / gas / ducting markers on the walls */}
         <RoomServices room={room} />
 
+        {/* Columns, bulkheads, beams and sloped ceilings */}
+        <RoomObstructions room={room} />
+
         {/* Render items using proper component dispatch */}
         {items.map(item => {
           const key = item.instanceId;
@@ -27,7 +27,11 @@ import {
   Upload,
   RefreshCw,
   Ruler,
+  Scissors,
   Menu,
+  CalendarRange,
+  ShoppingCart,
+  FlaskConical,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
@@ -39,6 +43,8 @@ const navItems = [
   { path: '/admin/leads', label: 'Leads', icon: Inbox },
   { path: '/admin/design-rules', label: 'Design Rules', icon: Ruler },
   { path: '/admin/jobs', label: 'Jobs', icon: FileText },
+  { path: '/admin/production', label: 'Production', icon: CalendarRange },
+  { path: '/admin/supply-orders', label: 'Supply Orders', icon: ShoppingCart },
   { path: '/admin/analytics', label: 'Analytics', icon: BarChart2 },
   { path: '/admin/customers', label: 'Customers', icon: Users },
   { path: '/admin/products', label: 'Product Visibility', icon: Box },
@@ -52,11 +58,13 @@ const pricingItems = [
   { path: '/admin/pricing/hardware', label: 'Hardware', icon: Wrench },
   { path: '/admin/pricing/appliances', label: 'Appliances', icon: Box },
   { path: '/admin/pricing/materials', label: 'Materials', icon: Box },
+  { path: '/admin/pricing/offcuts', label: 'Offcuts', icon: Scissors },
   { path: '/admin/pricing/edges', label: 'Edges', icon: RectangleHorizontal },
   { path: '/admin/pricing/stone', label: 'Benchtops', icon: Gem },
   { path: '/admin/pricing/doors', label: 'Doors/Drawers', icon: DoorOpen },
   { path: '/admin/pricing/labor', label: 'Labor Rates', icon: Clock },
   { path: '/admin/pricing/markups', label: 'Client Markups', icon: Percent },
+  { path: '/admin/pricing/scenarios', label: 'Price Scenarios', icon: FlaskConical },
   { path: '/admin/pricing/dxf-import', label: 'DXF Import', icon: FileCode },
   { path: '/admin/pricing/supplier-import', label: 'Supplier Import', icon: Upload },
   { path: '/admin/pricing/supplier-feeds', label: 'Supplier Feeds', icon: RefreshCw },
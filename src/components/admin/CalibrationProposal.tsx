@@ -0,0 +1,218 @@
+/**
+ * Proposed time-model rates or board yield factors, fitted from completed
+ * jobs with recorded actuals, shown against the current values. Nothing
+ * changes until an admin approves; each approval is a new calibration
+ * version (table `pricing_calibrations`).
+ */
+
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Gauge } from 'lucide-react';
+import type { TimeRates } from '@/lib/pricing/timeModel';
+import { quotedJobCost, readJobActuals } from '@/lib/trade/jobMargins';
+import {
+  activeTimeRates,
+  calibrateTimeRates,
+  calibrateYieldFactors,
+  CalibrationJob,
+  CalibrationKind,
+  hasTimeChanges,
+  jobsSinceCalibration,
+  latestCalibration,
+  MIN_CALIBRATION_JOBS,
+  PricingCalibrationRow,
+  STAGE_RATE_KEYS,
+  TimeCalibration,
+  YieldFit,
+} from '@/lib/trade/calibration';
+
+interface CalibrationProposalProps {
+  kind: CalibrationKind;
+  /** Called after an approval so the screen can reload its own rows. */
+  onApproved?: () => void;
+}
+
+const RATE_LABELS: Partial<Record<keyof TimeRates, string>> = {
+  cutHoursPerCarcaseSheet: 'Cut hours per carcase sheet',
+  cutHoursPerDoorSheet: 'Cut hours per door sheet',
+  edgeHoursPerLm: 'Edge hours per lineal metre',
+  assemblyBase: 'Assembly hours, base',
+  assemblyTall: 'Assembly hours, tall',
+  assemblyMicrowave: 'Assembly hours, appliance tower',
+  assemblyPerDrawer: 'Assembly hours per drawer',
+};
+
+const pct = (n: number) => `${n >= 1 ? '+' : ''}${((n - 1) * 100).toFixed(1)}%`;
+
+export function CalibrationProposal({ kind, onApproved }: CalibrationProposalProps) {
+  const [loading, setLoading] = useState(true);
+  const [approving, setApproving] = useState(false);
+  const [latest, setLatest] = useState<PricingCalibrationRow | null>(null);
+  const [jobCount, setJobCount] = useState(0);
+  const [time, setTime] = useState<TimeCalibration | null>(null);
+  const [yields, setYields] = useState<YieldFit[]>([]);
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      const [{ data: calibrations, error: calibrationError }, { data: actuals, error: actualsError }] = await Promise.all([
+        (supabase as any).from('pricing_calibrations').select('*'),
+        (supabase as any).from('job_actuals').select('*'),
+      ]);
+      if (calibrationError) throw calibrationError;
+      if (actualsError) throw actualsError;
+      const rows = (calibrations ?? []) as PricingCalibrationRow[];
+      const actualRows = (actuals ?? []) as Array<Record<string, unknown> & { job_id: string }>;
+      const { data: jobs, error: jobsError } = actualRows.length > 0
+        ? await supabase.from('jobs').select('id, design_data').eq('status', 'completed').in('id', actualRows.map(r => r.job_id))
+        : { data: [], error: null };
+      if (jobsError) throw jobsError;
+
+      const designById = new Map((jobs ?? []).map(j => [j.id, j.design_data]));
+      const since = latestCalibration(rows, kind);
+      const completed: CalibrationJob[] = actualRows
+        .filter(row => designById.has(row.job_id))
+        .map(row => ({ id: row.job_id, quoted: quotedJobCost(designById.get(row.job_id)), actuals: readJobActuals(row, row.job_id) }));
+      const usable = jobsSinceCalibration(completed, since?.approved_at);
+
+      setLatest(since);
+      setJobCount(usable.length);
+      if (kind === 'time') {
+        setTime(calibrateTimeRates(usable, activeTimeRates(rows)));
+      } else {
+        const { data: materials, error: materialsError } = await supabase.from('material_pricing').select('id, expected_yield_factor');
+        if (materialsError) throw materialsError;
+        setYields(calibrateYieldFactors(usable, Object.fromEntries((materials ?? []).map(m => [m.id, Number(m.expected_yield_factor)]))));
+      }
+    } catch (error) {
+      console.error('Failed to load calibration:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [kind]);
+
+  const readyYields = yields.filter(y => y.ready && y.proposed !== y.current);
+  const canApprove = kind === 'time' ? !!time && hasTimeChanges(time) : readyYields.length > 0;
+
+  const approve = async () => {
+    setApproving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (kind === 'yield') {
+        for (const fit of readyYields) {
+          const { error } = await supabase.from('material_pricing').update({ expected_yield_factor: fit.proposed }).eq('id', fit.materialId);
+          if (error) throw error;
+        }
+      }
+      const { data, error } = await (supabase as any).from('pricing_calibrations').insert({
+        kind,
+        time_rates: kind === 'time' ? time?.proposed : null,
+        yield_factors: kind === 'yield' ? Object.fromEntries(readyYields.map(y => [y.materialId, y.proposed])) : null,
+        fit: kind === 'time' ? { stages: time?.stages ?? [] } : { materials: readyYields },
+        job_count: jobCount,
+        approved_by: user?.id ?? null,
+      }).select('version').single();
+      if (error) throw error;
+      toast.success(`Calibration v${data.version} approved — new quotes use it from now on`);
+      onApproved?.();
+      load();
+    } catch (error) {
+      console.error('Failed to approve calibration:', error);
+      toast.error('Failed to approve calibration');
+    } finally {
+      setApproving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between text-base">
+          <span className="flex items-center gap-2">
+            <Gauge className="h-4 w-4" />
+            {kind === 'time' ? 'Build-time calibration' : 'Yield calibration'}
+          </span>
+          <Button size="sm" onClick={approve} disabled={loading || approving || !canApprove}>Approve proposal</Button>
+        </CardTitle>
+        <p className="text-xs text-muted-foreground">
+          {jobCount} completed job{jobCount !== 1 ? 's' : ''} with actuals
+          {latest ? ` quoted since v${latest.version} (${new Date(latest.approved_at).toLocaleDateString('en-AU')})` : ''}.
+          {' '}A value changes once {MIN_CALIBRATION_JOBS} jobs support it. Intervals are 95%.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-center py-4 text-muted-foreground">Loading...</p>
+        ) : kind === 'time' && time ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Rate</TableHead>
+                <TableHead>Current</TableHead>
+                <TableHead>Proposed</TableHead>
+                <TableHead>Actual / quoted hours</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {time.stages.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-muted-foreground">No labour hours recorded on completed jobs yet.</TableCell>
+                </TableRow>
+              )}
+              {time.stages.flatMap(fit => STAGE_RATE_KEYS[fit.stage].map(key => (
+                <TableRow key={key}>
+                  <TableCell>{RATE_LABELS[key] ?? key}</TableCell>
+                  <TableCell>{time.current[key]}</TableCell>
+                  <TableCell className={time.proposed[key] !== time.current[key] ? 'font-semibold' : 'text-muted-foreground'}>
+                    {time.proposed[key]}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {pct(fit.estimate)} ({pct(fit.low)} to {pct(fit.high)}) · {fit.jobs} job{fit.jobs !== 1 ? 's' : ''}
+                  </TableCell>
+                </TableRow>
+              )))}
+            </TableBody>
+          </Table>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Material</TableHead>
+                <TableHead>Current yield</TableHead>
+                <TableHead>Proposed</TableHead>
+                <TableHead>95% interval</TableHead>
+                <TableHead>Jobs</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {yields.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">No sheet counts recorded on completed jobs yet.</TableCell>
+                </TableRow>
+              )}
+              {yields.map(fit => (
+                <TableRow key={fit.materialId}>
+                  <TableCell>{fit.materialName}</TableCell>
+                  <TableCell>{fit.current}</TableCell>
+                  <TableCell className={fit.ready && fit.proposed !== fit.current ? 'font-semibold' : 'text-muted-foreground'}>
+                    {fit.proposed}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">{fit.low.toFixed(3)} – {fit.high.toFixed(3)}</TableCell>
+                  <TableCell>{fit.jobs}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,212 @@
+/**
+ * Scan-to-verify packing and dispatch for one job.
+ * Staff scan part labels into each cabinet's pack, close it with the pack
+ * label, then scan pack labels again as bundles are loaded. Handheld scanners
+ * type the code and press Enter, so a focused text field is all the input needed.
+ * Scans are only accepted while the job is in production; otherwise read-only.
+ */
+
+import React, { useMemo, useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { toast } from 'sonner';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScanLine, CheckCircle2, AlertTriangle, Truck, Package } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { addSystemNote } from '@/components/shared/JobNotes';
+import { buildPartLabels, jobLabelRef } from '@/lib/partLabels';
+import type { QuoteBOM } from '@/lib/pricing/types';
+import {
+  applyScan,
+  CabinetDispatchStatus,
+  DispatchState,
+  ScanMode,
+  ScanOutcome,
+  summarizeDispatch,
+} from '@/lib/trade/dispatch';
+
+interface DispatchStationProps {
+  jobId: string;
+  jobNumber: number;
+  quoteBOM: QuoteBOM;
+  state: DispatchState;
+  /** Scanning is only enabled for jobs in production. */
+  canScan: boolean;
+  onStateChange: (state: DispatchState) => void;
+}
+
+const STATUS_STYLES: Record<CabinetDispatchStatus, { label: string; className: string }> = {
+  pending: { label: 'Not started', className: 'bg-gray-100 text-gray-600 border-gray-200' },
+  in_progress: { label: 'Packing', className: 'bg-amber-100 text-amber-800 border-amber-200' },
+  complete: { label: 'All parts in', className: 'bg-blue-100 text-blue-700 border-blue-200' },
+  packed: { label: 'Packed', className: 'bg-green-100 text-green-700 border-green-200' },
+  dispatched: { label: 'Loaded', className: 'bg-slate-800 text-white border-slate-800' },
+};
+
+function outcomeText(outcome: ScanOutcome): string {
+  switch (outcome.kind) {
+    case 'part':
+      return `${outcome.cabinetRef}: ${outcome.partName} scanned${outcome.cabinetComplete ? ' - all parts in, scan the pack label' : ''}`;
+    case 'packed':
+      return `${outcome.cabinetRef} packed`;
+    case 'loaded':
+      return `${outcome.cabinetRef} loaded`;
+    default:
+      return outcome.message;
+  }
+}
+
+export function DispatchStation({ jobId, jobNumber, quoteBOM, state, canScan, onStateChange }: DispatchStationProps) {
+  const jobRef = jobLabelRef(jobNumber);
+  const labels = useMemo(() => buildPartLabels(quoteBOM, jobRef), [quoteBOM, jobRef]);
+  const summary = useMemo(() => summarizeDispatch(labels, state), [labels, state]);
+  const [mode, setMode] = useState<ScanMode>('pack');
+  const [code, setCode] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [lastOutcome, setLastOutcome] = useState<ScanOutcome | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const submitScan = async () => {
+    if (!code.trim() || saving) return;
+    const { state: next, outcome } = applyScan(state, code, labels, jobRef, mode);
+    setCode('');
+    setLastOutcome(outcome);
+    if (next === state) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('jobs')
+        .update({ dispatch_state: next as unknown as Json })
+        .eq('id', jobId);
+      if (error) throw error;
+      onStateChange(next);
+      const nextSummary = summarizeDispatch(labels, next);
+      if (outcome.kind === 'loaded' && nextSummary.dispatchedCabinets === nextSummary.cabinets.length) {
+        await addSystemNote(jobId, `All ${nextSummary.cabinets.length} cabinets loaded for dispatch.`);
+      }
+    } catch (err) {
+      console.error('Failed to save dispatch scan:', err);
+      setLastOutcome({ kind: 'rejected', message: 'Scan not saved - check the connection and scan again' });
+      toast.error('Failed to save scan');
+    } finally {
+      setSaving(false);
+      inputRef.current?.focus();
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      submitScan();
+    }
+  };
+
+  const partPct = summary.totalParts > 0 ? Math.round((summary.scannedParts / summary.totalParts) * 100) : 0;
+  const accepted = lastOutcome && (lastOutcome.kind === 'part' || lastOutcome.kind === 'packed' || lastOutcome.kind === 'loaded');
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Package className="w-5 h-5" />
+          Packing &amp; Dispatch
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-3 gap-3 text-sm">
+          <div>
+            <p className="text-xs text-gray-500">Parts scanned</p>
+            <p className="font-semibold">{summary.scannedParts} / {summary.totalParts}</p>
+          </div>
+          <div>
+            <p className="text-xs text-gray-500">Cabinets packed</p>
+            <p className="font-semibold">{summary.packedCabinets} / {summary.cabinets.length}</p>
+          </div>
+          <div>
+            <p className="text-xs text-gray-500">Cabinets loaded</p>
+            <p className="font-semibold">{summary.dispatchedCabinets} / {summary.cabinets.length}</p>
+          </div>
+        </div>
+        <div className="h-2 w-full rounded-full bg-gray-100 overflow-hidden">
+          <div className="h-full bg-green-500 transition-all" style={{ width: `${partPct}%` }} />
+        </div>
+
+        {canScan ? (
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant={mode === 'pack' ? 'default' : 'outline'}
+                onClick={() => { setMode('pack'); inputRef.current?.focus(); }}
+              >
+                <Package className="w-4 h-4 mr-1.5" /> Pack
+              </Button>
+              <Button
+                size="sm"
+                variant={mode === 'load' ? 'default' : 'outline'}
+                onClick={() => { setMode('load'); inputRef.current?.focus(); }}
+              >
+                <Truck className="w-4 h-4 mr-1.5" /> Load
+              </Button>
+            </div>
+            <div className="relative">
+              <ScanLine className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+              <Input
+                ref={inputRef}
+                autoFocus
+                value={code}
+                onChange={e => setCode(e.target.value)}
+                onKeyDown={handleKeyDown}
+                disabled={saving}
+                placeholder={mode === 'pack' ? 'Scan a part label, then the pack label…' : 'Scan a pack label as it is loaded…'}
+                className="pl-9 font-mono"
+              />
+            </div>
+            {lastOutcome && (
+              <p className={cn('text-sm flex items-center gap-1.5', accepted ? 'text-green-700' : lastOutcome.kind === 'duplicate' ? 'text-amber-700' : 'text-red-600')}>
+                {accepted ? <CheckCircle2 className="w-4 h-4" /> : <AlertTriangle className="w-4 h-4" />}
+                {outcomeText(lastOutcome)}
+              </p>
+            )}
+          </div>
+        ) : (
+          <p className="text-xs text-gray-500">Scanning opens when the job is In Production.</p>
+        )}
+
+        <div className="divide-y border rounded-lg">
+          {summary.cabinets.map(cabinet => (
+            <div key={cabinet.cabinetRef} className="px-3 py-2 text-sm">
+              <button
+                type="button"
+                className="w-full flex items-center gap-3 text-left"
+                onClick={() => setExpanded(expanded === cabinet.cabinetRef ? null : cabinet.cabinetRef)}
+              >
+                <span className="font-semibold w-16">{cabinet.cabinetRef}</span>
+                <span className="flex-1 truncate text-gray-700">{cabinet.cabinetName}</span>
+                <span className="text-xs text-gray-500">{cabinet.scannedParts}/{cabinet.totalParts}</span>
+                <Badge className={cn('text-xs', STATUS_STYLES[cabinet.status].className)}>
+                  {STATUS_STYLES[cabinet.status].label}
+                </Badge>
+              </button>
+              {expanded === cabinet.cabinetRef && cabinet.missing.length > 0 && (
+                <ul className="mt-2 ml-16 text-xs text-gray-500 space-y-0.5">
+                  {cabinet.missing.map(part => (
+                    <li key={part.partId}>
+                      Missing: {part.partName} {part.length} x {part.width}
+                      <span className="ml-2 font-mono text-gray-400">{part.partId}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,182 @@
+/**
+ * Actual job costs for one job: supplier invoice totals per category, labour
+ * hours per production stage and sheets cut per board, shown against what the
+ * quote assumed. Feeds the margin analysis on the Reports page and the
+ * time and yield calibration on the pricing screens.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Receipt } from 'lucide-react';
+import { PRODUCTION_STAGES, ProductionStage } from '@/lib/trade/productionSchedule';
+import {
+  ACTUAL_COST_CATEGORIES,
+  ACTUAL_COST_CATEGORY_LABELS,
+  ActualCostCategory,
+  describeMissingActuals,
+  jobMargin,
+  PRODUCTION_STAGE_LABELS,
+  quotedJobCost,
+  readJobActuals,
+} from '@/lib/trade/jobMargins';
+
+interface JobActualsProps {
+  jobId: string;
+  designData: unknown;
+}
+
+const AUD = (n: number) => new Intl.NumberFormat('en-AU', { style: 'currency', currency: 'AUD' }).format(n);
+const pct = (n: number | null) => (n == null ? '—' : `${(n * 100).toFixed(1)}%`);
+
+export function JobActuals({ jobId, designData }: JobActualsProps) {
+  const [invoices, setInvoices] = useState<Partial<Record<ActualCostCategory, string>>>({});
+  const [hours, setHours] = useState<Partial<Record<ProductionStage, string>>>({});
+  const [sheets, setSheets] = useState<Record<string, string>>({});
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const quoted = useMemo(() => quotedJobCost(designData), [designData]);
+
+  useEffect(() => {
+    (async () => {
+      const { data, error } = await (supabase as any).from('job_actuals').select('*').eq('job_id', jobId).maybeSingle();
+      if (error) {
+        console.error('Failed to load job actuals:', error);
+        return;
+      }
+      const row = readJobActuals(data, jobId);
+      setInvoices(Object.fromEntries(Object.entries(row.invoice_totals).map(([k, v]) => [k, String(v)])));
+      setHours(Object.fromEntries(Object.entries(row.labour_hours).map(([k, v]) => [k, String(v)])));
+      setSheets(Object.fromEntries(Object.entries(row.sheets_used).map(([k, v]) => [k, String(v)])));
+      setNotes(row.notes ?? '');
+    })();
+  }, [jobId]);
+
+  const actuals = readJobActuals({ invoice_totals: invoices, labour_hours: hours, sheets_used: sheets, notes }, jobId);
+  const margin = jobMargin(quoted, actuals);
+
+  const save = async () => {
+    setSaving(true);
+    const { data: { user } } = await supabase.auth.getUser();
+    const { error } = await (supabase as any).from('job_actuals').upsert({
+      job_id: jobId,
+      invoice_totals: actuals.invoice_totals,
+      labour_hours: actuals.labour_hours,
+      sheets_used: actuals.sheets_used,
+      notes: notes.trim() || null,
+      recorded_by: user?.id ?? null,
+    });
+    setSaving(false);
+    if (error) {
+      console.error('Failed to save job actuals:', error);
+      toast.error('Failed to save actual costs');
+    } else {
+      toast.success('Actual costs saved');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2"><Receipt className="h-4 w-4" />Actual Costs</span>
+          <Button size="sm" variant="outline" onClick={save} disabled={saving}>Save</Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        {quoted.unpricedRooms > 0 && (
+          <p className="text-xs text-amber-600">
+            {quoted.unpricedRooms} room{quoted.unpricedRooms !== 1 ? 's have' : ' has'} never been priced, so the quoted side is incomplete.
+          </p>
+        )}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-1.5">
+            <p className="text-xs font-medium text-gray-500 uppercase tracking-wide">Supplier invoices (ex GST)</p>
+            {ACTUAL_COST_CATEGORIES.map(key => (
+              <label key={key} className="flex items-center gap-3">
+                <span className="flex-1">{ACTUAL_COST_CATEGORY_LABELS[key]}</span>
+                <span className="text-xs text-gray-400 w-24 text-right">{key === 'other' ? '—' : AUD(quoted.categories[key])}</span>
+                <Input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  className="w-28 h-8"
+                  value={invoices[key] ?? ''}
+                  onChange={e => setInvoices(v => ({ ...v, [key]: e.target.value }))}
+                />
+              </label>
+            ))}
+          </div>
+          <div className="space-y-1.5">
+            <p className="text-xs font-medium text-gray-500 uppercase tracking-wide">Labour hours</p>
+            {PRODUCTION_STAGES.map(stage => (
+              <label key={stage} className="flex items-center gap-3">
+                <span className="flex-1">{PRODUCTION_STAGE_LABELS[stage]}</span>
+                <span className="text-xs text-gray-400 w-24 text-right">{quoted.hours[stage].toFixed(1)} h quoted</span>
+                <Input
+                  type="number"
+                  min={0}
+                  step="0.25"
+                  className="w-28 h-8"
+                  value={hours[stage] ?? ''}
+                  onChange={e => setHours(v => ({ ...v, [stage]: e.target.value }))}
+                />
+              </label>
+            ))}
+            {quoted.boards.length > 0 && (
+              <p className="pt-2 text-xs font-medium text-gray-500 uppercase tracking-wide">Sheets cut</p>
+            )}
+            {quoted.boards.map(board => (
+              <label key={board.materialId} className="flex items-center gap-3">
+                <span className="flex-1 min-w-0 truncate">{board.materialName}</span>
+                <span className="text-xs text-gray-400 w-24 text-right">{board.partArea.toFixed(1)} m² parts</span>
+                <Input
+                  type="number"
+                  min={0}
+                  step="1"
+                  className="w-28 h-8"
+                  value={sheets[board.materialId] ?? ''}
+                  onChange={e => setSheets(v => ({ ...v, [board.materialId]: e.target.value }))}
+                />
+              </label>
+            ))}
+            <Textarea
+              className="mt-2"
+              rows={2}
+              placeholder="Notes (rework, remakes, freight…)"
+              value={notes}
+              onChange={e => setNotes(e.target.value)}
+            />
+          </div>
+        </div>
+        <div className="grid grid-cols-3 gap-3 rounded-lg bg-gray-50 p-3">
+          <div>
+            <p className="text-xs text-gray-500">Sell ex GST</p>
+            <p className="font-semibold">{AUD(margin.sellExGst)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-gray-500">Quoted cost · margin</p>
+            <p className="font-semibold">{AUD(margin.quotedCost)} · {pct(margin.quotedMarginPct)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-gray-500">Actual cost · margin</p>
+            <p className={`font-semibold ${!margin.actualsComplete ? 'text-gray-500' : margin.actualMargin < margin.quotedMargin ? 'text-red-600' : 'text-green-700'}`}>
+              {AUD(margin.actualCost)} · {pct(margin.actualMarginPct)}
+            </p>
+          </div>
+        </div>
+        {!margin.actualsComplete && (
+          <p className="text-xs text-amber-600">
+            Partial: still waiting on {describeMissingActuals(margin.missingActuals)}, so the actual cost is understated and
+            the job stays out of the monthly trend.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
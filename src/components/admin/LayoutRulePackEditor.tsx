@@ -0,0 +1,346 @@
+/**
+ * Edits the layout rules engine's thresholds and tiers as a draft rule pack,
+ * and reviews drafts against the pack in force. A draft changes nothing until
+ * an admin approves it; the newest approved version is what the homeowner
+ * planner and the ai-designer edge function evaluate with (table
+ * `layout_rule_packs`, see src/lib/layout/rulePack.ts).
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Check, Lock, X } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { LAYOUT_RULE_PACK_QUERY_KEY } from '@/hooks/useLayoutRulePack';
+import {
+  activeLayoutRulePack,
+  changedRulePackParameters,
+  LAYOUT_THRESHOLD_DEFAULTS,
+  LAYOUT_THRESHOLD_LABELS,
+  layoutRulePackErrors,
+  layoutRulePackParameters,
+  layoutRulePackVersion,
+  LOCKED_TIER_RULE_IDS,
+  RULE_INDEX,
+  type LayoutRulePack,
+  type LayoutRulePackRow,
+  type LayoutThresholdId,
+  type RuleTier,
+} from '@/lib/layout';
+
+const THRESHOLD_IDS = Object.keys(LAYOUT_THRESHOLD_DEFAULTS) as LayoutThresholdId[];
+const TIERS: RuleTier[] = ['hard', 'safety', 'soft'];
+
+const formatDate = (iso: string | null) => (iso ? new Date(iso).toLocaleDateString('en-AU') : '—');
+const formatValue = (value: unknown) => (value === undefined ? '—' : String(value));
+
+function ChangeList({ changes }: { changes: ReturnType<typeof changedRulePackParameters> }) {
+  if (changes.length === 0) return <p className="text-xs text-muted-foreground">Same as the pack in force.</p>;
+  return (
+    <ul className="text-xs space-y-0.5">
+      {changes.map(change => (
+        <li key={change.parameterId}>
+          <span className="font-mono">{change.parameterId}</span>: {formatValue(change.from)} → <span className="font-semibold">{formatValue(change.to)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function LayoutRulePackEditor() {
+  const queryClient = useQueryClient();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [rows, setRows] = useState<LayoutRulePackRow[]>([]);
+  const [draft, setDraft] = useState<LayoutRulePack | null>(null);
+  const [note, setNote] = useState('');
+
+  const active = useMemo(() => activeLayoutRulePack(rows), [rows]);
+  const activeRow = rows.find(row => row.status === 'approved' && layoutRulePackVersion(row) === active.version) ?? null;
+  const activeParameters = useMemo(() => layoutRulePackParameters(active, RULE_INDEX), [active]);
+  const draftParameters = useMemo(() => (draft ? layoutRulePackParameters(draft, RULE_INDEX) : []), [draft]);
+  const draftChanges = useMemo(() => changedRulePackParameters(activeParameters, draftParameters), [activeParameters, draftParameters]);
+  const draftErrors = useMemo(() => layoutRulePackErrors(draftParameters), [draftParameters]);
+  const pending = rows.filter(row => row.status === 'pending');
+  const history = rows.filter(row => row.status !== 'pending');
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await (supabase as any)
+        .from('layout_rule_packs')
+        .select('*')
+        .order('version', { ascending: false });
+      if (error) throw error;
+      const loaded = (data ?? []) as LayoutRulePackRow[];
+      setRows(loaded);
+      setDraft(activeLayoutRulePack(loaded));
+    } catch (error) {
+      console.error('Failed to load layout rule packs:', error);
+      toast.error('Failed to load layout rule packs');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const setThreshold = (id: LayoutThresholdId, value: string) => {
+    setDraft(current => current && ({ ...current, thresholds: { ...current.thresholds, [id]: value === '' ? NaN : Number(value) } }));
+  };
+
+  const setTier = (ruleId: string, registryTier: RuleTier, tier: RuleTier) => {
+    setDraft(current => {
+      if (!current) return current;
+      const tiers = { ...current.tiers };
+      if (tier === registryTier) delete tiers[ruleId];
+      else tiers[ruleId] = tier;
+      return { ...current, tiers };
+    });
+  };
+
+  const submit = async () => {
+    setSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { data, error } = await (supabase as any).from('layout_rule_packs').insert({
+        parameters: draftParameters,
+        note: note.trim() || null,
+        proposed_by: user?.id ?? null,
+      }).select('version').single();
+      if (error) throw error;
+      toast.success(`Draft ${layoutRulePackVersion(data)} saved — it applies once approved`);
+      setNote('');
+      load();
+    } catch (error) {
+      console.error('Failed to save rule pack draft:', error);
+      toast.error('Failed to save rule pack draft');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const review = async (row: LayoutRulePackRow, status: 'approved' | 'rejected') => {
+    setSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { error } = await (supabase as any).from('layout_rule_packs').update({
+        status,
+        approved_by: user?.id ?? null,
+        approved_at: new Date().toISOString(),
+      }).eq('id', row.id).eq('status', 'pending');
+      if (error) throw error;
+      toast.success(status === 'approved'
+        ? `${layoutRulePackVersion(row)} approved — new designs are checked with it from now on`
+        : `${layoutRulePackVersion(row)} rejected`);
+      queryClient.invalidateQueries({ queryKey: LAYOUT_RULE_PACK_QUERY_KEY });
+      load();
+    } catch (error) {
+      console.error('Failed to review rule pack:', error);
+      toast.error('Failed to review rule pack');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading || !draft) {
+    return <p className="text-center py-4 text-sm text-muted-foreground">Loading rule packs...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">In force: <span className="font-mono text-sm">{active.version}</span></CardTitle>
+          <p className="text-xs text-muted-foreground">
+            {activeRow
+              ? `Approved ${formatDate(activeRow.approved_at)}${activeRow.note ? ` — ${activeRow.note}` : ''}.`
+              : 'No pack approved yet; the engine defaults apply.'}
+            {' '}Every AI proposal records the version it was checked against.
+          </p>
+        </CardHeader>
+      </Card>
+
+      {pending.map(row => (
+        <Card key={row.id} className="border-amber-200">
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between text-base">
+              <span>Awaiting approval: <span className="font-mono text-sm">{layoutRulePackVersion(row)}</span></span>
+              <span className="flex gap-2">
+                <Button size="sm" variant="outline" disabled={saving} onClick={() => review(row, 'rejected')}>
+                  <X className="h-4 w-4 mr-1" /> Reject
+                </Button>
+                <Button size="sm" disabled={saving} onClick={() => review(row, 'approved')}>
+                  <Check className="h-4 w-4 mr-1" /> Approve
+                </Button>
+              </span>
+            </CardTitle>
+            <p className="text-xs text-muted-foreground">
+              Proposed {formatDate(row.proposed_at)}{row.note ? ` — ${row.note}` : ''}
+            </p>
+          </CardHeader>
+          <CardContent>
+            <ChangeList changes={changedRulePackParameters(activeParameters, Array.isArray(row.parameters) ? row.parameters : [])} />
+          </CardContent>
+        </Card>
+      ))}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Thresholds</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Measure</TableHead>
+                <TableHead>Parameter</TableHead>
+                <TableHead>Default</TableHead>
+                <TableHead className="w-32">Value (mm)</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {THRESHOLD_IDS.map(id => (
+                <TableRow key={id}>
+                  <TableCell>{LAYOUT_THRESHOLD_LABELS[id]}</TableCell>
+                  <TableCell className="font-mono text-xs">{id}</TableCell>
+                  <TableCell className="text-muted-foreground">{LAYOUT_THRESHOLD_DEFAULTS[id]}</TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={Number.isNaN(draft.thresholds[id]) ? '' : draft.thresholds[id]}
+                      onChange={event => setThreshold(id, event.target.value)}
+                      className="h-8"
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Rule tiers</CardTitle>
+          <p className="text-xs text-muted-foreground">
+            Hard rejects a design, safety flags it for a person to fix or accept, soft only affects ranking.
+            Locked rules cover room geometry, required fixtures and appliance clearances.
+          </p>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Rule</TableHead>
+                <TableHead>Id</TableHead>
+                <TableHead>Default</TableHead>
+                <TableHead className="w-36">Tier</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {RULE_INDEX.map(rule => {
+                const locked = LOCKED_TIER_RULE_IDS.includes(rule.id);
+                return (
+                  <TableRow key={rule.id}>
+                    <TableCell>{rule.title}</TableCell>
+                    <TableCell className="font-mono text-xs">{rule.id}</TableCell>
+                    <TableCell className="text-muted-foreground">{rule.tier}</TableCell>
+                    <TableCell>
+                      {locked ? (
+                        <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                          <Lock className="h-3 w-3" /> {rule.tier}
+                        </span>
+                      ) : (
+                        <Select
+                          value={draft.tiers[rule.id] ?? rule.tier}
+                          onValueChange={value => setTier(rule.id, rule.tier, value as RuleTier)}
+                        >
+                          <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+                          <SelectContent>
+                            {TIERS.map(tier => <SelectItem key={tier} value={tier}>{tier}</SelectItem>)}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between text-base">
+            <span>Submit for approval</span>
+            <span className="flex gap-2">
+              <Button size="sm" variant="outline" disabled={saving || draftChanges.length === 0} onClick={() => setDraft(active)}>
+                Discard edits
+              </Button>
+              <Button size="sm" disabled={saving || draftChanges.length === 0 || draftErrors.length > 0} onClick={submit}>
+                Save draft
+              </Button>
+            </span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <ChangeList changes={draftChanges} />
+          {draftErrors.length > 0 && (
+            <ul className="text-xs text-destructive space-y-0.5">
+              {draftErrors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          )}
+          <Textarea
+            placeholder="Why these values are changing"
+            value={note}
+            onChange={event => setNote(event.target.value)}
+            rows={2}
+          />
+        </CardContent>
+      </Card>
+
+      {history.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">History</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Version</TableHead>
+                  <TableHead>Outcome</TableHead>
+                  <TableHead>Proposed</TableHead>
+                  <TableHead>Reviewed</TableHead>
+                  <TableHead>Note</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {history.map(row => (
+                  <TableRow key={row.id}>
+                    <TableCell className="font-mono text-xs">{layoutRulePackVersion(row)}</TableCell>
+                    <TableCell className={row.status === 'approved' ? 'text-emerald-700' : 'text-muted-foreground'}>{row.status}</TableCell>
+                    <TableCell>{formatDate(row.proposed_at)}</TableCell>
+                    <TableCell>{formatDate(row.approved_at)}</TableCell>
+                    <TableCell className="text-xs text-muted-foreground">{row.note ?? ''}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+/**
+ * Quoted vs actual margin analysis across every job with recorded actuals:
+ * per-job margins, then estimate error by production stage, cabinet type,
+ * board material and month. The rates themselves are retuned by the
+ * calibration proposals on the labour and material pricing screens.
+ */
+
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { supabase } from '@/integrations/supabase/client';
+import { Loader2 } from 'lucide-react';
+import {
+  buildMarginReport,
+  describeMissingActuals,
+  EstimateError,
+  MarginReport as MarginReportData,
+  quotedJobCost,
+  readJobActuals,
+} from '@/lib/trade/jobMargins';
+
+const AUD = (n: number) => new Intl.NumberFormat('en-AU', { style: 'currency', currency: 'AUD', maximumFractionDigits: 0 }).format(n);
+const pct = (n: number | null) => (n == null ? '—' : `${n > 0 ? '+' : ''}${(n * 100).toFixed(1)}%`);
+const errorClass = (n: number | null) => (n == null ? 'text-gray-400' : Math.abs(n) < 0.05 ? 'text-green-600' : Math.abs(n) < 0.15 ? 'text-amber-600' : 'text-red-500');
+
+function ErrorTable({ title, unit, rows }: { title: string; unit: 'h' | '$'; rows: EstimateError[] }) {
+  const fmt = (n: number) => (unit === 'h' ? `${n.toFixed(1)} h` : AUD(n));
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <p className="text-sm text-gray-400 text-center py-4">No actuals recorded yet.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-gray-500">
+                <th className="pb-2 font-medium" />
+                <th className="pb-2 font-medium text-right">Jobs</th>
+                <th className="pb-2 font-medium text-right">Quoted</th>
+                <th className="pb-2 font-medium text-right">Actual</th>
+                <th className="pb-2 font-medium text-right">Error</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.key} className="border-b last:border-0">
+                  <td className="py-2 font-medium text-gray-800 capitalize">{row.key}</td>
+                  <td className="py-2 text-right text-gray-700">{row.jobs}</td>
+                  <td className="py-2 text-right text-gray-700">{fmt(row.quoted)}</td>
+                  <td className="py-2 text-right text-gray-700">{fmt(row.actual)}</td>
+                  <td className={`py-2 text-right font-semibold ${errorClass(row.error)}`}>{pct(row.error)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function MarginReport() {
+  const [report, setReport] = useState<MarginReportData | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const { data: actuals, error } = await (supabase as any).from('job_actuals').select('*');
+        if (error) throw error;
+        const rows = (actuals ?? []) as Array<Record<string, unknown> & { job_id: string }>;
+        const { data: jobs, error: jobsError } = rows.length > 0
+          ? await supabase.from('jobs').select('id, job_number, name, design_data').in('id', rows.map(r => r.job_id))
+          : { data: [], error: null };
+        if (jobsError) throw jobsError;
+        const byId = new Map((jobs ?? []).map(j => [j.id, j]));
+        setReport(buildMarginReport(rows.flatMap(row => {
+          const job = byId.get(row.job_id);
+          if (!job) return [];
+          return [{
+            id: job.id,
+            label: `#${job.job_number} ${job.name}`,
+            quoted: quotedJobCost(job.design_data),
+            actuals: readJobActuals(row, job.id),
+          }];
+        })));
+      } catch (err) {
+        console.error('Margin report load failed:', err);
+        setReport(buildMarginReport([]));
+      }
+    })();
+  }, []);
+
+  if (!report) {
+    return (
+      <div className="py-6 flex items-center justify-center">
+        <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+      </div>
+    );
+  }
+
+  // Partial jobs go last: their actual margin is missing costs, so it would sort as a windfall.
+  const jobs = [...report.jobs].sort((a, b) => Number(!a.margin.actualsComplete) - Number(!b.margin.actualsComplete)
+    || a.margin.actualMargin - a.margin.quotedMargin - (b.margin.actualMargin - b.margin.quotedMargin));
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Quoted vs Actual Margin</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {jobs.length === 0 ? (
+            <p className="text-sm text-gray-400 text-center py-6">
+              No actual costs recorded yet. Enter invoices and labour hours on a job in production.
+            </p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-gray-500">
+                  <th className="pb-2 font-medium">Job</th>
+                  <th className="pb-2 font-medium text-right">Sell ex GST</th>
+                  <th className="pb-2 font-medium text-right">Quoted cost</th>
+                  <th className="pb-2 font-medium text-right">Actual cost</th>
+                  <th className="pb-2 font-medium text-right">Quoted margin</th>
+                  <th className="pb-2 font-medium text-right">Actual margin</th>
+                </tr>
+              </thead>
+              <tbody>
+                {jobs.map(({ id, label, margin }) => (
+                  <tr key={id} className="border-b last:border-0">
+                    <td className="py-2 font-medium text-gray-800">
+                      <Link to={`/admin/jobs/${id}`} className="hover:underline">{label}</Link>
+                    </td>
+                    <td className="py-2 text-right text-gray-700">{AUD(margin.sellExGst)}</td>
+                    <td className="py-2 text-right text-gray-700">{AUD(margin.quotedCost)}</td>
+                    <td className="py-2 text-right text-gray-700">{AUD(margin.actualCost)}</td>
+                    <td className="py-2 text-right text-gray-700">{pct(margin.quotedMarginPct)}</td>
+                    {margin.actualsComplete ? (
+                      <td className={`py-2 text-right font-semibold ${margin.actualMargin < margin.quotedMargin ? 'text-red-500' : 'text-green-600'}`}>
+                        {pct(margin.actualMarginPct)}
+                      </td>
+                    ) : (
+                      <td className="py-2 text-right text-gray-400" title={`Still waiting on ${describeMissingActuals(margin.missingActuals)}`}>
+                        {pct(margin.actualMarginPct)} <span className="text-xs">partial</span>
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <ErrorTable title="Build Hours by Stage" unit="h" rows={report.byStage} />
+        <ErrorTable title="Build Hours by Cabinet Type" unit="h" rows={report.byCabinetType} />
+        <ErrorTable title="Board Cost by Material" unit="$" rows={report.byMaterial} />
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Estimate Error by Month</CardTitle>
+            <p className="text-xs text-gray-500">Jobs with every quoted invoice and stage entered.</p>
+          </CardHeader>
+          <CardContent>
+            {report.byMonth.length === 0 ? (
+              <p className="text-sm text-gray-400 text-center py-4">No actuals recorded yet.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-gray-500">
+                    <th className="pb-2 font-medium">Month</th>
+                    <th className="pb-2 font-medium text-right">Jobs</th>
+                    <th className="pb-2 font-medium text-right">Cost error</th>
+                    <th className="pb-2 font-medium text-right">Hours error</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.byMonth.map(row => (
+                    <tr key={row.month} className="border-b last:border-0">
+                      <td className="py-2 font-medium text-gray-800">{row.month}</td>
+                      <td className="py-2 text-right text-gray-700">{row.jobs}</td>
+                      <td className={`py-2 text-right font-semibold ${errorClass(row.costError)}`}>{pct(row.costError)}</td>
+                      <td className={`py-2 text-right font-semibold ${errorClass(row.hoursError)}`}>{pct(row.hoursError)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+/**
+ * Review a Microvellum project XML sent back by the drafter and accept its
+ * changes into the job's trade rooms, entry by entry.
+ */
+
+import React, { useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Loader2, Upload } from 'lucide-react';
+import { addSystemNote } from '@/components/shared/JobNotes';
+import { fetchAllPricingRows } from '@/lib/pricing/fetchAllPricingRows';
+import type { TradeRoom } from '@/types/trade';
+import {
+  applyMicrovellumDiff,
+  diffMicrovellumProducts,
+  MvCatalogProduct,
+  MvDiff,
+  MvDiffEntry,
+  parseMicrovellumXml,
+} from '@/lib/trade/microvellumImport';
+
+interface MicrovellumImportReviewProps {
+  jobId: string;
+  designData: Record<string, unknown>;
+  disabled?: boolean;
+  onDesignDataChange: (designData: Record<string, unknown>) => void;
+}
+
+const KIND_STYLES: Record<MvDiffEntry['kind'], { label: string; className: string }> = {
+  changed: { label: 'Changed', className: 'bg-blue-100 text-blue-700' },
+  added: { label: 'Added', className: 'bg-green-100 text-green-700' },
+  removed: { label: 'Removed', className: 'bg-red-100 text-red-700' },
+};
+
+function entryTitle(entry: MvDiffEntry): string {
+  if (entry.kind === 'added') {
+    const p = entry.product;
+    return `${entry.productName || 'Product'} ${Math.round(p.width)} x ${Math.round(p.height)} x ${Math.round(p.depth)}`;
+  }
+  return `${entry.cabinetNumber} ${entry.productName}`;
+}
+
+export function MicrovellumImportReview({ jobId, designData, disabled, onDesignDataChange }: MicrovellumImportReviewProps) {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [reading, setReading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [fileName, setFileName] = useState('');
+  const [diff, setDiff] = useState<MvDiff | null>(null);
+  const [catalog, setCatalog] = useState<MvCatalogProduct[]>([]);
+  const [accepted, setAccepted] = useState<Set<string>>(new Set());
+
+  const rooms = (designData.tradeRooms as TradeRoom[] | undefined) ?? [];
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setReading(true);
+    try {
+      const products = parseMicrovellumXml(await file.text());
+      const rows = await fetchAllPricingRows<MvCatalogProduct>('microvellum_products');
+      const result = diffMicrovellumProducts(rooms, products, rows);
+      if (result.entries.length === 0) {
+        toast.success(`No differences — ${result.unchanged} product${result.unchanged !== 1 ? 's' : ''} match the job`);
+        return;
+      }
+      setCatalog(rows);
+      setFileName(file.name);
+      setAccepted(new Set(result.entries.map(entry => entry.id)));
+      setDiff(result);
+    } catch (err) {
+      console.error('Microvellum import failed:', err);
+      toast.error(err instanceof Error ? err.message : 'Could not read the Microvellum XML');
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const toggle = (id: string) => {
+    setAccepted(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const acceptChanges = async () => {
+    if (!diff || accepted.size === 0) return;
+    setSaving(true);
+    try {
+      const tradeRooms = applyMicrovellumDiff(rooms, diff.entries, accepted, { catalog });
+      const nextDesignData = { ...designData, tradeRooms };
+      const { error } = await supabase
+        .from('jobs')
+        .update({ design_data: nextDesignData as unknown as Json })
+        .eq('id', jobId);
+      if (error) throw error;
+
+      const taken = diff.entries.filter(entry => accepted.has(entry.id));
+      const count = (kind: MvDiffEntry['kind']) => taken.filter(entry => entry.kind === kind).length;
+      await addSystemNote(
+        jobId,
+        `Microvellum changes accepted from ${fileName}: ${count('changed')} changed, ${count('added')} added, ${count('removed')} removed.`,
+      );
+      onDesignDataChange(nextDesignData);
+      toast.success(`${taken.length} Microvellum change${taken.length !== 1 ? 's' : ''} accepted`);
+      setDiff(null);
+    } catch (err) {
+      console.error('Failed to save Microvellum changes:', err);
+      toast.error('Failed to save Microvellum changes');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <input ref={fileRef} type="file" accept=".xml,text/xml,application/xml" className="hidden" onChange={handleFile} />
+      <Button
+        className="w-full min-h-11"
+        variant="outline"
+        disabled={disabled || reading || rooms.length === 0}
+        onClick={() => fileRef.current?.click()}
+        title="Compare a Microvellum project XML with this job"
+      >
+        {reading ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Upload className="h-4 w-4 mr-2" />}
+        Import from Microvellum XML
+      </Button>
+
+      <Dialog open={!!diff} onOpenChange={open => { if (!open && !saving) setDiff(null); }}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Microvellum changes</DialogTitle>
+            <DialogDescription>
+              {fileName} — {diff?.entries.length ?? 0} difference{diff?.entries.length !== 1 ? 's' : ''}, {diff?.unchanged ?? 0} unchanged.
+              Untick anything the job should keep.
+            </DialogDescription>
+          </DialogHeader>
+
+          {diff && diff.warnings.length > 0 && (
+            <ul className="list-disc pl-5 text-xs text-amber-700 space-y-0.5">
+              {diff.warnings.map((w, i) => <li key={i}>{w}</li>)}
+            </ul>
+          )}
+
+          <div className="max-h-[55vh] overflow-y-auto divide-y border rounded-lg">
+            {diff?.entries.map(entry => (
+              <label key={entry.id} className="flex items-start gap-3 px-3 py-2 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  className="mt-1"
+                  checked={accepted.has(entry.id)}
+                  onChange={() => toggle(entry.id)}
+                />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className={`text-xs px-1.5 py-0.5 rounded ${KIND_STYLES[entry.kind].className}`}>
+                      {KIND_STYLES[entry.kind].label}
+                    </span>
+                    <span className="font-medium truncate">{entryTitle(entry)}</span>
+                    <span className="ml-auto text-xs text-gray-400">{entry.roomName}</span>
+                  </div>
+                  {entry.kind === 'changed' && (
+                    <ul className="mt-1 text-xs text-gray-600 space-y-0.5">
+                      {entry.changes.map(change => (
+                        <li key={change.field}>
+                          {change.label}: <span className="line-through text-gray-400">{change.from}</span> → {change.to}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </label>
+            ))}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDiff(null)} disabled={saving}>Cancel</Button>
+            <Button onClick={acceptChanges} disabled={saving || accepted.size === 0}>
+              {saving && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              Accept {accepted.size} change{accepted.size !== 1 ? 's' : ''}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,215 @@
+/**
+ * Supplier purchase orders for one job.
+ * Raising splits the job's ordering list by supplier onto this week's draft
+ * POs (shared with other jobs raised the same week); raising again replaces
+ * the job's share on open drafts and orders only what its sent POs do not
+ * already cover. Sent POs take partial receipts per line.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ShoppingCart } from 'lucide-react';
+import { addSystemNote } from '@/components/shared/JobNotes';
+import { exportPurchaseOrderPdf } from '@/lib/orderingListPdf';
+import type { PricingData, QuoteBOM } from '@/lib/pricing/types';
+import {
+  formatPoNumber,
+  mergeOrderLines,
+  orderJobIds,
+  orderTotal,
+  outstandingForJob,
+  PURCHASE_ORDER_STATUS_LABELS,
+  purchaseOrderCsv,
+  PurchaseOrderLine,
+  PurchaseOrderRow,
+  receiveOrder,
+  splitOrderingList,
+  weekStart,
+  withoutJob,
+} from '@/lib/purchaseOrders';
+
+interface PurchaseOrdersProps {
+  jobId: string;
+  quoteBOM: QuoteBOM | null;
+  pricingData: PricingData | undefined;
+}
+
+const AUD = (n: number) => new Intl.NumberFormat('en-AU', { style: 'currency', currency: 'AUD' }).format(n);
+
+export function PurchaseOrders({ jobId, quoteBOM, pricingData }: PurchaseOrdersProps) {
+  const [orders, setOrders] = useState<PurchaseOrderRow[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [receiving, setReceiving] = useState<PurchaseOrderRow | null>(null);
+  const [receipts, setReceipts] = useState<Record<string, string>>({});
+
+  const load = async () => {
+    const { data, error } = await (supabase as any)
+      .from('purchase_orders')
+      .select('*')
+      .contains('job_ids', [jobId])
+      .order('po_number', { ascending: false });
+    if (error) console.error('Failed to load purchase orders:', error);
+    else setOrders((data as PurchaseOrderRow[]) || []);
+  };
+
+  useEffect(() => {
+    load();
+  }, [jobId]);
+
+  const saveLines = async (order: Partial<PurchaseOrderRow> & { supplier: string }, lines: PurchaseOrderLine[]) => {
+    const table = (supabase as any).from('purchase_orders');
+    const fields = { lines, total: orderTotal(lines), job_ids: orderJobIds(lines) };
+    if (!order.id) {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { data, error } = await table
+        .insert({ supplier: order.supplier, week_start: order.week_start, created_by: user?.id ?? null, ...fields })
+        .select('po_number')
+        .single();
+      if (error) throw error;
+      return data.po_number as number;
+    }
+    const { error } = lines.length === 0
+      ? await table.delete().eq('id', order.id)
+      : await table.update(fields).eq('id', order.id);
+    if (error) throw error;
+    return order.po_number ?? null;
+  };
+
+  const raise = async () => {
+    if (!quoteBOM || !pricingData) return;
+    setBusy(true);
+    try {
+      // Lines already on sent or received POs for this job are not ordered again.
+      const { data: placed, error: placedError } = await (supabase as any)
+        .from('purchase_orders')
+        .select('status, lines')
+        .contains('job_ids', [jobId])
+        .neq('status', 'draft');
+      if (placedError) throw placedError;
+      const bySupplier = outstandingForJob(splitOrderingList(quoteBOM, pricingData, jobId), placed ?? [], jobId);
+      const week = weekStart(new Date());
+      const { data: drafts, error } = await (supabase as any).from('purchase_orders').select('*').eq('status', 'draft');
+      if (error) throw error;
+      const open = (drafts as PurchaseOrderRow[]) || [];
+
+      // Take this job off every open draft first so raising again never double-orders.
+      for (const draft of open.filter(d => d.job_ids.includes(jobId) && !(d.week_start === week && bySupplier.has(d.supplier)))) {
+        await saveLines(draft, withoutJob(draft.lines, jobId));
+      }
+      const raised: string[] = [];
+      for (const [supplier, lines] of bySupplier) {
+        const draft = open.find(d => d.supplier === supplier && d.week_start === week);
+        const poNumber = await saveLines(draft ?? { supplier, week_start: week }, mergeOrderLines(withoutJob(draft?.lines ?? [], jobId), lines));
+        if (poNumber) raised.push(`${formatPoNumber(poNumber)} ${supplier}`);
+      }
+      if (raised.length > 0) {
+        await addSystemNote(jobId, `Purchase orders raised: ${raised.join(', ')}.`);
+        toast.success(`${raised.length} purchase order${raised.length !== 1 ? 's' : ''} raised`);
+      } else {
+        toast.info('Everything on the ordering list is already on a sent purchase order');
+      }
+    } catch (err) {
+      console.error('Failed to raise purchase orders:', err);
+      toast.error('Failed to raise purchase orders');
+    } finally {
+      setBusy(false);
+      load();
+    }
+  };
+
+  const update = async (order: PurchaseOrderRow, fields: Partial<PurchaseOrderRow>) => {
+    const { error } = await (supabase as any).from('purchase_orders').update(fields).eq('id', order.id);
+    if (error) toast.error(`Failed to update ${formatPoNumber(order.po_number)}`);
+    load();
+  };
+
+  const exportPdf = async (order: PurchaseOrderRow) => {
+    const { data } = await supabase.from('jobs').select('id, job_number, name').in('id', order.job_ids);
+    exportPurchaseOrderPdf(order, Object.fromEntries((data ?? []).map(j => [j.id, `#${j.job_number} ${j.name}`])));
+  };
+
+  const exportCsv = (order: PurchaseOrderRow) => {
+    const url = URL.createObjectURL(new Blob([purchaseOrderCsv(order)], { type: 'text/csv' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${formatPoNumber(order.po_number)}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const startReceiving = (order: PurchaseOrderRow) => {
+    setReceiving(order);
+    setReceipts(Object.fromEntries(order.lines.map(l => [l.key, String(Math.max(0, l.quantity - l.received))])));
+  };
+
+  const confirmReceipt = async () => {
+    if (!receiving) return;
+    const next = receiveOrder(receiving.lines, Object.fromEntries(Object.entries(receipts).map(([k, v]) => [k, Number(v) || 0])));
+    await update(receiving, { ...next, ...(next.status === 'received' ? { received_at: new Date().toISOString() } : {}) });
+    setReceiving(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2"><ShoppingCart className="h-4 w-4" />Purchase Orders</span>
+          <Button size="sm" variant="outline" onClick={raise} disabled={busy || !quoteBOM || !pricingData}>
+            {orders.length > 0 ? 'Re-raise' : 'Raise POs'}
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="divide-y text-sm">
+        {orders.length === 0 && <p className="text-gray-400">No purchase orders yet.</p>}
+        {orders.map(order => (
+          <div key={order.id} className="flex flex-wrap items-center gap-2 py-2">
+            <span className="font-medium">{formatPoNumber(order.po_number)}</span>
+            <span className="flex-1 min-w-0 truncate">{order.supplier}</span>
+            <span className="text-xs text-gray-500">
+              {PURCHASE_ORDER_STATUS_LABELS[order.status]} · {order.job_ids.length} job{order.job_ids.length !== 1 ? 's' : ''} · {AUD(order.total)}
+            </span>
+            <Button size="sm" variant="ghost" onClick={() => exportPdf(order)}>PDF</Button>
+            <Button size="sm" variant="ghost" onClick={() => exportCsv(order)}>CSV</Button>
+            {order.status === 'draft' && (
+              <Button size="sm" variant="outline" onClick={() => update(order, { status: 'sent', sent_at: new Date().toISOString() })}>Mark sent</Button>
+            )}
+            {(order.status === 'sent' || order.status === 'partial') && (
+              <Button size="sm" variant="outline" onClick={() => startReceiving(order)}>Receive</Button>
+            )}
+          </div>
+        ))}
+      </CardContent>
+
+      <Dialog open={!!receiving} onOpenChange={open => { if (!open) setReceiving(null); }}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Receive {receiving && formatPoNumber(receiving.po_number)} — {receiving?.supplier}</DialogTitle>
+          </DialogHeader>
+          <div className="max-h-[55vh] overflow-y-auto divide-y text-sm">
+            {receiving?.lines.map(line => (
+              <label key={line.key} className="flex items-center gap-3 py-1.5">
+                <span className="flex-1 min-w-0 truncate">{line.itemCode} {line.description}</span>
+                <span className="text-xs text-gray-500">{line.received}/{line.quantity} {line.unit}</span>
+                <Input
+                  type="number"
+                  min={0}
+                  className="w-20 h-8"
+                  value={receipts[line.key] ?? ''}
+                  onChange={e => setReceipts(r => ({ ...r, [line.key]: e.target.value }))}
+                />
+              </label>
+            ))}
+          </div>
+          <div className="flex justify-end">
+            <Button onClick={confirmReceipt}>Record delivery</Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,84 @@
+/**
+ * Customer quote acceptances for one job: who signed which revision, when and
+ * from where, and the deposit reference. Opens the signed PDF stored by
+ * accept-quote, or rebuilds it from the record when the attach step failed.
+ */
+
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { FileSignature } from 'lucide-react';
+import { QuoteAcceptanceRow, quoteLineSummary } from '@/lib/homeowner/quoteAcceptance';
+import { buildQuoteAcceptancePdf, quoteAcceptancePdfFilename } from '@/lib/quoteAcceptancePdf';
+
+const AUD = (n: number) => new Intl.NumberFormat('en-AU', { style: 'currency', currency: 'AUD' }).format(n);
+
+interface QuoteAcceptancesProps {
+  job: { id: string; job_number: number; name: string };
+}
+
+export function QuoteAcceptances({ job }: QuoteAcceptancesProps) {
+  const [acceptances, setAcceptances] = useState<QuoteAcceptanceRow[]>([]);
+
+  useEffect(() => {
+    (supabase as any)
+      .from('quote_acceptances')
+      .select('*')
+      .eq('job_id', job.id)
+      .order('accepted_at', { ascending: false })
+      .then(({ data, error }: { data: QuoteAcceptanceRow[] | null; error: unknown }) => {
+        if (error) console.error('Failed to load quote acceptances:', error);
+        setAcceptances(data || []);
+      });
+  }, [job.id]);
+
+  const openPdf = async (acceptance: QuoteAcceptanceRow) => {
+    if (acceptance.pdf_path) {
+      const { data, error } = await supabase.storage.from('job-documents').createSignedUrl(acceptance.pdf_path, 300);
+      if (error || !data) toast.error('Failed to open signed PDF');
+      else window.open(data.signedUrl, '_blank', 'noopener');
+      return;
+    }
+    const { data: revision } = await (supabase as any)
+      .from('job_revisions')
+      .select('design_data')
+      .eq('id', acceptance.revision_id)
+      .maybeSingle();
+    buildQuoteAcceptancePdf(job, acceptance, quoteLineSummary(revision?.design_data ?? {}))
+      .save(quoteAcceptancePdfFilename(job.job_number, acceptance.revision_number));
+  };
+
+  if (acceptances.length === 0) return null;
+
+  return (
+    <Card>
+      <CardContent className="pt-5 space-y-3">
+        <h3 className="font-semibold text-sm flex items-center gap-2">
+          <FileSignature className="h-4 w-4" />
+          Quote acceptance
+        </h3>
+        {acceptances.map(acceptance => (
+          <div key={acceptance.id} className="text-sm space-y-0.5 border-b last:border-0 pb-2">
+            <p className="font-medium">
+              Revision {acceptance.revision_number} — {acceptance.signer_name}
+            </p>
+            <p className="text-xs text-gray-500">
+              {new Date(acceptance.accepted_at).toLocaleString('en-AU')} · {acceptance.signature_kind} signature · IP {acceptance.signer_ip ?? 'unknown'}
+            </p>
+            <p className="text-xs text-gray-500">
+              {AUD(Number(acceptance.total))} total ·{' '}
+              {acceptance.payment_reference
+                ? `${AUD(Number(acceptance.deposit_amount))} deposit paid (${acceptance.payment_provider} ${acceptance.payment_reference})`
+                : `${AUD(Number(acceptance.deposit_amount))} deposit to invoice`}
+            </p>
+            <Button variant="link" size="sm" className="h-auto p-0" onClick={() => openPdf(acceptance)}>
+              {acceptance.pdf_path ? 'Open signed PDF' : 'Rebuild signed PDF'}
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
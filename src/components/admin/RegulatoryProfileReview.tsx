@@ -0,0 +1,353 @@
+/**
+ * Reviews the regulatory profile for each jurisdiction (every Australian
+ * state and territory, and NZ). A reviewer copies the seed draft into
+ * `ai_regulatory_profiles`, checks each value and clause against the
+ * standards copy, and approves it with their name and the effective dates;
+ * approval records the content hash. Regulated rules stay `pending` for a
+ * jurisdiction until it has an approved profile (see
+ * src/lib/designV2/regulatoryProfiles.ts).
+ */
+
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Check, ShieldAlert, ShieldCheck, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  nextRegulatoryProfileVersion,
+  REGULATORY_PROFILE_DRAFTS,
+  regulatoryApprovalErrors,
+  regulatoryProfileContentHash,
+  regulatoryProfileFromRow,
+  signRegulatoryProfile,
+  type RegulatoryProfileDraft,
+  type RegulatoryProfileRow,
+  type RegulatoryProfileRowParameter,
+} from '@/lib/designV2';
+
+const formatDate = (iso: string | null) => (iso ? new Date(iso).toLocaleDateString('en-AU') : '—');
+const today = () => new Date().toISOString().slice(0, 10);
+
+function DraftReview({ row, rows, onChanged }: { row: RegulatoryProfileRow; rows: RegulatoryProfileRow[]; onChanged: () => void }) {
+  const [parameters, setParameters] = useState<RegulatoryProfileRowParameter[]>(row.rules);
+  const [effectiveFrom, setEffectiveFrom] = useState(row.effective_from);
+  const [effectiveTo, setEffectiveTo] = useState(row.effective_to ?? '');
+  const [approver, setApprover] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const edited: RegulatoryProfileRow = { ...row, rules: parameters, effective_from: effectiveFrom, effective_to: effectiveTo || null };
+  const errors = regulatoryApprovalErrors(edited, approver);
+
+  const setParameter = (index: number, patch: Partial<RegulatoryProfileRowParameter>) => {
+    // Any change to a value or clause needs verifying again.
+    setParameters(current => current.map((p, i) => (i === index ? { ...p, bowerApproved: false, ...patch } : p)));
+  };
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      const { error } = await (supabase as any).from('ai_regulatory_profiles').update({
+        rules: parameters,
+        effective_from: effectiveFrom,
+        effective_to: effectiveTo || null,
+      }).eq('id', row.id).eq('status', 'draft');
+      if (error) throw error;
+      toast.success('Draft saved');
+      onChanged();
+    } catch (error) {
+      console.error('Failed to save regulatory profile draft:', error);
+      toast.error('Failed to save regulatory profile draft');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const approve = async () => {
+    setSaving(true);
+    try {
+      const approvedAt = new Date();
+      const profile = await signRegulatoryProfile(edited, {
+        version: nextRegulatoryProfileVersion(rows, row.profile_key),
+        qualifiedApprover: approver,
+        approvedAt,
+      });
+      const { data: { user } } = await supabase.auth.getUser();
+      const { error } = await (supabase as any).from('ai_regulatory_profiles').update({
+        status: 'approved',
+        version: profile.version,
+        rules: parameters.map(p => ({ ...p, clause: p.clause.trim() })),
+        effective_from: profile.effectiveFrom,
+        effective_to: profile.effectiveTo,
+        qualified_approver: profile.qualifiedApprover,
+        content_hash: profile.contentHash,
+        approved_by: user?.id ?? null,
+        approved_at: approvedAt.toISOString(),
+      }).eq('id', row.id).eq('status', 'draft');
+      if (error) throw error;
+      toast.success(`${profile.profileId}@${profile.version} approved`);
+      onChanged();
+    } catch (error) {
+      console.error('Failed to approve regulatory profile:', error);
+      toast.error('Failed to approve regulatory profile');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const discard = async () => {
+    setSaving(true);
+    try {
+      const { error } = await (supabase as any).from('ai_regulatory_profiles').delete().eq('id', row.id).eq('status', 'draft');
+      if (error) throw error;
+      onChanged();
+    } catch (error) {
+      console.error('Failed to discard regulatory profile draft:', error);
+      toast.error('Failed to discard regulatory profile draft');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Parameter</TableHead>
+            <TableHead className="w-32">Value</TableHead>
+            <TableHead>Clause</TableHead>
+            <TableHead className="w-20">Verified</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {parameters.map((p, index) => (
+            <TableRow key={p.parameterId}>
+              <TableCell>
+                <div className="font-mono text-xs">{p.parameterId}</div>
+                <div className="text-xs text-muted-foreground max-w-xs">{p.source}</div>
+              </TableCell>
+              <TableCell>
+                {typeof p.value === 'number' ? (
+                  <Input
+                    type="number"
+                    min={1}
+                    value={Number.isNaN(p.value) ? '' : p.value}
+                    onChange={event => setParameter(index, { value: event.target.value === '' ? NaN : Number(event.target.value) })}
+                    className="h-8"
+                  />
+                ) : typeof p.value === 'boolean' ? (
+                  <Checkbox checked={p.value} onCheckedChange={checked => setParameter(index, { value: checked === true })} />
+                ) : (
+                  <span className="text-xs">{p.value}</span>
+                )}
+              </TableCell>
+              <TableCell>
+                <Input value={p.clause} onChange={event => setParameter(index, { clause: event.target.value })} className="h-8 text-xs" />
+              </TableCell>
+              <TableCell>
+                <Checkbox
+                  checked={p.bowerApproved}
+                  onCheckedChange={checked => setParameters(current => current.map((q, i) => (i === index ? { ...q, bowerApproved: checked === true } : q)))}
+                />
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <div className="grid gap-3 sm:grid-cols-3">
+        <label className="text-xs space-y-1">
+          <span className="text-muted-foreground">Effective from</span>
+          <Input type="date" value={effectiveFrom} onChange={event => setEffectiveFrom(event.target.value)} className="h-8" />
+        </label>
+        <label className="text-xs space-y-1">
+          <span className="text-muted-foreground">Effective to (optional)</span>
+          <Input type="date" value={effectiveTo} onChange={event => setEffectiveTo(event.target.value)} className="h-8" />
+        </label>
+        <label className="text-xs space-y-1">
+          <span className="text-muted-foreground">Qualified reviewer</span>
+          <Input placeholder="Name and licence" value={approver} onChange={event => setApprover(event.target.value)} className="h-8" />
+        </label>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="text-xs text-amber-700 space-y-0.5">
+          {errors.map(error => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button size="sm" variant="ghost" disabled={saving} onClick={discard}>
+          <Trash2 className="h-4 w-4 mr-1" /> Discard draft
+        </Button>
+        <Button size="sm" variant="outline" disabled={saving} onClick={save}>Save draft</Button>
+        <Button size="sm" disabled={saving || errors.length > 0} onClick={approve}>
+          <Check className="h-4 w-4 mr-1" /> Approve
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function JurisdictionCard({ draft, rows, verifiedIds, onChanged }: {
+  draft: RegulatoryProfileDraft;
+  rows: RegulatoryProfileRow[];
+  verifiedIds: Set<string>;
+  onChanged: () => void;
+}) {
+  const [saving, setSaving] = useState(false);
+  const own = rows.filter(row => row.profile_key === draft.profileId);
+  const approved = own.filter(row => row.status === 'approved').sort((a, b) => b.effective_from.localeCompare(a.effective_from));
+  const draftRow = own.find(row => row.status === 'draft');
+
+  const startReview = async () => {
+    setSaving(true);
+    try {
+      // A revision starts from the profile in force; the first review from the seed values.
+      const basis = approved[0];
+      const { error } = await (supabase as any).from('ai_regulatory_profiles').insert({
+        profile_key: draft.profileId,
+        version: `${nextRegulatoryProfileVersion(rows, draft.profileId)}-draft`,
+        jurisdiction: draft.jurisdiction,
+        project_scopes: basis?.project_scopes ?? draft.projectScopes,
+        standards_editions: basis?.standards_editions ?? draft.standardsEditions,
+        rules: (basis?.rules ?? draft.seedParameters).map(p => ({ ...p, bowerApproved: false })),
+        status: 'draft',
+        effective_from: today(),
+      });
+      if (error) throw error;
+      onChanged();
+    } catch (error) {
+      console.error('Failed to start regulatory review:', error);
+      toast.error('Failed to start regulatory review');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const retire = async (row: RegulatoryProfileRow) => {
+    setSaving(true);
+    try {
+      const { error } = await (supabase as any).from('ai_regulatory_profiles').update({ status: 'retired' })
+        .eq('id', row.id).eq('status', 'approved');
+      if (error) throw error;
+      toast.success(`${row.profile_key}@${row.version} retired`);
+      onChanged();
+    } catch (error) {
+      console.error('Failed to retire regulatory profile:', error);
+      toast.error('Failed to retire regulatory profile');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className={approved.length > 0 ? undefined : 'border-amber-200'}>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between text-base">
+          <span className="flex items-center gap-2">
+            {approved.length > 0
+              ? <ShieldCheck className="h-4 w-4 text-emerald-700" />
+              : <ShieldAlert className="h-4 w-4 text-amber-700" />}
+            {draft.jurisdiction}
+            <span className="font-mono text-xs text-muted-foreground">{draft.profileId}</span>
+          </span>
+          {!draftRow && (
+            <Button size="sm" variant="outline" disabled={saving} onClick={startReview}>
+              {approved.length > 0 ? 'Revise' : 'Start review'}
+            </Button>
+          )}
+        </CardTitle>
+        <p className="text-xs text-muted-foreground">
+          Standards: {Object.entries(draftRow?.standards_editions ?? draft.standardsEditions).map(([k, v]) => `${k}:${v}`).join(' · ')}
+          {approved.length === 0 && ` — regulated rules stay “pending” here until approved. ${draft.approvalRequired}`}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {approved.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Version</TableHead>
+                <TableHead>Reviewer</TableHead>
+                <TableHead>Approved</TableHead>
+                <TableHead>Effective</TableHead>
+                <TableHead>Content hash</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {approved.map(row => (
+                <TableRow key={row.id}>
+                  <TableCell className="font-mono text-xs">{row.version}</TableCell>
+                  <TableCell className="text-xs">{row.qualified_approver}</TableCell>
+                  <TableCell className="text-xs">{formatDate(row.approved_at)}</TableCell>
+                  <TableCell className="text-xs">{formatDate(row.effective_from)} – {row.effective_to ? formatDate(row.effective_to) : 'open'}</TableCell>
+                  <TableCell className="text-xs">
+                    <span className="font-mono">{row.content_hash?.slice(0, 12)}</span>{' '}
+                    {verifiedIds.has(row.id)
+                      ? <span className="text-emerald-700">matches</span>
+                      : <span className="text-destructive">does not match — not used</span>}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button size="sm" variant="ghost" disabled={saving} onClick={() => retire(row)}>Retire</Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+        {draftRow && <DraftReview key={draftRow.id} row={draftRow} rows={rows} onChanged={onChanged} />}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function RegulatoryProfileReview() {
+  const [loading, setLoading] = useState(true);
+  const [rows, setRows] = useState<RegulatoryProfileRow[]>([]);
+  const [verifiedIds, setVerifiedIds] = useState<Set<string>>(new Set());
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await (supabase as any)
+        .from('ai_regulatory_profiles')
+        .select('*')
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      const loaded = (data ?? []) as RegulatoryProfileRow[];
+      const verified = await Promise.all(loaded.map(async row => {
+        const profile = regulatoryProfileFromRow(row);
+        return profile && (await regulatoryProfileContentHash(profile)) === profile.contentHash.toLowerCase() ? row.id : null;
+      }));
+      setRows(loaded);
+      setVerifiedIds(new Set(verified.filter((id): id is string => id !== null)));
+    } catch (error) {
+      console.error('Failed to load regulatory profiles:', error);
+      toast.error('Failed to load regulatory profiles');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  if (loading) {
+    return <p className="text-center py-4 text-sm text-muted-foreground">Loading regulatory profiles...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {REGULATORY_PROFILE_DRAFTS.map(draft => (
+        <JurisdictionCard key={draft.profileId} draft={draft} rows={rows} verifiedIds={verifiedIds} onChanged={load} />
+      ))}
+    </div>
+  );
+}
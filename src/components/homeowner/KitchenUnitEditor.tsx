@@ -23,7 +23,9 @@ import { UnifiedScene } from '@/components/3d/UnifiedScene';
 import { BENCHTOP_OPTIONS, DEFAULT_GLOBAL_DIMENSIONS, FINISH_OPTIONS } from '@/constants';
 import { useApplianceCatalog } from '@/hooks/useApplianceCatalog';
 import { useCatalog } from '@/hooks/useCatalog';
-import { evaluateDesign } from '@/lib/designV2';
+import { useLayoutRulePack } from '@/hooks/useLayoutRulePack';
+import { useRegulatoryProfiles } from '@/hooks/useRegulatoryProfiles';
+import { evaluateDesign, type DesignBriefV2 } from '@/lib/designV2';
 import { compileSpec, type DesignBrief, type KitchenSpec, type SegmentRole } from '@/lib/layout';
 import { ROLE_PRODUCTS } from '@/lib/layout/catalogRoles';
 import {
@@ -53,6 +55,7 @@ interface KitchenUnitEditorProps {
   spec: KitchenSpec;
   brief: DesignBrief;
   chosenAppliances: Record<string, string>;
+  projectContext: DesignBriefV2['projectContext'];
   onOpenChange: (open: boolean) => void;
   onSave: (spec: KitchenSpec, changeCount: number) => void;
 }
@@ -175,6 +178,7 @@ export default function KitchenUnitEditor({
   spec,
   brief,
   chosenAppliances,
+  projectContext,
   onOpenChange,
   onSave,
 }: KitchenUnitEditorProps) {
@@ -195,10 +199,12 @@ export default function KitchenUnitEditor({
     setSelectedRef(null);
   }, [open, spec]);
 
+  const { rulePack } = useLayoutRulePack();
+  const { approvedProfiles } = useRegulatoryProfiles();
   const compiled = useMemo(() => compileSpec(draft, brief.room), [draft, brief.room]);
   const evaluation = useMemo(
-    () => evaluateDesign(compiled, brief.room, brief, draft),
-    [brief, compiled, draft],
+    () => evaluateDesign(compiled, brief.room, brief, draft, { rulePack, projectContext, approvedProfiles }),
+    [approvedProfiles, brief, compiled, draft, projectContext, rulePack],
   );
   const blockingErrors = evaluation.violations.filter(violation => violation.severity === 'error');
   const { products: applianceProducts } = useApplianceCatalog({ activeOnly: true });
@@ -0,0 +1,350 @@
+/**
+ * Quote review, e-signature and deposit for the public quote page. Loads the
+ * job's latest revision through accept-quote, lets the customer agree to the
+ * terms for that revision, sign (drawn or typed) and pay the deposit, then
+ * attaches the signed PDF to the job.
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { CheckCircle2, Download, Eraser, FileSignature, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { supabase } from '@/integrations/supabase/client';
+import { getSupabaseFunctionErrorMessage } from '@/lib/supabaseFunctionError';
+import { getPaymentProvider } from '@/lib/payments';
+import { buildQuoteAcceptancePdf, quoteAcceptancePdfFilename } from '@/lib/quoteAcceptancePdf';
+import {
+  QUOTE_TERMS,
+  QUOTE_TERMS_VERSION,
+  QuoteAcceptanceRow,
+  QuoteReview,
+  QuoteSignature,
+  depositAmount,
+  quoteLineSummary,
+  signatureProblem,
+} from '@/lib/homeowner/quoteAcceptance';
+
+const AUD = (n: number) => new Intl.NumberFormat('en-AU', { style: 'currency', currency: 'AUD' }).format(n);
+
+const ERROR_MESSAGES: Record<string, string> = {
+  quote_changed: 'This quote was updated while you were reviewing it. Reload the page to see the latest version.',
+  already_accepted: 'This quote has already been accepted.',
+  not_acceptable: 'This quote can no longer be accepted online. Please contact us.',
+  payment_not_verified: 'We could not confirm your deposit payment. Please contact us before trying again.',
+  rate_limited: 'Too many attempts. Please wait a few minutes and try again.',
+};
+
+function SignaturePad({ onChange }: { onChange: (dataUrl: string | null) => void }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawing = useRef(false);
+  const [empty, setEmpty] = useState(true);
+
+  const point = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return {
+      x: (event.clientX - rect.left) * (event.currentTarget.width / rect.width),
+      y: (event.clientY - rect.top) * (event.currentTarget.height / rect.height),
+    };
+  };
+
+  const start = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    drawing.current = true;
+    const { x, y } = point(event);
+    ctx.lineWidth = 2.5;
+    ctx.lineCap = 'round';
+    ctx.strokeStyle = '#0f172a';
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+  };
+
+  const move = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!drawing.current || !ctx) return;
+    const { x, y } = point(event);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+  };
+
+  const end = () => {
+    if (!drawing.current) return;
+    drawing.current = false;
+    setEmpty(false);
+    onChange(canvasRef.current?.toDataURL('image/png') ?? null);
+  };
+
+  const clear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setEmpty(true);
+    onChange(null);
+  };
+
+  return (
+    <div className="space-y-1">
+      <canvas
+        ref={canvasRef}
+        width={560}
+        height={180}
+        className="w-full h-32 rounded-lg border border-dashed border-gray-300 bg-white touch-none cursor-crosshair"
+        onPointerDown={start}
+        onPointerMove={move}
+        onPointerUp={end}
+        onPointerLeave={end}
+        aria-label="Signature pad"
+      />
+      <div className="flex justify-between text-xs text-gray-400">
+        <span>{empty ? 'Sign with your finger or mouse' : 'Signed'}</span>
+        <button type="button" onClick={clear} className="inline-flex items-center gap-1 hover:text-gray-600">
+          <Eraser className="w-3 h-3" /> Clear
+        </button>
+      </div>
+    </div>
+  );
+}
+
+interface QuoteAcceptanceProps {
+  jobId: string;
+  /** Called once the job has moved to approved. */
+  onAccepted: () => void;
+}
+
+export function QuoteAcceptance({ jobId, onAccepted }: QuoteAcceptanceProps) {
+  const [review, setReview] = useState<QuoteReview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [agreed, setAgreed] = useState(false);
+  const [signerName, setSignerName] = useState('');
+  const [mode, setMode] = useState<'drawn' | 'typed'>('drawn');
+  const [drawn, setDrawn] = useState<string | null>(null);
+  const [typed, setTyped] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  /** The full record, only in the session that signed it. */
+  const [signed, setSigned] = useState<QuoteAcceptanceRow | null>(null);
+  const provider = useMemo(() => getPaymentProvider(), []);
+
+  const load = useCallback(async () => {
+    const { data, error } = await supabase.functions.invoke('accept-quote', { body: { action: 'review', jobId } });
+    if (error) console.error('Failed to load quote for acceptance:', error);
+    setReview(error ? null : (data as QuoteReview));
+    setLoading(false);
+  }, [jobId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const lines = useMemo(() => quoteLineSummary(review?.revision?.design_data ?? {}), [review]);
+
+  const downloadPdf = (acceptance: QuoteAcceptanceRow) => {
+    if (!review) return;
+    buildQuoteAcceptancePdf(review.job, acceptance, lines)
+      .save(quoteAcceptancePdfFilename(review.job.job_number, acceptance.revision_number));
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="w-5 h-5 animate-spin text-amber-500" />
+      </div>
+    );
+  }
+  if (!review?.revision) return null;
+
+  // A job sent back and re-quoted is acceptable again; otherwise show the
+  // standing acceptance.
+  if (!review.acceptable && review.acceptance) {
+    const acceptance = review.acceptance;
+    return (
+      <div className="rounded-xl border border-green-200 bg-green-50 p-4 mb-6 text-sm text-green-800">
+        <div className="flex items-center gap-2 font-semibold mb-1">
+          <CheckCircle2 className="w-4 h-4" />
+          Quote accepted
+        </div>
+        <p className="opacity-90">
+          Revision {acceptance.revision_number} signed by {acceptance.signer_name} on{' '}
+          {new Date(acceptance.accepted_at).toLocaleString('en-AU')}.
+        </p>
+        {signed ? (
+          <button
+            type="button"
+            onClick={() => downloadPdf(signed)}
+            className="mt-2 inline-flex items-center gap-1.5 font-medium hover:underline"
+          >
+            <Download className="w-4 h-4" /> Download signed copy
+          </button>
+        ) : acceptance.pdfUrl && (
+          <a
+            href={acceptance.pdfUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="mt-2 inline-flex items-center gap-1.5 font-medium hover:underline"
+          >
+            <Download className="w-4 h-4" /> Download signed copy
+          </a>
+        )}
+      </div>
+    );
+  }
+  if (!review.acceptable) return null;
+
+  const { revision } = review;
+  const total = revision.total ?? 0;
+  const deposit = depositAmount(total);
+  const signature: QuoteSignature | null = mode === 'drawn'
+    ? (drawn ? { kind: 'drawn', dataUrl: drawn } : null)
+    : (typed.trim() ? { kind: 'typed', text: typed } : null);
+  const problem = !agreed ? 'Accept the terms to continue' : signatureProblem(signerName, signature);
+
+  const submit = async () => {
+    if (problem || !signature) {
+      toast.error(problem ?? 'Sign to continue');
+      return;
+    }
+    setSubmitting(true);
+    try {
+      let payment: { provider: string; reference: string; amount: number } | undefined;
+      if (provider) {
+        const result = await provider.collectDeposit({
+          jobId,
+          revisionId: revision.id,
+          amount: deposit,
+          currency: 'AUD',
+          description: `Deposit — quote #${review.job.job_number} revision ${revision.revision_number}`,
+          payerName: signerName.trim(),
+        });
+        if (result.ok === false) {
+          toast.error(result.message);
+          return;
+        }
+        payment = { provider: result.provider, reference: result.reference, amount: result.amount };
+      }
+
+      const { data, error } = await supabase.functions.invoke('accept-quote', {
+        body: {
+          action: 'accept',
+          jobId,
+          revisionId: revision.id,
+          termsVersion: QUOTE_TERMS_VERSION,
+          signerName: signerName.trim(),
+          signature,
+          payment,
+        },
+      });
+      if (error) {
+        const code = await getSupabaseFunctionErrorMessage(error, 'accept_failed');
+        toast.error(ERROR_MESSAGES[code] ?? 'Could not accept the quote. Please try again or contact us.');
+        if (code === 'quote_changed') load();
+        return;
+      }
+      const acceptance = (data as { acceptance: QuoteAcceptanceRow }).acceptance;
+
+      // The acceptance is already recorded; a failed attach is logged and the
+      // office can regenerate the PDF from the record.
+      const pdf = buildQuoteAcceptancePdf(review.job, acceptance, lines);
+      const pdfBase64 = pdf.output('datauristring').split(',')[1];
+      const { error: attachError } = await supabase.functions.invoke('accept-quote', {
+        body: { action: 'attach', jobId, acceptanceId: acceptance.id, pdfBase64 },
+      });
+      if (attachError) console.error('Failed to attach signed quote PDF:', attachError);
+
+      setSigned(acceptance);
+      setReview({ ...review, acceptance: { ...acceptance, pdfUrl: null }, acceptable: false });
+      toast.success('Quote accepted — thank you!');
+      onAccepted();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="border border-purple-200 rounded-xl p-4 mb-6 space-y-4">
+      <div className="flex items-center gap-2 font-semibold text-purple-800">
+        <FileSignature className="w-4 h-4" />
+        Review and accept your quote
+      </div>
+
+      <div>
+        <p className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2">
+          Quote revision {revision.revision_number} · {new Date(revision.created_at).toLocaleDateString('en-AU')}
+        </p>
+        <div className="space-y-1 text-sm">
+          {lines.map((line, i) => (
+            <div key={i} className="flex justify-between gap-3">
+              <span>
+                {line.label}
+                {line.detail && <span className="text-gray-400"> · {line.detail}</span>}
+              </span>
+              {line.amount !== null && <span className="text-gray-600">{AUD(line.amount)}</span>}
+            </div>
+          ))}
+          <div className="flex justify-between pt-2 mt-1 border-t font-semibold">
+            <span>Total (inc. GST)</span>
+            <span>{AUD(total)}</span>
+          </div>
+          <div className="flex justify-between text-gray-600">
+            <span>Deposit due now ({Math.round(review.depositPct * 100)}%)</span>
+            <span>{AUD(deposit)}</span>
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <p className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2">Terms</p>
+        <ol className="list-decimal pl-4 space-y-1 text-xs text-gray-600 max-h-40 overflow-y-auto">
+          {QUOTE_TERMS.map((term, i) => <li key={i}>{term}</li>)}
+        </ol>
+        <label className="flex items-start gap-2 mt-3 text-sm">
+          <Checkbox checked={agreed} onCheckedChange={checked => setAgreed(checked === true)} className="mt-0.5" />
+          <span>I accept quote revision {revision.revision_number} and these terms.</span>
+        </label>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="signer-name">Full name</Label>
+        <Input id="signer-name" value={signerName} onChange={e => setSignerName(e.target.value)} autoComplete="name" />
+        <div className="flex gap-2 text-xs">
+          {(['drawn', 'typed'] as const).map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setMode(option)}
+              className={`px-2.5 py-1 rounded-full border ${mode === option ? 'bg-slate-900 text-white border-slate-900' : 'text-gray-500'}`}
+            >
+              {option === 'drawn' ? 'Draw signature' : 'Type signature'}
+            </button>
+          ))}
+        </div>
+        {mode === 'drawn' ? (
+          <SignaturePad onChange={setDrawn} />
+        ) : (
+          <Input
+            value={typed}
+            onChange={e => setTyped(e.target.value)}
+            placeholder="Type your name as your signature"
+            className="font-serif italic text-xl h-12"
+            aria-label="Typed signature"
+          />
+        )}
+      </div>
+
+      {provider?.testMode && (
+        <p className="text-xs text-amber-700 bg-amber-50 rounded-md px-3 py-2">
+          Payments are in test mode — no card will be charged.
+        </p>
+      )}
+
+      <Button className="w-full" onClick={submit} disabled={submitting || !!problem}>
+        {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+        {provider ? `${provider.label} · ${AUD(deposit)}` : 'Accept and sign'}
+      </Button>
+      {!provider && (
+        <p className="text-xs text-gray-400 text-center">We'll send an invoice for the {AUD(deposit)} deposit.</p>
+      )}
+    </div>
+  );
+}
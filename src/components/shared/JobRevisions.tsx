@@ -0,0 +1,210 @@
+/**
+ * Job revision history.
+ * Used in AdminJobDetail and trade JobEditor. Lists the immutable revisions
+ * of a job; any revision can be viewed read-only, restored (which records a
+ * new revision) or compared with another one cabinet by cabinet.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { History, RefreshCw, RotateCcw } from 'lucide-react';
+import { TRADE_JOB_STATUS_LABELS, isTradeJobStatus } from '@/types/trade';
+import { diffRevisions, JobRevisionRow, recordJobRevision, RevisionCabinetChange } from '@/lib/trade/jobRevisions';
+import { addSystemNote } from './JobNotes';
+
+interface JobRevisionsProps {
+  jobId: string;
+  /** Restoring rewrites the job's design; trade users may only do it on drafts. */
+  canRestore: boolean;
+  onRestored?: (designData: Record<string, unknown>) => void;
+}
+
+const KIND_STYLES: Record<RevisionCabinetChange['kind'], string> = {
+  added: 'bg-green-100 text-green-700',
+  removed: 'bg-red-100 text-red-700',
+  changed: 'bg-blue-100 text-blue-700',
+  repriced: 'bg-gray-100 text-gray-600',
+};
+
+const money = (value: number | null) =>
+  value === null ? '—' : new Intl.NumberFormat('en-AU', { style: 'currency', currency: 'AUD' }).format(value);
+const signedMoney = (value: number | null) => (value === null ? '' : `${value > 0 ? '+' : ''}${money(value)}`);
+const statusLabel = (status: string) => (isTradeJobStatus(status) ? TRADE_JOB_STATUS_LABELS[status] : status);
+
+export function JobRevisions({ jobId, canRestore, onRestored }: JobRevisionsProps) {
+  const queryClient = useQueryClient();
+  const [revisions, setRevisions] = useState<JobRevisionRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [viewing, setViewing] = useState<JobRevisionRow | null>(null);
+  const [comparing, setComparing] = useState<[JobRevisionRow, JobRevisionRow] | null>(null);
+  const [restoring, setRestoring] = useState(false);
+
+  const load = async () => {
+    if (!jobId || jobId === 'new') { setLoading(false); return; }
+    setLoading(true);
+    const { data, error } = await (supabase as any)
+      .from('job_revisions')
+      .select('*')
+      .eq('job_id', jobId)
+      .order('revision_number', { ascending: false });
+    if (error) console.error('Failed to load job revisions:', error);
+    else setRevisions((data as JobRevisionRow[]) || []);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    load();
+  }, [jobId]);
+
+  const toggle = (id: string) =>
+    setSelected(prev => (prev.includes(id) ? prev.filter(x => x !== id) : [...prev.slice(-1), id]));
+
+  const compare = () => {
+    const picked = revisions.filter(r => selected.includes(r.id)).sort((a, b) => a.revision_number - b.revision_number);
+    if (picked.length === 2) setComparing([picked[0], picked[1]]);
+  };
+
+  const diff = useMemo(
+    () => (comparing ? diffRevisions(comparing[0].design_data, comparing[1].design_data) : null),
+    [comparing],
+  );
+
+  const restore = async (revision: JobRevisionRow) => {
+    if (!window.confirm(`Restore revision ${revision.revision_number}? The current design is kept as a revision first.`)) return;
+    setRestoring(true);
+    try {
+      await recordJobRevision(jobId, 'Before restore');
+      const designData = { ...revision.design_data, lastSyncedAt: new Date().toISOString() };
+      const { error } = await supabase
+        .from('jobs')
+        .update({ design_data: designData as unknown as Json })
+        .eq('id', jobId);
+      if (error) throw error;
+      await recordJobRevision(jobId, `Restored revision ${revision.revision_number}`);
+      await addSystemNote(jobId, `Design restored from revision ${revision.revision_number}.`);
+      await queryClient.invalidateQueries({ queryKey: ['trade-job', jobId] });
+      onRestored?.(designData);
+      setViewing(null);
+      toast.success(`Revision ${revision.revision_number} restored`);
+      await load();
+    } catch (err) {
+      console.error('Failed to restore revision:', err);
+      toast.error('Failed to restore revision');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-sm font-medium text-gray-700">
+          <History className="w-4 h-4" />
+          Revisions
+          {revisions.length > 0 && <span className="text-xs text-gray-400 font-normal">({revisions.length})</span>}
+        </div>
+        <div className="flex items-center gap-2">
+          <Button size="sm" variant="outline" disabled={selected.length !== 2} onClick={compare}>
+            Compare selected
+          </Button>
+          <button onClick={load} className="text-gray-400 hover:text-gray-600 transition-colors" title="Refresh">
+            <RefreshCw className={`w-3.5 h-3.5 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </div>
+
+      {!loading && revisions.length === 0 ? (
+        <p className="text-sm text-gray-400 py-4 text-center">No revisions yet. One is kept each time the job is saved or changes status.</p>
+      ) : (
+        <div className="max-h-80 overflow-y-auto divide-y border rounded-lg">
+          {revisions.map(rev => (
+            <label key={rev.id} className="flex items-center gap-3 px-3 py-2 text-sm cursor-pointer">
+              <input type="checkbox" checked={selected.includes(rev.id)} onChange={() => toggle(rev.id)} />
+              <span className="font-medium text-gray-800 w-8">r{rev.revision_number}</span>
+              <span className="flex-1 min-w-0 truncate text-gray-700">
+                {rev.reason || statusLabel(rev.status)}
+                <span className="text-xs text-gray-400"> · {statusLabel(rev.status)} · {rev.created_by_name ?? 'Unknown'} · {new Date(rev.created_at).toLocaleString('en-AU')}</span>
+              </span>
+              <span className="text-xs text-gray-500">{money(rev.total)}</span>
+              {rev.pricing_hash && <code className="text-[10px] text-gray-400" title="Pricing hash">{rev.pricing_hash.slice(0, 8)}</code>}
+              <Button size="sm" variant="ghost" onClick={(e) => { e.preventDefault(); setViewing(rev); }}>View</Button>
+            </label>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={!!viewing} onOpenChange={open => { if (!open && !restoring) setViewing(null); }}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Revision {viewing?.revision_number} — {viewing && statusLabel(viewing.status)}</DialogTitle>
+            <DialogDescription>
+              {viewing?.reason} · {viewing?.created_by_name ?? 'Unknown'} · {viewing && new Date(viewing.created_at).toLocaleString('en-AU')} · Total {money(viewing?.total ?? null)}
+              {viewing?.pricing_hash ? ` · Pricing ${viewing.pricing_hash}` : ''}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="max-h-[55vh] overflow-y-auto space-y-3 text-sm">
+            {(viewing?.design_data.tradeRooms ?? []).map(room => (
+              <div key={room.id}>
+                <p className="font-medium text-gray-800">{room.name}</p>
+                <table className="w-full text-xs">
+                  <tbody className="divide-y">
+                    {room.cabinets.map(cab => (
+                      <tr key={cab.instanceId}>
+                        <td className="py-1 w-12 font-medium">{cab.cabinetNumber}</td>
+                        <td>{cab.productName}</td>
+                        <td className="text-gray-500">{cab.dimensions.width} × {cab.dimensions.height} × {cab.dimensions.depth}</td>
+                        <td className="text-gray-500">{cab.materials?.exteriorFinish}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+          </div>
+          {canRestore && viewing && (
+            <div className="flex justify-end">
+              <Button onClick={() => restore(viewing)} disabled={restoring}>
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Restore this revision
+              </Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!comparing} onOpenChange={open => { if (!open) setComparing(null); }}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Revision {comparing?.[0].revision_number} → {comparing?.[1].revision_number}</DialogTitle>
+            <DialogDescription>
+              {diff?.cabinets.length ?? 0} cabinet{diff?.cabinets.length !== 1 ? 's' : ''} differ, {diff?.unchanged ?? 0} unchanged ·
+              Total {money(diff?.totalFrom ?? null)} → {money(diff?.totalTo ?? null)} {signedMoney(diff?.totalDelta ?? null)}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="max-h-[55vh] overflow-y-auto divide-y border rounded-lg text-sm">
+            {diff?.cabinets.map(c => (
+              <div key={c.key} className="flex items-start gap-3 px-3 py-2">
+                <span className={`text-xs px-1.5 py-0.5 rounded capitalize ${KIND_STYLES[c.kind]}`}>{c.kind}</span>
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium truncate">{c.cabinetNumber} {c.productName} <span className="text-xs text-gray-400">{c.roomName}</span></p>
+                  {c.changes.length > 0 && <p className="text-xs text-gray-600">{c.changes.join(' · ')}</p>}
+                </div>
+                <span className="text-xs text-right whitespace-nowrap">
+                  {money(c.priceFrom)} → {money(c.priceTo)}
+                  <br />
+                  <span className={c.priceDelta && c.priceDelta > 0 ? 'text-red-600' : 'text-green-700'}>{signedMoney(c.priceDelta)}</span>
+                </span>
+              </div>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
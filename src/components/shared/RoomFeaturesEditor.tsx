@@ -13,24 +13,52 @@
  * Shared by the homeowner wizard (Step 1) and the trade RoomSetupWizard.
  * Emits core `Opening[]` + `ServicePoint[]` (src/types.ts) — the same
  * RoomSpec the layout engine and AI designer consume.
+ *
+ * Polygon rooms: pass `polygon` and the diagram draws that outline, with
+ * features placed on its walls (P0, P1, …). With `onPolygonChange` it also
+ * lists the walls by length and direction so the outline itself can be
+ * edited; features follow their wall when the outline changes.
+ *
+ * Structure: pass `obstructions` and a third chip group places columns,
+ * chimney breasts, bulkheads, beams and sloped ceilings as plan rectangles
+ * (x from the left wall, z from the back wall, like a floor service). Ceiling
+ * types carry the clear height beneath them; a sloped ceiling also names the
+ * side where it comes down lowest.
+ *
+ * Wet zone: pass `wetZoneConflicts` (sinkWetZone, from the planned design)
+ * and power points inside the sink's wet zone are ringed on the diagram; the
+ * detail panel says how far to move one and applies the move on request.
  */
 
 import React, { useId, useRef, useState } from 'react';
 import {
-  AppWindow, DoorOpen, Droplet, Droplets, Fan, Flame, MoveHorizontal, Pencil, Trash2, X, Zap,
+  AlertTriangle, AppWindow, DoorOpen, Droplet, Droplets, Fan, Flame, Heater, Minus, MoveHorizontal, Pencil, Plus,
+  RectangleHorizontal, Square, Trash2, TriangleRight, X, Zap,
   type LucideIcon,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { cn } from '@/lib/utils';
-import type { Opening, ServicePoint, WallId } from '@/types';
+import type { Obstruction, Opening, PolygonWallId, RoomPolygonCorner, ServicePoint, WallId } from '@/types';
+import {
+  normalizeRoomPolygon,
+  pointInPolygon,
+  polygonFromRoom,
+  polygonFromWallRun,
+  validateRoomPolygon,
+  wallRunFromPolygon,
+  type PolygonWallRunEntry,
+  type Vec2,
+  type WallSegment,
+} from '@/lib/layout/polygon';
+import type { SinkWetZoneConflict } from '@/lib/layout/sinkWetZone';
 import {
   resolveCabinetPreviewRuns,
   type CabinetPreviewWallRanges,
 } from './roomFeaturesPreview';
 
-type FeatureKind = Opening['type'] | ServicePoint['type'];
+type FeatureKind = Opening['type'] | ServicePoint['type'] | Obstruction['type'];
 type ServicePlacement = NonNullable<ServicePoint['placement']>;
 
 /** Cabinet layout preference — drawn as shaded runs so the diagram responds
@@ -44,7 +72,9 @@ interface Props {
   depthMm: number;
   openings: Opening[];
   services: ServicePoint[];
-  onChange: (patch: { openings?: Opening[]; services?: ServicePoint[] }) => void;
+  /** columns, bulkheads and the like; the Structure chips show only when provided */
+  obstructions?: Obstruction[];
+  onChange: (patch: { openings?: Opening[]; services?: ServicePoint[]; obstructions?: Obstruction[] }) => void;
   /** when provided, the selected cabinet layout is sketched into the diagram */
   cabinetLayout?: CabinetLayoutPreview;
   /** exact selected walls override the generic layout sketch */
@@ -53,6 +83,12 @@ interface Props {
   cabinetWallRanges?: CabinetPreviewWallRanges;
   /** hide the built-in heading when the host page provides its own */
   showHeading?: boolean;
+  /** Polygon room outline; `widthMm`/`depthMm` are then its bounding box */
+  polygon?: RoomPolygonCorner[];
+  /** when provided, the polygon's walls can be edited by length and direction */
+  onPolygonChange?: (outline: { polygon: RoomPolygonCorner[]; widthMm: number; depthMm: number }) => void;
+  /** power points inside the planned sink's wet zone, with the move that clears each */
+  wetZoneConflicts?: SinkWetZoneConflict[];
   className?: string;
 }
 
@@ -73,7 +109,29 @@ const SERVICE_KINDS: {
   { id: 'hood-duct', label: 'Existing extraction vent', color: '#7c3aed', icon: Fan, defaultHeight: 2100, allowFloor: false },
 ];
 
+const OBSTRUCTION_KINDS: {
+  id: Obstruction['type']; label: string; color: string; icon: LucideIcon;
+  defaults: Pick<Obstruction, 'widthMm' | 'depthMm' | 'undersideMm' | 'lowSide'>;
+}[] = [
+  { id: 'column', label: 'Column', color: '#475569', icon: Square, defaults: { widthMm: 400, depthMm: 400 } },
+  { id: 'chimney-breast', label: 'Chimney breast', color: '#78716c', icon: Heater, defaults: { widthMm: 1200, depthMm: 400 } },
+  { id: 'bulkhead', label: 'Bulkhead', color: '#64748b', icon: RectangleHorizontal, defaults: { widthMm: 1800, depthMm: 600, undersideMm: 2100 } },
+  { id: 'beam', label: 'Beam', color: '#57534e', icon: Minus, defaults: { widthMm: 2400, depthMm: 300, undersideMm: 2200 } },
+  { id: 'sloped-ceiling', label: 'Sloped ceiling', color: '#94a3b8', icon: TriangleRight, defaults: { widthMm: 2400, depthMm: 1200, undersideMm: 1800, lowSide: 'N' } },
+];
+const LOW_SIDES: { id: NonNullable<Obstruction['lowSide']>; label: string }[] = [
+  { id: 'N', label: 'Back' },
+  { id: 'E', label: 'Right' },
+  { id: 'S', label: 'Front' },
+  { id: 'W', label: 'Left' },
+];
+
 const WALL_LABELS: Record<WallId, string> = { N: 'back wall', E: 'right wall', S: 'front wall', W: 'left wall' };
+/** "Wall 3" for P2 — polygon walls are numbered from 1 for people. */
+const polygonWallNumber = (wall: WallId) => Number(wall.slice(1)) + 1;
+const wallLabel = (wall: WallId) => WALL_LABELS[wall] ?? `wall ${polygonWallNumber(wall)}`;
+const wallButtonLabel = (wall: WallId) =>
+  wall === 'N' ? 'Back' : wall === 'E' ? 'Right' : wall === 'S' ? 'Front' : wall === 'W' ? 'Left' : `Wall ${polygonWallNumber(wall)}`;
 const SWINGS: { id: NonNullable<Opening['swing']>; label: string }[] = [
   { id: 'in-left', label: 'Opens in, hinge left' },
   { id: 'in-right', label: 'Opens in, hinge right' },
@@ -132,6 +190,107 @@ function NumField({
   );
 }
 
+/** Nearest polygon wall to a plan point (mm): the wall, the offset along it
+ *  and the distance, multiplied by `scale` (pass 1 for mm). */
+function nearestPolygonWall(p: Vec2, segments: WallSegment[], scale: number): { wall: WallId; offsetMm: number; dist: number } {
+  let best = { wall: segments[0].id as WallId, offsetMm: 0, dist: Infinity };
+  for (const seg of segments) {
+    const dx = (seg.b.x - seg.a.x) / seg.length;
+    const dz = (seg.b.z - seg.a.z) / seg.length;
+    const t = Math.max(0, Math.min(seg.length, (p.x - seg.a.x) * dx + (p.z - seg.a.z) * dz));
+    const dist = Math.hypot(p.x - (seg.a.x + dx * t), p.z - (seg.a.z + dz * t)) * scale;
+    if (dist < best.dist) best = { wall: seg.id as WallId, offsetMm: t, dist };
+  }
+  return best;
+}
+
+/**
+ * Polygon room walls as a table: each wall's length and the direction it
+ * runs, walking clockwise from wall 1. The last wall closes the outline, so
+ * it is derived rather than typed. Walls can be split in two or removed.
+ */
+function PolygonWallsTable({
+  polygon, onChange,
+}: {
+  polygon: RoomPolygonCorner[];
+  onChange: NonNullable<Props['onPolygonChange']>;
+}) {
+  const [problem, setProblem] = useState<string | null>(null);
+  const run = wallRunFromPolygon(polygon);
+
+  const commitOutline = (outline: { polygon: RoomPolygonCorner[]; width: number; depth: number }) => {
+    const issue = validateRoomPolygon(outline.polygon);
+    setProblem(issue);
+    if (!issue) onChange({ polygon: outline.polygon, widthMm: outline.width, depthMm: outline.depth });
+  };
+  const commit = (next: PolygonWallRunEntry[]) => commitOutline(polygonFromWallRun(next));
+  const setWall = (index: number, patch: Partial<PolygonWallRunEntry>) =>
+    commit(run.map((wall, i) => (i === index ? { ...wall, ...patch } : wall)));
+  const splitWall = (index: number) => {
+    const used = new Set(polygon.map(c => Number(c.id.slice(1))));
+    let n = 0;
+    while (used.has(n)) n++;
+    const half = Math.round(run[index].lengthMm / 2);
+    const next = [...run];
+    next.splice(index, 1, { ...run[index], lengthMm: half }, { id: `P${n}`, lengthMm: run[index].lengthMm - half, headingDeg: run[index].headingDeg });
+    commit(next);
+  };
+  // Dropping a wall's start corner lets the wall before it run straight on
+  const removeWall = (index: number) => commitOutline(normalizeRoomPolygon(polygon.filter((_, i) => i !== index)));
+
+  return (
+    <div className="rounded-xl border border-slate-200 bg-slate-50 p-3 space-y-2">
+      <div>
+        <p className="text-xs font-medium text-slate-700">Room walls</p>
+        <p className="text-[11px] leading-snug text-slate-500">
+          Walk the room clockwise from wall 1. Direction: 0° runs right along the back, 90° runs toward the front.
+        </p>
+      </div>
+      {run.map((wall, i) => {
+        const closing = i === run.length - 1;
+        return (
+          <div key={wall.id} className="grid grid-cols-[3.5rem_1fr_1fr_auto] items-end gap-2">
+            <p className="pb-2 text-xs font-medium text-slate-600">Wall {polygonWallNumber(wall.id)}</p>
+            {closing ? (
+              <p className="col-span-2 pb-2 text-[11px] text-slate-500">
+                {wall.lengthMm}mm at {wall.headingDeg}° — closes the room
+              </p>
+            ) : (
+              <>
+                <NumField
+                  key={`${wall.id}-len-${wall.lengthMm}`}
+                  label="Length (mm)" value={wall.lengthMm} min={100} step={10}
+                  onCommit={v => setWall(i, { lengthMm: Math.max(100, Math.min(50000, v)) })}
+                />
+                <NumField
+                  key={`${wall.id}-dir-${wall.headingDeg}`}
+                  label="Direction (°)" value={wall.headingDeg} min={0} max={359} step={1}
+                  onCommit={v => setWall(i, { headingDeg: ((v % 360) + 360) % 360 })}
+                />
+              </>
+            )}
+            <div className="flex pb-1">
+              <button
+                type="button" onClick={() => splitWall(i)}
+                className="p-1 text-slate-400 hover:text-slate-700" aria-label={`Split wall ${polygonWallNumber(wall.id)}`}
+              >
+                <Plus className="h-3.5 w-3.5" />
+              </button>
+              <button
+                type="button" onClick={() => removeWall(i)} disabled={run.length <= 3}
+                className="p-1 text-slate-400 hover:text-red-600 disabled:opacity-30" aria-label={`Remove wall ${polygonWallNumber(wall.id)}`}
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          </div>
+        );
+      })}
+      {problem && <p className="text-[11px] text-red-600" role="alert">{problem} — change not applied.</p>}
+    </div>
+  );
+}
+
 const VIEW = 300;
 const PAD = 34;
 
@@ -140,17 +299,21 @@ export function RoomFeaturesEditor({
   depthMm,
   openings,
   services,
+  obstructions,
   onChange,
   cabinetLayout,
   cabinetWalls,
   cabinetWallRanges,
   showHeading = true,
+  polygon,
+  onPolygonChange,
+  wetZoneConflicts,
   className,
 }: Props) {
   const [mode, setMode] = useState<FeatureKind>('door');
   const [servicePlacement, setServicePlacement] = useState<ServicePlacement>('wall');
   const [selectedId, setSelectedId] = useState<string | null>(null);
-  const dragRef = useRef<{ id: string; kind: 'opening' | 'service'; moved: boolean } | null>(null);
+  const dragRef = useRef<{ id: string; kind: 'opening' | 'service' | 'obstruction'; moved: boolean } | null>(null);
   const svgRef = useRef<SVGSVGElement>(null);
 
   const scale = (VIEW - PAD * 2) / Math.max(widthMm, depthMm);
@@ -159,9 +322,29 @@ export function RoomFeaturesEditor({
   const x0 = (VIEW - rw) / 2;
   const y0 = (VIEW - rd) / 2;
 
-  const wallLen = (wall: WallId) => (wall === 'N' || wall === 'S' ? widthMm : depthMm);
+  // Polygon rooms: walls are the outline's segments, in plan mm.
+  const segments: WallSegment[] | null = polygon && polygon.length >= 3
+    ? polygonFromRoom({ width: widthMm, depth: depthMm, height: 0, shape: 'Polygon', cutoutWidth: 0, cutoutDepth: 0, polygon }).segments
+    : null;
+  const segmentFor = (wall: WallId) => segments?.find(seg => seg.id === wall);
+  const walls: WallId[] = segments ? segments.map(seg => seg.id as PolygonWallId) : (Object.keys(WALL_LABELS) as WallId[]);
+  const alongSegment = (seg: WallSegment, t: number): Vec2 => ({
+    x: seg.a.x + ((seg.b.x - seg.a.x) / seg.length) * t,
+    z: seg.a.z + ((seg.b.z - seg.a.z) / seg.length) * t,
+  });
+  const toSvg = (p: Vec2) => ({ x: x0 + p.x * scale, y: y0 + p.z * scale });
+
+  const wallLen = (wall: WallId) => {
+    if (segments) return Math.floor(segmentFor(wall)?.length ?? 0);
+    return wall === 'N' || wall === 'S' ? widthMm : depthMm;
+  };
   const isOpeningKind = (k: FeatureKind): k is Opening['type'] =>
     k === 'door' || k === 'window' || k === 'walkway';
+  const isObstructionKind = (k: FeatureKind): k is Obstruction['type'] =>
+    OBSTRUCTION_KINDS.some(kind => kind.id === k);
+  const isServiceKind = (k: FeatureKind): k is ServicePoint['type'] =>
+    !isOpeningKind(k) && !isObstructionKind(k);
+  const structure = obstructions ?? [];
 
   const svgPoint = (e: { clientX: number; clientY: number }) => {
     const rect = svgRef.current!.getBoundingClientRect();
@@ -173,6 +356,7 @@ export function RoomFeaturesEditor({
 
   /** nearest wall + offset (mm from left corner facing the wall from inside) */
   const nearestWall = (px: number, py: number): { wall: WallId; offsetMm: number; dist: number } => {
+    if (segments) return nearestPolygonWall({ x: (px - x0) / scale, z: (py - y0) / scale }, segments, scale);
     const cx = Math.max(x0, Math.min(x0 + rw, px));
     const cy = Math.max(y0, Math.min(y0 + rd, py));
     const cands: { wall: WallId; dist: number; offsetMm: number }[] = [
@@ -184,6 +368,10 @@ export function RoomFeaturesEditor({
     return cands.sort((a, b) => a.dist - b.dist)[0];
   };
 
+  const insideRoom = (px: number, py: number) => segments
+    ? pointInPolygon({ x: (px - x0) / scale, z: (py - y0) / scale }, { vertices: segments.map(seg => seg.a), segments, area: 0 })
+    : px >= x0 && px <= x0 + rw && py >= y0 && py <= y0 + rd;
+
   const roomPoint = (px: number, py: number) => ({
     xMm: snap(Math.max(0, Math.min(widthMm, (px - x0) / scale))),
     zMm: snap(Math.max(0, Math.min(depthMm, (py - y0) / scale))),
@@ -194,47 +382,78 @@ export function RoomFeaturesEditor({
    * outside its wall, which the room contract rejects at quote time. Re-clamp
    * every feature whenever the dimensions change.
    */
+  const polygonKey = polygon ? JSON.stringify(polygon) : '';
+  const previousSegments = useRef<WallSegment[] | null>(segments);
   React.useEffect(() => {
-    const clampedOpenings = openings.map(o => {
-      const len = o.wall === 'N' || o.wall === 'S' ? widthMm : depthMm;
+    // A polygon edit can remove or shorten a wall. A feature that no longer
+    // fits its wall moves to the nearest point of the new outline first.
+    const before = previousSegments.current;
+    previousSegments.current = segments;
+    const rehome = <T extends Opening | ServicePoint>(f: T, span: number): T => {
+      if (!segments) return f;
+      const seg = segmentFor(f.wall);
+      if (seg && f.offsetMm + span <= seg.length) return f;
+      const old = before?.find(candidate => candidate.id === f.wall);
+      if (!old && seg) return f;
+      const hit = nearestPolygonWall(old ? alongSegment(old, f.offsetMm) : segments[0].a, segments, 1);
+      return { ...f, wall: hit.wall, offsetMm: snap(hit.offsetMm) };
+    };
+    const clampedOpenings = openings.map(original => {
+      const o = rehome(original, original.widthMm);
+      const len = wallLen(o.wall);
       const width = Math.min(o.widthMm, len);
       const offsetMm = Math.max(0, Math.min(len - width, o.offsetMm));
-      return width === o.widthMm && offsetMm === o.offsetMm ? o : { ...o, widthMm: width, offsetMm };
+      return o === original && width === o.widthMm && offsetMm === o.offsetMm ? o : { ...o, widthMm: width, offsetMm };
     });
-    const clampedServices = services.map(s => {
-      const len = s.wall === 'N' || s.wall === 'S' ? widthMm : depthMm;
+    const clampedServices = services.map(original => {
+      const s = original.placement === 'floor' ? original : rehome(original, 0);
+      const len = wallLen(s.wall);
       const offsetMm = Math.max(0, Math.min(len, s.offsetMm));
       const xMm = s.xMm === undefined ? undefined : Math.max(0, Math.min(widthMm, s.xMm));
       const zMm = s.zMm === undefined ? undefined : Math.max(0, Math.min(depthMm, s.zMm));
-      return offsetMm === s.offsetMm && xMm === s.xMm && zMm === s.zMm
+      return s === original && offsetMm === s.offsetMm && xMm === s.xMm && zMm === s.zMm
         ? s
         : { ...s, offsetMm, ...(xMm === undefined ? {} : { xMm }), ...(zMm === undefined ? {} : { zMm }) };
     });
+    const clampedStructure = structure.map(o => {
+      const w = Math.min(o.widthMm, widthMm);
+      const d = Math.min(o.depthMm, depthMm);
+      const xMm = Math.max(0, Math.min(widthMm - w, o.xMm));
+      const zMm = Math.max(0, Math.min(depthMm - d, o.zMm));
+      return w === o.widthMm && d === o.depthMm && xMm === o.xMm && zMm === o.zMm
+        ? o
+        : { ...o, widthMm: w, depthMm: d, xMm, zMm };
+    });
     const openingsChanged = clampedOpenings.some((o, i) => o !== openings[i]);
     const servicesChanged = clampedServices.some((s, i) => s !== services[i]);
-    if (openingsChanged || servicesChanged) {
+    const structureChanged = clampedStructure.some((o, i) => o !== structure[i]);
+    if (openingsChanged || servicesChanged || structureChanged) {
       onChange({
         ...(openingsChanged ? { openings: clampedOpenings } : {}),
         ...(servicesChanged ? { services: clampedServices } : {}),
+        ...(structureChanged ? { obstructions: clampedStructure } : {}),
       });
     }
     // Dimensions are the trigger; feature edits clamp themselves at the setter.
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [widthMm, depthMm]);
+  }, [widthMm, depthMm, polygonKey]);
 
   const serviceKind = (type: ServicePoint['type']) => SERVICE_KINDS.find(kind => kind.id === type)!;
-  const modeAllowsFloor = !isOpeningKind(mode) && serviceKind(mode).allowFloor;
+  const modeAllowsFloor = isServiceKind(mode) && serviceKind(mode).allowFloor;
 
   // ── mutations ──
   const updateOpening = (id: string, patch: Partial<Opening>) =>
     onChange({ openings: openings.map(o => (o.id === id ? { ...o, ...patch } : o)) });
   const updateService = (id: string, patch: Partial<ServicePoint>) =>
     onChange({ services: services.map(s => (s.id === id ? { ...s, ...patch } : s)) });
+  const updateObstruction = (id: string, patch: Partial<Obstruction>) =>
+    onChange({ obstructions: structure.map(o => (o.id === id ? { ...o, ...patch } : o)) });
   const removeFeature = (id: string) => {
     setSelectedId(cur => (cur === id ? null : cur));
     onChange({
       openings: openings.filter(o => o.id !== id),
       services: services.filter(s => s.id !== id),
+      ...(obstructions ? { obstructions: obstructions.filter(o => o.id !== id) } : {}),
     });
   };
 
@@ -246,7 +465,7 @@ export function RoomFeaturesEditor({
       const opening: Opening = { id: nextId('op'), wall, type: mode, offsetMm: start, widthMm: w, ...kind.defaults };
       onChange({ openings: [...openings, opening] });
       setSelectedId(opening.id);
-    } else {
+    } else if (isServiceKind(mode)) {
       const kind = SERVICE_KINDS.find(k => k.id === mode)!;
       const service: ServicePoint = {
         id: nextId('sv'), wall, type: mode,
@@ -259,8 +478,34 @@ export function RoomFeaturesEditor({
     }
   };
 
+  /** Centre of a `w` × `d` footprint at a diagram point, kept inside the room. */
+  const footprintAt = (px: number, py: number, w: number, d: number) => {
+    const point = roomPoint(px, py);
+    return {
+      xMm: snap(Math.max(0, Math.min(widthMm - w, point.xMm - w / 2))),
+      zMm: snap(Math.max(0, Math.min(depthMm - d, point.zMm - d / 2))),
+    };
+  };
+
+  const addObstruction = (px: number, py: number) => {
+    if (!isObstructionKind(mode)) return;
+    const kind = OBSTRUCTION_KINDS.find(k => k.id === mode)!;
+    const w = Math.min(kind.defaults.widthMm, widthMm);
+    const d = Math.min(kind.defaults.depthMm, depthMm);
+    const obstruction: Obstruction = {
+      id: nextId('ob'),
+      type: mode,
+      ...kind.defaults,
+      widthMm: w,
+      depthMm: d,
+      ...footprintAt(px, py, w, d),
+    };
+    onChange({ obstructions: [...structure, obstruction] });
+    setSelectedId(obstruction.id);
+  };
+
   const addOnFloor = (px: number, py: number) => {
-    if (isOpeningKind(mode) || !modeAllowsFloor) return;
+    if (!isServiceKind(mode) || !modeAllowsFloor) return;
     const point = roomPoint(px, py);
     const service: ServicePoint = {
       id: nextId('sv'),
@@ -279,8 +524,12 @@ export function RoomFeaturesEditor({
     if (placement === 'floor') {
       if (!serviceKind(service.type).allowFloor) return;
       const inset = Math.min(300, widthMm / 4, depthMm / 4);
+      const seg = segmentFor(service.wall);
+      const onWall = seg && alongSegment(seg, service.offsetMm);
       const point = service.placement === 'floor'
         ? { xMm: service.xMm ?? widthMm / 2, zMm: service.zMm ?? depthMm / 2 }
+        : seg
+          ? { xMm: snap(onWall.x + seg.normal.x * inset), zMm: snap(onWall.z + seg.normal.z * inset) }
         : service.wall === 'N'
           ? { xMm: service.offsetMm, zMm: inset }
           : service.wall === 'S'
@@ -294,7 +543,7 @@ export function RoomFeaturesEditor({
 
     const xMm = service.xMm ?? widthMm / 2;
     const zMm = service.zMm ?? depthMm / 2;
-    const nearest = [
+    const nearest = segments ? nearestPolygonWall({ x: xMm, z: zMm }, segments, 1) : [
       { wall: 'N' as const, dist: zMm, offsetMm: xMm },
       { wall: 'S' as const, dist: depthMm - zMm, offsetMm: widthMm - xMm },
       { wall: 'W' as const, dist: xMm, offsetMm: depthMm - zMm },
@@ -311,7 +560,7 @@ export function RoomFeaturesEditor({
   };
 
   // ── drag to move (pointer events cover mouse + touch) ──
-  const startDrag = (e: React.PointerEvent, id: string, kind: 'opening' | 'service') => {
+  const startDrag = (e: React.PointerEvent, id: string, kind: 'opening' | 'service' | 'obstruction') => {
     e.stopPropagation();
     dragRef.current = { id, kind, moved: false };
     setSelectedId(id);
@@ -323,6 +572,11 @@ export function RoomFeaturesEditor({
     if (!drag) return;
     drag.moved = true;
     const { px, py } = svgPoint(e);
+    if (drag.kind === 'obstruction') {
+      const o = structure.find(x => x.id === drag.id);
+      if (o) updateObstruction(drag.id, footprintAt(px, py, o.widthMm, o.depthMm));
+      return;
+    }
     const hit = nearestWall(px, py);
     if (drag.kind === 'opening') {
       const o = openings.find(x => x.id === drag.id);
@@ -348,9 +602,13 @@ export function RoomFeaturesEditor({
   const onSvgPointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
     // features handle their own pointerdown (startDrag); this handles empty wall taps
     const { px, py } = svgPoint(e);
-    const floorMode = !isOpeningKind(mode) && servicePlacement === 'floor' && modeAllowsFloor;
-    const insideRoom = px >= x0 && px <= x0 + rw && py >= y0 && py <= y0 + rd;
-    if (floorMode && insideRoom) {
+    if (isObstructionKind(mode)) {
+      if (insideRoom(px, py)) addObstruction(px, py);
+      else setSelectedId(null);
+      return;
+    }
+    const floorMode = isServiceKind(mode) && servicePlacement === 'floor' && modeAllowsFloor;
+    if (floorMode && insideRoom(px, py)) {
       addOnFloor(px, py);
       return;
     }
@@ -367,11 +625,19 @@ export function RoomFeaturesEditor({
     const c = OPENING_KINDS.find(k => k.id === o.type)?.color ?? '#888';
     const w = o.widthMm * scale;
     const t = o.offsetMm * scale;
+    const seg = segmentFor(o.wall);
+    if (seg) {
+      // drawn along +x from the opening's start, then turned onto the wall
+      const start = toSvg(alongSegment(seg, o.offsetMm));
+      const angle = (Math.atan2(seg.b.z - seg.a.z, seg.b.x - seg.a.x) * 180) / Math.PI;
+      return { x: start.x, y: start.y - 4, w, h: 8, color: c, transform: `rotate(${angle} ${start.x} ${start.y})` };
+    }
     switch (o.wall) {
       case 'N': return { x: x0 + t, y: y0 - 4, w, h: 8, color: c };
       case 'S': return { x: x0 + rw - t - w, y: y0 + rd - 4, w, h: 8, color: c };
       case 'W': return { x: x0 - 4, y: y0 + rd - t - w, w: 8, h: w, color: c };
       case 'E': return { x: x0 + rw - 4, y: y0 + t, w: 8, h: w, color: c };
+      default: return { x: x0, y: y0, w: 0, h: 0, color: c };
     }
   };
   const serviceDot = (s: ServicePoint) => {
@@ -380,18 +646,24 @@ export function RoomFeaturesEditor({
       return { cx: x0 + s.xMm * scale, cy: y0 + s.zMm * scale, color: c, floor: true };
     }
     const t = s.offsetMm * scale;
+    const seg = segmentFor(s.wall);
+    if (seg) {
+      const p = toSvg(alongSegment(seg, s.offsetMm));
+      return { cx: p.x, cy: p.y, color: c, floor: false };
+    }
     switch (s.wall) {
       case 'N': return { cx: x0 + t, cy: y0, color: c, floor: false };
       case 'S': return { cx: x0 + rw - t, cy: y0 + rd, color: c, floor: false };
       case 'W': return { cx: x0, cy: y0 + rd - t, color: c, floor: false };
       case 'E': return { cx: x0 + rw, cy: y0 + t, color: c, floor: false };
+      default: return { cx: x0, cy: y0, color: c, floor: false };
     }
   };
 
   // ── descriptions ──
   const describeOpening = (o: Opening) => {
     const kind = OPENING_KINDS.find(k => k.id === o.type)!;
-    let d = `${kind.label} on the ${WALL_LABELS[o.wall]} — left edge ${Math.round(o.offsetMm)}mm from the corner, ${Math.round(o.widthMm)}mm wide`;
+    let d = `${kind.label} on the ${wallLabel(o.wall)} — left edge ${Math.round(o.offsetMm)}mm from the corner, ${Math.round(o.widthMm)}mm wide`;
     if (o.heightMm) d += ` × ${Math.round(o.heightMm)}mm high`;
     if (o.type === 'window' && o.sillHeightMm != null) d += `, sill ${Math.round(o.sillHeightMm)}mm above the floor`;
     if (o.type === 'door' && o.swing) d += ` · ${SWINGS.find(s => s.id === o.swing)?.label.toLowerCase()}`;
@@ -400,20 +672,41 @@ export function RoomFeaturesEditor({
   const describeService = (s: ServicePoint) => {
     const kind = SERVICE_KINDS.find(k => k.id === s.type)!;
     if (s.placement === 'floor') {
-      return `${kind.label} through the floor — ${Math.round(s.xMm ?? 0)}mm from the left wall, ${Math.round(s.zMm ?? 0)}mm from the back wall`;
+      return segments
+        ? `${kind.label} through the floor — ${Math.round(s.xMm ?? 0)}mm from the room's left edge, ${Math.round(s.zMm ?? 0)}mm from its back edge`
+        : `${kind.label} through the floor — ${Math.round(s.xMm ?? 0)}mm from the left wall, ${Math.round(s.zMm ?? 0)}mm from the back wall`;
     }
-    let d = `${kind.label} on the ${WALL_LABELS[s.wall]} — ${Math.round(s.offsetMm)}mm from the corner`;
+    let d = `${kind.label} on the ${wallLabel(s.wall)} — ${Math.round(s.offsetMm)}mm from the corner`;
     if (s.heightMm != null) d += `, ${Math.round(s.heightMm)}mm above the floor`;
     return d;
   };
 
+  const describeObstruction = (o: Obstruction) => {
+    const kind = OBSTRUCTION_KINDS.find(k => k.id === o.type)!;
+    let d = `${kind.label} ${Math.round(o.widthMm)} × ${Math.round(o.depthMm)}mm — ${Math.round(o.xMm)}mm from the left wall, ${Math.round(o.zMm)}mm from the back wall`;
+    if (o.type === 'sloped-ceiling') {
+      d += `, down to ${Math.round(o.undersideMm ?? 0)}mm at the ${LOW_SIDES.find(side => side.id === (o.lowSide ?? 'N'))!.label.toLowerCase()}`;
+    } else if (o.type !== 'column' && o.type !== 'chimney-breast') {
+      d += `, ${Math.round(o.undersideMm ?? 0)}mm clear underneath`;
+    }
+    return d;
+  };
+
   const selOpening = openings.find(o => o.id === selectedId) ?? null;
   const selService = !selOpening ? services.find(s => s.id === selectedId) ?? null : null;
+  const selObstruction = !selOpening && !selService ? structure.find(o => o.id === selectedId) ?? null : null;
+  const wetZoneConflict = (id: string) => wetZoneConflicts?.find(conflict => conflict.serviceId === id);
+  const selWetZone = selService ? wetZoneConflict(selService.id) : undefined;
+  const describeRelocation = (relocation: NonNullable<SinkWetZoneConflict['relocation']>) => ('offsetMm' in relocation
+    ? `${Math.round(relocation.offsetMm)}mm from the corner`
+    : `${Math.round(relocation.xMm)}mm from the left wall, ${Math.round(relocation.zMm)}mm from the back wall`);
   const selectedFeatureLabel = selOpening
     ? OPENING_KINDS.find(kind => kind.id === selOpening.type)?.label
     : selService
       ? SERVICE_KINDS.find(kind => kind.id === selService.type)?.label
-      : null;
+      : selObstruction
+        ? OBSTRUCTION_KINDS.find(kind => kind.id === selObstruction.type)?.label
+        : null;
 
   const numField = (
     label: string, value: number | undefined, set: (v: number) => void,
@@ -436,10 +729,11 @@ export function RoomFeaturesEditor({
 
       {/* mode picker — grouped, icon-led, thumb-sized */}
       <div className="space-y-2">
-        {([
+        {[
           { heading: 'Openings', kinds: OPENING_KINDS },
           { heading: 'Existing service points', kinds: SERVICE_KINDS },
-        ] as const).map(group => (
+          ...(obstructions ? [{ heading: 'Structure', kinds: OBSTRUCTION_KINDS }] : []),
+        ].map(group => (
           <div key={group.heading}>
             <p className="text-[11px] font-medium uppercase tracking-wide text-slate-400 mb-1.5">{group.heading}</p>
             <div className="flex flex-wrap gap-2">
@@ -471,7 +765,14 @@ export function RoomFeaturesEditor({
             </div>
           </div>
         ))}
-        {!isOpeningKind(mode) && (
+        {isObstructionKind(mode) && (
+          <p className="rounded-xl border border-slate-200 bg-slate-50 p-3 text-[11px] leading-snug text-slate-500">
+            {mode === 'column' || mode === 'chimney-breast'
+              ? 'Tap inside the room where it stands, then enter its exact size. Nothing is planned through it.'
+              : 'Tap inside the room under it, then enter its size and the clear height beneath. Only cabinetry taller than that is kept out.'}
+          </p>
+        )}
+        {isServiceKind(mode) && (
           <div className="rounded-xl border border-slate-200 bg-slate-50 p-3 space-y-2">
             <p className="text-xs font-medium text-slate-700">Where does this existing connection enter?</p>
             <div className="grid grid-cols-2 gap-2" role="group" aria-label="Connection location">
@@ -515,6 +816,10 @@ export function RoomFeaturesEditor({
         )}
       </div>
 
+      {segments && onPolygonChange && (
+        <PolygonWallsTable polygon={polygon!} onChange={onPolygonChange} />
+      )}
+
       {/* diagram */}
       <svg
         ref={svgRef}
@@ -527,10 +832,17 @@ export function RoomFeaturesEditor({
         role="application"
         aria-label="Room diagram — choose a feature, then tap a wall or floor to place it; drag features to move them"
       >
-        <rect x={x0} y={y0} width={rw} height={rd} fill="white" stroke="#0f172a" strokeWidth={3} />
+        {segments ? (
+          <polygon
+            points={segments.map(seg => { const p = toSvg(seg.a); return `${p.x},${p.y}`; }).join(' ')}
+            fill="white" stroke="#0f172a" strokeWidth={3} strokeLinejoin="round"
+          />
+        ) : (
+          <rect x={x0} y={y0} width={rw} height={rd} fill="white" stroke="#0f172a" strokeWidth={3} />
+        )}
 
         {/* cabinet layout preview — updates live with the layout selection */}
-        {(cabinetLayout || cabinetWalls?.length) && (() => {
+        {!segments && (cabinetLayout || cabinetWalls?.length) && (() => {
           const benchDepth = Math.min(600 * scale, Math.min(rw, rd) * 0.28);
           const runs: { x: number; y: number; w: number; h: number }[] = [];
           const inset = 3;
@@ -588,23 +900,64 @@ export function RoomFeaturesEditor({
           );
         })()}
 
-        <text x={VIEW / 2} y={y0 - 12} textAnchor="middle" fontSize={10} fill="#64748b">
-          Back · {(widthMm / 1000).toFixed(1)}m
-        </text>
-        <text x={VIEW / 2} y={y0 + rd + 18} textAnchor="middle" fontSize={10} fill="#94a3b8">Front</text>
-        <text x={x0 - 12} y={VIEW / 2} textAnchor="middle" fontSize={10} fill="#94a3b8" transform={`rotate(-90 ${x0 - 12} ${VIEW / 2})`}>
-          Left · {(depthMm / 1000).toFixed(1)}m
-        </text>
+        {segments ? segments.map(seg => {
+          // wall number just outside the wall's midpoint
+          const mid = toSvg(alongSegment(seg, seg.length / 2));
+          return (
+            <text
+              key={seg.id}
+              x={mid.x - seg.normal.x * 12} y={mid.y - seg.normal.z * 12 + 3}
+              textAnchor="middle" fontSize={9} fill="#64748b" pointerEvents="none"
+            >
+              {polygonWallNumber(seg.id as PolygonWallId)}
+            </text>
+          );
+        }) : (
+          <>
+            <text x={VIEW / 2} y={y0 - 12} textAnchor="middle" fontSize={10} fill="#64748b">
+              Back · {(widthMm / 1000).toFixed(1)}m
+            </text>
+            <text x={VIEW / 2} y={y0 + rd + 18} textAnchor="middle" fontSize={10} fill="#94a3b8">Front</text>
+            <text x={x0 - 12} y={VIEW / 2} textAnchor="middle" fontSize={10} fill="#94a3b8" transform={`rotate(-90 ${x0 - 12} ${VIEW / 2})`}>
+              Left · {(depthMm / 1000).toFixed(1)}m
+            </text>
+          </>
+        )}
 
+        {structure.map(o => {
+          const kind = OBSTRUCTION_KINDS.find(k => k.id === o.type);
+          const color = kind?.color ?? '#888';
+          const active = o.id === selectedId;
+          const x = x0 + o.xMm * scale;
+          const y = y0 + o.zMm * scale;
+          const w = o.widthMm * scale;
+          const h = o.depthMm * scale;
+          const solid = o.type === 'column' || o.type === 'chimney-breast';
+          // sloped ceilings mark their low edge with a heavier line
+          const low = o.type === 'sloped-ceiling'
+            ? { N: [x, y, x + w, y], S: [x, y + h, x + w, y + h], W: [x, y, x, y + h], E: [x + w, y, x + w, y + h] }[o.lowSide ?? 'N']
+            : null;
+          return (
+            <g key={o.id} onPointerDown={e => startDrag(e, o.id, 'obstruction')} className="cursor-grab">
+              <rect
+                x={x} y={y} width={w} height={h}
+                fill={color} fillOpacity={solid ? 0.85 : 0.2}
+                stroke={active ? '#0f172a' : color} strokeWidth={active ? 2 : 1}
+                strokeDasharray={solid ? undefined : '5 3'}
+              />
+              {low && <line x1={low[0]} y1={low[1]} x2={low[2]} y2={low[3]} stroke={color} strokeWidth={3} />}
+            </g>
+          );
+        })}
         {openings.map(o => {
           const seg = openingSeg(o);
           const active = o.id === selectedId;
           return (
             <g key={o.id} onPointerDown={e => startDrag(e, o.id, 'opening')} className="cursor-grab">
               {/* generous invisible hit area */}
-              <rect x={seg.x - 6} y={seg.y - 6} width={seg.w + 12} height={seg.h + 12} fill="transparent" />
+              <rect x={seg.x - 6} y={seg.y - 6} width={seg.w + 12} height={seg.h + 12} fill="transparent" transform={seg.transform} />
               <rect
-                x={seg.x} y={seg.y} width={seg.w} height={seg.h} rx={2}
+                x={seg.x} y={seg.y} width={seg.w} height={seg.h} rx={2} transform={seg.transform}
                 fill={seg.color}
                 stroke={active ? '#0f172a' : 'white'}
                 strokeWidth={active ? 2 : 0.5}
@@ -618,6 +971,9 @@ export function RoomFeaturesEditor({
           return (
             <g key={s.id} onPointerDown={e => startDrag(e, s.id, 'service')} className="cursor-grab">
               <circle cx={d.cx} cy={d.cy} r={13} fill="transparent" />
+              {wetZoneConflict(s.id) && (
+                <circle cx={d.cx} cy={d.cy} r={11} fill="none" stroke="#d97706" strokeWidth={1.5} strokeDasharray="2 2" />
+              )}
               {d.floor && (
                 <circle
                   cx={d.cx} cy={d.cy} r={10} fill="white" fillOpacity={0.8}
@@ -634,13 +990,13 @@ export function RoomFeaturesEditor({
       </svg>
 
       {/* detail panel for the selected feature */}
-      {(selOpening || selService) && (
+      {(selOpening || selService || selObstruction) && (
         <div className="rounded-xl border-2 border-slate-900 bg-white p-3.5 space-y-3">
           <div className="flex items-start justify-between gap-2">
             <div className="space-y-0.5">
               <p className="text-sm font-semibold text-slate-900">Edit {selectedFeatureLabel}</p>
               <p className="text-xs text-slate-600 leading-snug">
-                {selOpening ? describeOpening(selOpening) : describeService(selService!)}
+                {selOpening ? describeOpening(selOpening) : selService ? describeService(selService) : describeObstruction(selObstruction!)}
               </p>
             </div>
             <button type="button" onClick={() => setSelectedId(null)} className="text-slate-300 hover:text-slate-600 flex-shrink-0" aria-label="Close">
@@ -653,7 +1009,7 @@ export function RoomFeaturesEditor({
               <div>
                 <p className="text-[11px] font-medium uppercase tracking-wide text-slate-400 mb-1.5">Wall</p>
                 <div className="grid grid-cols-4 gap-1.5" role="group" aria-label={`${selectedFeatureLabel} wall`}>
-                  {(Object.keys(WALL_LABELS) as WallId[]).map(wall => (
+                  {walls.map(wall => (
                     <button
                       key={wall}
                       type="button"
@@ -673,7 +1029,7 @@ export function RoomFeaturesEditor({
                       )}
                       aria-pressed={selOpening.wall === wall}
                     >
-                      {wall === 'N' ? 'Back' : wall === 'E' ? 'Right' : wall === 'S' ? 'Front' : 'Left'}
+                      {wallButtonLabel(wall)}
                     </button>
                   ))}
                 </div>
@@ -751,7 +1107,7 @@ export function RoomFeaturesEditor({
                     <div className="col-span-2">
                       <p className="text-[11px] font-medium uppercase tracking-wide text-slate-400 mb-1.5">Wall</p>
                       <div className="grid grid-cols-4 gap-1.5" role="group" aria-label={`${selectedFeatureLabel} wall`}>
-                        {(Object.keys(WALL_LABELS) as WallId[]).map(wall => (
+                        {walls.map(wall => (
                           <button
                             key={wall}
                             type="button"
@@ -767,7 +1123,7 @@ export function RoomFeaturesEditor({
                             )}
                             aria-pressed={selService.wall === wall}
                           >
-                            {wall === 'N' ? 'Back' : wall === 'E' ? 'Right' : wall === 'S' ? 'Front' : 'Left'}
+                            {wallButtonLabel(wall)}
                           </button>
                         ))}
                       </div>
@@ -780,6 +1136,76 @@ export function RoomFeaturesEditor({
                   </>
                 )}
               </div>
+              {selWetZone && (
+                <div className="flex items-start gap-2 rounded-lg border border-amber-200 bg-amber-50 px-2.5 py-2" role="status">
+                  <AlertTriangle className="mt-0.5 h-3.5 w-3.5 flex-shrink-0 text-amber-600" aria-hidden="true" />
+                  <div className="min-w-0 flex-1 space-y-1.5">
+                    <p className="text-[11px] leading-snug text-amber-900">
+                      {selWetZone.kind === 'gpo' ? 'This power point' : 'This appliance connection'} is inside the sink's wet zone.{' '}
+                      {selWetZone.relocation
+                        ? `Moving it ${selWetZone.shiftMm}mm, to ${describeRelocation(selWetZone.relocation)}, clears it.`
+                        : 'Nowhere along this wall clears it — move it to another wall.'}
+                      {' '}Your electrician confirms the final position.
+                    </p>
+                    {selWetZone.relocation && (
+                      <Button
+                        type="button" variant="outline" size="sm"
+                        className="h-7 border-amber-300 bg-white px-2 text-xs text-amber-900 hover:bg-amber-100"
+                        onClick={() => updateService(selService.id, selWetZone.relocation!)}
+                      >
+                        Move it clear
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
+          {selObstruction && (
+            <div className="space-y-3">
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-2.5">
+                {numField('From left wall (mm)', selObstruction.xMm,
+                  v => updateObstruction(selObstruction.id, { xMm: Math.max(0, Math.min(widthMm - selObstruction.widthMm, v)) }),
+                  { max: widthMm - selObstruction.widthMm, step: 10 })}
+                {numField('From back wall (mm)', selObstruction.zMm,
+                  v => updateObstruction(selObstruction.id, { zMm: Math.max(0, Math.min(depthMm - selObstruction.depthMm, v)) }),
+                  { max: depthMm - selObstruction.depthMm, step: 10 })}
+                {numField('Width (mm)', selObstruction.widthMm,
+                  v => updateObstruction(selObstruction.id, { widthMm: Math.max(50, Math.min(widthMm - selObstruction.xMm, v)) }),
+                  { min: 50, max: widthMm - selObstruction.xMm, step: 10 })}
+                {numField('Depth (mm)', selObstruction.depthMm,
+                  v => updateObstruction(selObstruction.id, { depthMm: Math.max(50, Math.min(depthMm - selObstruction.zMm, v)) }),
+                  { min: 50, max: depthMm - selObstruction.zMm, step: 10 })}
+                {selObstruction.type !== 'column' && selObstruction.type !== 'chimney-breast' && numField(
+                  selObstruction.type === 'sloped-ceiling' ? 'Lowest clear height (mm)' : 'Clear height underneath (mm)',
+                  selObstruction.undersideMm,
+                  v => updateObstruction(selObstruction.id, { undersideMm: Math.max(0, Math.min(4000, v)) }),
+                  { max: 4000, step: 10 })}
+              </div>
+              {selObstruction.type === 'sloped-ceiling' && (
+                <div>
+                  <p className="text-[11px] font-medium uppercase tracking-wide text-slate-400 mb-1.5">Lowest side</p>
+                  <div className="grid grid-cols-4 gap-1.5" role="group" aria-label="Lowest side of the sloped ceiling">
+                    {LOW_SIDES.map(side => (
+                      <button
+                        key={side.id}
+                        type="button"
+                        onClick={() => updateObstruction(selObstruction.id, { lowSide: side.id })}
+                        className={cn(
+                          'rounded-lg border px-2 py-1.5 text-[11px] font-medium transition-colors',
+                          (selObstruction.lowSide ?? 'N') === side.id
+                            ? 'border-slate-900 bg-slate-900 text-white'
+                            : 'border-slate-200 text-slate-500 hover:border-slate-400',
+                        )}
+                        aria-pressed={(selObstruction.lowSide ?? 'N') === side.id}
+                      >
+                        {side.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
           )}
 
@@ -794,13 +1220,14 @@ export function RoomFeaturesEditor({
       )}
 
       {/* summary list */}
-      {(openings.length > 0 || services.length > 0) ? (
+      {(openings.length > 0 || services.length > 0 || structure.length > 0) ? (
         <div className="space-y-1">
           <p className="pb-1 text-[11px] text-slate-500">
             Select any item to edit its wall, position and exact measurements.
           </p>
           {[...openings.map(o => ({ id: o.id, text: describeOpening(o), color: OPENING_KINDS.find(k => k.id === o.type)?.color })),
-            ...services.map(s => ({ id: s.id, text: describeService(s), color: SERVICE_KINDS.find(k => k.id === s.type)?.color }))]
+            ...services.map(s => ({ id: s.id, text: describeService(s), color: SERVICE_KINDS.find(k => k.id === s.type)?.color })),
+            ...structure.map(o => ({ id: o.id, text: describeObstruction(o), color: OBSTRUCTION_KINDS.find(k => k.id === o.type)?.color }))]
             .map(row => (
               <button
                 key={row.id}
@@ -828,8 +1255,8 @@ export function RoomFeaturesEditor({
       <Button
         type="button" variant="ghost" size="sm"
         className="text-xs text-slate-400 h-7"
-        onClick={() => { setSelectedId(null); onChange({ openings: [], services: [] }); }}
-        disabled={openings.length === 0 && services.length === 0}
+        onClick={() => { setSelectedId(null); onChange({ openings: [], services: [], ...(obstructions ? { obstructions: [] } : {}) }); }}
+        disabled={openings.length === 0 && services.length === 0 && structure.length === 0}
       >
         Clear all
       </Button>
@@ -1,4 +1,4 @@
-import React, { createContext, useContext, useState, useCallback, useMemo, ReactNode, useEffect } from 'react';
+import React, { createContext, useContext, useState, useCallback, useMemo, ReactNode, useEffect, useRef } from 'react';
 import { FINISH_OPTIONS, HANDLE_OPTIONS } from '@/constants';
 import {
   CabinetInstancePosition,
@@ -7,6 +7,7 @@ import {
   RoomMaterialDefaults,
   TradeRoom,
 } from '@/types/trade';
+import { applyCollabMessage, CollabMessage, CollabOperation, CollabTransport } from '@/lib/trade/collaboration';
 
 const STORAGE_KEY = 'trade-room-data';
 
@@ -39,6 +40,13 @@ interface TradeRoomContextType {
   getPlacedCabinets: (roomId: string) => ConfiguredCabinet[];
   getUnplacedCabinets: (roomId: string) => ConfiguredCabinet[];
   getRoomTotals: (roomId: string) => { count: number; placed: number; unplaced: number };
+
+  /**
+   * Share cabinet edits with other planners on the same job: local adds,
+   * edits, moves and removals are sent over the transport and peers' edits
+   * are applied here. Returns a disconnect function.
+   */
+  connectCollaboration: (transport: CollabTransport, clientId: string) => () => void;
 }
 
 const TradeRoomContext = createContext<TradeRoomContextType | null>(null);
@@ -106,6 +114,26 @@ export function TradeRoomProvider({ children }: { children: ReactNode }) {
   });
   const [currentRoomId, setCurrentRoomId] = useState<string | null>(null);
   const [selectedCabinetId, setSelectedCabinetId] = useState<string | null>(null);
+  const collabRef = useRef<{ transport: CollabTransport; clientId: string } | null>(null);
+
+  const broadcast = useCallback((operation: CollabOperation) => {
+    const collab = collabRef.current;
+    if (collab) collab.transport.send({ ...operation, clientId: collab.clientId } as CollabMessage);
+  }, []);
+
+  const connectCollaboration = useCallback((transport: CollabTransport, clientId: string) => {
+    collabRef.current = { transport, clientId };
+    const unsubscribe = transport.onMessage((message) => {
+      setRooms((prev) => applyCollabMessage(prev, message));
+      if (message.type === 'cabinet-remove') {
+        setSelectedCabinetId((prev) => (prev === message.instanceId ? null : prev));
+      }
+    });
+    return () => {
+      unsubscribe();
+      if (collabRef.current?.transport === transport) collabRef.current = null;
+    };
+  }, []);
 
   const currentRoom = useMemo(
     () => (currentRoomId ? rooms.find((room) => room.id === currentRoomId) || null : null),
@@ -173,10 +201,11 @@ export function TradeRoomProvider({ children }: { children: ReactNode }) {
           updatedAt: now,
         })),
       );
+      broadcast({ type: 'cabinet-upsert', roomId, cabinet: newCabinet });
 
       return newCabinet;
     },
-    [rooms],
+    [broadcast, rooms],
   );
 
   const updateCabinet = useCallback((roomId: string, instanceId: string, updates: Partial<ConfiguredCabinet>) => {
@@ -188,7 +217,8 @@ export function TradeRoomProvider({ children }: { children: ReactNode }) {
         updatedAt: now,
       })),
     );
-  }, []);
+    broadcast({ type: 'cabinet-patch', roomId, instanceId, updates: { ...updates, updatedAt: now } });
+  }, [broadcast]);
 
   const replaceCabinet = useCallback((roomId: string, cabinet: ConfiguredCabinet) => {
     const now = new Date();
@@ -204,7 +234,8 @@ export function TradeRoomProvider({ children }: { children: ReactNode }) {
         };
       }),
     );
-  }, []);
+    broadcast({ type: 'cabinet-upsert', roomId, cabinet: { ...cabinet, updatedAt: now } });
+  }, [broadcast]);
 
   const removeCabinet = useCallback((roomId: string, instanceId: string) => {
     const now = new Date();
@@ -216,7 +247,8 @@ export function TradeRoomProvider({ children }: { children: ReactNode }) {
       })),
     );
     setSelectedCabinetId((prev) => (prev === instanceId ? null : prev));
-  }, []);
+    broadcast({ type: 'cabinet-remove', roomId, instanceId });
+  }, [broadcast]);
 
   const duplicateCabinet = useCallback(
     (roomId: string, instanceId: string): ConfiguredCabinet | null => {
@@ -303,6 +335,7 @@ export function TradeRoomProvider({ children }: { children: ReactNode }) {
       getPlacedCabinets,
       getUnplacedCabinets,
       getRoomTotals,
+      connectCollaboration,
     }),
     [
       currentRoom,
@@ -328,6 +361,7 @@ export function TradeRoomProvider({ children }: { children: ReactNode }) {
       getPlacedCabinets,
       getUnplacedCabinets,
       getRoomTotals,
+      connectCollaboration,
     ],
   );
 
@@ -51,6 +51,7 @@ export interface AiDesignResult {
     modelId: string;
     promptVersion?: string;
     engineVersion?: string;
+    rulePackVersion?: string;
   };
 }
 
@@ -338,6 +338,9 @@ const STATIC_LIBRARY_TEMPLATES: StaticCatalogTemplate[] = [
   { specGroup: 'Base Cabinets', id: 'open_base', name: 'Open Base' },
   { specGroup: 'Base Cabinets', id: 'sink_base_1_door', name: 'Sink Base 1 Door' },
   { specGroup: 'Base Cabinets', id: 'sink_base_2_door', name: 'Sink Base 2 Door' },
+  { specGroup: 'Base Cabinets', id: 'laundry_sink_base', name: 'Laundry Tub Base' },
+  { specGroup: 'Base Cabinets', id: 'vanity_sink_base_1_door', name: 'Vanity Basin Base 1 Door' },
+  { specGroup: 'Base Cabinets', id: 'vanity_sink_base', name: 'Vanity Basin Base 2 Door' },
   { specGroup: 'Base Cabinets', id: 'base_bin_pullout', name: 'Base Bin Pullout' },
   { specGroup: 'Base Cabinets', id: 'base_spice_pullout', name: 'Base Spice Pullout' },
   { specGroup: 'Base Cabinets', id: 'base_bottle_pullout', name: 'Base Bottle Pullout' },
@@ -374,6 +377,8 @@ const STATIC_LIBRARY_TEMPLATES: StaticCatalogTemplate[] = [
   { specGroup: 'Tall Cabinets', id: 'tall_oven_microwave', name: 'Tall Oven Microwave' },
   { specGroup: 'Tall Cabinets', id: 'tall_fridge', name: 'Fridge Opening With Top Cabinet' },
   { specGroup: 'Tall Cabinets', id: 'tall_coffee', name: 'Tall Coffee' },
+  { specGroup: 'Tall Cabinets', id: 'tall_wardrobe_hanging', name: 'Tall Wardrobe Hanging' },
+  { specGroup: 'Tall Cabinets', id: 'tall_wardrobe_shelves', name: 'Tall Wardrobe Shelves' },
   { specGroup: 'Panels', id: 'tall_applied_panel', name: 'Tall Applied Panel' },
   { specGroup: 'Panels', id: 'base_applied_panel', name: 'Base Applied Panel' },
   { specGroup: 'Panels', id: 'wall_applied_panel', name: 'Wall Applied Panel' },
@@ -393,6 +398,8 @@ const STATIC_LIBRARY_TEMPLATES: StaticCatalogTemplate[] = [
   { specGroup: 'Appliance Openings', id: 'dishwasher_opening_only', name: 'Dishwasher Opening Only' },
   { specGroup: 'Appliance Openings', id: 'range_opening', name: 'Range Opening' },
   { specGroup: 'Appliance Openings', id: 'microwave_opening', name: 'Microwave Opening' },
+  { specGroup: 'Appliance Openings', id: 'washer_opening', name: 'Washing Machine Opening' },
+  { specGroup: 'Appliance Openings', id: 'dryer_opening', name: 'Dryer Opening' },
   { specGroup: 'Appliance Openings', id: 'sink_position', name: 'Sink Position' },
   { specGroup: 'Appliance Openings', id: 'cooktop_position', name: 'Cooktop Position' },
   { specGroup: 'Appliance Openings', id: 'oven_position', name: 'Oven Position' },
@@ -5,6 +5,7 @@
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
+import type { Tables } from '@/integrations/supabase/types';
 import type { CommercialOptions } from '@/lib/pricing';
 
 // Markups are stored per markup_type. For 'percentage' the numbers are whole
@@ -15,6 +16,26 @@ function toFraction(value: number | null | undefined, type: string | null | unde
   return (type ?? 'percentage') === 'percentage' ? n / 100 : n;
 }
 
+type MarkupRow = Tables<'client_markup_settings'>;
+
+/** One client_markup_settings row as the engine's commercial layer. */
+export function toCommercialOptions(data: MarkupRow): CommercialOptions {
+  const t = data.markup_type as string | null;
+  return {
+    gstPct: 0.1,
+    categoryMarkups: {
+      material: toFraction(data.material_markup, t),
+      hardware: toFraction(data.hardware_markup, t),
+      labor: toFraction(data.labor_markup, t),
+      parts: toFraction(data.parts_markup, t),
+      edge: toFraction(data.edge_markup, t),
+      doorDrawer: toFraction(data.door_drawer_markup, t),
+      stone: toFraction(data.stone_markup, t),
+      delivery: toFraction(data.delivery_markup, t),
+    },
+  };
+}
+
 export function useClientMarkup(profileId?: string): {
   commercial: CommercialOptions;
   isLoading: boolean;
@@ -59,20 +80,5 @@ export function useClientMarkup(profileId?: string): {
     return { commercial: {}, isLoading, profileName: null };
   }
 
-  const t = data.markup_type as string | null;
-  const commercial: CommercialOptions = {
-    gstPct: 0.1,
-    categoryMarkups: {
-      material: toFraction(data.material_markup, t),
-      hardware: toFraction(data.hardware_markup, t),
-      labor: toFraction(data.labor_markup, t),
-      parts: toFraction(data.parts_markup, t),
-      edge: toFraction(data.edge_markup, t),
-      doorDrawer: toFraction(data.door_drawer_markup, t),
-      stone: toFraction(data.stone_markup, t),
-      delivery: toFraction(data.delivery_markup, t),
-    },
-  };
-
-  return { commercial, isLoading, profileName: (data.name as string) ?? null };
+  return { commercial: toCommercialOptions(data), isLoading, profileName: (data.name as string) ?? null };
 }
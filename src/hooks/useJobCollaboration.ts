@@ -0,0 +1,92 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useTradeRoom } from '@/contexts/TradeRoomContext';
+import {
+  COLLAB_HEARTBEAT_MS,
+  CollabMessage,
+  CollabPeer,
+  CollabTransport,
+  updatePeers,
+} from '@/lib/trade/collaboration';
+
+/** Supabase Realtime broadcast channel for one job. Sends queue until joined. */
+export function createRealtimeTransport(topic: string): CollabTransport {
+  const handlers = new Set<(message: CollabMessage) => void>();
+  const pending: CollabMessage[] = [];
+  let joined = false;
+  const channel = supabase.channel(topic, { config: { broadcast: { self: false } } });
+  const push = (message: CollabMessage) => {
+    void channel.send({ type: 'broadcast', event: 'collab', payload: message });
+  };
+
+  channel
+    .on('broadcast', { event: 'collab' }, ({ payload }) => {
+      handlers.forEach((handler) => handler(payload as CollabMessage));
+    })
+    .subscribe((status) => {
+      if (status !== 'SUBSCRIBED') return;
+      joined = true;
+      pending.splice(0).forEach(push);
+    });
+
+  return {
+    send(message) {
+      if (joined) push(message);
+      else pending.push(message);
+    },
+    onMessage(handler) {
+      handlers.add(handler);
+      return () => { handlers.delete(handler); };
+    },
+    close() {
+      handlers.clear();
+      void supabase.removeChannel(channel);
+    },
+  };
+}
+
+/**
+ * Presence and live cabinet edits for everyone with this job open. Edits flow
+ * through TradeRoomContext; this hook owns the channel and the peer list.
+ */
+export function useJobCollaboration(
+  jobId?: string,
+  roomId?: string | null,
+  transportFactory: (topic: string) => CollabTransport = createRealtimeTransport,
+) {
+  const { user } = useAuth();
+  const { connectCollaboration } = useTradeRoom();
+  const [peers, setPeers] = useState<CollabPeer[]>([]);
+  const name = (user?.user_metadata?.full_name as string | undefined) || user?.email || 'Someone';
+
+  useEffect(() => {
+    if (!jobId || jobId === 'new') return;
+    const transport = transportFactory(`trade-job:${jobId}`);
+    const clientId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+    const announce = (type: 'hello' | 'heartbeat') => transport.send({ type, clientId, name, roomId: roomId ?? null });
+
+    const disconnect = connectCollaboration(transport, clientId);
+    const unsubscribe = transport.onMessage((message) => {
+      setPeers((prev) => updatePeers(prev, message, Date.now()));
+      // Answer newcomers so they see us without waiting for a heartbeat.
+      if (message.type === 'hello') announce('heartbeat');
+    });
+    announce('hello');
+    const timer = setInterval(() => {
+      announce('heartbeat');
+      setPeers((prev) => updatePeers(prev, null, Date.now()));
+    }, COLLAB_HEARTBEAT_MS);
+
+    return () => {
+      clearInterval(timer);
+      transport.send({ type: 'bye', clientId });
+      unsubscribe();
+      disconnect();
+      transport.close();
+      setPeers([]);
+    };
+  }, [connectCollaboration, jobId, name, roomId, transportFactory]);
+
+  return { peers };
+}
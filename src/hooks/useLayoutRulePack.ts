@@ -0,0 +1,33 @@
+// Loads the active layout rule pack (layout_rule_packs, newest approved row)
+// so designs checked in the browser use the same thresholds and tiers as the
+// ai-designer edge function. Edited and approved in Admin → Design Rules.
+// Until the row loads, or when none is approved, the built-in defaults apply.
+
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  activeLayoutRulePack,
+  DEFAULT_LAYOUT_RULE_PACK,
+  type LayoutRulePack,
+  type LayoutRulePackRow,
+} from '@/lib/layout';
+
+export const LAYOUT_RULE_PACK_QUERY_KEY = ['layout-rule-pack'] as const;
+
+export function useLayoutRulePack(): { rulePack: LayoutRulePack; isLoading: boolean } {
+  const { data, isLoading } = useQuery({
+    queryKey: LAYOUT_RULE_PACK_QUERY_KEY,
+    staleTime: 5 * 60 * 1000,
+    queryFn: async () => {
+      const { data: rows, error } = await (supabase as any)
+        .from('layout_rule_packs')
+        .select('version,status,parameters')
+        .eq('status', 'approved')
+        .order('version', { ascending: false })
+        .limit(1);
+      if (error) throw error;
+      return activeLayoutRulePack((rows ?? []) as LayoutRulePackRow[]);
+    },
+  });
+  return { rulePack: data ?? DEFAULT_LAYOUT_RULE_PACK, isLoading };
+}
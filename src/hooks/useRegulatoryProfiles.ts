@@ -0,0 +1,33 @@
+// Loads the approved regulatory profiles (ai_regulatory_profiles) so designs
+// checked in the browser judge their regulated rules against the profile for
+// the project's jurisdiction and scope. Only rows whose contents still match
+// their signed hash are returned; until they load, or when none match,
+// regulated rules stay pending.
+
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  verifiedRegulatoryProfiles,
+  type RegulatoryProfileRow,
+  type RegulatoryProfileV1,
+} from '@/lib/designV2';
+
+export const REGULATORY_PROFILES_QUERY_KEY = ['regulatory-profiles', 'approved'] as const;
+
+const NO_PROFILES: RegulatoryProfileV1[] = [];
+
+export function useRegulatoryProfiles(): { approvedProfiles: RegulatoryProfileV1[]; isLoading: boolean } {
+  const { data, isLoading } = useQuery({
+    queryKey: REGULATORY_PROFILES_QUERY_KEY,
+    staleTime: 5 * 60 * 1000,
+    queryFn: async () => {
+      const { data: rows, error } = await (supabase as any)
+        .from('ai_regulatory_profiles')
+        .select('id,profile_key,version,jurisdiction,project_scopes,rules,standards_editions,status,qualified_approver,content_hash,approved_by,approved_at,effective_from,effective_to')
+        .eq('status', 'approved');
+      if (error) throw error;
+      return verifiedRegulatoryProfiles((rows ?? []) as RegulatoryProfileRow[]);
+    },
+  });
+  return { approvedProfiles: data ?? NO_PROFILES, isLoading };
+}
@@ -0,0 +1,46 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { CartItem } from '@/lib/trade/tradeOrders';
+
+/**
+ * The signed-in trade account's Supply Store cart, kept in `trade_carts` so it
+ * follows the account across devices. Updates apply locally first and are
+ * written through; a failed write is logged and retried on the next change.
+ */
+export function useTradeCart(userId?: string) {
+  const [items, setItems] = useState<CartItem[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!userId) {
+      setItems([]);
+      setLoading(false);
+      return;
+    }
+    let cancelled = false;
+    setLoading(true);
+    (supabase as any)
+      .from('trade_carts')
+      .select('items')
+      .eq('user_id', userId)
+      .maybeSingle()
+      .then(({ data, error }: { data: { items: CartItem[] } | null; error: unknown }) => {
+        if (cancelled) return;
+        if (error) console.error('Failed to load cart:', error);
+        setItems(Array.isArray(data?.items) ? data.items : []);
+        setLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [userId]);
+
+  const update = useCallback(async (next: CartItem[]) => {
+    setItems(next);
+    if (!userId) return;
+    const { error } = await (supabase as any)
+      .from('trade_carts')
+      .upsert({ user_id: userId, items: next });
+    if (error) console.error('Failed to save cart:', error);
+  }, [userId]);
+
+  return { items, loading, update };
+}
@@ -4,6 +4,7 @@ import { supabase } from '@/integrations/supabase/client';
 import { ConfiguredCabinet, TradeRoom, TradeJobStatus, isTradeJobStatus, QuoteSnapshot } from '@/types/trade';
 import { generateTradeQuotePDF } from '@/lib/pdfQuoteGenerator';
 import { allocateQuotedTotal, getPersistedRoomTotal, mergePersistedPricingState, normalizePricingTotals } from '@/lib/trade/pricingPersistence';
+import { mergeTradeRooms, StaleWriteError, StoredRoom } from '@/lib/trade/collaboration';
 
 interface PersistedTradeDesignData {
   tradeRooms: TradeRoom[];
@@ -46,6 +47,24 @@ async function enqueueJobWrite<T>(jobId: string, write: () => Promise<T>): Promi
   }
 }
 
+/**
+ * The job version each tab's rooms descend from: set on first load and after
+ * every write from this tab. A write that finds a newer server version merges
+ * onto it per cabinet (see mergeTradeRooms) instead of overwriting it. A
+ * conflicting write leaves the base where it was, so every later write keeps
+ * conflicting until the editor calls rebaseJob.
+ */
+const jobBases = new Map<string, { updatedAt: string; tradeRooms: StoredRoom[] }>();
+
+function rememberJobBase(row: { id: string; updated_at: string; design_data: unknown } | null, overwrite: boolean) {
+  if (!row || (!overwrite && jobBases.has(row.id))) return;
+  const tradeRooms = (row.design_data as Partial<PersistedTradeDesignData> | null)?.tradeRooms;
+  jobBases.set(row.id, { updatedAt: row.updated_at, tradeRooms: (tradeRooms ?? []) as unknown as StoredRoom[] });
+}
+
+/** Writes that lose the compare-and-swap re-read, re-merge and try again this often. */
+const MAX_WRITE_ATTEMPTS = 3;
+
 const jobQueryKey = (jobId?: string) => ['trade-job', jobId];
 
 const normalizeRooms = (rooms: TradeRoom[]): TradeRoom[] =>
@@ -90,6 +109,7 @@ export function useTradeJobPersistence(jobId?: string) {
         .maybeSingle();
 
       if (error) throw error;
+      rememberJobBase(data, false);
       return data;
     },
   });
@@ -107,54 +127,80 @@ export function useTradeJobPersistence(jobId?: string) {
 
   const upsertJobMutation = useMutation({
     mutationFn: async (input: PersistJobInput) => enqueueJobWrite(input.id, async () => {
-      // Read immediately before the queued write. Cached design_data can be a
-      // generation behind another autosave, which is how quote snapshots and
-      // dashboard totals previously overwrote one another.
-      const { data: latest, error: latestError } = await supabase
-        .from('jobs')
-        .select('id, name, status, design_data')
-        .eq('id', input.id)
-        .maybeSingle();
-
-      if (latestError) throw latestError;
-
-      const existingDesignData = (
-        latest?.design_data
-        ?? input.existingDesignData
-        ?? {}
-      ) as Partial<PersistedTradeDesignData>;
-      const designDataPatch = typeof input.designDataPatch === 'function'
-        ? input.designDataPatch(existingDesignData)
-        : input.designDataPatch;
-      const mergedDesignData = {
-        ...existingDesignData,
-        tradeRooms: serializeRooms(input.rooms),
-        ...(designDataPatch || {}),
-        lastSyncedAt: new Date().toISOString(),
-      } as PersistedTradeDesignData;
-
-      // Fetch the current user so customer_id is always set on insert/upsert.
+      // Fetch the current user so customer_id is always set on insert/update.
       // supabase.auth.getUser() is sync-safe here (returns cached session).
       const { data: { user } } = await supabase.auth.getUser();
 
-      const payload = {
-        id: input.id,
-        name: input.name || latest?.name || `Job ${input.id.slice(0, 8)}`,
-        status: input.status ?? normalizeStatus(latest?.status),
-        design_data: mergedDesignData as unknown as PersistedTradeDesignData,
-        ...(typeof input.costExclTax === 'number' ? { cost_excl_tax: input.costExclTax } : {}),
-        ...(typeof input.costInclTax === 'number' ? { cost_incl_tax: input.costInclTax } : {}),
-        ...(user ? { customer_id: user.id } : {}),
-      };
-
-      const { data, error } = await supabase
-        .from('jobs')
-        .upsert(payload as any)
-        .select('id, name, status, design_data, updated_at, job_number')
-        .single();
+      for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+        // Read immediately before the queued write. Cached design_data can be a
+        // generation behind another autosave, which is how quote snapshots and
+        // dashboard totals previously overwrote one another.
+        const { data: latest, error: latestError } = await supabase
+          .from('jobs')
+          .select('id, name, status, design_data, updated_at')
+          .eq('id', input.id)
+          .maybeSingle();
+
+        if (latestError) throw latestError;
+
+        const existingDesignData = (
+          latest?.design_data
+          ?? input.existingDesignData
+          ?? {}
+        ) as Partial<PersistedTradeDesignData>;
+        const designDataPatch = typeof input.designDataPatch === 'function'
+          ? input.designDataPatch(existingDesignData)
+          : input.designDataPatch;
+        // Someone else saved since this tab loaded: merge per cabinet, and
+        // refuse the write outright when both sides changed the same cabinet.
+        let tradeRooms = serializeRooms(input.rooms) as unknown as StoredRoom[];
+        const base = jobBases.get(input.id);
+        if (latest && base && latest.updated_at !== base.updatedAt) {
+          const merged = mergeTradeRooms(base.tradeRooms, tradeRooms, (existingDesignData.tradeRooms ?? []) as unknown as StoredRoom[]);
+          if (merged.conflicts.length > 0) throw new StaleWriteError(merged.conflicts);
+          tradeRooms = merged.rooms;
+        }
+        const mergedDesignData = {
+          ...existingDesignData,
+          tradeRooms,
+          ...(designDataPatch || {}),
+          lastSyncedAt: new Date().toISOString(),
+        } as PersistedTradeDesignData;
+
+        const payload = {
+          id: input.id,
+          name: input.name || latest?.name || `Job ${input.id.slice(0, 8)}`,
+          status: input.status ?? normalizeStatus(latest?.status),
+          design_data: mergedDesignData as unknown as PersistedTradeDesignData,
+          ...(typeof input.costExclTax === 'number' ? { cost_excl_tax: input.costExclTax } : {}),
+          ...(typeof input.costInclTax === 'number' ? { cost_incl_tax: input.costInclTax } : {}),
+          ...(user ? { customer_id: user.id } : {}),
+        };
 
-      if (error) throw error;
-      return data;
+        // Compare-and-swap on updated_at: a save that lands between the read
+        // above and this write leaves no row to update (or the insert hits the
+        // new row), and the next attempt merges onto it instead of over it.
+        const { data, error } = latest
+          ? await supabase
+            .from('jobs')
+            .update(payload as any)
+            .eq('id', input.id)
+            .eq('updated_at', latest.updated_at)
+            .select('id, name, status, design_data, updated_at, job_number')
+            .maybeSingle()
+          : await supabase
+            .from('jobs')
+            .insert(payload as any)
+            .select('id, name, status, design_data, updated_at, job_number')
+            .maybeSingle();
+
+        if (error && error.code !== '23505') throw error;
+        if (data) {
+          rememberJobBase(data, true);
+          return data;
+        }
+      }
+      throw new Error('The job kept changing while saving; try again');
     }),
     onSuccess: (data) => {
       queryClient.setQueryData(jobQueryKey(data.id), data);
@@ -317,6 +363,17 @@ export function useTradeJobPersistence(jobId?: string) {
     });
   }, [getCurrentJob, upsertJobMutation]);
 
+  /**
+   * Resolve a StaleWriteError: adopt the server's current version as this
+   * tab's base. Refetching then shows their version; saving afterwards keeps
+   * this tab's rooms over it.
+   */
+  const rebaseJob = useCallback(async () => {
+    if (!jobId || jobId === 'new') return;
+    jobBases.delete(jobId);
+    await jobQuery.refetch();
+  }, [jobId, jobQuery]);
+
   const updateJobStatus = useCallback(async (status: TradeJobStatus) => {
     if (!jobId || jobId === 'new') return;
 
@@ -424,6 +481,7 @@ export function useTradeJobPersistence(jobId?: string) {
     persistQuoteSnapshot,
     persistJobTotals,
     persistPricingState,
+    rebaseJob,
     updateJobStatus,
     exportJobJson,
     exportJobPdf,
@@ -1,7 +1,7 @@
 import { useMemo } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { ConfiguredCabinet, RoomHardwareDefaults, RoomMaterialDefaults } from '@/contexts/TradeRoomContext';
-import { GlobalDimensions, HardwareOptions, PlacedItem } from '@/types';
+import { GlobalDimensions } from '@/types';
 import { generateQuoteBOM, PricingData, QuoteBOM } from '@/lib/pricing';
 import { useClientMarkup } from '@/hooks/useClientMarkup';
 import { DEFAULT_GLOBAL_DIMENSIONS } from '@/constants';
@@ -9,9 +9,10 @@ import { DEFAULT_GLOBAL_DIMENSIONS } from '@/constants';
 // bind toPlacedItems in this module's scope — calling it locally without this
 // import is a `Cannot find name` typecheck error + runtime ReferenceError
 // (release blocker 6.1).
-import { toPlacedItems } from '@/lib/trade/cabinetPlacedItem';
+import { toHardwareOptions, toPlacedItems } from '@/lib/trade/cabinetPlacedItem';
 import { allocateQuotedTotal } from '@/lib/trade/pricingPersistence';
 import { fetchAllPricingRows } from '@/lib/pricing/fetchAllPricingRows';
+import { activeTimeRates, latestCalibration, PricingCalibrationRow } from '@/lib/trade/calibration';
 
 export interface TradeRoomPricingInput {
   cabinets: ConfiguredCabinet[];
@@ -52,7 +53,7 @@ async function fetchBundleMaterials(): Promise<unknown[] | null> {
 
 export async function fetchPricingData(): Promise<PricingData> {
   const bundleMaterials = await fetchBundleMaterials();
-  const [parts, materials, edges, hardware, labor, doorDrawer, benchtop, appliances] = await Promise.all([
+  const [parts, materials, edges, hardware, labor, doorDrawer, benchtop, appliances, calibrations] = await Promise.all([
     fetchAllPricingRows<PricingData['parts'][number]>('parts_pricing', { visibility_status: 'Available' }),
     fetchAllPricingRows<PricingData['materials'][number]>('material_pricing', { visibility_status: 'Available' }),
     fetchAllPricingRows<PricingData['edges'][number]>('edge_pricing', { visibility_status: 'Available' }),
@@ -61,6 +62,8 @@ export async function fetchPricingData(): Promise<PricingData> {
     fetchAllPricingRows<PricingData['doorDrawer'][number]>('door_drawer_pricing', { visibility_status: 'Available' }),
     fetchAllPricingRows<PricingData['benchtop'][number]>('benchtop_pricing'),
     fetchAllPricingRows<NonNullable<PricingData['appliances']>[number]>('appliance_products', { is_active: true }),
+    // No approved calibration yet (or no table) prices with the default time model.
+    fetchAllPricingRows<PricingCalibrationRow>('pricing_calibrations').catch(() => [] as PricingCalibrationRow[]),
   ]);
 
   // The public bundle is the source of material IDENTITY (names, images,
@@ -70,12 +73,13 @@ export async function fetchPricingData(): Promise<PricingData> {
   // bundle row (matched by id or item_code); DB-only rows are appended so
   // "Shop Materials" carcase boards still resolve.
   const dbMaterials = materials as PricingData['materials'];
-  // Cost/spec fields that come from the DB, never the public bundle.
+  // Cost/spec fields that come from the DB, never the public bundle. The
+  // supplier is DB-only too; purchase orders are split by it.
   const COST_FIELDS: (keyof PricingData['materials'][number])[] = [
     'area_cost', 'area_handling_cost', 'area_assembly_cost',
     'sheet_width', 'sheet_length', 'expected_yield_factor', 'minimum_job_area',
     'minimum_usage_rollover', 'double_sided_cost', 'horizontal_grain_surcharge',
-    'captured_unit_price', 'price_status', 'price_unit',
+    'captured_unit_price', 'price_status', 'price_unit', 'source_supplier',
   ];
   let mergedMaterials = dbMaterials;
   if (bundleMaterials && bundleMaterials.length) {
@@ -105,6 +109,10 @@ export async function fetchPricingData(): Promise<PricingData> {
     doorDrawer: doorDrawer as PricingData['doorDrawer'],
     benchtop: benchtop as PricingData['benchtop'],
     appliances: appliances as PricingData['appliances'],
+    ...(calibrations.length > 0 ? {
+      timeRates: activeTimeRates(calibrations),
+      calibrationVersion: latestCalibration(calibrations)?.version,
+    } : {}),
   };
 }
 
@@ -114,17 +122,6 @@ export async function fetchPricingData(): Promise<PricingData> {
 // this module keep the public API while the local calls resolve correctly.
 export { toPlacedItems };
 
-function toHardwareOptions(hardwareDefaults: RoomHardwareDefaults): HardwareOptions {
-  return {
-    hingeType: hardwareDefaults.hingeType,
-    drawerType: hardwareDefaults.drawerType,
-    cabinetTop: 'Standard',
-    supplyHardware: hardwareDefaults.supplyHardware,
-    adjustableLegs: hardwareDefaults.adjustableLegs,
-    handleId: hardwareDefaults.handleType,
-  };
-}
-
 function stableStringify(value: unknown): string {
   if (value === null || typeof value !== 'object') {
     return JSON.stringify(value);
@@ -236,8 +233,10 @@ export function useTradeRoomPricing({
 
     const pricingHash = hashString(stableStringify(pricingData));
 
+    // An approved calibration bumps the version even before the hash is compared.
+    const calibration = pricingData.calibrationVersion ? `cal${pricingData.calibrationVersion}-` : '';
     return {
-      pricingVersion: `trade-bom-${pricingHash}`,
+      pricingVersion: `trade-bom-${calibration}${pricingHash}`,
       pricingHash,
     };
   }, [pricingData]);
@@ -358,6 +358,7 @@ export type Database = {
           customer_id: string | null
           delivery_method: string | null
           design_data: Json | null
+          dispatch_state: Json | null
           id: string
           job_number: number
           name: string
@@ -382,6 +383,7 @@ export type Database = {
           customer_id?: string | null
           delivery_method?: string | null
           design_data?: Json | null
+          dispatch_state?: Json | null
           id?: string
           job_number?: number
           name: string
@@ -406,6 +408,7 @@ export type Database = {
           customer_id?: string | null
           delivery_method?: string | null
           design_data?: Json | null
+          dispatch_state?: Json | null
           id?: string
           job_number?: number
           name?: string
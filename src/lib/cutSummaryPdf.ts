@@ -1,6 +1,6 @@
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
-import { QuoteBOM } from './pricing/types';
+import { NestedPart, QuoteBOM } from './pricing/types';
 
 const fmt2 = (n: number) => n.toFixed(2);
 const fmt1 = (n: number) => n.toFixed(1);
@@ -9,7 +9,7 @@ const fmt1 = (n: number) => n.toFixed(1);
  * Cut Summary PDF
  *
  * Two sections:
- *  1. Sheet schedule — material, role (carcase / exterior/CNC), sheets, area, machine hours
+ *  1. Sheet schedule — material, role (carcase / exterior/CNC), nested sheets, area, yield, machine hours
  *  2. Time breakdown — cut / edge / assembly hours by stage for the whole job
  *
  * Used by the shop to plan CNC scheduling and capacity.
@@ -52,6 +52,9 @@ export function exportCutSummaryPdf(quoteBOM: QuoteBOM, jobName = 'Job') {
       `${sh.sheetLength} × ${sh.sheetWidth}`,
       sh.sheetsRequired.toString(),
       `${fmt2(sh.totalPartArea)} m²`,
+      sh.sheetsRequired > 0
+        ? `${Math.round(Math.min(1, sh.totalPartArea / (sh.sheetArea * sh.sheetsRequired)) * 100)}%`
+        : '—',
       `${fmt1(cutHr)} h`,
     ];
   });
@@ -62,21 +65,22 @@ export function exportCutSummaryPdf(quoteBOM: QuoteBOM, jobName = 'Job') {
     return s + sh.sheetsRequired * (isExterior ? CUT_HR_EXTERIOR : CUT_HR_CARCASE);
   }, 0);
 
-  sheetRows.push(['', '', 'TOTAL', totalSheets.toString(), '', `${fmt1(totalCutHrs)} h`]);
+  sheetRows.push(['', '', 'TOTAL', totalSheets.toString(), '', '', `${fmt1(totalCutHrs)} h`]);
 
   autoTable(doc, {
     startY: y,
-    head: [['Material', 'Role', 'Sheet (mm)', 'Sheets', 'Net Area', 'Cut Hrs']],
+    head: [['Material', 'Role', 'Sheet (mm)', 'Sheets', 'Net Area', 'Yield', 'Cut Hrs']],
     body: sheetRows,
     styles: { fontSize: 9, cellPadding: 2 },
     headStyles: { fillColor: [30, 41, 82], textColor: 255 },
     columnStyles: {
-      0: { cellWidth: 60 },
-      1: { cellWidth: 28 },
-      2: { cellWidth: 28 },
+      0: { cellWidth: 50 },
+      1: { cellWidth: 26 },
+      2: { cellWidth: 26 },
       3: { halign: 'center', cellWidth: 14 },
       4: { halign: 'right', cellWidth: 22 },
-      5: { halign: 'right', cellWidth: 20 },
+      5: { halign: 'right', cellWidth: 16 },
+      6: { halign: 'right', cellWidth: 18 },
     },
     didParseCell(data) {
       if (data.row.index === sheetRows.length - 1) {
@@ -202,3 +206,248 @@ export function exportCutSummaryPdf(quoteBOM: QuoteBOM, jobName = 'Job') {
 
   doc.save(`${jobName.replace(/\s+/g, '_')}_cut_summary.pdf`);
 }
+
+// ── Cutting diagrams ────────────────────────────────────────────────────────
+
+const NAVY: [number, number, number] = [30, 41, 82];
+const EDGE_BAND: [number, number, number] = [214, 110, 0];
+const OFFCUT_FILL: [number, number, number] = [226, 240, 226];
+const SHEET_FILL: [number, number, number] = [236, 236, 236];
+const PART_LINE: [number, number, number] = [40, 40, 40];
+
+/** Sides of a placed part as drawn: top/bottom/left/right → which EdgeSpec flag bands it. */
+function bandedSides(part: NestedPart) {
+  const e = part.edging;
+  // len* edges run along the part length; X is the sheet length.
+  return part.rotated
+    ? { top: e.wid1, bottom: e.wid2, left: e.len1, right: e.len2 }
+    : { top: e.len1, bottom: e.len2, left: e.wid1, right: e.wid2 };
+}
+
+function drawGrainArrow(doc: jsPDF, x: number, y: number, w: number, h: number, alongX: boolean) {
+  const len = Math.min(alongX ? w : h, 14) * 0.6;
+  if (len < 3) return;
+  doc.setDrawColor(...NAVY);
+  doc.setFillColor(...NAVY);
+  doc.setLineWidth(0.25);
+  if (alongX) {
+    const ay = y + h - 2;
+    const ax = x + 2;
+    doc.line(ax, ay, ax + len, ay);
+    doc.triangle(ax + len, ay - 0.8, ax + len, ay + 0.8, ax + len + 1.6, ay, 'F');
+  } else {
+    const ax = x + w - 2;
+    const ay = y + h - 2;
+    doc.line(ax, ay, ax, ay - len);
+    doc.triangle(ax - 0.8, ay - len, ax + 0.8, ay - len, ax, ay - len - 1.6, 'F');
+  }
+}
+
+/**
+ * Cutting Diagrams PDF
+ *
+ * One landscape page per nested sheet, drawn to scale from
+ * `SheetAllocation.nesting`: part outlines with cabinet number, part name and
+ * cut size, edge-banded sides in orange, grain arrows on grain-locked parts and
+ * reusable offcuts shaded. A numbered cut list for the sheet follows the
+ * drawing, so a simple job can be cut without re-entering it in Microvellum.
+ */
+export function buildCuttingDiagramsPdf(
+  quoteBOM: QuoteBOM,
+  jobName = 'Job',
+  date = new Date().toLocaleDateString('en-AU'),
+): jsPDF {
+  const doc = new jsPDF({ orientation: 'landscape', unit: 'mm', format: 'a4' });
+  const pageW = doc.internal.pageSize.getWidth();
+  const nested = quoteBOM.consolidatedSheets.filter(sh => sh.nesting && sh.nesting.sheets.length > 0);
+  const totalSheets = nested.reduce((s, sh) => s + (sh.nesting?.sheets.length ?? 0), 0);
+  let sheetNo = 0;
+  let firstPage = true;
+
+  for (const allocation of nested) {
+    const nesting = allocation.nesting!;
+    for (const sheet of nesting.sheets) {
+      sheetNo += 1;
+      if (!firstPage) doc.addPage();
+      firstPage = false;
+
+      // Offcuts from stock are drawn at their own size, not the full board's.
+      const stock = sheet.stockOffcut;
+      const boardL = stock ? stock.length : allocation.sheetLength;
+      const boardW = stock ? stock.width : allocation.sheetWidth;
+
+      doc.setTextColor(0, 0, 0);
+      doc.setFontSize(14);
+      doc.setFont('helvetica', 'bold');
+      doc.text(
+        `Sheet ${sheetNo} of ${totalSheets} - ${allocation.materialName}${stock ? ' (offcut from stock)' : ''}`,
+        14, 14,
+      );
+      doc.setFontSize(9);
+      doc.setFont('helvetica', 'normal');
+      doc.text(
+        `Job: ${jobName}   |   ${boardL} x ${boardW} mm   |   `
+          + (stock ? `stock location: ${stock.location ?? 'unrecorded'}   |   ` : '')
+          + `${allocation.materialRole === 'exterior' ? 'Exterior / CNC' : 'Carcase'}   |   `
+          + `kerf ${nesting.kerfMm} mm, trim ${stock ? 0 : nesting.trimMm} mm   |   `
+          + `yield ${Math.round((sheet.usedArea / ((boardL * boardW) / 1_000_000)) * 100)}%`,
+        14, 20,
+      );
+      doc.text(date, pageW - 14, 14, { align: 'right' });
+
+      // Scale the sheet into the drawing area, grain (sheet length) left-to-right.
+      const areaW = pageW - 28;
+      const areaH = 128;
+      const scale = Math.min(areaW / boardL, areaH / boardW);
+      const ox = 14;
+      const oy = 26;
+      doc.setDrawColor(...PART_LINE);
+      doc.setFillColor(...SHEET_FILL);
+      doc.setLineWidth(0.3);
+      doc.rect(ox, oy, boardL * scale, boardW * scale, 'FD');
+
+      for (const offcut of sheet.offcuts) {
+        doc.setFillColor(...OFFCUT_FILL);
+        doc.setLineDashPattern([1, 1], 0);
+        doc.setLineWidth(0.2);
+        doc.rect(ox + offcut.x * scale, oy + offcut.y * scale, offcut.length * scale, offcut.width * scale, 'FD');
+        doc.setLineDashPattern([], 0);
+        doc.setFontSize(6);
+        doc.setTextColor(60, 110, 60);
+        doc.text(
+          `Offcut ${Math.round(offcut.length)} x ${Math.round(offcut.width)}`,
+          ox + (offcut.x + offcut.length / 2) * scale,
+          oy + (offcut.y + offcut.width / 2) * scale,
+          { align: 'center', baseline: 'middle' },
+        );
+      }
+
+      sheet.placements.forEach((part, index) => {
+        const w = (part.rotated ? part.width : part.length) * scale;
+        const h = (part.rotated ? part.length : part.width) * scale;
+        const x = ox + part.x * scale;
+        const y = oy + part.y * scale;
+        doc.setFillColor(255, 255, 255);
+        doc.setDrawColor(...PART_LINE);
+        doc.setLineWidth(0.25);
+        doc.rect(x, y, w, h, 'FD');
+
+        const sides = bandedSides(part);
+        doc.setDrawColor(...EDGE_BAND);
+        doc.setLineWidth(0.7);
+        const inset = 0.5;
+        if (sides.top) doc.line(x + inset, y + inset, x + w - inset, y + inset);
+        if (sides.bottom) doc.line(x + inset, y + h - inset, x + w - inset, y + h - inset);
+        if (sides.left) doc.line(x + inset, y + inset, x + inset, y + h - inset);
+        if (sides.right) doc.line(x + w - inset, y + inset, x + w - inset, y + h - inset);
+
+        if (part.grain === 'length') drawGrainArrow(doc, x, y, w, h, !part.rotated);
+
+        // Big parts carry the full label; small ones just their cut-list number.
+        const cx = x + w / 2;
+        const cy = y + h / 2;
+        doc.setTextColor(0, 0, 0);
+        const tag = `${index + 1}${part.cabinetNumber ? ` ${part.cabinetNumber}` : ''}`;
+        if (w >= 24 && h >= 11) {
+          doc.setFont('helvetica', 'bold');
+          doc.setFontSize(7);
+          doc.text(tag, cx, cy - 3, { align: 'center', baseline: 'middle' });
+          doc.setFont('helvetica', 'normal');
+          doc.setFontSize(6);
+          doc.text(part.partName, cx, cy, { align: 'center', baseline: 'middle', maxWidth: w - 2 });
+          doc.text(`${Math.round(part.length)} x ${Math.round(part.width)}`, cx, cy + 3, { align: 'center', baseline: 'middle' });
+        } else {
+          doc.setFont('helvetica', 'bold');
+          doc.setFontSize(5.5);
+          doc.text(String(index + 1), cx, cy, { align: 'center', baseline: 'middle' });
+        }
+      });
+
+      // Legend
+      const legendY = oy + boardW * scale + 6;
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(7);
+      doc.setTextColor(0, 0, 0);
+      doc.setDrawColor(...EDGE_BAND);
+      doc.setLineWidth(0.7);
+      doc.line(14, legendY, 22, legendY);
+      doc.text('Edge-banded side', 24, legendY + 1);
+      drawGrainArrow(doc, 52, legendY - 4, 12, 6, true);
+      doc.text('Grain direction', 66, legendY + 1);
+      doc.setFillColor(...OFFCUT_FILL);
+      doc.setDrawColor(...PART_LINE);
+      doc.setLineWidth(0.2);
+      doc.rect(92, legendY - 2, 8, 4, 'FD');
+      doc.text('Reusable offcut', 102, legendY + 1);
+
+      autoTable(doc, {
+        startY: legendY + 5,
+        head: [['#', 'Cab', 'Part', 'Length', 'Width', 'Edges', 'Grain', 'Rotated']],
+        body: sheet.placements.map((part, index) => [
+          String(index + 1),
+          part.cabinetNumber ?? '',
+          part.partName,
+          String(Math.round(part.length)),
+          String(Math.round(part.width)),
+          (['len1', 'len2', 'wid1', 'wid2'] as const).filter(k => part.edging[k]).map(k => k.toUpperCase()).join(' ') || '-',
+          part.grain === 'length' ? 'Locked' : '-',
+          part.rotated ? 'Yes' : '',
+        ]),
+        styles: { fontSize: 7, cellPadding: 1 },
+        headStyles: { fillColor: NAVY, textColor: 255 },
+        columnStyles: {
+          0: { halign: 'center', cellWidth: 10 },
+          1: { cellWidth: 14 },
+          3: { halign: 'right', cellWidth: 18 },
+          4: { halign: 'right', cellWidth: 18 },
+          5: { cellWidth: 40 },
+          6: { cellWidth: 16 },
+          7: { cellWidth: 16 },
+        },
+      });
+    }
+  }
+
+  // Parts too large for the stocked sheet are cut from oversize board.
+  // Read from every allocation: a material whose parts are all oversize has
+  // no nested sheets, but its parts still need cutting.
+  const oversize = quoteBOM.consolidatedSheets
+    .flatMap(sh => (sh.nesting?.unplaced ?? []).map(part => ({ part, material: sh.materialName })));
+  if (oversize.length > 0 || nested.length === 0) {
+    if (!firstPage) doc.addPage();
+    doc.setTextColor(0, 0, 0);
+    doc.setFontSize(14);
+    doc.setFont('helvetica', 'bold');
+    doc.text(nested.length === 0 && oversize.length === 0 ? 'Cutting Diagrams' : 'Oversize Parts', 14, 14);
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'normal');
+    doc.text(
+      nested.length === 0 && oversize.length === 0
+        ? `Job: ${jobName} - no nested board parts in this job.`
+        : `Job: ${jobName} - larger than the stocked sheet; cut from oversize board.`,
+      14, 20,
+    );
+    if (oversize.length > 0) {
+      autoTable(doc, {
+        startY: 26,
+        head: [['Cab', 'Part', 'Material', 'Length', 'Width']],
+        body: oversize.map(({ part, material }) => [
+          part.cabinetNumber ?? '',
+          part.partName,
+          material,
+          String(Math.round(part.length)),
+          String(Math.round(part.width)),
+        ]),
+        styles: { fontSize: 8, cellPadding: 1.5 },
+        headStyles: { fillColor: NAVY, textColor: 255 },
+      });
+    }
+  }
+
+  return doc;
+}
+
+export function exportCuttingDiagramsPdf(quoteBOM: QuoteBOM, jobName = 'Job') {
+  const doc = buildCuttingDiagramsPdf(quoteBOM, jobName);
+  doc.save(`${jobName.replace(/\s+/g, '_')}_cutting_diagrams.pdf`);
+}
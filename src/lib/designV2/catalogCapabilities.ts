@@ -16,6 +16,12 @@ const ROLE_MAP: Record<SegmentRole, CatalogCapabilityV2['designerRoles'][number]
   corner: 'corner-base',
   'corner-buffer': 'door-base',
   'fridge-corner-pantry': 'pantry-tall',
+  'laundry-tub': 'sink-base',
+  'washer-gap': 'laundry-opening',
+  'dryer-gap': 'laundry-opening',
+  'hanging-rail': 'wardrobe-tall',
+  'wardrobe-shelves': 'wardrobe-tall',
+  'vanity-basin': 'sink-base',
 };
 
 const MOUNTING_MAP: Record<SegmentRole, CatalogCapabilityV2['mountingClass']> = {
@@ -30,6 +36,12 @@ const MOUNTING_MAP: Record<SegmentRole, CatalogCapabilityV2['mountingClass']> =
   corner: 'base',
   'corner-buffer': 'base',
   'fridge-corner-pantry': 'tall',
+  'laundry-tub': 'base',
+  'washer-gap': 'opening',
+  'dryer-gap': 'opening',
+  'hanging-rail': 'tall',
+  'wardrobe-shelves': 'tall',
+  'vanity-basin': 'base',
 };
 
 /**
@@ -11,6 +11,8 @@ export const layoutStrategySchema = z.enum(['single-wall', 'l-shape', 'u-shape',
 export const australianJurisdictionSchema = z.enum([
   'AU-ACT', 'AU-NSW', 'AU-NT', 'AU-QLD', 'AU-SA', 'AU-TAS', 'AU-VIC', 'AU-WA',
 ]);
+/** Where a regulatory profile can apply: every Australian state and territory, and New Zealand. */
+export const regulatoryJurisdictionSchema = z.enum([...australianJurisdictionSchema.options, 'NZ']);
 export const kitchenProjectScopeSchema = z.enum([
   'new-kitchen',
   'full-kitchen-renovation',
@@ -125,7 +127,7 @@ export const styleSelectionV2Schema = z.object({
 }).strict();
 
 export const projectContextV2Schema = z.object({
-  jurisdiction: australianJurisdictionSchema.nullable(),
+  jurisdiction: regulatoryJurisdictionSchema.nullable(),
   projectScope: kitchenProjectScopeSchema.nullable(),
   effectiveOn: z.string().date(),
   regulatoryProfileId: z.string().trim().min(1).max(160).nullable(),
@@ -165,6 +167,7 @@ export const cabinetRoleV2Schema = z.enum([
   'sink-base', 'cooktop-base', 'dishwasher-opening', 'drawer-base', 'door-base',
   'bin-base', 'corner-base', 'wall-storage', 'rangehood-wall', 'open-shelf',
   'pantry-tall', 'oven-tower', 'appliance-tower', 'fridge-opening', 'filler', 'end-panel',
+  'laundry-opening', 'wardrobe-tall',
 ]);
 
 export const cornerIntentV2Schema = z.object({
@@ -223,6 +226,8 @@ export const kitchenRuleResultV1Schema = z.object({
   severity: z.enum(['blocker', 'warning', 'advisory']),
   status: z.enum(['pass', 'fail', 'excepted', 'pending', 'not-applicable']),
   messageKey: z.string().trim().min(1).max(160),
+  /** the matched regulatory profile's clause a regulated result was judged under */
+  citation: z.string().trim().min(1).max(200).optional(),
   entityIds: z.array(z.string().max(160)),
   measured: z.record(ruleValueSchema).optional(),
   required: z.record(ruleValueSchema).optional(),
@@ -263,10 +268,17 @@ export const catalogCapabilityV2Schema = z.object({
   priority: z.number().int(),
 }).strict();
 
+export const regulatoryParameterV1Schema = z.object({
+  parameterId: z.string().trim().min(1).max(120),
+  value: ruleValueSchema,
+  unit: z.enum(['mm', 'count', 'flag']),
+  clause: z.string().trim().min(1).max(200),
+}).strict();
+
 export const regulatoryProfileV1Schema = z.object({
   profileId: z.string().trim().min(1).max(160),
   version: z.string().trim().min(1).max(80),
-  jurisdiction: australianJurisdictionSchema,
+  jurisdiction: regulatoryJurisdictionSchema,
   effectiveFrom: z.string().date(),
   effectiveTo: z.string().date().nullable(),
   projectScopes: z.array(kitchenProjectScopeSchema).min(1),
@@ -274,6 +286,7 @@ export const regulatoryProfileV1Schema = z.object({
   qualifiedApprover: z.string().trim().min(1).max(200),
   approvalDate: z.string().date(),
   contentHash: z.string().regex(/^[0-9a-f]{64}$/i),
+  parameters: z.array(regulatoryParameterV1Schema).max(64).default([]),
 }).strict();
 
 export type RequirementStrength = z.infer<typeof requirementStrengthSchema>;
@@ -286,6 +299,9 @@ export type CabinetIntentV2 = z.infer<typeof cabinetIntentV2Schema>;
 export type DesignOperationV2 = z.infer<typeof designOperationV2Schema>;
 export type KitchenRuleResultV1 = z.infer<typeof kitchenRuleResultV1Schema>;
 export type CatalogCapabilityV2 = z.infer<typeof catalogCapabilityV2Schema>;
+export type RegulatoryJurisdiction = z.infer<typeof regulatoryJurisdictionSchema>;
+export type KitchenProjectScope = z.infer<typeof kitchenProjectScopeSchema>;
+export type RegulatoryParameterV1 = z.infer<typeof regulatoryParameterV1Schema>;
 export type RegulatoryProfileV1 = z.infer<typeof regulatoryProfileV1Schema>;
 
 export { openingSchema, servicePointSchema };
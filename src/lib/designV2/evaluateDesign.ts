@@ -14,8 +14,8 @@
  * the two layers one system rather than two disconnected ones.
  */
 
-import { validate, RULE_INDEX } from '@/lib/layout';
-import type { CompiledDesign, DesignBrief, RoomSpec, KitchenSpec, Violation } from '@/lib/layout';
+import { cooktopOverheadClearances, validate, RULE_INDEX } from '@/lib/layout';
+import type { CompiledDesign, DesignBrief, LayoutRulePack, RoomSpec, KitchenSpec, Violation } from '@/lib/layout';
 import { evaluateKitchenRules, hasConceptBlocker, quoteBlockers, MAPPED_VIOLATION_CODES } from './evaluateKitchenRules';
 import type { KitchenRuleResultV1, DesignBriefV2, RegulatoryProfileV1 } from './contracts';
 
@@ -35,6 +35,8 @@ export interface EvaluateDesignOptions {
   projectContext?: DesignBriefV2['projectContext'] | null;
   /** approved regulatory profiles (empty until Bower signs one off). */
   approvedProfiles?: RegulatoryProfileV1[];
+  /** active layout rule pack (Admin → Design Rules); built-in defaults when omitted. */
+  rulePack?: LayoutRulePack;
 }
 
 export function evaluateDesign(
@@ -44,13 +46,15 @@ export function evaluateDesign(
   spec: KitchenSpec,
   opts: EvaluateDesignOptions = {},
 ): EvaluateDesignResult {
-  const violations = validate(compiled, room, brief);
+  const violations = validate(compiled, room, brief, opts.rulePack);
   const ruleResults = evaluateKitchenRules({
     brief,
     spec,
     violations,
     projectContext: opts.projectContext ?? null,
     approvedProfiles: opts.approvedProfiles ?? [],
+    rulePack: opts.rulePack,
+    cooktopOverheads: cooktopOverheadClearances(compiled, brief.appliances.cooktopInstructions?.trivetHeightMm),
   });
   return {
     violations,
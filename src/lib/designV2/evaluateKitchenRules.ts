@@ -2,6 +2,10 @@
  * evaluateKitchenRules — maps the deterministic engine's findings onto the
  * versioned KitchenRuleResultV1 shape (plan §7.4) and holds regulated rules
  * at `pending` until an approved jurisdiction profile matches the project.
+ * Once one does, each regulated result cites the profile clause it is judged
+ * under, and a gas cooktop's vertical clearances (measured on the compiled
+ * design) are held to the profile, or to the cooktop's installation
+ * instructions where those are stricter.
  *
  * The engine's validate() remains the geometric authority; this layer gives
  * every finding a stable rule ID, stage, severity and pack version so results
@@ -9,9 +13,11 @@
  * sorted; no timestamps or randomness.
  */
 
-import type { DesignBrief, KitchenSpec, Violation } from '@/lib/layout';
+import type {
+  CooktopOverheadClearances, DesignBrief, KitchenSpec, LayoutRulePack, RuleTier, Violation,
+} from '@/lib/layout';
 import type { DesignBriefV2, KitchenRuleResultV1, RegulatoryProfileV1 } from './contracts';
-import { selectRegulatoryProfile } from './regulatoryProfiles';
+import { regulatoryParameter, selectRegulatoryProfile } from './regulatoryProfiles';
 import { BOWER_LAYOUT_PACK_VERSION, REGULATORY_PROFILE_PENDING } from './rulePack';
 
 export interface EvaluateKitchenRulesInput {
@@ -23,6 +29,10 @@ export interface EvaluateKitchenRulesInput {
   projectContext: DesignBriefV2['projectContext'] | null;
   /** approved regulatory profiles (empty until Bower approves one) */
   approvedProfiles: RegulatoryProfileV1[];
+  /** the layout rule pack validate() ran with; omitted = built-in defaults */
+  rulePack?: LayoutRulePack;
+  /** what sits above the cooktop in the compiled design; omitted = not measured */
+  cooktopOverheads?: CooktopOverheadClearances | null;
 }
 
 /** violation code → stable rule mapping (doc §7.4 tables) */
@@ -30,6 +40,7 @@ const VIOLATION_RULES: Record<string, { ruleId: string; stage: 'concept' | 'quot
   'out-of-room': { ruleId: 'KRN-ROOM-001', stage: 'concept', severity: 'blocker' },
   'overlap': { ruleId: 'KRN-ROOM-001', stage: 'concept', severity: 'blocker' },
   'faces-wall': { ruleId: 'KRN-FACE-001', stage: 'concept', severity: 'blocker' },
+  'obstruction-clash': { ruleId: 'KRN-ROOM-001', stage: 'concept', severity: 'blocker' },
   'allowed-wall': { ruleId: 'KRN-ROOM-001', stage: 'concept', severity: 'blocker' },
   'selected-wall-missing': { ruleId: 'KRN-ROOM-001', stage: 'concept', severity: 'blocker' },
   'wall-run-range': { ruleId: 'KRN-ROOM-001', stage: 'concept', severity: 'blocker' },
@@ -38,6 +49,12 @@ const VIOLATION_RULES: Record<string, { ruleId: string; stage: 'concept' | 'quot
   'narrow-galley': { ruleId: 'KRN-AISLE-001', stage: 'concept', severity: 'blocker' },
   'door-swing': { ruleId: 'KRN-OPEN-001', stage: 'concept', severity: 'warning' },
   'doorway-tight': { ruleId: 'KRN-OPEN-002', stage: 'concept', severity: 'warning' },
+  'room-type-role': { ruleId: 'KRN-ROOM-002', stage: 'concept', severity: 'blocker' },
+  'no-laundry-tub': { ruleId: 'KRN-APPL-001', stage: 'concept', severity: 'blocker' },
+  'no-washer': { ruleId: 'KRN-APPL-001', stage: 'concept', severity: 'blocker' },
+  'washer-beside-tub': { ruleId: 'KRN-FLOW-001', stage: 'concept', severity: 'warning' },
+  'no-hanging': { ruleId: 'KRN-APPL-001', stage: 'concept', severity: 'blocker' },
+  'no-vanity-basin': { ruleId: 'KRN-APPL-001', stage: 'concept', severity: 'blocker' },
   'no-sink': { ruleId: 'KRN-APPL-001', stage: 'concept', severity: 'blocker' },
   'no-dishwasher': { ruleId: 'KRN-APPL-001', stage: 'concept', severity: 'warning' },
   'no-fridge': { ruleId: 'KRN-APPL-001', stage: 'concept', severity: 'blocker' },
@@ -57,11 +74,15 @@ const VIOLATION_RULES: Record<string, { ruleId: string; stage: 'concept' | 'quot
   'style-composition-fidelity': { ruleId: 'KRN-STYLE-001', stage: 'concept', severity: 'blocker' },
   'oven-housing-fit': { ruleId: 'KRN-APPL-002', stage: 'concept', severity: 'blocker' },
   'island-exposed': { ruleId: 'KRN-JOIN-001', stage: 'concept', severity: 'warning' },
+  'peninsula-exposed': { ruleId: 'KRN-JOIN-001', stage: 'concept', severity: 'warning' },
   'cooktop-landing': { ruleId: 'KRN-BENCH-001', stage: 'concept', severity: 'warning' },
   'fridge-landing': { ruleId: 'KRN-BENCH-001', stage: 'concept', severity: 'warning' },
   'prep-space': { ruleId: 'KRN-BENCH-001', stage: 'concept', severity: 'warning' },
   'sink-side-clearance': { ruleId: 'KRN-BENCH-001', stage: 'concept', severity: 'warning' },
   'replumb': { ruleId: 'KRN-SINK-003', stage: 'quote', severity: 'warning' },
+  // A planning allowance, not the wiring-rules zone: the regulated check is
+  // KRN-ELEC-001, judged against the matched profile.
+  'sink-wet-zone': { ruleId: 'ERG-ELEC-ZONE-001', stage: 'quote', severity: 'advisory' },
   'gas-move': { ruleId: 'ERG-GAS-MOVE-001', stage: 'quote', severity: 'advisory' },
   'triangle-size': { ruleId: 'KRN-FLOW-001', stage: 'concept', severity: 'advisory' },
   'triangle-leg': { ruleId: 'KRN-FLOW-001', stage: 'concept', severity: 'advisory' },
@@ -73,12 +94,87 @@ const VIOLATION_RULES: Record<string, { ruleId: string; stage: 'concept' | 'quot
  *  rule can never silently fall through to the generic bucket. */
 export const MAPPED_VIOLATION_CODES: ReadonlySet<string> = new Set(Object.keys(VIOLATION_RULES));
 
+/** Severity for a rule whose tier the rule pack has changed. */
+const TIER_SEVERITY: Record<RuleTier, 'blocker' | 'warning' | 'advisory'> = {
+  hard: 'blocker',
+  safety: 'warning',
+  soft: 'advisory',
+};
+
+type RegulatedOutcome = Pick<KitchenRuleResultV1, 'status' | 'messageKey' | 'entityIds' | 'measured' | 'required'>;
+type CooktopInstructions = DesignBrief['appliances']['cooktopInstructions'];
+
+function profileMm(profile: RegulatoryProfileV1, parameterId: string): number | undefined {
+  const value = (profile.parameters ?? []).find(parameter => parameter.parameterId === parameterId)?.value;
+  return typeof value === 'number' ? value : undefined;
+}
+
+/** The stricter of the profile minimum and the installation instruction, and which one it was. */
+function requiredClearance(profileMin: number, instructionMin: number | undefined) {
+  return instructionMin !== undefined && instructionMin > profileMin
+    ? { clearanceMm: instructionMin, basis: 'appliance-instructions' }
+    : { clearanceMm: profileMin, basis: 'regulatory-profile' };
+}
+
+/**
+ * KRN-RH-001 mounting height: trivet to rangehood. Meeting the profile is not
+ * a pass on its own — the instructions may ask for more — so without them the
+ * rule stays pending with the measurement recorded.
+ */
+function rangehoodHeight(
+  profile: RegulatoryProfileV1,
+  clearances: CooktopOverheadClearances,
+  instructions: CooktopInstructions,
+): RegulatedOutcome | null {
+  const hood = clearances.overheads.find(overhead => overhead.kind === 'rangehood');
+  const profileMin = profileMm(profile, 'gas-cooktop-to-rangehood-min');
+  if (!hood || profileMin === undefined) return null;
+  const required = requiredClearance(profileMin, instructions?.rangehoodClearanceMm);
+  const outcome = {
+    entityIds: [clearances.cooktopItemId, hood.itemId],
+    measured: { clearanceMm: hood.clearanceMm },
+    required,
+  };
+  if (hood.clearanceMm < required.clearanceMm) return { ...outcome, status: 'fail', messageKey: 'regulatory.rh.below-minimum' };
+  return instructions?.rangehoodClearanceMm === undefined
+    ? { ...outcome, status: 'pending', messageKey: 'regulatory.rh.awaiting-appliance-data' }
+    : { ...outcome, status: 'pass', messageKey: 'regulatory.rh.clearance-met' };
+}
+
+/**
+ * KRN-COOK-002 overhead part: wall cabinets and shelves over the cooktop.
+ * Below the absolute minimum always fails; between it and the unprotected
+ * clearance the surface needs protection nobody has recorded yet. Side and
+ * rear clearances still come from appliance data, so this never passes.
+ */
+function overheadSurfaces(
+  profile: RegulatoryProfileV1,
+  clearances: CooktopOverheadClearances,
+  instructions: CooktopInstructions,
+): RegulatedOutcome | null {
+  const nearest = clearances.overheads.find(overhead => overhead.kind !== 'rangehood');
+  const absoluteMin = profileMm(profile, 'gas-cooktop-overhead-absolute-min');
+  const unprotectedMin = profileMm(profile, 'gas-cooktop-to-rangehood-min');
+  if (!nearest || absoluteMin === undefined || unprotectedMin === undefined) return null;
+  const required = requiredClearance(absoluteMin, instructions?.overheadClearanceMm);
+  const outcome = {
+    entityIds: [clearances.cooktopItemId, nearest.itemId],
+    measured: { clearanceMm: nearest.clearanceMm, surface: nearest.kind },
+    required: { ...required, unprotectedClearanceMm: unprotectedMin },
+  };
+  if (nearest.clearanceMm < required.clearanceMm) return { ...outcome, status: 'fail', messageKey: 'regulatory.cook.overhead-below-minimum' };
+  if (nearest.clearanceMm < unprotectedMin) return { ...outcome, status: 'pending', messageKey: 'regulatory.cook.overhead-protection-unconfirmed' };
+  return { ...outcome, status: 'pending', messageKey: 'regulatory.cook.awaiting-appliance-data' };
+}
+
 function ruleResult(partial: Omit<KitchenRuleResultV1, 'repairOptions' | 'entityIds'> & { entityIds?: string[] }): KitchenRuleResultV1 {
   return { entityIds: [], repairOptions: [], ...partial };
 }
 
 export function evaluateKitchenRules(input: EvaluateKitchenRulesInput): KitchenRuleResultV1[] {
   const results: KitchenRuleResultV1[] = [];
+  const rulePackVersion = input.rulePack?.version ?? BOWER_LAYOUT_PACK_VERSION;
+  const tierOverrides = input.rulePack?.tiers ?? {};
 
   // 1. Engine findings → layout-pack rule results.
   for (const violation of input.violations) {
@@ -88,7 +184,7 @@ export function evaluateKitchenRules(input: EvaluateKitchenRulesInput): KitchenR
       // concept warning under the generic room rule so it stays visible.
       results.push(ruleResult({
         ruleId: 'KRN-ROOM-001',
-        rulePackVersion: BOWER_LAYOUT_PACK_VERSION,
+        rulePackVersion,
         stage: 'concept',
         severity: violation.severity === 'error' ? 'blocker' : 'warning',
         status: 'fail',
@@ -97,11 +193,12 @@ export function evaluateKitchenRules(input: EvaluateKitchenRulesInput): KitchenR
       }));
       continue;
     }
+    const tier = tierOverrides[violation.code];
     results.push(ruleResult({
       ruleId: mapping.ruleId,
-      rulePackVersion: BOWER_LAYOUT_PACK_VERSION,
+      rulePackVersion,
       stage: mapping.stage,
-      severity: mapping.severity,
+      severity: tier ? TIER_SEVERITY[tier] : mapping.severity,
       status: 'fail',
       messageKey: `engine.${violation.code}`,
       entityIds: violation.itemIds ?? [],
@@ -114,7 +211,7 @@ export function evaluateKitchenRules(input: EvaluateKitchenRulesInput): KitchenR
     if (!failedRuleIds.has(passRule)) {
       results.push(ruleResult({
         ruleId: passRule,
-        rulePackVersion: BOWER_LAYOUT_PACK_VERSION,
+        rulePackVersion,
         stage: 'concept',
         severity: 'blocker',
         status: 'pass',
@@ -130,31 +227,45 @@ export function evaluateKitchenRules(input: EvaluateKitchenRulesInput): KitchenR
   const regulatoryVersion = selection.status === 'matched'
     ? `${selection.profile.profileId}@${selection.profile.version}`
     : REGULATORY_PROFILE_PENDING;
+  const citation = (ruleId: string) => {
+    const clause = selection.status === 'matched' ? regulatoryParameter(selection.profile, ruleId)?.clause : undefined;
+    return clause ? { citation: clause } : {};
+  };
 
   const gasCooktop = input.brief.appliances.cooktop === 'gas';
+  const measuredGas = gasCooktop && selection.status === 'matched' && input.cooktopOverheads
+    ? { profile: selection.profile, clearances: input.cooktopOverheads, instructions: input.brief.appliances.cooktopInstructions }
+    : null;
+  const rangehood = measuredGas && rangehoodHeight(measuredGas.profile, measuredGas.clearances, measuredGas.instructions);
+  const overhead = measuredGas && overheadSurfaces(measuredGas.profile, measuredGas.clearances, measuredGas.instructions);
   results.push(ruleResult({
     ruleId: 'KRN-RH-001',
     rulePackVersion: regulatoryVersion,
+    ...citation('KRN-RH-001'),
     stage: 'quote',
     severity: 'blocker',
     status: gasCooktop ? 'pending' : 'not-applicable',
     messageKey: gasCooktop
       ? (selection.status === 'matched' ? 'regulatory.rh.awaiting-appliance-data' : 'regulatory.profile-pending')
       : 'regulatory.rh.not-applicable',
+    ...rangehood,
   }));
   results.push(ruleResult({
     ruleId: 'KRN-COOK-002',
     rulePackVersion: regulatoryVersion,
+    ...citation('KRN-COOK-002'),
     stage: 'quote',
     severity: 'blocker',
     status: 'pending',
     messageKey: selection.status === 'matched'
       ? 'regulatory.cook.awaiting-appliance-data'
       : 'regulatory.profile-pending',
+    ...overhead,
   }));
   results.push(ruleResult({
     ruleId: 'KRN-ELEC-001',
     rulePackVersion: regulatoryVersion,
+    ...citation('KRN-ELEC-001'),
     stage: 'quote',
     severity: 'blocker',
     status: 'pending',
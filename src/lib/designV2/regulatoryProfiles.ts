@@ -1,9 +1,37 @@
-import type { DesignBriefV2, RegulatoryProfileV1 } from './contracts';
+import type { RulePackParameter } from '@/lib/layout/rulePack';
+import type {
+  DesignBriefV2,
+  KitchenProjectScope,
+  RegulatoryJurisdiction,
+  RegulatoryParameterV1,
+  RegulatoryProfileV1,
+} from './contracts';
+import { regulatoryProfileV1Schema } from './contracts';
+import { sha256Canonical } from './fingerprint';
 
 export type RegulatoryProfileSelection =
   | { status: 'matched'; profile: RegulatoryProfileV1 }
   | { status: 'pending'; reason: string };
 
+/**
+ * The project context a design is judged under: where the kitchen is, what
+ * work is being done, and the day it is checked (local date). Either left
+ * unset keeps regulated rules pending.
+ */
+export function projectContextFor(
+  jurisdiction: RegulatoryJurisdiction | null | undefined,
+  projectScope: KitchenProjectScope | null | undefined,
+  on: Date = new Date(),
+): DesignBriefV2['projectContext'] {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return {
+    jurisdiction: jurisdiction ?? null,
+    projectScope: projectScope ?? null,
+    effectiveOn: `${on.getFullYear()}-${pad(on.getMonth() + 1)}-${pad(on.getDate())}`,
+    regulatoryProfileId: null,
+  };
+}
+
 export function selectRegulatoryProfile(
   context: DesignBriefV2['projectContext'],
   profiles: RegulatoryProfileV1[],
@@ -13,16 +41,146 @@ export function selectRegulatoryProfile(
   }
 
   const on = Date.parse(`${context.effectiveOn}T00:00:00Z`);
-  const profile = profiles.find(candidate => {
-    if (candidate.jurisdiction !== context.jurisdiction) return false;
-    if (!candidate.projectScopes.includes(context.projectScope!)) return false;
-    if (context.regulatoryProfileId && candidate.profileId !== context.regulatoryProfileId) return false;
-    const starts = Date.parse(`${candidate.effectiveFrom}T00:00:00Z`);
-    const ends = candidate.effectiveTo ? Date.parse(`${candidate.effectiveTo}T23:59:59Z`) : Number.POSITIVE_INFINITY;
-    return on >= starts && on <= ends;
-  });
+  // Where a later profile supersedes an earlier one without closing it, the
+  // most recently effective wins.
+  const profile = [...profiles]
+    .sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom))
+    .find(candidate => {
+      if (candidate.jurisdiction !== context.jurisdiction) return false;
+      if (!candidate.projectScopes.includes(context.projectScope!)) return false;
+      if (context.regulatoryProfileId && candidate.profileId !== context.regulatoryProfileId) return false;
+      const starts = Date.parse(`${candidate.effectiveFrom}T00:00:00Z`);
+      const ends = candidate.effectiveTo ? Date.parse(`${candidate.effectiveTo}T23:59:59Z`) : Number.POSITIVE_INFINITY;
+      return on >= starts && on <= ends;
+    });
 
   return profile
     ? { status: 'matched', profile }
     : { status: 'pending', reason: 'No approved regulatory profile matches this project' };
 }
+
+/** Regulated rule → the profile parameter whose clause it is judged under. */
+export const REGULATED_RULE_PARAMETERS: Readonly<Record<string, string>> = {
+  'KRN-RH-001': 'gas-cooktop-to-rangehood-min',
+  'KRN-COOK-002': 'gas-cooktop-overhead-absolute-min',
+  'KRN-ELEC-001': 'sink-electrical-zone-profile',
+};
+
+export function regulatoryParameter(profile: RegulatoryProfileV1, ruleId: string): RegulatoryParameterV1 | undefined {
+  const parameterId = REGULATED_RULE_PARAMETERS[ruleId];
+  return (profile.parameters ?? []).find(parameter => parameter.parameterId === parameterId);
+}
+
+/**
+ * SHA-256 of everything an approval signs off — the profile less its own
+ * hash. Recorded when a reviewer approves a profile; a stored profile whose
+ * contents no longer hash to the recorded value is not used.
+ */
+export async function regulatoryProfileContentHash(
+  profile: Omit<RegulatoryProfileV1, 'contentHash'> & { contentHash?: string },
+): Promise<string> {
+  const { contentHash: _recorded, ...content } = profile;
+  return sha256Canonical({ hashVersion: 1, ...content, parameters: content.parameters ?? [] });
+}
+
+/**
+ * A regulatory parameter as stored on a profile row. `bowerApproved` is ticked
+ * by the reviewer once the value and clause are checked against the standards
+ * copy; a profile can only be approved with every parameter ticked.
+ */
+export interface RegulatoryProfileRowParameter extends RulePackParameter {
+  clause: string;
+}
+
+/** One `ai_regulatory_profiles` row. */
+export interface RegulatoryProfileRow {
+  id: string;
+  profile_key: string;
+  version: string;
+  jurisdiction: RegulatoryProfileV1['jurisdiction'];
+  project_scopes: RegulatoryProfileV1['projectScopes'];
+  rules: RegulatoryProfileRowParameter[];
+  standards_editions: Record<string, string>;
+  status: 'draft' | 'approved' | 'retired';
+  qualified_approver: string | null;
+  content_hash: string | null;
+  approved_by: string | null;
+  approved_at: string | null;
+  effective_from: string;
+  effective_to: string | null;
+}
+
+/** The profile an approved row describes, or null when the row is not a complete approval. */
+export function regulatoryProfileFromRow(row: RegulatoryProfileRow): RegulatoryProfileV1 | null {
+  if (row.status !== 'approved') return null;
+  const parsed = regulatoryProfileV1Schema.safeParse({
+    profileId: row.profile_key,
+    version: row.version,
+    jurisdiction: row.jurisdiction,
+    effectiveFrom: row.effective_from,
+    effectiveTo: row.effective_to,
+    projectScopes: row.project_scopes,
+    standardsEditions: row.standards_editions,
+    qualifiedApprover: row.qualified_approver,
+    approvalDate: row.approved_at?.slice(0, 10),
+    contentHash: row.content_hash,
+    parameters: (row.rules ?? []).map(({ parameterId, value, unit, clause }) => ({ parameterId, value, unit, clause })),
+  });
+  return parsed.success ? parsed.data : null;
+}
+
+/** Approved rows whose contents still match their recorded hash — the profiles rules may match against. */
+export async function verifiedRegulatoryProfiles(rows: RegulatoryProfileRow[]): Promise<RegulatoryProfileV1[]> {
+  const profiles = rows.map(regulatoryProfileFromRow).filter((p): p is RegulatoryProfileV1 => p !== null);
+  const hashes = await Promise.all(profiles.map(regulatoryProfileContentHash));
+  return profiles.filter((profile, i) => hashes[i] === profile.contentHash.toLowerCase());
+}
+
+/** Version the next approval of a profile takes: one past every version already approved or retired. */
+export function nextRegulatoryProfileVersion(rows: Pick<RegulatoryProfileRow, 'profile_key' | 'status'>[], profileKey: string): string {
+  const settled = rows.filter(row => row.profile_key === profileKey && row.status !== 'draft').length;
+  return `${settled + 1}.0.0`;
+}
+
+/** Problems that stop a draft row being approved, one line each. */
+export function regulatoryApprovalErrors(
+  row: Pick<RegulatoryProfileRow, 'rules' | 'effective_from' | 'effective_to'>,
+  qualifiedApprover: string,
+): string[] {
+  const errors: string[] = [];
+  if (!qualifiedApprover.trim()) errors.push('Record the qualified reviewer who verified this profile');
+  if (!row.effective_from) errors.push('Set the date the profile takes effect');
+  if (row.effective_to && row.effective_from && row.effective_to < row.effective_from) {
+    errors.push('The profile cannot end before it takes effect');
+  }
+  if (row.rules.length === 0) errors.push('The profile has no parameters');
+  for (const parameter of row.rules) {
+    if (!parameter.clause.trim()) errors.push(`${parameter.parameterId} needs the clause it comes from`);
+    if (!parameter.bowerApproved) errors.push(`${parameter.parameterId} has not been verified`);
+  }
+  return errors;
+}
+
+/**
+ * The profile a reviewer signs off when approving a draft row, hashed. The
+ * row is then stored with this version, approver, date and hash, so
+ * regulatoryProfileFromRow() reads back exactly what was signed.
+ */
+export async function signRegulatoryProfile(
+  row: RegulatoryProfileRow,
+  approval: { version: string; qualifiedApprover: string; approvedAt: Date },
+): Promise<RegulatoryProfileV1> {
+  const profile: Omit<RegulatoryProfileV1, 'contentHash'> = {
+    profileId: row.profile_key,
+    version: approval.version,
+    jurisdiction: row.jurisdiction,
+    effectiveFrom: row.effective_from,
+    effectiveTo: row.effective_to,
+    projectScopes: row.project_scopes,
+    standardsEditions: row.standards_editions,
+    qualifiedApprover: approval.qualifiedApprover.trim(),
+    approvalDate: approval.approvedAt.toISOString().slice(0, 10),
+    parameters: row.rules.map(({ parameterId, value, unit, clause }) => ({ parameterId, value, unit, clause: clause.trim() })),
+  };
+  return { ...profile, contentHash: await regulatoryProfileContentHash(profile) };
+}
@@ -4,20 +4,24 @@
  * Two layers:
  *  - `bower-kitchen-layout` — cabinet compatibility, Bower business rules and
  *    ergonomic defaults. Bower-tunable; warnings/advisory, never regulatory.
- *  - jurisdiction regulatory profiles — regulated minimums. DISABLED until a
- *    qualified reviewer approves a matching profile; affected rules return
- *    `pending`, never a silently-invented national default.
+ *  - jurisdiction regulatory profiles — regulated minimums, one per
+ *    Australian state/territory and NZ. DISABLED until a qualified reviewer
+ *    approves a matching profile; affected rules return `pending`, never a
+ *    silently-invented national default.
  *
  * Every parameter carries its source and class. No unexplained literals.
  */
 
 import { z } from 'zod';
-import { australianJurisdictionSchema, kitchenProjectScopeSchema } from './contracts';
+import { BOWER_LAYOUT_PACK_VERSION, type RulePackParameter } from '@/lib/layout/rulePack';
+import { kitchenProjectScopeSchema, type RegulatoryJurisdiction } from './contracts';
+import type { RegulatoryProfileRowParameter } from './regulatoryProfiles';
+
+export { BOWER_LAYOUT_PACK_VERSION };
+export type { RuleParameterClass, RulePackParameter } from '@/lib/layout/rulePack';
 
-type AustralianJurisdiction = z.infer<typeof australianJurisdictionSchema>;
 type KitchenProjectScope = z.infer<typeof kitchenProjectScopeSchema>;
 
-export const BOWER_LAYOUT_PACK_VERSION = 'bower-kitchen-layout@0.1.0';
 export const REGULATORY_PROFILE_PENDING = 'regulatory-profile@pending';
 
 /**
@@ -26,8 +30,8 @@ export const REGULATORY_PROFILE_PENDING = 'regulatory-profile@pending';
  * for design-time guidance. It does NOT substitute for qualified
  * standards-copy verification of regulated minimums — the QLD profile stays
  * draft (and regulated rules stay `pending`) until that verification is
- * recorded. Values are reviewable/editable in Admin → Design Rules; edits
- * move to DB-backed config in a later phase.
+ * recorded. The engine's own thresholds and tiers are edited and approved in
+ * Admin → Design Rules (layout_rule_packs, see src/lib/layout/rulePack.ts).
  */
 export const PACK_SIGN_OFF = {
   approvedBy: 'Ben Berthelsen',
@@ -37,18 +41,6 @@ export const PACK_SIGN_OFF = {
   qualifiedVerificationOutstanding: true,
 } as const;
 
-export type RuleParameterClass = 'regulatory' | 'ergonomic';
-
-export interface RulePackParameter {
-  parameterId: string;
-  class: RuleParameterClass;
-  value: number | string | boolean;
-  unit: 'mm' | 'count' | 'flag';
-  source: string;
-  /** false until Bower signs the value off; draft packs ship nothing approved */
-  bowerApproved: boolean;
-}
-
 /** Ergonomic defaults (NKBA-derived, metric-rounded). Guidance, not statute. */
 const ERGONOMIC_PARAMETER_SEEDS: RulePackParameter[] = [
   { parameterId: 'work-aisle-single-cook-min', class: 'ergonomic', value: 1070, unit: 'mm', source: 'NKBA 42in work aisle', bowerApproved: false },
@@ -71,40 +63,68 @@ export const ERGONOMIC_PARAMETERS: RulePackParameter[] =
   ERGONOMIC_PARAMETER_SEEDS.map((parameter) => ({ ...parameter, bowerApproved: true }));
 
 /**
- * QLD regulatory profile DRAFT — seed decisions awaiting a qualified approver.
- * This is deliberately NOT a RegulatoryProfileV1: it has no qualifiedApprover,
- * approvalDate or contentHash, so it can never be passed to
- * selectRegulatoryProfile() as an approved profile. Regulated rules stay
- * `pending` until Bower converts this draft into an approved profile.
+ * Regulatory profile DRAFTS — seed decisions awaiting a qualified approver,
+ * one per jurisdiction. A draft is deliberately NOT a RegulatoryProfileV1: it
+ * has no qualifiedApprover, approvalDate or contentHash, so it can never be
+ * passed to selectRegulatoryProfile() as an approved profile. A reviewer
+ * copies it into `ai_regulatory_profiles` from Admin → Design Rules, checks
+ * each value and clause there, and approves it; regulated rules stay
+ * `pending` for a jurisdiction until then.
  */
 export interface RegulatoryProfileDraft {
   status: 'draft-pending-approval';
   profileId: string;
   version: string;
-  jurisdiction: AustralianJurisdiction;
+  jurisdiction: RegulatoryJurisdiction;
   projectScopes: KitchenProjectScope[];
   standardsEditions: Record<string, string>;
-  seedParameters: RulePackParameter[];
+  seedParameters: RegulatoryProfileRowParameter[];
   approvalRequired: string;
 }
 
-export const QLD_REGULATORY_PROFILE_DRAFT: RegulatoryProfileDraft = {
-  status: 'draft-pending-approval',
-  profileId: 'bower-regulatory-au-qld',
-  version: '0.1.0-draft',
-  jurisdiction: 'AU-QLD',
-  projectScopes: ['new-kitchen', 'full-kitchen-renovation'],
-  standardsEditions: {
-    'AS/NZS 5601.1': '2022',
-    'AS/NZS 3000': '2018',
-  },
-  seedParameters: [
-    { parameterId: 'gas-cooktop-to-rangehood-min', class: 'regulatory', value: 650, unit: 'mm', source: 'AS/NZS 5601.1:2022 cl 6.10.1.1 (trivet top to rangehood, new installation); greater of appliance/rangehood instructions applies', bowerApproved: false },
-    { parameterId: 'gas-cooktop-to-exhaust-fan-min', class: 'regulatory', value: 750, unit: 'mm', source: 'AS/NZS 5601.1:2022 cl 6.10.1.1', bowerApproved: false },
-    { parameterId: 'gas-cooktop-overhead-absolute-min', class: 'regulatory', value: 450, unit: 'mm', source: 'AS/NZS 5601.1:2022 (protected surfaces per Appendix C below 650mm)', bowerApproved: false },
-    { parameterId: 'gas-legacy-600-appliance-only', class: 'regulatory', value: true, unit: 'flag', source: 'Legacy 600mm path applies ONLY to appliance-only changeover; never to AI-designed cabinets or renovations', bowerApproved: false },
-    { parameterId: 'sink-electrical-zone-profile', class: 'regulatory', value: 'AS/NZS 3000:2018 wet-area zones — geometry and permitted protected devices to be implemented from the approved standards copy, not summaries', unit: 'flag', source: 'AS/NZS 3000:2018', bowerApproved: false },
-  ],
-  approvalRequired:
-    'A qualified reviewer must verify every value against current QLD-adopted standards copies, record approver + date, and generate the content hash before this profile can be enabled.',
-};
+const GAS_STANDARD = 'AS/NZS 5601.1';
+const WIRING_STANDARD = 'AS/NZS 3000';
+
+/** The seed values are the same wherever the standards apply; only the editions cited differ. */
+function regulatoryProfileDraft(jurisdiction: RegulatoryJurisdiction, editions: { gas: string; wiring: string }): RegulatoryProfileDraft {
+  const gas = `${GAS_STANDARD}:${editions.gas}`;
+  const wiring = `${WIRING_STANDARD}:${editions.wiring}`;
+  return {
+    status: 'draft-pending-approval',
+    profileId: `bower-regulatory-${jurisdiction.toLowerCase()}`,
+    version: '0.1.0-draft',
+    jurisdiction,
+    projectScopes: ['new-kitchen', 'full-kitchen-renovation'],
+    standardsEditions: {
+      [GAS_STANDARD]: editions.gas,
+      [WIRING_STANDARD]: editions.wiring,
+    },
+    seedParameters: [
+      { parameterId: 'gas-cooktop-to-rangehood-min', class: 'regulatory', value: 650, unit: 'mm', clause: `${gas} cl 6.10.1.1`, source: 'Trivet top to rangehood, new installation; greater of appliance/rangehood instructions applies', bowerApproved: false },
+      { parameterId: 'gas-cooktop-to-exhaust-fan-min', class: 'regulatory', value: 750, unit: 'mm', clause: `${gas} cl 6.10.1.1`, source: 'Trivet top to exhaust fan', bowerApproved: false },
+      { parameterId: 'gas-cooktop-overhead-absolute-min', class: 'regulatory', value: 450, unit: 'mm', clause: `${gas} cl 6.10.1.1, Appendix C`, source: 'Protected surfaces per Appendix C below 650mm', bowerApproved: false },
+      { parameterId: 'gas-legacy-600-appliance-only', class: 'regulatory', value: true, unit: 'flag', clause: `${gas} cl 6.10.1.1`, source: 'Legacy 600mm path applies ONLY to appliance-only changeover; never to AI-designed cabinets or renovations', bowerApproved: false },
+      { parameterId: 'sink-electrical-zone-profile', class: 'regulatory', value: `${wiring} wet-area zones — geometry and permitted protected devices to be implemented from the approved standards copy, not summaries`, unit: 'flag', clause: `${wiring} wet-area zones`, source: 'Clause number recorded by the reviewer from the standards copy', bowerApproved: false },
+    ],
+    approvalRequired:
+      `A qualified reviewer must verify every value against current ${jurisdiction.replace('AU-', '')}-adopted standards copies, record approver + date, and generate the content hash before this profile can be enabled.`,
+  };
+}
+
+const AU_EDITIONS = { gas: '2022', wiring: '2018' };
+
+export const REGULATORY_PROFILE_DRAFTS: RegulatoryProfileDraft[] = [
+  regulatoryProfileDraft('AU-QLD', AU_EDITIONS),
+  regulatoryProfileDraft('AU-NSW', AU_EDITIONS),
+  regulatoryProfileDraft('AU-VIC', AU_EDITIONS),
+  regulatoryProfileDraft('AU-SA', AU_EDITIONS),
+  regulatoryProfileDraft('AU-WA', AU_EDITIONS),
+  regulatoryProfileDraft('AU-TAS', AU_EDITIONS),
+  regulatoryProfileDraft('AU-ACT', AU_EDITIONS),
+  regulatoryProfileDraft('AU-NT', AU_EDITIONS),
+  // NZ regulations cite earlier editions of both standards; the reviewer
+  // confirms which editions are in force before approving.
+  regulatoryProfileDraft('NZ', { gas: '2013', wiring: '2007' }),
+];
+
+export const QLD_REGULATORY_PROFILE_DRAFT: RegulatoryProfileDraft = REGULATORY_PROFILE_DRAFTS[0];
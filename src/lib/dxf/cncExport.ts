@@ -0,0 +1,128 @@
+import JSZip from 'jszip';
+import type { GlobalDimensions } from '@/types';
+import type { CabinetBOM, NestedPart, QuoteBOM } from '../pricing/types';
+import { jobCabinetRef, jobLabelRef, partLabelId } from '../partLabels';
+import { DXFEntity } from './types';
+import { writeDXF } from './writer';
+import { CNC_LAYER_TABLE, CNC_LAYERS, cabinetMachiningContext, panelEntities, PanelMachiningContext } from './panelMachining';
+
+export interface CncFile {
+  path: string;
+  content: string;
+}
+
+const fileSlug = (value: string) => value.replace(/[^A-Za-z0-9.-]+/g, '_').replace(/^_+|_+$/g, '') || 'material';
+
+/** Names repeat within a cabinet and cabinet numbers across rooms; this key does not. */
+const pieceKey = (cabinetRef: string, part: { partIndex?: number; name: string }, copy: number) =>
+  `${cabinetRef}|${part.partIndex ?? part.name}|${copy}`;
+
+/** Turn a panel drawn at the origin into its place on a sheet. */
+function placeEntities(entities: DXFEntity[], placement: NestedPart): DXFEntity[] {
+  // Rotated parts run their length along the sheet's Y: turn 90° anticlockwise.
+  const map = (p: { x: number; y: number }) => placement.rotated
+    ? { x: placement.x + placement.width - p.y, y: placement.y + p.x }
+    : { x: placement.x + p.x, y: placement.y + p.y };
+  const turn = placement.rotated ? 90 : 0;
+  return entities.map((e): DXFEntity => {
+    switch (e.type) {
+      case 'LINE': return { ...e, start: map(e.start), end: map(e.end) };
+      case 'CIRCLE': return { ...e, center: map(e.center) };
+      case 'ARC': return { ...e, center: map(e.center), startAngle: e.startAngle + turn, endAngle: e.endAngle + turn };
+      case 'POLYLINE':
+      case 'LWPOLYLINE': return { ...e, vertices: e.vertices.map(map) };
+      case 'TEXT':
+      case 'MTEXT': return { ...e, position: map(e.position), rotation: e.rotation + turn };
+      default: return e;
+    }
+  });
+}
+
+/**
+ * CNC files for a job: `parts/<part id>.dxf` for every panel copy (the id
+ * matches its printed label) and `sheets/<material>_<n>.dxf` for every nested
+ * sheet, with each panel's machining in place.
+ */
+export function buildJobCncFiles(
+  quoteBOM: QuoteBOM,
+  dims: GlobalDimensions,
+  jobNumber: number | string | null | undefined,
+): CncFile[] {
+  const jobRef = jobLabelRef(jobNumber);
+  const contexts = new Map<string, PanelMachiningContext>();
+  const contextFor = (cabinet: CabinetBOM | undefined) => {
+    const key = cabinet ? jobCabinetRef(cabinet) : '';
+    if (!contexts.has(key)) contexts.set(key, cabinetMachiningContext(cabinet, dims));
+    return contexts.get(key)!;
+  };
+  const files: CncFile[] = [];
+  // pieceKey → part id, so nested placements carry the same ids.
+  const partIds = new Map<string, string>();
+
+  for (const cabinet of quoteBOM.cabinets) {
+    const ctx = contextFor(cabinet);
+    const cabinetRef = jobCabinetRef(cabinet);
+    const occurrences = new Map<string, number>();
+    for (const part of cabinet.parts) {
+      const quantity = Math.max(0, Math.round(part.quantity));
+      for (let copy = 0; copy < quantity; copy++) {
+        // Same occurrence numbering as the part labels.
+        const key = partLabelId(jobRef, cabinetRef, part.name, 0);
+        const occurrence = (occurrences.get(key) ?? 0) + 1;
+        occurrences.set(key, occurrence);
+        const partId = partLabelId(jobRef, cabinetRef, part.name, occurrence);
+        partIds.set(pieceKey(cabinetRef, part, copy), partId);
+        files.push({
+          path: `parts/${partId}.dxf`,
+          content: writeDXF({ layers: CNC_LAYER_TABLE, entities: panelEntities(part, copy, ctx, partId) }),
+        });
+      }
+    }
+  }
+
+  for (const sheet of quoteBOM.consolidatedSheets) {
+    for (const nested of sheet.nesting?.sheets ?? []) {
+      const boardL = nested.stockOffcut?.length ?? sheet.sheetLength;
+      const boardW = nested.stockOffcut?.width ?? sheet.sheetWidth;
+      const entities: DXFEntity[] = [{
+        type: 'POLYLINE',
+        layer: CNC_LAYERS.sheet,
+        closed: true,
+        vertices: [{ x: 0, y: 0 }, { x: boardL, y: 0 }, { x: boardL, y: boardW }, { x: 0, y: boardW }],
+      }];
+      for (const placement of nested.placements) {
+        const cabinetRef = jobCabinetRef(placement);
+        const cabinet = quoteBOM.cabinets.find(c => jobCabinetRef(c) === cabinetRef);
+        const partId = partIds.get(pieceKey(cabinetRef, { partIndex: placement.partIndex, name: placement.partName }, placement.copy));
+        const part = { name: placement.partName, partType: placement.partType, length: placement.length, width: placement.width };
+        entities.push(...placeEntities(panelEntities(part, placement.copy, contextFor(cabinet), partId), placement));
+      }
+      const suffix = nested.stockOffcut ? `_offcut-${fileSlug(nested.stockOffcut.id)}` : '';
+      files.push({
+        path: `sheets/${fileSlug(sheet.materialName)}_${String(nested.index + 1).padStart(2, '0')}${suffix}.dxf`,
+        content: writeDXF({ layers: CNC_LAYER_TABLE, entities }),
+      });
+    }
+  }
+
+  return files;
+}
+
+export async function exportJobCncZip(
+  quoteBOM: QuoteBOM,
+  dims: GlobalDimensions,
+  jobName = 'Job',
+  jobNumber?: number | string | null,
+) {
+  const zip = new JSZip();
+  for (const file of buildJobCncFiles(quoteBOM, dims, jobNumber)) zip.file(file.path, file.content);
+  const blob = await zip.generateAsync({ type: 'blob' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${jobName.replace(/\s+/g, '_')}_cnc_dxf.zip`;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -6,3 +6,15 @@ export {
   processZipFile, 
   processMultipleZips 
 } from './parser';
+export { writeDXF } from './writer';
+export type { DXFDocument } from './writer';
+export {
+  CNC_LAYERS,
+  CNC_LAYER_TABLE,
+  cabinetMachiningContext,
+  panelHoles,
+  panelEntities
+} from './panelMachining';
+export type { CncLayer, PanelHole, PanelMachiningContext, MachinedPart } from './panelMachining';
+export { buildJobCncFiles, exportJobCncZip } from './cncExport';
+export type { CncFile } from './cncExport';
@@ -0,0 +1,214 @@
+import type { GlobalDimensions } from '@/types';
+import type { CabinetBOM } from '../pricing/types';
+import { getConstructionRecipe } from '../microvellum/constructionRecipes';
+import { DXFEntity, DXFLayer } from './types';
+
+/**
+ * Machining for flat panels, ready for the CNC post-processor.
+ *
+ * Each operation sits on its own named layer; the tool, diameter and depth are
+ * in the layer name so the post-processor maps layers, not geometry.
+ *
+ * Panel coordinates: X runs along the part length, Y along its width, origin
+ * at the corner that is bottom-front as installed (gables) or bottom-hinge
+ * side (doors), seen from the machined (inside / back) face.
+ */
+export const CNC_LAYERS = {
+  outline: 'CUT_OUTLINE',
+  shelfPin: 'DRILL_V5_Z10_SHELF_PIN',
+  hingeCup: 'BORE_V35_Z13_HINGE_CUP',
+  handle: 'DRILL_V5_THRU_HANDLE',
+  sheet: 'SHEET_BOUNDARY',
+  info: 'INFO_TEXT',
+} as const;
+
+export type CncLayer = (typeof CNC_LAYERS)[keyof typeof CNC_LAYERS];
+
+/** Layer table written to every file, in AutoCAD colour numbers. */
+export const CNC_LAYER_TABLE: DXFLayer[] = [
+  { name: CNC_LAYERS.outline, color: 7, visible: true },
+  { name: CNC_LAYERS.shelfPin, color: 3, visible: true },
+  { name: CNC_LAYERS.hingeCup, color: 1, visible: true },
+  { name: CNC_LAYERS.handle, color: 5, visible: true },
+  { name: CNC_LAYERS.sheet, color: 8, visible: true },
+  { name: CNC_LAYERS.info, color: 2, visible: true },
+];
+
+/** 32mm system: first hole line 37mm in from the front edge. */
+const SYSTEM_LINE_INSET = 37;
+/** 35mm cup with a 5mm boring distance puts the cup centre 22.5mm from the door edge. */
+const HINGE_CUP_DIAMETER = 35;
+const HINGE_CUP_EDGE_OFFSET = 22.5;
+/** Top and bottom hinges sit this far from the door ends. */
+const HINGE_END_OFFSET = 100;
+/** Handle holes sit this far in from the door's opening edge and end. */
+const HANDLE_EDGE_OFFSET = 40;
+const HANDLE_END_OFFSET = 60;
+
+export interface PanelHole {
+  layer: CncLayer;
+  x: number;
+  y: number;
+  diameter: number;
+}
+
+export interface PanelMachiningContext {
+  dims: GlobalDimensions;
+  category: 'Base' | 'Wall' | 'Tall' | 'Accessory';
+  hasAdjustableShelves: boolean;
+  /** Door leaves hung in the same opening; pairs hinge on opposite sides. */
+  doorLeaves: number;
+  glassDoor: boolean;
+  /** Hinges per door leaf, or null to size from the door height. */
+  hingesPerDoor: number | null;
+  handle: { kind: 'none' | 'knob' | 'bar'; centres: number };
+}
+
+export interface MachinedPart {
+  name: string;
+  partType: string;
+  length: number;
+  width: number;
+}
+
+const isDoor = (part: MachinedPart) => /\bdoor\b/i.test(part.partType) || /\bdoor\b/i.test(part.name);
+const isDrawerFront = (part: MachinedPart) => /drawer/i.test(part.partType) && /front/i.test(part.partType);
+const isGable = (part: MachinedPart) => /\bside\b/i.test(part.partType) && !/drawer/i.test(part.partType);
+
+/**
+ * Machining settings for one cabinet: category, shelf and door layout from its
+ * construction recipe, hinge and handle details from its hardware list.
+ */
+export function cabinetMachiningContext(cabinet: CabinetBOM | undefined, dims: GlobalDimensions): PanelMachiningContext {
+  const recipe = cabinet ? getConstructionRecipe(cabinet.cabinetName) : null;
+  const parts = cabinet?.parts ?? [];
+  const hardware = cabinet?.hardware ?? [];
+
+  const category = recipe?.category
+    ?? (parts.some(p => /^wall/i.test(p.partType)) ? 'Wall' : parts.some(p => /^tall/i.test(p.partType)) ? 'Tall' : 'Base');
+
+  const shelfParts = parts.filter(p => /adjustable shelf|l shape shelf/i.test(p.partType) && p.quantity > 0);
+  const hasAdjustableShelves = shelfParts.length > 0 || (!!recipe?.shelves.adjustable && recipe.shelves.count > 0);
+
+  const doorQuantity = parts.filter(isDoor).reduce((sum, p) => sum + p.quantity, 0);
+  const fronts = recipe?.fronts;
+  const recipeLeaves = fronts?.doors?.doorCount ?? fronts?.sink?.doorCount ?? fronts?.combo?.bottomDoors;
+  const doorLeaves = recipeLeaves ?? doorQuantity;
+
+  const hinges = hardware.find(h => h.hardwareType === 'hinge');
+  const hingesPerDoor = hinges && doorQuantity > 0 ? Math.max(2, Math.round(hinges.quantity / doorQuantity)) : null;
+
+  const handleItem = hardware.find(h => h.hardwareType === 'handle');
+  const handleText = handleItem ? `${handleItem.name} ${handleItem.itemCode}` : '';
+  const centres = Number(/(\d{2,3})\s*mm/i.exec(handleText)?.[1]) || dims.handleDrillSpacing * 4;
+  const kind = !handleItem || /lip|push|none/i.test(handleText) ? 'none' : /knob/i.test(handleText) ? 'knob' : 'bar';
+
+  return {
+    dims,
+    category,
+    hasAdjustableShelves,
+    doorLeaves,
+    glassDoor: !!fronts?.doors?.glassDoor,
+    hingesPerDoor,
+    handle: { kind, centres },
+  };
+}
+
+/** Even spacing between the end hinges; taller doors get more hinges when not set by hardware. */
+function hingePositions(length: number, count: number | null): number[] {
+  const n = count ?? (length <= 900 ? 2 : length <= 1600 ? 3 : 4);
+  if (length < HINGE_END_OFFSET * 2) return [length / 2];
+  const span = length - HINGE_END_OFFSET * 2;
+  return Array.from({ length: n }, (_, i) => HINGE_END_OFFSET + (span * i) / (n - 1));
+}
+
+function shelfPinHoles(part: MachinedPart, ctx: PanelMachiningContext): PanelHole[] {
+  const { boardThickness, handleDrillSpacing: pitch, backPanelSetback } = ctx.dims;
+  if (!ctx.hasAdjustableShelves || pitch <= 0) return [];
+
+  // The rear line stays on the 32mm grid, clear of the back panel.
+  const rearLimit = part.width - backPanelSetback - SYSTEM_LINE_INSET;
+  const rearLine = SYSTEM_LINE_INSET + Math.floor((rearLimit - SYSTEM_LINE_INSET) / pitch) * pitch;
+  const lines = rearLine > SYSTEM_LINE_INSET + pitch ? [SYSTEM_LINE_INSET, rearLine] : [SYSTEM_LINE_INSET];
+
+  // Rows run between the bottom and top panels, one pitch clear of each.
+  const holes: PanelHole[] = [];
+  for (let x = boardThickness + pitch; x <= part.length - boardThickness - pitch; x += pitch) {
+    for (const y of lines) holes.push({ layer: CNC_LAYERS.shelfPin, x, y, diameter: 5 });
+  }
+  return holes;
+}
+
+function doorHoles(part: MachinedPart, copy: number, ctx: PanelMachiningContext): PanelHole[] {
+  // Paired leaves open from the middle: alternate copies hinge on opposite edges.
+  const hingeAtZero = ctx.doorLeaves < 2 || copy % 2 === 0;
+  const fromHinge = (offset: number) => (hingeAtZero ? offset : part.width - offset);
+  const holes: PanelHole[] = ctx.glassDoor
+    ? []
+    : hingePositions(part.length, ctx.hingesPerDoor).map(x => ({
+        layer: CNC_LAYERS.hingeCup,
+        x,
+        y: fromHinge(HINGE_CUP_EDGE_OFFSET),
+        diameter: HINGE_CUP_DIAMETER,
+      }));
+
+  if (ctx.handle.kind === 'none') return holes;
+  // Base doors pull at the top, wall doors at the bottom, tall doors at bench height.
+  const c = ctx.handle.centres;
+  const xs = ctx.category === 'Wall'
+    ? [HANDLE_END_OFFSET, HANDLE_END_OFFSET + c]
+    : ctx.category === 'Tall'
+      ? [Math.min(part.length / 2, 1000) - c / 2, Math.min(part.length / 2, 1000) + c / 2]
+      : [part.length - HANDLE_END_OFFSET - c, part.length - HANDLE_END_OFFSET];
+  // A knob takes the hole nearest the pulling end (the middle one on tall doors).
+  const positions = ctx.handle.kind === 'knob'
+    ? [ctx.category === 'Wall' ? xs[0] : ctx.category === 'Tall' ? (xs[0] + xs[1]) / 2 : xs[1]]
+    : xs;
+  const y = fromHinge(part.width - HANDLE_EDGE_OFFSET);
+  return [...holes, ...positions.map(x => ({ layer: CNC_LAYERS.handle, x, y, diameter: 5 }))];
+}
+
+function drawerFrontHoles(part: MachinedPart, ctx: PanelMachiningContext): PanelHole[] {
+  if (ctx.handle.kind === 'none') return [];
+  const y = part.width / 2;
+  const xs = ctx.handle.kind === 'knob'
+    ? [part.length / 2]
+    : [part.length / 2 - ctx.handle.centres / 2, part.length / 2 + ctx.handle.centres / 2];
+  return xs.map(x => ({ layer: CNC_LAYERS.handle, x, y, diameter: 5 }));
+}
+
+/** Holes for one copy of a part; `copy` is 0-based within the part's quantity. */
+export function panelHoles(part: MachinedPart, copy: number, ctx: PanelMachiningContext): PanelHole[] {
+  if (isDoor(part)) return doorHoles(part, copy, ctx);
+  if (isDrawerFront(part)) return drawerFrontHoles(part, ctx);
+  if (isGable(part)) {
+    const holes = shelfPinHoles(part, ctx);
+    // Right gables are machined on the face that is mirrored to the left's.
+    return /right/i.test(part.partType) ? holes.map(h => ({ ...h, y: part.width - h.y })) : holes;
+  }
+  return [];
+}
+
+/** Outline, holes and an optional id text for one panel, at the origin. */
+export function panelEntities(part: MachinedPart, copy: number, ctx: PanelMachiningContext, partId?: string): DXFEntity[] {
+  const { length: l, width: w } = part;
+  const entities: DXFEntity[] = [
+    {
+      type: 'POLYLINE',
+      layer: CNC_LAYERS.outline,
+      closed: true,
+      vertices: [{ x: 0, y: 0 }, { x: l, y: 0 }, { x: l, y: w }, { x: 0, y: w }],
+    },
+    ...panelHoles(part, copy, ctx).map((h): DXFEntity => ({
+      type: 'CIRCLE',
+      layer: h.layer,
+      center: { x: h.x, y: h.y },
+      radius: h.diameter / 2,
+    })),
+  ];
+  if (partId) {
+    const height = Math.max(4, Math.min(12, w / 8));
+    entities.push({ type: 'TEXT', layer: CNC_LAYERS.info, position: { x: height, y: height }, text: partId, height, rotation: 0 });
+  }
+  return entities;
+}
@@ -0,0 +1,122 @@
+import { DXFEntity, DXFLayer, DXFPoint } from './types';
+
+/**
+ * Minimal ASCII DXF (R12) writer for the entity shapes the parser reads back:
+ * lines, arcs, circles, polylines and single-line text, all in millimetres.
+ * R12 is the lowest common denominator every CNC post-processor imports.
+ */
+export interface DXFDocument {
+  layers: DXFLayer[];
+  entities: DXFEntity[];
+}
+
+const num = (value: number) => {
+  const rounded = Math.round(value * 1000) / 1000;
+  return Object.is(rounded, -0) ? '0' : String(rounded);
+};
+
+/** Group code / value pairs, one per line as the format requires. */
+function pairs(out: string[], ...codes: Array<[number, string | number]>) {
+  for (const [code, value] of codes) {
+    out.push(String(code), typeof value === 'number' ? num(value) : value);
+  }
+}
+
+function point(out: string[], p: DXFPoint, base = 10) {
+  pairs(out, [base, p.x], [base + 10, p.y], [base + 20, p.z ?? 0]);
+}
+
+function extents(entities: DXFEntity[]): { min: DXFPoint; max: DXFPoint } {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  const add = (p: DXFPoint, r = 0) => {
+    xs.push(p.x - r, p.x + r);
+    ys.push(p.y - r, p.y + r);
+  };
+  for (const e of entities) {
+    switch (e.type) {
+      case 'LINE': add(e.start); add(e.end); break;
+      case 'CIRCLE':
+      case 'ARC': add(e.center, e.radius); break;
+      case 'POLYLINE':
+      case 'LWPOLYLINE': e.vertices.forEach(v => add(v)); break;
+      default: add(e.position);
+    }
+  }
+  if (xs.length === 0) return { min: { x: 0, y: 0 }, max: { x: 0, y: 0 } };
+  return {
+    min: { x: Math.min(...xs), y: Math.min(...ys) },
+    max: { x: Math.max(...xs), y: Math.max(...ys) },
+  };
+}
+
+function writeEntity(out: string[], e: DXFEntity) {
+  switch (e.type) {
+    case 'LINE':
+      pairs(out, [0, 'LINE'], [8, e.layer]);
+      point(out, e.start, 10);
+      point(out, e.end, 11);
+      break;
+    case 'CIRCLE':
+      pairs(out, [0, 'CIRCLE'], [8, e.layer]);
+      point(out, e.center);
+      pairs(out, [40, e.radius]);
+      break;
+    case 'ARC':
+      pairs(out, [0, 'ARC'], [8, e.layer]);
+      point(out, e.center);
+      pairs(out, [40, e.radius], [50, e.startAngle], [51, e.endAngle]);
+      break;
+    case 'POLYLINE':
+    case 'LWPOLYLINE':
+      // R12 has no LWPOLYLINE: both are written as POLYLINE / VERTEX / SEQEND.
+      pairs(out, [0, 'POLYLINE'], [8, e.layer], [66, 1]);
+      point(out, { x: 0, y: 0 });
+      pairs(out, [70, e.closed ? 1 : 0]);
+      for (const v of e.vertices) {
+        pairs(out, [0, 'VERTEX'], [8, e.layer]);
+        point(out, v);
+      }
+      pairs(out, [0, 'SEQEND'], [8, e.layer]);
+      break;
+    case 'TEXT':
+    case 'MTEXT':
+      pairs(out, [0, 'TEXT'], [8, e.layer]);
+      point(out, e.position);
+      pairs(out, [40, e.height], [1, e.text], [50, e.rotation]);
+      break;
+    case 'INSERT':
+      // Blocks are never written; callers explode geometry before export.
+      break;
+  }
+}
+
+/** Serialise a document to DXF text. Layers used by entities but not listed are added with colour 7. */
+export function writeDXF(doc: DXFDocument): string {
+  const layers = [...doc.layers];
+  for (const e of doc.entities) {
+    if (!layers.some(l => l.name === e.layer)) layers.push({ name: e.layer, color: 7, visible: true });
+  }
+  const { min, max } = extents(doc.entities);
+  const out: string[] = [];
+
+  pairs(out, [0, 'SECTION'], [2, 'HEADER'], [9, '$ACADVER'], [1, 'AC1009'], [9, '$INSUNITS'], [70, 4], [9, '$MEASUREMENT'], [70, 1]);
+  pairs(out, [9, '$EXTMIN']);
+  point(out, min);
+  pairs(out, [9, '$EXTMAX']);
+  point(out, max);
+  pairs(out, [0, 'ENDSEC']);
+
+  pairs(out, [0, 'SECTION'], [2, 'TABLES'], [0, 'TABLE'], [2, 'LAYER'], [70, layers.length]);
+  for (const layer of layers) {
+    // A negative colour number marks the layer as off.
+    pairs(out, [0, 'LAYER'], [2, layer.name], [70, 0], [62, layer.visible ? layer.color : -layer.color], [6, 'CONTINUOUS']);
+  }
+  pairs(out, [0, 'ENDTAB'], [0, 'ENDSEC']);
+
+  pairs(out, [0, 'SECTION'], [2, 'ENTITIES']);
+  doc.entities.forEach(e => writeEntity(out, e));
+  pairs(out, [0, 'ENDSEC'], [0, 'EOF']);
+
+  return out.join('\n') + '\n';
+}
@@ -30,6 +30,12 @@ export const KITCHEN_ROLE_LABELS: Record<SegmentRole, string> = {
   corner: 'Corner cabinet',
   'corner-buffer': 'Corner clearance cupboard',
   'fridge-corner-pantry': 'Corner pantry',
+  'laundry-tub': 'Laundry tub cabinet',
+  'washer-gap': 'Washing machine space',
+  'dryer-gap': 'Dryer space',
+  'hanging-rail': 'Hanging section',
+  'wardrobe-shelves': 'Shelving tower',
+  'vanity-basin': 'Vanity basin cabinet',
 };
 
 export interface KitchenUnitWidthPolicy {
@@ -118,6 +124,20 @@ export function kitchenUnitWidthPolicy(
         maxMm: ROLE_PRODUCTS[role].widths[0],
         lockedReason: 'Fixed to buildable corner geometry.',
       };
+    case 'laundry-tub':
+    case 'vanity-basin':
+      return { custom: true, minMm: 450, maxMm: MAX_CUSTOM_KITCHEN_UNIT_WIDTH_MM };
+    case 'washer-gap':
+    case 'dryer-gap':
+      return {
+        custom: false,
+        minMm: ROLE_PRODUCTS[role].widths[0],
+        maxMm: ROLE_PRODUCTS[role].widths[0],
+        lockedReason: 'Fixed to a front loader and its side clearances.',
+      };
+    case 'hanging-rail':
+    case 'wardrobe-shelves':
+      return { custom: true, minMm: 450, maxMm: MAX_CUSTOM_KITCHEN_UNIT_WIDTH_MM };
   }
 }
 
@@ -151,6 +171,9 @@ export function cloneKitchenSpec(spec: KitchenSpec): KitchenSpec {
     ...(spec.island
       ? { island: { ...spec.island, features: [...spec.island.features] } }
       : {}),
+    ...(spec.peninsula
+      ? { peninsula: { ...spec.peninsula, features: [...spec.peninsula.features] } }
+      : {}),
   };
 }
 
@@ -4,6 +4,7 @@ import {
   type CandidateEmphasis,
   type DesignBrief,
   type KitchenSpec,
+  type LayoutRulePack,
   type LayoutShape,
   type StyleSpec,
   type Violation,
@@ -32,6 +33,7 @@ const LAYOUT_NAMES: Record<LayoutShape, string> = {
   'l-shape': 'L-shape',
   'u-shape': 'U-shape',
   galley: 'Galley',
+  peninsula: 'Peninsula',
 };
 
 function optionName(candidateId: string, emphasis: CandidateEmphasis): string {
@@ -68,7 +70,15 @@ export function plannerAlternativeSignature(option: SpecBearingAlternative): str
         features: [...option.spec.island.features].sort(),
       }
     : null;
-  return JSON.stringify({ runs, island });
+  const peninsula = option.spec.peninsula
+    ? {
+        wall: option.spec.peninsula.wall,
+        at: option.spec.peninsula.at,
+        lengthMm: option.spec.peninsula.lengthMm,
+        features: [...option.spec.peninsula.features].sort(),
+      }
+    : null;
+  return JSON.stringify({ runs, island, ...(peninsula ? { peninsula } : {}) });
 }
 
 /**
@@ -108,6 +118,7 @@ export function createPlannerAlternatives(input: {
   maxCandidates?: number;
   professionalGate?: boolean;
   exploreStrategies?: boolean;
+  rulePack?: LayoutRulePack;
 }): PlannerAlternative[] {
   const pool = generateCandidatePool({
     brief: input.brief,
@@ -116,6 +127,7 @@ export function createPlannerAlternatives(input: {
     professionalGate: input.professionalGate ?? false,
     style: input.style,
     maxCandidates: input.maxCandidates ?? 3,
+    rulePack: input.rulePack,
   });
 
   return pool.candidates.map(candidate => ({
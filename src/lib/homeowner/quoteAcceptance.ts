@@ -0,0 +1,145 @@
+import { roundMoney } from '@/lib/pricing/money';
+
+/**
+ * Homeowner quote acceptance (table `quote_acceptances`, edge function
+ * `accept-quote`).
+ *
+ * A customer accepts one specific job revision — the frozen design and total
+ * they were shown — under a versioned set of terms, signs it (drawn or typed)
+ * and pays the deposit. The server stamps the time and IP, so nothing here is
+ * trusted as evidence; this module only shapes what the page shows and checks
+ * input before it is sent. The edge function repeats the signature checks and
+ * the deposit calculation.
+ */
+
+export const QUOTE_TERMS_VERSION = '2026-10';
+
+export const QUOTE_TERMS: readonly string[] = [
+  'The price covers the cabinetry, benchtops and appliances listed in this quote revision only. Plumbing, electrical, tiling and removal of existing cabinetry are not included unless listed.',
+  'A deposit is payable on acceptance. Manufacture is scheduled once the deposit has cleared; the balance is due before delivery.',
+  'Final site measurements are taken before manufacture. Changes to the design after acceptance are re-quoted as a new revision.',
+  'Lead times are estimates and may vary with supplier availability. We will contact you with a confirmed delivery date.',
+  'Colours, finishes and timber grain may vary slightly from samples and on-screen previews.',
+];
+
+/** Share of the accepted total taken as deposit. */
+export const QUOTE_DEPOSIT_PCT = 0.3;
+
+export function depositAmount(total: number): number {
+  return roundMoney(Math.max(0, total) * QUOTE_DEPOSIT_PCT);
+}
+
+export type QuoteSignature =
+  | { kind: 'drawn'; dataUrl: string }
+  | { kind: 'typed'; text: string };
+
+/** Drawn signatures are a PNG data URL; anything larger is not a signature pad. */
+export const MAX_SIGNATURE_DATA_URL_LENGTH = 200_000;
+
+/** Problem with the signer name or signature, or null when it can be sent. */
+export function signatureProblem(signerName: string, signature: QuoteSignature | null): string | null {
+  const name = signerName.trim();
+  if (name.length < 2 || name.length > 120) return 'Enter your full name';
+  if (!signature) return 'Sign in the box or type your signature';
+  if (signature.kind === 'typed') {
+    const text = signature.text.trim();
+    if (text.length < 2 || text.length > 120) return 'Type your signature';
+    return null;
+  }
+  if (!signature.dataUrl.startsWith('data:image/png;base64,')) return 'Sign in the box';
+  if (signature.dataUrl.length > MAX_SIGNATURE_DATA_URL_LENGTH) return 'Signature is too large — clear it and sign again';
+  return null;
+}
+
+/** What `accept-quote` returns for review: the latest revision and any acceptance. */
+export interface QuoteReview {
+  job: { id: string; job_number: number; name: string; status: string };
+  revision: {
+    id: string;
+    revision_number: number;
+    created_at: string;
+    total: number | null;
+    design_data: Record<string, unknown>;
+  } | null;
+  acceptance: QuoteAcceptanceSummary | null;
+  depositPct: number;
+  acceptable: boolean;
+}
+
+export interface QuoteAcceptanceRow {
+  id: string;
+  job_id: string;
+  revision_id: string;
+  revision_number: number;
+  terms_version: string;
+  signer_name: string;
+  signature_kind: QuoteSignature['kind'];
+  signature_data: string;
+  total: number;
+  deposit_amount: number;
+  payment_provider: string | null;
+  payment_reference: string | null;
+  signer_ip: string | null;
+  user_agent: string | null;
+  /** SHA-256 over the accepted revision and the signature; printed on the PDF. */
+  evidence_hash: string | null;
+  pdf_path: string | null;
+  pdf_sha256: string | null;
+  accepted_at: string;
+}
+
+/** The part of an acceptance the public quote page is shown, with a short-lived link to the signed PDF. */
+export type QuoteAcceptanceSummary =
+  Pick<QuoteAcceptanceRow, 'id' | 'revision_id' | 'revision_number' | 'signer_name' | 'accepted_at' | 'pdf_path'>
+  & { pdfUrl: string | null };
+
+export interface QuoteSummaryLine {
+  label: string;
+  detail: string | null;
+  amount: number | null;
+}
+
+const num = (value: unknown): number | null => {
+  const n = typeof value === 'string' ? Number(value) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : null;
+};
+
+const asRecords = (value: unknown): Array<Record<string, unknown>> =>
+  (Array.isArray(value) ? value.filter(v => v && typeof v === 'object') : []) as Array<Record<string, unknown>>;
+
+/**
+ * Line summary of a revision's design for the customer: one line per trade
+ * room (with its sell price when priced), or the wizard's cabinets and
+ * appliances for a homeowner enquiry.
+ */
+export function quoteLineSummary(designData: Record<string, unknown>): QuoteSummaryLine[] {
+  const rooms = asRecords(designData.tradeRooms);
+  if (rooms.length > 0) {
+    const snapshots = (designData.quoteSnapshotsByRoom ?? {}) as Record<string, { perCabinetSell?: Record<string, number> } | undefined>;
+    return rooms.map((room, index) => {
+      const cabinets = asRecords(room.cabinets);
+      const sell = Object.values(snapshots[String(room.id)]?.perCabinetSell ?? {});
+      return {
+        label: typeof room.name === 'string' && room.name.trim() ? room.name : `Room ${index + 1}`,
+        detail: `${cabinets.length} cabinet${cabinets.length === 1 ? '' : 's'}`,
+        amount: sell.length > 0 ? roundMoney(sell.reduce((sum, v) => sum + (num(v) ?? 0), 0)) : null,
+      };
+    });
+  }
+
+  const lines: QuoteSummaryLine[] = [];
+  const counts = new Map<string, number>();
+  for (const item of asRecords(designData.items)) {
+    const name = String(item.productName ?? item.definitionId ?? 'Cabinet');
+    counts.set(name, (counts.get(name) ?? 0) + 1);
+  }
+  for (const [name, count] of counts) lines.push({ label: name, detail: count > 1 ? `× ${count}` : null, amount: null });
+  for (const appliance of asRecords(designData.applianceItems)) {
+    lines.push({
+      label: String(appliance.name ?? 'Appliance'),
+      detail: 'Appliance',
+      amount: num(appliance.lineTotal ?? appliance.unitPrice),
+    });
+  }
+  return lines;
+}
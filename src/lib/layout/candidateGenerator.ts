@@ -19,6 +19,8 @@ import { priceDesign } from './priceDesign';
 import { defaultSpecFor, inferLayoutShapeFromWalls, type LayoutShape } from './defaultSpec';
 import { meetsProfessionalThreshold, scoreDesign, type DesignScore } from './designScore';
 import { styleProfile } from './styleDNA';
+import { ROOM_TYPE_ROLES, roomTypeOf } from './roomTypes';
+import { DEFAULT_LAYOUT_RULE_PACK, type LayoutRulePack } from './rulePack';
 
 export type CandidateEmphasis = 'workflow' | 'storage' | 'social';
 
@@ -48,6 +50,8 @@ export interface CandidatePool {
   rejected: RejectedCandidate[];
   /** every strategy that was attempted for this room/brief */
   attemptedStrategies: LayoutShape[];
+  /** version of the rule pack every candidate was validated against */
+  rulePackVersion: string;
 }
 
 export interface GenerateCandidatesInput {
@@ -62,9 +66,11 @@ export interface GenerateCandidatesInput {
   professionalGate?: boolean;
   /** Customer preference is presented first when it survives all gates. */
   preferredStrategy?: LayoutShape;
+  /** Active rule pack; the built-in defaults when omitted. */
+  rulePack?: LayoutRulePack;
 }
 
-const ALL_STRATEGIES: LayoutShape[] = ['single-wall', 'l-shape', 'u-shape', 'galley'];
+const ALL_STRATEGIES: LayoutShape[] = ['single-wall', 'l-shape', 'u-shape', 'galley', 'peninsula'];
 
 function seg(role: SegmentRole, widthMm?: number): Segment {
   return { kind: 'cabinet', role, ...(widthMm ? { widthMm } : {}) };
@@ -89,16 +95,19 @@ function strategyPlausible(strategy: LayoutShape, brief: DesignBrief): boolean {
   const selectedShape = brief.allowedWalls?.length
     ? inferLayoutShapeFromWalls(brief.allowedWalls)
     : null;
-  if (selectedShape) return strategy === selectedShape;
+  // One selected wall may also host a peninsula returning into the room.
+  if (selectedShape) return strategy === selectedShape || (strategy === 'peninsula' && selectedShape === 'single-wall');
   switch (strategy) {
     case 'single-wall': return width >= 1800;
     case 'l-shape': return width >= 2400 && depth >= 2100;
     case 'u-shape': return width >= 2400 && depth >= 2400;
     case 'galley': return width >= 2400 && depth >= 2400;
+    case 'peninsula': return width >= 4800 && depth >= 3000;
   }
 }
 
-/** Structural signature: wall → ordered cabinet roles, plus island features. */
+/** Structural signature: wall → ordered cabinet roles, plus island and
+ *  peninsula features. */
 function fingerprintOf(spec: KitchenSpec): string {
   const runs = spec.runs
     .map(run => `${run.wall}:${run.segments
@@ -109,7 +118,10 @@ function fingerprintOf(spec: KitchenSpec): string {
     .sort()
     .join('|');
   const island = spec.island ? `#island:${[...spec.island.features].sort().join(',')}` : '';
-  return runs + island;
+  const peninsula = spec.peninsula
+    ? `#peninsula:${spec.peninsula.wall}/${spec.peninsula.at}:${[...spec.peninsula.features].sort().join(',')}`
+    : '';
+  return runs + island + peninsula;
 }
 
 /** Storage variant: lean the deterministic layout toward storage capacity. */
@@ -119,9 +131,11 @@ function storageVariant(brief: DesignBrief, strategy: LayoutShape, style?: Style
     priorities: brief.priorities.includes('storage') ? brief.priorities : [...brief.priorities, 'storage'],
   };
   const spec = defaultSpecFor(storageBrief, strategy, style);
+  const roomType = roomTypeOf(spec);
   const runs = spec.runs.map(run => ({
     ...run,
-    wallCabinets: true,
+    // A robe is full height already; there is nothing to hang above it.
+    wallCabinets: roomType === 'wardrobe' ? run.wallCabinets : true,
     // Storage-first should be visibly and functionally different: internal
     // drawers replace plain shelf cupboards wherever the role is flexible.
     segments: run.segments.map(segment =>
@@ -139,7 +153,8 @@ function storageVariant(brief: DesignBrief, strategy: LayoutShape, style?: Style
   const longest = runs
     .map((run, index) => ({ index, length: availableRunLength(brief, run.wall) }))
     .sort((a, b) => b.length - a.length || a.index - b.index)[0];
-  if (!hasPantry && !limitedTallMassing && longest?.length >= 3000) {
+  if (!hasPantry && !limitedTallMassing && longest?.length >= 3000
+    && ROOM_TYPE_ROLES[roomType].includes('pantry')) {
     insertBeforeTrailingProtection(runs[longest.index].segments, seg('pantry'));
   }
 
@@ -156,7 +171,13 @@ function storageVariant(brief: DesignBrief, strategy: LayoutShape, style?: Style
   if (target) {
     insertBeforeTrailingProtection(runs[target.index].segments, seg('drawers', 500));
   }
-  return { ...spec, runs, rationale: 'Storage-first layout: maximum drawers, pantry and overhead cabinets.' };
+  return {
+    ...spec,
+    runs,
+    rationale: roomType === 'kitchen'
+      ? 'Storage-first layout: maximum drawers, pantry and overhead cabinets.'
+      : 'Storage-first layout: drawers in place of plain cupboards wherever they fit.',
+  };
 }
 
 const PROFESSIONAL_HARD_CODES = new Set([
@@ -177,6 +198,10 @@ export function candidateDifference(a: DesignCandidate, b: DesignCandidate): num
   const aIsland = a.spec.island ? [...a.spec.island.features].sort().join(',') : 'none';
   const bIsland = b.spec.island ? [...b.spec.island.features].sort().join(',') : 'none';
   if (aIsland !== bIsland) difference += 3;
+  const peninsulaOf = (candidate: DesignCandidate) => candidate.spec.peninsula
+    ? `${candidate.spec.peninsula.wall}/${candidate.spec.peninsula.at}`
+    : 'none';
+  if (peninsulaOf(a) !== peninsulaOf(b)) difference += 3;
   const roleSequence = (candidate: DesignCandidate) => candidate.spec.runs.map(run => run.segments
     .map(segment => segment.kind === 'cabinet' ? segment.role : segment.kind).join(',')).join('|');
   // Moving the sink/cooktop to another run is a genuinely different workflow,
@@ -209,6 +234,11 @@ function socialVariant(brief: DesignBrief, strategy: LayoutShape, style?: StyleS
 
 /** Sink-wall alternative for l/u strategies: mirror the side runs. */
 function mirrorSideRuns(spec: KitchenSpec, brief: DesignBrief): KitchenSpec | null {
+  // Non-kitchen side runs stop short of their corners by measured offsets
+  // that a mirror would discard.
+  if (roomTypeOf(spec) !== 'kitchen') return null;
+  // A peninsula is tied to its host run's wall and end.
+  if (spec.peninsula) return null;
   const flip: Partial<Record<Wall, Wall>> = { W: 'E', E: 'W' };
   const allowed = brief.allowedWalls?.length ? new Set(brief.allowedWalls) : null;
   const hasFlippableSide = spec.runs.some(run => {
@@ -283,7 +313,7 @@ interface Attempt {
 }
 
 export function generateCandidatePool(input: GenerateCandidatesInput): CandidatePool {
-  const { brief, style } = input;
+  const { brief, style, rulePack = DEFAULT_LAYOUT_RULE_PACK } = input;
   const allowed = (input.allowedStrategies ?? ALL_STRATEGIES)
     .filter(s => ALL_STRATEGIES.includes(s));
   const maxCandidates = input.maxCandidates ?? 3;
@@ -295,6 +325,9 @@ export function generateCandidatePool(input: GenerateCandidatesInput): Candidate
     attempted.push(strategy);
 
     const workflow = defaultSpecFor(brief, strategy, style);
+    // Without room for the return the peninsula default is the single-wall
+    // kitchen, which that strategy already offers.
+    if (strategy === 'peninsula' && !workflow.peninsula) continue;
     attempts.push({ candidateId: `${strategy}/workflow`, strategy, emphasis: 'workflow', spec: workflow });
 
     const mirrored = mirrorSideRuns(workflow, brief);
@@ -329,7 +362,7 @@ export function generateCandidatePool(input: GenerateCandidatesInput): Candidate
       });
       continue;
     }
-    const violations = validate(compiled, brief.room, brief);
+    const violations = validate(compiled, brief.room, brief, rulePack);
     const errors = violations.filter(v => v.severity === 'error'
       || (input.professionalGate && PROFESSIONAL_HARD_CODES.has(v.code)));
     if (errors.length > 0) {
@@ -411,7 +444,7 @@ export function generateCandidatePool(input: GenerateCandidatesInput): Candidate
     picked.sort((a, b) => b.score.total - a.score.total || a.candidateId.localeCompare(b.candidateId));
   }
 
-  return { candidates: picked, rejected, attemptedStrategies: attempted };
+  return { candidates: picked, rejected, attemptedStrategies: attempted, rulePackVersion: rulePack.version };
 }
 
 /** Compact summary for AI ranking prompts (§8.4): no geometry, no items. */
@@ -424,6 +457,7 @@ export function candidateSummaryFor(candidate: DesignCandidate): {
   priceBand: { lowAud: number; highAud: number };
   cabinetRoles: string[];
   island: string[] | null;
+  peninsula: string[] | null;
   warnings: string[];
 } {
   return {
@@ -436,6 +470,7 @@ export function candidateSummaryFor(candidate: DesignCandidate): {
     cabinetRoles: candidate.spec.runs.flatMap(r =>
       r.segments.flatMap(s => (s.kind === 'cabinet' ? [`${r.wall}:${s.role}`] : []))),
     island: candidate.spec.island ? [...candidate.spec.island.features] : null,
+    peninsula: candidate.spec.peninsula ? [...candidate.spec.peninsula.features] : null,
     warnings: candidate.violations.filter(v => v.severity === 'warn').map(v => v.message),
 };
 }
@@ -71,6 +71,16 @@ export const ROLE_PRODUCTS: Record<SegmentRole, RoleProduct> = {
   // fridge. It keeps the tall bank visually continuous while giving the
   // fridge doors a full cabinet width of clearance.
   'fridge-corner-pantry': { definitionId: 'tall_2_door_pantry', widths: [600], kind: 'tall', priceWeight: 1150 },
+  // Laundry: a 45L tub in its own base, and under-bench openings sized for a
+  // standard front loader (600 body plus side clearance).
+  'laundry-tub':  { definitionId: 'laundry_sink_base',  widths: [600, 450],      kind: 'base',      priceWeight: 640 },
+  'washer-gap':   { definitionId: 'washer_opening',     widths: [650],           kind: 'appliance', priceWeight: 140 },
+  'dryer-gap':    { definitionId: 'dryer_opening',      widths: [650],           kind: 'appliance', priceWeight: 140 },
+  // Wardrobe towers are full height; hanging needs the width for a rail.
+  'hanging-rail': { definitionId: 'tall_wardrobe_hanging', widths: [900, 800, 600], kind: 'tall',  priceWeight: 1050 },
+  'wardrobe-shelves': { definitionId: 'tall_wardrobe_shelves', widths: [600, 450], kind: 'tall',   priceWeight: 1100 },
+  // Bathroom vanity with a top-mounted or semi-recessed basin.
+  'vanity-basin': { definitionId: 'vanity_sink_base',   widths: [900, 750, 600], kind: 'base',      priceWeight: 780 },
 };
 
 /** Single-door variant when a narrow width is used. */
@@ -81,6 +91,7 @@ export function resolveDefinition(role: SegmentRole, widthMm: number): string {
   if (role === 'drawers') return widthMm === 500 ? 'base_4_drawer' : 'base_3_drawer';
   if (role === 'pantry' && widthMm <= 600) return 'tall_1_door_pantry';
   if (role === 'pantry') return 'tall_2_door_pantry';
+  if (role === 'vanity-basin' && widthMm <= 600) return 'vanity_sink_base_1_door';
   return ROLE_PRODUCTS[role].definitionId;
 }
 
@@ -102,4 +113,5 @@ export const FRIDGE_TOP_ID = 'fridge_top_cabinet';
 /** Fixed appliance/role widths that must not be resized to fit. */
 export const FIXED_WIDTH_ROLES: SegmentRole[] = [
   'dishwasher', 'drawers', 'oven-tower', 'corner', 'corner-buffer', 'fridge-corner-pantry',
+  'washer-gap', 'dryer-gap',
 ];
@@ -7,11 +7,16 @@
  * neighbouring cabinet as fillerLeft/fillerRight; exposed run ends get
  * endPanelLeft/endPanelRight. The normal corner is a square pie-cut product;
  * mapped blind-corner fallbacks still resolve to a left/right variant with the
- * blind side facing the physical corner.
+ * blind side facing the physical corner. Without explicit job dimensions the
+ * carcase sizes follow the spec's room type (a vanity is shallower than a
+ * kitchen base).
+ *
+ * A peninsula continues the return arm of its host run's end corner across
+ * the room. The host run is shortened so a walkway stays clear behind the
+ * peninsula's finished back and seating overhang.
  */
 
 import type { GlobalDimensions, PlacedItem } from '@/types';
-import { DEFAULT_GLOBAL_DIMENSIONS } from '@/constants';
 import { runRange, runTouchesWallEnd } from './briefConstraints';
 import {
   FRIDGE_ROOM_CORNER_CLEARANCE_MM,
@@ -23,12 +28,14 @@ import {
   resolveCornerVariant,
 } from './catalogRoles';
 import {
-  benchtopRect, itemRect, sharedCornerAt, usableIntervals, wallCabBlockedIntervals, wallLength, wallToWorld,
-  type Interval,
+  benchtopRect, boundingRect, itemRect, rectsOverlap, sharedCornerAt, usableIntervals, wallCabBlockedIntervals, wallLength,
+  wallToWorld, type Interval, type PlanRect,
 } from './geometry';
 import { solveRun } from './solveRun';
+import { obstructionWallIntervals } from './obstructions';
 import { BLIND_CORNER_CLEARANCE_MM, BLIND_CORNER_MIN_WIDTH_MM } from './blindCorner';
-import type { KitchenSpec, ResolvedSegment, RoomSpec, Run, SegmentRole, Wall } from './types';
+import { dimensionsForRoomType } from './roomTypes';
+import type { KitchenSpec, PeninsulaSpec, ResolvedSegment, RoomSpec, Run, SegmentRole, Wall } from './types';
 
 export interface CompiledDesign {
   items: PlacedItem[];
@@ -43,7 +50,10 @@ export interface CompiledDesign {
   sourceSpec: KitchenSpec;
 }
 
-const TALL_ROLES: SegmentRole[] = ['pantry', 'oven-tower', 'fridge-gap', 'fridge-corner-pantry'];
+const TALL_ROLES: SegmentRole[] = [
+  'pantry', 'oven-tower', 'fridge-gap', 'fridge-corner-pantry', 'hanging-rail', 'wardrobe-shelves',
+];
+const APPLIANCE_ROLES: SegmentRole[] = ['dishwasher', 'fridge-gap', 'washer-gap', 'dryer-gap'];
 const FRIDGE_BODY_HEIGHT_MM = 1800;
 const FRIDGE_OVERHEAD_MIN_HEIGHT_MM = 300;
 const FRIDGE_SIDE_PANEL_THICKNESS_MM = 18;
@@ -54,6 +64,28 @@ const DISHWASHER_SUPPORT_PANEL_MM = 16;
  * this are visibly separate and must each receive their own finished panel. */
 const END_JOIN_TOLERANCE_MM = 1;
 const NORMAL_UPPER_WALL_FILLER_MM = 50;
+/** Scribe allowance kept between joinery and a column, bulkhead or slope. */
+const OBSTRUCTION_SCRIBE_MM = 20;
+const PENINSULA_AISLE_MM = 900;
+const PENINSULA_SEATING_OVERHANG_MM = 300;
+
+/** Floor kept between a peninsula's back and the wall it runs along: the
+ *  stool-side top when it seats, otherwise a normal overhang, plus a walkway. */
+export function peninsulaBackClearanceMm(
+  peninsula: Pick<PeninsulaSpec, 'features'>,
+  benchtopOverhangMm = 25,
+): number {
+  return PENINSULA_AISLE_MM
+    + (peninsula.features.includes('seating') ? PENINSULA_SEATING_OVERHANG_MM : benchtopOverhangMm);
+}
+
+/** A plan rect's extent along a wall, in that wall's offset coordinates. */
+function spanAlongWall(rect: PlanRect, wall: Wall, room: RoomSpec): Interval {
+  if (wall === 'N') return { start: rect.minX, end: rect.maxX };
+  if (wall === 'E') return { start: rect.minZ, end: rect.maxZ };
+  if (wall === 'S') return { start: room.width - rect.maxX, end: room.width - rect.minX };
+  return { start: room.depth - rect.maxZ, end: room.depth - rect.minZ };
+}
 
 /** Choose mapped widths without leaving an unusable strip under 300mm. Wall
  * cabinets may use Microvellum prompt widths to close the final section. */
@@ -84,7 +116,7 @@ function ownsCornerAt(run: KitchenSpec['runs'][number], at: 'start' | 'end'): bo
 
 const REQUIRED_PLACEMENT_ROLES = new Set<SegmentRole>([
   'sink', 'cooktop', 'dishwasher', 'fridge-gap', 'corner', 'corner-buffer',
-  'fridge-corner-pantry',
+  'fridge-corner-pantry', 'laundry-tub', 'washer-gap', 'vanity-basin',
 ]);
 
 function cornerReserve(at: 'start' | 'end', wallLengthMm: number, reserveMm: number): Interval {
@@ -234,7 +266,7 @@ function withSolvedFridgeCornerClearance(
 export function compileSpec(
   spec: KitchenSpec,
   room: RoomSpec,
-  dims: GlobalDimensions = DEFAULT_GLOBAL_DIMENSIONS,
+  dims: GlobalDimensions = dimensionsForRoomType(spec.roomType),
 ): CompiledDesign {
   const items: PlacedItem[] = [];
   const notes: string[] = [];
@@ -267,6 +299,19 @@ export function compileSpec(
     notes.push(`Used a blind corner on the ${effectiveRuns[runIndex].wall} wall because the preferred 900mm bi-fold return displaced required adjoining cabinets`);
   }
 
+  const peninsulaHostIndex = spec.peninsula
+    ? effectiveRuns.findIndex(run => run.wall === spec.peninsula?.wall)
+    : -1;
+  if (spec.peninsula && peninsulaHostIndex >= 0) {
+    const host = effectiveRuns[peninsulaHostIndex];
+    const hostLength = wallLength(host.wall, room);
+    const range = runRange(host, hostLength);
+    const clearanceMm = peninsulaBackClearanceMm(spec.peninsula, dims.benchtopOverhang);
+    effectiveRuns[peninsulaHostIndex] = spec.peninsula.at === 'end'
+      ? { ...host, endMm: Math.min(range.endMm, hostLength - clearanceMm) }
+      : { ...host, startMm: Math.max(range.startMm, clearanceMm) };
+  }
+
   // A real upper-corner cabinet owns 600mm on both adjoining overhead rows.
   // It is derived from the same physical corner intent as the base corner and
   // is emitted once on the owner run; the two reservations stop standard wall
@@ -382,12 +427,22 @@ export function compileSpec(
       addReserve(wallCornerBlocked, dims.wallDepth);
     }
 
-    let solved = solveRun(run, len, room.openings, baseCornerBlocked);
+    // Structure in front of this wall: anything reaching down to the benchtop
+    // blocks the whole row, anything below the tall-unit tops only the tall units.
+    const floorRowDepth = Math.max(dims.baseDepth, dims.tallDepth);
+    const baseBlocked = [
+      ...baseCornerBlocked,
+      ...obstructionWallIntervals(
+        room, run.wall, floorRowDepth, dims.baseHeight + dims.benchtopThickness, OBSTRUCTION_SCRIBE_MM,
+      ),
+    ];
+    const lowHeadroom = obstructionWallIntervals(room, run.wall, floorRowDepth, dims.tallHeight, OBSTRUCTION_SCRIBE_MM);
+    let solved = solveRun(run, len, room.openings, baseBlocked, lowHeadroom);
     const fridgeClearanceRun = withSolvedFridgeCornerClearance(run, solved.resolved, len);
     if (fridgeClearanceRun) {
       run = fridgeClearanceRun;
       effectiveRuns[runIdx] = run;
-      solved = solveRun(run, len, room.openings, baseCornerBlocked);
+      solved = solveRun(run, len, room.openings, baseBlocked, lowHeadroom);
     }
     notes.push(...solved.notes);
 
@@ -462,7 +517,7 @@ export function compileSpec(
         definitionId: isBlindCorner && blindSide
           ? resolveCornerVariant(blindSide)
           : resolvedDefinitionId,
-        itemType: role === 'dishwasher' || role === 'fridge-gap' ? 'Appliance' : 'Cabinet',
+        itemType: role !== null && APPLIANCE_ROLES.includes(role) ? 'Appliance' : 'Cabinet',
         x: pos.x, y: 0, z: pos.z, rotation: pos.rotation,
         width: rs.widthMm, height, depth,
         ...(role === 'fridge-gap'
@@ -673,6 +728,7 @@ export function compileSpec(
       const normalUpperFillerAtEnd = selectedWallToWall && !upperCornerAt('end');
       const blocked: Interval[] = [
         ...openingBlocks,
+        ...obstructionWallIntervals(room, run.wall, dims.wallDepth, dims.tallHeight, OBSTRUCTION_SCRIBE_MM),
         ...tallSpans,
         ...wallCornerBlocked,
         ...(spec.style.variantId !== 'storage' && sinkSeg
@@ -1101,6 +1157,109 @@ export function compileSpec(
     }
   }
 
+  // peninsula
+  if (spec.peninsula) {
+    const peninsula = spec.peninsula;
+    const hostLength = wallLength(peninsula.wall, room);
+    const hostItems = items.filter(item => item.y === 0 && item.layoutRunIndex === peninsulaHostIndex);
+    const spans = hostItems.map(item => ({ item, span: spanAlongWall(itemRect(item), peninsula.wall, room) }));
+    const root = peninsula.at === 'end'
+      ? spans.reduce<typeof spans[number] | null>((best, next) => !best || next.span.end > best.span.end ? next : best, null)
+      : spans.reduce<typeof spans[number] | null>((best, next) => !best || next.span.start < best.span.start ? next : best, null);
+    const rootCorner = root?.item.layoutRole === 'corner' && !root.item.blindSide ? root : null;
+    const alongWall = (['N', 'E', 'S', 'W'] as Wall[]).find(wall => sharedCornerAt(peninsula.wall, wall) === peninsula.at);
+    if (peninsulaHostIndex < 0 || !alongWall) {
+      notes.push(`Left out the peninsula — there is no ${peninsula.wall} wall run to turn it from`);
+    } else if (!rootCorner) {
+      notes.push(`Left out the peninsula — the ${peninsula.wall} wall run does not finish in a corner cabinet at that end`);
+    } else {
+      const count = Math.max(1, Math.floor(peninsula.lengthMm / 600));
+      const rowWidth = count * 600;
+      const rootDepthMm = rootCorner.item.depth;
+      const alongLength = wallLength(alongWall, room);
+      const rootAtStart = sharedCornerAt(alongWall, peninsula.wall) === 'start';
+      const rootT = peninsula.at === 'end' ? rootCorner.span.end : rootCorner.span.start;
+      const backOffsetMm = peninsula.at === 'end' ? hostLength - rootT : rootT;
+      const edgeOverhang = dims.benchtopOverhang;
+      const backOverhang = peninsula.features.includes('seating') ? PENINSULA_SEATING_OVERHANG_MM : edgeOverhang;
+      const beyondEndMm = alongLength - rootDepthMm - rowWidth - edgeOverhang;
+      // Cabinet offsets along the wall the peninsula parallels, counted out
+      // from the corner. Its local X runs with that wall's offset, so the root
+      // end is local left exactly when it grows from that wall's start corner.
+      const offsetOf = (index: number) => rootAtStart
+        ? rootDepthMm + index * 600
+        : alongLength - rootDepthMm - (index + 1) * 600;
+      const farIndex = count - 1;
+      const prospective = Array.from({ length: count }, (_, index) => {
+        const pos = pullForwardFromWall(
+          wallToWorld(alongWall, offsetOf(index), 600, dims.baseDepth, room),
+          alongWall,
+          backOffsetMm,
+        );
+        const farEnd = index === farIndex;
+        return {
+          instanceId: `prospective-peninsula-${index}`,
+          definitionId: 'base_2_door',
+          itemType: 'Cabinet' as const,
+          layoutRole: 'peninsula',
+          x: pos.x, y: 0, z: pos.z, rotation: pos.rotation,
+          width: 600, height: dims.baseHeight, depth: dims.baseDepth,
+          benchtopFrontOverhang: edgeOverhang,
+          benchtopBackOverhang: backOverhang,
+          ...(farEnd && rootAtStart ? { benchtopRightOverhang: edgeOverhang } : {}),
+          ...(farEnd && !rootAtStart ? { benchtopLeftOverhang: edgeOverhang } : {}),
+        } satisfies PlacedItem;
+      });
+      // The whole top, not each carcase, is measured against the rest of the
+      // kitchen; the corner it grows from is joined to it by design.
+      const rect = boundingRect(prospective.map(candidate => benchtopRect(candidate)));
+      const floorItems = items.filter(item => item.y === 0 && item !== rootCorner.item);
+      const crowded = floorItems.some(other => {
+        if (prospective.some(candidate => rectsOverlap(itemRect(candidate), itemRect(other)))) return true;
+        const otherRect = other.height <= 1000 ? benchtopRect(other) : itemRect(other);
+        const overlapsX = rect.minX < otherRect.maxX && rect.maxX > otherRect.minX;
+        const overlapsZ = rect.minZ < otherRect.maxZ && rect.maxZ > otherRect.minZ;
+        const gap = overlapsX
+          ? Math.max(otherRect.minZ - rect.maxZ, rect.minZ - otherRect.maxZ)
+          : overlapsZ
+            ? Math.max(otherRect.minX - rect.maxX, rect.minX - otherRect.maxX)
+            : Number.POSITIVE_INFINITY;
+        return gap > 0 && gap < PENINSULA_AISLE_MM;
+      });
+      if (beyondEndMm < PENINSULA_AISLE_MM) {
+        notes.push(`Left out the peninsula — ${Math.max(0, Math.round(beyondEndMm))}mm past its end is not enough for a ${PENINSULA_AISLE_MM}mm walkway`);
+      } else if (backOffsetMm - backOverhang < PENINSULA_AISLE_MM - END_JOIN_TOLERANCE_MM) {
+        notes.push(`Left out the peninsula — the ${peninsula.wall} wall run leaves less than a ${PENINSULA_AISLE_MM}mm walkway behind it`);
+      } else if (crowded) {
+        notes.push(`Left out the peninsula — it would leave less than a ${PENINSULA_AISLE_MM}mm aisle to the other cabinets`);
+      } else {
+        // The corner's L return now points along the peninsula rather than at
+        // whichever wall end happens to be nearer.
+        rootCorner.item.cornerReturnSide = peninsula.at === 'start' ? 'Left' : 'Right';
+        const backAnchorIndex = rootAtStart ? 0 : count - 1;
+        for (const [index, candidate] of prospective.entries()) {
+          const { instanceId: _instanceId, ...cabinet } = candidate;
+          const farEnd = index === farIndex;
+          push({
+            ...cabinet,
+            // Like an island, the back faces the room: one finished panel runs
+            // the full length, anchored on the lowest-offset cabinet.
+            ...(index === backAnchorIndex ? {
+              finishedBack: true,
+              finishedBackFullHeight: true,
+              finishedBackWidth: rowWidth,
+              finishedBackOffset: (rowWidth - 600) / 2,
+            } : {}),
+            suppressStandardBack: true,
+            endPanelsFullHeight: true,
+            ...(farEnd && rootAtStart ? { endPanelRight: true } : {}),
+            ...(farEnd && !rootAtStart ? { endPanelLeft: true } : {}),
+          });
+        }
+      }
+    }
+  }
+
   // The cooking answer describes an oven even when a preferred tall tower is
   // squeezed out. Resolve that fallback to the same `base_oven` Microvellum
   // product used by the trade planner; never leave a generic two-door cabinet
@@ -0,0 +1,62 @@
+/**
+ * cooktopClearance — vertical clearances above the cooktop in a compiled
+ * design: how far each rangehood, wall cabinet or shelf that sits over the
+ * cooktop's footprint is above the cooking surface.
+ *
+ * This only measures. The minimums come from the matched regulatory profile
+ * and the cooktop's installation instructions, which the policy layer
+ * (designV2/evaluateKitchenRules) holds, so the comparison is made there.
+ */
+
+import type { PlacedItem } from '@/types';
+import type { CompiledDesign } from './compileSpec';
+import { itemRect, rectsOverlap } from './geometry';
+import { dimensionsForRoomType } from './roomTypes';
+
+export type CooktopOverheadKind = 'rangehood' | 'wall-cabinet' | 'shelf';
+
+export interface CooktopOverhead {
+  itemId: string;
+  kind: CooktopOverheadKind;
+  /** underside of the item to the measuring point, mm */
+  clearanceMm: number;
+}
+
+export interface CooktopOverheadClearances {
+  cooktopItemId: string;
+  /** floor to the measuring point: benchtop surface, plus the trivet when known */
+  measuredFromMm: number;
+  /** nearest first */
+  overheads: CooktopOverhead[];
+}
+
+function overheadKind(item: PlacedItem): CooktopOverheadKind {
+  if (item.layoutRole === 'rangehood') return 'rangehood';
+  if (item.layoutRole === 'open-shelf') return 'shelf';
+  return 'wall-cabinet';
+}
+
+/**
+ * Items above the cooktop, measured from the benchtop it is set into. Until
+ * the selected cooktop's trivet height is known the benchtop is the measuring
+ * point, which reads slightly generous against a trivet-top minimum.
+ * Null when the design has no cooktop.
+ */
+export function cooktopOverheadClearances(design: CompiledDesign, trivetHeightMm = 0): CooktopOverheadClearances | null {
+  const cooktop = design.rolePositions.cooktop?.item;
+  if (!cooktop) return null;
+  const dims = dimensionsForRoomType(design.sourceSpec.roomType);
+  const measuredFromMm = cooktop.y + cooktop.height + dims.benchtopThickness + trivetHeightMm;
+  const footprint = itemRect(cooktop);
+  const overheads = design.items
+    .filter(item => item.instanceId !== cooktop.instanceId
+      && item.y > cooktop.y + cooktop.height
+      && rectsOverlap(itemRect(item), footprint))
+    .map(item => ({
+      itemId: item.instanceId,
+      kind: overheadKind(item),
+      clearanceMm: Math.round(item.y - measuredFromMm),
+    }))
+    .sort((a, b) => a.clearanceMm - b.clearanceMm || a.itemId.localeCompare(b.itemId));
+  return { cooktopItemId: cooktop.instanceId, measuredFromMm, overheads };
+}
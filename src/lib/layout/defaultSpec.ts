@@ -2,6 +2,7 @@
  * defaultSpecFor — deterministic KitchenSpec from a DesignBrief.
  * Used as the no-AI fallback and as the wizard's instant preview.
  * Services-aware and faithful to exact customer wall/range selections.
+ * Non-kitchen room types delegate to roomTypes.ts.
  */
 
 import { rangeForWall } from './briefConstraints';
@@ -11,11 +12,13 @@ import {
   ROLE_PRODUCTS,
   fridgeOpeningWidthMm,
 } from './catalogRoles';
+import { peninsulaBackClearanceMm } from './compileSpec';
 import { sharedCornerAt, wallLength } from './geometry';
+import { defaultRoomSpecFor } from './roomTypes';
 import { applyStyleDNA } from './styleDNA';
-import type { DesignBrief, KitchenSpec, Run, Segment, SegmentRole, StyleSpec, Wall } from './types';
+import type { DesignBrief, KitchenSpec, PeninsulaSpec, Run, Segment, SegmentRole, StyleSpec, Wall } from './types';
 
-export type LayoutShape = 'single-wall' | 'l-shape' | 'u-shape' | 'galley';
+export type LayoutShape = 'single-wall' | 'l-shape' | 'u-shape' | 'galley' | 'peninsula';
 
 function seg(role: SegmentRole, widthMm?: number): Segment {
   return { kind: 'cabinet', role, ...(widthMm ? { widthMm } : {}) };
@@ -64,8 +67,9 @@ function adjacent(a: Wall, b: Wall): boolean {
   return sharedCornerAt(a, b) !== null;
 }
 
-/** Derive the cabinet arrangement from exact wall choices. */
-export function inferLayoutShapeFromWalls(walls: Wall[]): LayoutShape | null {
+/** Derive the cabinet arrangement from exact wall choices. A peninsula never
+ *  follows from walls alone — one wall may equally be a single-wall kitchen. */
+export function inferLayoutShapeFromWalls(walls: Wall[]): Exclude<LayoutShape, 'peninsula'> | null {
   const unique = [...new Set(walls)];
   if (unique.length === 0) return null;
   if (unique.length === 1) return 'single-wall';
@@ -76,7 +80,9 @@ export function inferLayoutShapeFromWalls(walls: Wall[]): LayoutShape | null {
 
 function selectedWallsFor(brief: DesignBrief, shape: LayoutShape): Wall[] | null {
   const selected = [...new Set(brief.allowedWalls ?? [])];
-  return inferLayoutShapeFromWalls(selected) === shape ? selected : null;
+  const inferred = inferLayoutShapeFromWalls(selected);
+  // A peninsula stands free of the walls, so its kitchen selects one wall.
+  return inferred === shape || (shape === 'peninsula' && inferred === 'single-wall') ? selected : null;
 }
 
 /** Which wall should hold the sink, preferring existing plumbing. */
@@ -206,6 +212,7 @@ function preferredPantryWidthMm(
     'l-shape': ['N', 'W'],
     'u-shape': ['N', 'W', 'E'],
     galley: ['N', 'S'],
+    peninsula: ['N'],
   };
   const walls = [...new Set(selectedWalls ?? defaultWalls[shape])];
   const lengths = walls.map(wall => availableLength(brief, wall));
@@ -213,7 +220,7 @@ function preferredPantryWidthMm(
   const longestRunMm = Math.max(0, ...lengths);
   const storageWasRequested = brief.priorities.includes('storage');
 
-  if (shape === 'single-wall') {
+  if (shape === 'single-wall' || shape === 'peninsula') {
     if (longestRunMm >= 6000) return 900;
     if (longestRunMm >= 4800 || (storageWasRequested && longestRunMm >= 3600)) return 600;
     return undefined;
@@ -507,11 +514,47 @@ function protectCooktopOnCompleteWall(segments: Segment[]): Segment[] {
   ];
 }
 
+/** Clear floor kept beyond a peninsula's free end, past its 25mm top. */
+const PENINSULA_END_AISLE_MM = 900;
+
+/**
+ * Where a peninsula returns from a single wall run, and how long it can be.
+ * It turns at whichever run end meets a wall without a door or walkway, runs
+ * parallel to that wall and keeps a clear walkway both behind its seating and
+ * beyond its free end. The host run stops short of the adjoining wall by that
+ * rear clearance. Null when the room is too small for a 1200mm peninsula.
+ */
+function peninsulaFor(
+  brief: DesignBrief,
+  wall: Wall,
+): { peninsula: PeninsulaSpec; hostStartMm: number; hostEndMm: number } | null {
+  const walls: Wall[] = ['N', 'E', 'S', 'W'];
+  const adjoiningAt = (at: 'start' | 'end') => walls.find(other => sharedCornerAt(wall, other) === at) ?? wall;
+  const hasDoorway = (other: Wall) => brief.room.openings.some(opening =>
+    opening.wall === other && (opening.type === 'door' || opening.type === 'walkway'));
+  const at = (['end', 'start'] as const).find(end => !hasDoorway(adjoiningAt(end))) ?? 'end';
+  const features: PeninsulaSpec['features'] = ['storage', 'seating'];
+  const rearClearanceMm = peninsulaBackClearanceMm({ features });
+  const range = rangeForWall(brief, wall);
+  const length = wallLength(wall, brief.room);
+  const hostStartMm = at === 'start' ? Math.max(range.startMm, rearClearanceMm) : range.startMm;
+  const hostEndMm = at === 'end' ? Math.min(range.endMm, length - rearClearanceMm) : range.endMm;
+  const crossRoomMm = wallLength(adjoiningAt(at), brief.room)
+    - ROLE_PRODUCTS.corner.widths[0] - 25 - PENINSULA_END_AISLE_MM;
+  const lengthMm = Math.min(2400, Math.floor(crossRoomMm / 600) * 600);
+  if (lengthMm < 1200 || hostEndMm <= hostStartMm) return null;
+  return { peninsula: { wall, at, lengthMm, features }, hostStartMm, hostEndMm };
+}
+
 export function defaultSpecFor(
   brief: DesignBrief,
   shape: LayoutShape,
   style: StyleSpec = DEFAULT_STYLE,
 ): KitchenSpec {
+  // Laundries, wardrobes and vanities have their own arrangements; the rest
+  // of this function is the kitchen.
+  const otherRoom = defaultRoomSpecFor(brief, shape, style);
+  if (otherRoom) return otherRoom;
   const wantsMostlyDrawers = brief.priorities.includes('drawers');
   // The mapped oven tower is 600mm. A selected 900mm oven belongs under a
   // matching 900mm cooktop cabinet, never inside a 600mm tower or base unit.
@@ -563,6 +606,10 @@ export function defaultSpecFor(
   };
 
   let runs: Run[];
+  let peninsula: PeninsulaSpec | undefined;
+  // A peninsula shortens its host run; the shared finishing passes below must
+  // see that shorter range rather than the customer's full wall.
+  let layoutBrief = brief;
   switch (shape) {
     case 'single-wall': {
       const wall = selected?.[0] ?? 'N';
@@ -756,13 +803,58 @@ export function defaultSpecFor(
       ];
       break;
     }
+    case 'peninsula': {
+      const wall = selected?.[0] ?? 'N';
+      const placement = peninsulaFor(brief, wall);
+      // Solved from the peninsula end: the corner that turns the bench into
+      // the room is placed first and doubles, with the peninsula, as the
+      // cooktop's landing; the tall bank finishes against the room wall.
+      const segments: Segment[] = [
+        seg('corner'),
+        cooktopSeg(brief, cooktopCabinetWidthMm),
+        seg('drawers', 500),
+        seg('sink', sinkCabinetWidthMm),
+      ];
+      if (dw) segments.push(seg('dishwasher'));
+      const essentialMm = segments.reduce((sum, segment) => sum + preferredSegmentWidth(segment), fridgeW);
+      segments.push(seg('doors', 600));
+      segments.push(fridgeSeg(fridgeBodyW, fridgeW));
+      if (wantsOvenTower) segments.push(seg('oven-tower'));
+      // Without room for the return, or for the working run beside it once
+      // the walkway behind the peninsula is kept, this is the plain
+      // single-wall kitchen.
+      if (!placement || placement.hostEndMm - placement.hostStartMm < essentialMm + NORMAL_WALL_FILLER_MM) {
+        return defaultSpecFor(brief, 'single-wall', style);
+      }
+      peninsula = placement.peninsula;
+      layoutBrief = {
+        ...brief,
+        wallRanges: {
+          ...brief.wallRanges,
+          [wall]: { startMm: placement.hostStartMm, endMm: placement.hostEndMm },
+        },
+      };
+      const fitted = withPreferredPantry(
+        segments,
+        pantryWidthMm,
+        Math.max(0, placement.hostEndMm - placement.hostStartMm - NORMAL_WALL_FILLER_MM),
+        segments.length,
+      );
+      runs = [withSelectedRange({
+        wall,
+        segments: fitted,
+        wallCabinets: true,
+        fromEnd: peninsula.at === 'end',
+      }, layoutBrief)];
+      break;
+    }
   }
 
   // Every ordinary run end that meets a room wall receives the same normal
   // filler. Real corner units are excluded by the helper.
   const runWalls = runs.map(run => run.wall);
-  runs = runs.map(run => withNormalWallEndFillers(run, brief, runWalls));
-  runs = runs.map(run => withSinkUnderSuitableWindow(run, brief));
+  runs = runs.map(run => withNormalWallEndFillers(run, layoutBrief, runWalls));
+  runs = runs.map(run => withSinkUnderSuitableWindow(run, layoutBrief));
   if (wantsMostlyDrawers) {
     // The explicit customer preference is stronger than the normal balanced
     // mix. Convert every ordinary base cupboard while preserving sinks,
@@ -802,16 +894,21 @@ export function defaultSpecFor(
   // 580 working-run depth + 25 top overhang + 900 clear working aisle
   // + 25 island front + 650 island + 300 seating top + 900 rear clearance.
   const canFitIsland = islandCrossRoomMm >= 3380 && maximumIslandLengthMm >= 1200;
-  const island = (brief.island === 'want' || (brief.island === 'if-it-fits' && canFitIsland)) && canFitIsland
+  // The peninsula is this layout's seating bench; it never gets an island too.
+  const island = !peninsula
+    && (brief.island === 'want' || (brief.island === 'if-it-fits' && canFitIsland)) && canFitIsland
     ? { lengthMm: Math.min(2400, maximumIslandLengthMm), depthMm: 650, features: ['storage' as const, 'seating' as const] }
     : undefined;
 
   return applyStyleDNA({
     runs,
     island,
+    ...(peninsula ? { peninsula } : {}),
     style,
-    rationale: selected
-      ? 'Layout follows your selected cabinet walls and run limits, with the sink kept near services where possible.'
-      : 'Standard layout: sink near existing plumbing, cooktop with bench space both sides, fridge at the end of the run.',
+    rationale: peninsula
+      ? 'Peninsula layout: the bench turns into the room with stools on the far side, the cooktop keeps landing both sides and the fridge and tall storage finish the wall.'
+      : selected
+        ? 'Layout follows your selected cabinet walls and run limits, with the sink kept near services where possible.'
+        : 'Standard layout: sink near existing plumbing, cooktop with bench space both sides, fridge at the end of the run.',
   });
 }
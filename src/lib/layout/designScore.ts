@@ -1,11 +1,15 @@
 /**
  * Professional deterministic score for rule-approved candidate layouts.
- * The six categories and their weights are the v5 release contract.
+ * The six categories and their weights are the v5 release contract. Laundries,
+ * wardrobes and vanities keep the categories but read them for their room:
+ * preparation is folding bench, hanging length or vanity top, and storage
+ * counts the room's own cabinets.
  */
 
 import { ROLE_PRODUCTS } from './catalogRoles';
+import { roomTypeOf } from './roomTypes';
 import { styleProfile } from './styleDNA';
-import type { DesignBrief, KitchenSpec, Segment, SegmentRole, Violation } from './types';
+import type { DesignBrief, KitchenSpec, RoomType, Segment, SegmentRole, Violation } from './types';
 
 export interface DesignScoreParts {
   workflow: number;       // 0-30
@@ -34,18 +38,33 @@ export const PROFESSIONAL_CATEGORY_MINIMUMS: Readonly<Record<keyof DesignScorePa
 });
 
 const BASE_ROLES = new Set<SegmentRole>(['sink', 'cooktop', 'drawers', 'doors', 'dishwasher', 'corner-buffer']);
+/** Under-bench roles that form a continuous top in each room. Front loaders
+ *  sit under the laundry bench, so it folds over them. */
+const BENCH_ROLES: Record<RoomType, Set<SegmentRole>> = {
+  kitchen: BASE_ROLES,
+  laundry: new Set(['laundry-tub', 'washer-gap', 'dryer-gap', 'drawers', 'doors']),
+  wardrobe: new Set(['hanging-rail']),
+  bathroom: new Set(['vanity-basin', 'drawers', 'doors']),
+};
+/** Bench (or hanging) stretch for 20 / 18 / 16 preparation points. */
+const PREPARATION_STEPS: Record<RoomType, [number, number, number]> = {
+  kitchen: [1800, 1200, 900],
+  laundry: [1800, 1200, 900],
+  wardrobe: [1800, 1200, 900],
+  bathroom: [1200, 900, 600],
+};
 
 function widthOf(segment: Segment): number {
   if (segment.kind !== 'cabinet') return segment.widthMm;
   return segment.widthMm ?? ROLE_PRODUCTS[segment.role]?.widths[0] ?? 600;
 }
 
-function longestBenchStretch(spec: KitchenSpec): number {
+function longestBenchStretch(spec: KitchenSpec, roles: Set<SegmentRole> = BASE_ROLES): number {
   let best = 0;
   for (const run of spec.runs) {
     let current = 0;
     for (const segment of run.segments) {
-      if (segment.kind === 'cabinet' && BASE_ROLES.has(segment.role)) {
+      if (segment.kind === 'cabinet' && roles.has(segment.role)) {
         current += widthOf(segment);
         best = Math.max(best, current);
       } else {
@@ -72,6 +91,7 @@ export function scoreDesign(
   violations: Violation[],
 ): DesignScore {
   const codes = new Set(violations.map(violation => violation.code));
+  const roomType = roomTypeOf(spec);
 
   let workflow = 30;
   if (codes.has('triangle-size')) workflow -= 8;
@@ -85,26 +105,37 @@ export function scoreDesign(
   if (codes.has('fridge-landing')) workflow -= 6;
   if (codes.has('dishwasher-not-adjacent')) workflow -= 10;
   if (codes.has('tall-unit-run-end') || codes.has('tall-unit-workflow-break')) workflow -= 12;
+  if (codes.has('washer-beside-tub')) workflow -= 8;
   workflow = clamp(workflow, 0, 30);
 
-  const stretch = longestBenchStretch(spec);
-  let preparation = stretch >= 1800 ? 20 : stretch >= 1200 ? 18 : stretch >= 900 ? 16 : 8;
+  const stretch = longestBenchStretch(spec, BENCH_ROLES[roomType]);
+  const [best, good, fair] = PREPARATION_STEPS[roomType];
+  let preparation = stretch >= best ? 20 : stretch >= good ? 18 : stretch >= fair ? 16 : 8;
   if (codes.has('prep-space')) preparation = 0;
   preparation = clamp(preparation, 0, 20);
 
   let spaceAndCorners = 15;
   if (codes.has('corner-resolution') || codes.has('corner-integrity')) spaceAndCorners -= 8;
   if (codes.has('narrow-aisle') || codes.has('narrow-galley')) spaceAndCorners -= 8;
-  if (codes.has('overlap') || codes.has('out-of-room')) spaceAndCorners = 0;
+  if (codes.has('overlap') || codes.has('out-of-room') || codes.has('obstruction-clash')) spaceAndCorners = 0;
   spaceAndCorners = clamp(spaceAndCorners, 0, 15);
 
   const drawers = roleCount(spec, 'drawers');
   const doors = roleCount(spec, 'doors');
-  const pantry = roleCount(spec, 'pantry');
   const upperCoverage = spec.runs.reduce((sum, run) => sum + (run.upperPlan?.coverageRatio ?? (run.wallCabinets ? 1 : 0)), 0)
     / Math.max(1, spec.runs.length);
-  let storage = 7 + Math.min(4, drawers * 1.5) + Math.min(2, doors * .5) + Math.min(3, pantry * 3) + Math.min(2, upperCoverage * 2);
-  if (brief.priorities.includes('storage') && pantry === 0 && drawers < 2) storage -= 3;
+  let storage: number;
+  if (roomType === 'wardrobe') {
+    // Shelving towers and drawers are the robe's folded storage.
+    const shelves = roleCount(spec, 'wardrobe-shelves');
+    storage = 7 + Math.min(5, shelves * 2.5) + Math.min(3, drawers * 1.5);
+  } else if (roomType === 'bathroom') {
+    storage = 9 + Math.min(4, drawers * 2) + Math.min(2, doors);
+  } else {
+    const pantry = roleCount(spec, 'pantry');
+    storage = 7 + Math.min(4, drawers * 1.5) + Math.min(2, doors * .5) + Math.min(3, pantry * 3) + Math.min(2, upperCoverage * 2);
+    if (brief.priorities.includes('storage') && pantry === 0 && drawers < 2) storage -= 3;
+  }
   storage = clamp(storage, 0, 15);
 
   const profile = styleProfile(spec.style.familyId);
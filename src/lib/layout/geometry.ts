@@ -14,23 +14,32 @@
  *   the wall from inside the room. Under this convention, low-t is always the
  *   cabinet row's LEFT end as seen from the room, on every wall — which is
  *   what PlacedItem.endPanelLeft / fillerLeft refer to.
+ * - Polygon rooms (shape 'Polygon') have walls P0, P1, … instead; offsets on
+ *   them run along the wall's segment from its start corner (see polygon.ts).
  */
 
 import type { Opening, RoomConfig, ServicePoint } from '@/types';
 import type { PlacedItem } from '@/types';
 import type { Wall } from './types';
+import { polygonFromRoom, roomWallLength, segmentForWall, segmentToWorld } from './polygon';
 
 export const WALL_ROTATION: Record<Wall, number> = { N: 0, E: 90, S: 180, W: 270 };
 
 export function wallLength(wall: Wall, room: RoomConfig): number {
-  return wall === 'N' || wall === 'S' ? room.width : room.depth;
+  return roomWallLength(room, wall);
 }
 
 /** World-space center for an item of `widthMm` at wall offset `t`, sitting
- *  against the wall with carcase depth `depthMm`. */
+ *  against the wall with carcase depth `depthMm`. Throws for a wall the room
+ *  does not have (e.g. `P3` on a rectangle, or `N` on a polygon room). */
 export function wallToWorld(
   wall: Wall, t: number, widthMm: number, depthMm: number, room: RoomConfig,
 ): { x: number; z: number; rotation: number } {
+  if (room.shape === 'Polygon' || !(wall in WALL_ROTATION)) {
+    const seg = segmentForWall(polygonFromRoom(room), wall);
+    if (!seg) throw new Error(`Room has no wall ${wall}`);
+    return segmentToWorld(seg, t, widthMm, depthMm);
+  }
   const c = t + widthMm / 2; // center along the wall
   switch (wall) {
     case 'N': return { x: c, z: depthMm / 2, rotation: 0 };
@@ -97,6 +106,16 @@ export function rectsOverlap(a: PlanRect, b: PlanRect, toleranceMm = 1): boolean
     && a.minZ < b.maxZ - toleranceMm && a.maxZ > b.minZ + toleranceMm;
 }
 
+/** The smallest rect holding every given rect (a row of tops as one bench). */
+export function boundingRect(rects: PlanRect[]): PlanRect {
+  return {
+    minX: Math.min(...rects.map(rect => rect.minX)),
+    maxX: Math.max(...rects.map(rect => rect.maxX)),
+    minZ: Math.min(...rects.map(rect => rect.minZ)),
+    maxZ: Math.max(...rects.map(rect => rect.maxZ)),
+  };
+}
+
 /** 1-D interval on a wall. */
 export interface Interval { start: number; end: number }
 
@@ -0,0 +1,129 @@
+/**
+ * Structural obstructions — columns, chimney breasts, bulkheads, beams and
+ * sloped ceilings — resolved to plan footprints, clear heights and blocked
+ * wall spans. Shared by the layout engine (solveRun via compileSpec), the
+ * rules engine and the planner's auto-placement so all three agree on what a
+ * cabinet may occupy.
+ *
+ * Footprints use the floor-service convention: x from the left wall, z from
+ * the back wall. Wall spans use the wall-offset convention in geometry.ts.
+ */
+
+import type { Obstruction, RoomConfig } from '@/types';
+import type { Interval, PlanRect } from './geometry';
+import { polygonFromRoom, segmentForWall } from './polygon';
+import type { Wall } from './types';
+
+export const OBSTRUCTION_LABELS: Record<Obstruction['type'], string> = {
+  column: 'column',
+  'chimney-breast': 'chimney breast',
+  bulkhead: 'bulkhead',
+  beam: 'beam',
+  'sloped-ceiling': 'sloped ceiling',
+};
+
+/** Columns and chimney breasts stand on the floor; the rest hang from the ceiling. */
+export function isFloorToCeiling(o: Obstruction): boolean {
+  return o.type === 'column' || o.type === 'chimney-breast';
+}
+
+export function obstructionRect(o: Obstruction): PlanRect {
+  return { minX: o.xMm, maxX: o.xMm + o.widthMm, minZ: o.zMm, maxZ: o.zMm + o.depthMm };
+}
+
+/** Clear height (mm) under `o` at a plan point inside its footprint. */
+export function obstructionUndersideAt(o: Obstruction, x: number, z: number, roomHeight: number): number {
+  if (isFloorToCeiling(o)) return 0;
+  const underside = Math.min(o.undersideMm ?? roomHeight, roomHeight);
+  if (o.type !== 'sloped-ceiling') return underside;
+  // 0 at the low edge, 1 at the opposite edge where the slope meets the ceiling.
+  let rise: number;
+  switch (o.lowSide ?? 'N') {
+    case 'N': rise = (z - o.zMm) / o.depthMm; break;
+    case 'S': rise = (o.zMm + o.depthMm - z) / o.depthMm; break;
+    case 'W': rise = (x - o.xMm) / o.widthMm; break;
+    default: rise = (o.xMm + o.widthMm - x) / o.widthMm; break; // E
+  }
+  return underside + (roomHeight - underside) * Math.max(0, Math.min(1, rise));
+}
+
+/** Lowest clear height under `o` across `rect`, or null when the two do not
+ *  overlap in plan (touching edges within `toleranceMm` do not count). */
+export function obstructionClearance(
+  o: Obstruction,
+  rect: PlanRect,
+  roomHeight: number,
+  toleranceMm = 1,
+): number | null {
+  const r = obstructionRect(o);
+  const minX = Math.max(r.minX, rect.minX);
+  const maxX = Math.min(r.maxX, rect.maxX);
+  const minZ = Math.max(r.minZ, rect.minZ);
+  const maxZ = Math.min(r.maxZ, rect.maxZ);
+  if (maxX - minX <= toleranceMm || maxZ - minZ <= toleranceMm) return null;
+  // Slopes are linear, so the lowest point is on the overlap edge nearest the low side.
+  const x = o.lowSide === 'E' ? maxX : minX;
+  const z = o.lowSide === 'S' ? maxZ : minZ;
+  return obstructionUndersideAt(o, x, z, roomHeight);
+}
+
+/** Clear height above `rect`: the room height, less anything hanging over it. */
+export function localCeilingHeight(room: RoomConfig, rect: PlanRect): number {
+  let height = room.height;
+  for (const o of room.obstructions ?? []) {
+    const clear = obstructionClearance(o, rect, room.height);
+    if (clear !== null) height = Math.min(height, clear);
+  }
+  return height;
+}
+
+/**
+ * Wall-offset spans where an obstruction stands within `bandDepthMm` of
+ * `wall` and comes lower than `topMm` — the top of the cabinetry that would
+ * sit there. Columns and chimney breasts block at any height.
+ */
+export function obstructionWallIntervals(
+  room: RoomConfig,
+  wall: Wall,
+  bandDepthMm: number,
+  topMm: number,
+  marginMm = 0,
+): Interval[] {
+  const obstructions = room.obstructions ?? [];
+  if (obstructions.length === 0) return [];
+  const seg = segmentForWall(polygonFromRoom(room), wall);
+  if (!seg) return [];
+  const dx = (seg.b.x - seg.a.x) / seg.length;
+  const dz = (seg.b.z - seg.a.z) / seg.length;
+  const along = (p: { x: number; z: number }) => (p.x - seg.a.x) * dx + (p.z - seg.a.z) * dz;
+  const into = (p: { x: number; z: number }) => (p.x - seg.a.x) * seg.normal.x + (p.z - seg.a.z) * seg.normal.z;
+  const at = (t: number, d: number) => ({
+    x: seg.a.x + dx * t + seg.normal.x * d,
+    z: seg.a.z + dz * t + seg.normal.z * d,
+  });
+
+  const out: Interval[] = [];
+  for (const o of obstructions) {
+    const r = obstructionRect(o);
+    const corners = [
+      { x: r.minX, z: r.minZ }, { x: r.maxX, z: r.minZ },
+      { x: r.maxX, z: r.maxZ }, { x: r.minX, z: r.maxZ },
+    ];
+    const depths = corners.map(into);
+    if (Math.min(...depths) >= bandDepthMm || Math.max(...depths) <= 0) continue;
+    const ts = corners.map(along);
+    const start = Math.max(0, Math.min(...ts));
+    const end = Math.min(seg.length, Math.max(...ts));
+    if (end <= start) continue;
+    // Only the part of the obstruction over the band decides the height.
+    const band = [at(start, 0), at(end, 0), at(start, bandDepthMm), at(end, bandDepthMm)];
+    const bandRect: PlanRect = {
+      minX: Math.min(...band.map(p => p.x)), maxX: Math.max(...band.map(p => p.x)),
+      minZ: Math.min(...band.map(p => p.z)), maxZ: Math.max(...band.map(p => p.z)),
+    };
+    const clear = obstructionClearance(o, bandRect, room.height);
+    if (clear === null || clear >= topMm) continue;
+    out.push({ start: start - marginMm, end: end + marginMm });
+  }
+  return out;
+}
@@ -15,9 +15,13 @@
  * directed edge, which makes the left-normal (-dz, dx) point INTO the room.
  * The rectangle case reproduces the legacy N:0/E:90/S:180/W:270 rotations and
  * wallToWorld positions exactly — that equivalence is the oracle test.
+ *
+ * Polygon rooms (shape 'Polygon') carry their outline in `room.polygon` and
+ * keep each wall's stored id (`P0`, `P1`, …), so openings and services stay
+ * attached to the same wall when corners are added or moved elsewhere.
  */
 
-import type { RoomConfig } from '@/types';
+import type { PolygonWallId, RoomConfig, RoomPolygonCorner } from '@/types';
 import type { Wall } from './types';
 
 export interface Vec2 { x: number; z: number }
@@ -60,6 +64,22 @@ export function rotationFromNormal(n: Vec2): number {
   return q * 90;
 }
 
+/** Within this many degrees of a quarter turn a polygon wall counts as
+ *  square: it snaps like a rectangle wall and maps to a canonical wall. */
+const SQUARE_WALL_TOLERANCE_DEG = 5;
+
+/** Inward normal → cabinet rotation for a Polygon room wall. Near-square walls
+ *  snap as rotationFromNormal does; angled walls keep their exact angle
+ *  (0.1° resolution) so a run sits flush against them. */
+export function polygonWallRotation(n: Vec2): number {
+  const deg = ((Math.atan2(-n.x, n.z) * 180 / Math.PI) % 360 + 360) % 360;
+  const quarter = Math.round(deg / 90) * 90;
+  if (Math.abs(deg - quarter) <= SQUARE_WALL_TOLERANCE_DEG) return quarter % 360;
+  return Math.round(deg * 10) / 10;
+}
+
+const CANONICAL_BY_ROTATION: Record<number, Wall> = { 0: 'N', 90: 'E', 180: 'S', 270: 'W' };
+
 function makeSegment(a: Vec2, b: Vec2, id: string, legacyWall?: Wall): WallSegment {
   const dir = norm(sub(b, a));
   // interior is on the left of a→b, so the left-normal (-dz, dx) points inward
@@ -67,13 +87,26 @@ function makeSegment(a: Vec2, b: Vec2, id: string, legacyWall?: Wall): WallSegme
   return { id, a, b, length: len(sub(b, a)), normal, rotation: rotationFromNormal(normal), ...(legacyWall ? { legacyWall } : {}) };
 }
 
-function polygonArea(vertices: Vec2[]): number {
+function makePolygonSegment(a: Vec2, b: Vec2, id: string): WallSegment {
+  const dir = norm(sub(b, a));
+  const normal = { x: -dir.z, z: dir.x };
+  const rotation = polygonWallRotation(normal);
+  const legacyWall = CANONICAL_BY_ROTATION[rotation];
+  return { id, a, b, length: len(sub(b, a)), normal, rotation, ...(legacyWall ? { legacyWall } : {}) };
+}
+
+/** Twice the signed area; positive for this module's winding. */
+function signedArea2(vertices: Vec2[]): number {
   let s = 0;
   for (let i = 0; i < vertices.length; i++) {
     const a = vertices[i], b = vertices[(i + 1) % vertices.length];
     s += a.x * b.z - b.x * a.z;
   }
-  return Math.abs(s) / 2;
+  return s;
+}
+
+function polygonArea(vertices: Vec2[]): number {
+  return Math.abs(signedArea2(vertices)) / 2;
 }
 
 /**
@@ -90,6 +123,13 @@ export function polygonFromRoom(room: RoomConfig): RoomPolygon {
   const SE: Vec2 = { x: W, z: D };
   const SW: Vec2 = { x: 0, z: D };
 
+  if (room.shape === 'Polygon' && room.polygon && room.polygon.length >= 3) {
+    const vertices = room.polygon.map(c => ({ x: c.x, z: c.z }));
+    const segments = room.polygon.map((c, i) =>
+      makePolygonSegment(vertices[i], vertices[(i + 1) % vertices.length], c.id));
+    return { vertices, segments, area: polygonArea(vertices) };
+  }
+
   if (room.shape !== 'LShape' || !room.cutoutWidth || !room.cutoutDepth) {
     const vertices = [NW, NE, SE, SW];
     const segments = [
@@ -271,6 +311,214 @@ export function segmentForWall(poly: RoomPolygon, wall: Wall): WallSegment | und
   return poly.segments.find(s => s.id === wall);
 }
 
+/** Length (mm) of a wall as an opening/service offset runs along it. Polygon
+ *  walls use their segment; canonical walls keep the bounding-box width/depth
+ *  the offsets have always been measured against. */
+export function roomWallLength(room: RoomConfig, wall: Wall): number {
+  if (room.shape === 'Polygon') return segmentForWall(polygonFromRoom(room), wall)?.length ?? 0;
+  return wall === 'N' || wall === 'S' ? room.width : room.depth;
+}
+
+// ─── Polygon room outlines ──────────────────────────────────────────────────
+
+/**
+ * Canonical form of a Polygon room outline: translated so its bounding box
+ * starts at 0,0, rounded to whole mm and wound with the room on each wall's
+ * left. Reversing the winding keeps every wall's id on the same physical wall
+ * (the id moves to the other end of it). Returns the outline with the
+ * bounding-box width/depth to store alongside it.
+ */
+export function normalizeRoomPolygon(corners: RoomPolygonCorner[]): { polygon: RoomPolygonCorner[]; width: number; depth: number } {
+  if (corners.length === 0) return { polygon: [], width: 0, depth: 0 };
+  const minX = Math.min(...corners.map(c => c.x));
+  const minZ = Math.min(...corners.map(c => c.z));
+  let polygon = corners.map(c => ({ id: c.id, x: Math.round(c.x - minX), z: Math.round(c.z - minZ) }));
+  if (signedArea2(polygon) < 0) {
+    const n = polygon.length;
+    // Reversed walk: the wall that ran i → i+1 now runs i+1 → i, so its id
+    // moves onto corner i+1.
+    polygon = polygon.map((_, k) => {
+      const from = polygon[(n - k) % n];
+      const wallOwner = polygon[(n - k - 1 + n) % n];
+      return { id: wallOwner.id, x: from.x, z: from.z };
+    });
+  }
+  return {
+    polygon,
+    width: Math.max(...polygon.map(c => c.x)),
+    depth: Math.max(...polygon.map(c => c.z)),
+  };
+}
+
+/** Why a Polygon room outline cannot be used, or null when it is sound. */
+export function validateRoomPolygon(corners: RoomPolygonCorner[]): string | null {
+  if (corners.length < 3) return 'A room needs at least 3 walls';
+  if (new Set(corners.map(c => c.id)).size !== corners.length) return 'Wall ids must be unique';
+  const pts = corners.map(c => ({ x: c.x, z: c.z }));
+  const n = pts.length;
+  for (let i = 0; i < n; i++) {
+    if (len(sub(pts[(i + 1) % n], pts[i])) < 1) return `Wall ${corners[i].id} has no length`;
+  }
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      if (j === i + 1 || (i === 0 && j === n - 1)) continue; // neighbours share a corner
+      if (segmentsCross(pts[i], pts[(i + 1) % n], pts[j], pts[(j + 1) % n])) {
+        return `Walls ${corners[i].id} and ${corners[j].id} cross`;
+      }
+    }
+  }
+  if (polygonArea(pts) < 1) return 'The room has no floor area';
+  return null;
+}
+
+/** One wall of a Polygon room as the editor shows it: its length and the
+ *  compass heading it runs in (0° = along the N wall to the right, 90° = down
+ *  the E wall, measured clockwise in plan). */
+export interface PolygonWallRunEntry {
+  id: PolygonWallId;
+  lengthMm: number;
+  headingDeg: number;
+}
+
+/** Outline → wall-by-wall lengths and headings, starting from corner 0. */
+export function wallRunFromPolygon(corners: RoomPolygonCorner[]): PolygonWallRunEntry[] {
+  const n = corners.length;
+  return corners.map((c, i) => {
+    const next = corners[(i + 1) % n];
+    const heading = Math.atan2(next.z - c.z, next.x - c.x) * 180 / Math.PI;
+    return {
+      id: c.id,
+      lengthMm: Math.round(Math.hypot(next.x - c.x, next.z - c.z)),
+      headingDeg: Math.round((((heading % 360) + 360) % 360) * 10) / 10,
+    };
+  });
+}
+
+/**
+ * Wall-by-wall lengths and headings → normalized outline. The last wall is
+ * implied: it closes the shape back to the first corner, so its own length
+ * and heading are ignored.
+ */
+export function polygonFromWallRun(run: PolygonWallRunEntry[]): { polygon: RoomPolygonCorner[]; width: number; depth: number } {
+  const corners: RoomPolygonCorner[] = [];
+  let x = 0, z = 0;
+  run.forEach((wall, i) => {
+    corners.push({ id: wall.id, x, z });
+    if (i === run.length - 1) return;
+    const rad = wall.headingDeg * Math.PI / 180;
+    x += Math.cos(rad) * wall.lengthMm;
+    z += Math.sin(rad) * wall.lengthMm;
+  });
+  return normalizeRoomPolygon(corners);
+}
+
+/** Plan point `offsetMm` along a canonical bounding-box wall (offsets run
+ *  from the wall's left end as seen from inside the room). */
+function boxWallPoint(room: RoomConfig, wall: 'N' | 'E' | 'S' | 'W', offsetMm: number): Vec2 {
+  switch (wall) {
+    case 'N': return { x: offsetMm, z: 0 };
+    case 'E': return { x: room.width, z: offsetMm };
+    case 'S': return { x: room.width - offsetMm, z: room.depth };
+    case 'W': return { x: 0, z: room.depth - offsetMm };
+  }
+}
+
+function boxWallOffset(room: RoomConfig, wall: 'N' | 'E' | 'S' | 'W', p: Vec2): number {
+  switch (wall) {
+    case 'N': return p.x;
+    case 'E': return p.z;
+    case 'S': return room.width - p.x;
+    case 'W': return room.depth - p.z;
+  }
+}
+
+const isBoxWall = (wall: string): wall is 'N' | 'E' | 'S' | 'W' =>
+  wall === 'N' || wall === 'E' || wall === 'S' || wall === 'W';
+
+/**
+ * The same room as a Polygon room: the rectangle or L outline becomes
+ * P0…Pn−1 and every opening and service moves onto the polygon wall it sits
+ * on, keeping its position. Polygon rooms are returned unchanged.
+ */
+export function toPolygonRoom(room: RoomConfig): RoomConfig {
+  if (room.shape === 'Polygon') return room;
+  const segments = polygonFromRoom(room).segments;
+  const polygon = roomPolygonCorners(room);
+  const move = <T extends { wall: Wall; offsetMm: number }>(feature: T): T => {
+    const index = segments.findIndex(s => s.id === feature.wall);
+    if (index < 0 || !isBoxWall(feature.wall)) return feature;
+    const seg = segments[index];
+    const p = boxWallPoint(room, feature.wall, feature.offsetMm);
+    const dir = norm(sub(seg.b, seg.a));
+    const t = (p.x - seg.a.x) * dir.x + (p.z - seg.a.z) * dir.z;
+    return { ...feature, wall: polygon[index].id, offsetMm: Math.max(0, Math.round(t)) };
+  };
+  return {
+    ...room,
+    shape: 'Polygon',
+    cutoutWidth: 0,
+    cutoutDepth: 0,
+    polygon,
+    ...(room.openings ? { openings: room.openings.map(move) } : {}),
+    ...(room.services ? { services: room.services.map(move) } : {}),
+  };
+}
+
+/**
+ * A Polygon room reduced to its bounding rectangle, for the parts of the app
+ * that only handle rectangle and L rooms. Features on polygon walls that lie
+ * along the rectangle keep their place on the matching N/E/S/W wall; the rest
+ * are dropped and counted. Other rooms are returned unchanged.
+ */
+export function squareUpPolygonRoom(room: RoomConfig): { room: RoomConfig; dropped: number } {
+  if (room.shape !== 'Polygon') return { room, dropped: 0 };
+  const segments = polygonFromRoom(room).segments;
+  let dropped = 0;
+  const onBox = (seg: WallSegment): 'N' | 'E' | 'S' | 'W' | null => {
+    const w = seg.legacyWall;
+    if (!w || !isBoxWall(w) || seg.rotation % 90 !== 0) return null;
+    const along = { N: seg.a.z === 0 && seg.b.z === 0, E: seg.a.x === room.width && seg.b.x === room.width,
+      S: seg.a.z === room.depth && seg.b.z === room.depth, W: seg.a.x === 0 && seg.b.x === 0 }[w];
+    return along ? w : null;
+  };
+  const move = <T extends { wall: Wall; offsetMm: number }>(feature: T): T | null => {
+    const seg = segments.find(s => s.id === feature.wall);
+    const wall = seg ? onBox(seg) : null;
+    if (!seg || !wall) {
+      dropped++;
+      return null;
+    }
+    const dir = norm(sub(seg.b, seg.a));
+    const p = { x: seg.a.x + dir.x * feature.offsetMm, z: seg.a.z + dir.z * feature.offsetMm };
+    return { ...feature, wall, offsetMm: Math.max(0, Math.round(boxWallOffset(room, wall, p))) };
+  };
+  const keep = <T>(list: (T | null)[]): T[] => list.filter((f): f is T => f !== null);
+  const { polygon: _polygon, ...rest } = room;
+  return {
+    room: {
+      ...rest,
+      shape: 'Rectangle',
+      cutoutWidth: 0,
+      cutoutDepth: 0,
+      ...(room.openings ? { openings: keep(room.openings.map(move)) } : {}),
+      ...(room.services ? {
+        services: keep(room.services.map(service => service.placement === 'floor'
+          // floor points stand on their own x/z; only the fallback wall changes
+          ? { ...service, wall: 'N' as const, offsetMm: Math.round(service.xMm ?? 0) }
+          : move(service))),
+      } : {}),
+    },
+    dropped,
+  };
+}
+
+/** Polygon room outline of an existing rectangle or L room, so switching a
+ *  room to 'Polygon' starts from what was there. */
+export function roomPolygonCorners(room: RoomConfig): RoomPolygonCorner[] {
+  if (room.shape === 'Polygon' && room.polygon) return room.polygon.map(c => ({ ...c }));
+  return polygonFromRoom(room).vertices.map((v, i) => ({ id: `P${i}` as PolygonWallId, x: v.x, z: v.z }));
+}
+
 /**
  * Do two segments meet at a shared corner, and is it at segA's start (t=0, its
  * `a` end) or end (t=length, its `b` end)? Generalises geometry.ts
@@ -0,0 +1,260 @@
+/**
+ * Room types — what changes when the engine designs a laundry, wardrobe or
+ * bathroom vanity instead of a kitchen.
+ *
+ * The KitchenSpec DSL, solver and compiler are shared. A room type chooses
+ * its own segment roles, carcase sizes, rule pack (rules.ts `roomTypes`) and
+ * scoring emphasis (designScore.ts); this module owns the room-type tables
+ * and the deterministic default specs for the non-kitchen rooms. Omitting
+ * `roomType` anywhere means kitchen.
+ */
+
+import type { GlobalDimensions } from '@/types';
+import { DEFAULT_GLOBAL_DIMENSIONS } from '@/constants';
+import { rangeForWall } from './briefConstraints';
+import { sharedCornerAt, wallLength } from './geometry';
+import type { LayoutShape } from './defaultSpec';
+import type {
+  DesignBrief, KitchenSpec, RoomType, Run, Segment, SegmentRole, StyleSpec, Wall,
+} from './types';
+
+export const ROOM_TYPES: readonly RoomType[] = ['kitchen', 'laundry', 'wardrobe', 'bathroom'];
+
+export const ROOM_TYPE_LABELS: Readonly<Record<RoomType, string>> = {
+  kitchen: 'Kitchen',
+  laundry: 'Laundry',
+  wardrobe: 'Wardrobe',
+  bathroom: 'Bathroom vanity',
+};
+
+export function roomTypeOf(source?: { roomType?: RoomType } | null): RoomType {
+  return source?.roomType ?? 'kitchen';
+}
+
+/** Carcase sizes that differ from kitchen joinery. */
+const ROOM_TYPE_DIMENSIONS: Record<RoomType, Partial<GlobalDimensions>> = {
+  kitchen: {},
+  // A front loader needs the full 600mm under a laundry bench.
+  laundry: { baseDepth: 600 },
+  // 600mm inside a robe so hangers clear the doors.
+  wardrobe: { tallDepth: 600 },
+  // Vanities are shallower and sit higher than a kitchen base; the mirror
+  // cabinet above is a shaving-cabinet depth.
+  bathroom: { baseHeight: 820, baseDepth: 460, wallDepth: 150 },
+};
+
+/** Job dimensions with the room type's carcase sizes applied. */
+export function dimensionsForRoomType(
+  roomType: RoomType | undefined,
+  dims: GlobalDimensions = DEFAULT_GLOBAL_DIMENSIONS,
+): GlobalDimensions {
+  return { ...dims, ...ROOM_TYPE_DIMENSIONS[roomType ?? 'kitchen'] };
+}
+
+/** The plumbed fixture each room is planned around. Wardrobes have none. */
+export const WET_FIXTURE_ROLE: Readonly<Record<RoomType, SegmentRole | null>> = {
+  kitchen: 'sink',
+  laundry: 'laundry-tub',
+  wardrobe: null,
+  bathroom: 'vanity-basin',
+};
+
+/** Roles the AI designer may use in each room. */
+export const ROOM_TYPE_ROLES: Readonly<Record<RoomType, readonly SegmentRole[]>> = {
+  kitchen: [
+    'sink', 'cooktop', 'dishwasher', 'drawers', 'doors', 'pantry', 'oven-tower',
+    'fridge-gap', 'corner', 'corner-buffer', 'fridge-corner-pantry',
+  ],
+  laundry: ['laundry-tub', 'washer-gap', 'dryer-gap', 'doors', 'drawers', 'pantry'],
+  wardrobe: ['hanging-rail', 'wardrobe-shelves', 'drawers'],
+  bathroom: ['vanity-basin', 'drawers', 'doors'],
+};
+
+const WALL_FILLER_MM = 50;
+/** Shortest run left beside a front-loader pair for a cupboard and landing. */
+const SIDE_BY_SIDE_DRYER_MIN_RUN_MM = 2400;
+/** Longest default vanity; the rest of a bathroom wall is shower or bath. */
+const VANITY_MAX_LENGTH_MM = 1500;
+const DOUBLE_VANITY_MIN_LENGTH_MM = 1400;
+
+const CLOCKWISE: Record<Wall, Wall> = { N: 'E', E: 'S', S: 'W', W: 'N' };
+const OPPOSITE: Record<Wall, Wall> = { N: 'S', E: 'W', S: 'N', W: 'E' };
+
+function seg(role: SegmentRole, widthMm?: number): Segment {
+  return { kind: 'cabinet', role, ...(widthMm ? { widthMm } : {}) };
+}
+
+function filler(): Segment {
+  return { kind: 'filler', widthMm: WALL_FILLER_MM };
+}
+
+/** The wall holding the room's plumbing, falling back to a window wall. */
+function wetWall(brief: DesignBrief): Wall {
+  const drain = brief.room.services.find(s => s.placement !== 'floor' && s.type === 'drain')
+    ?? brief.room.services.find(s => s.placement !== 'floor' && s.type === 'water-supply');
+  return drain?.wall ?? brief.room.openings.find(o => o.type === 'window')?.wall ?? 'N';
+}
+
+/** The longest wall without a door, so robe doors are not hung across one. */
+function wardrobeWall(brief: DesignBrief): Wall {
+  const walls: Wall[] = ['N', 'E', 'S', 'W'];
+  const doorless = walls.filter(wall => !brief.room.openings.some(opening =>
+    opening.wall === wall && (opening.type === 'door' || opening.type === 'walkway')));
+  const pool = doorless.length > 0 ? doorless : walls;
+  return pool.reduce((best, wall) =>
+    wallLength(wall, brief.room) > wallLength(best, brief.room) ? wall : best);
+}
+
+function wallsFor(brief: DesignBrief, shape: LayoutShape, primary: Wall): Wall[] {
+  const selected = [...new Set(brief.allowedWalls ?? [])];
+  if (selected.length > 0) {
+    return selected.includes(primary)
+      ? [primary, ...selected.filter(wall => wall !== primary)]
+      : selected;
+  }
+  switch (shape) {
+    case 'single-wall':
+    case 'peninsula': return [primary];
+    case 'galley': return [primary, OPPOSITE[primary]];
+    case 'l-shape': return [primary, CLOCKWISE[primary]];
+    case 'u-shape': return [primary, CLOCKWISE[primary], OPPOSITE[CLOCKWISE[primary]]];
+  }
+}
+
+/**
+ * Frame a run's segments for its wall. A run that meets an earlier run stops
+ * short of the shared corner by that run's depth (a dead corner rather than
+ * kitchen corner hardware); an end finishing against a room wall is scribed
+ * with a normal filler.
+ */
+function framedRun(
+  brief: DesignBrief,
+  wall: Wall,
+  earlier: Wall[],
+  segments: Segment[],
+  cornerDepthMm: number,
+  wallCabinets: boolean,
+  extra: Partial<Run> = {},
+): Run {
+  const length = wallLength(wall, brief.room);
+  const range = rangeForWall(brief, wall);
+  let startMm = range.startMm;
+  let endMm = range.endMm;
+  for (const other of earlier) {
+    const at = sharedCornerAt(wall, other);
+    if (at === 'start') startMm = Math.max(startMm, cornerDepthMm);
+    if (at === 'end') endMm = Math.min(endMm, length - cornerDepthMm);
+  }
+  const framed = [
+    ...(startMm <= 25 ? [filler()] : []),
+    ...segments,
+    ...(endMm >= length - 25 ? [filler()] : []),
+  ];
+  return {
+    wall,
+    segments: framed,
+    wallCabinets,
+    ...extra,
+    ...(startMm > 0 ? { startMm } : {}),
+    ...(endMm < length ? { endMm } : {}),
+  };
+}
+
+function laundrySpec(brief: DesignBrief, shape: LayoutShape, style: StyleSpec): KitchenSpec {
+  const dims = dimensionsForRoomType('laundry');
+  const walls = wallsFor(brief, shape, wetWall(brief));
+  const primaryRange = rangeForWall(brief, walls[0]);
+  const sideBySide = primaryRange.endMm - primaryRange.startMm >= SIDE_BY_SIDE_DRYER_MIN_RUN_MM;
+  const runs = walls.map((wall, index) => framedRun(
+    brief,
+    wall,
+    walls.slice(0, index),
+    index === 0
+      ? [seg('laundry-tub'), seg('washer-gap'), ...(sideBySide ? [seg('dryer-gap')] : []), seg('doors')]
+      : [seg('doors'), seg('drawers', 500)],
+    dims.baseDepth,
+    index === 0,
+  ));
+  return {
+    roomType: 'laundry',
+    runs,
+    style,
+    rationale: sideBySide
+      ? 'Laundry tub on the plumbing wall with the washer beside it and a dryer space under the same bench.'
+      : 'Laundry tub on the plumbing wall with the washer beside it; the dryer stacks above the washer in a run this short.',
+  };
+}
+
+function wardrobeSpec(brief: DesignBrief, shape: LayoutShape, style: StyleSpec): KitchenSpec {
+  const dims = dimensionsForRoomType('wardrobe');
+  const walls = wallsFor(brief, shape, wardrobeWall(brief));
+  const runs = walls.map((wall, index) => framedRun(
+    brief,
+    wall,
+    walls.slice(0, index),
+    index === 0
+      ? [seg('hanging-rail'), seg('wardrobe-shelves'), seg('hanging-rail')]
+      : [seg('hanging-rail'), seg('wardrobe-shelves')],
+    dims.tallDepth,
+    false,
+    { baseInfillRole: 'wardrobe-shelves' },
+  ));
+  return {
+    roomType: 'wardrobe',
+    runs,
+    style,
+    rationale: walls.length > 1
+      ? 'Walk-in robe: hanging and shelving towers on each wall, with the corners left open so every door swings clear.'
+      : 'Built-in robe on the longest wall clear of doors: hanging either side of a shelving tower.',
+  };
+}
+
+function bathroomSpec(brief: DesignBrief, shape: LayoutShape, style: StyleSpec): KitchenSpec {
+  const dims = dimensionsForRoomType('bathroom');
+  const primary = wetWall(brief);
+  const walls = brief.allowedWalls?.length ? wallsFor(brief, shape, primary) : [primary];
+  const drain = brief.room.services.find(s => s.placement !== 'floor' && s.type === 'drain' && s.wall === primary);
+  const runs = walls.map((wall, index) => {
+    const range = rangeForWall(brief, wall);
+    const available = range.endMm - range.startMm;
+    const vanityLength = Math.min(available, VANITY_MAX_LENGTH_MM);
+    // Centre the vanity on the drain when it is on this wall; otherwise keep
+    // it against the start of the selected range.
+    const centre = index === 0 && drain ? drain.offsetMm : range.startMm + vanityLength / 2;
+    const startMm = Math.round(Math.max(range.startMm, Math.min(range.endMm - vanityLength, centre - vanityLength / 2)));
+    const segments = vanityLength >= DOUBLE_VANITY_MIN_LENGTH_MM
+      ? [seg('vanity-basin'), seg('drawers', 500)]
+      : [seg('vanity-basin')];
+    return framedRun(
+      { ...brief, wallRanges: { ...brief.wallRanges, [wall]: { startMm, endMm: startMm + vanityLength } } },
+      wall,
+      walls.slice(0, index),
+      segments,
+      dims.baseDepth,
+      false,
+    );
+  });
+  return {
+    roomType: 'bathroom',
+    runs,
+    style,
+    rationale: drain
+      ? 'Vanity centred on the existing drain, with drawers beside the basin where the wall allows.'
+      : 'Vanity on the plumbing wall, with drawers beside the basin where the wall allows.',
+  };
+}
+
+/** Deterministic default spec for a non-kitchen room. */
+export function defaultRoomSpecFor(
+  brief: DesignBrief,
+  shape: LayoutShape,
+  style: StyleSpec,
+): KitchenSpec | null {
+  switch (roomTypeOf(brief)) {
+    case 'laundry': return laundrySpec(brief, shape, style);
+    case 'wardrobe': return wardrobeSpec(brief, shape, style);
+    case 'bathroom': return bathroomSpec(brief, shape, style);
+    default: return null;
+  }
+}
+
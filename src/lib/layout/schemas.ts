@@ -44,6 +44,25 @@ export const servicePointSchema = z.object({
   }
 });
 
+export const obstructionSchema = z.object({
+  id: z.string(),
+  type: z.enum(['column', 'chimney-breast', 'bulkhead', 'beam', 'sloped-ceiling']),
+  xMm: z.number().min(0).max(12000),
+  zMm: z.number().min(0).max(12000),
+  widthMm: z.number().min(50).max(12000),
+  depthMm: z.number().min(50).max(12000),
+  undersideMm: z.number().min(0).max(4000).optional(),
+  lowSide: wallSchema.optional(),
+}).superRefine((obstruction, context) => {
+  if (obstruction.type !== 'column' && obstruction.type !== 'chimney-breast' && obstruction.undersideMm === undefined) {
+    context.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['undersideMm'],
+      message: 'Bulkheads, beams and sloped ceilings need an underside height',
+    });
+  }
+});
+
 export const roomSpecSchema = z.object({
   width: z.number().min(1200).max(12000),
   depth: z.number().min(1200).max(12000),
@@ -53,6 +72,7 @@ export const roomSpecSchema = z.object({
   cutoutDepth: z.number().min(0),
   openings: z.array(openingSchema),
   services: z.array(servicePointSchema),
+  obstructions: z.array(obstructionSchema).optional(),
 }).strict().superRefine((room, context) => {
   if (room.shape === 'Rectangle' && (room.cutoutWidth !== 0 || room.cutoutDepth !== 0)) {
     context.addIssue({ code: z.ZodIssueCode.custom, path: ['shape'], message: 'Rectangular rooms cannot have a cutout' });
@@ -69,6 +89,11 @@ export const roomSpecSchema = z.object({
       context.addIssue({ code: z.ZodIssueCode.custom, path: ['openings', index], message: 'Opening extends beyond its wall' });
     }
   }
+  for (const [index, obstruction] of (room.obstructions ?? []).entries()) {
+    if (obstruction.xMm + obstruction.widthMm > room.width || obstruction.zMm + obstruction.depthMm > room.depth) {
+      context.addIssue({ code: z.ZodIssueCode.custom, path: ['obstructions', index], message: 'Obstruction extends outside the room' });
+    }
+  }
   for (const [index, service] of room.services.entries()) {
     if (service.placement === 'floor') {
       if ((service.xMm ?? 0) > room.width || (service.zMm ?? 0) > room.depth) {
@@ -97,8 +122,11 @@ export const proposedRoomPatchSchema = z.object({
   { message: 'At least one room change is required' },
 );
 
+export const roomTypeSchema = z.enum(['kitchen', 'laundry', 'wardrobe', 'bathroom']);
+
 export const designBriefSchema = z.object({
   room: roomSpecSchema,
+  roomType: roomTypeSchema.optional(),
   household: z.object({
     size: z.number().int().min(1).max(12).optional(),
     cooks: z.enum(['rare', 'daily', 'entertainer']).optional(),
@@ -109,9 +137,15 @@ export const designBriefSchema = z.object({
     cooktop: z.enum(['gas', 'induction']).optional(),
     dishwasher: z.boolean(),
     sinkCabinetWidthMm: z.number().int().min(600).max(1400).optional(),
+    sinkBowlSizes: z.array(z.string().max(60)).max(4).optional(),
     fridgeWidthMm: z.number().min(500).max(1400).optional(),
     fridgeOpeningWidthMm: z.number().min(500).max(1800).optional(),
     microwave: z.enum(['built-in', 'benchtop', 'none']).optional(),
+    cooktopInstructions: z.object({
+      rangehoodClearanceMm: z.number().min(0).max(2000).optional(),
+      overheadClearanceMm: z.number().min(0).max(2000).optional(),
+      trivetHeightMm: z.number().min(0).max(200).optional(),
+    }).optional(),
   }),
   island: z.enum(['want', 'no', 'if-it-fits']),
   styleWords: z.string().max(500).optional(),
@@ -141,6 +175,7 @@ export const designBriefSchema = z.object({
 export const segmentRoleSchema = z.enum([
   'sink', 'cooktop', 'dishwasher', 'drawers', 'doors',
   'pantry', 'oven-tower', 'fridge-gap', 'corner', 'corner-buffer', 'fridge-corner-pantry',
+  'laundry-tub', 'washer-gap', 'dryer-gap', 'hanging-rail', 'wardrobe-shelves', 'vanity-basin',
 ]);
 
 export const segmentSchema = z.discriminatedUnion('kind', [
@@ -159,7 +194,7 @@ export const segmentSchema = z.discriminatedUnion('kind', [
 export const runSchema = z.object({
   wall: wallSchema,
   segments: z.array(segmentSchema).min(1).max(24),
-  baseInfillRole: z.enum(['doors', 'drawers']).optional(),
+  baseInfillRole: z.enum(['doors', 'drawers', 'wardrobe-shelves']).optional(),
   wallCabinets: z.boolean(),
   upperPlan: z.object({
     coverage: z.enum(['full', 'selective', 'minimal', 'none']),
@@ -189,12 +224,19 @@ export const styleSpecSchema = z.object({
 });
 
 export const kitchenSpecSchema = z.object({
+  roomType: roomTypeSchema.optional(),
   runs: z.array(runSchema).min(1).max(4),
   island: z.object({
     lengthMm: z.number().min(1200).max(4000),
     depthMm: z.number().min(600).max(1500),
     features: z.array(z.enum(['seating', 'sink', 'storage'])),
   }).optional(),
+  peninsula: z.object({
+    wall: wallSchema,
+    at: z.enum(['start', 'end']),
+    lengthMm: z.number().min(1200).max(3000),
+    features: z.array(z.enum(['seating', 'storage'])),
+  }).optional(),
   style: styleSpecSchema,
   rationale: z.string().max(2000),
 });
@@ -202,7 +244,7 @@ export const kitchenSpecSchema = z.object({
 export const aiDesignerRequestSchema = z.object({
   mode: z.enum(['generate', 'refine', 'style']).default('generate'),
   brief: designBriefSchema,
-  shape: z.enum(['single-wall', 'l-shape', 'u-shape', 'galley']).default('l-shape'),
+  shape: z.enum(['single-wall', 'l-shape', 'u-shape', 'galley', 'peninsula']).default('l-shape'),
   currentSpec: kitchenSpecSchema.optional(),
   currentProposalId: z.string().uuid().optional(),
   // NOTE: this object is strict, so any extra key rejects the WHOLE request
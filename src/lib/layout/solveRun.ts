@@ -4,12 +4,15 @@
  *
  * Fitting strategy (deterministic):
  * 1. Pre-pass: while the run can't fit, drop the LEAST important segments
- *    first (doors, pantry, oven tower, then drawers). Required appliances and
- *    essentials (sink, cooktop, dishwasher, fridge, corner) are never pre-dropped.
+ *    first (doors, pantry, oven tower, drawers, then shelving towers and a
+ *    side-by-side dryer). Required appliances and essentials (sink, cooktop,
+ *    dishwasher, fridge, corner, tub, washer, basin) are never pre-dropped.
  * 2. Sequential placement left-to-right across usable intervals, shrinking
  *    flexible widths through each role's ladder.
  * 3. Leftover space in EVERY interval is filled with door-cabinet modules and
  *    closed with fillers ≤ 100mm.
+ * Tall units never sit under a low-headroom span (bulkhead, beam, sloped
+ * ceiling); base infill takes that stretch and the tall unit moves past it.
  * Every compromise is recorded as a human-readable note for the UI.
  */
 
@@ -28,11 +31,12 @@ const STRETCHABLE_INFILL_ROLES = new Set<SegmentRole>([
   'doors', 'sink', 'pantry', 'corner-buffer',
 ]);
 const TALL_BANK_ROLES = new Set<SegmentRole>([
-  'pantry', 'oven-tower', 'fridge-gap', 'fridge-corner-pantry',
+  'pantry', 'oven-tower', 'fridge-gap', 'fridge-corner-pantry', 'hanging-rail', 'wardrobe-shelves',
 ]);
 
-/** droppable roles, least-important first */
-const DROP_ORDER: SegmentRole[] = ['doors', 'pantry', 'oven-tower', 'drawers'];
+/** droppable roles, least-important first. A side-by-side dryer goes last:
+ *  it can still stack above the washer. */
+const DROP_ORDER: SegmentRole[] = ['doors', 'pantry', 'oven-tower', 'drawers', 'wardrobe-shelves', 'dryer-gap'];
 
 const WALL_NAMES: Record<string, string> = { N: 'back', E: 'right', S: 'front', W: 'left' };
 const ROLE_NAMES: Record<SegmentRole, string> = {
@@ -41,6 +45,9 @@ const ROLE_NAMES: Record<SegmentRole, string> = {
   'oven-tower': 'the oven tower', 'fridge-gap': 'the fridge space', corner: 'the corner unit',
   'corner-buffer': 'the corner clearance cabinet',
   'fridge-corner-pantry': 'the corner pantry beside the fridge',
+  'laundry-tub': 'the laundry tub', 'washer-gap': 'the washing machine space',
+  'dryer-gap': 'the dryer space', 'hanging-rail': 'a hanging section',
+  'wardrobe-shelves': 'a shelving tower', 'vanity-basin': 'the vanity basin',
 };
 
 function droppedRoleNote(role: SegmentRole, wallName: string): string {
@@ -103,14 +110,46 @@ function minWidth(seg: Segment): number {
   return ws[ws.length - 1];
 }
 
-/** Fit one authored run into its measured, opening-aware wall intervals. */
+/** Base infill for a stretch a tall unit could not take: cupboards of at most
+ *  900mm, a filler when it is too narrow for one, otherwise an open gap. */
+function infillUnderLowCeiling(startMm: number, widthMm: number, role: SegmentRole): ResolvedSegment[] {
+  if (widthMm <= 0) return [];
+  if (widthMm < MIN_MODULE) {
+    return [widthMm <= MAX_END_FILLER
+      ? { segment: { kind: 'filler', widthMm }, definitionId: 'base_filler', startMm, widthMm }
+      : { segment: { kind: 'gap', reason: 'obstruction', widthMm }, definitionId: null, startMm, widthMm }];
+  }
+  const count = Math.ceil(widthMm / 900);
+  const baseWidth = Math.floor(widthMm / count);
+  let remainder = Math.round(widthMm - baseWidth * count);
+  const out: ResolvedSegment[] = [];
+  let cursor = startMm;
+  for (let index = 0; index < count; index++) {
+    const w = baseWidth + (remainder > 0 ? 1 : 0);
+    if (remainder > 0) remainder--;
+    out.push({
+      segment: { kind: 'cabinet', role, widthMm: w },
+      definitionId: resolveDefinition(role, w),
+      startMm: cursor,
+      widthMm: w,
+    });
+    cursor += w;
+  }
+  return out;
+}
+
+/** Fit one authored run into its measured, opening-aware wall intervals.
+ *  `lowHeadroom` spans are open to base cabinets but not to tall units. */
 export function solveRun(
   run: Run,
   wallLengthMm: number,
   openings: Opening[],
   extraBlocked: Interval[] = [],
+  lowHeadroom: Interval[] = [],
 ): SolvedRun {
   const infillRole = run.baseInfillRole ?? 'doors';
+  // Nothing full height goes under a low ceiling, even in a wardrobe.
+  const lowInfillRole = TALL_BANK_ROLES.has(infillRole) ? 'doors' : infillRole;
   // Mirrored solve: flip blocked zones, solve left-to-right, flip results back.
   if (run.fromEnd) {
     const range = runRange(run, wallLengthMm);
@@ -128,6 +167,7 @@ export function solveRun(
       wallLengthMm,
       mirroredOpenings,
       extraBlocked.map(mirror),
+      lowHeadroom.map(mirror),
     );
     return {
       notes: inner.notes,
@@ -204,6 +244,27 @@ export function solveRun(
 
     }
 
+    const low = seg.kind === 'cabinet' && TALL_BANK_ROLES.has(seg.role)
+      ? lowHeadroom.find(b => b.start < cursor + w && b.end > cursor && b.start < interval.end)
+      : undefined;
+    if (low && seg.kind === 'cabinet') {
+      const end = Math.min(low.end, interval.end);
+      resolved.push(...infillUnderLowCeiling(cursor, end - cursor, lowInfillRole));
+      const note = `Kept ${ROLE_NAMES[seg.role]} out from under the low ceiling on the ${wallName}`;
+      if (!notes.includes(note)) notes.push(note);
+      cursor = end;
+      if (remainingIn(interval) <= 10) {
+        if (iv + 1 < intervals.length) {
+          iv++;
+          cursor = intervals[iv].start;
+        } else {
+          notes.push(`Couldn't fit ${ROLE_NAMES[seg.role]} on the ${wallName}`);
+          queue.shift();
+        }
+      }
+      continue;
+    }
+
     if (w > remainingIn(interval)) {
       if (minWidth(seg) > remainingIn(interval)) {
         // can't fit in this interval — try the next one (gap over the opening)
@@ -246,7 +307,7 @@ export function solveRun(
   // nice-to-have segment instead of losing the essential. ──
   const ESSENTIALS: SegmentRole[] = [
     'sink', 'cooktop', 'dishwasher', 'fridge-gap', 'corner', 'corner-buffer',
-    'fridge-corner-pantry',
+    'fridge-corner-pantry', 'laundry-tub', 'washer-gap', 'vanity-basin', 'hanging-rail',
   ];
   const droppedEssential = run.segments.some(seg =>
     seg.kind === 'cabinet' && ESSENTIALS.includes(seg.role)
@@ -256,7 +317,7 @@ export function solveRun(
       const idx = lastDroppableIndex(run.segments, dropRole);
       if (idx === -1) continue;
       const reducedSegments = run.segments.filter((_, i) => i !== idx);
-      const retry = solveRun({ ...run, segments: reducedSegments }, wallLengthMm, openings, extraBlocked);
+      const retry = solveRun({ ...run, segments: reducedSegments }, wallLengthMm, openings, extraBlocked, lowHeadroom);
       return {
         resolved: retry.resolved,
         notes: [dropRole === 'oven-tower'
@@ -39,6 +39,10 @@ export interface ProposedRoomPatch {
 
 // ─── Design brief (what the user tells us) ─────────────────────────────────
 
+/** Joinery room the engine is designing. Omitted everywhere means kitchen, so
+ *  every spec and brief written before room types existed keeps its meaning. */
+export type RoomType = 'kitchen' | 'laundry' | 'wardrobe' | 'bathroom';
+
 export type CookFrequency = 'rare' | 'daily' | 'entertainer';
 export type Priority = 'storage' | 'drawers' | 'bench-space' | 'entertaining' | 'baking' | 'budget';
 export type BudgetBand = 'value' | 'mid' | 'premium';
@@ -52,15 +56,30 @@ export interface ApplianceChoices {
    * the layout engine authors the correct cabinet rather than merely warning
    * about an undersized default in the editor. */
   sinkCabinetWidthMm?: number;
+  /** Per-bowl "L x W x D" sizes of the selected sink, as the catalogue
+   * publishes them. They set the span of the sink's wet zone; without them
+   * the whole sink cabinet is used. */
+  sinkBowlSizes?: string[];
   fridgeWidthMm?: number;
   /** Exact manufacturer cabinetry opening. When absent, the planner applies
    * the conservative freestanding default of 50mm per side. */
   fridgeOpeningWidthMm?: number;
   microwave?: 'built-in' | 'benchtop' | 'none';
+  /** Vertical clearances stated in the selected cooktop's installation
+   * instructions. Where they are stricter than the matched regulatory profile
+   * they govern; `trivetHeightMm` moves the measuring point from the benchtop
+   * to the trivet top. */
+  cooktopInstructions?: {
+    rangehoodClearanceMm?: number;
+    overheadClearanceMm?: number;
+    trivetHeightMm?: number;
+  };
 }
 
 export interface DesignBrief {
   room: RoomSpec;
+  /** Omitted = kitchen. Selects the default spec, rule pack and scoring. */
+  roomType?: RoomType;
   household: { size?: number; cooks?: CookFrequency };
   priorities: Priority[];
   appliances: ApplianceChoices;
@@ -100,7 +119,16 @@ export type SegmentRole =
   | 'fridge-gap'
   | 'corner'
   | 'corner-buffer'
-  | 'fridge-corner-pantry';
+  | 'fridge-corner-pantry'
+  // laundry
+  | 'laundry-tub'
+  | 'washer-gap'
+  | 'dryer-gap'
+  // wardrobe
+  | 'hanging-rail'
+  | 'wardrobe-shelves'
+  // bathroom
+  | 'vanity-basin';
 
 export type Segment =
   | {
@@ -130,8 +158,9 @@ export interface Run {
   segments: Segment[];
   /** Product family used when the solver closes otherwise unused base-run
    * space. Defaults to ordinary cupboards; an explicit client preference can
-   * request drawer banks throughout without affecting sinks or corners. */
-  baseInfillRole?: 'doors' | 'drawers';
+   * request drawer banks throughout without affecting sinks or corners.
+   * Wardrobes close their runs with full-height shelving towers instead. */
+  baseInfillRole?: 'doors' | 'drawers' | 'wardrobe-shelves';
   /** add wall cabinets above this run where openings allow */
   wallCabinets: boolean;
   /** Versioned Style DNA controls the quantity and character of the derived
@@ -168,9 +197,22 @@ export interface IslandSpec {
   features: ('seating' | 'sink' | 'storage')[];
 }
 
+/** A bench returning into the room from the free end of a wall run. The host
+ *  run carries a `corner` segment at that end; the peninsula continues its
+ *  return arm across the room, parallel to the wall that shares that corner. */
+export interface PeninsulaSpec {
+  wall: Wall;
+  at: 'start' | 'end';
+  lengthMm: number;
+  features: ('seating' | 'storage')[];
+}
+
 export interface KitchenSpec {
+  /** Omitted = kitchen. Non-kitchen specs use that room's roles and rules. */
+  roomType?: RoomType;
   runs: Run[];
   island?: IslandSpec;
+  peninsula?: PeninsulaSpec;
   style: StyleSpec;
   /** Plain-English explanation of why this layout works — shown to the user. */
   rationale: string;
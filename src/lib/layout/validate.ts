@@ -7,14 +7,16 @@
  *   - a 'hard' rule finding  → Violation severity 'error' (blocks the candidate)
  *   - 'safety' / 'soft'      → 'warn' (informs; never blocks)
  * The Violation.code is the rule id, so existing code-based handling still works.
+ * `pack` is the active LayoutRulePack; omitted, the built-in defaults apply.
  */
 
 import { evaluateRules } from './rules';
 import type { CompiledDesign } from './compileSpec';
+import type { LayoutRulePack } from './rulePack';
 import type { DesignBrief, RoomSpec, Violation } from './types';
 
-export function validate(design: CompiledDesign, room: RoomSpec, brief?: DesignBrief): Violation[] {
-  return evaluateRules(design, room, brief).map(f => ({
+export function validate(design: CompiledDesign, room: RoomSpec, brief?: DesignBrief, pack?: LayoutRulePack): Violation[] {
+  return evaluateRules(design, room, brief, pack).map(f => ({
     code: f.ruleId,
     severity: f.tier === 'hard' ? 'error' : 'warn',
     message: f.message,
@@ -1,6 +1,7 @@
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 import { QuoteBOM } from './pricing/types';
+import { formatPoNumber, orderTotal, PurchaseOrderRow } from './purchaseOrders';
 
 const AUD = (n: number) =>
   new Intl.NumberFormat('en-AU', { style: 'currency', currency: 'AUD' }).format(n);
@@ -81,6 +82,22 @@ export function exportOrderingListPdf(quoteBOM: QuoteBOM, jobName = 'Job') {
 
   y = (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 8;
 
+  // Offcuts pulled from stock are not ordered, but the shop needs to find them.
+  const stockLines = quoteBOM.consolidatedSheets.flatMap((sh) =>
+    (sh.nesting?.sheets ?? [])
+      .filter((s) => s.stockOffcut)
+      .map((s) => `${sh.materialName}: ${s.stockOffcut!.length} × ${s.stockOffcut!.width}`
+        + (s.stockOffcut!.location ? ` @ ${s.stockOffcut!.location}` : '')),
+  );
+  if (stockLines.length > 0) {
+    doc.setFontSize(8);
+    doc.setFont('helvetica', 'normal');
+    const text = `Cut from offcut stock (not ordered): ${stockLines.join('  |  ')}`;
+    const lines = doc.splitTextToSize(text, pageW - 28) as string[];
+    doc.text(lines, 14, y - 4);
+    y += lines.length * 3.5 + 2;
+  }
+
   // ── Section 2: Edge Tape ──────────────────────────────────────────────────
   if (y > 240) { doc.addPage(); y = 18; }
 
@@ -291,3 +308,58 @@ export function exportOrderingListPdf(quoteBOM: QuoteBOM, jobName = 'Job') {
 
   doc.save(`${jobName.replace(/\s+/g, '_')}_ordering_list.pdf`);
 }
+
+/**
+ * Purchase Order PDF — one supplier's share of the ordering list, possibly
+ * covering several jobs. Lines show quantity ordered and received so far.
+ */
+export function exportPurchaseOrderPdf(order: PurchaseOrderRow, jobLabels: Record<string, string> = {}) {
+  const doc = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+  const pageW = doc.internal.pageSize.getWidth();
+  const poNumber = formatPoNumber(order.po_number);
+
+  doc.setFontSize(18);
+  doc.setFont('helvetica', 'bold');
+  doc.text(`Purchase Order ${poNumber}`, 14, 18);
+
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+  doc.text(`Supplier: ${order.supplier}`, 14, 26);
+  doc.text(`Date: ${new Date(order.sent_at ?? order.created_at).toLocaleDateString('en-AU')}`, pageW - 14, 26, { align: 'right' });
+  const jobs = order.job_ids.map(id => jobLabels[id] ?? id.slice(0, 8)).join(', ');
+  const jobLines = doc.splitTextToSize(`Jobs: ${jobs}`, pageW - 28) as string[];
+  doc.text(jobLines, 14, 32);
+
+  const rows = order.lines.map((line) => [
+    line.itemCode,
+    line.description,
+    `${line.quantity} ${line.unit}`,
+    line.received > 0 ? `${line.received}` : '',
+    AUD(line.unitCost),
+    AUD(line.quantity * line.unitCost),
+  ]);
+  rows.push(['', '', '', '', 'TOTAL', AUD(orderTotal(order.lines))]);
+
+  autoTable(doc, {
+    startY: 34 + jobLines.length * 4,
+    head: [['Item Code', 'Description', 'Qty', 'Received', 'Unit Cost', 'Total']],
+    body: rows,
+    styles: { fontSize: 9, cellPadding: 2 },
+    headStyles: { fillColor: [30, 41, 82], textColor: 255 },
+    columnStyles: {
+      0: { cellWidth: 30 },
+      1: { cellWidth: 70 },
+      2: { halign: 'center', cellWidth: 20 },
+      3: { halign: 'center', cellWidth: 18 },
+      4: { halign: 'right', cellWidth: 22 },
+      5: { halign: 'right', cellWidth: 22 },
+    },
+    didParseCell(data) {
+      if (data.row.index === rows.length - 1) {
+        data.cell.styles.fontStyle = 'bold';
+      }
+    },
+  });
+
+  doc.save(`${poNumber}_${order.supplier.replace(/\s+/g, '_')}.pdf`);
+}
@@ -1,6 +1,9 @@
 import { jsPDF } from 'jspdf';
 import autoTable from 'jspdf-autotable';
 import { CabinetBOM, HardwareItem, QuoteBOM } from './pricing/types';
+import { jobCabinetRef, jobLabelRef, packLabelId } from './partLabels';
+import { drawQrCode } from './partLabelsPdf';
+import { encodeQr } from './qrCode';
 
 type TableDoc = jsPDF & { lastAutoTable?: { finalY: number } };
 
@@ -14,11 +17,14 @@ const MUTED: [number, number, number] = [91, 103, 125];
 /**
  * Build a workshop packing list organised as one job, rather than one document
  * page per cabinet. ASCII-only table labels keep jsPDF's built-in font reliable.
+ * With a job number, cut-out pack labels (QR per cabinet) are appended for the
+ * scan-to-verify dispatch station.
  */
 export function buildPackingListPdf(
   quoteBOM: QuoteBOM,
   jobName = 'Job',
   date = new Date().toLocaleDateString('en-AU'),
+  jobNumber?: number | string | null,
 ): jsPDF {
   const doc = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
   const cabinets = quoteBOM.cabinets;
@@ -47,12 +53,22 @@ export function buildPackingListPdf(
   );
   printCabinetHardwareTable(doc, cabinets, getFinalY(doc) + 4);
 
+  if (jobNumber != null && cabinets.length > 0) {
+    doc.addPage();
+    printSectionTitle(
+      doc,
+      'Cabinet pack labels',
+      'Cut out and fix to each bundle. Scan to close the pack, and again when it is loaded.',
+    );
+    printPackLabels(doc, cabinets, jobLabelRef(jobNumber));
+  }
+
   addPageFurniture(doc, jobName, date);
   return doc;
 }
 
-export function exportPackingListPdf(quoteBOM: QuoteBOM, jobName = 'Job') {
-  const doc = buildPackingListPdf(quoteBOM, jobName);
+export function exportPackingListPdf(quoteBOM: QuoteBOM, jobName = 'Job', jobNumber?: number | string | null) {
+  const doc = buildPackingListPdf(quoteBOM, jobName, undefined, jobNumber);
   doc.save(`${safeFileName(jobName)}_packing_list.pdf`);
 }
 
@@ -93,7 +109,7 @@ function printJobSummary(doc: jsPDF, cabinets: CabinetBOM[], jobName: string, da
 
   const rows = cabinets.map((cabinet) => [
     '[ ]',
-    cabinet.cabinetNumber,
+    jobCabinetRef(cabinet),
     cabinet.cabinetName,
     dimensions(cabinet),
     String(cabinet.parts.reduce((sum, part) => sum + part.quantity, 0)),
@@ -131,7 +147,7 @@ function printPanelTable(doc: jsPDF, cabinets: CabinetBOM[]) {
     for (const part of parts) {
       rows.push([
         '[ ]',
-        cabinet.cabinetNumber,
+        jobCabinetRef(cabinet),
         part.name,
         `${part.length} x ${part.width}`,
         String(part.quantity),
@@ -206,7 +222,7 @@ function printCabinetHardwareTable(doc: jsPDF, cabinets: CabinetBOM[], startY: n
       .sort(compareHardware)
       .map((item) => [
         '[ ]',
-        cabinet.cabinetNumber,
+        jobCabinetRef(cabinet),
         humanHardwareType(item.hardwareType),
         item.itemCode || '-',
         item.name,
@@ -233,6 +249,48 @@ function printCabinetHardwareTable(doc: jsPDF, cabinets: CabinetBOM[], startY: n
   });
 }
 
+function printPackLabels(doc: jsPDF, cabinets: CabinetBOM[], jobRef: string) {
+  const cols = 2;
+  const rows = 5;
+  const w = 90;
+  const h = 45;
+  const left = 12;
+  const top = 36;
+  const gap = 6;
+
+  cabinets.forEach((cabinet, i) => {
+    const slot = i % (cols * rows);
+    if (i > 0 && slot === 0) doc.addPage();
+    const x = left + (slot % cols) * (w + gap);
+    const y = top + Math.floor(slot / cols) * (h + 3);
+    const packId = packLabelId(jobRef, jobCabinetRef(cabinet));
+    const qrSize = h - 6;
+
+    doc.setDrawColor(...BORDER);
+    doc.setLineDashPattern([1.5, 1.5], 0);
+    doc.setLineWidth(0.25);
+    doc.rect(x, y, w, h);
+    doc.setLineDashPattern([], 0);
+
+    doc.setTextColor(...NAVY);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(22);
+    doc.text(jobCabinetRef(cabinet), x + 4, y + 12);
+    doc.setTextColor(...TEXT);
+    doc.setFontSize(9);
+    doc.text(cabinet.cabinetName, x + 4, y + 19, { maxWidth: w - qrSize - 8 });
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.text(`${cabinet.parts.reduce((sum, part) => sum + part.quantity, 0)} panels  |  ${dimensions(cabinet)}`, x + 4, y + 30);
+    doc.setTextColor(...MUTED);
+    doc.setFontSize(7);
+    doc.text(`${jobRef} pack`, x + 4, y + 36);
+    doc.text(packId, x + 4, y + h - 4);
+
+    drawQrCode(doc, encodeQr(packId), x + w - qrSize - 3, y + 3, qrSize);
+  });
+}
+
 function printSectionTitle(doc: jsPDF, title: string, subtitle: string, y = 24) {
   doc.setTextColor(...TEXT);
   doc.setFont('helvetica', 'bold');
@@ -0,0 +1,121 @@
+import { CabinetBOM, EdgeSpec, QuoteBOM } from './pricing/types';
+
+/**
+ * One printed label: one physical panel, i.e. one copy of a PartDimension.
+ * `partId` is what the QR code carries and what dispatch scans.
+ */
+export interface PartLabel {
+  partId: string;
+  jobRef: string;
+  cabinetNumber: string;
+  /** The cabinet within the job: `R2-C01` in a multi-room job, else `C01`. */
+  cabinetRef: string;
+  cabinetName: string;
+  partName: string;
+  length: number;
+  width: number;
+  thickness: number;
+  materialName: string;
+  edgeCode: string;
+  /** 1-based copy of this part within its cabinet, e.g. 2 of 4. */
+  copy: number;
+  of: number;
+}
+
+/** Job reference printed on labels and embedded in part ids, e.g. "J1042". */
+export function jobLabelRef(jobNumber: number | string | null | undefined): string {
+  const n = String(jobNumber ?? '').trim();
+  return n ? `J${n}` : 'J0';
+}
+
+const slug = (value: string) =>
+  value.toUpperCase().replace(/[^A-Z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'PART';
+
+/**
+ * A cabinet's reference within its job. Every room numbers its cabinets from
+ * C01, so in a multi-room job the room goes in front: `R2-C01`.
+ */
+export function jobCabinetRef(cabinet: { cabinetNumber?: string; roomRef?: string }): string {
+  const number = cabinet.cabinetNumber ?? '';
+  return cabinet.roomRef ? `${cabinet.roomRef}-${number}` : number;
+}
+
+/**
+ * Stable part id: `J1042.C01.LEFT-SIDE.2`, or `J1042.R2-C01.LEFT-SIDE.2` in a
+ * multi-room job (`cabinetRef` from jobCabinetRef). The same design always
+ * produces the same ids, so a reprinted label still matches the one already
+ * on the panel.
+ */
+export function partLabelId(jobRef: string, cabinetRef: string, partName: string, occurrence: number): string {
+  return [jobRef, slug(cabinetRef), slug(partName), occurrence].join('.');
+}
+
+/** Split a scanned part id back into its parts. Returns null for anything else. */
+export function parsePartLabelId(
+  value: string,
+): { jobRef: string; cabinetRef: string; partSlug: string; occurrence: number } | null {
+  const match = /^(J[0-9A-Z-]*)\.([A-Z0-9-]+)\.([A-Z0-9-]+)\.(\d+)$/.exec(value.trim().toUpperCase());
+  if (!match) return null;
+  return { jobRef: match[1], cabinetRef: match[2], partSlug: match[3], occurrence: Number(match[4]) };
+}
+
+/** Pack label id for a cabinet's bundle: `J1042.C01.PACK` (`cabinetRef` from jobCabinetRef). */
+export function packLabelId(jobRef: string, cabinetRef: string): string {
+  return [jobRef, slug(cabinetRef), 'PACK'].join('.');
+}
+
+/** Split a scanned pack id back into job and cabinet. Returns null for anything else. */
+export function parsePackLabelId(value: string): { jobRef: string; cabinetRef: string } | null {
+  const match = /^(J[0-9A-Z-]*)\.([A-Z0-9-]+)\.PACK$/.exec(value.trim().toUpperCase());
+  if (!match) return null;
+  return { jobRef: match[1], cabinetRef: match[2] };
+}
+
+/** Banded edges as a short code: "L1 L2 W1" (long/short sides), or "-" when unbanded. */
+export function edgeCode(edging: EdgeSpec | undefined): string {
+  if (!edging) return '-';
+  const sides = [
+    edging.len1 && 'L1',
+    edging.len2 && 'L2',
+    edging.wid1 && 'W1',
+    edging.wid2 && 'W2',
+  ].filter(Boolean);
+  return sides.length ? sides.join(' ') : '-';
+}
+
+function cabinetLabels(cabinet: CabinetBOM, jobRef: string): PartLabel[] {
+  const materialNames = new Map(cabinet.sheets.map(sheet => [sheet.materialId, sheet.materialName]));
+  const cabinetRef = jobCabinetRef(cabinet);
+  const bySlug = new Map<string, number>();
+  const labels: PartLabel[] = [];
+
+  for (const part of cabinet.parts) {
+    const quantity = Math.max(0, Math.round(part.quantity));
+    for (let copy = 1; copy <= quantity; copy++) {
+      const key = slug(part.name);
+      const occurrence = (bySlug.get(key) ?? 0) + 1;
+      bySlug.set(key, occurrence);
+      labels.push({
+        partId: partLabelId(jobRef, cabinetRef, part.name, occurrence),
+        jobRef,
+        cabinetNumber: cabinet.cabinetNumber,
+        cabinetRef,
+        cabinetName: cabinet.cabinetName,
+        partName: part.name,
+        length: Math.round(part.length),
+        width: Math.round(part.width),
+        thickness: part.thickness,
+        materialName: materialNames.get(part.materialId) || part.materialId || '-',
+        edgeCode: edgeCode(part.edging),
+        copy,
+        of: quantity,
+      });
+    }
+  }
+  return labels;
+}
+
+/** One label per part copy, in cabinet order. */
+export function buildPartLabels(quoteBOM: QuoteBOM, jobRef: string): PartLabel[] {
+  return quoteBOM.cabinets.flatMap(cabinet => cabinetLabels(cabinet, jobRef));
+}
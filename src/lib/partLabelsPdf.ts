@@ -0,0 +1,160 @@
+import { jsPDF } from 'jspdf';
+import { QuoteBOM } from './pricing/types';
+import { buildPartLabels, jobLabelRef, PartLabel } from './partLabels';
+import { encodeQr, QrMatrix } from './qrCode';
+
+export type LabelFormatId = 'a4-24' | 'thermal-100x50';
+
+interface LabelFormat {
+  name: string;
+  /** jsPDF page format: a named size or [width, height] in mm. */
+  page: string | [number, number];
+  orientation: 'portrait' | 'landscape';
+  cols: number;
+  rows: number;
+  labelW: number;
+  labelH: number;
+  left: number;
+  top: number;
+  pitchX: number;
+  pitchY: number;
+}
+
+export const LABEL_FORMATS: Record<LabelFormatId, LabelFormat> = {
+  // Avery L7159 / J8159 layout: 3 × 8 labels of 63.5 × 33.9 mm on A4.
+  'a4-24': {
+    name: 'A4 sheet - 24 labels (63.5 x 33.9 mm)',
+    page: 'a4',
+    orientation: 'portrait',
+    cols: 3,
+    rows: 8,
+    labelW: 63.5,
+    labelH: 33.9,
+    left: 7.25,
+    top: 12.9,
+    pitchX: 66.04,
+    pitchY: 33.9,
+  },
+  // Direct thermal roll: one label per page.
+  'thermal-100x50': {
+    name: 'Thermal roll - 100 x 50 mm',
+    page: [100, 50],
+    orientation: 'landscape',
+    cols: 1,
+    rows: 1,
+    labelW: 100,
+    labelH: 50,
+    left: 0,
+    top: 0,
+    pitchX: 100,
+    pitchY: 50,
+  },
+};
+
+/** Draw a QR matrix as filled runs of modules, with a 4-module quiet zone inside `size`. */
+export function drawQrCode(doc: jsPDF, matrix: QrMatrix, x: number, y: number, size: number) {
+  const n = matrix.length;
+  const module = size / (n + 8);
+  doc.setFillColor(0, 0, 0);
+  matrix.forEach((row, r) => {
+    let start = -1;
+    for (let c = 0; c <= n; c++) {
+      const dark = c < n && row[c];
+      if (dark && start < 0) start = c;
+      if (!dark && start >= 0) {
+        doc.rect(x + (start + 4) * module, y + (r + 4) * module, (c - start) * module, module, 'F');
+        start = -1;
+      }
+    }
+  });
+}
+
+function drawLabel(doc: jsPDF, label: PartLabel, x: number, y: number, w: number, h: number) {
+  // Type sizes are tuned for the 33.9 mm A4 label and scale up for taller stock.
+  const s = h / 33.9;
+  const pad = 2 * s;
+  const qrSize = h - pad;
+  const textW = w - qrSize - pad * 2;
+  const textX = x + pad;
+  let ty = y + pad + 3 * s;
+
+  doc.setTextColor(0, 0, 0);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(9 * s);
+  doc.text(`${label.jobRef}  ${label.cabinetRef}`, textX, ty);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(6 * s);
+  doc.text(`${label.copy} of ${label.of}`, textX + textW, ty, { align: 'right' });
+
+  ty += 4.2 * s;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(8 * s);
+  doc.text(label.partName, textX, ty, { maxWidth: textW });
+
+  ty += 3.8 * s;
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(7.5 * s);
+  doc.text(`${label.length} x ${label.width} x ${label.thickness} mm`, textX, ty);
+
+  ty += 3.4 * s;
+  doc.setFontSize(6.5 * s);
+  const material = doc.splitTextToSize(label.materialName, textW) as string[];
+  doc.text(material[0] ?? '-', textX, ty);
+
+  ty += 3.2 * s;
+  doc.text(`Edge: ${label.edgeCode}`, textX, ty);
+
+  doc.setFontSize(5 * s);
+  doc.setTextColor(90, 90, 90);
+  doc.text(label.partId, textX, y + h - pad, { maxWidth: textW });
+
+  drawQrCode(doc, encodeQr(label.partId), x + w - qrSize - pad / 2, y + pad / 2, qrSize);
+}
+
+/**
+ * Part labels: one label per panel copy with job, cabinet, part, size,
+ * material, edge code and a QR code of the stable part id.
+ */
+export function buildPartLabelsPdf(
+  quoteBOM: QuoteBOM,
+  jobNumber: number | string | null | undefined,
+  formatId: LabelFormatId = 'a4-24',
+): jsPDF {
+  const format = LABEL_FORMATS[formatId];
+  const doc = new jsPDF({ orientation: format.orientation, unit: 'mm', format: format.page });
+  const labels = buildPartLabels(quoteBOM, jobLabelRef(jobNumber));
+  const perPage = format.cols * format.rows;
+
+  if (labels.length === 0) {
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(10);
+    doc.text('No manufactured panels in this job.', 5, 10);
+    return doc;
+  }
+
+  labels.forEach((label, i) => {
+    const slot = i % perPage;
+    if (i > 0 && slot === 0) doc.addPage();
+    const col = slot % format.cols;
+    const row = Math.floor(slot / format.cols);
+    drawLabel(
+      doc,
+      label,
+      format.left + col * format.pitchX,
+      format.top + row * format.pitchY,
+      format.labelW,
+      format.labelH,
+    );
+  });
+  return doc;
+}
+
+export function exportPartLabelsPdf(
+  quoteBOM: QuoteBOM,
+  jobName = 'Job',
+  jobNumber?: number | string | null,
+  formatId: LabelFormatId = 'a4-24',
+) {
+  const doc = buildPartLabelsPdf(quoteBOM, jobNumber, formatId);
+  doc.save(`${jobName.replace(/\s+/g, '_')}_part_labels_${formatId}.pdf`);
+}
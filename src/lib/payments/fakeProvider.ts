@@ -0,0 +1,28 @@
+import type { DepositRequest, PaymentProvider, PaymentResult } from './types';
+
+export interface FakePaymentOptions {
+  /** Decline every payment, to exercise the failure path. */
+  decline?: boolean;
+  /** Simulated processing time. */
+  delayMs?: number;
+}
+
+/**
+ * Local stand-in for a card provider: approves any positive amount after a
+ * short delay and returns a `fake_` reference. accept-quote only honours
+ * these references when ALLOW_FAKE_PAYMENTS is set on the function.
+ */
+export function createFakePaymentProvider(options: FakePaymentOptions = {}): PaymentProvider {
+  return {
+    id: 'fake',
+    label: 'Pay deposit (test mode)',
+    testMode: true,
+    async collectDeposit(request: DepositRequest): Promise<PaymentResult> {
+      if (options.delayMs) await new Promise(resolve => setTimeout(resolve, options.delayMs));
+      if (options.decline) return { ok: false, provider: 'fake', message: 'Card declined (test mode)' };
+      if (!(request.amount > 0)) return { ok: false, provider: 'fake', message: 'Nothing to pay' };
+      const suffix = Math.random().toString(36).slice(2, 10);
+      return { ok: true, provider: 'fake', reference: `fake_${request.jobId.slice(0, 8)}_${suffix}`, amount: request.amount };
+    },
+  };
+}
@@ -0,0 +1,21 @@
+import { createFakePaymentProvider } from './fakeProvider';
+import type { PaymentProvider } from './types';
+
+export type { DepositRequest, PaymentProvider, PaymentResult } from './types';
+export { createFakePaymentProvider } from './fakeProvider';
+
+const providers: Record<string, () => PaymentProvider> = {
+  fake: () => createFakePaymentProvider({ delayMs: 600 }),
+};
+
+/**
+ * The deposit provider named by VITE_PAYMENT_PROVIDER (dev builds default to
+ * the fake provider). Null when none is configured: the quote can still be
+ * accepted and the deposit is invoiced by the office.
+ */
+export function getPaymentProvider(
+  id: string | undefined = import.meta.env.VITE_PAYMENT_PROVIDER || (import.meta.env.DEV ? 'fake' : undefined),
+): PaymentProvider | null {
+  const factory = id ? providers[id.trim().toLowerCase()] : undefined;
+  return factory ? factory() : null;
+}
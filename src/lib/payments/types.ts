@@ -0,0 +1,29 @@
+/**
+ * Pluggable deposit payments. A provider takes the money in the browser and
+ * returns a reference; `accept-quote` verifies that reference server-side
+ * (by provider id) before the acceptance is recorded, so a provider must have
+ * a matching verifier in the edge function before it can be enabled here.
+ */
+
+export interface DepositRequest {
+  jobId: string;
+  revisionId: string;
+  /** Incl. GST, in dollars. */
+  amount: number;
+  currency: 'AUD';
+  description: string;
+  payerName: string;
+}
+
+export type PaymentResult =
+  | { ok: true; provider: string; reference: string; amount: number }
+  | { ok: false; provider: string; message: string };
+
+export interface PaymentProvider {
+  id: string;
+  /** Shown on the pay button, e.g. "Pay deposit (test mode)". */
+  label: string;
+  /** True when no real money moves; the page warns the customer. */
+  testMode: boolean;
+  collectDeposit(request: DepositRequest): Promise<PaymentResult>;
+}
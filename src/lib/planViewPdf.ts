@@ -1,13 +1,27 @@
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 import { TradeRoom, ConfiguredCabinet } from '@/types/trade';
+import { buildWallElevations, WallElevation } from './wallElevations';
 
 /**
  * Auto-generated PLAN VIEW export.
  * Draws a top-down, to-scale plan of the room with every placed cabinet,
- * dimension lines for the room, cabinet numbers, and a product schedule.
+ * dimension lines for the room, cabinet numbers, and a product schedule,
+ * followed by a dimensioned front-on elevation of each wall with cabinets.
  */
 
+const OPENING_RGB: Record<string, [number, number, number]> = {
+  door: [180, 83, 9], window: [3, 105, 161], walkway: [161, 161, 170],
+};
+const OPENING_LETTER: Record<string, string> = { door: 'D', window: 'W', walkway: 'O' };
+const SERVICE_RGB: Record<string, [number, number, number]> = {
+  drain: [37, 99, 235], 'water-supply': [8, 145, 178], gpo: [220, 38, 38],
+  gas: [202, 138, 4], 'hood-duct': [124, 58, 237],
+};
+const SERVICE_LETTER: Record<string, string> = {
+  drain: 'S', 'water-supply': 'W', gpo: 'P', gas: 'G', 'hood-duct': 'H',
+};
+
 interface PlanCabinet {
   cabinet: ConfiguredCabinet;
   /** axis-aligned footprint in room mm (x grows right, y grows toward the room front) */
@@ -99,10 +113,6 @@ export function exportPlanViewPdf(room: TradeRoom, jobName?: string) {
   // ---- room features: openings + services (master plan §8.2) ----
   // Same wall/offset convention as PlannerScene/RoomFeaturesEditor:
   // offsets run from the wall's left end viewed from inside the room.
-  const OPENING_RGB: Record<string, [number, number, number]> = {
-    door: [180, 83, 9], window: [3, 105, 161], walkway: [161, 161, 170],
-  };
-  const OPENING_LETTER: Record<string, string> = { door: 'D', window: 'W', walkway: 'O' };
   (room.config.openings ?? []).forEach((o) => {
     const rgb = OPENING_RGB[o.type] ?? [120, 120, 120];
     doc.setDrawColor(rgb[0], rgb[1], rgb[2]);
@@ -120,13 +130,6 @@ export function exportPlanViewPdf(room: TradeRoom, jobName?: string) {
     doc.setTextColor(rgb[0], rgb[1], rgb[2]);
     doc.text(OPENING_LETTER[o.type] ?? '?', (lx1 + lx2) / 2, (ly1 + ly2) / 2 - 0.8, { align: 'center' });
   });
-  const SERVICE_RGB: Record<string, [number, number, number]> = {
-    drain: [37, 99, 235], 'water-supply': [8, 145, 178], gpo: [220, 38, 38],
-    gas: [202, 138, 4], 'hood-duct': [124, 58, 237],
-  };
-  const SERVICE_LETTER: Record<string, string> = {
-    drain: 'S', 'water-supply': 'W', gpo: 'P', gas: 'G', 'hood-duct': 'H',
-  };
   (room.config.services ?? []).forEach((s) => {
     const rgb = SERVICE_RGB[s.type] ?? [120, 120, 120];
     let cx: number, cy: number;
@@ -230,6 +233,158 @@ export function exportPlanViewPdf(room: TradeRoom, jobName?: string) {
     columnStyles: { 0: { cellWidth: 10 }, 2: { cellWidth: 12 }, 3: { cellWidth: 12 }, 4: { cellWidth: 12 } },
   });
 
+  // ---- one elevation page per wall with cabinets ----
+  buildWallElevations(room).forEach((elevation) => {
+    doc.addPage('a4', 'landscape');
+    drawElevationPage(doc, elevation, room.name, jobName);
+  });
+
   const filename = `${(jobName || room.name).replace(/\s+/g, '-').toLowerCase()}-plan-view.pdf`;
   doc.save(filename);
 }
+
+/** Dimension line with end ticks; vertical ones read bottom-up. */
+function dimension(doc: jsPDF, x1: number, y1: number, x2: number, y2: number, label: string) {
+  const vertical = x1 === x2;
+  doc.line(x1, y1, x2, y2);
+  if (vertical) {
+    doc.line(x1 - 1.2, y1, x1 + 1.2, y1);
+    doc.line(x2 - 1.2, y2, x2 + 1.2, y2);
+    if (Math.abs(y2 - y1) > 3) doc.text(label, x1 - 0.8, (y1 + y2) / 2, { align: 'center', angle: 90 });
+  } else {
+    doc.line(x1, y1 - 1.2, x1, y1 + 1.2);
+    doc.line(x2, y2 - 1.2, x2, y2 + 1.2);
+    if (Math.abs(x2 - x1) > 3) doc.text(label, (x1 + x2) / 2, y1 - 0.8, { align: 'center' });
+  }
+}
+
+function drawElevationPage(doc: jsPDF, elev: WallElevation, roomName: string, jobName?: string) {
+  const pageW = doc.internal.pageSize.getWidth();
+  const pageH = doc.internal.pageSize.getHeight();
+  const margin = 18;
+  const scale = Math.min((pageW - margin * 2 - 40) / elev.length, (pageH - margin * 2 - 34) / elev.height);
+  const ox = margin + 14;
+  const floor = pageH - margin - 16;
+  const X = (mm: number) => ox + mm * scale;
+  const Y = (mm: number) => floor - mm * scale;
+  const r = (mm: number) => `${Math.round(mm)}`;
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(13);
+  doc.setTextColor(0, 0, 0);
+  doc.text(`${jobName ? `${jobName} — ` : ''}${roomName} — ${elev.label} Elevation`, margin, margin - 4);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  doc.text(
+    `Wall ${elev.length} × ${elev.height}mm, viewed from inside the room   •   Scale 1:${Math.round(1 / scale)}`,
+    margin,
+    margin + 1,
+  );
+
+  // ---- wall, floor and ceiling ----
+  doc.setDrawColor(150);
+  doc.setLineWidth(0.2);
+  doc.rect(X(0), Y(elev.height), elev.length * scale, elev.height * scale);
+  doc.setDrawColor(40);
+  doc.setLineWidth(0.8);
+  doc.line(X(0) - 3, Y(0), X(elev.length) + 3, Y(0));
+
+  // ---- openings, with sill heights ----
+  doc.setFontSize(6);
+  elev.openings.forEach((o) => {
+    const rgb = OPENING_RGB[o.opening.type] ?? [120, 120, 120];
+    doc.setDrawColor(rgb[0], rgb[1], rgb[2]);
+    doc.setTextColor(rgb[0], rgb[1], rgb[2]);
+    doc.setLineWidth(0.35);
+    doc.setLineDashPattern([1.5, 1], 0);
+    doc.rect(X(o.x), Y(o.y + o.h), o.w * scale, o.h * scale);
+    doc.setLineDashPattern([], 0);
+    doc.setLineWidth(0.15);
+    dimension(doc, X(o.x), Y(o.y + o.h) - 2, X(o.x + o.w), Y(o.y + o.h) - 2, `${OPENING_LETTER[o.opening.type] ?? '?'} ${r(o.w)} × ${r(o.h)}`);
+    if (o.y > 0) dimension(doc, X(o.x) + 2, Y(0), X(o.x) + 2, Y(o.y), `sill ${r(o.y)}`);
+  });
+
+  // ---- splashback and benchtop ----
+  doc.setTextColor(0, 0, 0);
+  elev.splashbacks.forEach((s) => {
+    doc.setFillColor(241, 245, 249);
+    doc.rect(X(s.x), Y(s.y + s.h), s.w * scale, s.h * scale, 'F');
+  });
+  elev.benchtops.forEach((b) => {
+    doc.setFillColor(71, 85, 105);
+    doc.rect(X(b.x), Y(b.y + b.h), b.w * scale, b.h * scale, 'F');
+  });
+
+  // ---- cabinets: carcase, kick, fronts (chevron apex on the hinge side) ----
+  elev.cabinets.forEach((c) => {
+    doc.setDrawColor(40);
+    doc.setLineWidth(0.4);
+    doc.setFillColor(255, 255, 255);
+    doc.rect(X(c.x), Y(c.y + c.h), c.w * scale, c.h * scale, 'FD');
+    if (c.kick > 0) {
+      doc.setFillColor(203, 213, 225);
+      doc.rect(X(c.x), Y(c.y + c.kick), c.w * scale, c.kick * scale, 'FD');
+    }
+    doc.setLineWidth(0.2);
+    c.fronts.forEach((f) => {
+      doc.rect(X(f.x), Y(f.y + f.h), f.w * scale, f.h * scale);
+      if (f.kind === 'door') {
+        const [hx, ox2] = f.hinge === 'right' ? [f.x + f.w, f.x] : [f.x, f.x + f.w];
+        doc.setDrawColor(150);
+        doc.setLineDashPattern([1, 0.8], 0);
+        doc.line(X(ox2), Y(f.y + f.h), X(hx), Y(f.y + f.h / 2));
+        doc.line(X(hx), Y(f.y + f.h / 2), X(ox2), Y(f.y));
+        doc.setLineDashPattern([], 0);
+        doc.setDrawColor(40);
+      } else if (f.kind === 'appliance' || f.kind === 'open') {
+        doc.setDrawColor(190);
+        doc.line(X(f.x), Y(f.y), X(f.x + f.w), Y(f.y + f.h));
+        if (f.kind === 'appliance') doc.line(X(f.x), Y(f.y + f.h), X(f.x + f.w), Y(f.y));
+        doc.setDrawColor(40);
+      }
+    });
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(7);
+    doc.text(c.cabinet.cabinetNumber || '', X(c.x + c.w / 2), Y(c.y + c.h) + 3, { align: 'center' });
+    doc.setFont('helvetica', 'normal');
+  });
+
+  // ---- service points at their heights ----
+  elev.services.forEach((s) => {
+    const rgb = SERVICE_RGB[s.service.type] ?? [120, 120, 120];
+    doc.setFillColor(rgb[0], rgb[1], rgb[2]);
+    doc.circle(X(s.x), Y(s.y), 1.4, 'F');
+    doc.setFontSize(5.5);
+    doc.setTextColor(255, 255, 255);
+    doc.text(SERVICE_LETTER[s.service.type] ?? '?', X(s.x), Y(s.y) + 0.7, { align: 'center' });
+    doc.setFontSize(6);
+    doc.setTextColor(rgb[0], rgb[1], rgb[2]);
+    doc.text(`${r(s.x)} from left, ${r(s.y)} AFL`, X(s.x) + 2, Y(s.y) - 1.2);
+  });
+
+  // ---- dimension chains ----
+  doc.setTextColor(0, 0, 0);
+  doc.setDrawColor(60);
+  doc.setLineWidth(0.15);
+  doc.setFontSize(6.5);
+  const floorUnits = elev.cabinets.filter((c) => c.cabinet.category !== 'Wall');
+  const wallUnits = elev.cabinets.filter((c) => c.cabinet.category === 'Wall');
+  floorUnits.forEach((c) => dimension(doc, X(c.x), Y(0) + 5, X(c.x + c.w), Y(0) + 5, r(c.w)));
+  dimension(doc, X(0), Y(0) + 11, X(elev.length), Y(0) + 11, r(elev.length));
+  wallUnits.forEach((c) => dimension(doc, X(c.x), Y(c.y + c.h) - 4, X(c.x + c.w), Y(c.y + c.h) - 4, r(c.w)));
+
+  // Heights on the right: kick, carcase top, bench top, splashback / wall
+  // cabinet underside, wall cabinet and tall tops — then the room height.
+  const levels = new Set<number>([0]);
+  floorUnits.forEach((c) => { if (c.kick > 0) levels.add(c.kick); levels.add(c.y + c.h); });
+  elev.benchtops.forEach((b) => levels.add(b.y + b.h));
+  elev.splashbacks.forEach((s) => levels.add(s.y + s.h));
+  wallUnits.forEach((c) => { levels.add(c.y); levels.add(c.y + c.h); });
+  const chain = [...levels].map(Math.round).filter((v, i, a) => a.indexOf(v) === i && v <= elev.height).sort((a, b) => a - b);
+  const rx = X(elev.length) + 8;
+  for (let i = 1; i < chain.length; i++) {
+    dimension(doc, rx, Y(chain[i - 1]), rx, Y(chain[i]), r(chain[i] - chain[i - 1]));
+    doc.text(`${chain[i]}`, rx + 1.8, Y(chain[i]) + 0.8);
+  }
+  dimension(doc, rx + 14, Y(0), rx + 14, Y(elev.height), r(elev.height));
+}
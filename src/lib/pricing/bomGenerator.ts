@@ -97,6 +97,11 @@ export function generateCabinetBOM(
     .forEach(item => warnings.push(
       `Hardware "${item.name}" has no positive catalogue price — using fallback $${item.unitCost.toFixed(2)} each`,
     ));
+  sheets
+    .flatMap(sheet => (sheet.nesting?.unplaced ?? [])
+      .filter(part => part.copy === 0)
+      .map(part => `${cabLabel}: "${part.partName}" (${Math.round(part.length)} × ${Math.round(part.width)}) is larger than a ${sheet.sheetLength} × ${sheet.sheetWidth} ${sheet.materialName} sheet — priced by area`))
+    .forEach(warning => warnings.push(warning));
   sheets
     .filter(sheet => sheet.usedDefaultYield)
     .forEach(sheet => warnings.push(
@@ -112,7 +117,7 @@ export function generateCabinetBOM(
   const labor = calculateLaborCost(config, cabinet.width, isTall, laborRates);
 
   // Production build hours (scheduling + cross-check vs calibrated labor)
-  const buildHours = calculateBuildHours(sheets, edgeTape, config, isTall, cabinet.definitionId);
+  const buildHours = calculateBuildHours(sheets, edgeTape, config, isTall, cabinet.definitionId, pricingData.timeRates);
 
   // Sum costs
   const subtotals = {
@@ -130,6 +135,7 @@ export function generateCabinetBOM(
   return {
     cabinetId: cabinet.instanceId,
     cabinetNumber: cabinet.cabinetNumber ?? '',
+    ...(cabinet.roomRef ? { roomRef: cabinet.roomRef } : {}),
     cabinetName: catalogItemName ?? 'Unknown',
     cabinetSku: cabinet.definitionId,
     dimensions: { width: cabinet.width, height: cabinet.height, depth: cabinet.depth },
@@ -264,6 +270,11 @@ function calculatePartDimensions(
       materialId: isExterior ? exteriorMaterialId : carcaseMaterialId,
       materialRole: isExterior ? 'exterior' : 'carcase',
       edging: parseEdgingSpec(pricing?.edging ?? null),
+      // Show faces keep their grain running along the part; carcase board may rotate.
+      grain: isExterior ? 'length' : 'none',
+      ...(cabinet.cabinetNumber ? { cabinetNumber: cabinet.cabinetNumber } : {}),
+      ...(cabinet.roomRef ? { roomRef: cabinet.roomRef } : {}),
+      partIndex: parts.length,
       quantity,
       handlingCost: (pricing?.handling_cost ?? 0) + area * (pricing?.area_handling_cost ?? 0),
       machiningCost: (pricing?.machining_cost ?? 0) + area * (pricing?.area_machining_cost ?? 0),
@@ -310,6 +321,7 @@ function createEmptyBOM(cabinet: PlacedItem, name: string): CabinetBOM {
   return {
     cabinetId: cabinet.instanceId,
     cabinetNumber: cabinet.cabinetNumber ?? '',
+    ...(cabinet.roomRef ? { roomRef: cabinet.roomRef } : {}),
     cabinetName: name,
     cabinetSku: '',
     dimensions: { width: cabinet.width, height: cabinet.height, depth: cabinet.depth },
@@ -327,6 +339,7 @@ function createEmptyBOM(cabinet: PlacedItem, name: string): CabinetBOM {
 const KICKABLE_ROLE = new Set([
   'doors', 'drawers', 'sink', 'cooktop', 'dishwasher', 'corner',
   'pantry', 'oven-tower', 'fridge-corner-pantry',
+  'laundry-tub', 'vanity-basin', 'hanging-rail', 'wardrobe-shelves',
 ]);
 
 function carriesKickFace(item: PlacedItem): boolean {
@@ -445,7 +458,7 @@ export function generateQuoteBOM(
     .filter(i => i.itemType === 'Cabinet')
     .map(cab => generateCabinetBOM(cab, globalDims, hardwareOptions, pricingData, cab.productName));
   
-  const consolidatedSheets = consolidateSheetRequirements(cabinets.map(c => c.sheets));
+  const consolidatedSheets = consolidateSheetRequirements(cabinets.map(c => c.sheets), pricingData.offcuts);
   const consolidatedEdgeTape = consolidateEdgeTape(cabinets.map(c => c.edgeTape));
   const consolidatedHardware = consolidateHardware(cabinets.map(c => c.hardware));
   const jobLevelWarnings: string[] = [];
@@ -372,7 +372,7 @@ export function buildGenericCabinetMapping(definitionId: string): CabinetPartDef
   // Non-carcass items aren't priced through the parts engine.
   // Exception: 'ladder_kick' IS priced as a cabinet (mini-cabinet frame structure).
   // Plain 'kick' (adjustable-leg panels) are calculated in generateQuoteBOM from stock lengths.
-  if (/oven|fridge|dishwasher|rangehood|microwave|appliance|filler|panel$|applied/.test(id)) {
+  if (/oven|fridge|dishwasher|washer|dryer|rangehood|microwave|appliance|filler|panel$|applied/.test(id)) {
     return null;
   }
   if (/kick/.test(id) && !/ladder/.test(id)) {
@@ -390,8 +390,13 @@ export function buildGenericCabinetMapping(definitionId: string): CabinetPartDef
   const drawerMatch = id.match(/(\d)[_-]?drawer/);
   const numDrawers = drawerMatch ? parseInt(drawerMatch[1], 10) : (id.includes('drawer') ? 1 : 0);
   if (isSink && numDoors === 0) numDoors = 2;
+  // Robe towers are hinged pairs; a hanging section has only its hat shelf.
+  const isWardrobe = id.includes('wardrobe');
+  if (isWardrobe && numDoors === 0) numDoors = 2;
 
-  const numShelves = isTall ? 4 : isWall ? 2 : (numDrawers > 0 && numDoors === 0 ? 0 : 1);
+  const numShelves = isWardrobe && id.includes('hanging')
+    ? 1
+    : isTall ? 4 : isWall ? 2 : (numDrawers > 0 && numDoors === 0 ? 0 : 1);
   const prefix = isWall ? 'Upper' : isTall ? 'Tall' : 'Base';
 
   const config: CabinetConfig = {
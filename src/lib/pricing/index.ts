@@ -3,6 +3,7 @@ export * from './types';
 export * from './formulaParser';
 export * from './cabinetPartMapping';
 export * from './sheetOptimizer';
+export * from './sheetNesting';
 export * from './edgeCalculator';
 export * from './hardwareCalculator';
 export * from './bomGenerator';
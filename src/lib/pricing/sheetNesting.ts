@@ -0,0 +1,339 @@
+// Guillotine sheet nesting - packs cut parts onto whole boards
+//
+// Every placement is reachable with edge-to-edge panel-saw cuts: each part is
+// dropped into the corner of a free rectangle, and the remainder is split by
+// one straight cut into two smaller free rectangles (shorter-leftover-axis
+// rule). Parts are placed largest first, best-area-fit across every open
+// sheet, so the offcuts that remain are as large and as few as possible.
+//
+// Coordinates are millimetres from the sheet's trimmed-edge origin. X runs
+// along the sheet LENGTH (the board's grain), Y along its WIDTH.
+//
+// Offcuts held in stock can be passed in: each part goes onto an offcut when
+// one can take it, and only the rest opens new boards. Offcut sheets come
+// first in the result and carry `stockOffcut`; they are not charged.
+
+import { EdgeSpec, NestedPart, NestedSheet, OffcutRect, PartDimension, SheetNesting } from './types';
+
+/** Panel-saw blade kerf, mm. */
+export const DEFAULT_KERF_MM = 4;
+/** Edge trim taken off each side of a raw board before nesting, mm. */
+export const DEFAULT_TRIM_MM = 5;
+/** Smallest side of a free rectangle still worth keeping as an offcut, mm. */
+export const MIN_OFFCUT_MM = 150;
+
+export interface NestingOptions {
+  kerfMm?: number;
+  trimMm?: number;
+  minOffcutMm?: number;
+  /** Registered offcuts of this material, filled before any new sheet is opened. */
+  stock?: StockOffcut[];
+}
+
+/** A board already in the shop. Its length runs along the grain. */
+export interface StockOffcut {
+  id: string;
+  length: number;
+  width: number;
+  location?: string | null;
+}
+
+/** One physical part to cut — a single copy of a PartDimension. */
+export type NestPiece = Omit<NestedPart, 'x' | 'y' | 'rotated'>;
+
+interface FreeRect {
+  x: number;
+  y: number;
+  length: number;
+  width: number;
+}
+
+interface OpenSheet {
+  placements: NestedPart[];
+  free: FreeRect[];
+  offcut?: StockOffcut;
+}
+
+const NO_EDGES: EdgeSpec = { len1: false, wid1: false, len2: false, wid2: false };
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+/** Expand part quantities into individual pieces. Zero-size parts are dropped. */
+export function piecesFromParts(parts: PartDimension[]): NestPiece[] {
+  const pieces: NestPiece[] = [];
+  for (const part of parts) {
+    const length = Number(part.length);
+    const width = Number(part.width);
+    if (!(length > 0) || !(width > 0)) continue;
+    const quantity = Math.max(0, Math.round(part.quantity ?? 1));
+    for (let copy = 0; copy < quantity; copy++) {
+      pieces.push({
+        partName: part.name,
+        partType: part.partType,
+        ...(part.cabinetNumber ? { cabinetNumber: part.cabinetNumber } : {}),
+        ...(part.roomRef ? { roomRef: part.roomRef } : {}),
+        ...(part.partIndex !== undefined ? { partIndex: part.partIndex } : {}),
+        copy,
+        length,
+        width,
+        edging: part.edging ?? NO_EDGES,
+        grain: part.grain ?? 'none',
+      });
+    }
+  }
+  return pieces;
+}
+
+/** Recover the pieces of a previous nesting so several can be re-nested together. */
+export function piecesFromNesting(nesting: SheetNesting): NestPiece[] {
+  const fromSheets = nesting.sheets.flatMap(sheet => sheet.placements.map(
+    ({ x: _x, y: _y, rotated: _rotated, ...piece }) => piece,
+  ));
+  return [...fromSheets, ...nesting.unplaced];
+}
+
+/** Orientations a piece may take: [along sheet length, along sheet width, rotated]. */
+function orientations(piece: NestPiece): Array<[number, number, boolean]> {
+  const upright: [number, number, boolean] = [piece.length, piece.width, false];
+  if (piece.grain === 'length' || piece.length === piece.width) return [upright];
+  return [upright, [piece.width, piece.length, true]];
+}
+
+/** One pass of the packer; several are tried and the fewest-sheet layout kept. */
+interface Heuristic {
+  order: (a: NestPiece, b: NestPiece) => number;
+  /** Lower is better: how well a part of l × w fills a free rectangle. */
+  fit: (rect: FreeRect, l: number, w: number) => number;
+  /** Cut so the larger leftover stays whole (true) or the longer side is cut through (false). */
+  shorterAxis: boolean;
+}
+
+const byArea = (a: NestPiece, b: NestPiece) =>
+  b.length * b.width - a.length * a.width || Math.max(b.length, b.width) - Math.max(a.length, a.width);
+const byLongSide = (a: NestPiece, b: NestPiece) =>
+  Math.max(b.length, b.width) - Math.max(a.length, a.width) || b.length * b.width - a.length * a.width;
+const areaFit = (rect: FreeRect, l: number, w: number) => rect.length * rect.width - l * w;
+const shortSideFit = (rect: FreeRect, l: number, w: number) => Math.min(rect.length - l, rect.width - w);
+const longSideFit = (rect: FreeRect, l: number, w: number) => Math.max(rect.length - l, rect.width - w);
+
+const HEURISTICS: Heuristic[] = [byArea, byLongSide].flatMap(order =>
+  [areaFit, shortSideFit, longSideFit].flatMap(fit =>
+    [true, false].map(shorterAxis => ({ order, fit, shorterAxis }))));
+
+interface Placement {
+  sheet: OpenSheet;
+  rectIndex: number;
+  l: number;
+  w: number;
+  rotated: boolean;
+  score: number;
+  /** Shorter leftover side, the tie-breaker. */
+  short: number;
+}
+
+function bestFitOnSheet(
+  sheet: OpenSheet,
+  fits: Array<[number, number, boolean]>,
+  heuristic: Heuristic,
+): Placement | null {
+  let best: Placement | null = null;
+  sheet.free.forEach((rect, rectIndex) => {
+    for (const [l, w, rotated] of fits) {
+      if (l > rect.length || w > rect.width) continue;
+      const score = heuristic.fit(rect, l, w);
+      const short = Math.min(rect.length - l, rect.width - w);
+      if (!best || score < best.score || (score === best.score && short < best.short)) {
+        best = { sheet, rectIndex, l, w, rotated, score, short };
+      }
+    }
+  });
+  return best;
+}
+
+/** Guillotine split of `rect` after placing a `placedL` × `placedW` part in its corner. */
+function splitFreeRect(
+  rect: FreeRect,
+  placedL: number,
+  placedW: number,
+  kerf: number,
+  shorterAxis: boolean,
+): FreeRect[] {
+  const leftoverL = rect.length - placedL - kerf;
+  const leftoverW = rect.width - placedW - kerf;
+  const shorterLeftoverIsLength = rect.length - placedL < rect.width - placedW;
+  const cutAcrossWidth = shorterAxis ? shorterLeftoverIsLength : !shorterLeftoverIsLength;
+  const right: FreeRect = {
+    x: rect.x + placedL + kerf,
+    y: rect.y,
+    length: leftoverL,
+    width: cutAcrossWidth ? placedW : rect.width,
+  };
+  const below: FreeRect = {
+    x: rect.x,
+    y: rect.y + placedW + kerf,
+    length: cutAcrossWidth ? rect.length : placedL,
+    width: leftoverW,
+  };
+  return [right, below].filter(r => r.length > 0 && r.width > 0);
+}
+
+function packOnce(
+  pieces: NestPiece[],
+  heuristic: Heuristic,
+  newSheet: () => OpenSheet,
+  kerfMm: number,
+  stock: StockOffcut[],
+): { sheets: OpenSheet[]; unplaced: NestPiece[] } {
+  // Offcuts are already trimmed; the whole board is usable.
+  const offcutSheets: OpenSheet[] = stock.map(offcut => ({
+    placements: [],
+    free: [{ x: 0, y: 0, length: offcut.length, width: offcut.width }],
+    offcut,
+  }));
+  const sheets: OpenSheet[] = [];
+  const unplaced: NestPiece[] = [];
+  const place = (best: Placement, piece: NestPiece) => {
+    const rect = best.sheet.free[best.rectIndex];
+    best.sheet.placements.push({ ...piece, x: round1(rect.x), y: round1(rect.y), rotated: best.rotated });
+    best.sheet.free.splice(
+      best.rectIndex, 1, ...splitFreeRect(rect, best.l, best.w, kerfMm, heuristic.shorterAxis),
+    );
+  };
+  const bestAcross = (candidates: OpenSheet[], fits: Array<[number, number, boolean]>) => {
+    let best: Placement | null = null;
+    for (const sheet of candidates) {
+      const candidate = bestFitOnSheet(sheet, fits, heuristic);
+      if (candidate && (!best || candidate.score < best.score
+        || (candidate.score === best.score && candidate.short < best.short))) {
+        best = candidate;
+      }
+    }
+    return best;
+  };
+
+  for (const piece of pieces.slice().sort(heuristic.order)) {
+    const fits = orientations(piece);
+    const onOffcut = bestAcross(offcutSheets, fits);
+    if (onOffcut) {
+      place(onOffcut, piece);
+      continue;
+    }
+    let best = bestAcross(sheets, fits);
+    if (!best) {
+      // A piece that only fitted a stock offcut another piece has taken
+      // does not fit a bought board either; buying one would leave it empty.
+      const sheet = newSheet();
+      best = bestFitOnSheet(sheet, fits, heuristic);
+      if (!best) {
+        unplaced.push(piece);
+        continue;
+      }
+      sheets.push(sheet);
+    }
+    place(best, piece);
+  }
+  return { sheets: [...offcutSheets.filter(sheet => sheet.placements.length > 0), ...sheets], unplaced };
+}
+
+/** Part area on a sheet, mm². */
+const sheetUsage = (sheet: OpenSheet) => sheet.placements.reduce((sum, p) => sum + p.length * p.width, 0);
+
+/**
+ * Nest pieces onto as few `sheetLength` × `sheetWidth` boards as the guillotine
+ * heuristics allow. Every heuristic pass is run and the layout with the fewest
+ * new sheets (then the emptiest last sheet, i.e. the biggest offcut) wins.
+ * Pieces too large for a trimmed board or any stock offcut are returned in
+ * `unplaced` rather than silently dropped.
+ */
+export function nestPieces(
+  pieces: NestPiece[],
+  sheetLength: number,
+  sheetWidth: number,
+  options: NestingOptions = {},
+): SheetNesting {
+  const kerfMm = Math.max(0, options.kerfMm ?? DEFAULT_KERF_MM);
+  const trimMm = Math.max(0, options.trimMm ?? DEFAULT_TRIM_MM);
+  const minOffcutMm = options.minOffcutMm ?? MIN_OFFCUT_MM;
+  const usableL = sheetLength - trimMm * 2;
+  const usableW = sheetWidth - trimMm * 2;
+
+  const stock = (options.stock ?? []).filter(o => o.length > 0 && o.width > 0);
+
+  const unplaced: NestPiece[] = [];
+  const nestable: NestPiece[] = [];
+  for (const piece of pieces) {
+    const fitsSheet = orientations(piece).some(([l, w]) =>
+      (l <= usableL && w <= usableW) || stock.some(o => l <= o.length && w <= o.width));
+    (fitsSheet ? nestable : unplaced).push(piece);
+  }
+
+  const newSheet = (): OpenSheet => ({
+    placements: [],
+    free: [{ x: trimMm, y: trimMm, length: usableL, width: usableW }],
+  });
+  // Only new boards cost money, so layouts that place the same pieces are
+  // ranked on those alone.
+  const newBoards = (layout: OpenSheet[]) => layout.filter(sheet => !sheet.offcut);
+
+  let sheets: OpenSheet[] = [];
+  let leftOver: NestPiece[] = [];
+  if (nestable.length > 0) {
+    let first = true;
+    for (const heuristic of HEURISTICS) {
+      const { sheets: candidate, unplaced: candidateLeftOver } = packOnce(nestable, heuristic, newSheet, kerfMm, stock);
+      const candidateBoards = newBoards(candidate);
+      const currentBoards = newBoards(sheets);
+      const better = first
+        || candidateLeftOver.length < leftOver.length
+        || (candidateLeftOver.length === leftOver.length
+          && (candidateBoards.length < currentBoards.length
+            || (candidateBoards.length === currentBoards.length && candidateBoards.length > 0
+              && sheetUsage(candidateBoards[candidateBoards.length - 1])
+                < sheetUsage(currentBoards[currentBoards.length - 1]))));
+      if (better) {
+        sheets = candidate;
+        leftOver = candidateLeftOver;
+      }
+      first = false;
+    }
+  }
+  unplaced.push(...leftOver);
+
+  const nestedSheets: NestedSheet[] = sheets.map((sheet, index) => {
+    const boardArea = sheet.offcut
+      ? (sheet.offcut.length * sheet.offcut.width) / 1_000_000
+      : (sheetLength * sheetWidth) / 1_000_000;
+    const usedArea = sheet.placements.reduce((sum, p) => sum + (p.length * p.width) / 1_000_000, 0);
+    const offcuts: OffcutRect[] = sheet.free
+      .filter(r => Math.min(r.length, r.width) >= minOffcutMm)
+      .map(r => ({ x: round1(r.x), y: round1(r.y), length: round1(r.length), width: round1(r.width) }))
+      .sort((a, b) => b.length * b.width - a.length * a.width);
+    return {
+      index,
+      placements: sheet.placements,
+      offcuts,
+      usedArea,
+      wasteArea: Math.max(0, boardArea - usedArea),
+      ...(sheet.offcut ? {
+        stockOffcut: {
+          id: sheet.offcut.id,
+          length: sheet.offcut.length,
+          width: sheet.offcut.width,
+          ...(sheet.offcut.location ? { location: sheet.offcut.location } : {}),
+        },
+      } : {}),
+    };
+  });
+
+  return { kerfMm, trimMm, sheets: nestedSheets, unplaced };
+}
+
+/** Convenience wrapper: nest a PartDimension list (quantities expanded). */
+export function nestParts(
+  parts: PartDimension[],
+  sheetLength: number,
+  sheetWidth: number,
+  options: NestingOptions = {},
+): SheetNesting {
+  return nestPieces(piecesFromParts(parts), sheetLength, sheetWidth, options);
+}
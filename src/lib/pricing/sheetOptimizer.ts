@@ -1,6 +1,8 @@
-// Sheet optimization engine - calculates minimum sheets required with yield factor
+// Sheet optimization engine - nests parts onto whole sheets (guillotine) and
+// prices the boards actually used
 
-import { PartDimension, SheetAllocation, MaterialPricingRecord } from './types';
+import { PartDimension, SheetAllocation, SheetNesting, MaterialPricingRecord, OffcutRecord } from './types';
+import { NestingOptions, NestPiece, nestPieces, piecesFromNesting, piecesFromParts } from './sheetNesting';
 
 interface SheetSpec {
   width: number;
@@ -10,10 +12,18 @@ interface SheetSpec {
 
 // Default sheet sizes if not specified in material pricing
 const DEFAULT_SHEET_SPECS: SheetSpec[] = [
-  { width: 2400, length: 1200, area: 2.88 },  // Standard sheet
-  { width: 3600, length: 1800, area: 6.48 },  // Large sheet
+  { width: 1200, length: 2400, area: 2.88 },  // Standard sheet
+  { width: 1800, length: 3600, area: 6.48 },  // Large sheet
 ];
 
+/** Nesting runs along the board's long side, whichever column holds it. */
+function sheetSpecFor(material: MaterialPricingRecord | undefined): SheetSpec {
+  if (!material?.sheet_width || !material.sheet_length) return DEFAULT_SHEET_SPECS[0];
+  const length = Math.max(material.sheet_width, material.sheet_length);
+  const width = Math.min(material.sheet_width, material.sheet_length);
+  return { width, length, area: (width * length) / 1_000_000 }; // mm² to m²
+}
+
 /**
  * WS2 safe fallback when a material id doesn't resolve — never an arbitrary
  * first row. Order: a priced "Shop Materials" row → cheapest priced sheet
@@ -40,7 +50,8 @@ export function pickFallbackMaterial(
  */
 export function calculateSheetRequirements(
   parts: PartDimension[],
-  materials: MaterialPricingRecord[]
+  materials: MaterialPricingRecord[],
+  nestingOptions: NestingOptions = {}
 ): SheetAllocation[] {
   // Group parts by material ID
   const partsByMaterial = new Map<string, PartDimension[]>();
@@ -65,23 +76,15 @@ export function calculateSheetRequirements(
     const material = exactMatch ?? pickFallbackMaterial(materials);
     const unresolved = !material;
 
-    // Get sheet spec from material or use default
-    const sheetSpec: SheetSpec = material && material.sheet_width && material.sheet_length
-      ? {
-          width: material.sheet_width,
-          length: material.sheet_length,
-          area: (material.sheet_width * material.sheet_length) / 1_000_000 // mm² to m²
-        }
-      : DEFAULT_SHEET_SPECS[0];
-    
     const allocation = calculateMaterialSheets(
       materialParts,
-      sheetSpec,
+      sheetSpecFor(material),
       material?.expected_yield_factor ?? 0.85,
       material?.minimum_job_area ?? 0,
       material?.area_cost ?? 0,
       material?.name ?? 'Unresolved Material',
-      materialId
+      materialId,
+      nestingOptions
     );
     allocation.materialRole = materialParts[0]?.materialRole ?? 'carcase';
     if (unresolved) allocation.unresolved = true;
@@ -92,6 +95,39 @@ export function calculateSheetRequirements(
   return allocations;
 }
 
+/** Catalogue yields outside (0, 1] must never turn into a free/negative board. */
+function safeYield(yieldFactor: number): { effectiveYield: number; usedDefaultYield: boolean } {
+  const usedDefaultYield = !Number.isFinite(yieldFactor) || yieldFactor <= 0 || yieldFactor > 1;
+  return { effectiveYield: usedDefaultYield ? 0.85 : yieldFactor, usedDefaultYield };
+}
+
+/**
+ * Whole sheets to buy for a nested layout. Nested boards count as laid out;
+ * parts that could not be nested (larger than the sheet, or carried over from
+ * an allocation without a layout) fall back to the yield-factor estimate.
+ * Offcuts drawn from stock are already paid for and are not counted.
+ * The material's minimum job area still sets a floor.
+ */
+function sheetsForNesting(
+  nesting: SheetNesting,
+  areaOnlyPartArea: number,
+  sheetArea: number,
+  effectiveYield: number,
+  minimumJobArea: number
+): { sheetsRequired: number; chargeableArea: number } {
+  const unplacedArea = nesting.unplaced.reduce((sum, p) => sum + (p.length * p.width) / 1_000_000, 0)
+    + areaOnlyPartArea;
+  const estimatedArea = unplacedArea / effectiveYield;
+  const newBoards = nesting.sheets.filter(sheet => !sheet.stockOffcut).length;
+  const nestedArea = newBoards * sheetArea;
+  const chargeableArea = Math.max(nestedArea + estimatedArea, minimumJobArea);
+  const sheetsRequired = Math.max(
+    newBoards + Math.ceil(estimatedArea / sheetArea - 1e-9),
+    Math.ceil(Math.max(0, minimumJobArea) / sheetArea - 1e-9)
+  );
+  return { sheetsRequired, chargeableArea };
+}
+
 /**
  * Calculate sheets required for a specific material
  */
@@ -102,30 +138,26 @@ function calculateMaterialSheets(
   minimumJobArea: number,
   areaCostPerSqm: number,
   materialName: string,
-  materialId: string
+  materialId: string,
+  nestingOptions: NestingOptions
 ): SheetAllocation {
   // Calculate total part area (accounting for quantities)
   let totalPartArea = 0;
   for (const part of parts) {
     totalPartArea += part.area * part.quantity;
   }
-  
-  // Apply yield factor (accounts for offcuts, grain direction, etc.). Invalid
-  // imported values must never turn into a free/negative board calculation.
-  const usedDefaultYield = !Number.isFinite(yieldFactor) || yieldFactor <= 0 || yieldFactor > 1;
-  const effectiveYield = usedDefaultYield ? 0.85 : yieldFactor;
-  // yieldFactor of 0.85 means we can use 85% of each sheet.
-  const adjustedArea = totalPartArea / effectiveYield;
-  
-  // Apply minimum job area if specified
-  const chargeableArea = Math.max(adjustedArea, minimumJobArea);
-  
-  // Calculate sheets required (round UP - you pay for whole sheets)
-  const sheetsRequired = Math.ceil(chargeableArea / sheetSpec.area);
-  
+
+  // The catalogue yield is kept for fractional cut-hour estimates and for
+  // parts too large to nest; the sheet count itself comes from the layout.
+  const { effectiveYield, usedDefaultYield } = safeYield(yieldFactor);
+  const nesting = nestPieces(piecesFromParts(parts), sheetSpec.length, sheetSpec.width, nestingOptions);
+  const { sheetsRequired, chargeableArea } = sheetsForNesting(
+    nesting, 0, sheetSpec.area, effectiveYield, minimumJobArea
+  );
+
   // Calculate total material area used
   const totalSheetArea = sheetsRequired * sheetSpec.area;
-  
+
   // Waste area
   const wasteArea = totalSheetArea - totalPartArea;
 
@@ -147,16 +179,22 @@ function calculateMaterialSheets(
     chargeableArea,
     ...(usedDefaultYield ? { usedDefaultYield: true } : {}),
     areaCostPerSqm,
-    totalMaterialCost
+    totalMaterialCost,
+    nesting
   };
 }
 
 /**
  * Consolidate sheet requirements across multiple cabinets
- * This combines all parts by material to calculate bulk sheet requirements
+ * This re-nests every cabinet's parts for a material together, so parts from
+ * different cabinets share boards and the job buys the sheets it really cuts.
+ * Offcuts of a material are filled before any new board is opened. Callers
+ * pass the offcuts this job may use (available, or reserved for it); used and
+ * scrapped records are ignored.
  */
 export function consolidateSheetRequirements(
-  cabinetSheets: SheetAllocation[][]
+  cabinetSheets: SheetAllocation[][],
+  offcuts: OffcutRecord[] = []
 ): SheetAllocation[] {
   // Group by material ID
   const byMaterial = new Map<string, SheetAllocation[]>();
@@ -178,13 +216,24 @@ export function consolidateSheetRequirements(
     
     // Use the first allocation's properties as template
     const template = allocations[0];
-    const adjustedArea = totalPartArea / template.yieldFactor;
     // minimum_job_area is a per-material, per-job rule. It was previously
     // applied to each cabinet, then accidentally dropped during consolidation.
     const minimumJobArea = Math.max(0, ...allocations.map(a => a.minimumJobArea ?? 0));
-    const chargeableArea = Math.max(adjustedArea, minimumJobArea);
-    
-    const sheetsRequired = Math.ceil(chargeableArea / template.sheetArea);
+
+    const pieces: NestPiece[] = allocations.flatMap(a => (a.nesting ? piecesFromNesting(a.nesting) : []));
+    const areaOnlyPartArea = allocations
+      .filter(a => !a.nesting)
+      .reduce((sum, a) => sum + a.totalPartArea, 0);
+    const nesting = nestPieces(pieces, template.sheetLength, template.sheetWidth, {
+      kerfMm: template.nesting?.kerfMm,
+      trimMm: template.nesting?.trimMm,
+      stock: offcuts
+        .filter(o => o.material_id === materialId && (o.status === 'available' || o.status === 'reserved'))
+        .map(o => ({ id: o.id, length: Number(o.length_mm), width: Number(o.width_mm), location: o.location })),
+    });
+    const { sheetsRequired, chargeableArea } = sheetsForNesting(
+      nesting, areaOnlyPartArea, template.sheetArea, template.yieldFactor, minimumJobArea
+    );
     const totalSheetArea = sheetsRequired * template.sheetArea;
     
     consolidated.push({
@@ -203,7 +252,8 @@ export function consolidateSheetRequirements(
       ...(allocations.some(a => a.usedDefaultYield) ? { usedDefaultYield: true } : {}),
       areaCostPerSqm: template.areaCostPerSqm,
       totalMaterialCost: totalSheetArea * template.areaCostPerSqm,
-      ...(template.unresolved ? { unresolved: true } : {})
+      ...(template.unresolved ? { unresolved: true } : {}),
+      nesting
     });
   }
   
@@ -1,5 +1,7 @@
 // BOM-based pricing engine types
 
+import type { TimeRates } from './timeModel';
+
 export interface FormulaVariables {
   CabWidth: number;
   CabHeight: number;
@@ -27,6 +29,12 @@ export interface EdgeSpec {
   wid2: boolean;
 }
 
+/**
+ * Grain constraint for nesting. 'length' locks the part's length along the
+ * sheet length (woodgrain/textured faces); 'none' lets the nester rotate it.
+ */
+export type PartGrain = 'length' | 'none';
+
 export interface PartDimension {
   name: string;
   partType: string;
@@ -38,12 +46,74 @@ export interface PartDimension {
   /** which finish this part draws from: carcase board vs exterior/door finish */
   materialRole: 'carcase' | 'exterior';
   edging: EdgeSpec;
+  /** Defaults to 'none' (free rotation) when absent. */
+  grain?: PartGrain;
+  /** Owning cabinet's number (C01…), carried through to nested placements. */
+  cabinetNumber?: string;
+  /** Owning cabinet's room in a multi-room job (R1…), carried alongside it. */
+  roomRef?: string;
+  /** Position in the owning cabinet's `parts`; names repeat, this does not. */
+  partIndex?: number;
   quantity: number;
   handlingCost: number;
   machiningCost: number;
   assemblyCost: number;
 }
 
+/** One part copy placed on a nested sheet. X runs along the sheet length. */
+export interface NestedPart {
+  partName: string;
+  partType: string;
+  cabinetNumber?: string;
+  roomRef?: string;
+  partIndex?: number;
+  /** 0-based copy index within the part's quantity. */
+  copy: number;
+  x: number;
+  y: number;
+  /** The part's own cut length/width, regardless of rotation. */
+  length: number;
+  width: number;
+  /** true when the part's length runs along the sheet width. */
+  rotated: boolean;
+  edging: EdgeSpec;
+  grain: PartGrain;
+}
+
+/** A reusable rectangle left on a sheet after nesting. */
+export interface OffcutRect {
+  x: number;
+  y: number;
+  length: number;
+  width: number;
+}
+
+export interface NestedSheet {
+  index: number;
+  placements: NestedPart[];
+  offcuts: OffcutRect[];
+  /** Part area on this sheet, m². */
+  usedArea: number;
+  /** Sheet area minus part area (kerf, trim and offcuts), m². */
+  wasteArea: number;
+  /** Set when this "sheet" is an offcut from stock rather than a new board; it is not charged. */
+  stockOffcut?: {
+    id: string;
+    length: number;
+    width: number;
+    location?: string;
+  };
+}
+
+/** Result of guillotine nesting one material's parts onto whole sheets. */
+export interface SheetNesting {
+  kerfMm: number;
+  trimMm: number;
+  sheets: NestedSheet[];
+  /** Parts larger than a trimmed sheet — priced by area, cut from oversize stock. */
+  unplaced: Array<Omit<NestedPart, 'x' | 'y' | 'rotated'>>;
+}
+
 export interface SheetAllocation {
   materialId: string;
   materialName: string;
@@ -57,7 +127,7 @@ export interface SheetAllocation {
   yieldFactor: number;
   /** Minimum chargeable area configured for this material across the whole job. */
   minimumJobArea?: number;
-  /** Area used to determine whole-sheet quantity after yield and minimums. */
+  /** Nested board area (plus yield-estimated oversize parts), floored at the minimum job area. */
   chargeableArea?: number;
   /** The catalogue yield was invalid and the safe 85% default was used. */
   usedDefaultYield?: boolean;
@@ -65,6 +135,8 @@ export interface SheetAllocation {
   totalMaterialCost: number;
   /** true when the material id had no priced match at all — board priced at $0 (WS2 guard) */
   unresolved?: boolean;
+  /** The actual sheet layout. Absent on job-level lines that are not board nests (kick panels). */
+  nesting?: SheetNesting;
 }
 
 export interface EdgeTapeAllocation {
@@ -109,6 +181,8 @@ export interface BuildHours {
 export interface CabinetBOM {
   cabinetId: string;
   cabinetNumber: string;
+  /** Room of a multi-room job (R1…); absent for a single room. */
+  roomRef?: string;
   cabinetName: string;
   cabinetSku: string;
   dimensions: {
@@ -216,6 +290,12 @@ export interface ApplianceProductRecord {
   installation?: string | null;
   /** False until a human has checked the sizes, mirroring price_is_placeholder. */
   dimensions_confirmed?: boolean | null;
+  /** Cooktops: minimum rangehood height above the cooktop from the installation instructions. */
+  rangehood_clearance_mm?: number | null;
+  /** Cooktops: minimum height of any other surface above the cooktop from the instructions. */
+  overhead_clearance_mm?: number | null;
+  /** Cooktops: trivet top above the benchtop; clearances are measured from it. */
+  trivet_height_mm?: number | null;
   model_url?: string | null;
   model_ios_url?: string | null;
   is_active: boolean;
@@ -345,6 +425,7 @@ export interface EdgePricingRecord {
   area_handling_cost: number;
   application_cost: number;
   visibility_status: string;
+  source_supplier?: string | null;
 }
 
 export interface HardwarePricingRecord {
@@ -363,6 +444,7 @@ export interface HardwarePricingRecord {
   runner_height: number | null;
   runner_desc: string | null;
   visibility_status: string;
+  source_supplier?: string | null;
 }
 
 export interface LaborRateRecord {
@@ -552,6 +634,21 @@ export interface BenchtopAllocation {
   totalCost: number;
 }
 
+// Offcut inventory (offcut_inventory table)
+export type OffcutStatus = 'available' | 'reserved' | 'used' | 'scrapped';
+
+export interface OffcutRecord {
+  id: string;
+  material_id: string;
+  length_mm: number;
+  width_mm: number;
+  location?: string | null;
+  status: OffcutStatus;
+  notes?: string | null;
+  reserved_job_id?: string | null;
+  source_job_id?: string | null;
+}
+
 export interface PricingData {
   parts: PartPricingRecord[];
   materials: MaterialPricingRecord[];
@@ -562,6 +659,12 @@ export interface PricingData {
   benchtop: BenchtopMaterialRecord[];
   /** Stage 1 — appliance catalog (may be empty). */
   appliances?: ApplianceProductRecord[];
+  /** Offcuts in stock that nesting may draw from. Absent = new boards only. */
+  offcuts?: OffcutRecord[];
+  /** Build-hour rates from the latest approved calibration. Absent = DEFAULT_TIME_RATES. */
+  timeRates?: TimeRates;
+  /** Version of the latest approved time or yield calibration; part of the pricing version. */
+  calibrationVersion?: number;
 }
 
 // Cabinet configuration for BOM generation
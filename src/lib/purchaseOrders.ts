@@ -0,0 +1,214 @@
+import type { PricingData, QuoteBOM } from './pricing/types';
+
+/**
+ * Supplier purchase orders (table `purchase_orders`).
+ *
+ * A job's ordering list (consolidated boards, edge tape and hardware) is split
+ * by the supplier each catalogue row comes from. Each supplier gets one draft
+ * PO per week, shared by every job raised that week, and each line remembers
+ * how much of it belongs to which job. POs go draft → sent → received, with
+ * partial receipts recorded per line.
+ */
+
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'partial' | 'received';
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  partial: 'Part received',
+  received: 'Received',
+};
+
+export interface PurchaseOrderLine {
+  /** `${kind}:${itemCode}`, unique within an order. */
+  key: string;
+  kind: 'board' | 'edge' | 'hardware';
+  itemCode: string;
+  description: string;
+  unit: 'sheet' | 'roll' | 'each';
+  quantity: number;
+  unitCost: number;
+  received: number;
+  /** Quantity ordered for each job id. */
+  jobs: Record<string, number>;
+}
+
+export interface PurchaseOrderRow {
+  id: string;
+  po_number: number;
+  supplier: string;
+  status: PurchaseOrderStatus;
+  /** Monday of the week the order collects jobs for (YYYY-MM-DD). */
+  week_start: string;
+  job_ids: string[];
+  lines: PurchaseOrderLine[];
+  total: number;
+  sent_at: string | null;
+  received_at: string | null;
+  created_at: string;
+}
+
+export const UNASSIGNED_SUPPLIER = 'Unassigned supplier';
+const ROLL_LENGTH_M = 25;
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+export const formatPoNumber = (n: number) => `PO-${String(n).padStart(5, '0')}`;
+
+/** Monday of the date's week, YYYY-MM-DD in local time. */
+export function weekStart(date: Date): string {
+  const monday = new Date(date.getFullYear(), date.getMonth(), date.getDate() - ((date.getDay() + 6) % 7));
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${monday.getFullYear()}-${pad(monday.getMonth() + 1)}-${pad(monday.getDate())}`;
+}
+
+type SupplierSource = { id?: string; item_code?: string | null; edge_type?: string | null; source_supplier?: string | null; brand?: string | null };
+
+function supplierOf(rows: SupplierSource[], code: string): string {
+  const row = rows.find(r => r.id === code || r.item_code === code || r.edge_type === code);
+  return row?.source_supplier?.trim() || row?.brand?.trim() || UNASSIGNED_SUPPLIER;
+}
+
+/**
+ * Split a job's ordering list into PO lines per supplier. Boards are ordered
+ * in whole sheets (offcut stock is already excluded), edge tape in rolls.
+ */
+export function splitOrderingList(
+  quoteBOM: Pick<QuoteBOM, 'consolidatedSheets' | 'consolidatedEdgeTape' | 'consolidatedHardware'>,
+  pricing: Pick<PricingData, 'materials' | 'edges' | 'hardware'>,
+  jobId: string,
+): Map<string, PurchaseOrderLine[]> {
+  const bySupplier = new Map<string, PurchaseOrderLine[]>();
+  const add = (supplier: string, line: Omit<PurchaseOrderLine, 'key' | 'received' | 'jobs'>) => {
+    if (!(line.quantity > 0)) return;
+    const lines = bySupplier.get(supplier) ?? [];
+    lines.push({ ...line, key: `${line.kind}:${line.itemCode}`, received: 0, jobs: { [jobId]: line.quantity } });
+    bySupplier.set(supplier, lines);
+  };
+
+  for (const sh of quoteBOM.consolidatedSheets) {
+    const material = pricing.materials.find(m => m.id === sh.materialId || m.item_code === sh.materialId);
+    add(supplierOf(pricing.materials, sh.materialId), {
+      kind: 'board',
+      itemCode: material?.item_code ?? sh.materialId,
+      description: `${sh.materialName} ${sh.sheetLength} × ${sh.sheetWidth}`,
+      unit: 'sheet',
+      quantity: sh.sheetsRequired,
+      unitCost: sh.sheetsRequired > 0 ? round(sh.totalMaterialCost / sh.sheetsRequired) : 0,
+    });
+  }
+  for (const e of quoteBOM.consolidatedEdgeTape) {
+    const rolls = e.rollsRequired ?? Math.ceil(e.linearMeters / ROLL_LENGTH_M);
+    add(supplierOf(pricing.edges, e.edgeType), {
+      kind: 'edge',
+      itemCode: e.edgeType,
+      description: `${e.edgeName} (${e.rollLengthM ?? ROLL_LENGTH_M} m roll)`,
+      unit: 'roll',
+      quantity: rolls,
+      unitCost: rolls > 0 ? round(e.totalCost / rolls) : 0,
+    });
+  }
+  for (const h of quoteBOM.consolidatedHardware) {
+    add(supplierOf(pricing.hardware, h.itemCode), {
+      kind: 'hardware',
+      itemCode: h.itemCode,
+      description: h.name,
+      unit: 'each',
+      quantity: h.quantity,
+      unitCost: h.unitCost,
+    });
+  }
+  return bySupplier;
+}
+
+/** Drop a job's share from an order, e.g. before raising it again after a redesign. */
+export function withoutJob(lines: PurchaseOrderLine[], jobId: string): PurchaseOrderLine[] {
+  return lines.flatMap((line) => {
+    const share = line.jobs[jobId];
+    if (!share) return [line];
+    const { [jobId]: _removed, ...jobs } = line.jobs;
+    const quantity = line.quantity - share;
+    return quantity > 0 ? [{ ...line, quantity, jobs }] : [];
+  });
+}
+
+/**
+ * What is still to order for a job once its lines on sent, part received and
+ * received POs are taken off, so re-raising after a PO has gone out never
+ * orders the same board twice. Lines already fully ordered are dropped.
+ */
+export function outstandingForJob(
+  bySupplier: Map<string, PurchaseOrderLine[]>,
+  orders: Pick<PurchaseOrderRow, 'status' | 'lines'>[],
+  jobId: string,
+): Map<string, PurchaseOrderLine[]> {
+  const committed = new Map<string, number>();
+  for (const order of orders) {
+    if (order.status === 'draft') continue;
+    for (const line of order.lines) {
+      const share = line.jobs[jobId];
+      if (share) committed.set(line.key, (committed.get(line.key) ?? 0) + share);
+    }
+  }
+  const outstanding = new Map<string, PurchaseOrderLine[]>();
+  for (const [supplier, lines] of bySupplier) {
+    const remaining = lines.flatMap((line) => {
+      const quantity = line.quantity - (committed.get(line.key) ?? 0);
+      return quantity > 0 ? [{ ...line, quantity, jobs: { [jobId]: quantity } }] : [];
+    });
+    if (remaining.length > 0) outstanding.set(supplier, remaining);
+  }
+  return outstanding;
+}
+
+/** Add lines to an order, summing quantities and job shares on matching items. */
+export function mergeOrderLines(existing: PurchaseOrderLine[], incoming: PurchaseOrderLine[]): PurchaseOrderLine[] {
+  const merged = existing.map(line => ({ ...line, jobs: { ...line.jobs } }));
+  for (const line of incoming) {
+    const match = merged.find(m => m.key === line.key);
+    if (!match) {
+      merged.push({ ...line, jobs: { ...line.jobs } });
+      continue;
+    }
+    match.quantity += line.quantity;
+    for (const [jobId, qty] of Object.entries(line.jobs)) match.jobs[jobId] = (match.jobs[jobId] ?? 0) + qty;
+  }
+  return merged;
+}
+
+export const orderTotal = (lines: PurchaseOrderLine[]) =>
+  round(lines.reduce((sum, line) => sum + line.quantity * line.unitCost, 0));
+
+export const orderJobIds = (lines: PurchaseOrderLine[]) =>
+  [...new Set(lines.flatMap(line => Object.keys(line.jobs)))];
+
+/**
+ * Record a delivery: `receipts` is the quantity that arrived now, per line key.
+ * The order is received once every line is, part received before that.
+ */
+export function receiveOrder(
+  lines: PurchaseOrderLine[],
+  receipts: Record<string, number>,
+): { lines: PurchaseOrderLine[]; status: PurchaseOrderStatus } {
+  const next = lines.map(line => ({ ...line, received: line.received + Math.max(0, receipts[line.key] ?? 0) }));
+  const status: PurchaseOrderStatus = next.every(line => line.received >= line.quantity)
+    ? 'received'
+    : next.some(line => line.received > 0) ? 'partial' : 'sent';
+  return { lines: next, status };
+}
+
+/** One row per line, for the supplier's import or a spreadsheet. */
+export function purchaseOrderCsv(order: Pick<PurchaseOrderRow, 'po_number' | 'supplier' | 'lines'>): string {
+  const cell = (value: string | number) => {
+    const v = String(value);
+    return /[",\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v;
+  };
+  const rows = [
+    ['PO', 'Supplier', 'Item Code', 'Description', 'Unit', 'Quantity', 'Unit Cost', 'Line Total', 'Received'],
+    ...order.lines.map(line => [
+      formatPoNumber(order.po_number), order.supplier, line.itemCode, line.description, line.unit,
+      line.quantity, line.unitCost.toFixed(2), (line.quantity * line.unitCost).toFixed(2), line.received,
+    ]),
+  ];
+  return rows.map(row => row.map(cell).join(',')).join('\n');
+}
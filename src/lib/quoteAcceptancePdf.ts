@@ -0,0 +1,118 @@
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { QUOTE_TERMS, QuoteAcceptanceRow, QuoteSummaryLine } from './homeowner/quoteAcceptance';
+
+const AUD = (n: number) =>
+  new Intl.NumberFormat('en-AU', { style: 'currency', currency: 'AUD' }).format(n);
+
+/**
+ * Signed Quote Acceptance PDF
+ *
+ * The record attached to the job when a customer accepts: quote revision,
+ * line summary and total, the terms they agreed to, their signature and the
+ * server-stamped time, IP, deposit payment reference and evidence hash (which
+ * accept-quote checks for before it stores the file).
+ */
+export function buildQuoteAcceptancePdf(
+  job: { job_number: number; name: string },
+  acceptance: QuoteAcceptanceRow,
+  lines: QuoteSummaryLine[],
+): jsPDF {
+  const doc = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+  const pageW = doc.internal.pageSize.getWidth();
+  const pageH = doc.internal.pageSize.getHeight();
+  const acceptedAt = new Date(acceptance.accepted_at);
+
+  // ── Header ────────────────────────────────────────────────────────────────
+  doc.setFontSize(18);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Quote Acceptance', 14, 18);
+
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+  doc.text(`Job #${job.job_number}: ${job.name}`, 14, 26);
+  doc.text(`Quote revision ${acceptance.revision_number}`, pageW - 14, 26, { align: 'right' });
+
+  // ── Quote summary ─────────────────────────────────────────────────────────
+  autoTable(doc, {
+    startY: 32,
+    head: [['Item', 'Detail', 'Amount']],
+    body: lines.map(line => [line.label, line.detail ?? '', line.amount === null ? '' : AUD(line.amount)]),
+    foot: [
+      ['Total (inc. GST)', '', AUD(acceptance.total)],
+      ['Deposit', '', AUD(acceptance.deposit_amount)],
+    ],
+    theme: 'striped',
+    headStyles: { fillColor: [30, 41, 59] },
+    footStyles: { fillColor: [241, 245, 249], textColor: [15, 23, 42], fontStyle: 'bold' },
+    columnStyles: { 2: { halign: 'right' } },
+    margin: { left: 14, right: 14 },
+  });
+
+  let y = (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 10;
+
+  // ── Terms ─────────────────────────────────────────────────────────────────
+  doc.setFontSize(12);
+  doc.setFont('helvetica', 'bold');
+  doc.text(`Terms (version ${acceptance.terms_version})`, 14, y);
+  y += 6;
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'normal');
+  QUOTE_TERMS.forEach((term, i) => {
+    const wrapped = doc.splitTextToSize(`${i + 1}. ${term}`, pageW - 28) as string[];
+    if (y + wrapped.length * 4.5 > pageH - 70) {
+      doc.addPage();
+      y = 18;
+    }
+    doc.text(wrapped, 14, y);
+    y += wrapped.length * 4.5 + 1.5;
+  });
+
+  // ── Signature block ───────────────────────────────────────────────────────
+  if (y > pageH - 70) {
+    doc.addPage();
+    y = 18;
+  }
+  y += 6;
+  doc.setFontSize(12);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Signed', 14, y);
+  y += 4;
+
+  if (acceptance.signature_kind === 'drawn') {
+    doc.addImage(acceptance.signature_data, 'PNG', 14, y, 70, 26);
+    y += 28;
+  } else {
+    doc.setFont('times', 'italic');
+    doc.setFontSize(22);
+    doc.text(acceptance.signature_data, 16, y + 14);
+    y += 20;
+  }
+  doc.setDrawColor(148, 163, 184);
+  doc.line(14, y, 100, y);
+  y += 5;
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  const evidence = [
+    `Name: ${acceptance.signer_name}`,
+    `Signature: ${acceptance.signature_kind === 'drawn' ? 'drawn' : 'typed'}`,
+    `Accepted: ${acceptedAt.toLocaleString('en-AU', { timeZone: 'Australia/Sydney' })} (Sydney) · ${acceptance.accepted_at}`,
+    `IP address: ${acceptance.signer_ip ?? 'not recorded'}`,
+    acceptance.payment_reference
+      ? `Deposit paid: ${AUD(acceptance.deposit_amount)} via ${acceptance.payment_provider} (${acceptance.payment_reference})`
+      : 'Deposit: to be invoiced',
+    `Acceptance ID: ${acceptance.id}`,
+    ...(acceptance.evidence_hash ? [`Evidence hash: ${acceptance.evidence_hash}`] : []),
+  ];
+  evidence.forEach(line => {
+    doc.text(line, 14, y);
+    y += 4.5;
+  });
+
+  return doc;
+}
+
+export function quoteAcceptancePdfFilename(jobNumber: number, revisionNumber: number): string {
+  return `quote-acceptance-${jobNumber}-r${revisionNumber}.pdf`;
+}
@@ -21,6 +21,7 @@ import type {
   LayoutShape,
   Priority,
   RoomSpec,
+  RoomType,
   Wall,
 } from '@/lib/layout';
 import type { AiDesignOption } from '@/hooks/useAiDesigner';
@@ -30,6 +31,8 @@ import { proposalToTradeRoom, type TradeRoomDefaults } from './proposalToTradeRo
 /** Quick brief inputs collected by the trade Design-with-AI dialog. Everything
  *  the room can't tell us (habits, appliances, priorities) lives here. */
 export interface TradeAiInputs {
+  /** joinery room being designed — defaults from the room's name */
+  roomType: RoomType;
   /** cabinet layout strategy — defaults from the room's geometry */
   shape: LayoutShape;
   cooktop?: 'gas' | 'induction';
@@ -64,11 +67,24 @@ export function defaultShapeForRoom(room: TradeRoom): LayoutShape {
   return room.config.shape === 'LShape' ? 'l-shape' : 'u-shape';
 }
 
+/** Website handoffs name the room after its type ("Laundry", "Wardrobe",
+ *  "Bathroom"); anything else is designed as a kitchen. */
+export function roomTypeFromName(name: string): RoomType {
+  const lower = name.toLowerCase();
+  if (lower.includes('laundry')) return 'laundry';
+  if (lower.includes('wardrobe') || lower.includes('robe')) return 'wardrobe';
+  if (lower.includes('bathroom') || lower.includes('ensuite') || lower.includes('vanity')) return 'bathroom';
+  return 'kitchen';
+}
+
 /** Reasonable starting inputs derived from the room, so the dialog opens ready
  *  to generate without forcing the pro to fill everything in. */
 export function defaultTradeAiInputs(room: TradeRoom): TradeAiInputs {
+  const roomType = roomTypeFromName(room.name);
   return {
-    shape: defaultShapeForRoom(room),
+    roomType,
+    // Laundries, robes and vanities are usually one wall.
+    shape: roomType === 'kitchen' ? defaultShapeForRoom(room) : 'single-wall',
     cooktop: 'induction',
     oven: '600',
     dishwasher: true,
@@ -86,6 +102,7 @@ export function buildBriefForRoom(room: TradeRoom, inputs: TradeAiInputs): Desig
   const styleWords = inputs.styleWords?.trim() || room.description?.trim() || undefined;
   return {
     room: roomSpecFromTradeRoom(room),
+    ...(inputs.roomType !== 'kitchen' ? { roomType: inputs.roomType } : {}),
     household: {},
     priorities: inputs.priorities,
     appliances: {
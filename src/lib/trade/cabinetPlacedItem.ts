@@ -3,12 +3,13 @@
  * records and engine `PlacedItem`s (implementation plan §11.1: one module so
  * the two directions cannot drift). Pure functions, no React/Supabase deps.
  *
- * `toPlacedItems` was extracted verbatim from useTradeRoomPricing.ts, which
- * now re-exports it. `proposalToTradeRoom.ts` is the forward direction.
+ * `toPlacedItems` and `toHardwareOptions` were extracted verbatim from
+ * useTradeRoomPricing.ts, which re-exports the former.
+ * `proposalToTradeRoom.ts` is the forward direction.
  */
 
-import type { PlacedItem } from '@/types';
-import type { ConfiguredCabinet, RoomMaterialDefaults } from '@/types/trade';
+import type { HardwareOptions, PlacedItem } from '@/types';
+import type { ConfiguredCabinet, RoomHardwareDefaults, RoomMaterialDefaults } from '@/types/trade';
 
 export function toPlacedItems(cabinets: ConfiguredCabinet[], materialDefaults?: RoomMaterialDefaults): PlacedItem[] {
   return cabinets.map((cabinet) => ({
@@ -44,6 +45,18 @@ export function toPlacedItems(cabinets: ConfiguredCabinet[], materialDefaults?:
   }));
 }
 
+/** A room's hardware defaults as the engine's job-level hardware options. */
+export function toHardwareOptions(hardwareDefaults: RoomHardwareDefaults): HardwareOptions {
+  return {
+    hingeType: hardwareDefaults.hingeType,
+    drawerType: hardwareDefaults.drawerType,
+    cabinetTop: 'Standard',
+    supplyHardware: hardwareDefaults.supplyHardware,
+    adjustableLegs: hardwareDefaults.adjustableLegs,
+    handleId: hardwareDefaults.handleType,
+  };
+}
+
 /** Deterministic Base/Wall/Tall/Appliance classification for engine output. */
 export function categoryForDefinition(definitionId: string): ConfiguredCabinet['category'] {
   if (definitionId.includes('opening')) return 'Appliance';
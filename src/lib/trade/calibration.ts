@@ -0,0 +1,188 @@
+import { DEFAULT_TIME_RATES, TimeRates } from '@/lib/pricing/timeModel';
+import type { JobActualsRow, QuotedJobCost } from './jobMargins';
+import { PRODUCTION_STAGES, ProductionStage } from './productionSchedule';
+
+/**
+ * Time and yield model calibration (table `pricing_calibrations`).
+ *
+ * Fits the production time model and board yield factors to what completed
+ * jobs really took. The time model keeps its shape: each stage's rates are
+ * scaled by one factor, the least-squares fit of actual against quoted stage
+ * hours through the origin, so a stage quoted at 10h that took 12h pushes its
+ * rates up 20%. Yield is fitted per material from the part area cut against
+ * the whole sheets actually used. Both come with 95% confidence intervals from
+ * the fit's residuals; a proposal only applies once an admin approves it, and
+ * every approval is a new pricing version.
+ *
+ * Only jobs quoted after the last approved calibration are used, so every
+ * quote in a fit was priced with the rates being replaced.
+ */
+
+export type CalibrationKind = 'time' | 'yield';
+
+/** Fewest jobs a stage or material needs before a new value is proposed. */
+export const MIN_CALIBRATION_JOBS = 3;
+
+/** The time-model rates each stage's factor scales. Machine and labour $/h are not fitted. */
+export const STAGE_RATE_KEYS: Record<ProductionStage, (keyof TimeRates)[]> = {
+  cut: ['cutHoursPerCarcaseSheet', 'cutHoursPerDoorSheet'],
+  edge: ['edgeHoursPerLm'],
+  assembly: ['assemblyBase', 'assemblyTall', 'assemblyMicrowave', 'assemblyPerDrawer'],
+};
+
+export interface RatioFit {
+  /** Fitted y/x ratio. */
+  estimate: number;
+  /** 95% confidence interval; equal to the estimate with fewer than two jobs. */
+  low: number;
+  high: number;
+  jobs: number;
+}
+
+export interface StageFit extends RatioFit {
+  stage: ProductionStage;
+  /** Enough jobs to propose a change. */
+  ready: boolean;
+}
+
+export interface YieldFit extends RatioFit {
+  materialId: string;
+  materialName: string;
+  current: number;
+  proposed: number;
+  ready: boolean;
+}
+
+export interface CalibrationJob {
+  id: string;
+  quoted: QuotedJobCost;
+  actuals: JobActualsRow;
+}
+
+export interface TimeCalibration {
+  current: TimeRates;
+  proposed: TimeRates;
+  stages: StageFit[];
+}
+
+/** Approved calibration row. */
+export interface PricingCalibrationRow {
+  version: number;
+  kind: CalibrationKind;
+  time_rates: TimeRates | null;
+  yield_factors: Record<string, number> | null;
+  fit: unknown;
+  job_count: number;
+  approved_at: string;
+}
+
+/** Two-sided 95% Student t quantiles by degrees of freedom. */
+const T_95 = [0, 12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228,
+  2.201, 2.179, 2.16, 2.145, 2.131, 2.12, 2.11, 2.101, 2.093, 2.086,
+  2.08, 2.074, 2.069, 2.064, 2.06, 2.056, 2.052, 2.048, 2.045, 2.042];
+const tQuantile = (df: number) => (df < T_95.length ? T_95[df] : 1.96);
+
+/** Yields outside this range are treated as bad data, not as a shop that improved. */
+const YIELD_RANGE = { min: 0.3, max: 1 };
+
+const round3 = (n: number) => Math.round(n * 1000) / 1000;
+const round4 = (n: number) => Math.round(n * 10000) / 10000;
+
+/**
+ * Least-squares ratio y ≈ k·x through the origin, with a 95% interval from
+ * the residual spread. Pairs with x ≤ 0 carry no information and are skipped.
+ */
+export function fitRatio(pairs: Array<{ x: number; y: number }>): RatioFit | null {
+  const usable = pairs.filter(p => Number.isFinite(p.x) && Number.isFinite(p.y) && p.x > 0 && p.y >= 0);
+  if (usable.length === 0) return null;
+  const sxx = usable.reduce((sum, p) => sum + p.x * p.x, 0);
+  const sxy = usable.reduce((sum, p) => sum + p.x * p.y, 0);
+  const estimate = sxy / sxx;
+  const n = usable.length;
+  if (n < 2) return { estimate: round4(estimate), low: round4(estimate), high: round4(estimate), jobs: n };
+  const residual = usable.reduce((sum, p) => sum + (p.y - estimate * p.x) ** 2, 0);
+  const se = Math.sqrt(residual / (n - 1) / sxx);
+  const margin = tQuantile(n - 1) * se;
+  return {
+    estimate: round4(estimate),
+    low: round4(Math.max(0, estimate - margin)),
+    high: round4(estimate + margin),
+    jobs: n,
+  };
+}
+
+/** Scale each stage's rates by its fitted actual/quoted hours factor. */
+export function calibrateTimeRates(jobs: CalibrationJob[], current: TimeRates = DEFAULT_TIME_RATES): TimeCalibration {
+  const proposed: TimeRates = { ...current };
+  const stages: StageFit[] = [];
+  for (const stage of PRODUCTION_STAGES) {
+    const fit = fitRatio(jobs
+      .filter(job => job.actuals.labour_hours[stage] != null)
+      .map(job => ({ x: job.quoted.hours[stage], y: Number(job.actuals.labour_hours[stage]) })));
+    if (!fit) continue;
+    const ready = fit.jobs >= MIN_CALIBRATION_JOBS;
+    stages.push({ stage, ...fit, ready });
+    if (!ready) continue;
+    for (const key of STAGE_RATE_KEYS[stage]) proposed[key] = round4(current[key] * fit.estimate);
+  }
+  return { current, proposed, stages };
+}
+
+/**
+ * Yield per material: part area cut over the area of the whole sheets used.
+ * `current` maps material id to its catalogue expected_yield_factor.
+ */
+export function calibrateYieldFactors(jobs: CalibrationJob[], current: Record<string, number>): YieldFit[] {
+  const byMaterial = new Map<string, { name: string; pairs: Array<{ x: number; y: number }> }>();
+  for (const job of jobs) {
+    for (const board of job.quoted.boards) {
+      const sheets = job.actuals.sheets_used[board.materialId];
+      if (!(sheets > 0) || !(board.sheetArea > 0) || !(board.partArea > 0)) continue;
+      const entry = byMaterial.get(board.materialId) ?? { name: board.materialName, pairs: [] };
+      entry.pairs.push({ x: sheets * board.sheetArea, y: board.partArea });
+      byMaterial.set(board.materialId, entry);
+    }
+  }
+  const fits: YieldFit[] = [];
+  for (const [materialId, { name, pairs }] of byMaterial) {
+    const fit = fitRatio(pairs);
+    if (!fit) continue;
+    const now = current[materialId] ?? 0.85;
+    const inRange = fit.estimate >= YIELD_RANGE.min && fit.estimate <= YIELD_RANGE.max;
+    const ready = fit.jobs >= MIN_CALIBRATION_JOBS && inRange;
+    fits.push({
+      materialId,
+      materialName: name,
+      ...fit,
+      high: Math.min(YIELD_RANGE.max, fit.high),
+      current: now,
+      proposed: ready ? round3(fit.estimate) : now,
+      ready,
+    });
+  }
+  return fits.sort((a, b) => b.jobs - a.jobs || a.materialName.localeCompare(b.materialName));
+}
+
+/** Jobs quoted after the last approved calibration of a kind. */
+export function jobsSinceCalibration<T extends CalibrationJob>(jobs: T[], approvedAt: string | null | undefined): T[] {
+  if (!approvedAt) return jobs;
+  return jobs.filter(job => job.quoted.quotedAt !== '' && job.quoted.quotedAt > approvedAt);
+}
+
+/** The time rates of the latest approved time calibration, over the defaults. */
+export function activeTimeRates(rows: PricingCalibrationRow[]): TimeRates {
+  const latest = latestCalibration(rows, 'time');
+  return latest?.time_rates ? { ...DEFAULT_TIME_RATES, ...latest.time_rates } : DEFAULT_TIME_RATES;
+}
+
+export function latestCalibration(rows: PricingCalibrationRow[], kind?: CalibrationKind): PricingCalibrationRow | null {
+  return rows
+    .filter(row => !kind || row.kind === kind)
+    .reduce<PricingCalibrationRow | null>((best, row) => (!best || row.version > best.version ? row : best), null);
+}
+
+/** Only proposals that change something are worth approving. */
+export function hasTimeChanges(calibration: TimeCalibration): boolean {
+  return (Object.keys(calibration.current) as (keyof TimeRates)[])
+    .some(key => calibration.proposed[key] !== calibration.current[key]);
+}
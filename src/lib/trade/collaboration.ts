@@ -0,0 +1,238 @@
+import type { ConfiguredCabinet, TradeRoom } from '@/types/trade';
+
+/**
+ * Multi-user editing of a trade job.
+ *
+ * Live edits: each planner broadcasts cabinet operations (keyed by cabinet
+ * `instanceId`) over a transport, and peers apply them to their own rooms.
+ * Presence is a heartbeat on the same transport, so the realtime channel and
+ * the in-memory stand-in used offline and in tests behave the same.
+ *
+ * Saves: a write that finds the job changed since this tab last saw it is
+ * three-way merged per cabinet instead of overwriting. When both sides changed
+ * the same cabinet differently the write is refused with StaleWriteError.
+ */
+
+export interface CollabPeer {
+  clientId: string;
+  name: string;
+  roomId: string | null;
+  /** Last heartbeat, ms since epoch (receiver's clock). */
+  seenAt: number;
+}
+
+type CabinetWire = Omit<ConfiguredCabinet, 'createdAt' | 'updatedAt'> & { createdAt: string | Date; updatedAt: string | Date };
+
+export type CollabMessage =
+  | { type: 'hello' | 'heartbeat'; clientId: string; name: string; roomId: string | null }
+  | { type: 'bye'; clientId: string }
+  | { type: 'cabinet-upsert'; clientId: string; roomId: string; cabinet: CabinetWire }
+  | { type: 'cabinet-patch'; clientId: string; roomId: string; instanceId: string; updates: Partial<CabinetWire> }
+  | { type: 'cabinet-remove'; clientId: string; roomId: string; instanceId: string };
+
+/** Distributive Omit so each message variant keeps its own fields. */
+export type CollabOperation = CollabMessage extends infer M ? (M extends CollabMessage ? Omit<M, 'clientId'> : never) : never;
+
+export interface CollabTransport {
+  send(message: CollabMessage): void;
+  /** Messages from other clients only. Returns an unsubscribe function. */
+  onMessage(handler: (message: CollabMessage) => void): () => void;
+  close(): void;
+}
+
+export const COLLAB_HEARTBEAT_MS = 15_000;
+export const COLLAB_PEER_TIMEOUT_MS = 40_000;
+
+const localHubs = new Map<string, Set<(message: CollabMessage) => void>>();
+
+/**
+ * In-memory transport: every transport opened on the same channel name in
+ * this JS context sees the others' messages. Stands in for the realtime
+ * channel offline and in tests.
+ */
+export function createLocalTransport(channel: string): CollabTransport {
+  const hub = localHubs.get(channel) ?? new Set();
+  localHubs.set(channel, hub);
+  const own = new Set<(message: CollabMessage) => void>();
+  return {
+    send(message) {
+      // Round-trip through JSON like the wire does (Dates become strings).
+      const wire = JSON.parse(JSON.stringify(message)) as CollabMessage;
+      for (const handler of [...hub]) if (!own.has(handler)) handler(wire);
+    },
+    onMessage(handler) {
+      hub.add(handler);
+      own.add(handler);
+      return () => { hub.delete(handler); own.delete(handler); };
+    },
+    close() {
+      for (const handler of own) hub.delete(handler);
+      own.clear();
+      if (hub.size === 0) localHubs.delete(channel);
+    },
+  };
+}
+
+/** Presence list after a message; stale peers drop out after COLLAB_PEER_TIMEOUT_MS. */
+export function updatePeers(peers: CollabPeer[], message: CollabMessage | null, now: number): CollabPeer[] {
+  let next = peers.filter(peer => now - peer.seenAt < COLLAB_PEER_TIMEOUT_MS);
+  if (!message) return next.length === peers.length ? peers : next;
+  if (message.type === 'bye') return next.filter(peer => peer.clientId !== message.clientId);
+  if (message.type === 'hello' || message.type === 'heartbeat') {
+    next = next.filter(peer => peer.clientId !== message.clientId);
+    return [...next, { clientId: message.clientId, name: message.name, roomId: message.roomId, seenAt: now }]
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+  // Any edit proves the sender is still here.
+  return next.map(peer => (peer.clientId === message.clientId ? { ...peer, seenAt: now } : peer));
+}
+
+function reviveCabinet(cabinet: Partial<CabinetWire>): Partial<ConfiguredCabinet> {
+  const out = { ...cabinet } as Partial<ConfiguredCabinet>;
+  if (cabinet.createdAt !== undefined) out.createdAt = new Date(cabinet.createdAt);
+  if (cabinet.updatedAt !== undefined) out.updatedAt = new Date(cabinet.updatedAt);
+  return out;
+}
+
+/** Apply a peer's cabinet operation. Unknown rooms and presence messages are no-ops. */
+export function applyCollabMessage(rooms: TradeRoom[], message: CollabMessage): TradeRoom[] {
+  if (message.type !== 'cabinet-upsert' && message.type !== 'cabinet-patch' && message.type !== 'cabinet-remove') return rooms;
+  if (!rooms.some(room => room.id === message.roomId)) return rooms;
+  return rooms.map((room) => {
+    if (room.id !== message.roomId) return room;
+    let cabinets = room.cabinets;
+    if (message.type === 'cabinet-remove') {
+      cabinets = cabinets.filter(cab => cab.instanceId !== message.instanceId);
+    } else if (message.type === 'cabinet-patch') {
+      cabinets = cabinets.map(cab => (cab.instanceId === message.instanceId ? { ...cab, ...reviveCabinet(message.updates) } : cab));
+    } else {
+      const incoming = reviveCabinet(message.cabinet) as ConfiguredCabinet;
+      cabinets = cabinets.some(cab => cab.instanceId === incoming.instanceId)
+        ? cabinets.map(cab => (cab.instanceId === incoming.instanceId ? incoming : cab))
+        : [...cabinets, incoming];
+    }
+    return cabinets === room.cabinets ? room : { ...room, cabinets };
+  });
+}
+
+// ---- three-way merge of persisted rooms ----
+
+/** JSON-shaped room as stored in design_data.tradeRooms. */
+export interface StoredRoom {
+  id: string;
+  name?: string;
+  cabinets?: Array<{ instanceId: string; cabinetNumber?: string; [key: string]: unknown }>;
+  [key: string]: unknown;
+}
+
+export interface MergeConflict {
+  roomId: string;
+  roomName: string;
+  /** Absent when the conflict is in the room's own settings. */
+  instanceId?: string;
+  cabinetNumber?: string;
+}
+
+export class StaleWriteError extends Error {
+  conflicts: MergeConflict[];
+
+  constructor(conflicts: MergeConflict[]) {
+    const labels = conflicts.map(c => c.cabinetNumber ?? `${c.roomName} settings`);
+    super(`Someone else changed ${labels.join(', ')} while you were editing`);
+    this.name = 'StaleWriteError';
+    this.conflicts = conflicts;
+  }
+}
+
+/** Key-order independent fingerprint; jsonb reorders keys, and updatedAt stamps are not edits. */
+function fingerprint(value: unknown): string {
+  if (value === undefined) return '∅';
+  return JSON.stringify(value, (key, v) => {
+    if (key === 'updatedAt') return undefined;
+    if (v && typeof v === 'object' && !Array.isArray(v)) {
+      return Object.fromEntries(Object.keys(v).sort().map(k => [k, (v as Record<string, unknown>)[k]]));
+    }
+    return v;
+  });
+}
+
+/**
+ * Per-key three-way merge. Returns merged values in "mine" order, then keys
+ * only "theirs" added; `conflict` is called for keys both sides changed
+ * differently (mine is kept in the result).
+ */
+function merge3<T>(
+  base: Map<string, T>,
+  mine: Map<string, T>,
+  theirs: Map<string, T>,
+  mergeBoth: (key: string, b: T | undefined, m: T, t: T) => T,
+  conflict: (key: string, value: T) => void,
+): T[] {
+  const keys = [...mine.keys(), ...[...theirs.keys()].filter(k => !mine.has(k))];
+  const out: T[] = [];
+  for (const key of new Set([...keys, ...base.keys()])) {
+    const b = base.get(key);
+    const m = mine.get(key);
+    const t = theirs.get(key);
+    if (fingerprint(t) === fingerprint(b)) {
+      if (m !== undefined) out.push(m);
+    } else if (fingerprint(m) === fingerprint(b)) {
+      if (t !== undefined) out.push(t);
+    } else if (m !== undefined && t !== undefined) {
+      out.push(mergeBoth(key, b, m, t));
+    } else if (m !== undefined || t !== undefined) {
+      // One side removed it, the other edited it: keep the edit, flag it.
+      const kept = (m ?? t) as T;
+      conflict(key, kept);
+      out.push(kept);
+    }
+  }
+  return out;
+}
+
+/**
+ * Merge this tab's rooms onto a job another writer changed. `base` is the
+ * tradeRooms this tab last loaded or saved, `theirs` what the server has now.
+ */
+export function mergeTradeRooms(
+  base: StoredRoom[],
+  mine: StoredRoom[],
+  theirs: StoredRoom[],
+): { rooms: StoredRoom[]; conflicts: MergeConflict[] } {
+  const conflicts: MergeConflict[] = [];
+  const byId = (rooms: StoredRoom[]) => new Map(rooms.map(room => [room.id, room]));
+  const settings = (room: StoredRoom | undefined) => {
+    if (!room) return undefined;
+    const { cabinets: _cabinets, ...rest } = room;
+    return rest;
+  };
+
+  const rooms = merge3(
+    byId(base),
+    byId(mine),
+    byId(theirs),
+    (roomId, b, m, t) => {
+      const roomName = m.name ?? t.name ?? roomId;
+      const mineSettingsChanged = fingerprint(settings(m)) !== fingerprint(settings(b));
+      const theirSettingsChanged = fingerprint(settings(t)) !== fingerprint(settings(b));
+      if (mineSettingsChanged && theirSettingsChanged && fingerprint(settings(m)) !== fingerprint(settings(t))) {
+        conflicts.push({ roomId, roomName });
+      }
+      const cabinets = merge3(
+        new Map((b?.cabinets ?? []).map(c => [c.instanceId, c])),
+        new Map((m.cabinets ?? []).map(c => [c.instanceId, c])),
+        new Map((t.cabinets ?? []).map(c => [c.instanceId, c])),
+        (instanceId, _b, mc, tc) => {
+          if (fingerprint(mc) !== fingerprint(tc)) {
+            conflicts.push({ roomId, roomName, instanceId, cabinetNumber: mc.cabinetNumber ?? tc.cabinetNumber });
+          }
+          return mc;
+        },
+        (instanceId, cabinet) => conflicts.push({ roomId, roomName, instanceId, cabinetNumber: cabinet.cabinetNumber }),
+      );
+      return { ...(mineSettingsChanged || !theirSettingsChanged ? m : t), cabinets };
+    },
+    (roomId, room) => conflicts.push({ roomId, roomName: room.name ?? roomId }),
+  );
+  return { rooms, conflicts };
+}
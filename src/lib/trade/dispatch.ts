@@ -0,0 +1,170 @@
+import { packLabelId, parsePackLabelId, parsePartLabelId, PartLabel } from '@/lib/partLabels';
+
+/**
+ * Scan-to-verify packing and dispatch, persisted on `jobs.dispatch_state`.
+ *
+ * Packing: every part label of a cabinet is scanned into its bundle, then the
+ * cabinet's pack label confirms the bundle is closed. Loading: the pack label
+ * is scanned again as the bundle goes on the truck.
+ */
+export interface DispatchState {
+  /** Part id → ISO time it was scanned into its pack. */
+  parts: Record<string, string>;
+  /** Cabinet ref (see jobCabinetRef) → pack / load times. */
+  cabinets: Record<string, { packedAt?: string; dispatchedAt?: string }>;
+  updatedAt?: string;
+}
+
+export type ScanMode = 'pack' | 'load';
+
+export type ScanOutcome =
+  | { kind: 'part'; cabinetRef: string; partName: string; cabinetComplete: boolean }
+  | { kind: 'packed'; cabinetRef: string }
+  | { kind: 'loaded'; cabinetRef: string }
+  | { kind: 'duplicate'; message: string }
+  | { kind: 'rejected'; message: string };
+
+export type CabinetDispatchStatus = 'pending' | 'in_progress' | 'complete' | 'packed' | 'dispatched';
+
+export interface CabinetDispatchSummary {
+  cabinetRef: string;
+  cabinetName: string;
+  totalParts: number;
+  scannedParts: number;
+  missing: PartLabel[];
+  status: CabinetDispatchStatus;
+  packedAt?: string;
+  dispatchedAt?: string;
+}
+
+export interface DispatchSummary {
+  cabinets: CabinetDispatchSummary[];
+  totalParts: number;
+  scannedParts: number;
+  packedCabinets: number;
+  dispatchedCabinets: number;
+}
+
+export const EMPTY_DISPATCH_STATE: DispatchState = { parts: {}, cabinets: {} };
+
+/** Read `jobs.dispatch_state`, tolerating null and hand-edited rows. */
+export function readDispatchState(value: unknown): DispatchState {
+  if (!value || typeof value !== 'object') return { parts: {}, cabinets: {} };
+  const raw = value as Partial<DispatchState>;
+  const parts: DispatchState['parts'] = {};
+  for (const [id, at] of Object.entries(raw.parts ?? {})) {
+    if (typeof at === 'string') parts[id] = at;
+  }
+  const cabinets: DispatchState['cabinets'] = {};
+  for (const [cabinetRef, entry] of Object.entries(raw.cabinets ?? {})) {
+    if (!entry || typeof entry !== 'object') continue;
+    cabinets[cabinetRef] = {
+      ...(typeof entry.packedAt === 'string' ? { packedAt: entry.packedAt } : {}),
+      ...(typeof entry.dispatchedAt === 'string' ? { dispatchedAt: entry.dispatchedAt } : {}),
+    };
+  }
+  return { parts, cabinets, ...(typeof raw.updatedAt === 'string' ? { updatedAt: raw.updatedAt } : {}) };
+}
+
+function cabinetParts(labels: PartLabel[], cabinetRef: string): PartLabel[] {
+  return labels.filter(label => label.cabinetRef === cabinetRef);
+}
+
+/**
+ * Apply one scanned code. Returns the next state (unchanged unless the scan
+ * was accepted) and what happened, for the operator's feedback line.
+ */
+export function applyScan(
+  state: DispatchState,
+  code: string,
+  labels: PartLabel[],
+  jobRef: string,
+  mode: ScanMode,
+  now = new Date().toISOString(),
+): { state: DispatchState; outcome: ScanOutcome } {
+  const scanned = code.trim().toUpperCase();
+  const reject = (message: string) => ({ state, outcome: { kind: 'rejected' as const, message } });
+
+  const pack = parsePackLabelId(scanned);
+  if (pack) {
+    if (pack.jobRef !== jobRef) return reject(`Pack label belongs to job ${pack.jobRef}, not ${jobRef}`);
+    const cabinetRef = [...new Set(labels.map(l => l.cabinetRef))]
+      .find(ref => packLabelId(jobRef, ref) === scanned);
+    if (!cabinetRef) return reject(`No cabinet ${pack.cabinetRef} in this job`);
+    const entry = state.cabinets[cabinetRef] ?? {};
+
+    if (mode === 'pack') {
+      if (entry.packedAt) {
+        return { state, outcome: { kind: 'duplicate', message: `${cabinetRef} is already packed` } };
+      }
+      const missing = cabinetParts(labels, cabinetRef).filter(l => !state.parts[l.partId]);
+      if (missing.length > 0) {
+        return reject(`${cabinetRef} still has ${missing.length} part${missing.length !== 1 ? 's' : ''} to scan`);
+      }
+      return {
+        state: { ...state, cabinets: { ...state.cabinets, [cabinetRef]: { ...entry, packedAt: now } }, updatedAt: now },
+        outcome: { kind: 'packed', cabinetRef },
+      };
+    }
+
+    if (!entry.packedAt) return reject(`${cabinetRef} has not been packed yet`);
+    if (entry.dispatchedAt) {
+      return { state, outcome: { kind: 'duplicate', message: `${cabinetRef} is already loaded` } };
+    }
+    return {
+      state: { ...state, cabinets: { ...state.cabinets, [cabinetRef]: { ...entry, dispatchedAt: now } }, updatedAt: now },
+      outcome: { kind: 'loaded', cabinetRef },
+    };
+  }
+
+  const part = parsePartLabelId(scanned);
+  if (!part) return reject(`"${code.trim()}" is not a part or pack label`);
+  if (part.jobRef !== jobRef) return reject(`Part belongs to job ${part.jobRef}, not ${jobRef}`);
+  if (mode === 'load') return reject('Loading takes pack labels - scan the cabinet pack, not its parts');
+  const label = labels.find(l => l.partId === scanned);
+  if (!label) return reject(`No part ${scanned} in this job - was the design changed after labels were printed?`);
+  if (state.parts[label.partId]) {
+    return { state, outcome: { kind: 'duplicate', message: `${label.partName} (${label.cabinetRef}) already scanned` } };
+  }
+
+  const parts = { ...state.parts, [label.partId]: now };
+  const cabinetComplete = cabinetParts(labels, label.cabinetRef).every(l => parts[l.partId]);
+  return {
+    state: { ...state, parts, updatedAt: now },
+    outcome: { kind: 'part', cabinetRef: label.cabinetRef, partName: label.partName, cabinetComplete },
+  };
+}
+
+/** Per-cabinet progress for the dispatch station and job detail. */
+export function summarizeDispatch(labels: PartLabel[], state: DispatchState): DispatchSummary {
+  const cabinetRefs = [...new Set(labels.map(l => l.cabinetRef))];
+  const cabinets = cabinetRefs.map((cabinetRef): CabinetDispatchSummary => {
+    const parts = cabinetParts(labels, cabinetRef);
+    const missing = parts.filter(l => !state.parts[l.partId]);
+    const entry = state.cabinets[cabinetRef] ?? {};
+    const scannedParts = parts.length - missing.length;
+    const status: CabinetDispatchStatus = entry.dispatchedAt
+      ? 'dispatched'
+      : entry.packedAt
+        ? 'packed'
+        : missing.length === 0
+          ? 'complete'
+          : scannedParts > 0 ? 'in_progress' : 'pending';
+    return {
+      cabinetRef,
+      cabinetName: parts[0]?.cabinetName ?? '',
+      totalParts: parts.length,
+      scannedParts,
+      missing,
+      status,
+      ...entry,
+    };
+  });
+  return {
+    cabinets,
+    totalParts: labels.length,
+    scannedParts: labels.filter(l => state.parts[l.partId]).length,
+    packedCabinets: cabinets.filter(c => c.status === 'packed' || c.status === 'dispatched').length,
+    dispatchedCabinets: cabinets.filter(c => c.status === 'dispatched').length,
+  };
+}
@@ -0,0 +1,424 @@
+import { DEFAULT_TIME_RATES, TimeRates } from '@/lib/pricing/timeModel';
+import { PRODUCTION_STAGES, ProductionStage, StageHours } from './productionSchedule';
+
+/**
+ * Quoted vs actual job margins (table `job_actuals`).
+ *
+ * The quote side is read from the per-room quote snapshots in design_data:
+ * cost by category, sell price ex GST and build hours by stage. Actuals are
+ * what the job really cost: supplier invoice totals per category and the
+ * labour hours each stage took, costed at the time model's machine and
+ * labour rates.
+ *
+ * Actuals usually arrive a piece at a time. Until every quoted category has
+ * an invoice total and every quoted stage has hours, the job's actuals are
+ * partial: a missing figure would otherwise count as $0 and flatter the
+ * margin, so partial jobs stay out of the monthly trend and the cabinet-type
+ * hours, and the stage trend only takes the stages that were entered.
+ *
+ * Actuals are only captured per job, so the estimate-error trends by cabinet
+ * type and by board material share each job's error out over its cabinets in
+ * proportion to their quoted hours or board cost. Across enough jobs with
+ * different cabinet mixes the groups separate; a single job says nothing
+ * about one type versus another.
+ */
+
+export type ActualCostCategory = 'materials' | 'edging' | 'hardware' | 'benchtop' | 'appliances' | 'other';
+
+export const ACTUAL_COST_CATEGORIES: ActualCostCategory[] = ['materials', 'edging', 'hardware', 'benchtop', 'appliances', 'other'];
+
+export const ACTUAL_COST_CATEGORY_LABELS: Record<ActualCostCategory, string> = {
+  materials: 'Board',
+  edging: 'Edge tape',
+  hardware: 'Hardware',
+  benchtop: 'Benchtops',
+  appliances: 'Appliances',
+  other: 'Other (freight, sundries)',
+};
+
+export const PRODUCTION_STAGE_LABELS: Record<ProductionStage, string> = { cut: 'Cutting', edge: 'Edging', assembly: 'Assembly' };
+
+export type CategoryTotals = Record<ActualCostCategory, number>;
+
+export interface JobActualsRow {
+  job_id: string;
+  /** Supplier invoice totals ex GST per category. */
+  invoice_totals: Partial<CategoryTotals>;
+  /** Labour hours actually spent per production stage. */
+  labour_hours: Partial<StageHours>;
+  /** Whole sheets actually cut, by board material id. */
+  sheets_used: Record<string, number>;
+  notes: string | null;
+  updated_at: string;
+}
+
+export type CabinetCategory = 'Base' | 'Wall' | 'Tall' | 'Appliance';
+
+/** One priced cabinet, as far as the error trends need it. */
+export interface QuotedCabinet {
+  category: CabinetCategory;
+  hours: StageHours;
+  /** Quoted board cost by material name. */
+  boardCost: Record<string, number>;
+}
+
+/** One board material across the job, as quoted. */
+export interface QuotedBoard {
+  materialId: string;
+  materialName: string;
+  /** Part area in m². */
+  partArea: number;
+  /** Area of one sheet in m². */
+  sheetArea: number;
+  /** Yield factor the quote was priced with. */
+  yieldFactor: number;
+}
+
+export interface QuotedJobCost {
+  /** Quoted supply cost per category; `other` is never quoted. */
+  categories: CategoryTotals;
+  /** Everything in the quoted cost that is not a supply category. */
+  labourCost: number;
+  cost: number;
+  sellExGst: number;
+  hours: StageHours;
+  cabinets: QuotedCabinet[];
+  boards: QuotedBoard[];
+  /** Rooms in the job that have never been priced. */
+  unpricedRooms: number;
+  /** Earliest capture time of the room snapshots; '' when none are priced. */
+  quotedAt: string;
+}
+
+export interface JobMargin {
+  quotedCost: number;
+  actualCost: number;
+  sellExGst: number;
+  quotedMargin: number;
+  actualMargin: number;
+  /** Margins as a fraction of the sell price; null with no sell price. */
+  quotedMarginPct: number | null;
+  actualMarginPct: number | null;
+  /** Actual minus quoted, per category. */
+  categoryVariance: CategoryTotals;
+  /** Actual minus quoted hours, per stage. */
+  hoursVariance: StageHours;
+  actualLabourCost: number;
+  /** Quoted categories and stages with no actual entered yet. */
+  missingActuals: Array<ActualCostCategory | ProductionStage>;
+  /** False while anything is missing: actual cost and margin are then partial. */
+  actualsComplete: boolean;
+}
+
+export interface EstimateError {
+  key: string;
+  jobs: number;
+  quoted: number;
+  actual: number;
+  /** (actual − quoted) / quoted; null when nothing was quoted. */
+  error: number | null;
+}
+
+export interface MarginJobInput {
+  id: string;
+  label: string;
+  quoted: QuotedJobCost;
+  actuals: JobActualsRow;
+}
+
+export interface MarginReport {
+  jobs: Array<MarginJobInput & { margin: JobMargin }>;
+  /** Build-hour error per stage. */
+  byStage: EstimateError[];
+  /** Build-hour error per cabinet type. */
+  byCabinetType: EstimateError[];
+  /** Board cost error per material. */
+  byMaterial: EstimateError[];
+  /** Cost and hour error by month the actuals were last updated (YYYY-MM), complete jobs only. */
+  byMonth: Array<{ month: string; jobs: number; costError: number | null; hoursError: number | null }>;
+}
+
+/** Ignore actuals below this many dollars or hours when building trends. */
+const MIN_SIGNAL = 0.01;
+
+const round = (n: number) => Math.round(n * 100) / 100;
+const ratio = (n: number) => Math.round(n * 1000) / 1000;
+const num = (value: unknown) => (Number.isFinite(Number(value)) ? Number(value) : 0);
+const emptyCategories = (): CategoryTotals => ({ materials: 0, edging: 0, hardware: 0, benchtop: 0, appliances: 0, other: 0 });
+const emptyHours = (): StageHours => ({ cut: 0, edge: 0, assembly: 0 });
+const sumHours = (hours: StageHours) => PRODUCTION_STAGES.reduce((sum, stage) => sum + hours[stage], 0);
+const errorOf = (quoted: number, actual: number) => (quoted > MIN_SIGNAL ? ratio((actual - quoted) / quoted) : null);
+
+/** The parts of a persisted design_data blob the margin report reads. */
+interface MarginDesignData {
+  tradeRooms?: Array<{ id: string; cabinets?: Array<{ instanceId?: string; category?: string }> }>;
+  quoteSnapshotsByRoom?: Record<string, {
+    capturedAt?: string;
+    bomSummary?: {
+      grandTotal?: Record<string, unknown>;
+      cabinets?: Array<{
+        cabinetId?: string;
+        buildHours?: Partial<StageHours>;
+        sheets?: Array<{
+          materialId?: string;
+          materialName?: string;
+          totalMaterialCost?: number;
+          totalPartArea?: number;
+          sheetArea?: number;
+          yieldFactor?: number;
+        }>;
+      }>;
+    } | null;
+  } | undefined>;
+}
+
+function cabinetCategory(value: string | undefined): CabinetCategory {
+  return value === 'Wall' || value === 'Tall' || value === 'Appliance' ? value : 'Base';
+}
+
+/** Quoted cost, sell price and build hours from the job's room snapshots. */
+export function quotedJobCost(designData: unknown): QuotedJobCost {
+  const data = (designData ?? {}) as MarginDesignData;
+  const out: QuotedJobCost = {
+    categories: emptyCategories(),
+    labourCost: 0,
+    cost: 0,
+    sellExGst: 0,
+    hours: emptyHours(),
+    cabinets: [],
+    boards: [],
+    unpricedRooms: 0,
+    quotedAt: '',
+  };
+  const boards = new Map<string, QuotedBoard>();
+  for (const room of data.tradeRooms ?? []) {
+    const snapshot = data.quoteSnapshotsByRoom?.[room.id];
+    const summary = snapshot?.bomSummary;
+    const grand = summary?.grandTotal;
+    if (!grand) {
+      out.unpricedRooms += 1;
+      continue;
+    }
+    if (snapshot.capturedAt && (!out.quotedAt || snapshot.capturedAt < out.quotedAt)) out.quotedAt = snapshot.capturedAt;
+    out.categories.materials += num(grand.materials);
+    out.categories.edging += num(grand.edging);
+    out.categories.hardware += num(grand.hardware);
+    out.categories.benchtop += num(grand.benchtop);
+    out.categories.appliances += num(grand.appliances);
+    out.cost += num(grand.cost);
+    out.sellExGst += num(grand.subtotalExGst);
+
+    const categories = new Map((room.cabinets ?? []).map(c => [c.instanceId, c.category]));
+    for (const cab of summary.cabinets ?? []) {
+      const hours = emptyHours();
+      for (const stage of PRODUCTION_STAGES) {
+        hours[stage] = num(cab.buildHours?.[stage]);
+        out.hours[stage] += hours[stage];
+      }
+      const boardCost: Record<string, number> = {};
+      for (const sheet of cab.sheets ?? []) {
+        const name = sheet.materialName || 'Unknown board';
+        boardCost[name] = (boardCost[name] ?? 0) + num(sheet.totalMaterialCost);
+        if (!sheet.materialId) continue;
+        const board = boards.get(sheet.materialId) ?? {
+          materialId: sheet.materialId,
+          materialName: name,
+          partArea: 0,
+          sheetArea: num(sheet.sheetArea),
+          yieldFactor: num(sheet.yieldFactor),
+        };
+        board.partArea += num(sheet.totalPartArea);
+        boards.set(sheet.materialId, board);
+      }
+      out.cabinets.push({ category: cabinetCategory(categories.get(cab.cabinetId)), hours, boardCost });
+    }
+  }
+  out.boards = [...boards.values()].map(board => ({ ...board, partArea: Math.round(board.partArea * 1000) / 1000 }));
+  const supply = Object.values(out.categories).reduce((sum, value) => sum + value, 0);
+  out.labourCost = round(Math.max(0, out.cost - supply));
+  for (const key of Object.keys(out.categories) as ActualCostCategory[]) out.categories[key] = round(out.categories[key]);
+  for (const stage of PRODUCTION_STAGES) out.hours[stage] = round(out.hours[stage]);
+  out.cost = round(out.cost);
+  out.sellExGst = round(out.sellExGst);
+  return out;
+}
+
+/** Actual labour cost: cutting and edging at the machine rate, assembly at the labour rate. */
+export function actualLabourCost(hours: Partial<StageHours>, rates: TimeRates = DEFAULT_TIME_RATES): number {
+  return round((num(hours.cut) + num(hours.edge)) * rates.machineRate + num(hours.assembly) * rates.labourRate);
+}
+
+/** What a partial job is still waiting on, e.g. "Benchtops invoice, Assembly hours". */
+export function describeMissingActuals(missing: JobMargin['missingActuals']): string {
+  return missing
+    .map(key => (key in PRODUCTION_STAGE_LABELS
+      ? `${PRODUCTION_STAGE_LABELS[key as ProductionStage]} hours`
+      : `${ACTUAL_COST_CATEGORY_LABELS[key as ActualCostCategory]} invoice`))
+    .join(', ');
+}
+
+/** Quoted against actual cost and margin for one job. */
+export function jobMargin(quoted: QuotedJobCost, actuals: JobActualsRow, rates: TimeRates = DEFAULT_TIME_RATES): JobMargin {
+  const categoryVariance = emptyCategories();
+  let invoiced = 0;
+  for (const key of ACTUAL_COST_CATEGORIES) {
+    const actual = num(actuals.invoice_totals[key]);
+    invoiced += actual;
+    categoryVariance[key] = round(actual - quoted.categories[key]);
+  }
+  const hoursVariance = emptyHours();
+  for (const stage of PRODUCTION_STAGES) hoursVariance[stage] = round(num(actuals.labour_hours[stage]) - quoted.hours[stage]);
+  const missingActuals = [
+    ...ACTUAL_COST_CATEGORIES.filter(key => quoted.categories[key] > MIN_SIGNAL && actuals.invoice_totals[key] === undefined),
+    ...PRODUCTION_STAGES.filter(stage => quoted.hours[stage] > MIN_SIGNAL && actuals.labour_hours[stage] === undefined),
+  ];
+
+  const labour = actualLabourCost(actuals.labour_hours, rates);
+  const actualCost = round(invoiced + labour);
+  const quotedMargin = round(quoted.sellExGst - quoted.cost);
+  const actualMargin = round(quoted.sellExGst - actualCost);
+  const pct = (margin: number) => (quoted.sellExGst > 0 ? ratio(margin / quoted.sellExGst) : null);
+  return {
+    quotedCost: quoted.cost,
+    actualCost,
+    sellExGst: quoted.sellExGst,
+    quotedMargin,
+    actualMargin,
+    quotedMarginPct: pct(quotedMargin),
+    actualMarginPct: pct(actualMargin),
+    categoryVariance,
+    hoursVariance,
+    actualLabourCost: labour,
+    missingActuals,
+    actualsComplete: missingActuals.length === 0,
+  };
+}
+
+class ErrorTally {
+  private groups = new Map<string, { jobs: Set<string>; quoted: number; actual: number }>();
+
+  add(key: string, jobId: string, quoted: number, actual: number) {
+    const group = this.groups.get(key) ?? { jobs: new Set<string>(), quoted: 0, actual: 0 };
+    group.jobs.add(jobId);
+    group.quoted += quoted;
+    group.actual += actual;
+    this.groups.set(key, group);
+  }
+
+  rows(order?: readonly string[]): EstimateError[] {
+    const rows = [...this.groups].map(([key, g]) => ({
+      key,
+      jobs: g.jobs.size,
+      quoted: round(g.quoted),
+      actual: round(g.actual),
+      error: errorOf(g.quoted, g.actual),
+    }));
+    return order
+      ? rows.sort((a, b) => order.indexOf(a.key) - order.indexOf(b.key))
+      : rows.sort((a, b) => b.quoted - a.quoted);
+  }
+}
+
+const CABINET_ORDER: readonly CabinetCategory[] = ['Base', 'Wall', 'Tall', 'Appliance'];
+
+/** Margins per job plus estimate-error trends across every job with actuals (see the partial-actuals note above). */
+export function buildMarginReport(inputs: MarginJobInput[], rates: TimeRates = DEFAULT_TIME_RATES): MarginReport {
+  const byStage = new ErrorTally();
+  const byCabinetType = new ErrorTally();
+  const byMaterial = new ErrorTally();
+  const byMonth = new Map<string, { jobs: number; quotedCost: number; actualCost: number; quotedHours: number; actualHours: number }>();
+
+  const jobs = inputs.map(input => {
+    const { id, quoted, actuals } = input;
+    const margin = jobMargin(quoted, actuals, rates);
+    const actualHours = emptyHours();
+    for (const stage of PRODUCTION_STAGES) actualHours[stage] = num(actuals.labour_hours[stage]);
+    const hoursRecorded = sumHours(actualHours) > MIN_SIGNAL;
+    const hoursComplete = PRODUCTION_STAGES.every(stage => !margin.missingActuals.includes(stage));
+
+    if (hoursRecorded) {
+      // A stage with no hours entered yet is left out rather than read as 0.
+      for (const stage of PRODUCTION_STAGES) {
+        if (actuals.labour_hours[stage] !== undefined) byStage.add(stage, id, quoted.hours[stage], actualHours[stage]);
+      }
+    }
+    if (hoursRecorded && hoursComplete) {
+      // Each stage's actual hours are shared over the cabinets by their quoted hours in it.
+      for (const cab of quoted.cabinets) {
+        let cabActual = 0;
+        for (const stage of PRODUCTION_STAGES) {
+          if (quoted.hours[stage] > 0) cabActual += actualHours[stage] * (cab.hours[stage] / quoted.hours[stage]);
+        }
+        byCabinetType.add(cab.category, id, sumHours(cab.hours), cabActual);
+      }
+    }
+
+    const boardInvoiced = num(actuals.invoice_totals.materials);
+    const boardQuoted = quoted.cabinets.reduce((sum, cab) => sum + Object.values(cab.boardCost).reduce((a, b) => a + b, 0), 0);
+    if (boardInvoiced > MIN_SIGNAL && boardQuoted > MIN_SIGNAL) {
+      const perMaterial = new Map<string, number>();
+      for (const cab of quoted.cabinets) {
+        for (const [name, cost] of Object.entries(cab.boardCost)) perMaterial.set(name, (perMaterial.get(name) ?? 0) + cost);
+      }
+      for (const [name, cost] of perMaterial) byMaterial.add(name, id, cost, boardInvoiced * (cost / boardQuoted));
+    }
+
+    const month = (actuals.updated_at ?? '').slice(0, 7);
+    if (month && margin.actualsComplete) {
+      const entry = byMonth.get(month) ?? { jobs: 0, quotedCost: 0, actualCost: 0, quotedHours: 0, actualHours: 0 };
+      entry.jobs += 1;
+      entry.quotedCost += margin.quotedCost;
+      entry.actualCost += margin.actualCost;
+      if (hoursRecorded) {
+        entry.quotedHours += sumHours(quoted.hours);
+        entry.actualHours += sumHours(actualHours);
+      }
+      byMonth.set(month, entry);
+    }
+    return { ...input, margin };
+  });
+
+  return {
+    jobs,
+    byStage: byStage.rows(PRODUCTION_STAGES),
+    byCabinetType: byCabinetType.rows(CABINET_ORDER),
+    byMaterial: byMaterial.rows(),
+    byMonth: [...byMonth]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([month, m]) => ({
+        month,
+        jobs: m.jobs,
+        costError: errorOf(m.quotedCost, m.actualCost),
+        hoursError: errorOf(m.quotedHours, m.actualHours),
+      })),
+  };
+}
+
+const isEntered = (value: unknown) => value != null && value !== '' && Number.isFinite(Number(value));
+
+/** Parse a job_actuals row (or the capture form's strings), dropping blanks and anything that is not a number. */
+export function readJobActuals(row: Record<string, unknown> | null | undefined, jobId: string): JobActualsRow {
+  const invoices = (row?.invoice_totals ?? {}) as Record<string, unknown>;
+  const hours = (row?.labour_hours ?? {}) as Record<string, unknown>;
+  const sheets = (row?.sheets_used ?? {}) as Record<string, unknown>;
+  const invoice_totals: Partial<CategoryTotals> = {};
+  for (const key of ACTUAL_COST_CATEGORIES) {
+    if (isEntered(invoices[key])) invoice_totals[key] = Number(invoices[key]);
+  }
+  const labour_hours: Partial<StageHours> = {};
+  for (const stage of PRODUCTION_STAGES) {
+    if (isEntered(hours[stage])) labour_hours[stage] = Number(hours[stage]);
+  }
+  const sheets_used: Record<string, number> = {};
+  for (const [materialId, count] of Object.entries(sheets)) {
+    if (isEntered(count)) sheets_used[materialId] = Number(count);
+  }
+  return {
+    job_id: jobId,
+    invoice_totals,
+    labour_hours,
+    sheets_used,
+    notes: typeof row?.notes === 'string' ? row.notes : null,
+    updated_at: typeof row?.updated_at === 'string' ? row.updated_at : '',
+  };
+}
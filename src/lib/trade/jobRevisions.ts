@@ -0,0 +1,225 @@
+import type { CabinetMaterials, QuoteSnapshot } from '@/types/trade';
+
+/**
+ * Immutable job revisions (table `job_revisions`).
+ *
+ * A revision is a frozen copy of `jobs.design_data` taken at an explicit save
+ * or status change, with the quote snapshot and pricing hash it was priced
+ * with. Apart from `recordJobRevision`, which writes the next revision, this
+ * module is pure: it derives the stored pricing columns from a design_data
+ * blob and compares two revisions cabinet by cabinet.
+ */
+
+export interface JobRevisionRow {
+  id: string;
+  job_id: string;
+  revision_number: number;
+  status: string;
+  reason: string | null;
+  design_data: RevisionDesignData;
+  quote_snapshot: QuoteSnapshot | null;
+  pricing_hash: string | null;
+  total: number | null;
+  created_by: string | null;
+  created_by_name: string | null;
+  created_at: string;
+}
+
+/** The parts of a persisted design_data blob a revision reads. */
+export interface RevisionDesignData {
+  tradeRooms?: Array<{
+    id: string;
+    name: string;
+    cabinets: Array<{
+      instanceId: string;
+      cabinetNumber: string;
+      productName: string;
+      dimensions: { width: number; height: number; depth: number };
+      materials: CabinetMaterials;
+    }>;
+  }>;
+  quoteSnapshot?: QuoteSnapshot;
+  quoteSnapshotsByRoom?: Record<string, QuoteSnapshot>;
+  jobTotals?: { total?: number };
+  [key: string]: unknown;
+}
+
+export type RevisionCabinetKind = 'added' | 'removed' | 'changed' | 'repriced';
+
+export interface RevisionCabinetChange {
+  key: string;
+  kind: RevisionCabinetKind;
+  roomName: string;
+  cabinetNumber: string;
+  productName: string;
+  /** Human-readable field changes, e.g. "Width 600 → 650". */
+  changes: string[];
+  priceFrom: number | null;
+  priceTo: number | null;
+  priceDelta: number | null;
+}
+
+export interface RevisionDiff {
+  cabinets: RevisionCabinetChange[];
+  unchanged: number;
+  totalFrom: number | null;
+  totalTo: number | null;
+  totalDelta: number | null;
+}
+
+const MATERIAL_LABELS: Record<keyof CabinetMaterials, string> = {
+  exteriorFinish: 'Exterior finish',
+  carcaseFinish: 'Carcase finish',
+  doorStyle: 'Door style',
+  edgeBanding: 'Edge banding',
+};
+
+/** Quote snapshot, pricing hash and total stored alongside a revision. */
+export function revisionPricing(designData: RevisionDesignData): Pick<JobRevisionRow, 'quote_snapshot' | 'pricing_hash' | 'total'> {
+  const snapshot = designData.quoteSnapshot ?? null;
+  const hash = snapshot?.pricingHash
+    ?? Object.values(designData.quoteSnapshotsByRoom ?? {}).find(s => s?.pricingHash)?.pricingHash
+    ?? null;
+  const total = designData.jobTotals?.total;
+  return {
+    quote_snapshot: snapshot,
+    pricing_hash: hash,
+    total: typeof total === 'number' && Number.isFinite(total) ? total : null,
+  };
+}
+
+function cabinetPrices(designData: RevisionDesignData): Map<string, number> {
+  const prices = new Map<string, number>();
+  for (const room of designData.tradeRooms ?? []) {
+    const snapshot = designData.quoteSnapshotsByRoom?.[room.id]
+      ?? (designData.quoteSnapshot?.roomId === room.id ? designData.quoteSnapshot : undefined);
+    for (const cabinet of room.cabinets ?? []) {
+      const price = snapshot?.perCabinetSell?.[cabinet.instanceId] ?? snapshot?.perCabinetTotals?.[cabinet.instanceId];
+      if (typeof price === 'number' && Number.isFinite(price)) prices.set(`${room.id}:${cabinet.instanceId}`, price);
+    }
+  }
+  return prices;
+}
+
+type Flat = { roomName: string; cabinet: NonNullable<RevisionDesignData['tradeRooms']>[number]['cabinets'][number] };
+
+function flatten(designData: RevisionDesignData): Map<string, Flat> {
+  const out = new Map<string, Flat>();
+  for (const room of designData.tradeRooms ?? []) {
+    for (const cabinet of room.cabinets ?? []) out.set(`${room.id}:${cabinet.instanceId}`, { roomName: room.name, cabinet });
+  }
+  return out;
+}
+
+const round = (n: number) => Math.round(n * 100) / 100;
+const delta = (from: number | null, to: number | null) => (from === null && to === null ? null : round((to ?? 0) - (from ?? 0)));
+
+/**
+ * Compare two revisions (older first). Cabinets match on room and instance id;
+ * a changed cabinet lists product swaps, resizes and material changes, and a
+ * cabinet whose only difference is its price is reported as repriced.
+ */
+export function diffRevisions(from: RevisionDesignData, to: RevisionDesignData): RevisionDiff {
+  const before = flatten(from);
+  const after = flatten(to);
+  const pricesBefore = cabinetPrices(from);
+  const pricesAfter = cabinetPrices(to);
+  const cabinets: RevisionCabinetChange[] = [];
+  let unchanged = 0;
+
+  const entry = (key: string, kind: RevisionCabinetKind, flat: Flat, changes: string[] = []): RevisionCabinetChange => {
+    const priceFrom = kind === 'added' ? null : pricesBefore.get(key) ?? null;
+    const priceTo = kind === 'removed' ? null : pricesAfter.get(key) ?? null;
+    return {
+      key,
+      kind,
+      roomName: flat.roomName,
+      cabinetNumber: flat.cabinet.cabinetNumber,
+      productName: flat.cabinet.productName,
+      changes,
+      priceFrom,
+      priceTo,
+      priceDelta: delta(priceFrom, priceTo),
+    };
+  };
+
+  for (const [key, was] of before) {
+    const now = after.get(key);
+    if (!now) {
+      cabinets.push(entry(key, 'removed', was));
+      continue;
+    }
+    const a = was.cabinet;
+    const b = now.cabinet;
+    const changes: string[] = [];
+    if (a.productName !== b.productName) changes.push(`Product ${a.productName} → ${b.productName}`);
+    for (const dim of ['width', 'height', 'depth'] as const) {
+      if (a.dimensions?.[dim] !== b.dimensions?.[dim]) {
+        changes.push(`${dim[0].toUpperCase()}${dim.slice(1)} ${a.dimensions?.[dim]} → ${b.dimensions?.[dim]}`);
+      }
+    }
+    for (const field of Object.keys(MATERIAL_LABELS) as Array<keyof CabinetMaterials>) {
+      if ((a.materials?.[field] ?? '') !== (b.materials?.[field] ?? '')) {
+        changes.push(`${MATERIAL_LABELS[field]} ${a.materials?.[field] || '—'} → ${b.materials?.[field] || '—'}`);
+      }
+    }
+    const item = entry(key, changes.length > 0 ? 'changed' : 'repriced', now, changes);
+    if (changes.length > 0 || (item.priceDelta !== null && item.priceDelta !== 0)) cabinets.push(item);
+    else unchanged += 1;
+  }
+  for (const [key, flat] of after) {
+    if (!before.has(key)) cabinets.push(entry(key, 'added', flat));
+  }
+
+  const totalFrom = revisionPricing(from).total;
+  const totalTo = revisionPricing(to).total;
+  return { cabinets, unchanged, totalFrom, totalTo, totalDelta: delta(totalFrom, totalTo) };
+}
+
+/**
+ * Freeze the job's current design_data as the next revision. Reads the row
+ * fresh so the copy matches what was just saved.
+ */
+export async function recordJobRevision(jobId: string, reason: string): Promise<void> {
+  try {
+    // Loaded on call so the pure helpers here stay importable without a client.
+    const { supabase } = await import('@/integrations/supabase/client');
+    const { data: job, error } = await supabase
+      .from('jobs')
+      .select('status, design_data')
+      .eq('id', jobId)
+      .maybeSingle();
+    if (error || !job) throw error ?? new Error('Job not found');
+
+    const { data: { user } } = await supabase.auth.getUser();
+    const { data: profile } = user
+      ? await supabase.from('profiles').select('full_name').eq('id', user.id).maybeSingle()
+      : { data: null };
+    const designData = (job.design_data || {}) as RevisionDesignData;
+
+    // Two tabs saving at once can race for the same number; retry once.
+    for (let attempt = 0; attempt < 2; attempt++) {
+      const { data: latest } = await (supabase as any)
+        .from('job_revisions')
+        .select('revision_number')
+        .eq('job_id', jobId)
+        .order('revision_number', { ascending: false })
+        .limit(1);
+      const { error: insertError } = await (supabase as any).from('job_revisions').insert({
+        job_id: jobId,
+        revision_number: (latest?.[0]?.revision_number ?? 0) + 1,
+        status: job.status,
+        reason,
+        design_data: designData,
+        ...revisionPricing(designData),
+        created_by: user?.id ?? null,
+        created_by_name: profile?.full_name ?? user?.email ?? null,
+      });
+      if (!insertError) return;
+      if (insertError.code !== '23505') throw insertError;
+    }
+  } catch (err) {
+    // Revisions are history, not the save itself; never fail the caller.
+    console.error('Failed to record job revision:', err);
+  }
+}
@@ -0,0 +1,544 @@
+/**
+ * microvellumImport — the return leg of the Microvellum round trip.
+ *
+ * `export-microvellum-xml` sends a job's trade rooms to Microvellum. When the
+ * drafter resizes, swaps, adds or deletes products there, the project XML they
+ * send back is parsed here and compared with `design_data.tradeRooms`.
+ * Products match by planner cabinet number (the exporter's "Planner C01"
+ * comment), then by Microvellum link id within the same room. Staff accept
+ * entries one by one; nothing is written until they do.
+ *
+ * Pure: parsing, diffing and applying never touch the network.
+ */
+
+import type { CabinetConstruction, ConfiguredCabinet, TradeRoom } from '@/types/trade';
+import { categoryForDefinition } from './cabinetPlacedItem';
+
+/** One <Product> from a Microvellum project XML. */
+export interface MvProduct {
+  name: string;
+  linkId?: string;
+  itemNumber?: string;
+  comment?: string;
+  /** Planner cabinet number from the exporter's comment, when present. */
+  cabinetNumber?: string;
+  location?: string;
+  width: number;
+  height: number;
+  depth: number;
+  angle: number;
+  xOrigin: number;
+  yOrigin: number;
+  zOrigin: number;
+  prompts: Record<string, string>;
+}
+
+/** The microvellum_products columns the diff needs. */
+export interface MvCatalogProduct {
+  id: string;
+  microvellum_link_id: string | null;
+  name: string;
+  category?: string | null;
+}
+
+export type MvChangeField =
+  | 'product'
+  | 'width'
+  | 'height'
+  | 'depth'
+  | 'position'
+  | keyof Pick<CabinetConstruction,
+    'toeKickHeight' | 'secondWidth' | 'cabinetDepthLeft' | 'cabinetDepthRight' | 'leftFillerWidth' | 'rightFillerWidth' | 'hingeSide'>;
+
+export interface MvFieldChange {
+  field: MvChangeField;
+  label: string;
+  from: string;
+  to: string;
+}
+
+interface MvEntryBase {
+  /** Stable key for accept checkboxes. */
+  id: string;
+  roomId: string;
+  roomName: string;
+}
+
+export type MvDiffEntry =
+  | (MvEntryBase & { kind: 'changed'; instanceId: string; cabinetNumber: string; productName: string; changes: MvFieldChange[]; product: MvProduct })
+  | (MvEntryBase & { kind: 'added'; productName: string; product: MvProduct })
+  | (MvEntryBase & { kind: 'removed'; instanceId: string; cabinetNumber: string; productName: string });
+
+export interface MvDiff {
+  entries: MvDiffEntry[];
+  /** Products and cabinets that matched with nothing to change. */
+  unchanged: number;
+  warnings: string[];
+}
+
+export class MicrovellumXmlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MicrovellumXmlError';
+  }
+}
+
+// ── XML ─────────────────────────────────────────────────────────────────────
+// A small element-tree reader: Microvellum files are plain elements, attributes
+// and text, and this also runs in the node smoke tests where DOMParser is absent.
+
+interface XmlElement {
+  name: string;
+  attrs: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function decode(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, code: string) => {
+    if (code[0] === '#') {
+      const n = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(n) ? String.fromCodePoint(n) : match;
+    }
+    return ENTITIES[code] ?? match;
+  });
+}
+
+function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: '#document', attrs: {}, children: [], text: '' };
+  const stack: XmlElement[] = [root];
+  const token = /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<\/([^\s>]+)\s*>|<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+  const attr = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let m: RegExpExecArray | null;
+  while ((m = token.exec(xml))) {
+    const top = stack[stack.length - 1];
+    if (m[1] !== undefined) top.text += m[1];
+    else if (m[2]) {
+      if (stack.length === 1 || top.name !== m[2]) throw new MicrovellumXmlError(`Unexpected </${m[2]}> in XML`);
+      stack.pop();
+    } else if (m[3]) {
+      const el: XmlElement = { name: m[3], attrs: {}, children: [], text: '' };
+      for (const a of (m[4] ?? '').matchAll(attr)) el.attrs[a[1]] = decode(a[2] ?? a[3] ?? '');
+      top.children.push(el);
+      if (!m[5]) stack.push(el);
+    } else if (m[6] !== undefined) top.text += decode(m[6]);
+  }
+  if (stack.length > 1) throw new MicrovellumXmlError(`XML ends inside <${stack[stack.length - 1].name}>`);
+  return root;
+}
+
+const child = (el: XmlElement, name: string) => el.children.find(c => c.name.toLowerCase() === name.toLowerCase());
+
+/** A field may be an attribute (`Width="600"`) or a child element (`<Width>600</Width>`). */
+function field(el: XmlElement, name: string): string | undefined {
+  const attrKey = Object.keys(el.attrs).find(k => k.toLowerCase() === name.toLowerCase());
+  const value = attrKey !== undefined ? el.attrs[attrKey] : child(el, name)?.text;
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : undefined;
+}
+
+function numberField(el: XmlElement, name: string): number {
+  const n = Number(field(el, name));
+  return Number.isFinite(n) ? n : 0;
+}
+
+/** Products directly under Project/Products, or anywhere when the file is laid out differently. */
+function productElements(root: XmlElement): XmlElement[] {
+  const found: XmlElement[] = [];
+  const walk = (el: XmlElement) => {
+    for (const c of el.children) {
+      // Products never nest; their subassemblies are not products of the job.
+      if (c.name === 'Product') found.push(c);
+      else walk(c);
+    }
+  };
+  walk(root);
+  return found;
+}
+
+/** Parse a Microvellum project / job XML into its products. */
+export function parseMicrovellumXml(xml: string): MvProduct[] {
+  const root = parseXml(xml);
+  if (!root.children.some(c => c.name === 'Root' || c.name === 'Project')) {
+    throw new MicrovellumXmlError('Not a Microvellum project XML (no <Root> or <Project> element)');
+  }
+  return productElements(root).map((el): MvProduct => {
+    const prompts: Record<string, string> = {};
+    for (const prompt of child(el, 'Prompts')?.children ?? []) {
+      const name = prompt.attrs.Name;
+      if (name) prompts[name] = (field(prompt, 'Value') ?? prompt.text).trim();
+    }
+    const comment = field(el, 'Comment');
+    const cabinetNumber = /\bPlanner\s+(C\d+)\b/i.exec(comment ?? '')?.[1]?.toUpperCase();
+    return {
+      name: field(el, 'Name') ?? '',
+      ...(field(el, 'LinkID') ? { linkId: field(el, 'LinkID') } : {}),
+      ...(field(el, 'ItemNumber') ? { itemNumber: field(el, 'ItemNumber') } : {}),
+      ...(comment ? { comment } : {}),
+      ...(cabinetNumber ? { cabinetNumber } : {}),
+      ...(field(el, 'LinkIDLocation') ? { location: field(el, 'LinkIDLocation') } : {}),
+      width: numberField(el, 'Width'),
+      height: numberField(el, 'Height'),
+      depth: numberField(el, 'Depth'),
+      angle: numberField(el, 'Angle'),
+      xOrigin: numberField(el, 'XOrigin'),
+      yOrigin: numberField(el, 'YOrigin'),
+      zOrigin: numberField(el, 'ZOrigin'),
+      prompts,
+    };
+  });
+}
+
+// ── Geometry (inverse of the exporter) ─────────────────────────────────────
+
+function isCorner(definitionId: string): boolean {
+  return /corner|pie[-_ ]?cut|blind/i.test(definitionId);
+}
+
+const rightAngleOf = (angle: number) => (Math.round((((angle % 360) + 360) % 360) / 90) * 90) % 360;
+
+/** Planner centre position from a product's back-left origin, as the exporter computed it. */
+function plannerPosition(product: MvProduct): { x: number; y: number; z: number; rotation: number } {
+  const { width: w, depth: d, xOrigin: x0, yOrigin: y0 } = product;
+  const rotation = rightAngleOf(product.angle);
+  const [x, z] = rotation === 90
+    ? [x0 - d / 2, y0 + w / 2]
+    : rotation === 180
+      ? [x0 - w / 2, y0 - d / 2]
+      : rotation === 270
+        ? [x0 + d / 2, y0 - w / 2]
+        : [x0 + w / 2, y0 + d / 2];
+  return { x, y: product.zOrigin, z, rotation };
+}
+
+// ── Diff ────────────────────────────────────────────────────────────────────
+
+// The exporter rounds to whole millimetres, and rounds origins after halving widths.
+const differs = (a: number, b: number, tolerance = 0.5) => Math.abs(a - b) >= tolerance;
+const mm = (n: number | undefined) => (n === undefined ? '-' : `${Math.round(n)}`);
+const promptNumber = (product: MvProduct, name: string): number | undefined => {
+  const raw = product.prompts[name];
+  if (raw === undefined || raw === '') return undefined;
+  const n = Number(raw);
+  return Number.isFinite(n) ? n : undefined;
+};
+
+function catalogLookup(catalog: MvCatalogProduct[]) {
+  const byKey = new Map<string, MvCatalogProduct>();
+  const byName = new Map<string, MvCatalogProduct>();
+  for (const p of catalog) {
+    byKey.set(p.id, p);
+    if (p.microvellum_link_id) byKey.set(p.microvellum_link_id, p);
+    byName.set(p.name.trim().toLowerCase(), p);
+  }
+  return {
+    /** Link id the planner cabinet was exported as. */
+    cabinetLink: (cabinet: ConfiguredCabinet) =>
+      byKey.get(cabinet.definitionId)?.microvellum_link_id ?? cabinet.definitionId,
+    /** Library name the exporter sent for this cabinet. */
+    exportedName: (cabinet: ConfiguredCabinet) => byKey.get(cabinet.definitionId)?.name ?? cabinet.productName,
+    /** Link id of a returned product: its own LinkID when it is a catalogue id, else by library name. */
+    productLink: (product: MvProduct) =>
+      (product.linkId && byKey.get(product.linkId)?.microvellum_link_id)
+      ?? byName.get(product.name.trim().toLowerCase())?.microvellum_link_id
+      ?? null,
+    productByName: (name: string) => byName.get(name.trim().toLowerCase()),
+  };
+}
+
+type Catalog = ReturnType<typeof catalogLookup>;
+
+function fieldChanges(cabinet: ConfiguredCabinet, product: MvProduct, room: TradeRoom, catalog: Catalog): MvFieldChange[] {
+  const changes: MvFieldChange[] = [];
+  const construction = cabinet.construction ?? {};
+  const corner = isCorner(cabinet.definitionId);
+  const push = (field: MvChangeField, label: string, from: string, to: string) => changes.push({ field, label, from, to });
+
+  // A renamed product is a swap unless both names resolve to the same link id.
+  const productLink = catalog.productLink(product);
+  const sameName = product.name.trim().toLowerCase() === catalog.exportedName(cabinet).trim().toLowerCase();
+  if (product.name && !sameName && (!productLink || productLink !== catalog.cabinetLink(cabinet))) {
+    push('product', 'Product', cabinet.productName, product.name);
+  }
+
+  if (differs(cabinet.dimensions.width, product.width)) push('width', 'Width', mm(cabinet.dimensions.width), mm(product.width));
+  if (differs(cabinet.dimensions.height, product.height)) push('height', 'Height', mm(cabinet.dimensions.height), mm(product.height));
+  // Corner products carry the second wall run in Depth; the carcase depth stays in the prompts.
+  if (corner) {
+    const second = construction.secondWidth ?? cabinet.dimensions.width;
+    const returned = promptNumber(product, 'Cabinet_Width_Right') ?? product.depth;
+    if (differs(second, returned)) push('secondWidth', 'Second wall run', mm(second), mm(returned));
+  } else if (differs(cabinet.dimensions.depth, product.depth)) {
+    push('depth', 'Depth', mm(cabinet.dimensions.depth), mm(product.depth));
+  }
+
+  const numericPrompts: Array<[string, MvChangeField & keyof CabinetConstruction, string, number, boolean]> = [
+    ['Toe_Kick_Height', 'toeKickHeight', 'Toe kick height', construction.toeKickHeight ?? room.dimensions?.toeKickHeight ?? 135, true],
+    ['Cabinet_Depth_Left', 'cabinetDepthLeft', 'Cabinet depth left', construction.cabinetDepthLeft ?? cabinet.dimensions.depth, corner],
+    ['Cabinet_Depth_Right', 'cabinetDepthRight', 'Cabinet depth right', construction.cabinetDepthRight ?? cabinet.dimensions.depth, corner],
+    ['Left_Filler_Width', 'leftFillerWidth', 'Left filler', construction.leftFillerWidth ?? 0, true],
+    ['Right_Filler_Width', 'rightFillerWidth', 'Right filler', construction.rightFillerWidth ?? 0, true],
+  ];
+  for (const [prompt, key, label, current, applies] of numericPrompts) {
+    const value = promptNumber(product, prompt);
+    // The exporter omits zero fillers, so a missing filler prompt reads as none.
+    const returned = value ?? (/Filler/.test(prompt) ? 0 : undefined);
+    if (applies && returned !== undefined && differs(current, returned)) push(key, label, mm(current), mm(returned));
+  }
+
+  const swing = product.prompts.Face_Options;
+  if (swing) {
+    const side = /right/i.test(swing) ? 'Right' : /left/i.test(swing) ? 'Left' : undefined;
+    if (side && side !== construction.hingeSide) push('hingeSide', 'Hinge side', construction.hingeSide ?? '-', side);
+  }
+
+  const current = cabinet.position;
+  const next = plannerPosition(product);
+  if (!current || differs(current.x, next.x, 1) || differs(current.z, next.z, 1) || differs(current.y, next.y, 1) || rightAngleOf(current.rotation) !== next.rotation) {
+    const show = (p?: { x: number; z: number; rotation: number }) => (p ? `${Math.round(p.x)}, ${Math.round(p.z)} @ ${p.rotation % 360}°` : '-');
+    push('position', 'Position', show(current), show(next));
+  }
+  return changes;
+}
+
+function roomFor(product: MvProduct, rooms: TradeRoom[]): TradeRoom | undefined {
+  const byName = rooms.find(r => r.name === product.location);
+  if (byName) return byName;
+  // Exporter item numbers are "<room>.<cabinet>", 1-based.
+  const roomIndex = Number(product.itemNumber?.split('.')[0]) - 1;
+  return rooms[roomIndex] ?? (rooms.length === 1 ? rooms[0] : undefined);
+}
+
+/** Compare a returned Microvellum project with the job's trade rooms. */
+export function diffMicrovellumProducts(
+  rooms: TradeRoom[],
+  products: MvProduct[],
+  catalogRows: MvCatalogProduct[] = [],
+): MvDiff {
+  const catalog = catalogLookup(catalogRows);
+  const entries: MvDiffEntry[] = [];
+  const warnings: string[] = [];
+  let unchanged = 0;
+
+  const cabinets = rooms.flatMap(room => room.cabinets.map(cabinet => ({ room, cabinet })));
+  const matched = new Map<MvProduct, { room: TradeRoom; cabinet: ConfiguredCabinet }>();
+  const taken = new Set<string>();
+
+  // 1. Planner cabinet number carried through the exporter's comment. Every
+  // room numbers from C01, so the number only means something within its room.
+  for (const product of products) {
+    if (!product.cabinetNumber) continue;
+    const room = roomFor(product, rooms);
+    if (!room) continue;
+    const hit = cabinets.find(c => c.room === room
+      && c.cabinet.cabinetNumber.toUpperCase() === product.cabinetNumber && !taken.has(c.cabinet.instanceId));
+    if (hit) {
+      matched.set(product, hit);
+      taken.add(hit.cabinet.instanceId);
+    }
+  }
+  // 2. Same Microvellum link id in the same room, in item order.
+  for (const product of products) {
+    if (matched.has(product)) continue;
+    const link = catalog.productLink(product);
+    const room = roomFor(product, rooms);
+    if (!link || !room) continue;
+    const hit = cabinets.find(c => c.room === room && !taken.has(c.cabinet.instanceId) && catalog.cabinetLink(c.cabinet) === link);
+    if (hit) {
+      matched.set(product, hit);
+      taken.add(hit.cabinet.instanceId);
+    }
+  }
+
+  products.forEach((product, index) => {
+    const hit = matched.get(product);
+    if (hit) {
+      const changes = fieldChanges(hit.cabinet, product, hit.room, catalog);
+      if (changes.length === 0) {
+        unchanged += 1;
+        return;
+      }
+      entries.push({
+        id: `changed:${hit.cabinet.instanceId}`,
+        kind: 'changed',
+        roomId: hit.room.id,
+        roomName: hit.room.name,
+        instanceId: hit.cabinet.instanceId,
+        cabinetNumber: hit.cabinet.cabinetNumber,
+        productName: hit.cabinet.productName,
+        changes,
+        product,
+      });
+      return;
+    }
+    const room = roomFor(product, rooms) ?? rooms[0];
+    if (!room) return;
+    if (!roomFor(product, rooms)) {
+      warnings.push(`${product.name || 'Product'} (${product.itemNumber ?? `#${index + 1}`}) names no room in this job — it will be added to ${room.name}.`);
+    }
+    if (!catalog.productLink(product)) {
+      warnings.push(`${product.name || 'Product'} (${product.itemNumber ?? `#${index + 1}`}) is not in the Microvellum catalogue; it will price as a generic cabinet.`);
+    }
+    entries.push({
+      id: `added:${product.itemNumber ?? index}:${index}`,
+      kind: 'added',
+      roomId: room.id,
+      roomName: room.name,
+      productName: product.name,
+      product,
+    });
+  });
+
+  for (const { room, cabinet } of cabinets) {
+    if (taken.has(cabinet.instanceId)) continue;
+    entries.push({
+      id: `removed:${cabinet.instanceId}`,
+      kind: 'removed',
+      roomId: room.id,
+      roomName: room.name,
+      instanceId: cabinet.instanceId,
+      cabinetNumber: cabinet.cabinetNumber,
+      productName: cabinet.productName,
+    });
+  }
+
+  return { entries, unchanged, warnings };
+}
+
+// ── Apply ──────────────────────────────────────────────────────────────────
+
+export interface ApplyMicrovellumOptions {
+  catalog?: MvCatalogProduct[];
+  now?: Date;
+  idFactory?: () => string;
+}
+
+function nextCabinetNumber(rooms: TradeRoom[]): string {
+  const used = rooms.flatMap(r => r.cabinets.map(c => Number(/^C(\d+)$/i.exec(c.cabinetNumber)?.[1] ?? 0)));
+  return `C${String(Math.max(0, ...used) + 1).padStart(2, '0')}`;
+}
+
+function applyChanges(cabinet: ConfiguredCabinet, entry: Extract<MvDiffEntry, { kind: 'changed' }>, catalog: Catalog, now: Date): ConfiguredCabinet {
+  const { product } = entry;
+  const next: ConfiguredCabinet = {
+    ...cabinet,
+    dimensions: { ...cabinet.dimensions },
+    construction: { ...(cabinet.construction ?? {}) },
+    updatedAt: now,
+  };
+  const construction = next.construction!;
+  for (const change of entry.changes) {
+    switch (change.field) {
+      case 'product': {
+        const row = catalog.productByName(product.name);
+        next.productName = product.name;
+        if (row) next.definitionId = row.microvellum_link_id ?? row.id;
+        break;
+      }
+      case 'width': next.dimensions.width = product.width; break;
+      case 'height': next.dimensions.height = product.height; break;
+      case 'depth': next.dimensions.depth = product.depth; break;
+      case 'position': next.position = plannerPosition(product); break;
+      case 'hingeSide': construction.hingeSide = change.to === 'Right' ? 'Right' : 'Left'; break;
+      default: construction[change.field] = Number(change.to);
+    }
+  }
+  if (Object.keys(construction).length === 0) delete next.construction;
+  return next;
+}
+
+function addedCabinet(
+  entry: Extract<MvDiffEntry, { kind: 'added' }>,
+  room: TradeRoom,
+  cabinetNumber: string,
+  catalog: Catalog,
+  now: Date,
+  id: string,
+): ConfiguredCabinet {
+  const { product } = entry;
+  const row = catalog.productByName(product.name);
+  const definitionId = row?.microvellum_link_id ?? row?.id ?? product.linkId ?? product.name;
+  const rowCategory = row?.category && /^(Base|Wall|Tall|Appliance)$/i.test(row.category)
+    ? (row.category[0].toUpperCase() + row.category.slice(1).toLowerCase()) as ConfiguredCabinet['category']
+    : undefined;
+  const category = rowCategory
+    ?? (/\b(upper|wall)\b/i.test(product.name) ? 'Wall' : /\btall|pantry\b/i.test(product.name) ? 'Tall' : categoryForDefinition(definitionId));
+  const corner = isCorner(definitionId) || isCorner(product.name);
+  const filler = (name: string) => promptNumber(product, name);
+  const construction: CabinetConstruction = {
+    ...(corner ? { secondWidth: promptNumber(product, 'Cabinet_Width_Right') ?? product.depth } : {}),
+    ...(filler('Left_Filler_Width') ? { leftFillerWidth: filler('Left_Filler_Width') } : {}),
+    ...(filler('Right_Filler_Width') ? { rightFillerWidth: filler('Right_Filler_Width') } : {}),
+    ...(/right/i.test(product.prompts.Face_Options ?? '') ? { hingeSide: 'Right' as const } : /left/i.test(product.prompts.Face_Options ?? '') ? { hingeSide: 'Left' as const } : {}),
+  };
+  const depth = corner ? promptNumber(product, 'Cabinet_Depth_Left') ?? 575 : product.depth;
+  return {
+    instanceId: id,
+    definitionId,
+    cabinetNumber,
+    productName: product.name,
+    category,
+    dimensions: { width: product.width, height: product.height, depth },
+    materials: {
+      exteriorFinish: room.materialDefaults.exteriorFinish,
+      carcaseFinish: room.materialDefaults.carcaseFinish,
+      doorStyle: room.materialDefaults.doorStyle,
+      edgeBanding: room.materialDefaults.edgeBanding,
+    },
+    hardware: {
+      handleType: room.hardwareDefaults.handleType,
+      handleColor: room.hardwareDefaults.handleColor,
+      hingeType: room.hardwareDefaults.hingeType,
+      drawerType: room.hardwareDefaults.drawerType,
+      softClose: room.hardwareDefaults.softClose,
+    },
+    accessories: {
+      shelfCount: category === 'Wall' ? 2 : category === 'Tall' ? 4 : 1,
+      adjustableShelves: true,
+      dividers: false,
+      softCloseUpgrade: false,
+      specialFittings: [],
+    },
+    ...(Object.keys(construction).length ? { construction } : {}),
+    position: plannerPosition(product),
+    isPlaced: true,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/** Trade rooms with the accepted diff entries applied. Unaccepted entries are left alone. */
+export function applyMicrovellumDiff(
+  rooms: TradeRoom[],
+  entries: MvDiffEntry[],
+  acceptedIds: ReadonlySet<string>,
+  options: ApplyMicrovellumOptions = {},
+): TradeRoom[] {
+  const now = options.now ?? new Date();
+  const idFactory = options.idFactory ?? (() => crypto.randomUUID());
+  const catalog = catalogLookup(options.catalog ?? []);
+  const accepted = entries.filter(e => acceptedIds.has(e.id));
+  if (accepted.length === 0) return rooms;
+
+  let next = rooms.map(room => ({ ...room, cabinets: [...room.cabinets] }));
+  for (const entry of accepted) {
+    next = next.map(room => {
+      if (room.id !== entry.roomId) return room;
+      if (entry.kind === 'removed') {
+        return { ...room, cabinets: room.cabinets.filter(c => c.instanceId !== entry.instanceId), updatedAt: now };
+      }
+      if (entry.kind === 'changed') {
+        return {
+          ...room,
+          cabinets: room.cabinets.map(c => (c.instanceId === entry.instanceId ? applyChanges(c, entry, catalog, now) : c)),
+          updatedAt: now,
+        };
+      }
+      const cabinet = addedCabinet(entry, room, nextCabinetNumber(next), catalog, now, idFactory());
+      return { ...room, cabinets: [...room.cabinets, cabinet], updatedAt: now };
+    });
+  }
+  return next;
+}
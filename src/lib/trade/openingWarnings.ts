@@ -15,11 +15,13 @@
  * Plan coordinates match PlannerScene/planViewPdf: x∈[0,width] from the W
  * wall, z∈[0,depth] from the N wall. Opening offsets run from the wall's
  * left end AS VIEWED FROM INSIDE THE ROOM (same mapping as
- * PlannerScene.OpeningFootprints).
+ * PlannerScene.OpeningFootprints). Polygon rooms measure offsets along the
+ * wall's segment from its start corner, as UnifiedScene draws them.
  */
 
-import type { GlobalDimensions, Opening } from '@/types';
+import type { GlobalDimensions, Opening, RoomConfig } from '@/types';
 import type { ConfiguredCabinet } from '@/types/trade';
+import { polygonFromRoom, segmentForWall, type RoomPolygon } from '@/lib/layout/polygon';
 
 export interface PlacementWarning {
   cabinetId: string;
@@ -52,6 +54,32 @@ function openingStrip(o: Opening, roomW: number, roomD: number): Rect {
   }
 }
 
+/**
+ * Overlap of a footprint with an opening's approach strip, along the wall and
+ * into the room. Polygon walls may run at any angle, so the footprint is
+ * measured in the wall's own frame; a wall the outline lacks overlaps nothing.
+ */
+function stripOverlap(o: Opening, foot: Rect, roomW: number, roomD: number, polygon?: RoomPolygon): [number, number] {
+  if (!polygon) {
+    const strip = openingStrip(o, roomW, roomD);
+    return [overlapMm(foot.x0, foot.x1, strip.x0, strip.x1), overlapMm(foot.z0, foot.z1, strip.z0, strip.z1)];
+  }
+  const seg = segmentForWall(polygon, o.wall);
+  if (!seg) return [0, 0];
+  const dx = (seg.b.x - seg.a.x) / seg.length;
+  const dz = (seg.b.z - seg.a.z) / seg.length;
+  const corners = [
+    { x: foot.x0, z: foot.z0 }, { x: foot.x1, z: foot.z0 },
+    { x: foot.x1, z: foot.z1 }, { x: foot.x0, z: foot.z1 },
+  ];
+  const along = corners.map(p => (p.x - seg.a.x) * dx + (p.z - seg.a.z) * dz);
+  const into = corners.map(p => (p.x - seg.a.x) * seg.normal.x + (p.z - seg.a.z) * seg.normal.z);
+  return [
+    overlapMm(Math.min(...along), Math.max(...along), o.offsetMm, o.offsetMm + o.widthMm),
+    overlapMm(Math.min(...into), Math.max(...into), 0, STRIP_DEPTH_MM),
+  ];
+}
+
 function cabinetFootprint(cab: ConfiguredCabinet): Rect | null {
   if (!cab.isPlaced || !cab.position) return null;
   const rot = ((Math.round(cab.position.rotation) % 360) + 360) % 360;
@@ -97,13 +125,22 @@ const OPENING_LABEL: Record<Opening['type'], string> = {
   window: 'the window',
 };
 
+const WALL_SIDE: Partial<Record<Opening['wall'], string>> = { N: 'back', E: 'right', S: 'front', W: 'left' };
+
+/** "the back wall", or "wall 3" for a polygon room's P2. */
+const wallPhrase = (wall: Opening['wall']) =>
+  WALL_SIDE[wall] ? `the ${WALL_SIDE[wall]} wall` : `wall ${Number(wall.slice(1)) + 1}`;
+
 export function computeOpeningWarnings(
-  room: { width: number; depth: number; openings?: Opening[] },
+  room: Pick<RoomConfig, 'width' | 'depth' | 'openings'> & Partial<Pick<RoomConfig, 'shape' | 'polygon'>>,
   dims: GlobalDimensions,
   cabinets: ConfiguredCabinet[],
 ): PlacementWarning[] {
   const openings = room.openings ?? [];
   if (!openings.length) return [];
+  const polygon = room.shape === 'Polygon' && room.polygon
+    ? polygonFromRoom({ height: 0, cutoutWidth: 0, cutoutDepth: 0, ...room, shape: 'Polygon' })
+    : undefined;
 
   const warnings: PlacementWarning[] = [];
   for (const cab of cabinets) {
@@ -112,9 +149,7 @@ export function computeOpeningWarnings(
     const [cabLo, cabHi] = cabinetVerticalRange(cab, dims);
 
     for (const o of openings) {
-      const strip = openingStrip(o, room.width, room.depth);
-      const hx = overlapMm(foot.x0, foot.x1, strip.x0, strip.x1);
-      const hz = overlapMm(foot.z0, foot.z1, strip.z0, strip.z1);
+      const [hx, hz] = stripOverlap(o, foot, room.width, room.depth, polygon);
       if (hx < H_EPS_MM || hz < H_EPS_MM) continue;
 
       if (o.type === 'window') {
@@ -129,9 +164,7 @@ export function computeOpeningWarnings(
         openingType: o.type,
         message: `${cab.cabinetNumber || cab.productName} ${
           o.type === 'window' ? 'sits across' : 'blocks'
-        } ${OPENING_LABEL[o.type]} on the ${
-          { N: 'back', E: 'right', S: 'front', W: 'left' }[o.wall]
-        } wall`,
+        } ${OPENING_LABEL[o.type]} on ${wallPhrase(o.wall)}`,
       });
     }
   }
@@ -0,0 +1,280 @@
+import { DEFAULT_GLOBAL_DIMENSIONS } from '@/constants';
+import { generateQuoteBOM } from '@/lib/pricing/bomGenerator';
+import type { CommercialOptions, PricingData } from '@/lib/pricing/types';
+import type { RoomHardwareDefaults, TradeRoom } from '@/types/trade';
+import { toHardwareOptions, toPlacedItems } from './cabinetPlacedItem';
+
+/**
+ * What-if pricing: a set of proposed edits to material_pricing,
+ * hardware_pricing and labor_rates is applied to an in-memory copy of the
+ * pricing data, and a sample of saved jobs is re-priced with and without it.
+ *
+ * Both sides are re-run through generateQuoteBOM with today's data rather
+ * than compared to the stored quote snapshots, so the difference is the edit
+ * set alone and not whatever else has drifted since the jobs were quoted.
+ * Each job keeps its owner's commercial layer, so margin moves the way the
+ * client would see it.
+ *
+ * Publishing hands the edits to publish_price_revision_v1, which writes them
+ * to their tables and records them as one revision (table `price_revisions`)
+ * with a price_history row per value, all in one transaction.
+ */
+
+export type PriceTable = 'material_pricing' | 'hardware_pricing' | 'labor_rates';
+
+export const PRICE_TABLES: PriceTable[] = ['material_pricing', 'hardware_pricing', 'labor_rates'];
+
+export const PRICE_TABLE_LABELS: Record<PriceTable, string> = {
+  material_pricing: 'Materials',
+  hardware_pricing: 'Hardware',
+  labor_rates: 'Labour rates',
+};
+
+/** The cost fields the BOM engine reads from each table. */
+export const EDITABLE_PRICE_FIELDS: Record<PriceTable, string[]> = {
+  material_pricing: ['area_cost', 'area_handling_cost', 'area_assembly_cost', 'expected_yield_factor', 'minimum_job_area'],
+  hardware_pricing: ['unit_cost', 'handling_cost', 'machining_cost', 'assembly_cost'],
+  labor_rates: ['rate'],
+};
+
+export const PRICE_FIELD_LABELS: Record<string, string> = {
+  area_cost: 'Cost / m²',
+  area_handling_cost: 'Handling / m²',
+  area_assembly_cost: 'Assembly / m²',
+  expected_yield_factor: 'Yield factor',
+  minimum_job_area: 'Minimum job m²',
+  unit_cost: 'Unit cost',
+  handling_cost: 'Handling',
+  machining_cost: 'Machining',
+  assembly_cost: 'Assembly',
+  rate: 'Rate',
+};
+
+/** Saved jobs re-priced per simulation; each job is two full BOM runs. */
+export const SCENARIO_SAMPLE_SIZE = 25;
+
+const DATA_KEY: Record<PriceTable, 'materials' | 'hardware' | 'labor'> = {
+  material_pricing: 'materials',
+  hardware_pricing: 'hardware',
+  labor_rates: 'labor',
+};
+
+export interface PriceEdit {
+  table: PriceTable;
+  rowId: string;
+  /**
+   * Quotes price materials from the supplier bundle overlaid with DB costs,
+   * matched by id or item code, so a material edit matches on either.
+   */
+  itemCode?: string | null;
+  itemName: string;
+  field: string;
+  from: number | null;
+  to: number;
+}
+
+export interface ScenarioJob {
+  id: string;
+  label: string;
+  rooms: TradeRoom[];
+  commercial: CommercialOptions;
+}
+
+export interface JobPrice {
+  /** Cost ex commercial layer, ex GST. */
+  cost: number;
+  sellExGst: number;
+  total: number;
+  /** Sell ex GST less cost. */
+  margin: number;
+  marginPct: number | null;
+}
+
+export interface ScenarioJobResult {
+  id: string;
+  label: string;
+  before: JobPrice;
+  after: JobPrice;
+  totalDelta: number;
+  totalDeltaPct: number | null;
+  marginDelta: number;
+}
+
+export interface ScenarioResult {
+  jobs: ScenarioJobResult[];
+  /** Jobs that could not be priced, with the reason. */
+  skipped: Array<{ id: string; label: string; reason: string }>;
+  before: JobPrice;
+  after: JobPrice;
+  totalDelta: number;
+  totalDeltaPct: number | null;
+  marginDelta: number;
+  /** Margin percentage points, after less before. */
+  marginPctDelta: number | null;
+}
+
+/** The summary stored on a published revision. */
+export interface RevisionImpact {
+  jobs: number;
+  totalBefore: number;
+  totalAfter: number;
+  totalDeltaPct: number | null;
+  marginPctBefore: number | null;
+  marginPctAfter: number | null;
+}
+
+const round = (n: number) => Math.round(n * 100) / 100;
+const ratio = (n: number) => Math.round(n * 1000) / 1000;
+const sameTarget = (a: PriceEdit, b: PriceEdit) => a.table === b.table && a.rowId === b.rowId && a.field === b.field;
+
+function jobPrice(cost: number, sellExGst: number, total: number): JobPrice {
+  const margin = sellExGst - cost;
+  return {
+    cost: round(cost),
+    sellExGst: round(sellExGst),
+    total: round(total),
+    margin: round(margin),
+    marginPct: sellExGst > 0 ? ratio(margin / sellExGst) : null,
+  };
+}
+
+/**
+ * Adds an edit to the set, replacing any earlier edit of the same value.
+ * Setting a value back to what it was removes it.
+ */
+export function withPriceEdit(edits: PriceEdit[], edit: PriceEdit): PriceEdit[] {
+  const existing = edits.find(e => sameTarget(e, edit));
+  const from = existing ? existing.from : edit.from;
+  const rest = edits.filter(e => !sameTarget(e, edit));
+  return from === edit.to ? rest : [...rest, { ...edit, from }];
+}
+
+/** A copy of the pricing data with the edits applied; the input is untouched. */
+export function applyPriceEdits(data: PricingData, edits: PriceEdit[]): PricingData {
+  const out = { ...data };
+  for (const table of PRICE_TABLES) {
+    const tableEdits = edits.filter(e => e.table === table);
+    if (tableEdits.length === 0) continue;
+    const key = DATA_KEY[table];
+    const rows = data[key] as unknown as Array<Record<string, unknown>>;
+    (out as Record<string, unknown>)[key] = rows.map(row => {
+      const matching = tableEdits.filter(e =>
+        row.id === e.rowId || (table === 'material_pricing' && !!e.itemCode && row.item_code === e.itemCode));
+      if (matching.length === 0) return row;
+      return { ...row, ...Object.fromEntries(matching.map(e => [e.field, e.to])) };
+    });
+  }
+  return out;
+}
+
+/** Trade rooms stored on a job's design_data. */
+export function tradeRoomsOf(designData: unknown): TradeRoom[] {
+  const rooms = (designData as { tradeRooms?: unknown } | null)?.tradeRooms;
+  return Array.isArray(rooms) ? (rooms as TradeRoom[]) : [];
+}
+
+/** Prices every room of a job the way the trade planner does. Null when nothing is priceable. */
+export function priceScenarioJob(job: Pick<ScenarioJob, 'rooms' | 'commercial'>, pricingData: PricingData): JobPrice | null {
+  let cost = 0;
+  let sellExGst = 0;
+  let total = 0;
+  let priced = 0;
+  for (const room of job.rooms) {
+    if (!room.cabinets?.length) continue;
+    const hardware = { supplyHardware: true, adjustableLegs: true, ...room.hardwareDefaults } as RoomHardwareDefaults;
+    const quote = generateQuoteBOM(
+      toPlacedItems(room.cabinets, room.materialDefaults),
+      { ...DEFAULT_GLOBAL_DIMENSIONS, ...room.dimensions },
+      toHardwareOptions(hardware),
+      pricingData,
+      job.commercial,
+      {
+        benchtopPricingId: room.materialDefaults?.benchtopPricingId,
+        benchtopFinishId: room.materialDefaults?.benchtopFinishId,
+      },
+    );
+    cost += quote.grandTotal.cost;
+    sellExGst += quote.grandTotal.subtotalExGst;
+    total += quote.grandTotal.total;
+    priced += 1;
+  }
+  return priced > 0 ? jobPrice(cost, sellExGst, total) : null;
+}
+
+/** Re-prices each job with the current data and with the edits applied. */
+export function simulatePriceEdits(jobs: ScenarioJob[], baseline: PricingData, edits: PriceEdit[]): ScenarioResult {
+  const edited = applyPriceEdits(baseline, edits);
+  const results: ScenarioJobResult[] = [];
+  const skipped: ScenarioResult['skipped'] = [];
+  for (const job of jobs) {
+    let before: JobPrice | null;
+    let after: JobPrice | null;
+    try {
+      before = priceScenarioJob(job, baseline);
+      after = priceScenarioJob(job, edited);
+    } catch (error) {
+      skipped.push({ id: job.id, label: job.label, reason: error instanceof Error ? error.message : 'Pricing failed' });
+      continue;
+    }
+    if (!before || !after) {
+      skipped.push({ id: job.id, label: job.label, reason: 'No cabinets to price' });
+      continue;
+    }
+    const totalDelta = round(after.total - before.total);
+    results.push({
+      id: job.id,
+      label: job.label,
+      before,
+      after,
+      totalDelta,
+      totalDeltaPct: before.total > 0 ? ratio(totalDelta / before.total) : null,
+      marginDelta: round(after.margin - before.margin),
+    });
+  }
+
+  const sum = (side: 'before' | 'after') => jobPrice(
+    results.reduce((s, r) => s + r[side].cost, 0),
+    results.reduce((s, r) => s + r[side].sellExGst, 0),
+    results.reduce((s, r) => s + r[side].total, 0),
+  );
+  const before = sum('before');
+  const after = sum('after');
+  const totalDelta = round(after.total - before.total);
+  return {
+    jobs: results,
+    skipped,
+    before,
+    after,
+    totalDelta,
+    totalDeltaPct: before.total > 0 ? ratio(totalDelta / before.total) : null,
+    marginDelta: round(after.margin - before.margin),
+    marginPctDelta: before.marginPct != null && after.marginPct != null ? ratio(after.marginPct - before.marginPct) : null,
+  };
+}
+
+/**
+ * The edits as publish_price_revision_v1 takes them. The function writes the
+ * values and their price_history rows in one transaction, refusing the whole
+ * revision if any row no longer holds `from`.
+ */
+export function revisionEdits(edits: PriceEdit[]) {
+  return edits.map(edit => ({
+    table: edit.table,
+    rowId: edit.rowId,
+    field: edit.field,
+    itemName: edit.itemName,
+    from: edit.from,
+    to: edit.to,
+  }));
+}
+
+export function revisionImpact(result: ScenarioResult): RevisionImpact {
+  return {
+    jobs: result.jobs.length,
+    totalBefore: result.before.total,
+    totalAfter: result.after.total,
+    totalDeltaPct: result.totalDeltaPct,
+    marginPctBefore: result.before.marginPct,
+    marginPctAfter: result.after.marginPct,
+  };
+}
@@ -0,0 +1,255 @@
+import { DEFAULT_TIME_RATES } from '@/lib/pricing/timeModel';
+
+/**
+ * Capacity-based production schedule for approved and in-production jobs.
+ *
+ * Each job goes through cut → edge → assembly using the build hours the time
+ * model priced it with (summed from the per-room quote snapshots). Stages are
+ * slotted forward, a day at a time, into each stage's free daily capacity, in
+ * priority order: jobs already in production first, then by promised
+ * completion date, then oldest first. A stage may start the day the previous
+ * one finishes.
+ *
+ * A job's existing `completion_date` is a promise. Work that does not fit
+ * before it is piled onto the promised day anyway, so the board shows that day
+ * as overloaded rather than quietly slipping the date. Dates are plain
+ * YYYY-MM-DD strings, like the `jobs.completion_date` column.
+ */
+
+export type ProductionStage = 'cut' | 'edge' | 'assembly';
+
+export const PRODUCTION_STAGES: ProductionStage[] = ['cut', 'edge', 'assembly'];
+
+export type StageHours = Record<ProductionStage, number>;
+
+export interface ProductionCapacity {
+  /** Hours per working day for each stage. */
+  cut: number;
+  edge: number;
+  assembly: number;
+  /** ISO weekdays the shop works, 1 = Monday … 7 = Sunday. */
+  workDays: number[];
+}
+
+export const DEFAULT_PRODUCTION_CAPACITY: ProductionCapacity = {
+  cut: 8,
+  edge: 8,
+  assembly: 16,
+  workDays: [1, 2, 3, 4, 5],
+};
+
+export interface JobBuildHours extends StageHours {
+  /** Cabinets with no priced build hours, counted at a flat estimate. */
+  estimatedCabinets: number;
+}
+
+export interface ScheduleJobInput {
+  id: string;
+  label: string;
+  status: string;
+  hours: StageHours;
+  /** Current jobs.completion_date, if one has been promised. */
+  promisedDate: string | null;
+  /** Tie-break for equal priority: older jobs go first. */
+  queuedAt: string;
+}
+
+export interface ScheduledStage {
+  stage: ProductionStage;
+  start: string;
+  end: string;
+  /** Hours booked per date. */
+  days: Record<string, number>;
+}
+
+export interface ScheduledJob {
+  job: ScheduleJobInput;
+  stages: ScheduledStage[];
+  /** Last day of assembly; null for a job with no build hours. */
+  completion: string | null;
+  /** Some work was piled beyond capacity to hold the promised date. */
+  forced: boolean;
+}
+
+export interface ScheduleDay {
+  date: string;
+  load: StageHours;
+  overloaded: ProductionStage[];
+}
+
+export interface ProductionSchedule {
+  jobs: ScheduledJob[];
+  days: ScheduleDay[];
+}
+
+/** The parts of a persisted design_data blob the schedule reads. */
+interface ScheduleDesignData {
+  tradeRooms?: Array<{ id: string; cabinets?: Array<{ category?: string }> }>;
+  quoteSnapshotsByRoom?: Record<string, { bomSummary?: { cabinets?: Array<{ buildHours?: Partial<StageHours> }> } | null } | undefined>;
+}
+
+/** Stop slotting a stage this many working days out; the rest is piled. */
+const MAX_HORIZON_DAYS = 366;
+const EPSILON = 0.001;
+const round = (n: number) => Math.round(n * 100) / 100;
+
+const STATUS_RANK: Record<string, number> = { in_production: 0, approved: 1 };
+
+/** Flat per-cabinet hours for a room that has never been priced. */
+function estimateCabinetHours(category: string | undefined): StageHours {
+  const rates = DEFAULT_TIME_RATES;
+  return {
+    cut: rates.cutHoursPerCarcaseSheet + rates.cutHoursPerDoorSheet / 2,
+    edge: 12 * rates.edgeHoursPerLm,
+    assembly: category === 'Tall' ? rates.assemblyTall : rates.assemblyBase,
+  };
+}
+
+/** Job build hours by stage, from the priced room snapshots. */
+export function jobBuildHours(designData: unknown): JobBuildHours {
+  const data = (designData ?? {}) as ScheduleDesignData;
+  const out: JobBuildHours = { cut: 0, edge: 0, assembly: 0, estimatedCabinets: 0 };
+  for (const room of data.tradeRooms ?? []) {
+    const priced = data.quoteSnapshotsByRoom?.[room.id]?.bomSummary?.cabinets;
+    if (Array.isArray(priced)) {
+      for (const cab of priced) {
+        for (const stage of PRODUCTION_STAGES) out[stage] += Number(cab.buildHours?.[stage]) || 0;
+      }
+      continue;
+    }
+    for (const cab of room.cabinets ?? []) {
+      const est = estimateCabinetHours(cab.category);
+      for (const stage of PRODUCTION_STAGES) out[stage] += est[stage];
+      out.estimatedCabinets += 1;
+    }
+  }
+  for (const stage of PRODUCTION_STAGES) out[stage] = round(out[stage]);
+  return out;
+}
+
+/** Schedule input for a jobs row. */
+export function scheduleInputFromJob(row: {
+  id: string;
+  job_number: number;
+  name: string;
+  status: string | null;
+  completion_date: string | null;
+  created_at: string | null;
+  design_data: unknown;
+}): ScheduleJobInput {
+  const { estimatedCabinets: _estimated, ...hours } = jobBuildHours(row.design_data);
+  return {
+    id: row.id,
+    label: `#${row.job_number} ${row.name}`,
+    status: row.status ?? '',
+    hours,
+    promisedDate: row.completion_date ? row.completion_date.slice(0, 10) : null,
+    queuedAt: row.created_at ?? '',
+  };
+}
+
+// ---- calendar ----
+
+const toDate = (iso: string) => new Date(`${iso.slice(0, 10)}T00:00:00Z`);
+const toIso = (date: Date) => date.toISOString().slice(0, 10);
+
+function addDays(iso: string, days: number): string {
+  const date = toDate(iso);
+  date.setUTCDate(date.getUTCDate() + days);
+  return toIso(date);
+}
+
+function makeCalendar(workDays: number[]) {
+  const days = workDays.length > 0 ? workDays : DEFAULT_PRODUCTION_CAPACITY.workDays;
+  const isWorkDay = (iso: string) => days.includes(toDate(iso).getUTCDay() || 7);
+  return {
+    /** The given day if it is a working day, else the next one. */
+    onOrAfter(iso: string) {
+      let day = iso;
+      while (!isWorkDay(day)) day = addDays(day, 1);
+      return day;
+    },
+    /** The given day if it is a working day, else the one before. */
+    onOrBefore(iso: string) {
+      let day = iso;
+      while (!isWorkDay(day)) day = addDays(day, -1);
+      return day;
+    },
+    next(iso: string) {
+      let day = addDays(iso, 1);
+      while (!isWorkDay(day)) day = addDays(day, 1);
+      return day;
+    },
+  };
+}
+
+/** Slot jobs onto the calendar from `startDate` (YYYY-MM-DD). */
+export function scheduleProduction(
+  jobs: ScheduleJobInput[],
+  capacity: ProductionCapacity,
+  startDate: string,
+): ProductionSchedule {
+  const calendar = makeCalendar(capacity.workDays);
+  const start = calendar.onOrAfter(startDate);
+  const load = new Map<string, StageHours>();
+  const loadOn = (day: string) => {
+    let entry = load.get(day);
+    if (!entry) {
+      entry = { cut: 0, edge: 0, assembly: 0 };
+      load.set(day, entry);
+    }
+    return entry;
+  };
+
+  const ordered = [...jobs].sort((a, b) =>
+    (STATUS_RANK[a.status] ?? 2) - (STATUS_RANK[b.status] ?? 2)
+    || (a.promisedDate ?? '9999').localeCompare(b.promisedDate ?? '9999')
+    || a.queuedAt.localeCompare(b.queuedAt));
+
+  const scheduled = ordered.map((job): ScheduledJob => {
+    const promiseDay = job.promisedDate ? calendar.onOrBefore(job.promisedDate) : null;
+    const stages: ScheduledStage[] = [];
+    let ready = start;
+    let forced = false;
+
+    for (const stage of PRODUCTION_STAGES) {
+      let remaining = job.hours[stage];
+      if (!(remaining > EPSILON)) continue;
+      const days: Record<string, number> = {};
+      let day = ready;
+      for (let step = 0; remaining > EPSILON; step++) {
+        const dayLoad = loadOn(day);
+        if ((promiseDay && day >= promiseDay) || step >= MAX_HORIZON_DAYS) {
+          if (dayLoad[stage] + remaining > capacity[stage] + EPSILON) forced = true;
+          dayLoad[stage] += remaining;
+          days[day] = round(remaining);
+          break;
+        }
+        const take = Math.min(remaining, Math.max(0, capacity[stage] - dayLoad[stage]));
+        if (take > EPSILON) {
+          dayLoad[stage] += take;
+          days[day] = round(take);
+          remaining -= take;
+        }
+        if (remaining > EPSILON) day = calendar.next(day);
+      }
+      const booked = Object.keys(days).sort();
+      stages.push({ stage, start: booked[0], end: booked[booked.length - 1], days });
+      ready = booked[booked.length - 1];
+    }
+
+    return { job, stages, completion: stages.length > 0 ? stages[stages.length - 1].end : null, forced };
+  });
+
+  const last = [...load.keys()].sort().pop() ?? start;
+  const days: ScheduleDay[] = [];
+  for (let day = start; day <= last; day = calendar.next(day)) {
+    const dayLoad = load.get(day) ?? { cut: 0, edge: 0, assembly: 0 };
+    days.push({
+      date: day,
+      load: { cut: round(dayLoad.cut), edge: round(dayLoad.edge), assembly: round(dayLoad.assembly) },
+      overloaded: PRODUCTION_STAGES.filter(stage => dayLoad[stage] > capacity[stage] + EPSILON),
+    });
+  }
+  return { jobs: scheduled, days };
+}
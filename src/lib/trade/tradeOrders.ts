@@ -0,0 +1,105 @@
+import { normalizePricingTotals, roundMoney, type NormalizedPricingTotals } from '@/lib/pricing/money';
+import type { CommercialOptions } from '@/lib/pricing/types';
+
+/**
+ * Trade Supply Store cart and orders (tables `trade_carts`, `trade_orders`).
+ *
+ * The cart is one row per trade account holding SKUs and quantities only;
+ * prices are looked up from the live catalogue whenever it is shown, so a
+ * cart left for a week never orders at last week's price. Hardware takes the
+ * account's hardware category markup, appliances pass through at list price
+ * as they do on quotes. GST is added by normalizePricingTotals. The order
+ * itself is priced again by the place_trade_order_v1 RPC, which applies the
+ * same rules server-side; priceCart is what the cart shows beforehand.
+ */
+
+export type CartItemKind = 'hardware' | 'appliance';
+
+export interface CartItem {
+  kind: CartItemKind;
+  sku: string;
+  name: string;
+  quantity: number;
+}
+
+export interface CatalogPrice {
+  name: string;
+  /** Hardware: cost before markup. Appliances: list price. */
+  price: number;
+}
+
+export interface PricedCartLine extends CartItem {
+  unitPrice: number;
+  lineTotal: number;
+}
+
+export interface PricedCart {
+  lines: PricedCartLine[];
+  /** Cart items no longer in the catalogue; left out of the order. */
+  unavailable: CartItem[];
+  totals: NormalizedPricingTotals;
+}
+
+export type TradeOrderStatus = 'submitted' | 'confirmed' | 'fulfilled' | 'cancelled';
+
+export const TRADE_ORDER_STATUS_LABELS: Record<TradeOrderStatus, string> = {
+  submitted: 'Submitted',
+  confirmed: 'Confirmed',
+  fulfilled: 'Fulfilled',
+  cancelled: 'Cancelled',
+};
+
+export interface TradeOrderRow {
+  id: string;
+  order_number: number;
+  customer_id: string;
+  job_id: string | null;
+  status: TradeOrderStatus;
+  items: PricedCartLine[];
+  subtotal: number;
+  tax: number;
+  total: number;
+  notes: string | null;
+  created_at: string;
+}
+
+export const cartKey = (item: Pick<CartItem, 'kind' | 'sku'>) => `${item.kind}:${item.sku}`;
+
+/** Add `quantity` of an item, merging with a line already in the cart. */
+export function addToCart(items: CartItem[], item: Omit<CartItem, 'quantity'>, quantity = 1): CartItem[] {
+  const key = cartKey(item);
+  if (items.some(i => cartKey(i) === key)) {
+    return items.map(i => (cartKey(i) === key ? { ...i, quantity: i.quantity + quantity } : i));
+  }
+  return [...items, { ...item, quantity }];
+}
+
+/** Set a line's quantity; zero or less removes it. */
+export function setCartQuantity(items: CartItem[], key: string, quantity: number): CartItem[] {
+  const whole = Math.floor(quantity);
+  return whole > 0
+    ? items.map(i => (cartKey(i) === key ? { ...i, quantity: whole } : i))
+    : items.filter(i => cartKey(i) !== key);
+}
+
+/** Price the cart against the live catalogue (keyed by cartKey). */
+export function priceCart(
+  items: CartItem[],
+  catalog: Map<string, CatalogPrice>,
+  commercial: CommercialOptions,
+): PricedCart {
+  const hardwareMarkup = commercial.categoryMarkups?.hardware ?? commercial.clientMarkupPct ?? 0;
+  const lines: PricedCartLine[] = [];
+  const unavailable: CartItem[] = [];
+  for (const item of items) {
+    const entry = catalog.get(cartKey(item));
+    if (!entry) {
+      unavailable.push(item);
+      continue;
+    }
+    const unitPrice = roundMoney(item.kind === 'hardware' ? entry.price * (1 + hardwareMarkup) : entry.price);
+    lines.push({ ...item, name: entry.name, unitPrice, lineTotal: roundMoney(unitPrice * item.quantity) });
+  }
+  const subtotal = roundMoney(lines.reduce((sum, line) => sum + line.lineTotal, 0));
+  return { lines, unavailable, totals: normalizePricingTotals({ subtotal }, commercial.gstPct ?? 0.1) };
+}
@@ -0,0 +1,250 @@
+import type { GlobalDimensions, Opening, ServicePoint, WallId } from '@/types';
+import type { ConfiguredCabinet, TradeRoom } from '@/types/trade';
+import { DEFAULT_GLOBAL_DIMENSIONS } from '@/constants';
+import { distributeDrawerHeights } from './drawerHeights';
+import { getConstructionRecipe } from './microvellum/constructionRecipes';
+
+/**
+ * Front-on wall elevations for the trade plan export.
+ *
+ * Each wall is seen from inside the room: X runs from the wall's left end (the
+ * same convention as opening and service offsets) and Y up from the floor, in
+ * mm. Cabinets are assigned to the wall they back onto by rotation (0 back,
+ * 90 right, 180 front, 270 left) when they stand within reach of it; islands
+ * and peninsulas standing clear of every wall are left to the plan.
+ */
+
+export type ElevationFrontKind = 'door' | 'drawer' | 'false-front' | 'open' | 'appliance';
+
+export interface ElevationFront {
+  kind: ElevationFrontKind;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  /** Doors only: the side the hinges are on, as seen from the room. */
+  hinge?: 'left' | 'right';
+}
+
+export interface ElevationCabinet {
+  cabinet: ConfiguredCabinet;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  /** Toe kick height under the carcase; 0 for wall cabinets and appliances. */
+  kick: number;
+  fronts: ElevationFront[];
+}
+
+export interface ElevationSpan {
+  x: number;
+  w: number;
+  y: number;
+  h: number;
+}
+
+export interface WallElevation {
+  wall: WallId;
+  label: string;
+  length: number;
+  height: number;
+  cabinets: ElevationCabinet[];
+  benchtops: ElevationSpan[];
+  splashbacks: ElevationSpan[];
+  openings: Array<ElevationSpan & { opening: Opening }>;
+  services: Array<{ service: ServicePoint; x: number; y: number }>;
+}
+
+export const WALL_LABELS: Record<WallId, string> = {
+  N: 'Back wall',
+  E: 'Right wall',
+  S: 'Front wall',
+  W: 'Left wall',
+};
+
+const WALL_FOR_ROTATION: Record<number, WallId> = { 0: 'N', 90: 'E', 180: 'S', 270: 'W' };
+/** Cabinets whose back is further than this from their wall are free-standing. */
+const MAX_WALL_CLEARANCE = 300;
+/** Service heights when a point has none recorded. */
+const DEFAULT_SERVICE_HEIGHT: Record<ServicePoint['type'], number> = {
+  'water-supply': 500,
+  drain: 400,
+  gpo: 1050,
+  gas: 500,
+  'hood-duct': 2100,
+};
+/** Combo drawer-bank heights, as the 3D assembler builds them. */
+const COMBO_DRAWER_SECTION: Record<number, number> = { 1: 180, 2: 320, 3: 450, 4: 550 };
+
+function wallPlacement(cab: ConfiguredCabinet, roomW: number, roomD: number): { wall: WallId; x: number } | null {
+  if (!cab.isPlaced || !cab.position) return null;
+  const rotation = (((Math.round(cab.position.rotation / 90) * 90) % 360) + 360) % 360;
+  const wall = WALL_FOR_ROTATION[rotation];
+  const { x: cx, z: cz } = cab.position;
+  const { width: w, depth: d } = cab.dimensions;
+  const [clearance, left] = wall === 'N'
+    ? [cz - d / 2, cx - w / 2]
+    : wall === 'E'
+      ? [roomW - (cx + d / 2), cz - w / 2]
+      : wall === 'S'
+        ? [roomD - (cz + d / 2), roomW - (cx + w / 2)]
+        : [cx - d / 2, roomD - (cz + w / 2)];
+  return clearance <= MAX_WALL_CLEARANCE ? { wall, x: left } : null;
+}
+
+function doorFronts(x: number, y: number, w: number, h: number, count: number, gap: number, hingeSide?: 'Left' | 'Right'): ElevationFront[] {
+  if (count >= 2) {
+    const leaf = (w - gap) / 2;
+    return [
+      { kind: 'door', x, y, w: leaf, h, hinge: 'left' },
+      { kind: 'door', x: x + leaf + gap, y, w: leaf, h, hinge: 'right' },
+    ];
+  }
+  return [{ kind: 'door', x, y, w, h, hinge: hingeSide === 'Right' ? 'right' : 'left' }];
+}
+
+function drawerFronts(x: number, y: number, w: number, h: number, heights: number[], gap: number): ElevationFront[] {
+  // Heights run top → bottom.
+  const fronts: ElevationFront[] = [];
+  let top = y + h;
+  for (const face of heights) {
+    fronts.push({ kind: 'drawer', x, y: top - face + gap / 2, w, h: Math.max(0, face - gap) });
+    top -= face;
+  }
+  return fronts;
+}
+
+/** Door and drawer faces for a cabinet, split as its construction recipe builds them. */
+function cabinetFronts(cab: ConfiguredCabinet, x: number, y: number, w: number, h: number, dims: GlobalDimensions): ElevationFront[] {
+  const gap = dims.doorGap ?? 2;
+  if (cab.category === 'Appliance') return [{ kind: 'appliance', x, y, w, h }];
+  const recipe = getConstructionRecipe(cab.productName || cab.definitionId);
+  const fronts = recipe?.fronts;
+  const hingeSide = cab.construction?.hingeSide;
+  const inner = { x: x + gap / 2, y: y + gap / 2, w: w - gap, h: h - gap };
+
+  switch (fronts?.type) {
+    case 'DRAWERS': {
+      const count = fronts.drawers?.drawerCount ?? 1;
+      return drawerFronts(x, y, w, h, distributeDrawerHeights(count, h, cab.construction?.drawerFrontHeights ?? fronts.drawers?.ratios), gap);
+    }
+    case 'COMBO': {
+      const drawers = fronts.combo?.topDrawers ?? 1;
+      const section = Math.min(COMBO_DRAWER_SECTION[drawers] ?? drawers * 150, h * 0.6);
+      const doorH = h - section;
+      // Pantries keep their drawers at the bottom; base combos have them on top.
+      if (cab.category === 'Tall') {
+        return [
+          ...drawerFronts(x, y, w, section, distributeDrawerHeights(drawers, section), gap),
+          ...doorFronts(inner.x, y + section + gap / 2, inner.w, doorH - gap, fronts.combo?.bottomDoors ?? 1, gap, hingeSide),
+        ];
+      }
+      return [
+        ...drawerFronts(x, y + doorH, w, section, distributeDrawerHeights(drawers, section), gap),
+        ...doorFronts(inner.x, inner.y, inner.w, doorH - gap, fronts.combo?.bottomDoors ?? 1, gap, hingeSide),
+      ];
+    }
+    case 'SINK': {
+      const falseFront = fronts.sink?.hasFalseFront ? fronts.sink.falseFrontHeight : 0;
+      return [
+        ...(falseFront > 0 ? [{ kind: 'false-front' as const, x: inner.x, y: y + h - falseFront + gap / 2, w: inner.w, h: falseFront - gap }] : []),
+        ...doorFronts(inner.x, inner.y, inner.w, h - falseFront - gap, fronts.sink?.doorCount ?? 2, gap, hingeSide),
+      ];
+    }
+    case 'OPEN':
+      return [{ kind: 'open', ...inner }];
+    case 'APPLIANCE_OPENING': {
+      const top = fronts.applianceOpening?.hasTopDrawer ? fronts.applianceOpening.topDrawerHeight ?? 150 : 0;
+      return [
+        ...(top > 0 ? drawerFronts(x, y + h - top, w, top, [top], gap) : []),
+        { kind: 'appliance', x: inner.x, y: inner.y, w: inner.w, h: h - top - gap },
+      ];
+    }
+    default: {
+      const count = fronts?.doors?.doorCount ?? fronts?.sink?.doorCount ?? (w > 600 ? 2 : 1);
+      return doorFronts(inner.x, inner.y, inner.w, inner.h, count, gap, hingeSide);
+    }
+  }
+}
+
+/** Merge touching spans (a run of base cabinets) into continuous lengths. */
+function mergeSpans(spans: Array<{ x: number; w: number; top: number }>): Array<{ x: number; w: number; top: number }> {
+  const sorted = [...spans].sort((a, b) => a.x - b.x);
+  const merged: Array<{ x: number; w: number; top: number }> = [];
+  for (const s of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && s.x <= last.x + last.w + 5) {
+      const end = Math.max(last.x + last.w, s.x + s.w);
+      last.w = end - last.x;
+      last.top = Math.max(last.top, s.top);
+    } else {
+      merged.push({ ...s });
+    }
+  }
+  return merged;
+}
+
+/** One elevation per wall that has cabinets on it, in N, E, S, W order. */
+export function buildWallElevations(room: TradeRoom): WallElevation[] {
+  const dims: GlobalDimensions = { ...DEFAULT_GLOBAL_DIMENSIONS, ...(room.dimensions ?? {}) };
+  const roomW = room.config.width;
+  const roomD = room.config.depth;
+  const roomH = room.config.height;
+
+  const byWall = new Map<WallId, ElevationCabinet[]>();
+  for (const cab of room.cabinets ?? []) {
+    const placement = wallPlacement(cab, roomW, roomD);
+    if (!placement) continue;
+    const y = cab.position?.y ?? 0;
+    const { width: w, height: h } = cab.dimensions;
+    const floorStanding = y < 50 && (cab.category === 'Base' || cab.category === 'Tall');
+    const kick = floorStanding ? cab.construction?.toeKickHeight ?? dims.toeKickHeight : 0;
+    const list = byWall.get(placement.wall) ?? [];
+    list.push({
+      cabinet: cab,
+      x: placement.x,
+      y,
+      w,
+      h,
+      kick,
+      fronts: cabinetFronts(cab, placement.x, y + kick, w, h - kick, dims),
+    });
+    byWall.set(placement.wall, list);
+  }
+
+  return (['N', 'E', 'S', 'W'] as WallId[])
+    .filter(wall => byWall.has(wall))
+    .map((wall): WallElevation => {
+      const cabinets = byWall.get(wall)!.sort((a, b) => a.x - b.x);
+      // Under-bench units: base cabinets and under-bench appliances on the floor.
+      const underBench = cabinets.filter(c =>
+        c.y < 50 && (c.cabinet.category === 'Base' || (c.cabinet.category === 'Appliance' && c.h <= 900)));
+      const runs = mergeSpans(underBench.map(c => ({ x: c.x, w: c.w, top: c.y + c.h })));
+      const benchtops = runs.map(r => ({ x: r.x, w: r.w, y: r.top, h: dims.benchtopThickness }));
+      const splashbacks = benchtops.map(b => ({ x: b.x, w: b.w, y: b.y + b.h, h: dims.splashbackHeight }));
+
+      const openings = (room.config.openings ?? [])
+        .filter(o => o.wall === wall)
+        .map(o => {
+          const y = o.type === 'window' ? o.sillHeightMm ?? 900 : 0;
+          const h = o.heightMm ?? (o.type === 'window' ? 1200 : 2040);
+          return { opening: o, x: o.offsetMm, w: o.widthMm, y, h };
+        });
+      const services = (room.config.services ?? [])
+        .filter(s => s.wall === wall && (s.placement ?? 'wall') === 'wall')
+        .map(s => ({ service: s, x: s.offsetMm, y: s.heightMm ?? DEFAULT_SERVICE_HEIGHT[s.type] }));
+
+      return {
+        wall,
+        label: WALL_LABELS[wall],
+        length: wall === 'N' || wall === 'S' ? roomW : roomD,
+        height: roomH,
+        cabinets,
+        benchtops,
+        splashbacks,
+        openings,
+        services,
+      };
+    });
+}
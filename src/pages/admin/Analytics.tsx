@@ -121,7 +121,7 @@ export default function Analytics() {
 
   const shapeData = Object.entries(shapeBreakdown).map(([name, value]) => ({ name, value }));
   const SHAPE_COLORS: Record<string, string> = {
-    'single-wall': '#6366f1', 'l-shape': '#8b5cf6', 'u-shape': '#a78bfa', galley: '#c4b5fd',
+    'single-wall': '#6366f1', 'l-shape': '#8b5cf6', 'u-shape': '#a78bfa', galley: '#c4b5fd', peninsula: '#ddd6fe',
   };
 
   return (
@@ -1,18 +1,20 @@
 /**
- * Admin → Design Rules: review surface for the versioned kitchen rule pack
- * (implementation plan §7.4/7.4.7). Read-only in this phase — values live in
- * versioned source (src/lib/designV2/rulePack.ts) so every change is
- * reviewable in git. Adding/altering values from this page moves to a
- * DB-backed, audited config table in a later phase.
+ * Admin → Design Rules: the versioned kitchen rule pack (implementation plan
+ * §7.4/7.4.7). The layout engine's thresholds and tiers are edited here as
+ * draft packs and take effect once approved (LayoutRulePackEditor), and each
+ * jurisdiction's regulatory profile is verified and approved by a qualified
+ * reviewer (RegulatoryProfileReview). The ergonomic reference values stay
+ * read-only in versioned source (src/lib/designV2/rulePack.ts).
  */
 
 import React from 'react';
-import { ShieldAlert, ShieldCheck, Ruler } from 'lucide-react';
+import { ShieldCheck, Ruler } from 'lucide-react';
+import { LayoutRulePackEditor } from '@/components/admin/LayoutRulePackEditor';
+import { RegulatoryProfileReview } from '@/components/admin/RegulatoryProfileReview';
 import {
   BOWER_LAYOUT_PACK_VERSION,
   ERGONOMIC_PARAMETERS,
   PACK_SIGN_OFF,
-  QLD_REGULATORY_PROFILE_DRAFT,
   type RulePackParameter,
 } from '@/lib/designV2';
 
@@ -59,7 +61,6 @@ function ParameterTable({ parameters }: { parameters: RulePackParameter[] }) {
 }
 
 export default function DesignRules() {
-  const draft = QLD_REGULATORY_PROFILE_DRAFT;
   return (
     <div className="p-6 space-y-6 max-w-5xl">
       <div>
@@ -68,8 +69,8 @@ export default function DesignRules() {
         </h1>
         <p className="text-sm text-slate-500 mt-1">
           The versioned kitchen rule pack used by the AI designer's deterministic engine.
-          Values are read-only here for now — they live in versioned source so every change is
-          reviewed; in-page editing moves to an audited settings table in a later phase.
+          Engine thresholds, rule tiers and regulatory profiles are edited below as drafts and apply
+          once approved; the ergonomic reference values live in versioned source.
         </p>
       </div>
 
@@ -83,9 +84,18 @@ export default function DesignRules() {
         </div>
       </div>
 
+      <section className="space-y-2">
+        <h2 className="text-sm font-semibold text-slate-900">Layout pack — engine thresholds and tiers</h2>
+        <p className="text-xs text-slate-500">
+          What the layout rules measure against and how hard each rule bites. The homeowner planner
+          and the AI designer load the same approved pack, so a design passes or fails identically in both.
+        </p>
+        <LayoutRulePackEditor />
+      </section>
+
       <section className="space-y-2">
         <h2 className="text-sm font-semibold text-slate-900">
-          Layout pack — ergonomic defaults
+          Layout pack — ergonomic reference
           <span className="ml-2 font-mono text-xs text-slate-500">{BOWER_LAYOUT_PACK_VERSION}</span>
         </h2>
         <p className="text-xs text-slate-500">
@@ -96,22 +106,13 @@ export default function DesignRules() {
       </section>
 
       <section className="space-y-2">
-        <h2 className="text-sm font-semibold text-slate-900">
-          Regulatory profile — {draft.jurisdiction}
-          <span className="ml-2 font-mono text-xs text-slate-500">{draft.profileId}@{draft.version}</span>
-        </h2>
-        <div className="rounded-lg border border-amber-200 bg-amber-50 p-4 flex gap-3">
-          <ShieldAlert className="w-5 h-5 text-amber-700 shrink-0 mt-0.5" />
-          <div className="text-sm text-amber-900">
-            <p className="font-medium">Draft — regulated rules stay “pending” until qualified verification</p>
-            <p className="text-amber-800">{draft.approvalRequired}</p>
-            <p className="text-amber-800 mt-1">
-              Scopes: {draft.projectScopes.join(', ')} · Standards:{' '}
-              {Object.entries(draft.standardsEditions).map(([k, v]) => `${k}:${v}`).join(' · ')}
-            </p>
-          </div>
-        </div>
-        <ParameterTable parameters={draft.seedParameters} />
+        <h2 className="text-sm font-semibold text-slate-900">Regulatory profiles</h2>
+        <p className="text-xs text-slate-500">
+          Regulated minimums per jurisdiction. Each profile is checked value by value against the
+          adopted standards copies and approved by a qualified reviewer; regulated results then cite
+          the clause they were judged under.
+        </p>
+        <RegulatoryProfileReview />
       </section>
 
       <p className="text-xs text-slate-400">
@@ -15,13 +15,24 @@ import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { ArrowLeft, Download, Loader2, ChevronDown, FileText, CheckCircle2, MessageSquare } from 'lucide-react';
 import { JobNotes, addSystemNote } from '@/components/shared/JobNotes';
+import { JobRevisions } from '@/components/shared/JobRevisions';
+import { recordJobRevision } from '@/lib/trade/jobRevisions';
+import { DispatchStation } from '@/components/admin/DispatchStation';
+import { MicrovellumImportReview } from '@/components/admin/MicrovellumImportReview';
+import { PurchaseOrders } from '@/components/admin/PurchaseOrders';
+import { JobActuals } from '@/components/admin/JobActuals';
+import { activeTimeRates, latestCalibration, PricingCalibrationRow } from '@/lib/trade/calibration';
+import { QuoteAcceptances } from '@/components/admin/QuoteAcceptances';
+import { readDispatchState } from '@/lib/trade/dispatch';
 import { CANONICAL_TRADE_JOB_STATUSES, TRADE_JOB_STATUS_LABELS, TradeJobStatus, isTradeJobStatus } from '@/types/trade';
 import { useQuery } from '@tanstack/react-query';
-import { generateQuoteBOM, PricingData } from '@/lib/pricing';
+import { generateQuoteBOM, OffcutRecord, PricingData } from '@/lib/pricing';
 import { fetchAllPricingRows } from '@/lib/pricing/fetchAllPricingRows';
 import { exportOrderingListPdf } from '@/lib/orderingListPdf';
 import { exportPackingListPdf } from '@/lib/packingListPdf';
-import { exportCutSummaryPdf } from '@/lib/cutSummaryPdf';
+import { exportCutSummaryPdf, exportCuttingDiagramsPdf } from '@/lib/cutSummaryPdf';
+import { exportPartLabelsPdf } from '@/lib/partLabelsPdf';
+import { exportJobCncZip } from '@/lib/dxf';
 import { GlobalDimensions, HardwareOptions } from '@/types';
 import { DEFAULT_GLOBAL_DIMENSIONS, FINISH_OPTIONS, BENCHTOP_OPTIONS, HANDLE_OPTIONS } from '@/constants';
 import { getSupabaseFunctionErrorMessage } from '@/lib/supabaseFunctionError';
@@ -50,6 +61,7 @@ interface Job {
   buildflow_error: string | null;
   buildflow_design_version: number | null;
   buildflow_design_sent_at: string | null;
+  dispatch_state: unknown;
 
   profiles?: {
     full_name: string;
@@ -69,7 +81,7 @@ const AUD = (n: number) =>
 
 /** Load all pricing tables needed to re-run the BOM engine. */
 async function fetchPricingData(): Promise<PricingData> {
-  const [parts, materials, edges, hardware, labor, doorDrawer, benchtop, appliances] = await Promise.all([
+  const [parts, materials, edges, hardware, labor, doorDrawer, benchtop, appliances, calibrations] = await Promise.all([
     fetchAllPricingRows<PricingData['parts'][number]>('parts_pricing', { visibility_status: 'Available' }),
     fetchAllPricingRows<PricingData['materials'][number]>('material_pricing', { visibility_status: 'Available' }),
     fetchAllPricingRows<PricingData['edges'][number]>('edge_pricing', { visibility_status: 'Available' }),
@@ -78,6 +90,7 @@ async function fetchPricingData(): Promise<PricingData> {
     fetchAllPricingRows<PricingData['doorDrawer'][number]>('door_drawer_pricing', { visibility_status: 'Available' }),
     fetchAllPricingRows<PricingData['benchtop'][number]>('benchtop_pricing'),
     fetchAllPricingRows<NonNullable<PricingData['appliances']>[number]>('appliance_products', { is_active: true }),
+    fetchAllPricingRows<PricingCalibrationRow>('pricing_calibrations').catch(() => [] as PricingCalibrationRow[]),
   ]);
   return {
     parts,
@@ -88,9 +101,27 @@ async function fetchPricingData(): Promise<PricingData> {
     doorDrawer,
     benchtop,
     appliances,
+    ...(calibrations.length > 0 ? {
+      timeRates: activeTimeRates(calibrations),
+      calibrationVersion: latestCalibration(calibrations)?.version,
+    } : {}),
   };
 }
 
+/**
+ * Offcuts this job may nest into: everything available plus any already
+ * reserved for it. Once the job goes into production its reserved offcuts are
+ * marked used; they are still this job's board, so its cut list keeps them.
+ */
+async function fetchJobOffcuts(jobId: string): Promise<OffcutRecord[]> {
+  const [available, reserved, cut] = await Promise.all([
+    fetchAllPricingRows<OffcutRecord>('offcut_inventory', { status: 'available' }),
+    fetchAllPricingRows<OffcutRecord>('offcut_inventory', { status: 'reserved', reserved_job_id: jobId }),
+    fetchAllPricingRows<OffcutRecord>('offcut_inventory', { status: 'used', reserved_job_id: jobId }),
+  ]);
+  return [...available, ...reserved, ...cut.map(offcut => ({ ...offcut, status: 'reserved' as const }))];
+}
+
 export default function AdminJobDetail() {
   const { id } = useParams<{ id: string }>();
   const [job, setJob] = useState<Job | null>(null);
@@ -115,6 +146,15 @@ export default function AdminJobDetail() {
     staleTime: 10 * 60 * 1000,
   });
 
+  // Offcut stock is opt-in: quotes stay on new boards unless the shop chooses to cut from stock.
+  const [useOffcutStock, setUseOffcutStock] = useState(false);
+  const [reservingOffcuts, setReservingOffcuts] = useState(false);
+  const { data: offcuts, refetch: refetchOffcuts } = useQuery({
+    queryKey: ['admin-job-offcuts', id],
+    queryFn: () => fetchJobOffcuts(id!),
+    enabled: useOffcutStock && !!id,
+  });
+
   useEffect(() => {
     if (id) loadJob();
   }, [id]);
@@ -155,6 +195,7 @@ export default function AdminJobDetail() {
 
       if (error) throw error;
       await addSystemNote(job.id, `Status changed to "${TRADE_JOB_STATUS_LABELS[newStatus]}"`);
+      await recordJobRevision(job.id, `Status changed to ${TRADE_JOB_STATUS_LABELS[newStatus]}`);
       setJob({ ...job, status: newStatus });
       toast.success('Status updated');
     } catch (error) {
@@ -174,6 +215,7 @@ export default function AdminJobDetail() {
         .eq('id', job.id);
       if (error) throw error;
       await addSystemNote(job.id, 'Job approved — proceeding to production.');
+      await recordJobRevision(job.id, 'Approved');
       setJob({ ...job, status: 'approved', design_data: updatedDesignData });
       // Notify trade user
       if (job.profiles?.email) {
@@ -213,6 +255,7 @@ export default function AdminJobDetail() {
         .eq('id', job.id);
       if (error) throw error;
       await addSystemNote(job.id, `Changes requested: "${changeNote.trim()}"`);
+      await recordJobRevision(job.id, 'Changes requested');
       setJob({ ...job, status: 'draft', design_data: updatedDesignData });
       // Notify trade user
       if (job.profiles?.email) {
@@ -377,9 +420,11 @@ export default function AdminJobDetail() {
   /** All cabinets across all rooms (new trade job structure: design_data.tradeRooms). */
   const allCabinets = useMemo(() => {
     const rooms = (designData.tradeRooms as Array<Record<string, unknown>> | undefined) ?? [];
-    return rooms.flatMap((room) => {
+    // Each room numbers its cabinets from C01; shop documents tell rooms apart by roomRef.
+    return rooms.flatMap((room, index) => {
       const cabs = (room.cabinets as Array<Record<string, unknown>> | undefined) ?? [];
-      return cabs.map((c) => ({ ...c, roomName: room.name as string }) as Record<string, unknown> & { roomName: string });
+      const roomRef = rooms.length > 1 ? `R${index + 1}` : undefined;
+      return cabs.map((c) => ({ ...c, roomName: room.name as string, roomRef }) as Record<string, unknown> & { roomName: string });
     });
   }, [designData]);
 
@@ -388,6 +433,12 @@ export default function AdminJobDetail() {
     return (designData.tradeRooms as Array<Record<string, unknown>> | undefined) ?? [];
   }, [designData]);
 
+  /** Room dimensions drive part sizes and CNC machining; first room wins, as for hardware. */
+  const jobDims = useMemo((): GlobalDimensions => ({
+    ...(DEFAULT_GLOBAL_DIMENSIONS as GlobalDimensions),
+    ...(((allRooms[0] as Record<string, unknown> | undefined)?.dimensions as Partial<GlobalDimensions>) ?? {}),
+  }), [allRooms]);
+
   // ── Re-run pricing engine to build QuoteBOM for shop documents ────────────
   const quoteBOM = useMemo(() => {
     if (!pricingData || allCabinets.length === 0) return null;
@@ -401,6 +452,7 @@ export default function AdminJobDetail() {
         itemType: 'Cabinet' as const,
         productName: c.productName as string | undefined,
         cabinetNumber: c.cabinetNumber as string | undefined,
+        roomRef: c.roomRef as string | undefined,
         x: (c.position as Record<string, number> | undefined)?.x ?? 0,
         y: (c.position as Record<string, number> | undefined)?.y ?? 0,
         z: (c.position as Record<string, number> | undefined)?.z ?? 0,
@@ -415,12 +467,8 @@ export default function AdminJobDetail() {
 
     if (placedItems.length === 0) return null;
 
-    // Use first room's dimensions/hardware if available
+    // Use first room's hardware if available
     const firstRoom = allRooms[0] as Record<string, unknown> | undefined;
-    const dims: GlobalDimensions = {
-      ...(DEFAULT_GLOBAL_DIMENSIONS as GlobalDimensions),
-      ...((firstRoom?.dimensions as Partial<GlobalDimensions>) ?? {}),
-    };
     const hw = firstRoom?.hardware as Record<string, unknown> | undefined;
     const hardwareOptions: HardwareOptions = {
       hingeType: (hw?.hingeType as string) ?? 'Series 200',
@@ -433,14 +481,41 @@ export default function AdminJobDetail() {
 
     try {
       const materialDefaults = firstRoom?.materialDefaults as Record<string, string> | undefined;
-      return generateQuoteBOM(placedItems, dims, hardwareOptions, pricingData, {}, {
+      const jobPricingData = useOffcutStock && offcuts ? { ...pricingData, offcuts } : pricingData;
+      return generateQuoteBOM(placedItems, jobDims, hardwareOptions, jobPricingData, {}, {
         benchtopPricingId: materialDefaults?.benchtopPricingId,
         benchtopFinishId: materialDefaults?.benchtopFinishId,
       });
     } catch {
       return null;
     }
-  }, [pricingData, allCabinets, allRooms]);
+  }, [pricingData, allCabinets, allRooms, jobDims, useOffcutStock, offcuts]);
+
+  const usedOffcutIds = useMemo(
+    () => (quoteBOM?.consolidatedSheets ?? []).flatMap(sh =>
+      (sh.nesting?.sheets ?? []).flatMap(sheet => (sheet.stockOffcut ? [sheet.stockOffcut.id] : []))),
+    [quoteBOM],
+  );
+
+  const reserveOffcuts = async () => {
+    if (!id || usedOffcutIds.length === 0) return;
+    setReservingOffcuts(true);
+    try {
+      const { error } = await (supabase as any)
+        .from('offcut_inventory')
+        .update({ status: 'reserved', reserved_job_id: id })
+        .in('id', usedOffcutIds)
+        .in('status', ['available', 'reserved']);
+      if (error) throw error;
+      toast.success(`${usedOffcutIds.length} offcut${usedOffcutIds.length !== 1 ? 's' : ''} reserved for this job`);
+      await refetchOffcuts();
+    } catch (err) {
+      toast.error('Failed to reserve offcuts');
+      console.error(err);
+    } finally {
+      setReservingOffcuts(false);
+    }
+  };
 
   const getStatusBadge = (status: TradeJobStatus) => {
     const styles: Record<TradeJobStatus, string> = {
@@ -801,6 +876,28 @@ export default function AdminJobDetail() {
               </CardContent>
             </Card>
           )}
+
+          {/* Packing & dispatch — scan-to-verify from production onwards */}
+          {quoteBOM && (safeStatus === 'in_production' || safeStatus === 'completed') && (
+            <DispatchStation
+              jobId={job.id}
+              jobNumber={job.job_number}
+              quoteBOM={quoteBOM}
+              state={readDispatchState(job.dispatch_state)}
+              canScan={safeStatus === 'in_production'}
+              onStateChange={next => setJob({ ...job, dispatch_state: next })}
+            />
+          )}
+
+          {/* Supplier purchase orders — from approval onwards */}
+          {(safeStatus === 'approved' || safeStatus === 'in_production' || safeStatus === 'completed') && (
+            <PurchaseOrders jobId={job.id} quoteBOM={quoteBOM} pricingData={pricingData} />
+          )}
+
+          {/* Actual costs for the margin report — once the job is being built */}
+          {(safeStatus === 'in_production' || safeStatus === 'completed') && (
+            <JobActuals jobId={job.id} designData={job.design_data} />
+          )}
         </div>
 
         {/* Sidebar */}
@@ -973,6 +1070,36 @@ export default function AdminJobDetail() {
               <CardTitle>Shop Documents</CardTitle>
             </CardHeader>
             <CardContent className="space-y-2">
+              <label className="flex items-center gap-2 text-xs text-gray-600 cursor-pointer select-none">
+                <input
+                  type="checkbox"
+                  checked={useOffcutStock}
+                  onChange={e => setUseOffcutStock(e.target.checked)}
+                  className="rounded"
+                />
+                Cut from offcut stock first
+              </label>
+              {useOffcutStock && quoteBOM && (
+                <div className="flex items-center gap-2 text-xs text-gray-500">
+                  <span>
+                    {usedOffcutIds.length === 0
+                      ? 'No registered offcuts fit this job.'
+                      : `${usedOffcutIds.length} offcut${usedOffcutIds.length !== 1 ? 's' : ''} used from stock.`}
+                  </span>
+                  {usedOffcutIds.length > 0 && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="ml-auto h-7 text-xs"
+                      disabled={reservingOffcuts}
+                      onClick={reserveOffcuts}
+                    >
+                      Reserve for job
+                    </Button>
+                  )}
+                </div>
+              )}
+
               {/* Shop PDFs — admin only */}
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
@@ -982,7 +1109,7 @@ export default function AdminJobDetail() {
                     <ChevronDown className="h-3 w-3 ml-auto" />
                   </Button>
                 </DropdownMenuTrigger>
-                <DropdownMenuContent align="end" className="w-48">
+                <DropdownMenuContent align="end" className="w-56">
                   <DropdownMenuItem
                     onSelect={() => {
                       if (!quoteBOM) return;
@@ -995,7 +1122,7 @@ export default function AdminJobDetail() {
                   <DropdownMenuItem
                     onSelect={() => {
                       if (!quoteBOM) return;
-                      exportPackingListPdf(quoteBOM, job.name);
+                      exportPackingListPdf(quoteBOM, job.name, job.job_number);
                       toast.success('Packing list exported');
                     }}
                   >
@@ -1010,6 +1137,47 @@ export default function AdminJobDetail() {
                   >
                     Cut Summary
                   </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onSelect={() => {
+                      if (!quoteBOM) return;
+                      exportCuttingDiagramsPdf(quoteBOM, job.name);
+                      toast.success('Cutting diagrams exported');
+                    }}
+                  >
+                    Cutting Diagrams
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onSelect={() => {
+                      if (!quoteBOM) return;
+                      exportPartLabelsPdf(quoteBOM, job.name, job.job_number, 'a4-24');
+                      toast.success('Part labels exported');
+                    }}
+                  >
+                    Part Labels (A4 sheet)
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onSelect={() => {
+                      if (!quoteBOM) return;
+                      exportPartLabelsPdf(quoteBOM, job.name, job.job_number, 'thermal-100x50');
+                      toast.success('Part labels exported');
+                    }}
+                  >
+                    Part Labels (100x50 thermal)
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onSelect={async () => {
+                      if (!quoteBOM) return;
+                      try {
+                        await exportJobCncZip(quoteBOM, jobDims, job.name, job.job_number);
+                        toast.success('CNC DXF files exported');
+                      } catch (err) {
+                        console.error('CNC export failed:', err);
+                        toast.error('Failed to export CNC files');
+                      }
+                    }}
+                  >
+                    CNC DXF Files (zip)
+                  </DropdownMenuItem>
                 </DropdownMenuContent>
               </DropdownMenu>
 
@@ -1069,7 +1237,13 @@ export default function AdminJobDetail() {
                 </Alert>
               )}
 
-
+              {/* Drafter's changes coming back from Microvellum */}
+              <MicrovellumImportReview
+                jobId={job.id}
+                designData={designData}
+                disabled={isEnquiry || (safeStatus !== 'approved' && safeStatus !== 'in_production')}
+                onDesignDataChange={(design_data) => setJob({ ...job, design_data })}
+              />
 
               {!quoteBOM && pricingData && (
                 <p className="text-xs text-gray-400 text-center">
@@ -1086,12 +1260,26 @@ export default function AdminJobDetail() {
             </CardContent>
           </Card>
 
+          {/* Customer quote acceptance — renders only once a quote is signed */}
+          <QuoteAcceptances job={job} />
+
           {/* Job Notes */}
           <Card>
             <CardContent className="pt-5">
               <JobNotes jobId={job.id} isAdmin={true} />
             </CardContent>
           </Card>
+
+          {/* Revisions */}
+          <Card>
+            <CardContent className="pt-5">
+              <JobRevisions
+                jobId={job.id}
+                canRestore={true}
+                onRestored={(design_data) => setJob({ ...job, design_data })}
+              />
+            </CardContent>
+          </Card>
         </div>
       </div>
     </div>
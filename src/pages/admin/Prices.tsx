@@ -68,6 +68,8 @@ export default function AdminPrices() {
       const { data, error } = await supabase
         .from('price_history')
         .select('*')
+        // Rows from price revisions (Pricing → Price Scenarios) are not product prices.
+        .not('product_id', 'is', null)
         .order('changed_at', { ascending: false })
         .limit(20);
 
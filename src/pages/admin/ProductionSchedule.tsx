@@ -0,0 +1,232 @@
+/**
+ * Admin Production page — capacity-based schedule of approved and
+ * in-production jobs. Shop capacity is edited here (table
+ * `production_capacity`); the board is a Gantt of jobs by working day with
+ * overloaded days highlighted, and projected completion dates can be written
+ * back to jobs.completion_date.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { CalendarCheck, RefreshCw, Save } from 'lucide-react';
+import {
+  DEFAULT_PRODUCTION_CAPACITY,
+  PRODUCTION_STAGES,
+  ProductionCapacity,
+  ProductionStage,
+  ScheduleJobInput,
+  scheduleInputFromJob,
+  scheduleProduction,
+} from '@/lib/trade/productionSchedule';
+
+const STAGE_STYLES: Record<ProductionStage, string> = {
+  cut: 'bg-amber-300',
+  edge: 'bg-sky-300',
+  assembly: 'bg-emerald-400',
+};
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const dayLabel = (iso: string) =>
+  new Date(`${iso}T00:00:00Z`).toLocaleDateString('en-AU', { weekday: 'short', day: 'numeric', month: 'numeric', timeZone: 'UTC' });
+
+export default function ProductionSchedule() {
+  const [capacity, setCapacity] = useState<ProductionCapacity>(DEFAULT_PRODUCTION_CAPACITY);
+  const [jobs, setJobs] = useState<ScheduleJobInput[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      const [{ data: capacityRow, error: capacityError }, { data: jobRows, error: jobsError }] = await Promise.all([
+        (supabase as any).from('production_capacity').select('*').maybeSingle(),
+        supabase
+          .from('jobs')
+          .select('id, job_number, name, status, completion_date, created_at, design_data')
+          .in('status', ['approved', 'in_production']),
+      ]);
+      if (capacityError) throw capacityError;
+      if (jobsError) throw jobsError;
+      if (capacityRow) {
+        setCapacity({
+          cut: Number(capacityRow.cut_hours_per_day),
+          edge: Number(capacityRow.edge_hours_per_day),
+          assembly: Number(capacityRow.assembly_hours_per_day),
+          workDays: capacityRow.work_days ?? DEFAULT_PRODUCTION_CAPACITY.workDays,
+        });
+      }
+      setJobs((jobRows ?? []).map(scheduleInputFromJob));
+    } catch (error) {
+      console.error('Failed to load production schedule:', error);
+      toast.error('Failed to load production schedule');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const schedule = useMemo(() => scheduleProduction(jobs, capacity, format(new Date(), 'yyyy-MM-dd')), [jobs, capacity]);
+  const changed = schedule.jobs.filter(s => s.completion && s.completion !== s.job.promisedDate);
+
+  const saveCapacity = async () => {
+    setSaving(true);
+    const { error } = await (supabase as any).from('production_capacity').upsert({
+      id: true,
+      cut_hours_per_day: capacity.cut,
+      edge_hours_per_day: capacity.edge,
+      assembly_hours_per_day: capacity.assembly,
+      work_days: capacity.workDays,
+    });
+    setSaving(false);
+    if (error) toast.error('Failed to save capacity');
+    else toast.success('Capacity saved');
+  };
+
+  const writeDates = async () => {
+    if (!window.confirm(`Set the completion date of ${changed.length} job${changed.length !== 1 ? 's' : ''} to the projected date?`)) return;
+    setSaving(true);
+    const results = await Promise.all(changed.map(s =>
+      supabase.from('jobs').update({ completion_date: s.completion }).eq('id', s.job.id)));
+    setSaving(false);
+    const failed = results.filter(r => r.error).length;
+    if (failed > 0) toast.error(`${failed} completion date${failed !== 1 ? 's' : ''} failed to save`);
+    else toast.success('Completion dates updated');
+    load();
+  };
+
+  const toggleDay = (day: number) =>
+    setCapacity(c => ({
+      ...c,
+      workDays: c.workDays.includes(day) ? c.workDays.filter(d => d !== day) : [...c.workDays, day].sort(),
+    }));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Production</h1>
+          <p className="text-sm text-gray-500">Approved and in-production jobs slotted by cut, edge and assembly hours.</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={load} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+          <Button onClick={writeDates} disabled={saving || changed.length === 0}>
+            <CalendarCheck className="h-4 w-4 mr-2" />
+            Write completion dates ({changed.length})
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Daily capacity (hours)</CardTitle>
+        </CardHeader>
+        <CardContent className="flex flex-wrap items-end gap-4">
+          {PRODUCTION_STAGES.map(stage => (
+            <label key={stage} className="text-sm capitalize">
+              {stage}
+              <Input
+                type="number"
+                min={0}
+                step={0.5}
+                className="w-24"
+                value={capacity[stage]}
+                onChange={e => setCapacity(c => ({ ...c, [stage]: Math.max(0, Number(e.target.value) || 0) }))}
+              />
+            </label>
+          ))}
+          <div className="flex gap-1">
+            {WEEKDAYS.map((label, i) => (
+              <Button key={label} size="sm" variant={capacity.workDays.includes(i + 1) ? 'default' : 'outline'} onClick={() => toggleDay(i + 1)}>
+                {label}
+              </Button>
+            ))}
+          </div>
+          <Button variant="outline" onClick={saveCapacity} disabled={saving}>
+            <Save className="h-4 w-4 mr-2" />
+            Save capacity
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="pt-6 overflow-x-auto">
+          {schedule.jobs.length === 0 ? (
+            <p className="text-sm text-gray-400 py-8 text-center">{loading ? 'Loading…' : 'No approved or in-production jobs.'}</p>
+          ) : (
+            <table className="text-xs border-collapse">
+              <thead>
+                <tr>
+                  <th className="text-left font-medium p-2 min-w-56">Job</th>
+                  <th className="text-left font-medium p-2">Projected</th>
+                  {schedule.days.map(day => (
+                    <th
+                      key={day.date}
+                      title={day.overloaded.length > 0 ? `Overloaded: ${day.overloaded.join(', ')}` : undefined}
+                      className={`p-1 font-normal whitespace-nowrap ${day.overloaded.length > 0 ? 'bg-red-100 text-red-700' : 'text-gray-500'}`}
+                    >
+                      {dayLabel(day.date)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {schedule.jobs.map(s => (
+                  <tr key={s.job.id} className="border-t">
+                    <td className="p-2 truncate max-w-64">
+                      <Link to={`/admin/jobs/${s.job.id}`} className="hover:underline">{s.job.label}</Link>
+                      {s.job.status === 'in_production' && <span className="ml-1 text-cyan-700">●</span>}
+                    </td>
+                    <td className={`p-2 whitespace-nowrap ${s.forced ? 'text-red-600 font-medium' : ''}`}>
+                      {s.completion ? dayLabel(s.completion) : '—'}
+                      {s.job.promisedDate && s.job.promisedDate !== s.completion && (
+                        <span className="text-gray-400"> (set {dayLabel(s.job.promisedDate)})</span>
+                      )}
+                    </td>
+                    {schedule.days.map(day => {
+                      const booked = s.stages.filter(st => st.days[day.date]);
+                      return (
+                        <td key={day.date} className={`p-0.5 ${day.overloaded.length > 0 ? 'bg-red-50' : ''}`}>
+                          <div className="flex h-4 gap-px">
+                            {booked.map(st => (
+                              <div key={st.stage} className={`flex-1 rounded-sm ${STAGE_STYLES[st.stage]}`} title={`${st.stage} ${st.days[day.date]} h`} />
+                            ))}
+                          </div>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+                {PRODUCTION_STAGES.map(stage => (
+                  <tr key={stage} className="border-t text-gray-500">
+                    <td className="p-2 capitalize" colSpan={2}>
+                      <span className={`inline-block w-2 h-2 mr-1 rounded-sm ${STAGE_STYLES[stage]}`} />
+                      {stage} load / {capacity[stage]} h
+                    </td>
+                    {schedule.days.map(day => (
+                      <td key={day.date} className={`p-1 text-center ${day.overloaded.includes(stage) ? 'text-red-600 font-medium' : ''}`}>
+                        {day.load[stage] > 0 ? day.load[stage] : ''}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -4,7 +4,8 @@
  *   1. Monthly Revenue (last 12 months) — bar chart
  *   2. Job Status Breakdown — horizontal bar
  *   3. Wizard Funnel Metrics (from funnel_events) — conversion table
- *   4. Raw data export (CSV)
+ *   4. Quoted vs actual margin and estimate error (from job_actuals)
+ *   5. Raw data export (CSV)
  */
 
 import { useEffect, useState } from 'react';
@@ -18,6 +19,7 @@ import {
 import { Download, Loader2, RefreshCw } from 'lucide-react';
 import { format, subMonths, startOfMonth, endOfMonth } from 'date-fns';
 import { TRADE_JOB_STATUS_LABELS, isTradeJobStatus } from '@/types/trade';
+import { MarginReport } from '@/components/admin/MarginReport';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -343,6 +345,9 @@ export default function AdminReports() {
           </CardContent>
         </Card>
       </div>
+
+      {/* Margin analysis */}
+      <MarginReport />
     </div>
   );
 }
@@ -0,0 +1,142 @@
+/**
+ * Admin Supply Orders page — orders trade accounts place from the Trade
+ * Supply Store, newest first, with their lines, GST and linked job. Staff move
+ * each order through confirmed → fulfilled (or cancel it).
+ */
+
+import { Fragment, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { RefreshCw } from 'lucide-react';
+import { TRADE_ORDER_STATUS_LABELS, TradeOrderRow, TradeOrderStatus } from '@/lib/trade/tradeOrders';
+
+const AUD = (n: number) => new Intl.NumberFormat('en-AU', { style: 'currency', currency: 'AUD' }).format(n);
+
+type OrderWithNames = TradeOrderRow & { customer_name?: string; job_label?: string };
+
+export default function SupplyOrders() {
+  const [orders, setOrders] = useState<OrderWithNames[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const load = async () => {
+    setLoading(true);
+    const { data, error } = await (supabase as any)
+      .from('trade_orders')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(200);
+    if (error) {
+      console.error('Failed to load supply orders:', error);
+      toast.error('Failed to load supply orders');
+      setLoading(false);
+      return;
+    }
+    const rows = (data as TradeOrderRow[]) || [];
+    const customerIds = [...new Set(rows.map(o => o.customer_id))];
+    const jobIds = [...new Set(rows.flatMap(o => (o.job_id ? [o.job_id] : [])))];
+    const [{ data: profiles }, { data: jobs }] = await Promise.all([
+      supabase.from('profiles').select('id, full_name, email').in('id', customerIds),
+      supabase.from('jobs').select('id, job_number, name').in('id', jobIds),
+    ]);
+    const customerNames = new Map((profiles || []).map(p => [p.id, p.full_name || p.email]));
+    const jobLabels = new Map((jobs || []).map(j => [j.id, `#${j.job_number} ${j.name}`]));
+    setOrders(rows.map(o => ({
+      ...o,
+      customer_name: customerNames.get(o.customer_id) ?? undefined,
+      job_label: o.job_id ? jobLabels.get(o.job_id) : undefined,
+    })));
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const setStatus = async (order: TradeOrderRow, status: TradeOrderStatus) => {
+    const { error } = await (supabase as any).from('trade_orders').update({ status }).eq('id', order.id);
+    if (error) toast.error('Failed to update order');
+    else setOrders(prev => prev.map(o => (o.id === order.id ? { ...o, status } : o)));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Supply Orders</h1>
+          <p className="text-sm text-gray-500">Hardware and appliance orders from the Trade Supply Store.</p>
+        </div>
+        <Button variant="outline" onClick={load} disabled={loading}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Order</TableHead>
+                <TableHead>Placed</TableHead>
+                <TableHead>Customer</TableHead>
+                <TableHead>Job</TableHead>
+                <TableHead className="text-right">Total incl. GST</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {!loading && orders.length === 0 && (
+                <TableRow><TableCell colSpan={6} className="text-center text-gray-400">No supply orders yet.</TableCell></TableRow>
+              )}
+              {orders.map(order => (
+                <Fragment key={order.id}>
+                  <TableRow className="cursor-pointer" onClick={() => setExpanded(expanded === order.id ? null : order.id)}>
+                    <TableCell className="font-medium">#{order.order_number}</TableCell>
+                    <TableCell>{new Date(order.created_at).toLocaleDateString('en-AU')}</TableCell>
+                    <TableCell>{order.customer_name ?? '—'}</TableCell>
+                    <TableCell>
+                      {order.job_id ? <Link to={`/admin/jobs/${order.job_id}`} className="hover:underline" onClick={e => e.stopPropagation()}>{order.job_label ?? 'Job'}</Link> : '—'}
+                    </TableCell>
+                    <TableCell className="text-right">{AUD(Number(order.total))}</TableCell>
+                    <TableCell onClick={e => e.stopPropagation()}>
+                      <select
+                        className="h-8 rounded-md border px-2 text-sm"
+                        value={order.status}
+                        onChange={e => setStatus(order, e.target.value as TradeOrderStatus)}
+                        aria-label={`Status of order ${order.order_number}`}
+                      >
+                        {Object.entries(TRADE_ORDER_STATUS_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                      </select>
+                    </TableCell>
+                  </TableRow>
+                  {expanded === order.id && (
+                    <TableRow>
+                      <TableCell colSpan={6} className="bg-gray-50 text-sm">
+                        {order.items.map(line => (
+                          <div key={`${line.kind}:${line.sku}`} className="flex gap-3">
+                            <span className="w-32 text-gray-500">{line.sku}</span>
+                            <span className="flex-1">{line.name}</span>
+                            <span>{line.quantity} × {AUD(line.unitPrice)}</span>
+                            <span className="w-24 text-right">{AUD(line.lineTotal)}</span>
+                          </div>
+                        ))}
+                        <div className="mt-1 text-right text-gray-500">
+                          Subtotal {AUD(Number(order.subtotal))} · GST {AUD(Number(order.tax))}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </Fragment>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -307,6 +307,13 @@ export default function ApplianceCatalogAdmin() {
             <Field label="Cutout W (mm)"><NumInput value={editing.cutout_width_mm} onChange={(v) => setEditing({ ...editing, cutout_width_mm: v })} /></Field>
             <Field label="Cutout H (mm)"><NumInput value={editing.cutout_height_mm} onChange={(v) => setEditing({ ...editing, cutout_height_mm: v })} /></Field>
             <Field label="Cutout D (mm)"><NumInput value={editing.cutout_depth_mm} onChange={(v) => setEditing({ ...editing, cutout_depth_mm: v })} /></Field>
+            {editing.category === 'cooktop' && (
+              <>
+                <Field label="Rangehood clearance (mm)"><NumInput value={editing.rangehood_clearance_mm} onChange={(v) => setEditing({ ...editing, rangehood_clearance_mm: v })} /></Field>
+                <Field label="Overhead clearance (mm)"><NumInput value={editing.overhead_clearance_mm} onChange={(v) => setEditing({ ...editing, overhead_clearance_mm: v })} /></Field>
+                <Field label="Trivet height (mm)"><NumInput value={editing.trivet_height_mm} onChange={(v) => setEditing({ ...editing, trivet_height_mm: v })} /></Field>
+              </>
+            )}
 
             <Field label="RRP $"><NumInput value={editing.rrp} onChange={(v) => setEditing({ ...editing, rrp: v })} /></Field>
             <Field label="Sell $"><NumInput value={editing.sell_price} onChange={(v) => setEditing({ ...editing, sell_price: v })} /></Field>
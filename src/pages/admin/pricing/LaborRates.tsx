@@ -8,6 +8,7 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Save, Plus, Trash2 } from "lucide-react";
 import { fetchAllPricingRows } from "@/lib/pricing/fetchAllPricingRows";
+import { CalibrationProposal } from "@/components/admin/CalibrationProposal";
 
 
 interface LaborRate {
@@ -247,6 +248,8 @@ export default function LaborRates() {
             )}
           </CardContent>
         </Card>
+
+        <CalibrationProposal kind="time" />
       </div>
   );
 }
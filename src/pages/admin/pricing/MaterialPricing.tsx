@@ -8,6 +8,7 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Upload, Search, Save, ChevronLeft, ChevronRight, ExternalLink } from "lucide-react";
 import { fetchAllPricingRows } from "@/lib/pricing/fetchAllPricingRows";
+import { CalibrationProposal } from "@/components/admin/CalibrationProposal";
 
 
 interface MaterialPricing {
@@ -165,6 +166,8 @@ export default function MaterialPricing() {
           </div>
         </div>
 
+        <CalibrationProposal kind="yield" onApproved={loadMaterials} />
+
         <Card>
           <CardHeader>
             <div className="flex gap-4 flex-wrap">
@@ -0,0 +1,314 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Save, Plus, Trash2 } from "lucide-react";
+import { fetchAllPricingRows } from "@/lib/pricing/fetchAllPricingRows";
+import type { OffcutRecord, OffcutStatus } from "@/lib/pricing/types";
+
+
+interface MaterialOption {
+  id: string;
+  name: string;
+  item_code: string;
+}
+
+const STATUSES: OffcutStatus[] = ["available", "reserved", "used", "scrapped"];
+
+const EMPTY_OFFCUT = { material_id: "", length_mm: 0, width_mm: 0, location: "", notes: "" };
+
+export default function OffcutInventory() {
+  const [offcuts, setOffcuts] = useState<OffcutRecord[]>([]);
+  const [materials, setMaterials] = useState<MaterialOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<OffcutStatus | "all">("available");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editValues, setEditValues] = useState<Partial<OffcutRecord>>({});
+  const [showAdd, setShowAdd] = useState(false);
+  const [newOffcut, setNewOffcut] = useState(EMPTY_OFFCUT);
+
+  useEffect(() => {
+    loadOffcuts();
+  }, []);
+
+  const loadOffcuts = async () => {
+    try {
+      const [offcutRows, materialRows] = await Promise.all([
+        fetchAllPricingRows<OffcutRecord>("offcut_inventory"),
+        fetchAllPricingRows<MaterialOption>("material_pricing"),
+      ]);
+      setOffcuts(offcutRows.sort((a, b) => b.length_mm * b.width_mm - a.length_mm * a.width_mm));
+      setMaterials(materialRows.sort((a, b) => a.name.localeCompare(b.name)));
+    } catch (error) {
+      toast.error("Failed to load offcuts");
+      console.error(error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const materialName = (id: string) => materials.find(m => m.id === id)?.name ?? "Unknown material";
+
+  const startEdit = (item: OffcutRecord) => {
+    setEditingId(item.id);
+    setEditValues(item);
+  };
+
+  const saveEdit = async () => {
+    if (!editingId) return;
+
+    const { error } = await (supabase as any)
+      .from("offcut_inventory")
+      .update({
+        length_mm: editValues.length_mm,
+        width_mm: editValues.width_mm,
+        location: editValues.location || null,
+        notes: editValues.notes || null,
+        status: editValues.status,
+        // A released offcut is no longer held for any job.
+        ...(editValues.status === "available" ? { reserved_job_id: null } : {}),
+      })
+      .eq("id", editingId);
+
+    if (error) {
+      toast.error("Failed to save changes");
+    } else {
+      toast.success("Changes saved");
+      setEditingId(null);
+      loadOffcuts();
+    }
+  };
+
+  const addOffcut = async () => {
+    if (!newOffcut.material_id) {
+      toast.error("Material is required");
+      return;
+    }
+    if (!(newOffcut.length_mm > 0) || !(newOffcut.width_mm > 0)) {
+      toast.error("Length and width must be greater than zero");
+      return;
+    }
+
+    const { error } = await (supabase as any)
+      .from("offcut_inventory")
+      .insert({
+        ...newOffcut,
+        location: newOffcut.location || null,
+        notes: newOffcut.notes || null,
+      });
+
+    if (error) {
+      toast.error("Failed to add offcut");
+    } else {
+      toast.success("Offcut added");
+      setShowAdd(false);
+      setNewOffcut(EMPTY_OFFCUT);
+      loadOffcuts();
+    }
+  };
+
+  const deleteOffcut = async (id: string) => {
+    const { error } = await (supabase as any)
+      .from("offcut_inventory")
+      .delete()
+      .eq("id", id);
+
+    if (error) {
+      toast.error("Failed to delete offcut");
+    } else {
+      toast.success("Offcut deleted");
+      loadOffcuts();
+    }
+  };
+
+  const visible = statusFilter === "all" ? offcuts : offcuts.filter(o => o.status === statusFilter);
+
+  return (
+    <div className="p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold">Offcut Inventory</h1>
+            <p className="text-sm text-muted-foreground">
+              Available offcuts are nested before new sheets are bought. Length runs along the grain.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Select value={statusFilter} onValueChange={v => setStatusFilter(v as OffcutStatus | "all")}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                {STATUSES.map(s => (
+                  <SelectItem key={s} value={s} className="capitalize">{s}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={() => setShowAdd(true)}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Offcut
+            </Button>
+          </div>
+        </div>
+
+        {showAdd && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Register Offcut</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-5 gap-4">
+                <Select value={newOffcut.material_id} onValueChange={v => setNewOffcut({ ...newOffcut, material_id: v })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Material" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {materials.map(m => (
+                      <SelectItem key={m.id} value={m.id}>{m.name} ({m.item_code})</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  placeholder="Length (mm)"
+                  value={newOffcut.length_mm || ""}
+                  onChange={e => setNewOffcut({ ...newOffcut, length_mm: parseFloat(e.target.value) })}
+                />
+                <Input
+                  type="number"
+                  placeholder="Width (mm)"
+                  value={newOffcut.width_mm || ""}
+                  onChange={e => setNewOffcut({ ...newOffcut, width_mm: parseFloat(e.target.value) })}
+                />
+                <Input
+                  placeholder="Location (e.g., Rack B3)"
+                  value={newOffcut.location}
+                  onChange={e => setNewOffcut({ ...newOffcut, location: e.target.value })}
+                />
+                <Input
+                  placeholder="Notes"
+                  value={newOffcut.notes}
+                  onChange={e => setNewOffcut({ ...newOffcut, notes: e.target.value })}
+                />
+              </div>
+              <div className="flex gap-2 mt-4">
+                <Button onClick={addOffcut}>Save</Button>
+                <Button variant="outline" onClick={() => setShowAdd(false)}>Cancel</Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardContent className="pt-6">
+            {loading ? (
+              <p className="text-center py-8 text-muted-foreground">Loading...</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Material</TableHead>
+                    <TableHead>Length</TableHead>
+                    <TableHead>Width</TableHead>
+                    <TableHead>Location</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Notes</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visible.map(item => (
+                    <TableRow key={item.id}>
+                      {editingId === item.id ? (
+                        <>
+                          <TableCell className="font-medium">{materialName(item.material_id)}</TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              value={editValues.length_mm || 0}
+                              onChange={e => setEditValues({ ...editValues, length_mm: parseFloat(e.target.value) })}
+                              className="w-24"
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              value={editValues.width_mm || 0}
+                              onChange={e => setEditValues({ ...editValues, width_mm: parseFloat(e.target.value) })}
+                              className="w-24"
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              value={editValues.location || ""}
+                              onChange={e => setEditValues({ ...editValues, location: e.target.value })}
+                              className="w-32"
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Select
+                              value={editValues.status || "available"}
+                              onValueChange={v => setEditValues({ ...editValues, status: v as OffcutStatus })}
+                            >
+                              <SelectTrigger className="w-28">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {STATUSES.map(s => (
+                                  <SelectItem key={s} value={s} className="capitalize">{s}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              value={editValues.notes || ""}
+                              onChange={e => setEditValues({ ...editValues, notes: e.target.value })}
+                              className="w-48"
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Button size="sm" onClick={saveEdit}>
+                              <Save className="w-4 h-4" />
+                            </Button>
+                          </TableCell>
+                        </>
+                      ) : (
+                        <>
+                          <TableCell className="font-medium">{materialName(item.material_id)}</TableCell>
+                          <TableCell>{item.length_mm} mm</TableCell>
+                          <TableCell>{item.width_mm} mm</TableCell>
+                          <TableCell>{item.location}</TableCell>
+                          <TableCell className="capitalize">{item.status}</TableCell>
+                          <TableCell className="text-muted-foreground">{item.notes}</TableCell>
+                          <TableCell>
+                            <div className="flex gap-1">
+                              <Button size="sm" variant="ghost" onClick={() => startEdit(item)}>
+                                Edit
+                              </Button>
+                              <Button size="sm" variant="ghost" onClick={() => deleteOffcut(item.id)}>
+                                <Trash2 className="w-4 h-4 text-destructive" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+            {visible.length === 0 && !loading && (
+              <p className="text-center py-8 text-muted-foreground">
+                No offcuts registered. Add one to get started.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+  );
+}
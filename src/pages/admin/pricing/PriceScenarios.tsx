@@ -0,0 +1,390 @@
+/**
+ * Pricing scenario simulator: stage edits to material, hardware and labour
+ * prices, re-price a sample of recent saved jobs with and without them, and
+ * publish the set as one dated price revision once the impact looks right.
+ * Nothing is written until Publish, and then all at once, taking effect
+ * immediately: publish_price_revision_v1 refuses the revision if any value
+ * was changed elsewhere after it was staged.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FlaskConical, Loader2, Plus, Trash2, Upload } from 'lucide-react';
+import type { PricingData } from '@/lib/pricing';
+import { fetchAllPricingRows } from '@/lib/pricing/fetchAllPricingRows';
+import { fetchPricingData } from '@/hooks/useTradeRoomPricing';
+import { toCommercialOptions } from '@/hooks/useClientMarkup';
+import {
+  EDITABLE_PRICE_FIELDS,
+  PRICE_FIELD_LABELS,
+  PRICE_TABLE_LABELS,
+  PRICE_TABLES,
+  PriceEdit,
+  PriceTable,
+  revisionEdits,
+  revisionImpact,
+  SCENARIO_SAMPLE_SIZE,
+  ScenarioJob,
+  ScenarioResult,
+  simulatePriceEdits,
+  tradeRoomsOf,
+  withPriceEdit,
+} from '@/lib/trade/priceScenario';
+
+interface PriceRow {
+  id: string;
+  name: string;
+  item_code?: string | null;
+  [field: string]: unknown;
+}
+
+const AUD = (n: number) => new Intl.NumberFormat('en-AU', { style: 'currency', currency: 'AUD' }).format(n);
+const pct = (n: number | null) => (n == null ? '—' : `${n > 0 ? '+' : ''}${(n * 100).toFixed(1)}%`);
+const share = (n: number | null) => (n == null ? '—' : `${(n * 100).toFixed(1)}%`);
+const deltaClass = (n: number) => (n > 0 ? 'text-red-600' : n < 0 ? 'text-green-700' : 'text-muted-foreground');
+
+async function loadScenarioJobs(): Promise<ScenarioJob[]> {
+  const { data: jobs, error } = await supabase
+    .from('jobs')
+    .select('id, job_number, name, customer_id, design_data')
+    .not('design_data', 'is', null)
+    .order('updated_at', { ascending: false })
+    .limit(SCENARIO_SAMPLE_SIZE * 2);
+  if (error) throw error;
+  const sample = (jobs ?? []).filter(job => tradeRoomsOf(job.design_data).length > 0).slice(0, SCENARIO_SAMPLE_SIZE);
+
+  const customerIds = [...new Set(sample.map(job => job.customer_id).filter(Boolean))] as string[];
+  const [{ data: markups, error: markupError }, { data: globalDefault, error: globalError }] = await Promise.all([
+    customerIds.length > 0
+      ? supabase.from('client_markup_settings').select('*').in('client_id', customerIds).eq('is_default', true)
+      : Promise.resolve({ data: [], error: null }),
+    supabase.from('client_markup_settings').select('*').is('client_id', null).eq('is_default', true).limit(1),
+  ]);
+  if (markupError) throw markupError;
+  if (globalError) throw globalError;
+  const markupByClient = new Map((markups ?? []).map(row => [row.client_id, row]));
+  const fallback = globalDefault?.[0] ?? null;
+
+  return sample.map(job => {
+    const markup = markupByClient.get(job.customer_id) ?? fallback;
+    return {
+      id: job.id,
+      label: `#${job.job_number} ${job.name}`,
+      rooms: tradeRoomsOf(job.design_data),
+      commercial: markup ? toCommercialOptions(markup) : {},
+    };
+  });
+}
+
+export default function PriceScenarios() {
+  const [rows, setRows] = useState<Record<PriceTable, PriceRow[]>>({ material_pricing: [], hardware_pricing: [], labor_rates: [] });
+  const [baseline, setBaseline] = useState<PricingData | null>(null);
+  const [jobs, setJobs] = useState<ScenarioJob[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const [table, setTable] = useState<PriceTable>('material_pricing');
+  const [search, setSearch] = useState('');
+  const [rowId, setRowId] = useState('');
+  const [field, setField] = useState(EDITABLE_PRICE_FIELDS.material_pricing[0]);
+  const [value, setValue] = useState('');
+
+  const [edits, setEdits] = useState<PriceEdit[]>([]);
+  const [result, setResult] = useState<ScenarioResult | null>(null);
+  const [simulatedEdits, setSimulatedEdits] = useState<PriceEdit[] | null>(null);
+  const [simulating, setSimulating] = useState(false);
+  const [revisionName, setRevisionName] = useState('');
+  const [publishing, setPublishing] = useState(false);
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      const [materials, hardware, labor, pricing, sample] = await Promise.all([
+        fetchAllPricingRows<PriceRow>('material_pricing', { visibility_status: 'Available' }),
+        fetchAllPricingRows<PriceRow>('hardware_pricing', { visibility_status: 'Available' }),
+        fetchAllPricingRows<PriceRow>('labor_rates'),
+        fetchPricingData(),
+        loadScenarioJobs(),
+      ]);
+      const byName = (a: PriceRow, b: PriceRow) => a.name.localeCompare(b.name);
+      setRows({ material_pricing: materials.sort(byName), hardware_pricing: hardware.sort(byName), labor_rates: labor.sort(byName) });
+      setBaseline(pricing);
+      setJobs(sample);
+    } catch (error) {
+      console.error('Failed to load pricing scenario data:', error);
+      toast.error('Failed to load pricing data');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const matches = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return rows[table]
+      .filter(row => !term || row.name.toLowerCase().includes(term) || String(row.item_code ?? '').toLowerCase().includes(term))
+      .slice(0, 50);
+  }, [rows, table, search]);
+
+  const selected = rows[table].find(row => row.id === rowId);
+  const current = selected && selected[field] != null ? Number(selected[field]) : null;
+  const upToDate = simulatedEdits === edits;
+  const defaultRevisionName = `Price revision ${new Date().toISOString().slice(0, 10)}`;
+
+  const changeTable = (next: PriceTable) => {
+    setTable(next);
+    setRowId('');
+    setSearch('');
+    setField(EDITABLE_PRICE_FIELDS[next][0]);
+  };
+
+  const addEdit = () => {
+    const to = Number(value);
+    if (!selected || value.trim() === '' || !Number.isFinite(to) || to < 0) {
+      toast.error('Pick an item and enter a valid new value');
+      return;
+    }
+    setEdits(list => withPriceEdit(list, {
+      table,
+      rowId: selected.id,
+      itemCode: selected.item_code ?? null,
+      itemName: selected.name,
+      field,
+      from: current,
+      to,
+    }));
+    setValue('');
+  };
+
+  const simulate = () => {
+    if (!baseline) return;
+    setSimulating(true);
+    // Let the spinner paint before the synchronous BOM runs.
+    setTimeout(() => {
+      try {
+        setResult(simulatePriceEdits(jobs, baseline, edits));
+        setSimulatedEdits(edits);
+      } finally {
+        setSimulating(false);
+      }
+    }, 0);
+  };
+
+  const publish = async () => {
+    if (!result || !upToDate || edits.length === 0) return;
+    setPublishing(true);
+    try {
+      const { error } = await (supabase as any).rpc('publish_price_revision_v1', {
+        p_name: revisionName.trim() || defaultRevisionName,
+        p_edits: revisionEdits(edits),
+        p_impact: revisionImpact(result),
+      });
+      if (error) {
+        if (error.message?.includes('price_changed') || error.message?.includes('price_row_missing')) {
+          toast.error(`${error.details || 'A price'} changed since these edits were staged - nothing was published. Reload and stage them again.`);
+          return;
+        }
+        throw error;
+      }
+      toast.success(`Published ${edits.length} price change${edits.length !== 1 ? 's' : ''}`);
+      setEdits([]);
+      setResult(null);
+      setSimulatedEdits(null);
+      setRevisionName('');
+      load();
+    } catch (error) {
+      console.error('Failed to publish price revision:', error);
+      toast.error('Failed to publish price revision');
+    } finally {
+      setPublishing(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="p-6 flex items-center justify-center">
+        <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Price Scenarios</h1>
+        <p className="text-sm text-muted-foreground">
+          Preview how price changes move the {jobs.length} most recent saved job{jobs.length !== 1 ? 's' : ''} before publishing them.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Proposed changes</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-6 gap-3">
+            <Select value={table} onValueChange={v => changeTable(v as PriceTable)}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {PRICE_TABLES.map(t => <SelectItem key={t} value={t}>{PRICE_TABLE_LABELS[t]}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <Input placeholder="Search items" value={search} onChange={e => setSearch(e.target.value)} />
+            <Select value={rowId} onValueChange={setRowId}>
+              <SelectTrigger><SelectValue placeholder="Item" /></SelectTrigger>
+              <SelectContent>
+                {matches.map(row => <SelectItem key={row.id} value={row.id}>{row.name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <Select value={field} onValueChange={setField}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {EDITABLE_PRICE_FIELDS[table].map(f => <SelectItem key={f} value={f}>{PRICE_FIELD_LABELS[f] ?? f}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              min={0}
+              step="0.01"
+              placeholder={current != null ? `Now ${current}` : 'New value'}
+              value={value}
+              onChange={e => setValue(e.target.value)}
+            />
+            <Button variant="outline" onClick={addEdit}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add change
+            </Button>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                <TableHead>Field</TableHead>
+                <TableHead className="text-right">Current</TableHead>
+                <TableHead className="text-right">Proposed</TableHead>
+                <TableHead className="text-right">Change</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {edits.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">No changes staged.</TableCell>
+                </TableRow>
+              )}
+              {edits.map(edit => (
+                <TableRow key={`${edit.table}:${edit.rowId}:${edit.field}`}>
+                  <TableCell>
+                    <span className="text-xs text-muted-foreground mr-2">{PRICE_TABLE_LABELS[edit.table]}</span>
+                    {edit.itemName}
+                  </TableCell>
+                  <TableCell>{PRICE_FIELD_LABELS[edit.field] ?? edit.field}</TableCell>
+                  <TableCell className="text-right">{edit.from ?? '—'}</TableCell>
+                  <TableCell className="text-right font-semibold">{edit.to}</TableCell>
+                  <TableCell className="text-right">{edit.from ? pct((edit.to - edit.from) / edit.from) : '—'}</TableCell>
+                  <TableCell className="text-right">
+                    <Button size="sm" variant="ghost" onClick={() => setEdits(list => list.filter(e => e !== edit))}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          <div className="flex justify-end">
+            <Button onClick={simulate} disabled={edits.length === 0 || simulating || !baseline}>
+              {simulating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <FlaskConical className="w-4 h-4 mr-2" />}
+              Simulate
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {result && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Impact on {result.jobs.length} job{result.jobs.length !== 1 ? 's' : ''}</CardTitle>
+            {!upToDate && <p className="text-xs text-amber-600">The changes have been edited since this run — simulate again to publish.</p>}
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 rounded-lg bg-muted/50 p-3 text-sm">
+              <div>
+                <p className="text-xs text-muted-foreground">Quote totals (inc GST)</p>
+                <p className="font-semibold">{AUD(result.before.total)} → {AUD(result.after.total)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Change</p>
+                <p className={`font-semibold ${deltaClass(result.totalDelta)}`}>{AUD(result.totalDelta)} · {pct(result.totalDeltaPct)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Margin</p>
+                <p className="font-semibold">{AUD(result.before.margin)} → {AUD(result.after.margin)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Margin % of sell</p>
+                <p className="font-semibold">{share(result.before.marginPct)} → {share(result.after.marginPct)}</p>
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Job</TableHead>
+                  <TableHead className="text-right">Total now</TableHead>
+                  <TableHead className="text-right">Total after</TableHead>
+                  <TableHead className="text-right">Change</TableHead>
+                  <TableHead className="text-right">Margin now</TableHead>
+                  <TableHead className="text-right">Margin after</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {[...result.jobs].sort((a, b) => Math.abs(b.totalDelta) - Math.abs(a.totalDelta)).map(job => (
+                  <TableRow key={job.id}>
+                    <TableCell>
+                      <Link to={`/admin/jobs/${job.id}`} className="hover:underline">{job.label}</Link>
+                    </TableCell>
+                    <TableCell className="text-right">{AUD(job.before.total)}</TableCell>
+                    <TableCell className="text-right">{AUD(job.after.total)}</TableCell>
+                    <TableCell className={`text-right font-semibold ${deltaClass(job.totalDelta)}`}>{pct(job.totalDeltaPct)}</TableCell>
+                    <TableCell className="text-right">{share(job.before.marginPct)}</TableCell>
+                    <TableCell className="text-right">{share(job.after.marginPct)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {result.skipped.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Skipped: {result.skipped.map(job => `${job.label} (${job.reason})`).join(', ')}
+              </p>
+            )}
+
+            <div className="flex flex-col md:flex-row gap-3 md:items-center md:justify-end border-t pt-4">
+              <p className="text-xs text-muted-foreground md:mr-auto">Prices change as soon as the revision is published.</p>
+              <Input
+                className="md:w-72"
+                placeholder={defaultRevisionName}
+                value={revisionName}
+                onChange={e => setRevisionName(e.target.value)}
+              />
+              <Button onClick={publish} disabled={!upToDate || publishing || edits.length === 0}>
+                <Upload className="w-4 h-4 mr-2" />
+                Publish revision
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -11,6 +11,7 @@ import {
   Loader2, CheckCircle2, Clock, AlertCircle, ArrowRight,
   Home, Phone, Mail, ChevronRight,
 } from 'lucide-react';
+import { QuoteAcceptance } from '@/components/homeowner/QuoteAcceptance';
 
 interface PublicJob {
   id: string;
@@ -55,6 +56,14 @@ const HOMEOWNER_STATUSES: Record<string, {
     borderColor: 'border-purple-200',
     step: 3,
   },
+  pending_approval: {
+    label: 'Quote Ready',
+    description: 'Your quote is ready. Review it below, then sign and pay the deposit to go ahead.',
+    color: 'text-purple-700',
+    bgColor: 'bg-purple-50',
+    borderColor: 'border-purple-200',
+    step: 3,
+  },
   approved: {
     label: 'In Production',
     description: 'Excellent! Your kitchen has been approved and is being prepared for production.',
@@ -220,6 +229,10 @@ export default function QuoteStatus() {
               <p className={`text-sm ${statusInfo.color} opacity-90`}>{statusInfo.description}</p>
             </div>
 
+            {['pending_approval', 'approved', 'completed'].includes(job.status) && (
+              <QuoteAcceptance jobId={job.id} onAccepted={() => setJob({ ...job, status: 'approved' })} />
+            )}
+
             {/* Quote summary */}
             {job.cost_incl_tax != null && job.cost_incl_tax > 0 && (
               <div className="bg-slate-50 rounded-xl p-4 mb-6 flex items-center justify-between">
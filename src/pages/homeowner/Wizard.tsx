@@ -49,14 +49,16 @@ import { z } from 'zod';
 import {
   briefFromWizard, compileSpec, defaultSpecFor, priceDesign,
   inferLayoutShapeFromWalls, kitchenSpecSchema, MIN_WALL_RUN_MM,
-  openingSchema, servicePointSchema,
+  openingSchema, servicePointSchema, sinkWetZone, squareUpPolygonRoom,
 } from '@/lib/layout';
-import type { Wall, WallRunRanges } from '@/lib/layout';
+import type { ApplianceChoices, Wall, WallRunRanges } from '@/lib/layout';
 import { RoomFeaturesEditor } from '@/components/shared/RoomFeaturesEditor';
 import StepCook from './steps/StepCook';
 import StepAppliances from './steps/StepAppliances';
 import StepDesign from './steps/StepDesign';
 import { useApplianceCatalog } from '@/hooks/useApplianceCatalog';
+import { useLayoutRulePack } from '@/hooks/useLayoutRulePack';
+import { useRegulatoryProfiles } from '@/hooks/useRegulatoryProfiles';
 import {
   APPLIANCE_CATEGORY_ORDER,
   APPLIANCE_CATEGORY_LABELS,
@@ -69,7 +71,14 @@ import {
   anyPlaceholderPrices,
 } from './applianceSelection';
 import { buildBrief, createWizardDesign, upgradeWizardDesign, type WizardDesign } from './wizardBrief';
-import { evaluateDesign } from '@/lib/designV2';
+import {
+  evaluateDesign,
+  kitchenProjectScopeSchema,
+  projectContextFor,
+  regulatoryJurisdictionSchema,
+  type KitchenProjectScope,
+  type RegulatoryJurisdiction,
+} from '@/lib/designV2';
 import { STYLE_PRESETS } from '@/data/stylePresets';
 import { useWizardPricing } from '@/hooks/useWizardPricing';
 import { featureFlags } from '@/lib/featureFlags';
@@ -122,10 +131,18 @@ interface WizardState {
   dishwasher:   boolean;
   /** Exact manufactured sink cabinet derived from the selected catalog sink. */
   sinkCabinetWidthMm?: number;
+  /** Bowl sizes of the selected catalog sink; they set its wet zone. */
+  sinkBowlSizes?: string[];
   fridgeWidthMm: number;
   /** Exact selected-model cavity; absent uses the generic planning allowance. */
   fridgeOpeningWidthMm?: number;
+  /** Installation-instruction clearances of the selected catalog cooktop. */
+  cooktopInstructions?: ApplianceChoices['cooktopInstructions'];
   island:       'want' | 'no' | 'if-it-fits';
+  /** Where the kitchen is and what work is being done: selects the
+   *  regulatory profile regulated rules are judged against. */
+  jurisdiction?: RegulatoryJurisdiction;
+  projectScope?: KitchenProjectScope;
   // Inspiration + client-chosen finishes from a website flat-lay handoff — the
   // AI designer honours these as a strong style preference.
   styleWords?:  string;
@@ -381,9 +398,13 @@ interface SharePayloadV1 {
     cooktop?: 'gas' | 'induction';
     dishwasher: boolean;
     sinkCabinetWidthMm?: number;
+    sinkBowlSizes?: string[];
     fridgeWidthMm: number;
     fridgeOpeningWidthMm?: number;
+    cooktopInstructions?: WizardState['cooktopInstructions'];
     island: WizardState['island'];
+    jurisdiction?: RegulatoryJurisdiction;
+    projectScope?: KitchenProjectScope;
   };
   styleWords?: string;
   /** Homeowner appliance catalog picks (Stage 3). */
@@ -469,11 +490,15 @@ export async function encodeSharePayload(state: WizardState): Promise<string | n
         ...(state.sinkCabinetWidthMm
           ? { sinkCabinetWidthMm: state.sinkCabinetWidthMm }
           : {}),
+        ...(state.sinkBowlSizes?.length ? { sinkBowlSizes: state.sinkBowlSizes } : {}),
         fridgeWidthMm: state.fridgeWidthMm,
         ...(state.fridgeOpeningWidthMm
           ? { fridgeOpeningWidthMm: state.fridgeOpeningWidthMm }
           : {}),
+        ...(state.cooktopInstructions ? { cooktopInstructions: state.cooktopInstructions } : {}),
         island: state.island,
+        ...(state.jurisdiction ? { jurisdiction: state.jurisdiction } : {}),
+        ...(state.projectScope ? { projectScope: state.projectScope } : {}),
       },
       ...(state.styleWords ? { styleWords: state.styleWords } : {}),
       ...(Object.keys(state.chosenAppliances ?? {}).length
@@ -567,11 +592,30 @@ export async function decodeSharePayload(encoded: string): Promise<Partial<Wizar
       if (typeof c.sinkCabinetWidthMm === 'number') {
         patch.sinkCabinetWidthMm = Math.max(600, Math.min(1400, Math.round(c.sinkCabinetWidthMm)));
       }
+      if (Array.isArray(c.sinkBowlSizes)) {
+        const bowlSizes = c.sinkBowlSizes.filter((s): s is string => typeof s === 'string').slice(0, 4).map(s => s.slice(0, 60));
+        if (bowlSizes.length) patch.sinkBowlSizes = bowlSizes;
+      }
       if (typeof c.fridgeWidthMm === 'number') patch.fridgeWidthMm = Math.max(500, Math.min(1400, c.fridgeWidthMm));
       if (typeof c.fridgeOpeningWidthMm === 'number') {
         patch.fridgeOpeningWidthMm = Math.max(500, Math.min(1800, c.fridgeOpeningWidthMm));
       }
+      if (c.cooktopInstructions && typeof c.cooktopInstructions === 'object') {
+        const clearance = (mm: unknown, max: number) =>
+          typeof mm === 'number' && Number.isFinite(mm) && mm >= 0 && mm <= max ? Math.round(mm) : undefined;
+        const instructions = {
+          rangehoodClearanceMm: clearance(c.cooktopInstructions.rangehoodClearanceMm, 2000),
+          overheadClearanceMm: clearance(c.cooktopInstructions.overheadClearanceMm, 2000),
+          trivetHeightMm: clearance(c.cooktopInstructions.trivetHeightMm, 200),
+        };
+        const known = Object.fromEntries(Object.entries(instructions).filter(([, mm]) => mm !== undefined));
+        if (Object.keys(known).length) patch.cooktopInstructions = known;
+      }
       if (c.island === 'want' || c.island === 'no' || c.island === 'if-it-fits') patch.island = c.island;
+      const jurisdiction = regulatoryJurisdictionSchema.safeParse(c.jurisdiction);
+      if (jurisdiction.success) patch.jurisdiction = jurisdiction.data;
+      const projectScope = kitchenProjectScopeSchema.safeParse(c.projectScope);
+      if (projectScope.success) patch.projectScope = projectScope.data;
     }
     if (typeof raw.styleWords === 'string' && raw.styleWords.trim()) {
       patch.styleWords = raw.styleWords.slice(0, 500);
@@ -1184,6 +1228,14 @@ function Step1Room({ state, onChange, onValidityChange }: { state: WizardState;
     { id: 'galley',      label: 'Galley',      desc: 'Two facing runs' },
   ];
   const manualLayout = inferLayoutShapeFromWalls(state.cabinetWalls);
+  // Power points inside the sink's wet zone, on the plan Review would show:
+  // the chosen design, else the default for these walls. The chosen sink's
+  // bowl sizes ride on the brief, as they do for the layout rule.
+  const wetZoneConflicts = React.useMemo(() => {
+    const brief = buildBrief(state);
+    const compiled = compileSpec(state.design?.spec ?? defaultSpecFor(brief, state.layoutPreference), brief.room);
+    return sinkWetZone(compiled, brief.room, brief.appliances.sinkBowlSizes)?.conflicts ?? [];
+  }, [state]);
   const pending = state.pendingRoomPatch;
   const pendingSummary = pending ? [
     pending.width !== undefined ? `Width: ${pending.width} mm` : null,
@@ -1382,6 +1434,7 @@ function Step1Room({ state, onChange, onValidityChange }: { state: WizardState;
           cabinetLayout={state.layoutPreference}
           cabinetWalls={state.cabinetWalls}
           cabinetWallRanges={state.cabinetWallRanges}
+          wetZoneConflicts={wetZoneConflicts}
           showHeading={false}
           onChange={p => onChange(p)}
         />
@@ -1751,6 +1804,8 @@ function Step4Review({ state, onChange }: { state: WizardState; onChange: (p: Pa
   // and (b) priced independently below (so sinks/taps/ovens with no visible
   // slot still contribute to the estimate). Empty when the customer skipped.
   const { products: applianceProducts } = useApplianceCatalog({ activeOnly: true });
+  const { rulePack } = useLayoutRulePack();
+  const { approvedProfiles } = useRegulatoryProfiles();
   const items = React.useMemo(
     () => [
       ...enrichItemsWithChosenAppliances(compiled.items, state.chosenAppliances, applianceProducts),
@@ -1769,7 +1824,11 @@ function Step4Review({ state, onChange }: { state: WizardState; onChange: (p: Pa
   const applianceSubtotal = sumAppliances(applianceLineItems);
   const applianceHasPlaceholder = anyPlaceholderPrices(applianceLineItems);
 
-  const evald = evaluateDesign(compiled, brief.room, brief, activeSpec);
+  const evald = evaluateDesign(compiled, brief.room, brief, activeSpec, {
+    rulePack,
+    projectContext: projectContextFor(state.jurisdiction, state.projectScope),
+    approvedProfiles,
+  });
   const designViolations = evald.violations;
   const blockingErrors = designViolations.filter(v => v.severity === 'error');
   const conceptBlocked = evald.conceptBlocker || blockingErrors.length > 0;
@@ -2214,10 +2273,49 @@ function Step4Review({ state, onChange }: { state: WizardState; onChange: (p: Pa
   );
 }
 
+/**
+ * Wizard room fields from a scanned room. The homeowner designer plans
+ * rectangle and L rooms only, so a custom-outline scan is squared up to its
+ * bounding box; `dropped` counts features left on walls that box lacks.
+ */
+function scanRoomFields(scan: RoomScanV1): { fields: Partial<WizardState>; squared: boolean; dropped: number } {
+  const scanned = {
+    ...scan.room,
+    openings: scan.room.openings as Opening[],
+    services: scan.room.services as ServicePoint[],
+  } as RoomConfig;
+  const squared = scanned.shape === 'Polygon';
+  const { room, dropped } = squared ? squareUpPolygonRoom(scanned) : { room: scanned, dropped: 0 };
+  return {
+    fields: {
+      roomWidth: room.width,
+      roomDepth: room.depth,
+      roomHeight: room.height,
+      roomGeometryShape: room.shape,
+      roomCutoutWidth: room.cutoutWidth,
+      roomCutoutDepth: room.cutoutDepth,
+      openings: room.openings ?? [],
+      services: room.services ?? [],
+    },
+    squared,
+    dropped,
+  };
+}
+
+function warnSquaredScan(dropped: number) {
+  toast.warning(
+    dropped > 0
+      ? `Your room has angled or extra walls, so it is shown as a rectangle here; ${dropped} feature${dropped === 1 ? '' : 's'} on those walls need re-marking.`
+      : 'Your room has angled or extra walls, so it is shown as a rectangle here.',
+  );
+}
+
 // ─── Main shell ──────────────────────────────────────────────────────────────────
 
 export default function HomeownerWizard() {
   const [searchParams, setSearchParams] = useSearchParams();
+  const { rulePack } = useLayoutRulePack();
+  const { approvedProfiles } = useRegulatoryProfiles();
 
   // Initialise from defaults ← saved session (mobile reload survival) ← URL
   // params. URL params win: they are synced FROM state, so on a plain reload
@@ -2351,6 +2449,7 @@ export default function HomeownerWizard() {
     const h = parsed.handoff;
     const styleWords = handoffToStyleWords(h);
     const scan = h.roomScan;
+    const scanned = scan ? scanRoomFields(scan) : null;
     onChange({
       handoffContext: { handoffId, ...(handoffToken ? { token: handoffToken } : {}) },
       ...(scan
@@ -2358,14 +2457,7 @@ export default function HomeownerWizard() {
             step: 1,
             design: null,
             incomingScan: scan,
-            roomWidth: scan.room.width,
-            roomDepth: scan.room.depth,
-            roomHeight: scan.room.height,
-            roomGeometryShape: scan.room.shape,
-            roomCutoutWidth: scan.room.cutoutWidth,
-            roomCutoutDepth: scan.room.cutoutDepth,
-            openings: scan.room.openings as Opening[],
-            services: scan.room.services as ServicePoint[],
+            ...scanned.fields,
           }
         : {
             ...(h.dimensions?.widthMm ? { roomWidth: h.dimensions.widthMm } : {}),
@@ -2374,6 +2466,7 @@ export default function HomeownerWizard() {
       ...(styleWords ? { styleWords } : {}),
     });
     if (scan) toast.success('Room scan loaded — please check the room details.');
+    if (scanned?.squared) warnSquaredScan(scanned.dropped);
   }, [handoffPayload, handoffId, handoffToken, onChange]);
 
   // WebXR capture handoff (/wizard/scan → sessionStorage → here). One-shot:
@@ -2388,22 +2481,17 @@ export default function HomeownerWizard() {
       const parsed = parseRoomScan(JSON.parse(raw));
       if (!parsed.ok || parsed.scan.state !== 'unconfirmed') return;
       const scan = parsed.scan;
+      // The scan is authoritative for the full geometry: height (measured
+      // or defaulted by the scanner) and shape/cutouts (L-scans land as L).
+      const scanned = scanRoomFields(scan);
       onChange({
         step: 1,
         design: null,
         incomingScan: scan,
-        roomWidth: scan.room.width,
-        roomDepth: scan.room.depth,
-        // The scan is authoritative for the full geometry: height (measured
-        // or defaulted by the scanner) and shape/cutouts (L-scans land as L).
-        roomHeight: scan.room.height,
-        roomGeometryShape: scan.room.shape,
-        roomCutoutWidth: scan.room.cutoutWidth,
-        roomCutoutDepth: scan.room.cutoutDepth,
-        openings: scan.room.openings as Opening[],
-        services: scan.room.services as ServicePoint[],
+        ...scanned.fields,
       });
       toast.success('Room scanned — check the size and mark doors, windows and plumbing.');
+      if (scanned.squared) warnSquaredScan(scanned.dropped);
     } catch {
       // Storage unavailable or corrupt payload — manual entry still works.
     }
@@ -2420,6 +2508,11 @@ export default function HomeownerWizard() {
     // intentionally omitting step / doorsOpen / contact fields
   ]);
 
+  const projectContext = React.useMemo(
+    () => projectContextFor(state.jurisdiction, state.projectScope),
+    [state.jurisdiction, state.projectScope],
+  );
+
   const selectedDesignHasBlockingErrors = (() => {
     if (!state.design) return false;
     const brief = buildBrief(state);
@@ -2429,7 +2522,11 @@ export default function HomeownerWizard() {
     };
     // One rules pipeline (brief v4.3 §4.4): the concept gate comes from
     // evaluateDesign, not hand-rolled severity filtering.
-    return evaluateDesign(compileSpec(spec, brief.room), brief.room, brief, spec).conceptBlocker;
+    return evaluateDesign(compileSpec(spec, brief.room), brief.room, brief, spec, {
+      rulePack,
+      projectContext,
+      approvedProfiles,
+    }).conceptBlocker;
   })();
 
   const designStudioEnabled = featureFlags.designStudio;
@@ -2524,6 +2621,8 @@ export default function HomeownerWizard() {
             }}
             onChange={next => onChange({ chosenAppliances: next })}
             onSinkCabinetWidthChange={sinkCabinetWidthMm => onChange({ sinkCabinetWidthMm })}
+            onSinkBowlSizesChange={sinkBowlSizes => onChange({ sinkBowlSizes })}
+            onCooktopInstructionsChange={cooktopInstructions => onChange({ cooktopInstructions })}
             onFridgeDimensionsChange={({ bodyWidthMm, openingWidthMm }) => onChange({
               fridgeWidthMm: bodyWidthMm,
               fridgeOpeningWidthMm: openingWidthMm,
@@ -2542,6 +2641,7 @@ export default function HomeownerWizard() {
                   style={styleSpecFromState(state)}
                   design={state.design}
                   chosenAppliances={state.chosenAppliances}
+                  projectContext={projectContext}
                   onDesignChange={d => onChange({ design: d })}
                   onRoomPatchProposed={patch => onChange({ pendingRoomPatch: patch, step: 1 })}
                   onReturnToRoom={() => onChange({ step: 1 })}
@@ -2558,6 +2658,7 @@ export default function HomeownerWizard() {
             style={styleSpecFromState(state)}
             design={state.design}
             chosenAppliances={state.chosenAppliances}
+            projectContext={projectContext}
             onDesignChange={d => onChange({ design: d })}
             onRoomPatchProposed={patch => onChange({ pendingRoomPatch: patch, step: 1 })}
             onReturnToRoom={() => onChange({ step: 1 })}
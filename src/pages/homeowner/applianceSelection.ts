@@ -19,7 +19,7 @@
  */
 import type { GlobalDimensions, PlacedItem } from '@/types';
 import { DEFAULT_GLOBAL_DIMENSIONS } from '@/constants';
-import type { CompiledDesign } from '@/lib/layout';
+import type { ApplianceChoices, CompiledDesign } from '@/lib/layout';
 import type {
   ApplianceLineItem,
   ApplianceProductRecord,
@@ -282,6 +282,22 @@ export function snapshotFromProduct(p: ApplianceProductRecord): NonNullable<Plac
   };
 }
 
+/**
+ * Clearances the cooktop's installation instructions set, for
+ * `DesignBrief.appliances.cooktopInstructions`. Undefined when the catalogue
+ * records none, so the regulatory profile alone applies.
+ */
+export function cooktopInstructionsFromProduct(
+  p: ApplianceProductRecord | undefined,
+): ApplianceChoices['cooktopInstructions'] | undefined {
+  if (!p) return undefined;
+  const instructions: NonNullable<ApplianceChoices['cooktopInstructions']> = {};
+  if (p.rangehood_clearance_mm && p.rangehood_clearance_mm > 0) instructions.rangehoodClearanceMm = p.rangehood_clearance_mm;
+  if (p.overhead_clearance_mm && p.overhead_clearance_mm > 0) instructions.overheadClearanceMm = p.overhead_clearance_mm;
+  if (p.trivet_height_mm != null && p.trivet_height_mm >= 0) instructions.trivetHeightMm = p.trivet_height_mm;
+  return Object.keys(instructions).length ? instructions : undefined;
+}
+
 /**
  * Return a new items array with visible catalog appliances stamped onto the
  * matching engine-placed slots. Only touches items whose category we can
@@ -18,10 +18,12 @@ import { cn } from '@/lib/utils';
 import { useApplianceCatalog } from '@/hooks/useApplianceCatalog';
 import { sinkCabinetMinimumWidthMm } from '@/lib/homeowner/kitchenEditor';
 import type { ApplianceProductRecord } from '@/lib/pricing/types';
+import type { ApplianceChoices } from '@/lib/layout';
 import {
   APPLIANCE_CATEGORY_ORDER,
   APPLIANCE_CATEGORY_LABELS,
   applianceDisplayPrice,
+  cooktopInstructionsFromProduct,
   filterApplianceProducts,
   groupAppliancesByCategory,
   filterCatalogToCooking,
@@ -39,6 +41,8 @@ interface Props {
   onChange: (chosen: Record<string, string>) => void;
   /** Size the manufactured sink base before any layout candidate is built. */
   onSinkCabinetWidthChange?: (widthMm: number | undefined) => void;
+  /** The selected sink's bowl sizes, which set the span of its wet zone. */
+  onSinkBowlSizesChange?: (bowlSizes: string[] | undefined) => void;
   /** Keep the generated opening in sync with the selected model. Catalog
    * cut-out width is authoritative when supplied; otherwise the engine uses
    * its conservative freestanding allowance. */
@@ -46,6 +50,9 @@ interface Props {
     bodyWidthMm: number;
     openingWidthMm?: number;
   }) => void;
+  /** Clearances from the selected cooktop's installation instructions, held
+   *  alongside the regulatory profile by the clearance rules. */
+  onCooktopInstructionsChange?: (instructions: ApplianceChoices['cooktopInstructions']) => void;
 }
 
 function money(n: number): string {
@@ -333,7 +340,9 @@ export default function StepAppliances({
   cooking,
   onChange,
   onSinkCabinetWidthChange,
+  onSinkBowlSizesChange,
   onFridgeDimensionsChange,
+  onCooktopInstructionsChange,
 }: Props) {
   const { byCategory, isLoading, error } = useApplianceCatalog({ activeOnly: true });
   const [showAll, setShowAll] = React.useState(false);
@@ -360,6 +369,7 @@ export default function StepAppliances({
       onSinkCabinetWidthChange?.(selected
         ? sinkCabinetMinimumWidthMm(selected.width_mm, selected.cutout_width_mm)
         : undefined);
+      onSinkBowlSizesChange?.(selected?.bowl_sizes?.length ? selected.bowl_sizes : undefined);
     } else if (cat === 'fridge' && id && id !== '__none__') {
       const selected = allGrouped.fridge.find(product => product.id === id);
       const widthMm = selected?.width_mm;
@@ -377,6 +387,10 @@ export default function StepAppliances({
       }
     } else if (cat === 'fridge') {
       onFridgeDimensionsChange?.({ bodyWidthMm: cooking?.fridgeWidthMm ?? 900 });
+    } else if (cat === 'cooktop') {
+      onCooktopInstructionsChange?.(cooktopInstructionsFromProduct(id && id !== '__none__'
+        ? allGrouped.cooktop.find(product => product.id === id)
+        : undefined));
     }
   };
 
@@ -1,7 +1,9 @@
 /**
  * Step 2 — "How you cook": household, priorities, appliances, island.
  * Feeds DesignBrief so both the default layout and the AI designer
- * plan around real usage instead of guesses.
+ * plan around real usage instead of guesses. Where the kitchen is and the
+ * kind of project pick the regulatory profile its gas and electrical
+ * clearances are checked against.
  */
 
 import React from 'react';
@@ -9,6 +11,7 @@ import { Check } from 'lucide-react';
 import { Label } from '@/components/ui/label';
 import { cn } from '@/lib/utils';
 import type { Priority } from '@/lib/layout';
+import type { KitchenProjectScope, RegulatoryJurisdiction } from '@/lib/designV2';
 
 export interface CookFields {
   householdSize?: number;
@@ -20,6 +23,8 @@ export interface CookFields {
   fridgeWidthMm: number;
   fridgeOpeningWidthMm?: number;
   island: 'want' | 'no' | 'if-it-fits';
+  jurisdiction?: RegulatoryJurisdiction;
+  projectScope?: KitchenProjectScope;
 }
 
 interface Props {
@@ -54,6 +59,25 @@ const PRIORITY_OPTIONS: { id: Priority; label: string }[] = [
   { id: 'budget', label: 'Keeping cost down' },
 ];
 
+const JURISDICTION_OPTIONS: { id: RegulatoryJurisdiction; label: string }[] = [
+  { id: 'AU-NSW', label: 'NSW' },
+  { id: 'AU-VIC', label: 'VIC' },
+  { id: 'AU-QLD', label: 'QLD' },
+  { id: 'AU-WA', label: 'WA' },
+  { id: 'AU-SA', label: 'SA' },
+  { id: 'AU-TAS', label: 'TAS' },
+  { id: 'AU-ACT', label: 'ACT' },
+  { id: 'AU-NT', label: 'NT' },
+  { id: 'NZ', label: 'New Zealand' },
+];
+
+const PROJECT_SCOPE_OPTIONS: { id: KitchenProjectScope; label: string }[] = [
+  { id: 'new-kitchen', label: 'New kitchen' },
+  { id: 'full-kitchen-renovation', label: 'Full renovation' },
+  { id: 'cabinet-or-rangehood-renewal', label: 'New cabinets or rangehood' },
+  { id: 'appliance-only-changeover', label: 'Swapping appliances' },
+];
+
 export default function StepCook({ value, onChange }: Props) {
   const togglePriority = (p: Priority) =>
     onChange({
@@ -159,6 +183,31 @@ export default function StepCook({ value, onChange }: Props) {
         </div>
       </div>
 
+      <div className="space-y-3">
+        <Label>Where is the kitchen?</Label>
+        <div className="flex flex-wrap gap-2" role="group" aria-label="Where is the kitchen?">
+          {JURISDICTION_OPTIONS.map(j => (
+            <Chip key={j.id} active={value.jurisdiction === j.id} onClick={() => onChange({ jurisdiction: value.jurisdiction === j.id ? undefined : j.id })}>
+              {j.label}
+            </Chip>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <Label>What's the project?</Label>
+        <div className="flex flex-wrap gap-2" role="group" aria-label="What's the project?">
+          {PROJECT_SCOPE_OPTIONS.map(s => (
+            <Chip key={s.id} active={value.projectScope === s.id} onClick={() => onChange({ projectScope: value.projectScope === s.id ? undefined : s.id })}>
+              {s.label}
+            </Chip>
+          ))}
+        </div>
+        <p className="text-[11px] leading-4 text-slate-400">
+          Gas and electrical clearances are checked against the rules where you live.
+        </p>
+      </div>
+
       <div className="space-y-3">
         <Label>Island bench?</Label>
         <div className="flex flex-wrap gap-2" role="group" aria-label="Island bench?">
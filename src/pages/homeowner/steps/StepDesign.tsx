@@ -25,7 +25,8 @@ import {
 import type { DesignBrief, KitchenSpec, ProposedRoomPatch, StyleSpec } from '@/lib/layout';
 import type { LayoutShape } from '@/lib/layout';
 import { useAiDesigner, type AiDesignOption } from '@/hooks/useAiDesigner';
-import { evaluateDesign } from '@/lib/designV2';
+import { evaluateDesign, type DesignBriefV2 } from '@/lib/designV2';
+import { useRegulatoryProfiles } from '@/hooks/useRegulatoryProfiles';
 import { useWizardPricing } from '@/hooks/useWizardPricing';
 import {
   createWizardDesign,
@@ -34,6 +35,7 @@ import {
   type WizardDesign,
 } from '../wizardBrief';
 import { useApplianceCatalog } from '@/hooks/useApplianceCatalog';
+import { useLayoutRulePack } from '@/hooks/useLayoutRulePack';
 import {
   anyPlaceholderPrices,
   appliancesTotal,
@@ -56,6 +58,8 @@ interface Props {
   style: StyleSpec;
   design: WizardDesign | null;
   chosenAppliances: Record<string, string>;
+  /** Jurisdiction and work scope the regulated rules are judged under. */
+  projectContext: DesignBriefV2['projectContext'];
   onDesignChange: (design: WizardDesign) => void;
   onRoomPatchProposed: (patch: ProposedRoomPatch) => void;
   onReturnToRoom: () => void;
@@ -122,12 +126,19 @@ export default function StepDesign({
   style,
   design,
   chosenAppliances,
+  projectContext,
   onDesignChange,
   onRoomPatchProposed,
   onReturnToRoom,
 }: Props) {
   const navigate = useNavigate();
   const { generate, refine, loading, error, lastError, hasActiveSession } = useAiDesigner();
+  const { rulePack } = useLayoutRulePack();
+  const { approvedProfiles } = useRegulatoryProfiles();
+  const ruleOptions = useMemo(
+    () => ({ rulePack, projectContext, approvedProfiles }),
+    [rulePack, projectContext, approvedProfiles],
+  );
   const [options, setOptions] = useState<AiDesignOption[] | null>(null);
   const [chatLog, setChatLog] = useState<ChatEntry[]>([]);
   const [chatInput, setChatInput] = useState('');
@@ -151,6 +162,7 @@ export default function StepDesign({
         preferredStrategy: shape,
         professionalGate: featureFlags.designStudio,
         maxCandidates: 3,
+        rulePack,
       });
       const candidate = pool.candidates[0];
       if (candidate) {
@@ -169,7 +181,7 @@ export default function StepDesign({
         onDesignChange(createWizardDesign({ name: 'Standard layout', spec, aiGenerated: false }));
       }
     }
-  }, [brief, design, onDesignChange, shape, style]);
+  }, [brief, design, onDesignChange, rulePack, shape, style]);
 
   // rotate loading copy
   useEffect(() => {
@@ -219,8 +231,8 @@ export default function StepDesign({
   const combinedHigh = Math.round(shownKitchenBand.highAud + applianceSubtotal);
   // One rules pipeline (brief v4.3 §4.4): geometric + policy evaluation.
   const evald = useMemo(
-    () => (compiled && activeSpec ? evaluateDesign(compiled, brief.room, brief, activeSpec) : null),
-    [compiled, brief, activeSpec],
+    () => (compiled && activeSpec ? evaluateDesign(compiled, brief.room, brief, activeSpec, ruleOptions) : null),
+    [compiled, brief, activeSpec, ruleOptions],
   );
   const violations = useMemo(() => evald?.violations ?? [], [evald]);
   const blockingErrors = useMemo(
@@ -260,7 +272,7 @@ export default function StepDesign({
     if (!featureFlags.aiDesigner) return;
     trackEvent('ai_generate_requested', { shape });
     const plannerOptions: AiDesignOption[] = createPlannerAlternatives({
-      brief, shape, style, professionalGate: featureFlags.designStudio, exploreStrategies: featureFlags.designStudio,
+      brief, shape, style, professionalGate: featureFlags.designStudio, exploreStrategies: featureFlags.designStudio, rulePack,
     });
     const res = await generate(brief, shape, plannerOptions);
     if (!res || res.options.length === 0) {
@@ -313,6 +325,7 @@ export default function StepDesign({
       brief.room,
       brief,
       opt.spec,
+      ruleOptions,
     );
     const serverHasHardErrors = opt.violations.some(v => v.severity === 'error');
     if (serverHasHardErrors || localCheck.conceptBlocker) {
@@ -386,6 +399,7 @@ export default function StepDesign({
       professionalGate: featureFlags.designStudio,
       exploreStrategies: featureFlags.designStudio,
       maxCandidates: 6,
+      rulePack,
     });
     const res = await refine(
       brief,
@@ -414,7 +428,7 @@ export default function StepDesign({
       // Validate BEFORE applying (brief v4.3 §4.5): never swap in a spec
       // that fails a concept blocker — reject it and keep the current design.
       const updatedSpec: KitchenSpec = { ...updated.spec, style: activeSpec.style };
-      const check = evaluateDesign(compileSpec(updatedSpec, brief.room), brief.room, brief, updatedSpec);
+      const check = evaluateDesign(compileSpec(updatedSpec, brief.room), brief.room, brief, updatedSpec, ruleOptions);
       if (check.conceptBlocker) {
         setChatLog(log => [...log, { role: 'assistant', content: "That change would break a layout rule (like aisle width or room bounds), so I haven't applied it. Try a smaller adjustment, or undo and take a different approach." }]);
         return;
@@ -777,6 +791,7 @@ export default function StepDesign({
                 spec={activeSpec ?? design.spec}
                 brief={brief}
                 chosenAppliances={chosenAppliances}
+                projectContext={projectContext}
                 onOpenChange={setCabinetEditorOpen}
                 onSave={handleSaveCabinetEdits}
               />
@@ -13,7 +13,7 @@ import {
   PRICING_VERSION,
   PROPOSAL_SCHEMA_VERSION,
 } from '@/lib/layout';
-import type { DesignBrief, KitchenSpec, Priority, StyleSpec, Wall, WallRunRanges } from '@/lib/layout';
+import type { ApplianceChoices, DesignBrief, KitchenSpec, Priority, StyleSpec, Wall, WallRunRanges } from '@/lib/layout';
 import type { LayoutShape } from '@/lib/layout';
 
 export interface WizardBriefFields {
@@ -34,8 +34,11 @@ export interface WizardBriefFields {
   cooktop?: 'gas' | 'induction';
   dishwasher: boolean;
   sinkCabinetWidthMm?: number;
+  sinkBowlSizes?: string[];
   fridgeWidthMm: number;
   fridgeOpeningWidthMm?: number;
+  /** From the selected cooktop's catalogue row. */
+  cooktopInstructions?: ApplianceChoices['cooktopInstructions'];
   microwave?: 'built-in' | 'benchtop' | 'none';
   island: 'want' | 'no' | 'if-it-fits';
   /** Inspiration + client-chosen finishes (e.g. from a website flat-lay handoff).
@@ -174,9 +177,11 @@ export function buildBrief(f: WizardBriefFields): DesignBrief {
       cooktop: f.cooktop,
       dishwasher: f.dishwasher,
       ...(f.sinkCabinetWidthMm ? { sinkCabinetWidthMm: f.sinkCabinetWidthMm } : {}),
+      ...(f.sinkBowlSizes?.length ? { sinkBowlSizes: f.sinkBowlSizes } : {}),
       fridgeWidthMm: f.fridgeWidthMm,
       ...(f.fridgeOpeningWidthMm ? { fridgeOpeningWidthMm: f.fridgeOpeningWidthMm } : {}),
       microwave: f.microwave,
+      ...(f.cooktopInstructions ? { cooktopInstructions: f.cooktopInstructions } : {}),
     },
     island: f.island,
     ...(f.styleWords ? { styleWords: f.styleWords } : {}),
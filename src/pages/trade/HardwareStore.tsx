@@ -6,20 +6,32 @@ import {
   ChevronRight,
   Package,
   Search,
+  ShoppingCart,
   Star,
   Wrench,
 } from 'lucide-react';
+import { toast } from 'sonner';
 import TradeLayout from './components/TradeLayout';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { addSystemNote } from '@/components/shared/JobNotes';
+import { useAuth } from '@/hooks/useAuth';
+import { useClientMarkup } from '@/hooks/useClientMarkup';
+import { useTradeCart } from '@/hooks/useTradeCart';
+import { useTradeJobs } from '@/hooks/useTradeJobs';
 import { useHardwareDefaults, type HardwareSku } from '@/hooks/useHardwareDefaults';
 import { useCatalog } from '@/hooks/useCatalog';
 import { matchesCatalogSearch } from '@/lib/search/catalogSearch';
 import { cn } from '@/lib/utils';
+import { addToCart, cartKey, CatalogPrice, priceCart, setCartQuantity } from '@/lib/trade/tradeOrders';
 
 const FAVORITES_KEY = 'trade.hardware.favoriteSkus';
 
+const AUD = (n: number) => new Intl.NumberFormat('en-AU', { style: 'currency', currency: 'AUD' }).format(n);
+
 function hardwareCategory(item: HardwareSku): string {
   const text = `${item.type} ${item.name}`.toLowerCase();
   if (/hinge|mounting plate/.test(text)) return 'Hinges';
@@ -51,6 +63,13 @@ export default function HardwareStore() {
   const navigate = useNavigate();
   const { hardware, selectedSku, selectSku, loading } = useHardwareDefaults();
   const { catalog, applianceCatalogLoading } = useCatalog('trade');
+  const { user } = useAuth();
+  const { commercial } = useClientMarkup();
+  const cart = useTradeCart(user?.id);
+  const { jobs } = useTradeJobs(user?.id);
+  const [cartOpen, setCartOpen] = useState(false);
+  const [orderJobId, setOrderJobId] = useState('');
+  const [submitting, setSubmitting] = useState(false);
   const [query, setQuery] = useState('');
   const [category, setCategory] = useState('All');
   const [favoriteSkus, setFavoriteSkus] = useState<Set<string>>(() => {
@@ -110,6 +129,47 @@ export default function HardwareStore() {
     [hardware, favoriteSkus],
   );
 
+  const catalogPrices = useMemo(() => {
+    const prices = new Map<string, CatalogPrice>();
+    for (const item of hardware) prices.set(cartKey({ kind: 'hardware', sku: item.sku }), { name: item.name, price: item.unitCost });
+    for (const item of appliances) prices.set(cartKey({ kind: 'appliance', sku: item.sku }), { name: item.name, price: item.price });
+    return prices;
+  }, [hardware, appliances]);
+
+  const pricedCart = useMemo(
+    () => priceCart(cart.items, catalogPrices, commercial),
+    [cart.items, catalogPrices, commercial],
+  );
+  const cartCount = cart.items.reduce((sum, item) => sum + item.quantity, 0);
+
+  const addItem = (kind: 'hardware' | 'appliance', sku: string, name: string) => {
+    cart.update(addToCart(cart.items, { kind, sku, name }));
+    toast.success(`${name} added to cart`);
+  };
+
+  const submitOrder = async () => {
+    if (!user || pricedCart.lines.length === 0) return;
+    setSubmitting(true);
+    // The server re-prices the SKUs from the catalogue and writes the order.
+    const { data, error } = await (supabase as any).rpc('place_trade_order_v1', {
+      p_items: pricedCart.lines.map(({ kind, sku, quantity }) => ({ kind, sku, quantity })),
+      p_job_id: orderJobId || null,
+    });
+    setSubmitting(false);
+    if (error) {
+      console.error('Failed to submit order:', error);
+      toast.error(error.message?.includes('invalid_order_item')
+        ? 'Some items are no longer available; refresh the store and try again'
+        : 'Failed to submit order');
+      return;
+    }
+    if (orderJobId) await addSystemNote(orderJobId, `Supply order #${data.orderNumber} placed for this job (${AUD(data.total)} incl. GST).`);
+    await cart.update(pricedCart.unavailable);
+    setCartOpen(false);
+    setOrderJobId('');
+    toast.success(`Order #${data.orderNumber} submitted`);
+  };
+
   const toggleFavorite = (sku: string) => {
     setFavoriteSkus(previous => {
       const next = new Set(previous);
@@ -156,6 +216,9 @@ export default function HardwareStore() {
           <Badge variant="secondary">{item.type || hardwareCategory(item)}</Badge>
           <span className="text-sm font-medium text-trade-navy">${item.unitCost.toFixed(2)}</span>
         </div>
+        <Button className="mt-3 w-full" variant="outline" size="sm" onClick={() => addItem('hardware', item.sku, item.name)}>
+          Add to cart
+        </Button>
       </div>
     );
   };
@@ -177,6 +240,10 @@ export default function HardwareStore() {
           <Button variant="outline" onClick={() => navigate('/trade/catalog')}>
             Full cabinet catalog <ChevronRight className="ml-1 h-4 w-4" />
           </Button>
+          <Button onClick={() => setCartOpen(true)} disabled={cart.loading}>
+            <ShoppingCart className="mr-2 h-4 w-4" />
+            Cart ({cartCount})
+          </Button>
         </div>
 
         <div className="mb-5 rounded-xl border border-trade-border bg-trade-surface-elevated p-4">
@@ -261,9 +328,12 @@ export default function HardwareStore() {
                       <Badge variant="secondary">{item.applianceProduct?.category ?? 'Appliance'}</Badge>
                       <span className="text-sm font-medium text-trade-navy">${item.price.toFixed(2)}</span>
                     </div>
-                    <Button className="mt-3 w-full" variant="outline" size="sm" onClick={() => navigate('/trade/catalog')}>
-                      Open in product catalog
-                    </Button>
+                    <div className="mt-3 flex gap-2">
+                      <Button className="flex-1" variant="outline" size="sm" onClick={() => navigate('/trade/catalog')}>
+                        Open in product catalog
+                      </Button>
+                      <Button size="sm" onClick={() => addItem('appliance', item.sku, item.name)}>Add to cart</Button>
+                    </div>
                   </div>
                 ))}
               </div>
@@ -276,6 +346,63 @@ export default function HardwareStore() {
           Default quoting SKU: <span className="font-medium text-foreground">{selectedSku || 'Not selected yet'}</span>
         </div>
       </div>
+
+      <Dialog open={cartOpen} onOpenChange={setCartOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Cart</DialogTitle>
+            <DialogDescription>Hardware at your account pricing; appliances at list price. GST is added at checkout.</DialogDescription>
+          </DialogHeader>
+          {pricedCart.lines.length === 0 ? (
+            <p className="py-6 text-center text-sm text-trade-muted">Your cart is empty.</p>
+          ) : (
+            <div className="max-h-[50vh] divide-y overflow-y-auto text-sm">
+              {pricedCart.lines.map(line => (
+                <div key={cartKey(line)} className="flex items-center gap-3 py-2">
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate font-medium text-trade-navy">{line.name}</p>
+                    <p className="text-xs text-trade-muted">{line.sku} · {AUD(line.unitPrice)} ea</p>
+                  </div>
+                  <Input
+                    type="number"
+                    min={0}
+                    className="h-8 w-20"
+                    value={line.quantity}
+                    onChange={(event) => {
+                      if (event.target.value !== '') cart.update(setCartQuantity(cart.items, cartKey(line), Number(event.target.value)));
+                    }}
+                  />
+                  <span className="w-24 text-right">{AUD(line.lineTotal)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+          {pricedCart.unavailable.length > 0 && (
+            <p className="text-xs text-amber-700">
+              No longer available, left in your cart: {pricedCart.unavailable.map(item => item.name).join(', ')}
+            </p>
+          )}
+          <div className="space-y-1 border-t pt-3 text-sm">
+            <div className="flex justify-between"><span>Subtotal</span><span>{AUD(pricedCart.totals.subtotal)}</span></div>
+            <div className="flex justify-between"><span>GST</span><span>{AUD(pricedCart.totals.tax)}</span></div>
+            <div className="flex justify-between font-semibold"><span>Total</span><span>{AUD(pricedCart.totals.total)}</span></div>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              className="h-9 flex-1 rounded-md border px-2 text-sm"
+              value={orderJobId}
+              onChange={event => setOrderJobId(event.target.value)}
+              aria-label="Attach to job"
+            >
+              <option value="">Not for a specific job</option>
+              {jobs.map(job => <option key={job.id} value={job.id}>#{job.jobNumber} {job.name}</option>)}
+            </select>
+            <Button onClick={submitOrder} disabled={submitting || pricedCart.lines.length === 0}>
+              Submit order
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
     </TradeLayout>
   );
 }
@@ -6,6 +6,7 @@ import { toast } from 'sonner';
 import TradeLayout from './components/TradeLayout';
 import RoomSetupWizard, { RoomConfig } from './components/RoomSetupWizard';
 import { useTradeRoom, TradeRoom } from '@/contexts/TradeRoomContext';
+import type { RoomConfig as CoreRoomConfig } from '@/types';
 import { TradeJobStatus, TRADE_JOB_STATUS_LABELS, isTradeJobStatus } from '@/types/trade';
 import { DEFAULT_GLOBAL_DIMENSIONS } from '@/constants';
 import { useTradeJobPersistence } from '@/hooks/useTradeJobPersistence';
@@ -13,6 +14,8 @@ import { usePlannerHandoff, linkTradeHandoff } from '@/hooks/usePlannerHandoff';
 import { parseLegacyWebsitePlannerHandoff } from '@/lib/roomScan/contract';
 import { useMaterialsCatalog } from '@/hooks/useMaterialsCatalog';
 import { JobNotes } from '@/components/shared/JobNotes';
+import { JobRevisions } from '@/components/shared/JobRevisions';
+import { recordJobRevision } from '@/lib/trade/jobRevisions';
 import { supabase } from '@/integrations/supabase/client';
 
 
@@ -73,6 +76,16 @@ const computeJobTotalsRaw = (rooms: TradeRoom[], snapshots: RoomSnapshots = {})
   };
 };
 
+/** Core room geometry for a wizard config; a custom wall outline wins over the layout shape. */
+const roomGeometry = (config: RoomConfig): Pick<CoreRoomConfig, 'shape' | 'cutoutWidth' | 'cutoutDepth' | 'polygon'> =>
+  config.polygon
+    ? { shape: 'Polygon', cutoutWidth: 0, cutoutDepth: 0, polygon: config.polygon }
+    : {
+        shape: config.shape === 'l-shaped' ? 'LShape' : 'Rectangle',
+        cutoutWidth: config.cutoutWidth || 0,
+        cutoutDepth: config.cutoutDepth || 0,
+      };
+
 const toRoomConfig = (room: TradeRoom): RoomConfig => ({
   name: room.name,
   description: room.description,
@@ -82,8 +95,10 @@ const toRoomConfig = (room: TradeRoom): RoomConfig => ({
   roomHeight: room.config.height,
   cutoutWidth: room.config.cutoutWidth,
   cutoutDepth: room.config.cutoutDepth,
+  ...(room.config.shape === 'Polygon' && room.config.polygon ? { polygon: room.config.polygon } : {}),
   openings: room.config.openings ?? [],
   services: room.config.services ?? [],
+  obstructions: room.config.obstructions ?? [],
   exteriorMaterial: room.materialDefaults.exteriorFinish,
   exteriorEdge: room.materialDefaults.edgeBanding,
   doorStyle: room.materialDefaults.doorStyle,
@@ -189,6 +204,7 @@ export default function JobEditor() {
       cfg.roomWidth = scan.room.width;
       cfg.roomDepth = scan.room.depth;
       cfg.roomHeight = scan.room.height;
+      if (scan.room.shape === 'Polygon' && scan.room.polygon) cfg.polygon = scan.room.polygon as RoomConfig['polygon'];
       // parseLegacyWebsitePlannerHandoff has already runtime-validated these
       // against the canonical scanner contract. The app-facing types are kept
       // compile-checked in roomScan/compat-test.ts under strict mode.
@@ -292,12 +308,11 @@ export default function JobEditor() {
           width: config.roomWidth,
           depth: config.roomDepth,
           height: config.roomHeight,
-          shape: config.shape === 'l-shaped' ? 'LShape' : 'Rectangle',
-          cutoutWidth: config.cutoutWidth || 0,
-          cutoutDepth: config.cutoutDepth || 0,
+          ...roomGeometry(config),
           // Room features survive every create/edit mapping (master plan §8.2)
           openings: config.openings ?? [],
           services: config.services ?? [],
+          obstructions: config.obstructions ?? [],
         },
         dimensions: {
           ...DEFAULT_GLOBAL_DIMENSIONS,
@@ -359,12 +374,11 @@ export default function JobEditor() {
           width: config.roomWidth,
           depth: config.roomDepth,
           height: config.roomHeight,
-          shape: config.shape === 'l-shaped' ? 'LShape' : 'Rectangle',
-          cutoutWidth: config.cutoutWidth || 0,
-          cutoutDepth: config.cutoutDepth || 0,
+          ...roomGeometry(config),
           // Room features survive every create/edit mapping (master plan §8.2)
           openings: config.openings ?? [],
           services: config.services ?? [],
+          obstructions: config.obstructions ?? [],
         },
         dimensions: {
           ...editingRoom.dimensions,
@@ -409,12 +423,11 @@ export default function JobEditor() {
           width: config.roomWidth,
           depth: config.roomDepth,
           height: config.roomHeight,
-          shape: config.shape === 'l-shaped' ? 'LShape' : 'Rectangle',
-          cutoutWidth: config.cutoutWidth || 0,
-          cutoutDepth: config.cutoutDepth || 0,
+          ...roomGeometry(config),
           // Room features survive every create/edit mapping (master plan §8.2)
           openings: config.openings ?? [],
           services: config.services ?? [],
+          obstructions: config.obstructions ?? [],
         },
         dimensions: {
           ...DEFAULT_GLOBAL_DIMENSIONS,
@@ -519,6 +532,7 @@ export default function JobEditor() {
                       onClick={async () => {
                         try {
                           await updateJobStatus('draft');
+                          await recordJobRevision(jobId!, 'Submission withdrawn');
                           toast.success('Submission withdrawn — job returned to draft');
                         } catch {
                           toast.error('Failed to withdraw submission');
@@ -539,6 +553,7 @@ export default function JobEditor() {
                       try {
                         await persistFullJob('draft');
                         await updateJobStatus('draft');
+                        await recordJobRevision(jobId!, 'Draft saved');
                         toast.success('Draft saved', { description: 'Job and rooms persisted.' });
                       } catch {
                         toast.error('Failed to save draft');
@@ -559,6 +574,7 @@ export default function JobEditor() {
                         }
                         await persistFullJob('pending_approval');
                         await updateJobStatus('pending_approval');
+                        await recordJobRevision(jobId!, 'Submitted for approval');
                         const { error: pipelineError } = await supabase.functions.invoke('sync-buildflow-lead', {
                           body: { jobId },
                         });
@@ -750,6 +766,11 @@ export default function JobEditor() {
           <JobNotes jobId={jobId} isAdmin={false} />
         </div>
       )}
+      {jobId && !isNewJob && (
+        <div className="mt-6 bg-trade-surface-elevated rounded-xl border border-trade-border p-6">
+          <JobRevisions jobId={jobId} canRestore={!isLocked} />
+        </div>
+      )}
       </div>
     </TradeLayout>
   );
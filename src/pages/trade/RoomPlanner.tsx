@@ -25,6 +25,8 @@ import { PlacedItem } from '@/types';
 import { defaultCornerArmDepth, STANDARD_CORNER_ARM_DEPTH } from '@/lib/cornerDefaults';
 import { calculateSnapPosition, findAutoWallPlacement, isCornerClear } from '@/utils/snapping';
 import { useTradeJobPersistence } from '@/hooks/useTradeJobPersistence';
+import { useJobCollaboration } from '@/hooks/useJobCollaboration';
+import { StaleWriteError } from '@/lib/trade/collaboration';
 import { exportPlanViewPdf } from '@/lib/planViewPdf';
 import { computeOpeningWarnings } from '@/lib/trade/openingWarnings';
 import {
@@ -78,8 +80,10 @@ export default function RoomPlanner() {
     replaceRoomInJob,
     removeCabinetFromJob,
     persistPricingState,
+    rebaseJob,
     exportJobPdf,
   } = useTradeJobPersistence(jobId);
+  const { peers } = useJobCollaboration(jobId, roomId);
 
   const [showCatalog, setShowCatalog] = useState(true);
   // Open in 2D top-down for layout (drag maps 1:1 to the cursor); 3D is for viewing.
@@ -90,6 +94,9 @@ export default function RoomPlanner() {
   const [editDialogCabinet, setEditDialogCabinet] = useState<ConfiguredCabinet | null>(null);
   const [dirty, setDirty] = useState(false);
   const [saveState, setSaveState] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+  // Set while another editor's save conflicts with this tab's; nothing is
+  // written until the user picks a version.
+  const [conflict, setConflict] = useState<StaleWriteError | null>(null);
   const [cameraControls, setCameraControls] = useState<{ zoomIn: () => void; zoomOut: () => void; resetView: () => void; fitAll: () => void; setView: (preset: 'front' | 'top' | 'corner') => void } | null>(null);
   const autosaveRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const quotePersistRef = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -216,13 +223,18 @@ export default function RoomPlanner() {
     width: currentRoom?.config.width || 4000,
     depth: currentRoom?.config.depth || 3000,
     height: currentRoom?.config.height || 2400,
-    shape: 'Rectangle' as const,
+    // Custom wall outlines are drawn and snapped to; rectangle and L rooms
+    // keep planning against the outer rectangle.
+    ...(currentRoom?.config.shape === 'Polygon' && currentRoom.config.polygon
+      ? { shape: 'Polygon' as const, polygon: currentRoom.config.polygon }
+      : { shape: 'Rectangle' as const }),
     cutoutWidth: currentRoom?.config.cutoutWidth || 0,
     cutoutDepth: currentRoom?.config.cutoutDepth || 0,
     // Room features flow into the 3D scene (openings + service markers) —
     // previously dropped here, which left the scene opening-blind.
     openings: currentRoom?.config.openings ?? [],
     services: currentRoom?.config.services ?? [],
+    obstructions: currentRoom?.config.obstructions ?? [],
   }), [currentRoom]);
 
   const catalogById = useMemo(() => new Map(catalog.map((item) => [item.id, item])), [catalog]);
@@ -244,20 +256,34 @@ export default function RoomPlanner() {
   }, []);
 
   const saveRoomToServer = useCallback(async () => {
-    if (!jobId || jobId === 'new' || !currentRoom || isPriceLocked) return;
+    if (!jobId || jobId === 'new' || !currentRoom || isPriceLocked || conflict) return;
     try {
       setSaveState('saving');
       await replaceRoomInJob({ jobId, room: currentRoom });
       setDirty(false);
       setSaveState('saved');
-    } catch {
+    } catch (err) {
       setSaveState('error');
-      toast.error('Failed to save room');
+      if (err instanceof StaleWriteError) {
+        // Nothing was written; the room stays dirty and autosave waits for resolveConflict.
+        setConflict(err);
+        toast.error(err.message, { description: 'Your changes to those cabinets were not saved.' });
+      } else {
+        toast.error('Failed to save room');
+      }
     }
-  }, [currentRoom, isPriceLocked, jobId, replaceRoomInJob]);
+  }, [conflict, currentRoom, isPriceLocked, jobId, replaceRoomInJob]);
+
+  const resolveConflict = useCallback(async (keep: 'theirs' | 'mine') => {
+    // Dropping the dirty flag lets the refetch hydrate their version; keeping
+    // it leaves this tab's rooms to be saved over it by the next autosave.
+    if (keep === 'theirs') setDirty(false);
+    await rebaseJob();
+    setConflict(null);
+  }, [rebaseJob]);
 
   useEffect(() => {
-    if (!dirty || !jobId || jobId === 'new' || !currentRoom) return;
+    if (!dirty || conflict || !jobId || jobId === 'new' || !currentRoom) return;
     if (autosaveRef.current) clearTimeout(autosaveRef.current);
     autosaveRef.current = setTimeout(() => {
       void saveRoomToServer();
@@ -265,7 +291,7 @@ export default function RoomPlanner() {
     return () => {
       if (autosaveRef.current) clearTimeout(autosaveRef.current);
     };
-  }, [dirty, jobId, currentRoom, saveRoomToServer]);
+  }, [conflict, dirty, jobId, currentRoom, saveRoomToServer]);
 
   // Sell-price factor: per-cabinet BOM values are raw costs; the toolbar's
   // roomTotal includes the commercial layer (margin/design/markup, benchtops,
@@ -450,6 +476,9 @@ export default function RoomPlanner() {
       depth: defaultDepth,
       category: category as 'Base' | 'Wall' | 'Tall' | 'Appliance',
       obstacles: autoObstacles,
+      topMm: category === 'Wall'
+        ? (currentRoom.dimensions.wallMountHeight ?? 1350) + defaultHeight
+        : defaultHeight,
     });
     let rawPosition = auto
       ? { x: auto.x, y: 0, z: auto.z, rotation: auto.rotation }
@@ -648,7 +677,7 @@ export default function RoomPlanner() {
 
 
   useEffect(() => {
-    if (!jobId || jobId === 'new' || !currentRoom || !jobQuery.data || isPriceLocked) return;
+    if (!jobId || jobId === 'new' || !currentRoom || !jobQuery.data || isPriceLocked || conflict) return;
     if (!quoteBOM) return;
 
     const snapshot = {
@@ -706,7 +735,7 @@ export default function RoomPlanner() {
     // `rooms` and `perCabinetSell` are read inside the effect (persisted into
     // the snapshot) — list them so a stale closure can't persist old room state
     // or a mismatched sell map (review #5).
-  }, [currentRoom, isPriceLocked, jobId, jobQuery.data, rooms, perCabinetTotals, perCabinetSell, persistPricingState, pricingHash, pricingVersion, quoteBOM, roomTotal]);
+  }, [conflict, currentRoom, isPriceLocked, jobId, jobQuery.data, rooms, perCabinetTotals, perCabinetSell, persistPricingState, pricingHash, pricingVersion, quoteBOM, roomTotal]);
 
   // Sync dialog cabinet with latest state when cabinet updates
   useEffect(() => {
@@ -727,6 +756,8 @@ export default function RoomPlanner() {
             {
               width: currentRoom.config.width,
               depth: currentRoom.config.depth,
+              shape: currentRoom.config.shape,
+              polygon: currentRoom.config.polygon,
               openings: currentRoom.config.openings,
             },
             currentRoom.dimensions,
@@ -763,8 +794,24 @@ export default function RoomPlanner() {
               <p className="text-xs text-muted-foreground">
                 {currentRoom.config.width} × {currentRoom.config.depth}mm • {cabinets.length} cabinet{cabinets.length !== 1 ? 's' : ''}
                 <span className="ml-2">
-                  {saveState === 'saving' ? 'Saving…' : saveState === 'saved' ? 'Saved' : saveState === 'error' ? 'Save failed' : dirty ? 'Unsaved changes' : 'Up to date'}
+                  {conflict ? 'Not saved: conflicting changes' : saveState === 'saving' ? 'Saving…' : saveState === 'saved' ? 'Saved' : saveState === 'error' ? 'Save failed' : dirty ? 'Unsaved changes' : 'Up to date'}
                 </span>
+                {conflict && (
+                  <span className="ml-2">
+                    <button type="button" className="underline text-trade-amber" onClick={() => void resolveConflict('theirs')}>
+                      Load their version
+                    </button>
+                    {' · '}
+                    <button type="button" className="underline text-trade-amber" onClick={() => void resolveConflict('mine')}>
+                      Keep mine
+                    </button>
+                  </span>
+                )}
+                {peers.length > 0 && (
+                  <span className="ml-2 text-trade-amber" title={peers.map((p) => p.name).join(', ')}>
+                    • Also editing: {peers.map((p) => p.name.split(/[ @]/)[0]).join(', ')}
+                  </span>
+                )}
               </p>
             </div>
           </div>
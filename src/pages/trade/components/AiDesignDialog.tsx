@@ -25,7 +25,7 @@ import {
   Select, SelectTrigger, SelectValue, SelectContent, SelectItem,
 } from '@/components/ui/select';
 import { cn } from '@/lib/utils';
-import type { LayoutShape, Priority, BudgetBand } from '@/lib/layout';
+import { ROOM_TYPES, ROOM_TYPE_LABELS, type LayoutShape, type Priority, type BudgetBand, type RoomType } from '@/lib/layout';
 import { useAiDesigner, type AiDesignOption } from '@/hooks/useAiDesigner';
 import type { TradeRoom } from '@/types/trade';
 import {
@@ -145,49 +145,21 @@ export default function AiDesignDialog({ room, open, onOpenChange, onApply }: Pr
         {/* Brief inputs */}
         <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 py-2">
           <div className="space-y-1.5">
-            <Label>Layout</Label>
-            <Select value={inputs.shape} onValueChange={(v) => set('shape', v as LayoutShape)}>
+            <Label>Room type</Label>
+            <Select value={inputs.roomType} onValueChange={(v) => set('roomType', v as RoomType)}>
               <SelectTrigger><SelectValue /></SelectTrigger>
               <SelectContent>
-                {LAYOUTS.map((l) => <SelectItem key={l.value} value={l.value}>{l.label}</SelectItem>)}
+                {ROOM_TYPES.map((t) => <SelectItem key={t} value={t}>{ROOM_TYPE_LABELS[t]}</SelectItem>)}
               </SelectContent>
             </Select>
           </div>
 
           <div className="space-y-1.5">
-            <Label>Island</Label>
-            <Select value={inputs.island} onValueChange={(v) => set('island', v as TradeAiInputs['island'])}>
-              <SelectTrigger><SelectValue /></SelectTrigger>
-              <SelectContent>
-                <SelectItem value="if-it-fits">If it fits</SelectItem>
-                <SelectItem value="want">Include an island</SelectItem>
-                <SelectItem value="no">No island</SelectItem>
-              </SelectContent>
-            </Select>
-          </div>
-
-          <div className="space-y-1.5">
-            <Label>Cooktop</Label>
-            <Select value={inputs.cooktop} onValueChange={(v) => set('cooktop', v as TradeAiInputs['cooktop'])}>
-              <SelectTrigger><SelectValue placeholder="Choose" /></SelectTrigger>
-              <SelectContent>
-                <SelectItem value="induction">Induction</SelectItem>
-                <SelectItem value="gas">Gas</SelectItem>
-              </SelectContent>
-            </Select>
-          </div>
-
-          <div className="space-y-1.5">
-            <Label>Oven</Label>
-            <Select
-              value={inputs.oven ?? 'none'}
-              onValueChange={(v) => set('oven', v === 'none' ? undefined : (v as '600' | '900'))}
-            >
+            <Label>Layout</Label>
+            <Select value={inputs.shape} onValueChange={(v) => set('shape', v as LayoutShape)}>
               <SelectTrigger><SelectValue /></SelectTrigger>
               <SelectContent>
-                <SelectItem value="600">600mm</SelectItem>
-                <SelectItem value="900">900mm</SelectItem>
-                <SelectItem value="none">No oven tower</SelectItem>
+                {LAYOUTS.map((l) => <SelectItem key={l.value} value={l.value}>{l.label}</SelectItem>)}
               </SelectContent>
             </Select>
           </div>
@@ -204,10 +176,53 @@ export default function AiDesignDialog({ room, open, onOpenChange, onApply }: Pr
             </Select>
           </div>
 
-          <div className="flex items-center justify-between rounded-lg border border-trade-border px-3 py-2">
-            <Label htmlFor="dw-toggle" className="cursor-pointer">Dishwasher</Label>
-            <Switch id="dw-toggle" checked={inputs.dishwasher} onCheckedChange={(v) => set('dishwasher', v)} />
-          </div>
+          {/* Appliances and an island only mean something in a kitchen. */}
+          {inputs.roomType === 'kitchen' && (
+            <>
+              <div className="space-y-1.5">
+                <Label>Island</Label>
+                <Select value={inputs.island} onValueChange={(v) => set('island', v as TradeAiInputs['island'])}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="if-it-fits">If it fits</SelectItem>
+                    <SelectItem value="want">Include an island</SelectItem>
+                    <SelectItem value="no">No island</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-1.5">
+                <Label>Cooktop</Label>
+                <Select value={inputs.cooktop} onValueChange={(v) => set('cooktop', v as TradeAiInputs['cooktop'])}>
+                  <SelectTrigger><SelectValue placeholder="Choose" /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="induction">Induction</SelectItem>
+                    <SelectItem value="gas">Gas</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-1.5">
+                <Label>Oven</Label>
+                <Select
+                  value={inputs.oven ?? 'none'}
+                  onValueChange={(v) => set('oven', v === 'none' ? undefined : (v as '600' | '900'))}
+                >
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="600">600mm</SelectItem>
+                    <SelectItem value="900">900mm</SelectItem>
+                    <SelectItem value="none">No oven tower</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex items-center justify-between rounded-lg border border-trade-border px-3 py-2">
+                <Label htmlFor="dw-toggle" className="cursor-pointer">Dishwasher</Label>
+                <Switch id="dw-toggle" checked={inputs.dishwasher} onCheckedChange={(v) => set('dishwasher', v)} />
+              </div>
+            </>
+          )}
 
           <div className="space-y-1.5 sm:col-span-2">
             <Label>Priorities</Label>
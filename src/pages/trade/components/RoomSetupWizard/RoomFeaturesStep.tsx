@@ -1,12 +1,20 @@
 /**
- * Room Features step — doors, windows, walkways and service points, placed on
+ * Room Features step — doors, windows, walkways, service points and structure
+ * (columns, bulkheads, sloped ceilings), placed on
  * the same shared editor the homeowner wizard uses (master plan §8.2). Sits
  * immediately after Room Shape because that step owns the floor dimensions.
  * Features are stored on the room config and drive the trade planner's
  * opening rendering and warn-only placement guards.
+ *
+ * Rooms that are not a rectangle or L (angled walls, T-shapes, bays) switch
+ * to a custom wall outline here; the features move onto the outline's walls.
  */
 import React from 'react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
 import { RoomFeaturesEditor } from '@/components/shared/RoomFeaturesEditor';
+import { squareUpPolygonRoom, toPolygonRoom } from '@/lib/layout/polygon';
+import type { RoomConfig as CoreRoomConfig } from '@/types';
 import type { RoomConfig } from './index';
 
 interface Props {
@@ -14,24 +22,68 @@ interface Props {
   updateConfig: (updates: Partial<RoomConfig>) => void;
 }
 
+/** The wizard's floor plan as a core room, for the polygon conversions. */
+export function wizardCoreRoom(config: RoomConfig): CoreRoomConfig {
+  const lShaped = !config.polygon && config.shape === 'l-shaped';
+  return {
+    width: config.roomWidth,
+    depth: config.roomDepth,
+    height: config.roomHeight,
+    shape: config.polygon ? 'Polygon' : lShaped ? 'LShape' : 'Rectangle',
+    cutoutWidth: lShaped ? config.cutoutWidth || 0 : 0,
+    cutoutDepth: lShaped ? config.cutoutDepth || 0 : 0,
+    ...(config.polygon ? { polygon: config.polygon } : {}),
+    openings: config.openings,
+    services: config.services,
+    obstructions: config.obstructions,
+  };
+}
+
 export default function RoomFeaturesStep({ config, updateConfig }: Props) {
+  const enableCustomOutline = () => {
+    const room = toPolygonRoom(wizardCoreRoom(config));
+    updateConfig({ polygon: room.polygon, openings: room.openings ?? [], services: room.services ?? [] });
+  };
+
+  const disableCustomOutline = () => {
+    const { room, dropped } = squareUpPolygonRoom(wizardCoreRoom(config));
+    updateConfig({ polygon: undefined, openings: room.openings ?? [], services: room.services ?? [] });
+    if (dropped > 0) {
+      toast.warning(`${dropped} feature${dropped === 1 ? ' was' : 's were'} on a wall the rectangular room does not have and ${dropped === 1 ? 'was' : 'were'} removed`);
+    }
+  };
+
   return (
     <div className="space-y-4">
       <p className="text-sm text-trade-muted">
-        Mark doors, windows, open walkways and existing services. Plumbing,
+        Mark doors, windows, open walkways, existing services and any
+        columns, bulkheads or sloped ceilings. Plumbing,
         power and gas can enter through a wall or the floor for an island;
         extraction duct means an existing duct or outside vent. The planner avoids openings when placing cabinetry and warns
         about conflicts — a check measure still confirms everything before
         manufacture.
       </p>
+      <div className="flex flex-wrap items-center justify-between gap-2 rounded-lg border border-trade-border px-3 py-2">
+        <p className="text-xs text-trade-muted">
+          {config.polygon
+            ? `Custom wall outline · ${config.polygon.length} walls`
+            : 'Angled walls, a T-shape or a bay? Describe the room wall by wall.'}
+        </p>
+        <Button type="button" variant="outline" size="sm" onClick={config.polygon ? disableCustomOutline : enableCustomOutline}>
+          {config.polygon ? 'Use the room shape instead' : 'Custom wall outline'}
+        </Button>
+      </div>
       <RoomFeaturesEditor
         widthMm={config.roomWidth}
         depthMm={config.roomDepth}
         openings={config.openings}
         services={config.services}
+        obstructions={config.obstructions ?? []}
+        polygon={config.polygon}
+        onPolygonChange={({ polygon, widthMm, depthMm }) => updateConfig({ polygon, roomWidth: widthMm, roomDepth: depthMm })}
         onChange={(patch) => updateConfig(patch)}
       />
-      {config.shape !== 'rectangular' && (
+      {!config.polygon && config.shape !== 'rectangular' && (
         <p className="text-xs text-trade-muted">
           Features are placed on the room's outer rectangle; wings and cutouts
           are handled in the planner.
@@ -5,6 +5,8 @@ import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { RoomConfig } from './index';
 import RoomDimensionEditor from './RoomDimensionEditor';
+import { wizardCoreRoom } from './RoomFeaturesStep';
+import { squareUpPolygonRoom } from '@/lib/layout/polygon';
 import roomRectangular from '@/assets/room-rectangular.png';
 import roomLShaped from '@/assets/room-l-shaped.png';
 import roomUShaped from '@/assets/room-u-shaped.png';
@@ -67,9 +69,13 @@ export default function RoomShapeStep({ config, updateConfig }: RoomShapeStepPro
 
   const handleDimensionsApply = (dimensions: Partial<RoomConfig>) => {
     if (selectedShape) {
+      // New dimensions replace a custom wall outline; features on walls the
+      // rectangle keeps stay where they were.
+      const squared = config.polygon ? squareUpPolygonRoom(wizardCoreRoom(config)).room : null;
       updateConfig({ 
         shape: selectedShape,
-        ...dimensions 
+        ...dimensions,
+        ...(squared ? { polygon: undefined, openings: squared.openings ?? [], services: squared.services ?? [] } : {}),
       });
     }
   };
@@ -155,7 +161,9 @@ export default function RoomShapeStep({ config, updateConfig }: RoomShapeStepPro
           ))}
         </div>
         <p className="text-xs text-trade-muted mt-3 text-center">
-          Click a shape to configure room dimensions
+          {config.polygon
+            ? 'This room uses a custom wall outline (Room Features). Picking a shape here replaces it.'
+            : 'Click a shape to configure room dimensions'}
         </p>
       </div>
 
@@ -2,7 +2,7 @@ import React, { useState } from 'react';
 import { Check } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
-import type { Opening, ServicePoint } from '@/types';
+import type { Obstruction, Opening, RoomPolygonCorner, ServicePoint } from '@/types';
 import RoomShapeStep from './RoomShapeStep';
 import RoomFeaturesStep from './RoomFeaturesStep';
 import MaterialDefaultsStep from './MaterialDefaultsStep';
@@ -29,11 +29,17 @@ export interface RoomConfig {
   leftWingDepth?: number;
   rightWingDepth?: number;
   corridorWidth?: number;
+  /** Custom wall outline (angled walls, T-shapes, bays) set on the Room
+   *  Features step. When present the room is a Polygon room and
+   *  roomWidth/roomDepth are its bounding box. */
+  polygon?: RoomPolygonCorner[];
 
   // Step 2: Room Features (master plan §8.2) — doors/windows/walkways and
   // service points, persisted into TradeRoom.config and job design_data.
   openings: Opening[];
   services: ServicePoint[];
+  /** Columns, bulkheads, beams and sloped ceilings the planner works around. */
+  obstructions?: Obstruction[];
 
   // Step 3: Materials
   exteriorMaterial: string;
@@ -7,11 +7,16 @@
  * warnings: doors/walkways block every category; windows only block
  * wall/tall cabinetry (a base under a window is fine).
  *
+ * Columns and chimney breasts block every category; bulkheads, beams and
+ * sloped ceilings block only where they come down below the cabinet's top.
+ *
  * All coordinates are CENTRE coordinates in room mm (x from the W wall,
  * z from the N wall) — the planner's single convention.
  */
 
 import type { Opening, RoomConfig } from '../../types';
+import { DEFAULT_GLOBAL_DIMENSIONS } from '../../constants';
+import { obstructionWallIntervals } from '@/lib/layout/obstructions';
 
 export interface AutoPlaceObstacle {
   x: number;
@@ -31,6 +36,8 @@ export interface AutoPlaceRequest {
   depth: number;
   category: 'Base' | 'Wall' | 'Tall' | 'Appliance';
   obstacles: AutoPlaceObstacle[];
+  /** height of the cabinet's top above the floor (mm); defaults by category */
+  topMm?: number;
   wallGap?: number;
   /** clearance kept between neighbours (mm) */
   clearance?: number;
@@ -125,6 +132,9 @@ export function findAutoWallPlacement(req: AutoPlaceRequest): AutoPlacement | nu
   const roomW = room.width;
   const roomD = room.depth;
   const openings = room.openings ?? [];
+  const topMm = req.topMm ?? (category === 'Base' || category === 'Appliance'
+    ? DEFAULT_GLOBAL_DIMENSIONS.baseHeight + DEFAULT_GLOBAL_DIMENSIONS.benchtopThickness
+    : DEFAULT_GLOBAL_DIMENSIONS.tallHeight);
 
   const relevantObstacles = obstacles.filter((o) =>
     category === 'Wall' ? o.blocksWall : category === 'Tall' ? o.blocksFloor || o.blocksWall : o.blocksFloor,
@@ -168,6 +178,14 @@ export function findAutoWallPlacement(req: AutoPlaceRequest): AutoPlacement | nu
       blocked.push([a - clearance, b + clearance]);
     }
 
+    // Structure standing in the band. Its spans are wall offsets; S and W
+    // offsets run against the room axis.
+    for (const iv of obstructionWallIntervals(room, wall, bandDepth, topMm, clearance)) {
+      blocked.push(wall === 'S' ? [roomW - iv.end, roomW - iv.start]
+        : wall === 'W' ? [roomD - iv.end, roomD - iv.start]
+        : [iv.start, iv.end]);
+    }
+
     // First-fit gap scan from the wall's left corner.
     const usable: Interval = [wallGap, along - wallGap];
     const merged = mergeIntervals(blocked);
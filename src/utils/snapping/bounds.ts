@@ -5,11 +5,7 @@ import { BoundingBox } from './types';
  * Calculate bounding box for an item considering its rotation
  */
 export function getRotatedBounds(item: PlacedItem): BoundingBox {
-  const rot = ((item.rotation % 360) + 360) % 360; // Normalize to 0-359
-  // Swap width/depth for 90° and 270° rotations
-  const isRotated90 = rot === 90 || rot === 270;
-  const effectiveWidth = isRotated90 ? item.depth : item.width;
-  const effectiveDepth = isRotated90 ? item.width : item.depth;
+  const { width: effectiveWidth, depth: effectiveDepth } = getEffectiveDimensions(item);
 
   return {
     left: item.x - effectiveWidth / 2,
@@ -26,6 +22,13 @@ export function getRotatedBounds(item: PlacedItem): BoundingBox {
  */
 export function getEffectiveDimensions(item: PlacedItem): { width: number; depth: number } {
   const rot = ((item.rotation % 360) + 360) % 360;
+  if (rot % 90 !== 0) {
+    // Angled wall in a Polygon room: the plan footprint's bounding box
+    const r = (rot * Math.PI) / 180;
+    const c = Math.abs(Math.cos(r)), s = Math.abs(Math.sin(r));
+    return { width: item.width * c + item.depth * s, depth: item.width * s + item.depth * c };
+  }
+  // Swap width/depth for 90° and 270° rotations
   const isRotated90 = rot === 90 || rot === 270;
   return {
     width: isRotated90 ? item.depth : item.width,
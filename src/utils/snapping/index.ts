@@ -5,6 +5,7 @@ import { findWallSnap, detectCorner, WALL_SNAP_THRESHOLD, getWallSurfaces, shoul
 import { findCabinetSnapPoints, CABINET_SNAP_THRESHOLD } from './cabinetSnapping';
 import { findGableSnapPoints, getBestGableSnap, calculateHandlePosition, getGableEdges } from './gableSnapping';
 import { CONSTRUCTION_STANDARDS } from '@/types/cabinetConfig';
+import { polygonFromRoom } from '@/lib/layout/polygon';
 
 // Re-export for backwards compatibility
 export { checkCollision, getRotatedBounds } from './bounds';
@@ -33,6 +34,23 @@ function normalizeToRightAngle(rotation: number): number {
   return snapped === 360 ? 0 : snapped;
 }
 
+/** Right angles everywhere, except that a Polygon room also keeps the exact
+ *  rotation of any of its angled walls, so runs along them stay flush. */
+function normalizeRotation(rotation: number, room: RoomConfig): number {
+  if (room.shape === 'Polygon') {
+    const normalized = ((rotation % 360) + 360) % 360;
+    if (polygonFromRoom(room).segments.some(seg => Math.abs(seg.rotation - normalized) < 0.05)) return normalized;
+  }
+  return normalizeToRightAngle(rotation);
+}
+
+/** Axis a wall-snapped run slides along, or null for an angled Polygon wall. */
+function wallRunAxis(rotation: number): 'x' | 'z' | null {
+  if (rotation === 0 || rotation === 180) return 'x';
+  if (rotation === 90 || rotation === 270) return 'z';
+  return null;
+}
+
 /**
  * Main snapping calculation function
  * Priority: Corner > Wall > Cabinet > Grid
@@ -78,7 +96,7 @@ export function calculateSnapPosition(
   // Start with grid-snapped position
   let x = Math.round(rawX / gridSnap) * gridSnap;
   let z = Math.round(rawZ / gridSnap) * gridSnap;
-  let rotation = normalizeToRightAngle(draggedItem.rotation);
+  let rotation = normalizeRotation(draggedItem.rotation, room);
   let snappedTo: SnapResult['snappedTo'] = 'grid';
   let snapEdge: SnapResult['snapEdge'] = undefined;
   let snappedItemId: string | undefined = undefined;
@@ -98,7 +116,7 @@ export function calculateSnapPosition(
   if (corner) {
     x = corner.position.x;
     z = corner.position.z;
-    rotation = normalizeToRightAngle(corner.rotation);
+    rotation = normalizeRotation(corner.rotation, room);
     snappedTo = 'corner';
   }
 
@@ -116,7 +134,13 @@ export function calculateSnapPosition(
     // Calculate position using the cabinet's depth (which will face the wall after rotation)
     const postSnapDepth = itemDepth; // Depth always faces the wall after snap rotation
 
-    switch (wall.id) {
+    if (room.shape === 'Polygon') {
+      // Polygon walls carry their own flush position, already slid along the wall
+      x = wall.snapPosition.x;
+      z = wall.snapPosition.z;
+      if (wallRunAxis(rotation) === 'x') x = Math.round(x / gridSnap) * gridSnap;
+      if (wallRunAxis(rotation) === 'z') z = Math.round(z / gridSnap) * gridSnap;
+    } else switch (wall.id) {
       case 'back':
         // rotation = 0: depth faces back wall (z = 0)
         z = postSnapDepth / 2 + wallGap;
@@ -144,10 +168,11 @@ export function calculateSnapPosition(
     // For vertical walls (left/right), Z slides freely
     if (wall.id === 'back' || wall.id === 'front') {
       x = Math.round(rawX / gridSnap) * gridSnap;
-    } else {
+    } else if (wall.id === 'left' || wall.id === 'right') {
       z = Math.round(rawZ / gridSnap) * gridSnap;
     }
   }
+  const runAxis = snappedTo === 'wall' ? wallRunAxis(rotation) : null;
 
   // 3. Check gable-to-gable snapping (Microvellum-style precision)
   // This takes priority over bounding-box cabinet snapping for flush runs
@@ -164,13 +189,13 @@ export function calculateSnapPosition(
     // If wall-snapped, only apply gable snap along the wall axis
     // (works on all four walls — run axis follows the cabinet rotation)
     if (snappedTo === 'wall') {
-      if (wallId === 'back' || wallId === 'front') {
+      if (runAxis === 'x') {
         // Run is along X: take the gable-snapped X, keep the wall-snapped Z
         x = bestGable.snapX;
         snappedItemId = bestGable.targetItem.instanceId;
         snapEdge = bestGable.edge === 'left-to-right' ? 'left' : 'right';
         usedGableSnap = true;
-      } else if (wallId === 'left' || wallId === 'right') {
+      } else if (runAxis === 'z') {
         // Run is along Z: take the gable-snapped Z, keep the wall-snapped X
         z = bestGable.snapZ;
         snappedItemId = bestGable.targetItem.instanceId;
@@ -201,7 +226,7 @@ export function calculateSnapPosition(
       // If wall-snapped, only apply cabinet snap along the wall axis
       if (snappedTo === 'wall') {
         // For horizontal walls (back/front), we can snap X to cabinets
-        if ((wallId === 'back' || wallId === 'front') && (best.edge === 'left' || best.edge === 'right')) {
+        if (runAxis === 'x' && (best.edge === 'left' || best.edge === 'right')) {
           x = best.x;
           snappedItemId = best.targetId;
           snapEdge = best.edge;
@@ -211,7 +236,7 @@ export function calculateSnapPosition(
           }
         }
         // For vertical walls (left/right), we can snap Z to cabinets
-        else if ((wallId === 'left' || wallId === 'right') && (best.edge === 'front' || best.edge === 'back')) {
+        else if (runAxis === 'z' && (best.edge === 'front' || best.edge === 'back')) {
           z = best.z;
           snappedItemId = best.targetId;
           snapEdge = best.edge;
@@ -232,7 +257,7 @@ export function calculateSnapPosition(
         const targetCabinet = allItems.find(item => item.instanceId === best.targetId);
         if (targetCabinet) {
           if (isWallAligned(targetCabinet, room, dims) || best.edge === 'left' || best.edge === 'right') {
-            rotation = normalizeToRightAngle(targetCabinet.rotation);
+            rotation = normalizeRotation(targetCabinet.rotation, room);
           }
         }
       }
@@ -291,7 +316,7 @@ export function calculateSnapPosition(
   x = Math.max(minXBound, Math.min(maxXBound, x));
   z = Math.max(minZBound, Math.min(maxZBound, z));
 
-  rotation = normalizeToRightAngle(rotation);
+  rotation = normalizeRotation(rotation, room);
 
   return { x, z, rotation, snappedTo, snapEdge, snappedItemId, wallId };
 }
@@ -1,4 +1,4 @@
-import { PlacedItem, RoomConfig, GlobalDimensions, CabinetType } from '../../types';
+import { PlacedItem, RoomConfig, GlobalDimensions, CabinetType, PolygonWallId } from '../../types';
 
 export interface BoundingBox {
   left: number;
@@ -9,6 +9,9 @@ export interface BoundingBox {
   centerZ: number;
 }
 
+/** Snap target wall: the four bounding walls, or a Polygon room wall by id. */
+export type SnapWallId = 'back' | 'left' | 'right' | 'front' | PolygonWallId;
+
 export interface SnapResult {
   x: number;
   z: number;
@@ -16,7 +19,7 @@ export interface SnapResult {
   snappedTo: 'wall' | 'cabinet' | 'corner' | 'grid' | null;
   snapEdge?: 'left' | 'right' | 'front' | 'back';
   snappedItemId?: string;
-  wallId?: 'back' | 'left' | 'right' | 'front';
+  wallId?: SnapWallId;
 }
 
 export interface SnapContext {
@@ -27,7 +30,7 @@ export interface SnapContext {
 }
 
 export interface WallInfo {
-  id: 'back' | 'left' | 'right' | 'front';
+  id: SnapWallId;
   distance: number;
   rotation: number;
   snapPosition: { x: number; z: number };
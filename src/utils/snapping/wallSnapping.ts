@@ -1,6 +1,7 @@
-import { PlacedItem, RoomConfig, GlobalDimensions } from '../../types';
+import { PlacedItem, RoomConfig, GlobalDimensions, PolygonWallId } from '../../types';
 import { WallInfo, CornerInfo } from './types';
 import { getEffectiveDimensions } from './bounds';
+import { polygonFromRoom, segmentSharedCornerAt, type WallSegment } from '@/lib/layout/polygon';
 
 export const WALL_SNAP_THRESHOLD = 200; // mm - distance from cabinet edge to wall to trigger snap
 export const WALL_RELEASE_THRESHOLD = 350; // mm - hysteresis to release from wall
@@ -19,6 +20,8 @@ export function getWallDistances(
   room: RoomConfig,
   globalDimensions: GlobalDimensions
 ): WallInfo[] {
+  if (room.shape === 'Polygon') return getPolygonWallDistances(x, z, item, room, globalDimensions);
+
   // Get current effective dimensions based on item's current rotation
   const { width: effectiveWidth, depth: effectiveDepth } = getEffectiveDimensions(item);
   const wallGap = globalDimensions.wallGap;
@@ -73,6 +76,100 @@ export function getWallDistances(
   return walls.sort((a, b) => a.distance - b.distance);
 }
 
+/** Half the item's footprint measured along a plan direction, for any rotation. */
+function halfExtentAlong(item: PlacedItem, dir: { x: number; z: number }): number {
+  const r = (item.rotation * Math.PI) / 180;
+  // rotation r faces the item's front along (-sin r, cos r); its width runs along (cos r, sin r)
+  const across = Math.abs(Math.cos(r) * dir.x + Math.sin(r) * dir.z);
+  const along = Math.abs(-Math.sin(r) * dir.x + Math.cos(r) * dir.z);
+  return (item.width / 2) * across + (item.depth / 2) * along;
+}
+
+/**
+ * Polygon room walls: the same edge-to-wall distance as the four bounding
+ * walls, measured along each segment's inward normal. Only walls the item is
+ * beside (its centre projects onto the segment, give or take the snap
+ * threshold) are candidates. The snap position slides along the wall and is
+ * kept within it when the item fits.
+ */
+function getPolygonWallDistances(
+  x: number,
+  z: number,
+  item: PlacedItem,
+  room: RoomConfig,
+  globalDimensions: GlobalDimensions
+): WallInfo[] {
+  const wallGap = globalDimensions.wallGap;
+  const walls: WallInfo[] = [];
+
+  for (const seg of polygonFromRoom(room).segments) {
+    const dir = { x: (seg.b.x - seg.a.x) / seg.length, z: (seg.b.z - seg.a.z) / seg.length };
+    const rel = { x: x - seg.a.x, z: z - seg.a.z };
+    const t = rel.x * dir.x + rel.z * dir.z;
+    const inward = rel.x * seg.normal.x + rel.z * seg.normal.z;
+    if (t < -WALL_SNAP_THRESHOLD || t > seg.length + WALL_SNAP_THRESHOLD || inward < -WALL_SNAP_THRESHOLD) continue;
+
+    const along = seg.length >= item.width
+      ? Math.max(item.width / 2, Math.min(seg.length - item.width / 2, t))
+      : seg.length / 2;
+    const offset = item.depth / 2 + wallGap;
+    walls.push({
+      id: seg.id as PolygonWallId,
+      distance: Math.abs(inward - halfExtentAlong(item, seg.normal)),
+      rotation: seg.rotation,
+      snapPosition: {
+        x: seg.a.x + dir.x * along + seg.normal.x * offset,
+        z: seg.a.z + dir.z * along + seg.normal.z * offset,
+      },
+    });
+  }
+
+  return walls.sort((a, b) => a.distance - b.distance);
+}
+
+/**
+ * Polygon room corners: two near walls that meet square at a shared corner.
+ * The corner cabinet nests its solid back-left corner into the room corner,
+ * as the four bounding-wall cases below do. Angled corners do not snap.
+ */
+function detectPolygonCorner(
+  nearWalls: WallInfo[],
+  item: PlacedItem,
+  room: RoomConfig,
+  globalDimensions: GlobalDimensions
+): CornerInfo | null {
+  if (nearWalls.length < 2) return null;
+  const [wall1, wall2] = nearWalls;
+  const segments = polygonFromRoom(room).segments;
+  const seg1 = segments.find(s => s.id === wall1.id);
+  const seg2 = segments.find(s => s.id === wall2.id);
+  if (!seg1 || !seg2) return null;
+
+  // The cabinet faces off the wall whose rotation is a quarter turn after the other's.
+  let back: WallSegment;
+  if ((seg1.rotation + 90) % 360 === seg2.rotation) back = seg2;
+  else if ((seg2.rotation + 90) % 360 === seg1.rotation) back = seg1;
+  else return null;
+  const side = back === seg1 ? seg2 : seg1;
+  const end = segmentSharedCornerAt(back, side);
+  if (!end) return null;
+  const vertex = end === 'start' ? back.a : back.b;
+
+  const wallGap = globalDimensions.wallGap;
+  const rotation = back.rotation;
+  const r = (rotation * Math.PI) / 180;
+  const widthAxis = { x: Math.cos(r), z: Math.sin(r) };
+  const front = { x: -Math.sin(r), z: Math.cos(r) };
+  const w = item.width / 2 + wallGap;
+  const d = item.depth / 2 + wallGap;
+
+  return {
+    walls: [wall1, wall2],
+    position: { x: vertex.x + widthAxis.x * w + front.x * d, z: vertex.z + widthAxis.z * w + front.z * d },
+    rotation,
+  };
+}
+
 /**
  * Check if item is near a corner (intersection of two walls)
  * Uses edge-based distance calculation for accurate corner detection
@@ -88,6 +185,8 @@ export function detectCorner(
   const walls = getWallDistances(x, z, item, room, globalDimensions);
   const nearWalls = walls.filter(w => w.distance < CORNER_SNAP_THRESHOLD);
 
+  if (room.shape === 'Polygon') return detectPolygonCorner(nearWalls, item, room, globalDimensions);
+
   // Need at least 2 walls nearby for a corner
   if (nearWalls.length < 2) return null;
 
@@ -177,6 +276,15 @@ export function shouldMaintainWallAlignment(item: PlacedItem, room: RoomConfig):
   const rot = ((item.rotation % 360) + 360) % 360;
   const itemDepth = item.depth;
 
+  if (room.shape === 'Polygon') {
+    // Back within 50mm of a wall the item is squared to
+    return polygonFromRoom(room).segments.some(seg => {
+      if (seg.rotation !== rot) return false;
+      const inward = (item.x - seg.a.x) * seg.normal.x + (item.z - seg.a.z) * seg.normal.z;
+      return inward <= itemDepth / 2 + 50;
+    });
+  }
+
   // Check if currently aligned to a wall
   const isBackAligned = rot === 0 && item.z <= itemDepth / 2 + 50;
   const isLeftAligned = rot === 270 && item.x <= itemDepth / 2 + 50;
@@ -31,12 +31,17 @@ export function rangeForWall(
   return normaliseWallRunRange(brief.wallRanges?.[wall], wall, brief);
 }
 
-/** Stamp authoritative customer coverage onto an authored spec. */
+/** Stamp authoritative customer coverage and room type onto an authored
+ *  spec. A spec that omits the brief's room type would otherwise be judged by
+ *  the kitchen rule pack. */
 export function applyBriefConstraints(spec: KitchenSpec, brief: DesignBrief): KitchenSpec {
-  if (!brief.wallRanges) return spec;
+  const typed = brief.roomType && spec.roomType !== brief.roomType
+    ? { ...spec, roomType: brief.roomType }
+    : spec;
+  if (!brief.wallRanges) return typed;
   return {
-    ...spec,
-    runs: spec.runs.map(run => {
+    ...typed,
+    runs: typed.runs.map(run => {
       const range = brief.wallRanges?.[run.wall];
       if (!range) {
         const { startMm: _startMm, endMm: _endMm, ...unchanged } = run;
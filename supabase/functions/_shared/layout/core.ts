@@ -27,6 +27,9 @@ export interface PlacedItem {
 
   // Locked cabinet reference (C01, C02...) stored ON the item.
   cabinetNumber?: string;
+  /** Room of a multi-room job (R1, R2…). Every room numbers its cabinets from
+   *  C01, so job-wide shop documents need both to tell cabinets apart. */
+  roomRef?: string;
 
   x: number;
   y: number;
@@ -153,10 +156,23 @@ export interface PlacedItem {
   supplyWithOrder?: boolean;
 }
 
-export type RoomShape = 'Rectangle' | 'LShape';
+export type RoomShape = 'Rectangle' | 'LShape' | 'Polygon';
 
-/** Wall identifier, viewed in plan: N = back wall, S = front, W = left, E = right. */
-export type WallId = 'N' | 'E' | 'S' | 'W';
+/** Wall of a Polygon room: `P<n>` runs from corner n to corner n + 1. */
+export type PolygonWallId = `P${number}`;
+
+/** Wall identifier, viewed in plan: N = back wall, S = front, W = left, E = right.
+ *  Polygon rooms name their walls `P0`, `P1`, … instead. */
+export type WallId = 'N' | 'E' | 'S' | 'W' | PolygonWallId;
+
+/** One corner of a Polygon room in plan mm (x right, z toward the front).
+ *  Corners run clockwise as seen from above, i.e. with the room on each
+ *  wall's left, and the wall starting at this corner keeps `id`. */
+export interface RoomPolygonCorner {
+  id: PolygonWallId;
+  x: number;
+  z: number;
+}
 
 /** A door, window, or open walkway in a wall. Offsets measured in mm from the
  *  wall's left corner when facing the wall from inside the room. */
@@ -193,6 +209,25 @@ export interface ServicePoint {
   heightMm?: number;
 }
 
+/** Fixed structure the cabinetry has to work around. The plan footprint is
+ *  measured like a floor service: `xMm`/`zMm` from the room's left and back
+ *  walls to the footprint's near corner, `widthMm` along x, `depthMm` along z.
+ *  Columns and chimney breasts run floor to ceiling; bulkheads and beams hang
+ *  down to `undersideMm`; a sloped ceiling falls across its footprint from the
+ *  full room height to `undersideMm` at the `lowSide` edge. */
+export interface Obstruction {
+  id: string;
+  type: 'column' | 'chimney-breast' | 'bulkhead' | 'beam' | 'sloped-ceiling';
+  xMm: number;
+  zMm: number;
+  widthMm: number;
+  depthMm: number;
+  /** bulkheads, beams and sloped ceilings — underside height above the floor (mm). */
+  undersideMm?: number;
+  /** sloped ceilings only — the footprint edge (in plan) where the ceiling is lowest. */
+  lowSide?: 'N' | 'E' | 'S' | 'W';
+}
+
 export interface RoomConfig {
   width: number;
   depth: number;
@@ -200,10 +235,15 @@ export interface RoomConfig {
   shape: RoomShape;
   cutoutWidth: number;
   cutoutDepth: number;
+  /** Polygon rooms only — the closed outline. `width`/`depth` are its bounding
+   *  box and the outline is translated so the box starts at 0,0. */
+  polygon?: RoomPolygonCorner[];
   /** Doors/windows/walkways. Optional — legacy designs have none. */
   openings?: Opening[];
   /** Plumbing/power/gas points. Optional — legacy designs have none. */
   services?: ServicePoint[];
+  /** Columns, bulkheads, beams and sloped ceilings. Optional — legacy designs have none. */
+  obstructions?: Obstruction[];
 }
 
 export type TextureType = 'none' | 'wood' | 'stone' | 'concrete' | 'marble';
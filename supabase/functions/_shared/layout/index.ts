@@ -18,20 +18,54 @@ export * from './blindCorner.ts';
 export { solveRun } from './solveRun.ts';
 export { compileSpec, type CompiledDesign } from './compileSpec.ts';
 export { validate } from './validate.ts';
+export {
+  cooktopOverheadClearances,
+  type CooktopOverhead,
+  type CooktopOverheadClearances,
+  type CooktopOverheadKind,
+} from './cooktopClearance.ts';
+export {
+  sinkWetZone,
+  SINK_WET_ZONE_HEIGHT_MM,
+  SINK_WET_ZONE_REACH_MM,
+  type SinkWetZone,
+  type SinkWetZoneConflict,
+  type SinkWetZoneServiceKind,
+} from './sinkWetZone.ts';
 export {
   polygonFromRoom,
   segmentToWorld,
   pointInPolygon,
   rectInsidePolygon,
   rotationFromNormal,
+  polygonWallRotation,
   interiorAngles,
+  roomWallLength,
+  normalizeRoomPolygon,
+  validateRoomPolygon,
+  wallRunFromPolygon,
+  polygonFromWallRun,
+  roomPolygonCorners,
+  toPolygonRoom,
+  squareUpPolygonRoom,
+  type PolygonWallRunEntry,
   type Vec2,
   type WallSegment,
   type RoomPolygon,
   type CutoutCorner,
 } from './polygon.ts';
+export {
+  OBSTRUCTION_LABELS,
+  isFloorToCeiling,
+  obstructionRect,
+  obstructionUndersideAt,
+  obstructionClearance,
+  localCeilingHeight,
+  obstructionWallIntervals,
+} from './obstructions.ts';
 export {
   evaluateRules,
+  rulesForRoomType,
   ruleWhy,
   RULES,
   RULE_INDEX,
@@ -42,7 +76,38 @@ export {
   type RuleFinding,
   type RuleContext,
 } from './rules.ts';
+export {
+  LAYOUT_RULE_PACK_ID,
+  BOWER_LAYOUT_PACK_VERSION,
+  LAYOUT_THRESHOLD_DEFAULTS,
+  LAYOUT_THRESHOLD_LABELS,
+  LOCKED_TIER_RULE_IDS,
+  DEFAULT_LAYOUT_RULE_PACK,
+  tierParameterId,
+  isLayoutThresholdId,
+  layoutRulePackErrors,
+  layoutRulePackFrom,
+  layoutRulePackParameters,
+  layoutRulePackVersion,
+  activeLayoutRulePack,
+  changedRulePackParameters,
+  type RuleParameterClass,
+  type RulePackParameter,
+  type LayoutThresholdId,
+  type LayoutThresholds,
+  type LayoutRulePack,
+  type LayoutRulePackRow,
+} from './rulePack.ts';
 export { defaultSpecFor, inferLayoutShapeFromWalls, type LayoutShape } from './defaultSpec.ts';
+export {
+  ROOM_TYPES,
+  ROOM_TYPE_LABELS,
+  ROOM_TYPE_ROLES,
+  WET_FIXTURE_ROLE,
+  roomTypeOf,
+  dimensionsForRoomType,
+  defaultRoomSpecFor,
+} from './roomTypes.ts';
 export { priceDesign } from './priceDesign.ts';
 export { toRoomSpec, briefFromWizard } from './wizardAdapter.ts';
 export {
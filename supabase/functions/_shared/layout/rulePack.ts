@@ -0,0 +1,250 @@
+// GENERATED by scripts/sync-ai-shared.mjs — edit src/lib/layout instead.
+/**
+ * rulePack — the tunable half of the layout rule registry.
+ *
+ * rules.ts keeps the rule closures; the numbers they compare against and the
+ * tier each rule reports at come from a LayoutRulePack. The pack is a flat,
+ * versioned set of RulePackParameters so it can be stored as one approved row
+ * (table `layout_rule_packs`), edited in Admin → Design Rules, and loaded the
+ * same way by the browser and the ai-designer edge function.
+ *
+ * The built-in defaults below are the values the engine has always used; an
+ * approved row replaces them wholesale. Anything a row gets wrong — an unknown
+ * id, a non-numeric threshold, a tier on a locked rule — falls back to the
+ * default rather than failing, so a bad row can never disable a rule.
+ */
+
+import type { RuleTier } from './rules.ts';
+
+export type RuleParameterClass = 'regulatory' | 'ergonomic' | 'business';
+
+export interface RulePackParameter {
+  parameterId: string;
+  class: RuleParameterClass;
+  value: number | string | boolean;
+  unit: 'mm' | 'count' | 'flag';
+  source: string;
+  /** false until Bower signs the value off; draft packs ship nothing approved */
+  bowerApproved: boolean;
+}
+
+export const LAYOUT_RULE_PACK_ID = 'bower-kitchen-layout';
+/** Version of the built-in defaults, used until a pack is approved. */
+export const BOWER_LAYOUT_PACK_VERSION = `${LAYOUT_RULE_PACK_ID}@0.1.0`;
+
+/** Default thresholds (mm), keyed `<rule id>.<bound>`. */
+export const LAYOUT_THRESHOLD_DEFAULTS = {
+  'narrow-aisle.min': 900,
+  'narrow-galley.min': 900,
+  'washer-beside-tub.max': 600,
+  'sink-side-clearance.min': 300,
+  'replumb.max': 1500,
+  'gas-move.max': 600,
+  'cooktop-landing.min': 300,
+  'fridge-landing.min': 400,
+  'triangle-size.min': 3600,
+  'triangle-size.max': 8000,
+  'triangle-leg.min': 1200,
+  'triangle-leg.max': 2700,
+  'prep-space.min': 900,
+} as const;
+
+export type LayoutThresholdId = keyof typeof LAYOUT_THRESHOLD_DEFAULTS;
+export type LayoutThresholds = Record<LayoutThresholdId, number>;
+
+export const LAYOUT_THRESHOLD_LABELS: Record<LayoutThresholdId, string> = {
+  'narrow-aisle.min': 'Aisle beside an island or peninsula',
+  'narrow-galley.min': 'Aisle between facing runs',
+  'washer-beside-tub.max': 'Washer to laundry tub, furthest',
+  'sink-side-clearance.min': 'Bench either side of the sink',
+  'replumb.max': 'Sink move before replumbing',
+  'gas-move.max': 'Cooktop move before a new gas point',
+  'cooktop-landing.min': 'Landing either side of the cooktop',
+  'fridge-landing.min': 'Landing beside the fridge',
+  'triangle-size.min': 'Work triangle, shortest',
+  'triangle-size.max': 'Work triangle, longest',
+  'triangle-leg.min': 'Work-triangle leg, shortest',
+  'triangle-leg.max': 'Work-triangle leg, longest',
+  'prep-space.min': 'Continuous prep bench',
+};
+
+/** Bound pairs that must stay ordered; a pack that inverts one keeps the defaults. */
+const THRESHOLD_PAIRS: Array<[LayoutThresholdId, LayoutThresholdId]> = [
+  ['triangle-size.min', 'triangle-size.max'],
+  ['triangle-leg.min', 'triangle-leg.max'],
+];
+
+/** Nothing in a room is measured beyond this. */
+const THRESHOLD_CEILING_MM = 20000;
+
+/**
+ * Rules whose tier cannot be changed: room geometry, required fixtures,
+ * appliance installation clearances and the sink's electrical wet zone.
+ * Relaxing any of them produces a design that cannot be built or certified,
+ * so they keep their registry tier whatever a pack says.
+ */
+export const LOCKED_TIER_RULE_IDS: readonly string[] = [
+  'out-of-room',
+  'overlap',
+  'obstruction-clash',
+  'duplicate-run-wall',
+  'faces-wall',
+  'room-type-role',
+  'no-sink',
+  'no-cooktop',
+  'no-fridge',
+  'no-laundry-tub',
+  'no-washer',
+  'no-hanging',
+  'no-vanity-basin',
+  'oven-housing-fit',
+  'cooking-appliance-corner-clearance',
+  'sink-wet-zone',
+];
+
+const RULE_TIERS: readonly RuleTier[] = ['hard', 'safety', 'soft'];
+
+export interface LayoutRulePack {
+  version: string;
+  thresholds: LayoutThresholds;
+  /** Tier per rule id; rules not listed report at their registry tier. */
+  tiers: Partial<Record<string, RuleTier>>;
+}
+
+export const DEFAULT_LAYOUT_RULE_PACK: LayoutRulePack = {
+  version: BOWER_LAYOUT_PACK_VERSION,
+  thresholds: { ...LAYOUT_THRESHOLD_DEFAULTS },
+  tiers: {},
+};
+
+export function tierParameterId(ruleId: string): string {
+  return `${ruleId}.tier`;
+}
+
+export function isLayoutThresholdId(id: string): id is LayoutThresholdId {
+  return Object.prototype.hasOwnProperty.call(LAYOUT_THRESHOLD_DEFAULTS, id);
+}
+
+function validThreshold(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 && value <= THRESHOLD_CEILING_MM;
+}
+
+/**
+ * Problems with a parameter set, one line each. The editor shows these before
+ * a draft is submitted; layoutRulePackFrom() falls back past the same problems.
+ */
+export function layoutRulePackErrors(parameters: RulePackParameter[]): string[] {
+  const errors: string[] = [];
+  const values = new Map(parameters.map(p => [p.parameterId, p.value]));
+  for (const parameter of parameters) {
+    const id = parameter.parameterId;
+    if (isLayoutThresholdId(id)) {
+      if (!validThreshold(parameter.value)) errors.push(`${id} must be a length between 1 and ${THRESHOLD_CEILING_MM}mm`);
+    } else if (id.endsWith('.tier')) {
+      const ruleId = id.slice(0, -'.tier'.length);
+      if (LOCKED_TIER_RULE_IDS.includes(ruleId)) errors.push(`${ruleId} is locked and cannot change tier`);
+      else if (!RULE_TIERS.includes(parameter.value as RuleTier)) errors.push(`${id} must be one of ${RULE_TIERS.join(', ')}`);
+    } else {
+      errors.push(`${id} is not a layout rule parameter`);
+    }
+  }
+  for (const [low, high] of THRESHOLD_PAIRS) {
+    const a = values.get(low) ?? LAYOUT_THRESHOLD_DEFAULTS[low];
+    const b = values.get(high) ?? LAYOUT_THRESHOLD_DEFAULTS[high];
+    if (validThreshold(a) && validThreshold(b) && a >= b) errors.push(`${low} must be below ${high}`);
+  }
+  return errors;
+}
+
+/** Builds the pack a stored parameter set describes, keeping the default for anything invalid. */
+export function layoutRulePackFrom(version: string, parameters: RulePackParameter[]): LayoutRulePack {
+  const thresholds: LayoutThresholds = { ...LAYOUT_THRESHOLD_DEFAULTS };
+  const tiers: LayoutRulePack['tiers'] = {};
+  for (const { parameterId, value } of parameters) {
+    if (isLayoutThresholdId(parameterId)) {
+      if (validThreshold(value)) thresholds[parameterId] = value;
+    } else if (parameterId.endsWith('.tier')) {
+      const ruleId = parameterId.slice(0, -'.tier'.length);
+      if (!LOCKED_TIER_RULE_IDS.includes(ruleId) && RULE_TIERS.includes(value as RuleTier)) tiers[ruleId] = value as RuleTier;
+    }
+  }
+  for (const [low, high] of THRESHOLD_PAIRS) {
+    if (thresholds[low] >= thresholds[high]) {
+      thresholds[low] = LAYOUT_THRESHOLD_DEFAULTS[low];
+      thresholds[high] = LAYOUT_THRESHOLD_DEFAULTS[high];
+    }
+  }
+  return { version, thresholds, tiers };
+}
+
+/**
+ * The full parameter set for a pack: every threshold, then the tier of every
+ * rule that may change tier. `rules` is the registry (RULE_INDEX) so a rule
+ * the pack says nothing about is written at its registry tier.
+ */
+export function layoutRulePackParameters(
+  pack: LayoutRulePack,
+  rules: ReadonlyArray<{ id: string; tier: RuleTier }>,
+  bowerApproved = false,
+): RulePackParameter[] {
+  const thresholds = (Object.keys(LAYOUT_THRESHOLD_DEFAULTS) as LayoutThresholdId[]).map((id): RulePackParameter => ({
+    parameterId: id,
+    class: 'ergonomic',
+    value: pack.thresholds[id],
+    unit: 'mm',
+    source: pack.thresholds[id] === LAYOUT_THRESHOLD_DEFAULTS[id] ? 'Bower engine default' : 'Bower override',
+    bowerApproved,
+  }));
+  const tiers = rules
+    .filter(rule => !LOCKED_TIER_RULE_IDS.includes(rule.id))
+    .map((rule): RulePackParameter => {
+      const tier = pack.tiers[rule.id] ?? rule.tier;
+      return {
+        parameterId: tierParameterId(rule.id),
+        class: 'business',
+        value: tier,
+        unit: 'flag',
+        source: tier === rule.tier ? 'Bower engine default' : 'Bower override',
+        bowerApproved,
+      };
+    });
+  return [...thresholds, ...tiers];
+}
+
+/** One `layout_rule_packs` row. */
+export interface LayoutRulePackRow {
+  id: string;
+  version: number;
+  status: 'pending' | 'approved' | 'rejected';
+  parameters: RulePackParameter[];
+  note: string | null;
+  proposed_by: string | null;
+  proposed_at: string;
+  approved_by: string | null;
+  approved_at: string | null;
+}
+
+export function layoutRulePackVersion(row: Pick<LayoutRulePackRow, 'version'>): string {
+  return `${LAYOUT_RULE_PACK_ID}@r${row.version}`;
+}
+
+/** The newest approved row's pack, or the built-in defaults when none is approved. */
+export function activeLayoutRulePack(rows: ReadonlyArray<Pick<LayoutRulePackRow, 'version' | 'status' | 'parameters'>>): LayoutRulePack {
+  const approved = rows
+    .filter(row => row.status === 'approved')
+    .sort((a, b) => b.version - a.version)[0];
+  return approved
+    ? layoutRulePackFrom(layoutRulePackVersion(approved), Array.isArray(approved.parameters) ? approved.parameters : [])
+    : DEFAULT_LAYOUT_RULE_PACK;
+}
+
+/** Parameters whose value differs between two sets, for reviewing a draft against the active pack. */
+export function changedRulePackParameters(
+  from: RulePackParameter[],
+  to: RulePackParameter[],
+): Array<{ parameterId: string; from: RulePackParameter['value'] | undefined; to: RulePackParameter['value'] }> {
+  const before = new Map(from.map(p => [p.parameterId, p.value]));
+  return to
+    .filter(p => before.get(p.parameterId) !== p.value)
+    .map(p => ({ parameterId: p.parameterId, from: before.get(p.parameterId), to: p.value }));
+}
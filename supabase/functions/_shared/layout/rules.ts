@@ -23,6 +23,14 @@
  * Each rule also carries a plain-language `why` — the intent, reused by the
  * "explain this design" feature. Add a rule here, and it is automatically
  * enforced, sweep-enumerated (RULE_INDEX) and explainable.
+ *
+ * PACKS: thresholds a rule compares against, and the tier it reports at, come
+ * from the LayoutRulePack on the context (rulePack.ts). The defaults reproduce
+ * the constants these rules were written with; an approved pack may move them.
+ *
+ * ROOM TYPES: a rule with `roomTypes` belongs to those rooms' packs only (the
+ * kitchen workflow rules mean nothing in a wardrobe); a rule without it, such
+ * as overlap or aisle width, applies to every room.
  */
 
 import type { PlacedItem } from './core.ts';
@@ -40,11 +48,15 @@ import {
   blindCornerFrontLayout,
 } from './blindCorner.ts';
 import {
-  benchtopRect, dist, itemRect, rectsJoin, rectsOverlap, sharedCornerAt, wallLength,
+  benchtopRect, boundingRect, dist, itemRect, rectsJoin, rectsOverlap, sharedCornerAt, wallLength,
   servicePointWorld, wallPointWorld, WALL_ROTATION,
 } from './geometry.ts';
+import { isFloorToCeiling, OBSTRUCTION_LABELS, obstructionClearance } from './obstructions.ts';
+import { DEFAULT_LAYOUT_RULE_PACK, LAYOUT_THRESHOLD_DEFAULTS, type LayoutRulePack } from './rulePack.ts';
+import { ROOM_TYPE_LABELS, ROOM_TYPE_ROLES, WET_FIXTURE_ROLE, roomTypeOf } from './roomTypes.ts';
+import { SINK_WET_ZONE_HEIGHT_MM, SINK_WET_ZONE_REACH_MM, sinkWetZone } from './sinkWetZone.ts';
 import type { CompiledDesign } from './compileSpec.ts';
-import type { DesignBrief, RoomSpec, Segment, SegmentRole, Wall } from './types.ts';
+import type { DesignBrief, PeninsulaSpec, RoomSpec, RoomType, Run, Segment, SegmentRole, Wall } from './types.ts';
 
 export type RuleTier = 'hard' | 'safety' | 'soft';
 export type RuleScope = 'relational' | 'spatial';
@@ -65,6 +77,10 @@ export interface RuleContext {
   floorItems: PlacedItem[];
   /** island cabinets (free-standing rows), computed once */
   islandItems: PlacedItem[];
+  /** peninsula cabinets, returning from a wall run's end corner */
+  peninsulaItems: PlacedItem[];
+  /** thresholds and tier overrides in force */
+  pack: LayoutRulePack;
 }
 
 export interface Rule {
@@ -74,27 +90,30 @@ export interface Rule {
   title: string;
   /** plain-language reason this rule exists — reused by design explanations */
   why: string;
+  /** Rooms whose pack includes this rule; omitted = every room type. */
+  roomTypes?: readonly RoomType[];
   /** empty array = pass */
   evaluate(ctx: RuleContext): RuleFinding[];
 }
 
-// thresholds (mm) — shared with the legacy checks they replace
-const MIN_AISLE = 900;
-const MIN_FACING_AISLE = 900;
-const TRIANGLE_MIN = 3600;
-const TRIANGLE_MAX = 8000;
-const LEG_MIN = 1200;
-const LEG_MAX = 2700;
-const SINK_DRAIN_MAX = 1500;
-const GAS_MAX = 600;
 /** Fallbacks only: the nominated appliance installation instructions govern. */
 const GAS_COOKTOP_COMBUSTIBLE_SIDE_CLEARANCE = 200;
 const INDUCTION_COOKTOP_SIDE_CLEARANCE_FALLBACK = 150;
 const OVEN_TOWER_CORNER_CLEARANCE = 600;
-const COOKTOP_LANDING_MIN = 300;
-const SINK_SIDE_CLEARANCE_MIN = 300;
-const FRIDGE_LANDING_MIN = 400;
-const PREP_BENCH_MIN = 900;
+
+// Tunable thresholds (mm) come from ctx.pack; the `why` texts quote the defaults.
+const T = LAYOUT_THRESHOLD_DEFAULTS;
+
+const KITCHEN: readonly RoomType[] = ['kitchen'];
+const LAUNDRY: readonly RoomType[] = ['laundry'];
+const WARDROBE: readonly RoomType[] = ['wardrobe'];
+const BATHROOM: readonly RoomType[] = ['bathroom'];
+
+const WET_FIXTURE_NAMES: Partial<Record<SegmentRole, string>> = {
+  sink: 'Sink',
+  'laundry-tub': 'Laundry tub',
+  'vanity-basin': 'Vanity basin',
+};
 
 function finding(ruleId: string, tier: RuleTier, message: string, itemIds?: string[]): RuleFinding {
   return { ruleId, tier, message, ...(itemIds ? { itemIds } : {}) };
@@ -118,14 +137,31 @@ function isTallSegment(segment: Segment): boolean {
   return segment.kind === 'cabinet' && TALL_ROLES.has(segment.role);
 }
 
-function contiguousBenchFrom(segments: Segment[], start: number, direction: -1 | 1): number {
+/**
+ * Contiguous bench from a segment outwards along its run. A walk that stops
+ * at the corner a peninsula grows from carries on round it: the corner top and
+ * the whole peninsula are landing space.
+ */
+function landingBenchFrom(
+  run: Run,
+  start: number,
+  direction: -1 | 1,
+  peninsula: PeninsulaSpec | undefined,
+  peninsulaItems: PlacedItem[],
+): number {
   let total = 0;
-  for (let index = start; index >= 0 && index < segments.length; index += direction) {
-    const segment = segments[index];
-    if (!isBenchSegment(segment)) break;
-    total += segmentWidth(segment);
+  let index = start;
+  for (; index >= 0 && index < run.segments.length && isBenchSegment(run.segments[index]); index += direction) {
+    total += segmentWidth(run.segments[index]);
   }
-  return total;
+  const stop = run.segments[index];
+  // Solve order runs from the wall's start, or from its end when mirrored.
+  const towards = (direction === 1) === !run.fromEnd ? 'end' : 'start';
+  if (!peninsula || peninsulaItems.length === 0 || run.wall !== peninsula.wall || towards !== peninsula.at
+    || stop?.kind !== 'cabinet' || stop.role !== 'corner') {
+    return total;
+  }
+  return total + segmentWidth(stop) + peninsulaItems.reduce((sum, item) => sum + item.width, 0);
 }
 
 function contiguousSinkSideFrom(segments: Segment[], start: number, direction: -1 | 1): number {
@@ -224,6 +260,27 @@ export const RULES: Rule[] = [
       return out;
     },
   },
+  {
+    id: 'obstruction-clash', tier: 'hard', scope: 'spatial',
+    title: 'Cabinets clear of structure and ceiling',
+    why: 'A cabinet cannot pass through a column, chimney breast, bulkhead or beam, or stand taller than the ceiling above it.',
+    evaluate: ({ design, room }) => design.items.flatMap(item => {
+      const r = itemRect(item);
+      const top = item.y + item.height;
+      for (const o of room.obstructions ?? []) {
+        const clear = obstructionClearance(o, r, room.height);
+        if (clear === null || top <= clear + 1) continue;
+        const label = OBSTRUCTION_LABELS[o.type];
+        return [finding('obstruction-clash', 'hard', isFloorToCeiling(o)
+          ? `${item.definitionId} runs into the ${label}`
+          : `${item.definitionId} is ${Math.round(top)}mm tall but the ${label} above it leaves ${Math.round(clear)}mm`,
+        [item.instanceId])];
+      }
+      return top > room.height + 1
+        ? [finding('obstruction-clash', 'hard', `${item.definitionId} is taller than the ${room.height}mm ceiling`, [item.instanceId])]
+        : [];
+    }),
+  },
   {
     id: 'allowed-wall', tier: 'hard', scope: 'relational',
     title: 'Customer-selected cabinet walls',
@@ -399,17 +456,29 @@ export const RULES: Rule[] = [
   },
   {
     id: 'narrow-aisle', tier: 'hard', scope: 'spatial',
-    title: 'Island aisle width',
-    why: `An aisle beside an island narrower than ${MIN_AISLE}mm is not usable.`,
-    evaluate: ({ floorItems, islandItems }) => {
+    title: 'Island and peninsula aisle width',
+    why: `An aisle beside an island or peninsula narrower than ${T['narrow-aisle.min']}mm is not usable.`,
+    evaluate: ({ floorItems, islandItems, peninsulaItems, pack }) => {
+      const min = pack.thresholds['narrow-aisle.min'];
       const out: RuleFinding[] = [];
       const workingFootprint = (item: PlacedItem) => item.height <= 1000
         ? benchtopRect(item)
         : itemRect(item);
-      for (const isl of islandItems) {
+      // Island cabinets are measured against everything else. A peninsula is
+      // measured as one top, so the corner it grows from never reads as an
+      // aisle, and islands have already been measured against it.
+      const rows = [
+        ...islandItems.map(item => ({ id: item.instanceId, rect: workingFootprint(item), own: islandItems })),
+        ...(peninsulaItems.length > 0 ? [{
+          id: peninsulaItems[0].instanceId,
+          rect: boundingRect(peninsulaItems.map(workingFootprint)),
+          own: [...peninsulaItems, ...islandItems],
+        }] : []),
+      ];
+      for (const row of rows) {
         for (const other of floorItems) {
-          if (islandItems.includes(other)) continue;
-          const a = workingFootprint(isl), b = workingFootprint(other);
+          if (row.own.includes(other)) continue;
+          const a = row.rect, b = workingFootprint(other);
           const overlapsX = a.minX < b.maxX && a.maxX > b.minX;
           const overlapsZ = a.minZ < b.maxZ && a.maxZ > b.minZ;
           const gap = overlapsX
@@ -417,10 +486,10 @@ export const RULES: Rule[] = [
             : overlapsZ
               ? Math.max(b.minX - a.maxX, a.minX - b.maxX)
               : Number.POSITIVE_INFINITY;
-          if (gap > 0 && gap < MIN_AISLE) {
+          if (gap > 0 && gap < min) {
             out.push(finding('narrow-aisle', 'hard',
-              `Clear benchtop-to-benchtop aisle is ${Math.round(gap)}mm (min ${MIN_AISLE}mm)`,
-              [isl.instanceId, other.instanceId]));
+              `Clear benchtop-to-benchtop aisle is ${Math.round(gap)}mm (min ${min}mm)`,
+              [row.id, other.instanceId]));
           }
         }
       }
@@ -430,31 +499,109 @@ export const RULES: Rule[] = [
   {
     id: 'narrow-galley', tier: 'hard', scope: 'spatial',
     title: 'Galley aisle width',
-    why: `Two facing runs need at least ${MIN_FACING_AISLE}mm between them to work in.`,
-    evaluate: ({ floorItems, islandItems }) => {
-      const nRun = floorItems.filter(i => i.rotation === 0);
-      const sRun = floorItems.filter(i => i.rotation === 180 && !islandItems.includes(i));
+    why: `Two facing runs need at least ${T['narrow-galley.min']}mm between them to work in.`,
+    evaluate: ({ floorItems, islandItems, peninsulaItems, pack }) => {
+      const min = pack.thresholds['narrow-galley.min'];
+      const nRun = floorItems.filter(i => i.rotation === 0 && !peninsulaItems.includes(i));
+      const sRun = floorItems.filter(i => i.rotation === 180 && !islandItems.includes(i) && !peninsulaItems.includes(i));
       if (!nRun.length || !sRun.length) return [];
       const gap = Math.min(...sRun.map(i => itemRect(i).minZ)) - Math.max(...nRun.map(i => itemRect(i).maxZ));
-      return gap < MIN_FACING_AISLE
-        ? [finding('narrow-galley', 'hard', `Galley aisle ${Math.round(gap)}mm (min ${MIN_FACING_AISLE}mm)`)]
+      return gap < min
+        ? [finding('narrow-galley', 'hard', `Galley aisle ${Math.round(gap)}mm (min ${min}mm)`)]
         : [];
     },
   },
+  {
+    id: 'room-type-role', tier: 'hard', scope: 'relational',
+    title: 'Cabinets belong to the room',
+    why: 'A cooktop has no place in a wardrobe and a hanging rail none in a kitchen; every cabinet must be one this room type is built from.',
+    evaluate: ({ design }) => {
+      const roomType = roomTypeOf(design.sourceSpec);
+      const allowed = new Set(ROOM_TYPE_ROLES[roomType]);
+      const foreign = new Set(design.sourceSpec.runs.flatMap(run => run.segments
+        .filter((segment): segment is Extract<Segment, { kind: 'cabinet' }> =>
+          segment.kind === 'cabinet' && !allowed.has(segment.role))
+        .map(segment => segment.role)));
+      return [...foreign].map(role => finding(
+        'room-type-role',
+        'hard',
+        `${ROOM_TYPE_LABELS[roomType]} designs cannot use a ${role} cabinet`,
+      ));
+    },
+  },
+  {
+    id: 'no-laundry-tub', tier: 'hard', scope: 'relational',
+    roomTypes: LAUNDRY,
+    title: 'Has a laundry tub',
+    why: 'A laundry must have a tub for soaking, rinsing and the washer waste.',
+    evaluate: ({ design }) => design.rolePositions['laundry-tub']
+      ? []
+      : [finding('no-laundry-tub', 'hard', 'Design has no laundry tub cabinet')],
+  },
+  {
+    id: 'no-washer', tier: 'hard', scope: 'relational',
+    roomTypes: LAUNDRY,
+    title: 'Has a washing machine space',
+    why: 'A laundry must leave an opening for the washing machine.',
+    evaluate: ({ design }) => design.rolePositions['washer-gap']
+      ? []
+      : [finding('no-washer', 'hard', 'Design has no washing machine space')],
+  },
+  {
+    id: 'washer-beside-tub', tier: 'safety', scope: 'relational',
+    roomTypes: LAUNDRY,
+    title: 'Washer beside the tub',
+    why: `The washer's hoses and waste connect at the tub, so it should sit on the tub's wall within ${T['washer-beside-tub.max']}mm of it.`,
+    evaluate: ({ design, pack }) => {
+      const tub = design.rolePositions['laundry-tub'];
+      const washer = design.rolePositions['washer-gap'];
+      if (!tub || !washer) return [];
+      const gap = Math.max(
+        washer.startMm - (tub.startMm + tub.widthMm),
+        tub.startMm - (washer.startMm + washer.widthMm),
+      );
+      return tub.wall === washer.wall && gap <= pack.thresholds['washer-beside-tub.max']
+        ? []
+        : [finding('washer-beside-tub', 'safety',
+            'Washing machine space is not beside the laundry tub — its hoses and waste will need extending',
+            [tub.item.instanceId, washer.item.instanceId])];
+    },
+  },
+  {
+    id: 'no-hanging', tier: 'hard', scope: 'relational',
+    roomTypes: WARDROBE,
+    title: 'Has hanging space',
+    why: 'A wardrobe must have at least one hanging section.',
+    evaluate: ({ design }) => design.rolePositions['hanging-rail']
+      ? []
+      : [finding('no-hanging', 'hard', 'Design has no hanging section')],
+  },
+  {
+    id: 'no-vanity-basin', tier: 'hard', scope: 'relational',
+    roomTypes: BATHROOM,
+    title: 'Has a vanity basin',
+    why: 'A bathroom vanity must carry its basin.',
+    evaluate: ({ design }) => design.rolePositions['vanity-basin']
+      ? []
+      : [finding('no-vanity-basin', 'hard', 'Design has no vanity basin cabinet')],
+  },
   {
     id: 'no-sink', tier: 'hard', scope: 'relational',
+    roomTypes: KITCHEN,
     title: 'Has a sink',
     why: 'A kitchen must have a sink.',
     evaluate: ({ design }) => design.rolePositions.sink ? [] : [finding('no-sink', 'hard', 'Design has no sink cabinet')],
   },
   {
     id: 'no-cooktop', tier: 'hard', scope: 'relational',
+    roomTypes: KITCHEN,
     title: 'Has a cooktop',
     why: 'A kitchen must have a cooktop.',
     evaluate: ({ design }) => design.rolePositions.cooktop ? [] : [finding('no-cooktop', 'hard', 'Design has no cooktop cabinet')],
   },
   {
     id: 'cooktop-window', tier: 'safety', scope: 'relational',
+    roomTypes: KITCHEN,
     title: 'Cooktop stays clear of windows',
     why: 'A cooktop in front of a window conflicts with safe extraction, window operation and the normal rangehood position. It is only retained when a compact room has no safer layout.',
     evaluate: ({ design, room }) => {
@@ -478,19 +625,21 @@ export const RULES: Rule[] = [
   },
   {
     id: 'sink-side-clearance', tier: 'safety', scope: 'relational',
+    roomTypes: KITCHEN,
     title: 'Sink stays clear of exposed ends and tall panels',
-    why: `A sink needs at least ${SINK_SIDE_CLEARANCE_MIN}mm of adjoining low bench or a usable corner on both sides. This keeps the bowl away from an exposed run end, wall or tall panel unless a compact kitchen leaves no alternative.`,
-    evaluate: ({ design }) => design.sourceSpec.runs.flatMap(run => {
+    why: `A sink needs at least ${T['sink-side-clearance.min']}mm of adjoining low bench or a usable corner on both sides. This keeps the bowl away from an exposed run end, wall or tall panel unless a compact kitchen leaves no alternative.`,
+    evaluate: ({ design, pack }) => design.sourceSpec.runs.flatMap(run => {
+      const min = pack.thresholds['sink-side-clearance.min'];
       const index = run.segments.findIndex(segment =>
         segment.kind === 'cabinet' && segment.role === 'sink');
       if (index < 0) return [];
       const left = contiguousSinkSideFrom(run.segments, index - 1, -1);
       const right = contiguousSinkSideFrom(run.segments, index + 1, 1);
-      return left < SINK_SIDE_CLEARANCE_MIN || right < SINK_SIDE_CLEARANCE_MIN
+      return left < min || right < min
         ? [finding(
             'sink-side-clearance',
             'safety',
-            `Sink side bench is ${left}mm / ${right}mm (preferred minimum ${SINK_SIDE_CLEARANCE_MIN}mm on each side)`,
+            `Sink side bench is ${left}mm / ${right}mm (preferred minimum ${min}mm on each side)`,
             design.rolePositions.sink ? [design.rolePositions.sink.item.instanceId] : undefined,
           )]
         : [];
@@ -498,12 +647,14 @@ export const RULES: Rule[] = [
   },
   {
     id: 'no-fridge', tier: 'hard', scope: 'relational',
+    roomTypes: KITCHEN,
     title: 'Has a fridge space',
     why: 'A kitchen must have somewhere for the fridge.',
     evaluate: ({ design }) => design.rolePositions['fridge-gap'] ? [] : [finding('no-fridge', 'hard', 'Design has no fridge space')],
   },
   {
     id: 'no-dishwasher', tier: 'hard', scope: 'relational',
+    roomTypes: KITCHEN,
     title: 'Dishwasher placed when requested',
     why: 'If the customer asked for a dishwasher, the design must include its opening.',
     evaluate: ({ design, brief }) =>
@@ -513,6 +664,7 @@ export const RULES: Rule[] = [
   },
   {
     id: 'dishwasher-not-adjacent', tier: 'hard', scope: 'relational',
+    roomTypes: KITCHEN,
     title: 'Dishwasher beside the sink',
     why: 'The dishwasher shares the sink’s plumbing, so it must sit immediately next to the sink cabinet.',
     evaluate: ({ design, brief }) => {
@@ -563,6 +715,7 @@ export const RULES: Rule[] = [
   },
   {
     id: 'tall-unit-cluster', tier: 'hard', scope: 'relational',
+    roomTypes: KITCHEN,
     title: 'Tall units form one continuous bank',
     why: 'Fridge, oven tower and pantry belong together at a run end; scattering them across working walls breaks bench flow and visual order.',
     evaluate: ({ design }) => {
@@ -600,6 +753,7 @@ export const RULES: Rule[] = [
   },
   {
     id: 'tall-unit-workflow-break', tier: 'hard', scope: 'relational',
+    roomTypes: KITCHEN,
     title: 'Sink-to-cooktop bench remains unbroken',
     why: 'Tall cabinetry must never split the main sink-to-cooktop preparation run.',
     evaluate: ({ design }) => design.sourceSpec.runs.flatMap(run => {
@@ -615,6 +769,7 @@ export const RULES: Rule[] = [
   },
   {
     id: 'fridge-room-corner-clearance', tier: 'hard', scope: 'spatial',
+    roomTypes: KITCHEN,
     title: 'Fridge doors clear perpendicular room walls',
     why: `A fridge needs at least ${FRIDGE_ROOM_CORNER_CLEARANCE_MM}mm between it and a physical room corner so its doors and internal drawers can open fully.`,
     evaluate: ({ design, room }) => {
@@ -672,6 +827,7 @@ export const RULES: Rule[] = [
   },
   {
     id: 'style-composition-fidelity', tier: 'hard', scope: 'relational',
+    roomTypes: KITCHEN,
     title: 'Style family changes composition',
     why: 'A style is a cabinet-composition system, not a material wrap applied to the same kitchen.',
     evaluate: ({ design }) => {
@@ -789,6 +945,7 @@ export const RULES: Rule[] = [
   },
   {
     id: 'cooking-appliance-corner-clearance', tier: 'hard', scope: 'spatial',
+    roomTypes: KITCHEN,
     title: 'Cooking appliances clear inside corners',
     why: 'Cooktops follow the nominated appliance side-clearance instructions; before a product is confirmed the planner uses 200mm for gas and 150mm for induction. Oven towers retain a larger working clearance for doors and handles.',
     evaluate: ({ design, room, brief }) => {
@@ -867,6 +1024,7 @@ export const RULES: Rule[] = [
   },
   {
     id: 'appliance-gap-fit', tier: 'safety', scope: 'relational',
+    roomTypes: KITCHEN,
     title: 'Appliance openings fit the appliance',
     why: 'The sink cabinet, fridge space and dishwasher opening must be wide enough for the actual appliance.',
     evaluate: ({ design, brief }) => {
@@ -898,6 +1056,7 @@ export const RULES: Rule[] = [
   },
   {
     id: 'oven-housing-fit', tier: 'hard', scope: 'relational',
+    roomTypes: KITCHEN,
     title: 'Oven housing matches the selected oven',
     why: 'A nominated oven must never be presented inside a narrower cabinet.',
     evaluate: ({ design, brief }) => {
@@ -916,45 +1075,68 @@ export const RULES: Rule[] = [
   {
     id: 'replumb', tier: 'safety', scope: 'spatial',
     title: 'Sink near existing plumbing',
-    why: 'A sink far from the existing drain means re-plumbing — extra cost the customer should know about.',
-    evaluate: ({ design, room }) => {
-      const sink = design.rolePositions.sink;
+    why: 'A sink, laundry tub or vanity basin far from the existing drain means re-plumbing — extra cost the customer should know about.',
+    evaluate: ({ design, room, pack }) => {
+      const role = WET_FIXTURE_ROLE[roomTypeOf(design.sourceSpec)];
+      const fixture = role ? design.rolePositions[role] : undefined;
       const drain = room.services.find(s => s.type === 'drain') ?? room.services.find(s => s.type === 'water-supply');
-      if (!sink || !drain) return [];
-      const d = dist({ x: sink.item.x, z: sink.item.z }, servicePointWorld(drain, room));
-      return d > SINK_DRAIN_MAX
-        ? [finding('replumb', 'safety', `Sink is ${(d / 1000).toFixed(1)}m from existing plumbing — re-plumbing will be required`)]
+      if (!role || !fixture || !drain) return [];
+      const d = dist({ x: fixture.item.x, z: fixture.item.z }, servicePointWorld(drain, room));
+      return d > pack.thresholds['replumb.max']
+        ? [finding('replumb', 'safety', `${WET_FIXTURE_NAMES[role]} is ${(d / 1000).toFixed(1)}m from existing plumbing — re-plumbing will be required`)]
         : [];
     },
   },
+  {
+    id: 'sink-wet-zone', tier: 'safety', scope: 'spatial',
+    roomTypes: KITCHEN,
+    title: 'Power points clear of the sink',
+    why: `A power point within ${SINK_WET_ZONE_REACH_MM}mm of the sink bowls and up to ${SINK_WET_ZONE_HEIGHT_MM}mm above the bench, or an appliance connection under them, sits where water reaches — it has to move before the electrical work can be signed off.`,
+    evaluate: ({ design, room, brief }) => {
+      const zone = sinkWetZone(design, room, brief?.appliances.sinkBowlSizes);
+      if (!zone) return [];
+      return zone.conflicts.map(conflict => {
+        const point = conflict.kind === 'gpo' ? 'Power point' : 'Appliance power connection';
+        const along = conflict.relocation && 'offsetMm' in conflict.relocation ? 'wall' : 'floor';
+        return finding('sink-wet-zone', 'safety', conflict.shiftMm === undefined
+          ? `${point} is inside the sink's wet zone and no point along this wall clears it`
+          : `${point} is inside the sink's wet zone — moving it ${conflict.shiftMm}mm along the ${along} clears it`,
+        [zone.sinkItemId]);
+      });
+    },
+  },
   {
     id: 'gas-move', tier: 'safety', scope: 'spatial',
+    roomTypes: KITCHEN,
     title: 'Gas cooktop near the gas point',
     why: 'A gas cooktop far from the gas point means gas work — extra cost to flag.',
-    evaluate: ({ design, room, brief }) => {
+    evaluate: ({ design, room, brief, pack }) => {
       const cooktop = design.rolePositions.cooktop;
       const gas = room.services.find(s => s.type === 'gas');
       if (!cooktop || brief?.appliances.cooktop !== 'gas' || !gas) return [];
       const d = dist({ x: cooktop.item.x, z: cooktop.item.z }, servicePointWorld(gas, room));
-      return d > GAS_MAX
+      return d > pack.thresholds['gas-move.max']
         ? [finding('gas-move', 'safety', `Gas cooktop is ${(d / 1000).toFixed(1)}m from the gas point — gas work required`)]
         : [];
     },
   },
   {
     id: 'cooktop-landing', tier: 'safety', scope: 'relational',
+    roomTypes: KITCHEN,
     title: 'Cooktop landing zones',
     why: 'A cooktop needs measured bench space on both sides to set down hot pans safely.',
-    evaluate: ({ design }) => design.sourceSpec.runs.flatMap(run => {
+    evaluate: ({ design, peninsulaItems, pack }) => design.sourceSpec.runs.flatMap(run => {
+      const min = pack.thresholds['cooktop-landing.min'];
       const index = run.segments.findIndex(segment => segment.kind === 'cabinet' && segment.role === 'cooktop');
       if (index < 0) return [];
-      const left = contiguousBenchFrom(run.segments, index - 1, -1);
-      const right = contiguousBenchFrom(run.segments, index + 1, 1);
-      return left < COOKTOP_LANDING_MIN || right < COOKTOP_LANDING_MIN
+      const { peninsula } = design.sourceSpec;
+      const left = landingBenchFrom(run, index - 1, -1, peninsula, peninsulaItems);
+      const right = landingBenchFrom(run, index + 1, 1, peninsula, peninsulaItems);
+      return left < min || right < min
         ? [finding(
             'cooktop-landing',
             'safety',
-            `Cooktop landing is ${left}mm / ${right}mm (minimum ${COOKTOP_LANDING_MIN}mm on each side)`,
+            `Cooktop landing is ${left}mm / ${right}mm (minimum ${min}mm on each side)`,
             design.rolePositions.cooktop ? [design.rolePositions.cooktop.item.instanceId] : undefined,
           )]
         : [];
@@ -962,19 +1144,22 @@ export const RULES: Rule[] = [
   },
   {
     id: 'fridge-landing', tier: 'safety', scope: 'relational',
+    roomTypes: KITCHEN,
     title: 'Fridge landing zone',
     why: 'A fridge needs an adjacent bench where groceries and containers can be set down safely.',
-    evaluate: ({ design }) => design.sourceSpec.runs.flatMap(run => {
+    evaluate: ({ design, peninsulaItems, pack }) => design.sourceSpec.runs.flatMap(run => {
+      const min = pack.thresholds['fridge-landing.min'];
       const index = run.segments.findIndex(segment => segment.kind === 'cabinet' && segment.role === 'fridge-gap');
       if (index < 0) return [];
-      const left = contiguousBenchFrom(run.segments, index - 1, -1);
-      const right = contiguousBenchFrom(run.segments, index + 1, 1);
+      const { peninsula } = design.sourceSpec;
+      const left = landingBenchFrom(run, index - 1, -1, peninsula, peninsulaItems);
+      const right = landingBenchFrom(run, index + 1, 1, peninsula, peninsulaItems);
       const landing = Math.max(left, right);
-      return landing < FRIDGE_LANDING_MIN
+      return landing < min
         ? [finding(
             'fridge-landing',
             'safety',
-            `Fridge landing is ${landing}mm (minimum ${FRIDGE_LANDING_MIN}mm adjacent bench)`,
+            `Fridge landing is ${landing}mm (minimum ${min}mm adjacent bench)`,
             design.rolePositions['fridge-gap'] ? [design.rolePositions['fridge-gap'].item.instanceId] : undefined,
           )]
         : [];
@@ -982,6 +1167,7 @@ export const RULES: Rule[] = [
   },
   {
     id: 'island-exposed', tier: 'safety', scope: 'relational',
+    roomTypes: KITCHEN,
     title: 'Island ends finished',
     why: 'An island is seen from all sides, so its exposed ends need finished panels, not bare carcase.',
     evaluate: ({ islandItems }) => {
@@ -993,42 +1179,63 @@ export const RULES: Rule[] = [
         : [];
     },
   },
+  {
+    id: 'peninsula-exposed', tier: 'safety', scope: 'relational',
+    roomTypes: KITCHEN,
+    title: 'Peninsula back and end finished',
+    why: 'A peninsula is seen from the room on its back and free end, so both need finished panels, not bare carcase.',
+    evaluate: ({ peninsulaItems }) => {
+      if (peninsulaItems.length === 0) return [];
+      const hasBack = peninsulaItems.some(i => i.finishedBack);
+      const hasEnd = peninsulaItems.some(i => i.endPanelLeft || i.endPanelRight);
+      return (!hasBack || !hasEnd)
+        ? [finding('peninsula-exposed', 'safety', `Peninsula has an exposed carcase ${hasBack ? 'end' : 'back'} with no finished panel`)]
+        : [];
+    },
+  },
   {
     id: 'triangle-size', tier: 'safety', scope: 'spatial',
+    roomTypes: KITCHEN,
     title: 'Work-triangle perimeter',
-    why: 'The sink–cooktop–fridge triangle works best between 3.6m and 8m total.',
-    evaluate: ({ design }) => {
+    why: `The sink–cooktop–fridge triangle works best between ${T['triangle-size.min'] / 1000}m and ${T['triangle-size.max'] / 1000}m total.`,
+    evaluate: ({ design, pack }) => {
       const { sink, cooktop } = design.rolePositions;
       const fridge = design.rolePositions['fridge-gap'];
       if (!sink || !cooktop || !fridge) return [];
       if (sink.wall === cooktop.wall && cooktop.wall === fridge.wall) return [];
       const pts = [sink.item, cooktop.item, fridge.item].map(workingAccessPoint);
       const perimeter = dist(pts[0], pts[1]) + dist(pts[1], pts[2]) + dist(pts[2], pts[0]);
-      return (perimeter < TRIANGLE_MIN || perimeter > TRIANGLE_MAX)
-        ? [finding('triangle-size', 'safety', `Work triangle ${(perimeter / 1000).toFixed(1)}m (required 3.6–8m)`)]
+      const min = pack.thresholds['triangle-size.min'];
+      const max = pack.thresholds['triangle-size.max'];
+      return (perimeter < min || perimeter > max)
+        ? [finding('triangle-size', 'safety', `Work triangle ${(perimeter / 1000).toFixed(1)}m (required ${min / 1000}–${max / 1000}m)`)]
         : [];
     },
   },
   {
     id: 'triangle-leg', tier: 'safety', scope: 'spatial',
+    roomTypes: KITCHEN,
     title: 'Work-triangle legs',
     why: 'Each leg of the work triangle should be neither cramped nor a long walk.',
-    evaluate: ({ design }) => {
+    evaluate: ({ design, pack }) => {
       const { sink, cooktop } = design.rolePositions;
       const fridge = design.rolePositions['fridge-gap'];
       if (!sink || !cooktop || !fridge) return [];
       if (sink.wall === cooktop.wall && cooktop.wall === fridge.wall) return [];
       const pts = [sink.item, cooktop.item, fridge.item].map(workingAccessPoint);
       const legs = [dist(pts[0], pts[1]), dist(pts[1], pts[2]), dist(pts[2], pts[0])];
+      const min = pack.thresholds['triangle-leg.min'];
+      const max = pack.thresholds['triangle-leg.max'];
       for (const leg of legs) {
-        if (leg < LEG_MIN) return [finding('triangle-leg', 'safety', `A work-triangle leg is under ${LEG_MIN}mm`)];
-        if (leg > LEG_MAX) return [finding('triangle-leg', 'safety', `A work-triangle leg exceeds ${LEG_MAX}mm`)];
+        if (leg < min) return [finding('triangle-leg', 'safety', `A work-triangle leg is under ${min}mm`)];
+        if (leg > max) return [finding('triangle-leg', 'safety', `A work-triangle leg exceeds ${max}mm`)];
       }
       return [];
     },
   },
   {
     id: 'triangle-obstruction', tier: 'safety', scope: 'spatial',
+    roomTypes: KITCHEN,
     title: 'Work-triangle paths stay clear',
     why: 'A tall cabinet cannot stand in the walking path between the sink, cooktop and fridge.',
     evaluate: ({ design, floorItems }) => {
@@ -1061,18 +1268,20 @@ export const RULES: Rule[] = [
   },
   {
     id: 'prep-space', tier: 'safety', scope: 'relational',
+    roomTypes: KITCHEN,
     title: 'Continuous prep bench',
-    why: 'A usable kitchen wants at least 900mm of uninterrupted bench to prepare food.',
-    evaluate: ({ design, floorItems }) => {
+    why: `A usable kitchen wants at least ${T['prep-space.min']}mm of uninterrupted bench to prepare food.`,
+    evaluate: ({ design, floorItems, pack }) => {
+      const min = pack.thresholds['prep-space.min'];
       const { sink, cooktop } = design.rolePositions;
       const prepRun = floorItems.filter(i => i.height <= 800 && i.itemType === 'Cabinet'
         && !(sink && i === sink.item) && !(cooktop && i === cooktop.item));
-      const hasPrep = prepRun.some(i => i.width >= 900)
+      const hasPrep = prepRun.some(i => i.width >= min)
         || prepRun.some(a => prepRun.some(b => a !== b && a.rotation === b.rotation
           && Math.abs(a.z - b.z) < 10 && Math.abs(Math.abs(a.x - b.x) - (a.width + b.width) / 2) < 20
-          && a.width + b.width >= 900));
+          && a.width + b.width >= min));
       return !hasPrep
-        ? [finding('prep-space', 'safety', `Less than ${PREP_BENCH_MIN}mm of continuous prep bench`)]
+        ? [finding('prep-space', 'safety', `Less than ${min}mm of continuous prep bench`)]
         : [];
     },
   },
@@ -1083,12 +1292,29 @@ export const RULES: Rule[] = [
  *  here so the gap is visible rather than silent. */
 export const RESERVED_RULE_IDS = ['sink-bowl-fit', 'run-end-panel', 'filler-complete', 'cutout-intersection'] as const;
 
-/** Build the shared context once, then run every rule. Deterministic order. */
-export function evaluateRules(design: CompiledDesign, room: RoomSpec, brief?: DesignBrief): RuleFinding[] {
+/** The rule pack for one room type, in registry order. */
+export function rulesForRoomType(roomType: RoomType): Rule[] {
+  return RULES.filter(rule => !rule.roomTypes || rule.roomTypes.includes(roomType));
+}
+
+/** Build the shared context once, then run the design's room-type pack.
+ *  Deterministic order. A pack's tier for a rule replaces the tier its
+ *  findings were raised at. */
+export function evaluateRules(
+  design: CompiledDesign,
+  room: RoomSpec,
+  brief?: DesignBrief,
+  pack: LayoutRulePack = DEFAULT_LAYOUT_RULE_PACK,
+): RuleFinding[] {
   const floorItems = design.items.filter(i => i.y === 0);
   const islandItems = floorItems.filter(i => i.layoutRole === 'island');
-  const ctx: RuleContext = { design, room, brief, floorItems, islandItems };
-  return RULES.flatMap(rule => rule.evaluate(ctx));
+  const peninsulaItems = floorItems.filter(i => i.layoutRole === 'peninsula');
+  const ctx: RuleContext = { design, room, brief, floorItems, islandItems, peninsulaItems, pack };
+  return rulesForRoomType(roomTypeOf(design.sourceSpec)).flatMap(rule => {
+    const findings = rule.evaluate(ctx);
+    const tier = pack.tiers[rule.id];
+    return tier ? findings.map(f => ({ ...f, tier })) : findings;
+  });
 }
 
 /** Sweep/coverage view — every rule's id, tier and scope. The placement sweep
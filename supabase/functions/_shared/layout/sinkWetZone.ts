@@ -0,0 +1,151 @@
+// GENERATED by scripts/sync-ai-shared.mjs — edit src/lib/layout instead.
+/**
+ * sinkWetZone — the space around a sink's bowls that splashing water and a
+ * leaking trap reach, and the power points in the room that sit inside it.
+ *
+ * The envelope runs along the sink's wall from the outer edge of one bowl to
+ * the other, widened by SINK_WET_ZONE_REACH_MM each side, across the cabinet's
+ * depth, and from the floor to SINK_WET_ZONE_HEIGHT_MM above the benchtop. A
+ * power point below the bench is an appliance connection (dishwasher, waste
+ * disposer); above it, a GPO on the splashback.
+ *
+ * Bowl sizes (one "L x W x D" string per bowl) come from a catalogue
+ * snapshot on the sink cabinet, else from the brief's `sinkBowlSizes` — the
+ * chosen sink, so the layout rule and the room editor draw the same zone.
+ * Without them the bowls could sit anywhere in the cabinet, so its full width
+ * is used.
+ *
+ * Both distances are planning allowances for the design stage, reported as
+ * an advisory. The wet-area zones in the approved regulatory profile's
+ * wiring-rules clause govern (KRN-ELEC-001), and the electrician confirms
+ * them on site.
+ */
+
+import type { PlacedItem, ServicePoint } from './core.ts';
+import type { CompiledDesign } from './compileSpec.ts';
+import { itemRect, servicePointWorld, type PlanRect } from './geometry.ts';
+import { roomWallLength } from './polygon.ts';
+import { dimensionsForRoomType } from './roomTypes.ts';
+import type { RoomSpec, Wall } from './types.ts';
+
+/** Horizontal reach of the zone past the outer bowl edges, mm. */
+export const SINK_WET_ZONE_REACH_MM = 300;
+/** Height of the zone above the benchtop, mm. */
+export const SINK_WET_ZONE_HEIGHT_MM = 600;
+
+export type SinkWetZoneServiceKind = 'gpo' | 'appliance-connection';
+
+export interface SinkWetZoneConflict {
+  serviceId: string;
+  kind: SinkWetZoneServiceKind;
+  /** Nearest position just clear of the zone, in the service's own terms:
+   *  `offsetMm` for a wall point, `xMm`/`zMm` for a floor point. Absent when
+   *  no position on the same wall clears it. */
+  relocation?: Pick<ServicePoint, 'offsetMm'> | Required<Pick<ServicePoint, 'xMm' | 'zMm'>>;
+  /** How far the relocation moves the point, mm. */
+  shiftMm?: number;
+}
+
+export interface SinkWetZone {
+  sinkItemId: string;
+  wall: Wall | 'island';
+  /** Wall offsets the zone spans; absent for an island sink. */
+  alongWall?: { startMm: number; endMm: number };
+  plan: PlanRect;
+  benchtopMm: number;
+  /** floor to the top of the zone, mm */
+  topMm: number;
+  /** whether the bowl span came from the sink's bowl sizes or the whole cabinet */
+  bowlBasis: 'bowl-sizes' | 'cabinet';
+  conflicts: SinkWetZoneConflict[];
+}
+
+/** Length of one "L x W x D" bowl, mm. Suppliers leave trailing fields blank ("405 x 355 x"). */
+function bowlLengthMm(size: string): number | null {
+  const length = Number(/^\s*(\d+(?:\.\d+)?)\s*[x×]/i.exec(size)?.[1]);
+  return Number.isFinite(length) && length > 0 ? length : null;
+}
+
+/** Bowl sizes on the sink cabinet itself or on the sink overlay it hosts. */
+function sinkBowlSizes(items: PlacedItem[], sink: PlacedItem): string[] | undefined {
+  const hosted = items.find(item => item.applianceHostInstanceId === sink.instanceId && item.applianceSnapshot?.bowlSizes?.length);
+  return sink.applianceSnapshot?.bowlSizes ?? hosted?.applianceSnapshot?.bowlSizes ?? undefined;
+}
+
+const floorTo10 = (mm: number) => Math.floor(mm / 10) * 10;
+const ceilTo10 = (mm: number) => Math.ceil(mm / 10) * 10;
+
+/** The nearer of the two zone edges that stays within [0, limit]. */
+function nearestClear(value: number, start: number, end: number, limit: number): number | undefined {
+  return [floorTo10(start), ceilTo10(end)]
+    .filter(candidate => candidate >= 0 && candidate <= limit)
+    .sort((a, b) => Math.abs(a - value) - Math.abs(b - value))[0];
+}
+
+/**
+ * The sink's wet zone and every power point inside it, nearest relocation
+ * first. `bowlSizes` is the brief's `appliances.sinkBowlSizes`, used when
+ * the design's own sink carries none. Null when the design has no sink.
+ */
+export function sinkWetZone(
+  design: CompiledDesign,
+  room: RoomSpec,
+  bowlSizes?: string[],
+): SinkWetZone | null {
+  const position = design.rolePositions.sink;
+  if (!position) return null;
+  const sink = position.item;
+  const dims = dimensionsForRoomType(design.sourceSpec.roomType);
+  const benchtopMm = sink.y + sink.height + dims.benchtopThickness;
+  const topMm = benchtopMm + SINK_WET_ZONE_HEIGHT_MM;
+
+  const bowlLengths = (sinkBowlSizes(design.items, sink) ?? bowlSizes ?? []).map(bowlLengthMm).filter((mm): mm is number => mm !== null);
+  const bowlBasis = bowlLengths.length ? 'bowl-sizes' : 'cabinet';
+  const bowlSpan = Math.min(sink.width, bowlLengths.length ? bowlLengths.reduce((sum, mm) => sum + mm, 0) : sink.width);
+  const half = bowlSpan / 2 + SINK_WET_ZONE_REACH_MM;
+
+  const rect = itemRect(sink);
+  const rotation = ((sink.rotation % 360) + 360) % 360;
+  const alongX = rotation === 0 || rotation === 180;
+  const plan: PlanRect = alongX
+    ? { minX: sink.x - half, maxX: sink.x + half, minZ: rect.minZ - SINK_WET_ZONE_REACH_MM, maxZ: rect.maxZ + SINK_WET_ZONE_REACH_MM }
+    : { minX: rect.minX - SINK_WET_ZONE_REACH_MM, maxX: rect.maxX + SINK_WET_ZONE_REACH_MM, minZ: sink.z - half, maxZ: sink.z + half };
+
+  const centreT = position.startMm + position.widthMm / 2;
+  const alongWall = position.wall === 'island' ? undefined : { startMm: centreT - half, endMm: centreT + half };
+
+  const conflicts: SinkWetZoneConflict[] = [];
+  for (const service of room.services) {
+    if (service.type !== 'gpo') continue;
+    if (service.placement === 'floor') {
+      const point = servicePointWorld(service, room);
+      if (point.x <= plan.minX || point.x >= plan.maxX || point.z <= plan.minZ || point.z >= plan.maxZ) continue;
+      // Slide along the run: across it the point would land in the cabinets.
+      const moved = alongX
+        ? nearestClear(point.x, plan.minX, plan.maxX, room.width)
+        : nearestClear(point.z, plan.minZ, plan.maxZ, room.depth);
+      conflicts.push({
+        serviceId: service.id,
+        kind: 'appliance-connection',
+        ...(moved === undefined ? {} : {
+          relocation: alongX ? { xMm: moved, zMm: Math.round(point.z) } : { xMm: Math.round(point.x), zMm: moved },
+          shiftMm: Math.round(Math.abs(moved - (alongX ? point.x : point.z))),
+        }),
+      });
+      continue;
+    }
+    if (!alongWall || service.wall !== position.wall) continue;
+    if (service.offsetMm <= alongWall.startMm || service.offsetMm >= alongWall.endMm) continue;
+    // A legacy point with no recorded height is assumed to be in the band.
+    if (service.heightMm !== undefined && service.heightMm > topMm) continue;
+    const moved = nearestClear(service.offsetMm, alongWall.startMm, alongWall.endMm, roomWallLength(room, service.wall));
+    conflicts.push({
+      serviceId: service.id,
+      kind: service.heightMm !== undefined && service.heightMm < benchtopMm ? 'appliance-connection' : 'gpo',
+      ...(moved === undefined ? {} : { relocation: { offsetMm: moved }, shiftMm: Math.round(Math.abs(moved - service.offsetMm)) }),
+    });
+  }
+  conflicts.sort((a, b) => (a.shiftMm ?? Infinity) - (b.shiftMm ?? Infinity) || a.serviceId.localeCompare(b.serviceId));
+
+  return { sinkItemId: sink.instanceId, wall: position.wall, alongWall, plan, benchtopMm, topMm, bowlBasis, conflicts };
+}
@@ -8,14 +8,16 @@
  *   - a 'hard' rule finding  → Violation severity 'error' (blocks the candidate)
  *   - 'safety' / 'soft'      → 'warn' (informs; never blocks)
  * The Violation.code is the rule id, so existing code-based handling still works.
+ * `pack` is the active LayoutRulePack; omitted, the built-in defaults apply.
  */
 
 import { evaluateRules } from './rules.ts';
 import type { CompiledDesign } from './compileSpec.ts';
+import type { LayoutRulePack } from './rulePack.ts';
 import type { DesignBrief, RoomSpec, Violation } from './types.ts';
 
-export function validate(design: CompiledDesign, room: RoomSpec, brief?: DesignBrief): Violation[] {
-  return evaluateRules(design, room, brief).map(f => ({
+export function validate(design: CompiledDesign, room: RoomSpec, brief?: DesignBrief, pack?: LayoutRulePack): Violation[] {
+  return evaluateRules(design, room, brief, pack).map(f => ({
     code: f.ruleId,
     severity: f.tier === 'hard' ? 'error' : 'warn',
     message: f.message,
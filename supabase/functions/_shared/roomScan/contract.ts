@@ -25,7 +25,11 @@
  *    the N wall); z increases south.
  * 6. Timestamps: ISO 8601 UTC. IDs: adapter-generated UUIDs, stable within
  *    a capture.
- * 7. Scanner V1 emits normalized RECTANGLES only (cutouts must be zero).
+ * 7. Rooms are Rectangle, LShape or Polygon. A Polygon room lists its
+ *    corners in plan axes (5), clockwise in the canonical view, with its
+ *    bounding box starting at the origin and equal to width × depth. Its
+ *    walls are named P0…Pn−1 instead of N/E/S/W: Pi runs from corner i to
+ *    corner i+1 (the last back to corner 0), and rule 3 applies along it.
  * 8. The coordinate-frame matrix is the audit/reprocessing authority. It
  *    must be invertible with a POSITIVE determinant (mirrors are a
  *    normalization error).
@@ -81,7 +85,13 @@ const isoDatetime = z.string().datetime({ offset: true }).or(z.string().datetime
 
 // ─── Wall / feature primitives ─────────────────────────────────────────────
 
-export const wallIdV1Schema = z.enum(['N', 'E', 'S', 'W']);
+/** Polygon room wall: P0, P1, … (convention 7). */
+export const polygonWallIdV1Schema = z.custom<`P${number}`>(
+  (v) => typeof v === 'string' && /^P\d{1,3}$/.test(v),
+  'must be a polygon wall id like "P0"',
+);
+
+export const wallIdV1Schema = z.union([z.enum(['N', 'E', 'S', 'W']), polygonWallIdV1Schema]);
 export type WallIdV1 = z.infer<typeof wallIdV1Schema>;
 
 export const openingV1Schema = z
@@ -117,17 +127,81 @@ export type ServicePointV1 = z.infer<typeof servicePointV1Schema>;
 
 // ─── Room geometry ─────────────────────────────────────────────────────────
 
-const wallLengthMm = (wall: WallIdV1, width: number, depth: number): number =>
-  wall === 'N' || wall === 'S' ? width : depth;
+export const polygonCornerV1Schema = z
+  .object({
+    id: polygonWallIdV1Schema,
+    x: mmInt(0).max(LIMITS.maxRoomMm),
+    z: mmInt(0).max(LIMITS.maxRoomMm),
+  })
+  .strict();
+export type PolygonCornerV1 = z.infer<typeof polygonCornerV1Schema>;
+
+type PlanPoint = Pick<PolygonCornerV1, 'x' | 'z'>;
+
+/** Wall length for offsets; undefined when the room has no such wall. */
+const wallLengthMm = (
+  wall: WallIdV1,
+  room: Pick<RoomSpecV1, 'width' | 'depth' | 'polygon'>,
+): number | undefined => {
+  if (room.polygon) {
+    const i = room.polygon.findIndex((c) => c.id === wall);
+    if (i < 0) return undefined;
+    const a = room.polygon[i];
+    const b = room.polygon[(i + 1) % room.polygon.length];
+    return Math.hypot(b.x - a.x, b.z - a.z);
+  }
+  if (wall.startsWith('P')) return undefined;
+  return wall === 'N' || wall === 'S' ? room.width : room.depth;
+};
+
+/** Proper crossing of segments pq and rs (shared endpoints do not count). */
+const segmentsCross = (p: PlanPoint, q: PlanPoint, r: PlanPoint, s: PlanPoint): boolean => {
+  const o = (a: PlanPoint, b: PlanPoint, c: PlanPoint) =>
+    Math.sign((b.x - a.x) * (c.z - a.z) - (b.z - a.z) * (c.x - a.x));
+  const o1 = o(p, q, r), o2 = o(p, q, s), o3 = o(r, s, p), o4 = o(r, s, q);
+  return o1 !== 0 && o2 !== 0 && o3 !== 0 && o4 !== 0 && o1 !== o2 && o3 !== o4;
+};
+
+/** Problems with a Polygon room outline against convention 7. */
+const polygonIssues = (polygon: PolygonCornerV1[], width: number, depth: number): string[] => {
+  const issues: string[] = [];
+  const n = polygon.length;
+  if (new Set(polygon.map((c) => c.id)).size !== n) issues.push('polygon wall ids must be unique');
+  const xs = polygon.map((c) => c.x), zs = polygon.map((c) => c.z);
+  if (Math.min(...xs) !== 0 || Math.min(...zs) !== 0) {
+    issues.push('polygon bounding box must start at the origin');
+  }
+  if (Math.max(...xs) !== width || Math.max(...zs) !== depth) {
+    issues.push(`polygon bounding box must equal width ${width} × depth ${depth}`);
+  }
+  let area2 = 0;
+  for (let i = 0; i < n; i++) {
+    const a = polygon[i], b = polygon[(i + 1) % n];
+    if (a.x === b.x && a.z === b.z) issues.push(`polygon wall ${a.id} has zero length`);
+    area2 += a.x * b.z - b.x * a.z;
+  }
+  if (!(area2 > 0)) issues.push('polygon corners must run clockwise in the canonical view');
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 2; j < n; j++) {
+      if (i === 0 && j === n - 1) continue;
+      if (segmentsCross(polygon[i], polygon[(i + 1) % n], polygon[j], polygon[(j + 1) % n])) {
+        issues.push(`polygon walls ${polygon[i].id} and ${polygon[j].id} cross`);
+      }
+    }
+  }
+  return issues;
+};
 
 export const roomSpecV1Schema = z
   .object({
     width: positiveMm(),
     depth: positiveMm(),
     height: positiveMm(),
-    shape: z.enum(['Rectangle', 'LShape']),
+    shape: z.enum(['Rectangle', 'LShape', 'Polygon']),
     cutoutWidth: mmInt(0).max(LIMITS.maxRoomMm),
     cutoutDepth: mmInt(0).max(LIMITS.maxRoomMm),
+    /** Polygon rooms only (convention 7). */
+    polygon: z.array(polygonCornerV1Schema).min(3).max(LIMITS.maxCorners).optional(),
     openings: z.array(openingV1Schema).max(32),
     services: z.array(servicePointV1Schema).max(32),
   })
@@ -147,13 +221,29 @@ export const roomSpecV1Schema = z
     if (room.shape === 'LShape' && (room.cutoutWidth >= room.width || room.cutoutDepth >= room.depth)) {
       ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'cutout must be smaller than the room' });
     }
+    if (room.shape === 'Polygon') {
+      if (!room.polygon) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Polygon rooms must list their corners' });
+      } else {
+        for (const message of polygonIssues(room.polygon, room.width, room.depth)) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+        }
+      }
+      if (room.cutoutWidth !== 0 || room.cutoutDepth !== 0) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Polygon rooms must have zero cutouts' });
+      }
+    } else if (room.polygon) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'only Polygon rooms may list corners' });
+    }
 
     for (const o of room.openings) {
-      const wall = wallLengthMm(o.wall, room.width, room.depth);
-      if (o.offsetMm + o.widthMm > wall) {
+      const wall = wallLengthMm(o.wall, room);
+      if (wall === undefined) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `opening "${o.id}" is on wall ${o.wall}, which this room does not have` });
+      } else if (o.offsetMm + o.widthMm > wall) {
         ctx.addIssue({
           code: z.ZodIssueCode.custom,
-          message: `opening "${o.id}" (offset ${o.offsetMm} + width ${o.widthMm}) exceeds wall ${o.wall} length ${wall}`,
+          message: `opening "${o.id}" (offset ${o.offsetMm} + width ${o.widthMm}) exceeds wall ${o.wall} length ${Math.round(wall)}`,
         });
       }
       const effHeight =
@@ -168,11 +258,13 @@ export const roomSpecV1Schema = z
     }
 
     for (const s of room.services) {
-      const wall = wallLengthMm(s.wall, room.width, room.depth);
-      if (s.offsetMm > wall) {
+      const wall = wallLengthMm(s.wall, room);
+      if (wall === undefined) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `service "${s.id}" is on wall ${s.wall}, which this room does not have` });
+      } else if (s.offsetMm > wall) {
         ctx.addIssue({
           code: z.ZodIssueCode.custom,
-          message: `service "${s.id}" offset ${s.offsetMm} exceeds wall ${s.wall} length ${wall}`,
+          message: `service "${s.id}" offset ${s.offsetMm} exceeds wall ${s.wall} length ${Math.round(wall)}`,
         });
       }
       if (s.heightMm !== undefined && s.heightMm > room.height) {
@@ -200,10 +292,10 @@ export const roomSpecV1Schema = z
   });
 export type RoomSpecV1 = z.infer<typeof roomSpecV1Schema>;
 
-/** Scanner V1 supports rectangular and L-shaped rooms. */
+/** Scanner V1 supports rectangular, L-shaped and polygon rooms. */
 export const scannerRectangleRoomV1Schema = roomSpecV1Schema.refine(
-  (room) => room.shape === 'Rectangle' || room.shape === 'LShape',
-  { message: 'scanner V1 rooms must be Rectangle or LShape' },
+  (room) => room.shape === 'Rectangle' || room.shape === 'LShape' || room.shape === 'Polygon',
+  { message: 'scanner V1 rooms must be Rectangle, LShape or Polygon' },
 );
 
 // ─── Coordinate frame ──────────────────────────────────────────────────────
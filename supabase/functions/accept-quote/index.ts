@@ -0,0 +1,358 @@
+/**
+ * accept-quote — public homeowner quote acceptance for /quote/:jobId. The
+ * job id in the link is the capability, as it already is for the status page.
+ *
+ *   POST { action: 'review', jobId }
+ *     → { job, revision, acceptance, depositPct, acceptable }
+ *       (acceptance is the signer name, time and a link to the signed PDF only)
+ *   POST { action: 'accept', jobId, revisionId, termsVersion, signerName,
+ *          signature: { kind: 'drawn', dataUrl } | { kind: 'typed', text },
+ *          payment?: { provider, reference, amount } }
+ *     → { acceptance }
+ *   POST { action: 'attach', jobId, acceptanceId, pdfBase64 } → { pdfPath }
+ *
+ * Only a job awaiting approval can be accepted, and only against its latest
+ * revision. The acceptance time and the signer's IP and user agent are taken
+ * here, never from the body: unlike the scanner functions this one DOES keep
+ * the raw IP, because it is part of the e-signature evidence (admin-only
+ * table). A deposit payment is verified against its provider before anything
+ * is written. The browser renders the signed PDF from the returned row and
+ * attaches it with a second call. The row carries an evidence hash over the
+ * accepted revision and the signature; attach recomputes it from the stored
+ * rows and refuses a PDF that does not print it.
+ */
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import {
+  errorResponse,
+  gate,
+  ipKey,
+  isUuid,
+  jsonResponse,
+  logOutcome,
+  newRequestId,
+  rateLimited,
+  readJsonBody,
+} from '../_shared/roomScan/security.ts';
+
+// Keep in step with src/lib/homeowner/quoteAcceptance.ts.
+const DEPOSIT_PCT = 0.3;
+const MAX_SIGNATURE_DATA_URL_LENGTH = 200_000;
+const TERMS_VERSION_RE = /^\d{4}-\d{2}$/;
+const BUCKET = 'job-documents';
+
+/** Design fields the customer's line summary reads; the rest stays server-side. */
+const SUMMARY_FIELDS = ['tradeRooms', 'quoteSnapshotsByRoom', 'items', 'applianceItems', 'appliancesTotal', 'jobTotals'];
+
+const roundMoney = (n: number) => Math.round((n + Number.EPSILON) * 100) / 100;
+
+type Signature = { kind: 'drawn'; dataUrl: string } | { kind: 'typed'; text: string };
+type Payment = { provider: string; reference: string; amount: number };
+
+function validSignature(value: unknown): Signature | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const s = value as Record<string, unknown>;
+  if (s.kind === 'typed' && typeof s.text === 'string') {
+    const text = s.text.trim();
+    return text.length >= 2 && text.length <= 120 ? { kind: 'typed', text } : null;
+  }
+  if (
+    s.kind === 'drawn'
+    && typeof s.dataUrl === 'string'
+    && s.dataUrl.startsWith('data:image/png;base64,')
+    && s.dataUrl.length <= MAX_SIGNATURE_DATA_URL_LENGTH
+  ) {
+    return { kind: 'drawn', dataUrl: s.dataUrl };
+  }
+  return null;
+}
+
+function validPayment(value: unknown): Payment | null | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'object') return null;
+  const p = value as Record<string, unknown>;
+  if (typeof p.provider !== 'string' || typeof p.reference !== 'string' || typeof p.amount !== 'number') return null;
+  if (!p.reference || p.reference.length > 200 || !Number.isFinite(p.amount)) return null;
+  return { provider: p.provider, reference: p.reference, amount: p.amount };
+}
+
+/**
+ * Server-side check that a deposit was really taken. Each browser provider in
+ * src/lib/payments needs a verifier here; unknown providers are refused.
+ */
+async function verifyPayment(payment: Payment, expectedAmount: number): Promise<boolean> {
+  if (roundMoney(payment.amount) !== expectedAmount) return false;
+  switch (payment.provider) {
+    case 'fake':
+      return Deno.env.get('ALLOW_FAKE_PAYMENTS') === 'true' && payment.reference.startsWith('fake_');
+    default:
+      return false;
+  }
+}
+
+async function sha256Hex(data: string | Uint8Array): Promise<string> {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+type EvidenceRevision = { id: string; design_data: unknown; pricing_hash: string | null };
+type EvidenceAcceptance = {
+  terms_version: string;
+  signer_name: string;
+  signature_kind: string;
+  signature_data: string;
+  total: number;
+  deposit_amount: number;
+};
+
+/**
+ * Binds a signature to exactly what it accepted: the revision's frozen design
+ * and pricing hash, the total and deposit, the terms and the signature.
+ */
+function evidenceHash(revision: EvidenceRevision, acceptance: EvidenceAcceptance): Promise<string> {
+  return sha256Hex(JSON.stringify([
+    revision.id,
+    revision.design_data ?? null,
+    revision.pricing_hash ?? null,
+    roundMoney(Number(acceptance.total)),
+    roundMoney(Number(acceptance.deposit_amount)),
+    acceptance.terms_version,
+    acceptance.signer_name,
+    acceptance.signature_kind,
+    acceptance.signature_data,
+  ]));
+}
+
+function clientIp(req: Request): string | null {
+  const forwarded = req.headers.get('x-forwarded-for')?.split(',')[0]?.trim();
+  return forwarded || req.headers.get('x-real-ip') || null;
+}
+
+serve(async (req) => {
+  const started = Date.now();
+  const rid = newRequestId();
+  const gated = gate(req);
+  if (gated) return gated;
+
+  const body = await readJsonBody(req);
+  if (body instanceof Response) return body;
+  const input = (body ?? {}) as Record<string, unknown>;
+  const { action, jobId } = input;
+
+  if (rateLimited(`accept-quote:${action}:${await ipKey(req)}`, action === 'review' ? 120 : 20)) {
+    logOutcome('accept-quote', rid, 'throttled', started);
+    return errorResponse(req, 429, 'rate_limited');
+  }
+  if (!isUuid(jobId)) return errorResponse(req, 400, 'invalid_request');
+
+  const service = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+  const { data: job } = await service
+    .from('jobs')
+    .select('id, job_number, name, status, cost_incl_tax')
+    .eq('id', jobId)
+    .maybeSingle();
+  if (!job) {
+    logOutcome('accept-quote', rid, 'not_found', started);
+    return errorResponse(req, 404, 'not_found');
+  }
+
+  const { data: revisions } = await service
+    .from('job_revisions')
+    .select('id, revision_number, created_at, total, design_data, quote_snapshot, pricing_hash')
+    .eq('job_id', jobId)
+    .order('revision_number', { ascending: false })
+    .limit(1);
+  const revision = revisions?.[0] ?? null;
+  const quoteTotal = roundMoney(Number(revision?.total ?? job.cost_incl_tax ?? 0));
+
+  if (action === 'review') {
+    // The link is the only credential here, so the signature, IP and payment
+    // details stay with the office.
+    const { data: acceptances } = await service
+      .from('quote_acceptances')
+      .select('id, revision_id, revision_number, signer_name, accepted_at, pdf_path')
+      .eq('job_id', jobId)
+      .order('accepted_at', { ascending: false })
+      .limit(1);
+    const latest = acceptances?.[0] ?? null;
+    const { data: signedPdf } = latest?.pdf_path
+      ? await service.storage.from(BUCKET).createSignedUrl(latest.pdf_path, 300)
+      : { data: null };
+    const acceptance = latest && { ...latest, pdfUrl: signedPdf?.signedUrl ?? null };
+    const designData = (revision?.design_data ?? {}) as Record<string, unknown>;
+    logOutcome('accept-quote', rid, 'review', started);
+    return jsonResponse(req, 200, {
+      job: { id: job.id, job_number: job.job_number, name: job.name, status: job.status },
+      revision: revision && {
+        id: revision.id,
+        revision_number: revision.revision_number,
+        created_at: revision.created_at,
+        total: quoteTotal,
+        design_data: Object.fromEntries(SUMMARY_FIELDS.filter(k => k in designData).map(k => [k, designData[k]])),
+      },
+      acceptance,
+      depositPct: DEPOSIT_PCT,
+      acceptable: job.status === 'pending_approval' && !!revision && quoteTotal > 0
+        && acceptance?.revision_id !== revision.id,
+    });
+  }
+
+  if (action === 'accept') {
+    const { revisionId, termsVersion, signerName } = input;
+    const signature = validSignature(input.signature);
+    const payment = validPayment(input.payment);
+    const name = typeof signerName === 'string' ? signerName.trim() : '';
+    if (
+      !isUuid(revisionId)
+      || typeof termsVersion !== 'string' || !TERMS_VERSION_RE.test(termsVersion)
+      || name.length < 2 || name.length > 120
+      || !signature || payment === null
+    ) {
+      logOutcome('accept-quote', rid, 'invalid_acceptance', started);
+      return errorResponse(req, 400, 'invalid_acceptance');
+    }
+    if (job.status !== 'pending_approval' || !revision || quoteTotal <= 0) {
+      logOutcome('accept-quote', rid, 'not_acceptable', started);
+      return errorResponse(req, 409, 'not_acceptable');
+    }
+    if (revision.id !== revisionId) {
+      logOutcome('accept-quote', rid, 'quote_changed', started);
+      return errorResponse(req, 409, 'quote_changed');
+    }
+
+    const deposit = roundMoney(quoteTotal * DEPOSIT_PCT);
+    if (payment && !(await verifyPayment(payment, deposit))) {
+      logOutcome('accept-quote', rid, 'payment_not_verified', started);
+      return errorResponse(req, 402, 'payment_not_verified');
+    }
+
+    const signed = {
+      terms_version: termsVersion,
+      signer_name: name,
+      signature_kind: signature.kind,
+      signature_data: signature.kind === 'drawn' ? signature.dataUrl : signature.text,
+      total: quoteTotal,
+      deposit_amount: deposit,
+    };
+
+    const { data: acceptance, error: insertError } = await service
+      .from('quote_acceptances')
+      .insert({
+        job_id: jobId,
+        revision_id: revision.id,
+        revision_number: revision.revision_number,
+        ...signed,
+        evidence_hash: await evidenceHash(revision, signed),
+        payment_provider: payment?.provider ?? null,
+        payment_reference: payment?.reference ?? null,
+        signer_ip: clientIp(req),
+        user_agent: req.headers.get('user-agent')?.slice(0, 300) ?? null,
+      })
+      .select('*')
+      .single();
+    if (insertError || !acceptance) {
+      const duplicate = insertError?.code === '23505';
+      logOutcome('accept-quote', rid, duplicate ? 'already_accepted' : 'insert_failed', started);
+      return errorResponse(req, duplicate ? 409 : 500, duplicate ? 'already_accepted' : 'accept_failed');
+    }
+
+    // Only move a job that is still waiting; a concurrent admin change wins.
+    const { data: moved } = await service
+      .from('jobs')
+      .update({ status: 'approved' })
+      .eq('id', jobId)
+      .eq('status', 'pending_approval')
+      .select('id');
+    if (!moved?.length) {
+      await service.from('quote_acceptances').delete().eq('id', acceptance.id);
+      logOutcome('accept-quote', rid, 'not_acceptable', started);
+      return errorResponse(req, 409, 'not_acceptable');
+    }
+
+    const { error: revisionError } = await service.from('job_revisions').insert({
+      job_id: jobId,
+      revision_number: revision.revision_number + 1,
+      status: 'approved',
+      reason: `Quote revision ${revision.revision_number} accepted by ${name}`,
+      design_data: revision.design_data,
+      quote_snapshot: revision.quote_snapshot,
+      pricing_hash: revision.pricing_hash,
+      total: revision.total,
+      created_by_name: name,
+    });
+    if (revisionError) console.error('[accept-quote] revision failed', revisionError.message);
+
+    const depositText = payment
+      ? `deposit of $${deposit.toFixed(2)} paid (${payment.provider} ${payment.reference})`
+      : `deposit of $${deposit.toFixed(2)} to be invoiced`;
+    await service.from('job_notes').insert({
+      job_id: jobId,
+      author_role: 'system',
+      author_name: 'System',
+      content: `Quote revision ${revision.revision_number} accepted and signed by ${name}; ${depositText}.`,
+      is_internal: false,
+    });
+
+    logOutcome('accept-quote', rid, 'accepted', started);
+    return jsonResponse(req, 200, { acceptance });
+  }
+
+  if (action === 'attach') {
+    const { acceptanceId, pdfBase64 } = input;
+    if (!isUuid(acceptanceId) || typeof pdfBase64 !== 'string') return errorResponse(req, 400, 'invalid_request');
+    const { data: acceptance } = await service
+      .from('quote_acceptances')
+      .select('id, revision_id, revision_number, terms_version, signer_name, signature_kind, signature_data, total, deposit_amount, evidence_hash, pdf_path')
+      .eq('id', acceptanceId)
+      .eq('job_id', jobId)
+      .maybeSingle();
+    if (!acceptance) return errorResponse(req, 404, 'not_found');
+    if (acceptance.pdf_path) return jsonResponse(req, 200, { pdfPath: acceptance.pdf_path });
+
+    // The stored rows must still hash to what was signed, and the PDF must
+    // print that hash, so an upload cannot stand in for another revision.
+    const { data: accepted } = await service
+      .from('job_revisions')
+      .select('id, design_data, pricing_hash')
+      .eq('id', acceptance.revision_id)
+      .maybeSingle();
+    if (!accepted || !acceptance.evidence_hash || (await evidenceHash(accepted, acceptance)) !== acceptance.evidence_hash) {
+      logOutcome('accept-quote', rid, 'evidence_mismatch', started);
+      return errorResponse(req, 409, 'evidence_mismatch');
+    }
+
+    let bytes: Uint8Array;
+    try {
+      bytes = Uint8Array.from(atob(pdfBase64), c => c.charCodeAt(0));
+    } catch {
+      return errorResponse(req, 400, 'invalid_pdf');
+    }
+    if (
+      new TextDecoder().decode(bytes.slice(0, 5)) !== '%PDF-'
+      || !new TextDecoder('latin1').decode(bytes).includes(acceptance.evidence_hash)
+    ) {
+      logOutcome('accept-quote', rid, 'invalid_pdf', started);
+      return errorResponse(req, 400, 'invalid_pdf');
+    }
+
+    const path = `${jobId}/quote-acceptance-r${acceptance.revision_number}-${acceptance.id.slice(0, 8)}.pdf`;
+    const { error: uploadError } = await service.storage
+      .from(BUCKET)
+      .upload(path, bytes, { contentType: 'application/pdf', upsert: false });
+    if (uploadError) {
+      logOutcome('accept-quote', rid, 'upload_failed', started);
+      return errorResponse(req, 500, 'attach_failed');
+    }
+    await service
+      .from('quote_acceptances')
+      .update({ pdf_path: path, pdf_sha256: await sha256Hex(bytes) })
+      .eq('id', acceptance.id)
+      .is('pdf_path', null);
+    logOutcome('accept-quote', rid, 'attached', started);
+    return jsonResponse(req, 200, { pdfPath: path });
+  }
+
+  return errorResponse(req, 400, 'invalid_request');
+});
@@ -5,7 +5,7 @@
  * Body: {
  *   mode: 'generate' | 'refine' | 'style',
  *   brief: DesignBrief,                    // room + household + appliances…
- *   shape: 'single-wall'|'l-shape'|'u-shape'|'galley',
+ *   shape: 'single-wall'|'l-shape'|'u-shape'|'galley'|'peninsula',
  *   currentSpec?: KitchenSpec,             // refine/style modes
  *   message?: string,                      // user chat turn (refine/style)
  *   history?: { role: 'user'|'assistant', content: string }[],
@@ -16,6 +16,8 @@
  * The deterministic engine authors and validates all geometry. The model sees
  * compact summaries only and may rank, name and explain approved candidate
  * IDs. It never receives a tool capable of writing KitchenSpec geometry.
+ * Rules run with the newest approved layout rule pack (table
+ * layout_rule_packs), and each persisted proposal records that pack's version.
  *
  * Env: OPENAI_API_KEY (required), OPENAI_MODEL (default gpt-5.6-terra)
  *
@@ -28,9 +30,9 @@ import {
   applyBriefConstraints, compileSpec, defaultSpecFor, priceDesign, validate,
   generateCandidatePool, candidateSummaryFor,
   kitchenSpecSchema, roomSpecSchema, aiDesignerRequestSchema, finalizeSelectionSchema,
-  proposedRoomPatchSchema, RequestProposalRegistry, ROLE_PRODUCTS,
-  ENGINE_VERSION, CATALOG_VERSION, PRICING_VERSION,
-  type AiDesignerRequestInput, type KitchenSpecInput, type ProposedRoomPatchInput,
+  proposedRoomPatchSchema, RequestProposalRegistry, ROLE_PRODUCTS, ROOM_TYPE_ROLES,
+  ENGINE_VERSION, CATALOG_VERSION, PRICING_VERSION, activeLayoutRulePack,
+  type AiDesignerRequestInput, type LayoutRulePack, type KitchenSpecInput, type ProposedRoomPatchInput,
 } from '../_shared/layout/index.ts';
 import { fingerprintV1 } from '../_shared/roomScan/fingerprint.ts';
 import {
@@ -125,10 +127,13 @@ function layoutShapeError(spec: KitchenSpecInput, shape: string): string | null
   if (shape === 'galley' && (unique.length !== 2 || !opposite(unique[0], unique[1]))) {
     return 'Galley layouts must use exactly two opposite walls';
   }
+  if (shape === 'peninsula' && (unique.length !== 1 || !spec.peninsula)) {
+    return 'Peninsula layouts must use exactly one wall and a peninsula on that run';
+  }
   return null;
 }
 
-function compileAndScore(spec: unknown, room: unknown, brief: unknown, shape: string) {
+function compileAndScore(spec: unknown, room: unknown, brief: unknown, shape: string, rulePack: LayoutRulePack) {
   const parsed = kitchenSpecSchema.safeParse(spec);
   if (!parsed.success) {
     return { ok: false as const, error: `Invalid KitchenSpec: ${parsed.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ')}` };
@@ -141,7 +146,7 @@ function compileAndScore(spec: unknown, room: unknown, brief: unknown, shape: st
   // deno-lint-ignore no-explicit-any
   const design = compileSpec(constrained as any, room as any);
   // deno-lint-ignore no-explicit-any
-  const violations = validate(design, room as any, brief as any);
+  const violations = validate(design, room as any, brief as any, rulePack);
   const band = priceDesign(design.items, constrained.style);
   return {
     ok: true as const,
@@ -180,6 +185,19 @@ function isRecord(value: unknown): value is Record<string, unknown> {
   return typeof value === 'object' && value !== null && !Array.isArray(value);
 }
 
+/** The newest approved layout rule pack — the same row the browser evaluates with. */
+async function loadActiveRulePack(service: ServiceClient): Promise<LayoutRulePack> {
+  const { data, error } = await service
+    .from('layout_rule_packs')
+    .select('version,status,parameters')
+    .eq('status', 'approved')
+    .order('version', { ascending: false })
+    .limit(1);
+  if (error) throw new Error('rule_pack_unavailable');
+  // deno-lint-ignore no-explicit-any
+  return activeLayoutRulePack((data ?? []) as any);
+}
+
 async function preparePersistenceContext(
   service: ServiceClient,
   request: AiDesignerRequestInput,
@@ -277,6 +295,7 @@ async function persistValidatedOptions(
   context: PersistenceContext,
   request: AiDesignerRequestInput,
   options: PersistableOption[],
+  rulePackVersion: string,
 ): Promise<{ options: PersistableOption[]; designRevision: number }> {
   const persisted = await Promise.all(options.map(async option => {
     const id = crypto.randomUUID();
@@ -308,6 +327,7 @@ async function persistValidatedOptions(
       engineVersion: ENGINE_VERSION,
       catalogVersion: CATALOG_VERSION,
       pricingVersion: PRICING_VERSION,
+      rulePackVersion,
     });
     return {
       id,
@@ -325,6 +345,7 @@ async function persistValidatedOptions(
       catalogVersion: CATALOG_VERSION,
       pricingVersion: PRICING_VERSION,
       promptVersion: PROMPT_VERSION,
+      rulePackVersion,
       modelProvider: 'openai',
       modelId: MODEL,
       catalogSnapshot: catalogSummary(),
@@ -561,13 +582,19 @@ const TOOLS = [
   },
 ];
 
+const ROOM_GUIDANCE: Record<string, string> = {
+  laundry: 'Laundry tub near the drain with the washer-gap immediately beside it; a dryer-gap beside the washer when the run allows, otherwise the dryer stacks above the washer. Bench runs may carry wall cabinets.',
+  wardrobe: 'Full-height hanging-rail and wardrobe-shelves towers with wallCabinets:false and baseInfillRole:"wardrobe-shelves"; keep walk-in runs short of the shared corners.',
+  bathroom: 'One vanity-basin centred on the drain with drawers beside it where it fits; use startMm/endMm so the vanity takes only part of the wall, and wallCabinets:false.',
+};
+
 function systemPrompt(mode: string, brief: unknown, shape: string): string {
   const base = `You are an expert Australian kitchen designer working inside a constrained design harness.
 You express designs ONLY as KitchenSpec JSON:
 { runs: [{ wall: 'N'|'E'|'S'|'W', segments: [{kind:'cabinet', role, widthMm?}...], wallCabinets: boolean, fromEnd?: boolean, startMm?: number, endMm?: number }],
-  island?: { lengthMm, depthMm, features: [] }, style: { finishId, benchtopId, handleId }, rationale: string }
+  island?: { lengthMm, depthMm, features: [] }, peninsula?: { wall, at: 'start'|'end', lengthMm, features: [] }, style: { finishId, benchtopId, handleId }, rationale: string }
 Roles: sink, cooktop, dishwasher, drawers, doors, pantry, oven-tower, fridge-gap, corner.
-Rules: side runs that physically reach a shared room corner start with a 'corner' segment. Use fromEnd:true when the segment order starts from the wall's high-offset end.
+Rules: side runs that physically reach a shared room corner start with a 'corner' segment. A peninsula returns across the room from its wall's run at 'start' or 'end'; that run's first segment is a 'corner', with fromEnd:true when the peninsula is at 'end'. Use fromEnd:true when the segment order starts from the wall's high-offset end.
 Sink near existing plumbing (drain service point), dishwasher beside sink, cooktop with bench both sides, fridge-gap at a run end near a door.
 Use ONLY the finish/benchtop/handle ids from the catalog summary. ALWAYS test with propose_layout and fix every error-severity violation. A successful test returns a proposalId; finalize using only those IDs. Address warnings when reasonable; explain unavoidable ones in the rationale.
 The rationale is shown to the homeowner: plain English, warm, no jargon.
@@ -579,16 +606,20 @@ Kitchen shape: ${shape}`;
   const wallRule = Array.isArray((brief as { allowedWalls?: unknown }).allowedWalls)
     ? `\nCUSTOMER WALL SELECTION: use exactly these cabinet walls: ${JSON.stringify((brief as { allowedWalls: unknown }).allowedWalls)}. This is mandatory, not a preference. CUSTOMER PARTIAL-WALL LIMITS: ${JSON.stringify((brief as { wallRanges?: unknown }).wallRanges ?? {})}. Keep every cabinet run inside those startMm/endMm limits; the server will enforce them.`
     : '';
+  const roomType = (brief as { roomType?: keyof typeof ROOM_TYPE_ROLES }).roomType;
+  const roomRule = roomType && roomType !== 'kitchen' && ROOM_TYPE_ROLES[roomType]
+    ? `\nROOM TYPE: this room is a ${roomType}, not a kitchen. Set roomType:'${roomType}' on every spec and use ONLY these roles: ${ROOM_TYPE_ROLES[roomType].join(', ')}. The sink, cooktop, dishwasher and fridge rules above do not apply. ${ROOM_GUIDANCE[roomType]}`
+    : '';
 
   if (mode === 'generate') {
-    return base + wallRule + `
+    return base + wallRule + roomRule + `
 Task: produce 3 DISTINCT named options (vary layout strategy — e.g. work-triangle optimised, storage maximised, entertainer/social — not just colours). finalize with all 3.`;
   }
   if (mode === 'style') {
-    return base + wallRule + `
+    return base + wallRule + roomRule + `
 Task: the user describes a look. Change ONLY the style ids of the current spec (and rationale). finalize with 1 option.`;
   }
-  return base + wallRule + `
+  return base + wallRule + roomRule + `
 Task: chat-driven plan editing. Apply layout, functionality or style requests to the current spec. For room facts, call propose_room_patch; the current room remains unchanged until the user reviews and reconfirms it. If they only asked a question, validate the current spec with propose_layout and finalize its proposalId with {unchanged:true, changeSummary: answer}. Otherwise finalize 1 validated proposalId + changeSummary.`;
 }
 
@@ -660,6 +691,7 @@ serve(async (req) => {
     const request = requestParsed.data;
     const { mode, shape, currentSpec, message, history, brief } = request;
     const persistence = await preparePersistenceContext(service, request, syntheticTest);
+    const rulePack = await loadActiveRulePack(service);
 
     {
     // v5 boundary: geometry is fully deterministic. The provider receives
@@ -673,6 +705,7 @@ serve(async (req) => {
       preferredStrategy: shape,
       professionalGate: true,
       maxCandidates: 8,
+      rulePack,
     });
     const available = new Map<string, PersistableOption>();
     const summaries: unknown[] = [];
@@ -692,7 +725,7 @@ serve(async (req) => {
     }
 
     if (currentSpec && mode !== 'generate') {
-      const current = compileAndScore(currentSpec, brief.room, brief, shape);
+      const current = compileAndScore(currentSpec, brief.room, brief, shape, rulePack);
       const professionalCodes = new Set([
         'cooktop-landing', 'fridge-landing', 'triangle-size',
         'triangle-obstruction', 'prep-space',
@@ -762,7 +795,7 @@ serve(async (req) => {
     if (unchanged) {
       responseOptions = selectedOptions.map(option => ({ ...option, proposalId: request.currentProposalId! }));
     } else {
-      const saved = await persistValidatedOptions(service, persistence, request, selectedOptions);
+      const saved = await persistValidatedOptions(service, persistence, request, selectedOptions, rulePack.version);
       responseOptions = saved.options;
       designRevision = saved.designRevision;
     }
@@ -784,6 +817,7 @@ serve(async (req) => {
         modelId: ranking.providerUsed ? MODEL : 'none',
         promptVersion: PROMPT_VERSION,
         engineVersion: ENGINE_VERSION,
+        rulePackVersion: rulePack.version,
       },
       ...(syntheticTest ? { syntheticTest: { ...syntheticTest, isSyntheticTest: true } } : {}),
     });
@@ -876,7 +910,7 @@ serve(async (req) => {
         // model answered without a tool call — treat text as a Q&A answer in refine mode
         const text = assistant.content ?? '';
         if (mode === 'refine' && currentSpec) {
-          const current = compileAndScore(currentSpec, brief.room, brief, shape);
+          const current = compileAndScore(currentSpec, brief.room, brief, shape, rulePack);
           if (!current.ok) return json({ error: 'Current design is invalid', detail: current.error }, 409);
           const hardErrors = current.violations.filter(v => v.severity === 'error');
           if (hardErrors.length > 0) {
@@ -898,7 +932,7 @@ serve(async (req) => {
         try { input = JSON.parse(tc.function.arguments || '{}'); } catch { /* leave empty */ }
         let content: string;
         if (tc.function.name === 'propose_layout') {
-          const r = compileAndScore(input.spec, brief.room, brief, shape);
+          const r = compileAndScore(input.spec, brief.room, brief, shape, rulePack);
           if (!r.ok) {
             content = JSON.stringify({ error: r.error });
           } else {
@@ -971,7 +1005,7 @@ serve(async (req) => {
     // current design unchanged and let the user review/reconfirm the patch in
     // the canonical Room step before generating again.
     if (proposedRoomPatch && mode === 'refine' && currentSpec) {
-      const current = compileAndScore(currentSpec, brief.room, brief, shape);
+      const current = compileAndScore(currentSpec, brief.room, brief, shape, rulePack);
       if (!current.ok) return json({ error: 'Current design is invalid', detail: current.error }, 409);
       const hardErrors = current.violations.filter(v => v.severity === 'error');
       if (hardErrors.length > 0) {
@@ -990,7 +1024,7 @@ serve(async (req) => {
     // Compile server-side; never trust raw model output.
     const options: PersistableOption[] = [];
     for (const opt of finalized.options.slice(0, 3)) {
-      const r = compileAndScore(opt.spec, brief.room, brief, shape);
+      const r = compileAndScore(opt.spec, brief.room, brief, shape, rulePack);
       if (!r.ok) continue;
       if (r.violations.some(v => v.severity === 'error')) continue;
       options.push({
@@ -1010,7 +1044,7 @@ serve(async (req) => {
     if (finalized.unchanged && request.currentProposalId) {
       responseOptions = options.map(option => ({ ...option, proposalId: request.currentProposalId! }));
     } else {
-      const saved = await persistValidatedOptions(service, persistence, request, options);
+      const saved = await persistValidatedOptions(service, persistence, request, options, rulePack.version);
       responseOptions = saved.options;
       designRevision = saved.designRevision;
     }
@@ -1032,6 +1066,7 @@ serve(async (req) => {
         modelId: MODEL,
         promptVersion: PROMPT_VERSION,
         engineVersion: ENGINE_VERSION,
+        rulePackVersion: rulePack.version,
       },
       ...(syntheticTest ? { syntheticTest: { ...syntheticTest, isSyntheticTest: true } } : {}),
     });
@@ -1044,6 +1079,7 @@ serve(async (req) => {
       stale_brief_revision: 409,
       designer_persistence_unavailable: 503,
       designer_persistence_failed: 503,
+      rule_pack_unavailable: 503,
       invalid_synthetic_test: 403,
     };
     logOutcome('ai-designer', requestId, known[code] ? code : 'failed', started);
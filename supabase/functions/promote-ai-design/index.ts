@@ -14,8 +14,8 @@
  *   3. when the lead carries AI lineage (design_data.aiProposalId), loads the
  *      stored proposal row and verifies the submitted spec's fingerprint
  *      matches the server-persisted spec — the stored proposal wins;
- *   4. recompiles and validates the spec server-side; error-severity
- *      violations (concept blockers) stop promotion;
+ *   4. recompiles and validates the spec server-side with the active layout
+ *      rule pack; error-severity violations (concept blockers) stop promotion;
  *   5. converts via the shared proposalToTradeRoom adapter (§11.1) — the same
  *      code the client round-trip tests exercise;
  *   6. reprices with current pricing and records the diff against the price
@@ -33,7 +33,7 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'npm:@supabase/supabase-js@2';
 import {
-  compileSpec, priceDesign, validate, kitchenSpecSchema,
+  compileSpec, priceDesign, validate, kitchenSpecSchema, activeLayoutRulePack,
   ENGINE_VERSION, CATALOG_VERSION, PRICING_VERSION,
 } from '../_shared/layout/index.ts';
 import { proposalToTradeRoom } from '../_shared/trade/proposalToTradeRoom.ts';
@@ -203,10 +203,19 @@ serve(async (req) => {
     }
 
     // ── recompile + validate server-side (concept gate, §7.5) ──
+    const { data: packRows, error: packError } = await service
+      .from('layout_rule_packs')
+      .select('version,status,parameters')
+      .eq('status', 'approved')
+      .order('version', { ascending: false })
+      .limit(1);
+    if (packError) return errorResponse(req, 500, 'promote_failed');
+    // deno-lint-ignore no-explicit-any
+    const rulePack = activeLayoutRulePack((packRows ?? []) as any);
     // deno-lint-ignore no-explicit-any
     const compiled = compileSpec(spec as any, room as any);
     // deno-lint-ignore no-explicit-any
-    const violations = validate(compiled, room as any);
+    const violations = validate(compiled, room as any, undefined, rulePack);
     const conceptBlockers = violations.filter(v => v.severity === 'error');
     if (conceptBlockers.length > 0) {
       logOutcome('promote-ai-design', requestId, 'concept_blockers', started);
@@ -268,6 +277,7 @@ serve(async (req) => {
       engineVersion: ENGINE_VERSION,
       catalogVersion: proposalRow?.catalog_version ?? CATALOG_VERSION,
       pricingVersion: PRICING_VERSION,
+      rulePackVersion: rulePack.version,
       source: proposalRow ? 'ai-proposal' : 'wizard-design-data',
       proposalId: proposalRow?.id ?? null,
       proposalFingerprint: proposalRow?.proposal_fingerprint ?? null,
@@ -0,0 +1,36 @@
+-- Offcut inventory: usable board offcuts held in the shop.
+-- Sheet nesting fills these before buying new boards, so job costs and the
+-- ordering list only charge for sheets that actually need to be bought.
+-- length_mm runs along the board's grain, like material_pricing sheets.
+
+CREATE TABLE IF NOT EXISTS public.offcut_inventory (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  material_id UUID NOT NULL REFERENCES public.material_pricing(id) ON DELETE CASCADE,
+  length_mm NUMERIC NOT NULL CHECK (length_mm > 0),
+  width_mm NUMERIC NOT NULL CHECK (width_mm > 0),
+  location TEXT,
+  notes TEXT,
+  status TEXT NOT NULL DEFAULT 'available' CHECK (status IN ('available','reserved','used','scrapped')),
+  reserved_job_id UUID REFERENCES public.jobs(id) ON DELETE SET NULL,
+  source_job_id UUID REFERENCES public.jobs(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.offcut_inventory TO authenticated;
+GRANT ALL ON public.offcut_inventory TO service_role;
+
+ALTER TABLE public.offcut_inventory ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage offcut inventory"
+  ON public.offcut_inventory FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER offcut_inventory_updated_at
+  BEFORE UPDATE ON public.offcut_inventory
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+CREATE INDEX IF NOT EXISTS offcut_inventory_material_status_idx
+  ON public.offcut_inventory (material_id, status);
@@ -0,0 +1,10 @@
+-- Scan-to-verify packing and dispatch.
+-- Per-part scans and per-cabinet packed / dispatched times for jobs in
+-- production, written by the admin dispatch station. Shape (see
+-- src/lib/trade/dispatch.ts):
+--   { "parts": { "<part id>": "<iso time>" },
+--     "cabinets": { "C01": { "packedAt": "...", "dispatchedAt": "..." } },
+--     "updatedAt": "..." }
+
+ALTER TABLE public.jobs
+  ADD COLUMN IF NOT EXISTS dispatch_state JSONB;
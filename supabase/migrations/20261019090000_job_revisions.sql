@@ -0,0 +1,68 @@
+-- Immutable job revisions.
+-- jobs.design_data is overwritten on every save, so a revision copies it at
+-- each explicit save and status change (draft saved, submitted, approved,
+-- changes requested, restored) together with the quote snapshot and pricing
+-- hash it was priced with. Rows are never updated or deleted; restoring an
+-- older revision writes a new one. See src/lib/trade/jobRevisions.ts.
+
+CREATE TABLE IF NOT EXISTS public.job_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  revision_number INTEGER NOT NULL CHECK (revision_number > 0),
+  status TEXT NOT NULL,
+  reason TEXT,
+  design_data JSONB NOT NULL,
+  quote_snapshot JSONB,
+  pricing_hash TEXT,
+  total NUMERIC,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_by_name TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (job_id, revision_number)
+);
+
+GRANT SELECT, INSERT ON public.job_revisions TO authenticated;
+GRANT ALL ON public.job_revisions TO service_role;
+
+ALTER TABLE public.job_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Trade users can read revisions of their jobs"
+  ON public.job_revisions FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.jobs WHERE jobs.id = job_id AND jobs.customer_id = auth.uid()));
+
+CREATE POLICY "Trade users can add revisions to their jobs"
+  ON public.job_revisions FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    created_by = auth.uid() AND
+    EXISTS (SELECT 1 FROM public.jobs WHERE jobs.id = job_id AND jobs.customer_id = auth.uid())
+  );
+
+CREATE POLICY "Admins can read all revisions"
+  ON public.job_revisions FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can add revisions"
+  ON public.job_revisions FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- No UPDATE / DELETE policies. The trigger also stops the service role from
+-- rewriting a revision; rows only go when their job is deleted.
+CREATE OR REPLACE FUNCTION public.job_revisions_immutable()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Job revisions are immutable';
+END;
+$$;
+
+CREATE TRIGGER job_revisions_no_update
+  BEFORE UPDATE ON public.job_revisions
+  FOR EACH ROW EXECUTE FUNCTION public.job_revisions_immutable();
+
+CREATE INDEX IF NOT EXISTS job_revisions_job_idx
+  ON public.job_revisions (job_id, revision_number DESC);
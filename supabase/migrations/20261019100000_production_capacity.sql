@@ -0,0 +1,32 @@
+-- Workshop capacity for the production schedule (Admin → Production).
+-- One row: hours per working day for each stage the time model prices
+-- (cut, edge, assembly) and the ISO weekdays the shop works. The scheduler
+-- slots approved / in-production jobs into this capacity and writes projected
+-- dates back to jobs.completion_date. See src/lib/trade/productionSchedule.ts.
+
+CREATE TABLE IF NOT EXISTS public.production_capacity (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  cut_hours_per_day NUMERIC NOT NULL DEFAULT 8 CHECK (cut_hours_per_day >= 0),
+  edge_hours_per_day NUMERIC NOT NULL DEFAULT 8 CHECK (edge_hours_per_day >= 0),
+  assembly_hours_per_day NUMERIC NOT NULL DEFAULT 16 CHECK (assembly_hours_per_day >= 0),
+  work_days SMALLINT[] NOT NULL DEFAULT '{1,2,3,4,5}',
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+GRANT SELECT, INSERT, UPDATE ON public.production_capacity TO authenticated;
+GRANT ALL ON public.production_capacity TO service_role;
+
+ALTER TABLE public.production_capacity ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage production capacity"
+  ON public.production_capacity FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_production_capacity_updated_at
+  BEFORE UPDATE ON public.production_capacity
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+INSERT INTO public.production_capacity (id) VALUES (true)
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,50 @@
+-- Supplier purchase orders raised from a job's ordering list.
+-- Boards, edge tape and hardware are split by the catalogue row's
+-- source_supplier (material_pricing already has it; edge and hardware rows get
+-- it here, falling back to brand when blank). One draft PO per supplier per
+-- week collects every job raised that week; `lines` keeps each job's share of
+-- every item and the quantity received so far. See src/lib/purchaseOrders.ts.
+
+ALTER TABLE public.edge_pricing ADD COLUMN IF NOT EXISTS source_supplier TEXT;
+ALTER TABLE public.hardware_pricing ADD COLUMN IF NOT EXISTS source_supplier TEXT;
+
+CREATE TABLE IF NOT EXISTS public.purchase_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  po_number SERIAL UNIQUE,
+  supplier TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'sent', 'partial', 'received')),
+  week_start DATE NOT NULL,
+  job_ids UUID[] NOT NULL DEFAULT '{}',
+  lines JSONB NOT NULL DEFAULT '[]',
+  total NUMERIC NOT NULL DEFAULT 0,
+  sent_at TIMESTAMPTZ,
+  received_at TIMESTAMPTZ,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.purchase_orders TO authenticated;
+GRANT USAGE ON SEQUENCE public.purchase_orders_po_number_seq TO authenticated;
+GRANT ALL ON public.purchase_orders TO service_role;
+
+ALTER TABLE public.purchase_orders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage purchase orders"
+  ON public.purchase_orders FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_purchase_orders_updated_at
+  BEFORE UPDATE ON public.purchase_orders
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+-- Only one open draft per supplier per week, so jobs consolidate onto it.
+CREATE UNIQUE INDEX IF NOT EXISTS purchase_orders_weekly_draft_idx
+  ON public.purchase_orders (supplier, week_start)
+  WHERE status = 'draft';
+
+CREATE INDEX IF NOT EXISTS purchase_orders_job_ids_idx
+  ON public.purchase_orders USING GIN (job_ids);
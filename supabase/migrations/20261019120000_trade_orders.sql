@@ -0,0 +1,74 @@
+-- Trade Supply Store cart and orders.
+-- trade_carts holds one cart per trade account (SKUs and quantities; prices
+-- come from the live catalogue). trade_orders is the submitted order with the
+-- priced lines, GST and optional link to one of the account's jobs; admins
+-- work them in Admin → Supply Orders. See src/lib/trade/tradeOrders.ts.
+
+CREATE TABLE IF NOT EXISTS public.trade_carts (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  items JSONB NOT NULL DEFAULT '[]',
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.trade_carts TO authenticated;
+GRANT ALL ON public.trade_carts TO service_role;
+
+ALTER TABLE public.trade_carts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Trade users manage their own cart"
+  ON public.trade_carts FOR ALL
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE TRIGGER update_trade_carts_updated_at
+  BEFORE UPDATE ON public.trade_carts
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+CREATE TABLE IF NOT EXISTS public.trade_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_number SERIAL UNIQUE,
+  customer_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  job_id UUID REFERENCES public.jobs(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'submitted'
+    CHECK (status IN ('submitted', 'confirmed', 'fulfilled', 'cancelled')),
+  items JSONB NOT NULL,
+  subtotal NUMERIC NOT NULL,
+  tax NUMERIC NOT NULL,
+  total NUMERIC NOT NULL,
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+GRANT SELECT, INSERT, UPDATE ON public.trade_orders TO authenticated;
+GRANT USAGE ON SEQUENCE public.trade_orders_order_number_seq TO authenticated;
+GRANT ALL ON public.trade_orders TO service_role;
+
+ALTER TABLE public.trade_orders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Trade users can read their orders"
+  ON public.trade_orders FOR SELECT
+  TO authenticated
+  USING (customer_id = auth.uid());
+
+CREATE POLICY "Trade users can place orders"
+  ON public.trade_orders FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    customer_id = auth.uid() AND status = 'submitted' AND
+    (job_id IS NULL OR EXISTS (SELECT 1 FROM public.jobs WHERE jobs.id = job_id AND jobs.customer_id = auth.uid()))
+  );
+
+CREATE POLICY "Admins can manage trade orders"
+  ON public.trade_orders FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_trade_orders_updated_at
+  BEFORE UPDATE ON public.trade_orders
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+CREATE INDEX IF NOT EXISTS trade_orders_created_idx ON public.trade_orders (created_at DESC);
+CREATE INDEX IF NOT EXISTS trade_orders_job_idx ON public.trade_orders (job_id) WHERE job_id IS NOT NULL;
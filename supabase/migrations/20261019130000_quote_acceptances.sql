@@ -0,0 +1,48 @@
+-- Homeowner quote acceptance and e-signature.
+-- One row per accepted job revision: the terms version agreed to, the drawn
+-- (PNG data URL) or typed signature, the total and deposit, the deposit
+-- payment reference and the server-stamped time, IP and user agent. Rows are
+-- written only by the accept-quote edge function (service role); admins read
+-- them on the job page. The signed PDF is stored in the private
+-- job-documents bucket. See src/lib/homeowner/quoteAcceptance.ts.
+
+CREATE TABLE IF NOT EXISTS public.quote_acceptances (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES public.jobs(id) ON DELETE CASCADE,
+  revision_id UUID NOT NULL UNIQUE REFERENCES public.job_revisions(id) ON DELETE CASCADE,
+  revision_number INTEGER NOT NULL,
+  terms_version TEXT NOT NULL,
+  signer_name TEXT NOT NULL,
+  signature_kind TEXT NOT NULL CHECK (signature_kind IN ('drawn', 'typed')),
+  signature_data TEXT NOT NULL,
+  total NUMERIC NOT NULL,
+  deposit_amount NUMERIC NOT NULL,
+  payment_provider TEXT,
+  payment_reference TEXT,
+  signer_ip TEXT,
+  user_agent TEXT,
+  pdf_path TEXT,
+  accepted_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+GRANT SELECT ON public.quote_acceptances TO authenticated;
+GRANT ALL ON public.quote_acceptances TO service_role;
+
+ALTER TABLE public.quote_acceptances ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can read quote acceptances"
+  ON public.quote_acceptances FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE INDEX IF NOT EXISTS quote_acceptances_job_idx
+  ON public.quote_acceptances (job_id, accepted_at DESC);
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('job-documents', 'job-documents', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Admins can read job-documents"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'job-documents' AND public.has_role(auth.uid(), 'admin'));
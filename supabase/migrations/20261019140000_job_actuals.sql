@@ -0,0 +1,29 @@
+-- What a job really cost, for the quoted-vs-actual margin report.
+-- One row per job: supplier invoice totals ex GST per cost category and the
+-- labour hours each production stage took. The quote side stays in the job's
+-- design_data quote snapshots. See src/lib/trade/jobMargins.ts.
+
+CREATE TABLE IF NOT EXISTS public.job_actuals (
+  job_id UUID PRIMARY KEY REFERENCES public.jobs(id) ON DELETE CASCADE,
+  invoice_totals JSONB NOT NULL DEFAULT '{}',
+  labour_hours JSONB NOT NULL DEFAULT '{}',
+  notes TEXT,
+  recorded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.job_actuals TO authenticated;
+GRANT ALL ON public.job_actuals TO service_role;
+
+ALTER TABLE public.job_actuals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage job actuals"
+  ON public.job_actuals FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_job_actuals_updated_at
+  BEFORE UPDATE ON public.job_actuals
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
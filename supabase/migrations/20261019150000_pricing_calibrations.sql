@@ -0,0 +1,42 @@
+-- Calibration of the time model and board yields from completed jobs.
+-- job_actuals gains the whole sheets actually cut per board material. Each
+-- approved calibration is a row here with a new version: time rows carry the
+-- full build-hour rate set the BOM prices with from then on, yield rows the
+-- expected_yield_factor values written to material_pricing on approval. The
+-- latest version is part of every trade quote's pricing version.
+-- See src/lib/trade/calibration.ts.
+
+ALTER TABLE public.job_actuals ADD COLUMN IF NOT EXISTS sheets_used JSONB NOT NULL DEFAULT '{}';
+
+CREATE TABLE IF NOT EXISTS public.pricing_calibrations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  version SERIAL UNIQUE,
+  kind TEXT NOT NULL CHECK (kind IN ('time', 'yield')),
+  time_rates JSONB,
+  yield_factors JSONB,
+  fit JSONB NOT NULL DEFAULT '{}',
+  job_count INTEGER NOT NULL DEFAULT 0,
+  approved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  approved_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK ((kind = 'time') = (time_rates IS NOT NULL)),
+  CHECK ((kind = 'yield') = (yield_factors IS NOT NULL))
+);
+
+GRANT SELECT ON public.pricing_calibrations TO authenticated;
+GRANT INSERT ON public.pricing_calibrations TO authenticated;
+GRANT USAGE ON SEQUENCE public.pricing_calibrations_version_seq TO authenticated;
+GRANT ALL ON public.pricing_calibrations TO service_role;
+
+ALTER TABLE public.pricing_calibrations ENABLE ROW LEVEL SECURITY;
+
+-- Every quote prices with the approved rates, so any signed-in user reads them.
+CREATE POLICY "Authenticated users can view pricing calibrations"
+  ON public.pricing_calibrations FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Approvals are append-only: a correction is a newer version, never an edit.
+CREATE POLICY "Admins can approve pricing calibrations"
+  ON public.pricing_calibrations FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
@@ -0,0 +1,49 @@
+-- Dated price revisions from the pricing scenario simulator.
+-- An admin builds a set of edits to material_pricing, hardware_pricing and
+-- labor_rates, previews how they move a sample of saved jobs, then publishes
+-- the whole set at once. The revision row records when, by whom and the
+-- simulated impact; each edited value is a price_history row pointing at it.
+-- price_history was product-only until now, so the new columns say which
+-- pricing table, row and field changed. See src/lib/trade/priceScenario.ts.
+
+CREATE TABLE IF NOT EXISTS public.price_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  note TEXT,
+  effective_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  edit_count INTEGER NOT NULL DEFAULT 0 CHECK (edit_count >= 0),
+  impact JSONB NOT NULL DEFAULT '{}',
+  published_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+GRANT SELECT, INSERT ON public.price_revisions TO authenticated;
+GRANT ALL ON public.price_revisions TO service_role;
+
+ALTER TABLE public.price_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view price revisions"
+  ON public.price_revisions FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Published revisions are history: no UPDATE or DELETE policies.
+CREATE POLICY "Admins can publish price revisions"
+  ON public.price_revisions FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+ALTER TABLE public.price_history
+  ADD COLUMN IF NOT EXISTS revision_id UUID REFERENCES public.price_revisions(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS source_table TEXT
+    CHECK (source_table IN ('material_pricing', 'hardware_pricing', 'labor_rates')),
+  ADD COLUMN IF NOT EXISTS source_id TEXT,
+  ADD COLUMN IF NOT EXISTS field TEXT,
+  ADD COLUMN IF NOT EXISTS item_name TEXT,
+  -- Yield factors and per-unit handling costs need more than cents.
+  ALTER COLUMN old_price TYPE NUMERIC(12,4),
+  ALTER COLUMN new_price TYPE NUMERIC(12,4);
+
+CREATE INDEX IF NOT EXISTS price_history_revision_idx
+  ON public.price_history (revision_id)
+  WHERE revision_id IS NOT NULL;
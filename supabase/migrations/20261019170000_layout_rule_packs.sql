@@ -0,0 +1,178 @@
+-- Versioned layout rule packs: the thresholds and tiers the layout rules
+-- engine evaluates with, edited in Admin → Design Rules. An admin saves a
+-- draft (status 'pending'); it takes effect only once an admin approves it,
+-- and the newest approved row is the pack the browser and the ai-designer
+-- edge function both load. Approved and rejected rows are history and never
+-- change again. Each AI proposal records the pack version it was validated
+-- against. See src/lib/layout/rulePack.ts.
+
+CREATE TABLE IF NOT EXISTS public.layout_rule_packs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  version SERIAL UNIQUE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  parameters JSONB NOT NULL CHECK (jsonb_typeof(parameters) = 'array'),
+  note TEXT,
+  proposed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  proposed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  approved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  approved_at TIMESTAMPTZ,
+  CHECK ((status = 'pending') = (approved_at IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS layout_rule_packs_approved_idx
+  ON public.layout_rule_packs (version DESC)
+  WHERE status = 'approved';
+
+GRANT SELECT ON public.layout_rule_packs TO anon, authenticated;
+GRANT INSERT ON public.layout_rule_packs TO authenticated;
+-- Reviewing a draft sets its outcome; the parameters themselves stay as proposed.
+GRANT UPDATE (status, approved_by, approved_at) ON public.layout_rule_packs TO authenticated;
+GRANT USAGE ON SEQUENCE public.layout_rule_packs_version_seq TO authenticated;
+GRANT ALL ON public.layout_rule_packs TO service_role;
+
+ALTER TABLE public.layout_rule_packs ENABLE ROW LEVEL SECURITY;
+
+-- Homeowner designs are validated in the browser, signed in or not.
+CREATE POLICY "Anyone can view approved layout rule packs"
+  ON public.layout_rule_packs FOR SELECT
+  TO anon, authenticated
+  USING (status = 'approved');
+
+CREATE POLICY "Admins can view layout rule packs"
+  ON public.layout_rule_packs FOR SELECT
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can propose layout rule packs"
+  ON public.layout_rule_packs FOR INSERT
+  TO authenticated
+  WITH CHECK (public.has_role(auth.uid(), 'admin') AND status = 'pending');
+
+CREATE POLICY "Admins can review pending layout rule packs"
+  ON public.layout_rule_packs FOR UPDATE
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin') AND status = 'pending')
+  WITH CHECK (public.has_role(auth.uid(), 'admin') AND status IN ('approved', 'rejected'));
+
+ALTER TABLE public.ai_design_proposals ADD COLUMN IF NOT EXISTS rule_pack_version TEXT;
+
+-- Unchanged from 20260714110000 except that rule_pack_version is stored.
+CREATE OR REPLACE FUNCTION public.persist_ai_designer_proposals_v1(
+  p_session_id uuid,
+  p_expected_design_revision integer,
+  p_brief_revision_id uuid,
+  p_parent_proposal_id uuid,
+  p_proposals jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session public.ai_designer_sessions%ROWTYPE;
+  v_next_revision integer;
+  v_proposal jsonb;
+  v_proposal_id uuid;
+  v_violation jsonb;
+  v_count integer;
+BEGIN
+  IF p_proposals IS NULL OR jsonb_typeof(p_proposals) <> 'array' THEN
+    RAISE EXCEPTION 'invalid_proposals' USING ERRCODE = 'P0001';
+  END IF;
+  v_count := jsonb_array_length(p_proposals);
+  IF v_count < 1 OR v_count > 3 THEN
+    RAISE EXCEPTION 'invalid_proposals' USING ERRCODE = 'P0001';
+  END IF;
+
+  SELECT * INTO v_session
+  FROM public.ai_designer_sessions
+  WHERE id = p_session_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_session.status <> 'active' OR v_session.expires_at <= now() THEN
+    RAISE EXCEPTION 'invalid_ai_session' USING ERRCODE = 'P0001';
+  END IF;
+  IF v_session.design_revision <> p_expected_design_revision THEN
+    RAISE EXCEPTION 'stale_design_revision' USING ERRCODE = 'P0001';
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM public.ai_design_brief_revisions
+    WHERE id = p_brief_revision_id AND session_id = p_session_id
+  ) THEN
+    RAISE EXCEPTION 'invalid_brief_revision' USING ERRCODE = 'P0001';
+  END IF;
+  IF p_parent_proposal_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.ai_design_proposals
+    WHERE id = p_parent_proposal_id AND session_id = p_session_id
+      AND status IN ('validated', 'selected')
+  ) THEN
+    RAISE EXCEPTION 'invalid_parent_proposal' USING ERRCODE = 'P0001';
+  END IF;
+
+  v_next_revision := v_session.design_revision + 1;
+
+  FOR v_proposal IN SELECT value FROM jsonb_array_elements(p_proposals)
+  LOOP
+    IF jsonb_typeof(v_proposal) <> 'object'
+       OR (v_proposal->>'id') IS NULL
+       OR (v_proposal->>'proposalFingerprint') !~ '^[0-9a-f]{64}$'
+       OR (v_proposal->>'ruleResultsFingerprint') !~ '^[0-9a-f]{64}$' THEN
+      RAISE EXCEPTION 'invalid_proposals' USING ERRCODE = 'P0001';
+    END IF;
+
+    v_proposal_id := (v_proposal->>'id')::uuid;
+    INSERT INTO public.ai_design_proposals (
+      id, session_id, brief_revision_id, parent_proposal_id,
+      request_proposal_id, design_revision, mode, name, spec, compiled_items,
+      price_band, violations, rationale, proposal_fingerprint,
+      rule_results_fingerprint, engine_version, catalog_version,
+      pricing_version, prompt_version, rule_pack_version, model_provider, model_id,
+      catalog_snapshot, pricing_snapshot, quote_ready
+    ) VALUES (
+      v_proposal_id, p_session_id, p_brief_revision_id, p_parent_proposal_id,
+      v_proposal->>'requestProposalId', v_next_revision, v_proposal->>'mode',
+      v_proposal->>'name', v_proposal->'spec', v_proposal->'compiledItems',
+      v_proposal->'priceBand', COALESCE(v_proposal->'violations', '[]'::jsonb),
+      COALESCE(v_proposal->>'rationale', ''), v_proposal->>'proposalFingerprint',
+      v_proposal->>'ruleResultsFingerprint', v_proposal->>'engineVersion',
+      v_proposal->>'catalogVersion', v_proposal->>'pricingVersion',
+      v_proposal->>'promptVersion', v_proposal->>'rulePackVersion', v_proposal->>'modelProvider',
+      v_proposal->>'modelId', v_proposal->'catalogSnapshot',
+      v_proposal->'pricingSnapshot', COALESCE((v_proposal->>'quoteReady')::boolean, false)
+    );
+
+    FOR v_violation IN SELECT value FROM jsonb_array_elements(COALESCE(v_proposal->'violations', '[]'::jsonb))
+    LOOP
+      INSERT INTO public.ai_design_rule_results (
+        proposal_id, rule_id, severity, outcome, owner, message, evidence, result_fingerprint
+      ) VALUES (
+        v_proposal_id,
+        COALESCE(v_violation->>'code', 'unknown-rule'),
+        COALESCE(v_violation->>'severity', 'warn'),
+        CASE WHEN v_violation->>'severity' = 'error' THEN 'blocked' ELSE 'warning' END,
+        'designer-review',
+        COALESCE(v_violation->>'message', ''),
+        v_violation,
+        COALESCE(v_violation->>'resultFingerprint', v_proposal->>'ruleResultsFingerprint')
+      )
+      ON CONFLICT (proposal_id, rule_id) DO NOTHING;
+    END LOOP;
+  END LOOP;
+
+  IF p_parent_proposal_id IS NOT NULL THEN
+    UPDATE public.ai_design_proposals
+      SET status = 'selected', selected_at = COALESCE(selected_at, now())
+      WHERE id = p_parent_proposal_id;
+  END IF;
+
+  UPDATE public.ai_designer_sessions
+    SET design_revision = v_next_revision
+    WHERE id = p_session_id;
+
+  RETURN jsonb_build_object('designRevision', v_next_revision, 'proposalCount', v_count);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.persist_ai_designer_proposals_v1(uuid, integer, uuid, uuid, jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.persist_ai_designer_proposals_v1(uuid, integer, uuid, uuid, jsonb) TO service_role;
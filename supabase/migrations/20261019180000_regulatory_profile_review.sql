@@ -0,0 +1,69 @@
+-- Regulatory profiles for every Australian state and territory and NZ, with
+-- reviewer sign-off. Staff copy a jurisdiction's seed draft into
+-- ai_regulatory_profiles from Admin → Design Rules, verify each parameter and
+-- its clause, and approve it with the qualified reviewer's name and the
+-- effective dates; approval records the SHA-256 content hash of what was
+-- signed. Approved rows are then fixed: they can only be retired, and a
+-- revision is a new draft row. See src/lib/designV2/regulatoryProfiles.ts.
+
+ALTER TABLE public.ai_regulatory_profiles
+  DROP CONSTRAINT IF EXISTS ai_regulatory_profiles_jurisdiction_check;
+ALTER TABLE public.ai_regulatory_profiles
+  ADD CONSTRAINT ai_regulatory_profiles_jurisdiction_check
+  CHECK (jurisdiction IN ('AU-ACT', 'AU-NSW', 'AU-NT', 'AU-QLD', 'AU-SA', 'AU-TAS', 'AU-VIC', 'AU-WA', 'NZ'));
+
+ALTER TABLE public.ai_regulatory_profiles
+  ADD COLUMN IF NOT EXISTS standards_editions jsonb NOT NULL DEFAULT '{}'::jsonb
+    CHECK (jsonb_typeof(standards_editions) = 'object'),
+  ADD COLUMN IF NOT EXISTS qualified_approver text,
+  ADD COLUMN IF NOT EXISTS content_hash text
+    CHECK (content_hash IS NULL OR content_hash ~ '^[0-9a-f]{64}$');
+
+ALTER TABLE public.ai_regulatory_profiles
+  ADD CONSTRAINT ai_regulatory_profiles_signed_off
+  CHECK (status = 'draft' OR (qualified_approver IS NOT NULL AND content_hash IS NOT NULL));
+
+-- Once approved, a profile's contents are what the hash signs; the only
+-- change left is approved → retired.
+CREATE OR REPLACE FUNCTION public.guard_signed_regulatory_profile()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status = 'draft' THEN
+    RETURN NEW;
+  END IF;
+  IF NOT (OLD.status = 'approved' AND NEW.status IN ('approved', 'retired'))
+     OR (to_jsonb(NEW) - 'status' - 'updated_at') <> (to_jsonb(OLD) - 'status' - 'updated_at') THEN
+    RAISE EXCEPTION 'regulatory_profile_signed' USING ERRCODE = 'P0001';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_signed_ai_regulatory_profiles
+  BEFORE UPDATE ON public.ai_regulatory_profiles
+  FOR EACH ROW EXECUTE FUNCTION public.guard_signed_regulatory_profile();
+
+CREATE OR REPLACE FUNCTION public.forbid_signed_regulatory_profile_delete()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status <> 'draft' THEN
+    RAISE EXCEPTION 'regulatory_profile_signed' USING ERRCODE = 'P0001';
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER forbid_signed_ai_regulatory_profiles_delete
+  BEFORE DELETE ON public.ai_regulatory_profiles
+  FOR EACH ROW EXECUTE FUNCTION public.forbid_signed_regulatory_profile_delete();
+
+-- One open review per profile at a time.
+CREATE UNIQUE INDEX IF NOT EXISTS ai_regulatory_profiles_one_draft
+  ON public.ai_regulatory_profiles (profile_key)
+  WHERE status = 'draft';
@@ -0,0 +1,58 @@
+-- Offcuts reserved for a job leave the inventory once the job is cut. The
+-- cut list runs as soon as a job goes into production, so from then on its
+-- reserved offcuts are board in the job, not stock: they become 'used'.
+-- A reservation whose job is deleted (reserved_job_id set null by the
+-- foreign key) goes back to 'available' rather than staying held for nobody.
+
+CREATE OR REPLACE FUNCTION public.consume_job_offcuts()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IN ('in_production', 'completed')
+     AND OLD.status IS DISTINCT FROM NEW.status
+     AND OLD.status NOT IN ('in_production', 'completed') THEN
+    UPDATE public.offcut_inventory
+      SET status = 'used'
+      WHERE reserved_job_id = NEW.id
+        AND status = 'reserved';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER consume_job_offcuts_on_production
+  AFTER UPDATE OF status ON public.jobs
+  FOR EACH ROW EXECUTE FUNCTION public.consume_job_offcuts();
+
+CREATE OR REPLACE FUNCTION public.release_orphaned_offcut_reservation()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'reserved' AND NEW.reserved_job_id IS NULL THEN
+    NEW.status := 'available';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER release_orphaned_offcut_reservation
+  BEFORE UPDATE ON public.offcut_inventory
+  FOR EACH ROW EXECUTE FUNCTION public.release_orphaned_offcut_reservation();
+
+-- Jobs already past cutting when this shipped.
+UPDATE public.offcut_inventory o
+  SET status = 'used'
+  FROM public.jobs j
+  WHERE o.reserved_job_id = j.id
+    AND o.status = 'reserved'
+    AND j.status IN ('in_production', 'completed');
+
+UPDATE public.offcut_inventory
+  SET status = 'available'
+  WHERE status = 'reserved'
+    AND reserved_job_id IS NULL;
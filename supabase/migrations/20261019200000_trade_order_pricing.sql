@@ -0,0 +1,113 @@
+-- Trade Supply Store orders are priced on the server. The browser used to
+-- insert trade_orders with its own line prices and totals; now it sends SKUs
+-- and quantities to place_trade_order_v1, which prices them from the live
+-- catalogue exactly as src/lib/trade/tradeOrders.ts priceCart does (hardware
+-- at unit cost plus the account's hardware markup, appliances at list price,
+-- 10% GST) and writes the order itself.
+
+DROP POLICY IF EXISTS "Trade users can place orders" ON public.trade_orders;
+REVOKE INSERT ON public.trade_orders FROM authenticated;
+REVOKE USAGE ON SEQUENCE public.trade_orders_order_number_seq FROM authenticated;
+
+CREATE OR REPLACE FUNCTION public.place_trade_order_v1(
+  p_items jsonb,
+  p_job_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user uuid := auth.uid();
+  v_markup public.client_markup_settings%ROWTYPE;
+  v_hardware_markup numeric := 0;
+  v_lines jsonb;
+  v_requested int;
+  v_priced int;
+  v_subtotal numeric;
+  v_tax numeric;
+  v_order_number int;
+BEGIN
+  IF v_user IS NULL THEN
+    RAISE EXCEPTION 'not_authorized' USING ERRCODE = 'P0001';
+  END IF;
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'invalid_order' USING ERRCODE = 'P0001';
+  END IF;
+  IF p_job_id IS NOT NULL
+     AND NOT EXISTS (SELECT 1 FROM public.jobs WHERE id = p_job_id AND customer_id = v_user) THEN
+    RAISE EXCEPTION 'invalid_job' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Same profile useClientMarkup picks: the account's default, any of its
+  -- profiles, then the global default.
+  SELECT * INTO v_markup FROM public.client_markup_settings
+    WHERE client_id = v_user
+    ORDER BY is_default IS TRUE DESC, created_at
+    LIMIT 1;
+  IF NOT FOUND THEN
+    SELECT * INTO v_markup FROM public.client_markup_settings
+      WHERE client_id IS NULL AND is_default IS TRUE
+      LIMIT 1;
+  END IF;
+  IF FOUND THEN
+    v_hardware_markup := CASE
+      WHEN coalesce(v_markup.markup_type, 'percentage') = 'percentage' THEN coalesce(v_markup.hardware_markup, 0) / 100
+      ELSE coalesce(v_markup.hardware_markup, 0)
+    END;
+  END IF;
+
+  WITH requested AS (
+    SELECT item->>'kind' AS kind, item->>'sku' AS sku, sum(floor((item->>'quantity')::numeric))::int AS quantity
+    FROM jsonb_array_elements(p_items) AS item
+    GROUP BY 1, 2
+  ),
+  catalogue AS (
+    SELECT 'hardware' AS kind, h.item_code AS sku, h.name, round(coalesce(h.unit_cost, 0) * (1 + v_hardware_markup), 2) AS unit_price
+    FROM public.hardware_pricing h
+    WHERE h.visibility_status = 'Available'
+    UNION ALL
+    SELECT 'appliance',
+           coalesce(nullif(a.item_code, ''), upper(left(a.id::text, 8))),
+           CASE WHEN a.brand IS NOT NULL THEN a.brand || ' ' || a.name ELSE a.name END,
+           round(coalesce(a.installed_price, a.sell_price, a.rrp, 0), 2)
+    FROM public.appliance_products a
+    WHERE a.is_active
+  ),
+  priced AS (
+    SELECT DISTINCT ON (r.kind, r.sku)
+      r.kind, r.sku, c.name, r.quantity, c.unit_price, round(c.unit_price * r.quantity, 2) AS line_total
+    FROM requested r
+    JOIN catalogue c ON c.kind = r.kind AND c.sku = r.sku
+    WHERE r.quantity > 0
+    ORDER BY r.kind, r.sku
+  )
+  SELECT
+    (SELECT count(*) FROM requested),
+    count(*),
+    coalesce(jsonb_agg(jsonb_build_object(
+      'kind', kind, 'sku', sku, 'name', name, 'quantity', quantity,
+      'unitPrice', unit_price, 'lineTotal', line_total
+    ) ORDER BY kind, sku), '[]'::jsonb),
+    coalesce(sum(line_total), 0)
+  INTO v_requested, v_priced, v_lines, v_subtotal
+  FROM priced;
+
+  -- A SKU that left the catalogue since the cart was priced fails the whole
+  -- order rather than quietly shipping less than the customer saw.
+  IF v_priced = 0 OR v_priced <> v_requested THEN
+    RAISE EXCEPTION 'invalid_order_item' USING ERRCODE = 'P0001';
+  END IF;
+
+  v_tax := round(v_subtotal * 0.1, 2);
+  INSERT INTO public.trade_orders (customer_id, job_id, items, subtotal, tax, total)
+    VALUES (v_user, p_job_id, v_lines, v_subtotal, v_tax, v_subtotal + v_tax)
+    RETURNING order_number INTO v_order_number;
+
+  RETURN jsonb_build_object('orderNumber', v_order_number, 'total', v_subtotal + v_tax);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.place_trade_order_v1(jsonb, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.place_trade_order_v1(jsonb, uuid) TO authenticated, service_role;
@@ -0,0 +1,8 @@
+-- Quote acceptance evidence. evidence_hash is the SHA-256 the accept-quote
+-- edge function takes over the accepted revision (frozen design, pricing hash)
+-- and the signature, total, deposit and terms. The signed PDF prints it, and
+-- attach refuses a PDF that does not or a record that no longer hashes to it.
+-- pdf_sha256 fingerprints the stored file.
+
+ALTER TABLE public.quote_acceptances ADD COLUMN IF NOT EXISTS evidence_hash TEXT;
+ALTER TABLE public.quote_acceptances ADD COLUMN IF NOT EXISTS pdf_sha256 TEXT;
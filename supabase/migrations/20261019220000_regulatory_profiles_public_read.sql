@@ -0,0 +1,12 @@
+-- Designs are checked against the approved regulatory profile for their
+-- jurisdiction in the browser, and the homeowner wizard runs signed out. Let
+-- anyone read approved profiles (drafts and retired rows stay staff-only);
+-- the browser still only uses rows whose contents match their content hash.
+-- See src/hooks/useRegulatoryProfiles.ts.
+
+GRANT SELECT ON public.ai_regulatory_profiles TO anon;
+
+CREATE POLICY "Anyone can view approved regulatory profiles"
+  ON public.ai_regulatory_profiles FOR SELECT
+  TO anon
+  USING (status = 'approved');
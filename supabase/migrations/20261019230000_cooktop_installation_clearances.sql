@@ -0,0 +1,19 @@
+-- Cooktop installation clearances from the manufacturer's instructions.
+--
+-- The clearance rules (KRN-RH-001, KRN-COOK-002) hold a gas cooktop to the
+-- matched regulatory profile, or to the model's installation instructions
+-- when those are stricter. The instructions had nowhere to live, so the
+-- stricter figure never reached the rules. All three are nullable: a blank
+-- means the instructions have not been checked, not that there is no limit.
+
+ALTER TABLE public.appliance_products
+  ADD COLUMN IF NOT EXISTS rangehood_clearance_mm INT CHECK (rangehood_clearance_mm > 0),
+  ADD COLUMN IF NOT EXISTS overhead_clearance_mm  INT CHECK (overhead_clearance_mm > 0),
+  ADD COLUMN IF NOT EXISTS trivet_height_mm       INT CHECK (trivet_height_mm >= 0);
+
+COMMENT ON COLUMN public.appliance_products.rangehood_clearance_mm IS
+  'Cooktops: minimum rangehood height above the cooktop per the installation instructions, mm.';
+COMMENT ON COLUMN public.appliance_products.overhead_clearance_mm IS
+  'Cooktops: minimum height of any other surface above the cooktop per the installation instructions, mm.';
+COMMENT ON COLUMN public.appliance_products.trivet_height_mm IS
+  'Cooktops: trivet top above the benchtop, mm; the instructions measure clearances from it.';
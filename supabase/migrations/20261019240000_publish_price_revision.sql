@@ -0,0 +1,84 @@
+-- Price revisions are published by publish_price_revision_v1 in one
+-- transaction. The simulator used to insert the revision, update each pricing
+-- row and then write price_history as separate requests, so a failure part
+-- way left some prices changed with no history, and a value edited by someone
+-- else after the simulation was silently overwritten. The function checks
+-- every row still holds the value the edit was simulated from and takes
+-- effect when it is published; effective_at is that moment.
+-- Editable fields match EDITABLE_PRICE_FIELDS in src/lib/trade/priceScenario.ts.
+
+DROP POLICY IF EXISTS "Admins can publish price revisions" ON public.price_revisions;
+REVOKE INSERT ON public.price_revisions FROM authenticated;
+
+CREATE OR REPLACE FUNCTION public.publish_price_revision_v1(
+  p_name text,
+  p_edits jsonb,
+  p_impact jsonb DEFAULT '{}'::jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user uuid := auth.uid();
+  v_revision_id uuid;
+  v_edit jsonb;
+  v_table text;
+  v_field text;
+  v_row_id uuid;
+  v_from numeric;
+  v_current numeric;
+  v_rows int;
+BEGIN
+  IF v_user IS NULL OR NOT public.has_role(v_user, 'admin') THEN
+    RAISE EXCEPTION 'not_authorized' USING ERRCODE = 'P0001';
+  END IF;
+  IF p_edits IS NULL OR jsonb_typeof(p_edits) <> 'array' OR jsonb_array_length(p_edits) = 0
+     OR coalesce(btrim(p_name), '') = '' THEN
+    RAISE EXCEPTION 'invalid_revision' USING ERRCODE = 'P0001';
+  END IF;
+
+  INSERT INTO public.price_revisions (name, effective_at, edit_count, impact, published_by)
+    VALUES (btrim(p_name), now(), jsonb_array_length(p_edits), coalesce(p_impact, '{}'::jsonb), v_user)
+    RETURNING id INTO v_revision_id;
+
+  FOR v_edit IN SELECT * FROM jsonb_array_elements(p_edits) LOOP
+    v_table := v_edit->>'table';
+    v_field := v_edit->>'field';
+    -- Table and field names are interpolated below, so only known pairs pass.
+    IF NOT (
+      (v_table = 'material_pricing' AND v_field IN ('area_cost', 'area_handling_cost', 'area_assembly_cost', 'expected_yield_factor', 'minimum_job_area'))
+      OR (v_table = 'hardware_pricing' AND v_field IN ('unit_cost', 'handling_cost', 'machining_cost', 'assembly_cost'))
+      OR (v_table = 'labor_rates' AND v_field = 'rate')
+    ) OR (v_edit->>'to') IS NULL OR (v_edit->>'to')::numeric < 0 THEN
+      RAISE EXCEPTION 'invalid_revision' USING ERRCODE = 'P0001';
+    END IF;
+    v_row_id := (v_edit->>'rowId')::uuid;
+    v_from := (v_edit->>'from')::numeric;
+
+    EXECUTE format('SELECT %I::numeric FROM public.%I WHERE id = $1 FOR UPDATE', v_field, v_table)
+      INTO v_current USING v_row_id;
+    GET DIAGNOSTICS v_rows = ROW_COUNT;
+    IF v_rows = 0 THEN
+      RAISE EXCEPTION 'price_row_missing' USING ERRCODE = 'P0001', DETAIL = v_edit->>'itemName';
+    END IF;
+    -- Someone changed this value after the simulation ran: publish nothing.
+    IF v_current IS DISTINCT FROM v_from THEN
+      RAISE EXCEPTION 'price_changed' USING ERRCODE = 'P0001', DETAIL = v_edit->>'itemName';
+    END IF;
+
+    EXECUTE format('UPDATE public.%I SET %I = $1 WHERE id = $2', v_table, v_field)
+      USING (v_edit->>'to')::numeric, v_row_id;
+
+    INSERT INTO public.price_history
+      (revision_id, source_table, source_id, field, item_name, old_price, new_price, changed_by)
+      VALUES (v_revision_id, v_table, v_row_id::text, v_field, v_edit->>'itemName', v_from, (v_edit->>'to')::numeric, v_user);
+  END LOOP;
+
+  RETURN jsonb_build_object('revisionId', v_revision_id, 'editCount', jsonb_array_length(p_edits));
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.publish_price_revision_v1(text, jsonb, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.publish_price_revision_v1(text, jsonb, jsonb) TO authenticated, service_role;
@@ -5,7 +5,7 @@
 // Run from the repo root:  node backups/trade-ai.test.cjs
 //
 // Covers src/lib/trade/aiDesignForRoom.ts (+ proposalToTradeRoom, cabinetPlacedItem):
-//   brief mapping, openings/services defaulting, shape defaulting, that only
+//   brief mapping, openings/services defaulting, shape and room-type defaulting, that only
 //   Cabinet/Appliance items convert, that spec.style flows into the room
 //   defaults, and that applyAiOptionToRoom returns a PATCH that preserves the
 //   room's identity (no id/config/shape/dimensions).
@@ -37,7 +37,7 @@ if (!globalThis.crypto) globalThis.crypto = require('crypto').webcrypto;
 
 const {
   buildBriefForRoom, defaultTradeAiInputs, roomSpecFromTradeRoom,
-  applyAiOptionToRoom, defaultShapeForRoom,
+  applyAiOptionToRoom, defaultShapeForRoom, roomTypeFromName,
 } = require(path.join(OUT, 'aiDesignForRoom.js'));
 
 let fail = 0;
@@ -82,6 +82,12 @@ const di = defaultTradeAiInputs(rectRoom);
 ok('default inputs seed shape from room', di.shape === 'u-shape');
 ok('default priorities are storage+bench', JSON.stringify(di.priorities) === JSON.stringify(['storage', 'bench-space']));
 ok('default styleWords from description', di.styleWords === 'coastal oak');
+ok('kitchen room defaults to kitchen type', di.roomType === 'kitchen');
+ok('room type read from the room name',
+  roomTypeFromName('Laundry') === 'laundry' && roomTypeFromName('Master robe') === 'wardrobe' && roomTypeFromName('Ensuite') === 'bathroom');
+const laundryInputs = defaultTradeAiInputs({ ...rectRoom, name: 'Laundry' });
+ok('non-kitchen rooms default to one wall', laundryInputs.roomType === 'laundry' && laundryInputs.shape === 'single-wall');
+ok('brief carries a non-kitchen room type', buildBriefForRoom(rectRoom, laundryInputs).roomType === 'laundry');
 
 // roomSpec defaulting
 const rs = roomSpecFromTradeRoom(rectRoom);
@@ -101,6 +107,7 @@ ok('brief budgetBand mapped', brief.budgetBand === 'premium');
 ok('blank styleWords falls back to description', brief.styleWords === 'coastal oak');
 ok('no allowedWalls => undefined', brief.allowedWalls === undefined);
 ok('household defaults to {}', JSON.stringify(brief.household) === '{}');
+ok('kitchen brief leaves roomType unset', brief.roomType === undefined);
 
 // apply option => merge patch
 const patch = applyAiOptionToRoom(rectRoom, mkOption(), rs, { now });
@@ -115,6 +115,13 @@ export default defineConfig(({ mode }) => {
   build: {
     chunkSizeWarningLimit: 750,
     rollupOptions: {
+      // jsPDF lazily imports these only for doc.html() and addSvgAsImage(),
+      // which the app never calls (every PDF is drawn with jsPDF primitives
+      // and autotable). Inlined they were ~330 KiB of the single bundle, and
+      // the bundle cannot be split (see inlineDynamicImports below); left
+      // external, jsPDF's own loader reports them missing if ever used.
+      // test:bundle-budget fails if either call appears in src.
+      external: ["html2canvas", "canvg", "dompurify"],
       output: {
         // The customer's browser protection blocks dynamically imported
         // application modules with ERR_BLOCKED_BY_CLIENT. Keep the production